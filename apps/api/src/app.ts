@@ -7,16 +7,18 @@ import { getPublicClient } from '@parker/core'
 import { authRouter } from './routes/auth'
 import { driversRouter } from './routes/drivers'
 import { gateRouter } from './routes/gate'
+import { policiesRouter } from './routes/policies'
 import { sessionsRouter } from './routes/sessions'
 import { webhooksRouter } from './routes/webhooks'
 import { verifyWallet } from './middleware/auth'
 import { strictLimit, mediumLimit, standardLimit } from './middleware/rateLimit'
 import { observabilityMiddleware } from './middleware/observability'
-import { isBaseEnabled } from './services/blockchain'
+import { createX402TransferAuthorization, isBaseEnabled } from './services/blockchain'
 import { isHederaEnabled } from './services/hedera'
 import { isStripeEnabled } from './services/stripe'
 import { metrics } from './services/observability'
 import { getReadinessReport } from './services/health'
+import { getX402AmountDue } from './services/settlementAmount'
 
 export function createApp() {
   const app = express()
@@ -56,6 +58,11 @@ export function createApp() {
       // Cast: viem PublicClient types can differ between @parker/core and @parker/x402
       publicClient: publicClient as any,
       settlementAdapter,
+      // Gasless EVM payments: signed EIP-3009 authorizations relayed with X402_RELAYER_PRIVATE_KEY
+      // once they cover the quote of the plate's exit
+      transferAuthorization: publicClient
+        ? createX402TransferAuthorization((req, token) => getX402AmountDue(req.body, token))
+        : undefined,
     }),
   )
 
@@ -108,6 +115,7 @@ export function createApp() {
   app.use('/api/auth', authRouter)
   app.use('/api/drivers', driversRouter)
   app.use('/api/gate', gateRouter)
+  app.use('/api/policies', policiesRouter)
   app.use('/api/sessions', sessionsRouter)
 
   return app
@@ -0,0 +1,6 @@
+-- Migration: time-of-day / day-of-week tariff schedules for lots
+--   timezone: IANA zone the tariff bands are evaluated in
+--   tariff:   ordered JSON array of rate bands (first match wins)
+
+ALTER TABLE lots ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+ALTER TABLE lots ADD COLUMN IF NOT EXISTS tariff JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,9 @@
+-- Migration: per-day maxDailyFee windows for multi-day sessions
+--   rolling_24h:  consecutive 24h windows from entry (default)
+--   calendar_day: local calendar days in the lot's timezone
+
+ALTER TABLE lots ADD COLUMN IF NOT EXISTS daily_cap_mode VARCHAR(16) NOT NULL DEFAULT 'rolling_24h';
+
+ALTER TABLE lots DROP CONSTRAINT IF EXISTS chk_lot_daily_cap_mode;
+ALTER TABLE lots ADD CONSTRAINT chk_lot_daily_cap_mode
+  CHECK (daily_cap_mode IN ('rolling_24h', 'calendar_day'));
@@ -0,0 +1,5 @@
+-- Migration: persist the FX rate used for a decision's stablecoin quote
+--   fx_snapshot: FxSnapshot { baseCurrency, quoteAssetSymbol, rate, asOf, provider }
+--   NULL when the decision has no stablecoin quote (fiat-only or FX unavailable)
+
+ALTER TABLE policy_decisions ADD COLUMN IF NOT EXISTS fx_snapshot JSONB;
@@ -0,0 +1,22 @@
+-- Migration: database-backed owner / vehicle / lot policy layers
+--   policy_layers: one Policy document per (layer, subject)
+--     owner   → subject is the driver wallet (lowercased)
+--     vehicle → subject is the normalized plate number
+--     lot     → subject is the lot id
+--   policy_grants.policy_layers: layers merged into the grant's effective policy (audit)
+
+CREATE TABLE IF NOT EXISTS policy_layers (
+    id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    layer       VARCHAR(10) NOT NULL,
+    subject     VARCHAR(100) NOT NULL,
+    policy      JSONB NOT NULL,
+    created_at  TIMESTAMPTZ DEFAULT NOW(),
+    updated_at  TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (layer, subject)
+);
+
+ALTER TABLE policy_layers DROP CONSTRAINT IF EXISTS chk_policy_layers_layer;
+ALTER TABLE policy_layers ADD CONSTRAINT chk_policy_layers_layer
+  CHECK (layer IN ('owner', 'vehicle', 'lot'));
+
+ALTER TABLE policy_grants ADD COLUMN IF NOT EXISTS policy_layers JSONB;
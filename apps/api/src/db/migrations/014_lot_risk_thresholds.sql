@@ -0,0 +1,4 @@
+-- Migration: per-lot risk score thresholds for entry/exit policy evaluation
+--   risk_thresholds: {"requireApproval": n, "deny"?: n} (0..100); NULL = platform defaults
+
+ALTER TABLE lots ADD COLUMN IF NOT EXISTS risk_thresholds JSONB;
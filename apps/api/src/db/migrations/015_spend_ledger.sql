@@ -0,0 +1,46 @@
+-- Migration: durable spend ledger for daily, owner and fleet caps
+--   spend_ledger: one row per settled session, written in the same statement that closes it
+--     amount_minor: fee in minor units of currency (ISO 4217 exponent)
+--     owner_wallet / fleet_id: copied from the driver at settlement (lowercased wallet)
+--   drivers.fleet_id: optional fleet the vehicle belongs to
+
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS fleet_id VARCHAR(64);
+CREATE INDEX IF NOT EXISTS idx_drivers_fleet ON drivers(fleet_id) WHERE fleet_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS spend_ledger (
+    id            BIGSERIAL PRIMARY KEY,
+    session_id    UUID NOT NULL UNIQUE REFERENCES sessions(id),
+    plate_number  VARCHAR(20) NOT NULL,
+    owner_wallet  VARCHAR(42),
+    fleet_id      VARCHAR(64),
+    lot_id        VARCHAR(50) NOT NULL,
+    amount_minor  BIGINT NOT NULL CHECK (amount_minor >= 0),
+    currency      VARCHAR(10) NOT NULL,
+    rail          VARCHAR(16),
+    decision_id   VARCHAR(64),
+    tx_hash       VARCHAR(128),
+    settled_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_spend_ledger_plate ON spend_ledger(plate_number, currency, settled_at);
+CREATE INDEX IF NOT EXISTS idx_spend_ledger_owner ON spend_ledger(owner_wallet, currency, settled_at)
+  WHERE owner_wallet IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_spend_ledger_fleet ON spend_ledger(fleet_id, currency, settled_at)
+  WHERE fleet_id IS NOT NULL;
+
+-- Backfill from sessions closed before the ledger existed
+INSERT INTO spend_ledger
+  (session_id, plate_number, owner_wallet, fleet_id, lot_id, amount_minor, currency, settled_at)
+SELECT s.id, s.plate_number, LOWER(d.wallet), d.fleet_id, s.lot_id,
+       ROUND(s.fee_amount * POWER(10, CASE
+         WHEN s.fee_currency IN ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG',
+                                 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') THEN 0
+         WHEN s.fee_currency IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+         ELSE 2 END))::bigint,
+       s.fee_currency, COALESCE(s.exit_time, NOW())
+FROM sessions s
+LEFT JOIN drivers d ON d.plate_number = s.plate_number
+WHERE s.status IN ('closed', 'completed')
+  AND s.fee_amount IS NOT NULL
+  AND s.fee_currency IS NOT NULL
+ON CONFLICT (session_id) DO NOTHING;
@@ -0,0 +1,37 @@
+-- Migration: owner approvals for REQUIRE_APPROVAL payment decisions
+--   approval_requests: one per REQUIRE_APPROVAL decision, signed off (EIP-712) by the vehicle
+--     owner or a delegate; pending requests time out at expires_at
+--   approval_delegates: wallets an owner allows to approve on their behalf (lowercased)
+
+CREATE TABLE IF NOT EXISTS approval_requests (
+    id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    decision_id      VARCHAR(64) NOT NULL UNIQUE REFERENCES policy_decisions(decision_id),
+    session_id       UUID NOT NULL REFERENCES sessions(id),
+    plate_number     VARCHAR(20) NOT NULL,
+    lot_id           VARCHAR(50) NOT NULL,
+    owner_wallet     VARCHAR(42) NOT NULL,
+    amount_minor     BIGINT NOT NULL CHECK (amount_minor >= 0),
+    currency         VARCHAR(10) NOT NULL,
+    reasons          JSONB NOT NULL DEFAULT '[]'::jsonb,
+    status           VARCHAR(16) NOT NULL DEFAULT 'pending'
+                     CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+    approver_wallet  VARCHAR(42),
+    signature        TEXT,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at       TIMESTAMPTZ NOT NULL,
+    resolved_at      TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_session ON approval_requests(session_id, status);
+CREATE INDEX IF NOT EXISTS idx_approval_requests_owner_pending ON approval_requests(owner_wallet)
+  WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS approval_delegates (
+    owner_wallet     VARCHAR(42) NOT NULL,
+    delegate_wallet  VARCHAR(42) NOT NULL,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (owner_wallet, delegate_wallet),
+    CHECK (owner_wallet <> delegate_wallet)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_delegates_delegate ON approval_delegates(delegate_wallet);
@@ -0,0 +1,30 @@
+-- Migration: grant state for the expiry sweeper
+--   grant_state: active | expired. The sweeper moves grants past expires_at to expired and
+--   emits POLICY_GRANT_EXPIRED for sessions that are still open.
+
+ALTER TABLE policy_grants
+  ADD COLUMN IF NOT EXISTS grant_state VARCHAR(16) NOT NULL DEFAULT 'active';
+
+ALTER TABLE policy_grants
+  DROP CONSTRAINT IF EXISTS chk_policy_grant_state;
+
+ALTER TABLE policy_grants
+  ADD CONSTRAINT chk_policy_grant_state
+  CHECK (grant_state IN ('active', 'expired'));
+
+-- Grants of finished sessions are expired without events.
+UPDATE policy_grants g
+SET grant_state = 'expired'
+FROM sessions s
+WHERE s.id = g.session_id
+  AND g.expires_at <= NOW()
+  AND s.status IN ('closed', 'denied');
+
+CREATE INDEX IF NOT EXISTS idx_policy_grants_active_expires_at ON policy_grants(expires_at)
+  WHERE grant_state = 'active';
+CREATE INDEX IF NOT EXISTS idx_policy_decisions_open_expires_at ON policy_decisions(expires_at)
+  WHERE decision_state IN ('created', 'approved');
+CREATE INDEX IF NOT EXISTS idx_xrpl_intents_pending_expires_at ON xrpl_payment_intents(expires_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_approval_requests_pending_expires_at ON approval_requests(expires_at)
+  WHERE status = 'pending';
@@ -0,0 +1,5 @@
+-- Migration: operator comp (discount) on sessions
+--   comp: {"percent": n} (1..100) or {"amountMinor": "n"} (minor units of the lot currency);
+--   NULL = no discount. Applied to the exit fee.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS comp JSONB;
@@ -0,0 +1,33 @@
+-- Migration: review queue for payments that settled but failed policy enforcement
+--   payment_reviews: one per rejected settlement (tx_hash), opened from POLICY_ENFORCEMENT_FAILED
+--     with the settlement evidence; an operator accepts the payment (closes the session),
+--     requests a refund, or requests a top-up
+--   amount: settled amount as reported by the rail (atomic units, Stripe: minor units)
+--   top_up_minor / top_up_currency: what the driver still owes after a top-up request
+
+CREATE TABLE IF NOT EXISTS payment_reviews (
+    id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id       UUID NOT NULL REFERENCES sessions(id),
+    decision_id      VARCHAR(64),
+    payment_id       UUID,
+    tx_hash          VARCHAR(128),
+    rail             VARCHAR(16),
+    amount           VARCHAR(78),
+    reason           VARCHAR(64) NOT NULL,
+    evidence         JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status           VARCHAR(20) NOT NULL DEFAULT 'open'
+                     CHECK (status IN ('open', 'accepted', 'refund_requested', 'top_up_requested')),
+    note             TEXT,
+    resolved_by      JSONB,
+    top_up_minor     BIGINT CHECK (top_up_minor > 0),
+    top_up_currency  VARCHAR(10),
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at      TIMESTAMPTZ
+);
+
+-- A settlement is reviewed once, however many enforcement failures it produced
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_reviews_tx_hash ON payment_reviews(tx_hash)
+  WHERE tx_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payment_reviews_session ON payment_reviews(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_reviews_open ON payment_reviews(created_at)
+  WHERE status = 'open';
@@ -0,0 +1,42 @@
+-- Migration: refunds of settled payments back to the payer
+--   refunds: requested → approved → executed → confirmed (or failed), one row per refund of a
+--     settlement (settlement_tx_hash: Stripe checkout session id, EVM or XRPL tx hash)
+--   amount / settled_amount: atomic units of the settlement (USDC 6 decimals, XRP drops,
+--     XRPL IOU scaled to 6 decimals, Stripe minor units); refunds that did not fail never add
+--     up to more than settled_amount
+--   idempotency_key: repeated requests return the existing refund; a failed refund releases it
+--   rail_reference: Stripe refund id or the refund tx hash on the rail
+
+CREATE TABLE IF NOT EXISTS refunds (
+    id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id          UUID NOT NULL REFERENCES sessions(id),
+    review_id           UUID REFERENCES payment_reviews(id),
+    decision_id         VARCHAR(64),
+    settlement_tx_hash  VARCHAR(128) NOT NULL,
+    rail                VARCHAR(16) NOT NULL CHECK (rail IN ('stripe', 'evm', 'xrpl')),
+    asset               VARCHAR(64),
+    destination         VARCHAR(128),
+    amount              NUMERIC(78, 0) NOT NULL CHECK (amount > 0),
+    settled_amount      NUMERIC(78, 0) NOT NULL CHECK (settled_amount > 0),
+    status              VARCHAR(20) NOT NULL DEFAULT 'requested'
+                        CHECK (status IN ('requested', 'approved', 'executed', 'confirmed', 'failed')),
+    idempotency_key     VARCHAR(160) NOT NULL,
+    note                TEXT,
+    requested_by        JSONB NOT NULL,
+    approved_by         JSONB,
+    rail_reference      VARCHAR(128),
+    failure_reason      TEXT,
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    approved_at         TIMESTAMPTZ,
+    executed_at         TIMESTAMPTZ,
+    confirmed_at        TIMESTAMPTZ,
+    failed_at           TIMESTAMPTZ,
+    CHECK (amount <= settled_amount)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_idempotency_key ON refunds(idempotency_key)
+  WHERE status <> 'failed';
+CREATE INDEX IF NOT EXISTS idx_refunds_settlement ON refunds(settlement_tx_hash);
+CREATE INDEX IF NOT EXISTS idx_refunds_session ON refunds(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refunds_pending ON refunds(status, created_at)
+  WHERE status IN ('requested', 'approved', 'executed');
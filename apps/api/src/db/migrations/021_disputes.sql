@@ -0,0 +1,27 @@
+-- Migration: driver disputes of session charges
+--   disputes: opened → evidence_collected → resolved_driver | resolved_operator; at most one
+--     unresolved dispute per session
+--   evidence: evidence bundle (timeline, payment authorization, settlement, NFT, ALPR reads)
+--     collected for the dispute; evidence_hash is the sha256 of its canonical JSON
+--   refund_id: refund requested when the dispute was resolved for the driver
+
+CREATE TABLE IF NOT EXISTS disputes (
+    id                     UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id             UUID NOT NULL REFERENCES sessions(id),
+    opened_by              VARCHAR(42) NOT NULL,
+    reason                 TEXT NOT NULL,
+    status                 VARCHAR(20) NOT NULL DEFAULT 'opened'
+                           CHECK (status IN ('opened', 'evidence_collected', 'resolved_driver', 'resolved_operator')),
+    evidence               JSONB,
+    evidence_hash          VARCHAR(64),
+    resolution_note        TEXT,
+    resolved_by            JSONB,
+    refund_id              UUID REFERENCES refunds(id),
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    evidence_collected_at  TIMESTAMPTZ,
+    resolved_at            TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_disputes_session_unresolved ON disputes(session_id)
+  WHERE status IN ('opened', 'evidence_collected');
+CREATE INDEX IF NOT EXISTS idx_disputes_status ON disputes(status, created_at);
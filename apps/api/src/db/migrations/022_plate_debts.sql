@@ -0,0 +1,30 @@
+-- Migration: debt ledger for exits that left without paying
+--   plate_debts: fee owed by a plate for a session whose gate opened offline (uploaded by the
+--     gate when it reconnects) or on the Mirror Node fallback without a fee; one per session
+--   collecting_session_id: later session whose exit fee includes the debt; the debt is
+--     collected when that session settles
+
+CREATE TABLE IF NOT EXISTS plate_debts (
+    id                     UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plate_number           VARCHAR(20) NOT NULL,
+    lot_id                 VARCHAR(50) NOT NULL REFERENCES lots(id),
+    session_id             UUID NOT NULL UNIQUE REFERENCES sessions(id),
+    driver_wallet          VARCHAR(42),
+    amount_minor           BIGINT NOT NULL CHECK (amount_minor > 0),
+    currency               VARCHAR(10) NOT NULL,
+    source                 VARCHAR(32) NOT NULL
+                           CHECK (source IN ('gate_offline', 'mirror_node_fallback')),
+    entry_time             TIMESTAMPTZ NOT NULL,
+    exit_time              TIMESTAMPTZ NOT NULL,
+    status                 VARCHAR(20) NOT NULL DEFAULT 'outstanding'
+                           CHECK (status IN ('outstanding', 'collected')),
+    collecting_session_id  UUID REFERENCES sessions(id),
+    collected_tx_hash      VARCHAR(128),
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    collected_at           TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_plate_debts_outstanding ON plate_debts(plate_number, currency)
+  WHERE status = 'outstanding';
+CREATE INDEX IF NOT EXISTS idx_plate_debts_collecting ON plate_debts(collecting_session_id)
+  WHERE status = 'outstanding';
@@ -0,0 +1,46 @@
+-- Migration: durable pending EVM payments for the on-chain payment watcher
+--   evm_pending_payments: payment the gate expects for a session paying by EIP-681 transfer;
+--     replaces the watcher's in-memory map so restarts and other instances can match it
+--   status: pending -> matched (a transfer claimed it) -> resolved | rejected;
+--     pending -> expired | cancelled
+
+CREATE TABLE IF NOT EXISTS evm_pending_payments (
+    payment_id       UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id       UUID NOT NULL REFERENCES sessions(id),
+    plate_number     VARCHAR(20) NOT NULL,
+    lot_id           VARCHAR(50) NOT NULL,
+    expected_amount  VARCHAR(64) NOT NULL, -- decimal string as quoted (e.g. "1.500000")
+    receiver_wallet  VARCHAR(64) NOT NULL,
+    fee              DECIMAL(10, 6) NOT NULL,
+    fee_currency     VARCHAR(10) NOT NULL,
+    token_id         BIGINT,
+    decision_id      VARCHAR(64),
+    policy_hash      VARCHAR(64),
+    rail             VARCHAR(20),
+    asset            JSONB,
+    tx_hash          VARCHAR(128),
+    status           VARCHAR(20) NOT NULL DEFAULT 'pending',
+    expires_at       TIMESTAMPTZ NOT NULL,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT chk_evm_pending_status
+      CHECK (status IN ('pending', 'matched', 'resolved', 'rejected', 'expired', 'cancelled'))
+);
+
+-- One pending payment per session; a new exit quote replaces it.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_evm_pending_one_per_session
+  ON evm_pending_payments(session_id)
+  WHERE status = 'pending';
+-- A transfer can be claimed by one payment only.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_evm_pending_unique_tx_hash
+  ON evm_pending_payments(tx_hash)
+  WHERE tx_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_evm_pending_receiver
+  ON evm_pending_payments(LOWER(receiver_wallet))
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_evm_pending_plate_lot
+  ON evm_pending_payments(plate_number, lot_id)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_evm_pending_expires_at
+  ON evm_pending_payments(expires_at)
+  WHERE status = 'pending';
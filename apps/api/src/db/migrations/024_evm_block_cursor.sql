@@ -0,0 +1,21 @@
+-- Migration: block cursor, confirmation depth and reorg handling for the EVM payment watcher
+--   evm_block_cursors: last block the watcher has scanned per chain + token; getLogs backfill
+--     resumes after it on startup and after subscription errors
+--   evm_pending_payments: the claiming transfer's block, amount and payer, so the payment can
+--     be verified once it has enough confirmations, or moved back to pending after a reorg
+--     (matched -> pending)
+
+CREATE TABLE IF NOT EXISTS evm_block_cursors (
+    cursor_key    VARCHAR(128) PRIMARY KEY, -- evm:<chainId>:<token address>
+    block_number  BIGINT NOT NULL,
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE evm_pending_payments ADD COLUMN IF NOT EXISTS paid_amount VARCHAR(78);
+ALTER TABLE evm_pending_payments ADD COLUMN IF NOT EXISTS payer VARCHAR(64);
+ALTER TABLE evm_pending_payments ADD COLUMN IF NOT EXISTS block_number BIGINT;
+ALTER TABLE evm_pending_payments ADD COLUMN IF NOT EXISTS block_hash VARCHAR(66);
+
+CREATE INDEX IF NOT EXISTS idx_evm_pending_matched_block
+  ON evm_pending_payments(block_number)
+  WHERE status = 'matched';
@@ -0,0 +1,18 @@
+-- Migration: multi-chain, multi-token EVM settlement configured per lot
+--   lots.evm_assets: [{"chainId": n, "token": "0x..."}] pairs from the @parker/core EVM registry
+--     the lot accepts; NULL = the deployment's X402_STABLECOIN on X402_NETWORK
+--   evm_pending_payments.quotes: one {quoteId, asset, amount, decimals} per accepted asset, so a
+--     transfer of any of them on any watched chain can match the session's payment
+--   evm_pending_payments.paid_chain_id / paid_token: chain and token of the claiming transfer;
+--     each chain's watcher checks confirmations of its own claims only
+
+ALTER TABLE lots ADD COLUMN IF NOT EXISTS evm_assets JSONB;
+
+ALTER TABLE evm_pending_payments ADD COLUMN IF NOT EXISTS quotes JSONB;
+ALTER TABLE evm_pending_payments ADD COLUMN IF NOT EXISTS paid_chain_id INT;
+ALTER TABLE evm_pending_payments ADD COLUMN IF NOT EXISTS paid_token VARCHAR(42);
+
+DROP INDEX IF EXISTS idx_evm_pending_matched_block;
+CREATE INDEX IF NOT EXISTS idx_evm_pending_matched_chain_block
+  ON evm_pending_payments(paid_chain_id, block_number)
+  WHERE status = 'matched';
@@ -0,0 +1,25 @@
+-- Migration: per-intent XRPL destination tags and the XRPL payment watcher's ledger cursor
+--   xrpl_payment_intents.destination_tag: unique tag per intent (uint32, from a cycling
+--     sequence); the watcher matches Payments to the operator account by it, so a plain QR
+--     payment from any wallet settles without a tx hash or memo. Kept when a pending intent
+--     is re-quoted. Intents created before this migration keep NULL (tx-hash flow only).
+--   xrpl_ledger_cursors: last validated ledger whose Payments to an account were all handled;
+--     account_tx replays later ledgers on startup and after reconnects
+
+CREATE SEQUENCE IF NOT EXISTS xrpl_destination_tag_seq
+  AS BIGINT MINVALUE 1 MAXVALUE 4294967295 CYCLE;
+
+ALTER TABLE xrpl_payment_intents ADD COLUMN IF NOT EXISTS destination_tag BIGINT;
+ALTER TABLE xrpl_payment_intents
+  ALTER COLUMN destination_tag SET DEFAULT nextval('xrpl_destination_tag_seq');
+
+-- A tag identifies one pending intent per receiving account (the sequence may wrap).
+CREATE UNIQUE INDEX IF NOT EXISTS idx_xrpl_intents_pending_destination_tag
+  ON xrpl_payment_intents(destination, destination_tag)
+  WHERE status = 'pending' AND destination_tag IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS xrpl_ledger_cursors (
+    account       VARCHAR(64) PRIMARY KEY,
+    ledger_index  BIGINT NOT NULL,
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
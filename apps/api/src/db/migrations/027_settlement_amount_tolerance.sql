@@ -0,0 +1,36 @@
+-- Migration: tolerant settlement amount verification
+--   lots.amount_tolerance: {"stance": "strictExact"|"tolerant", "underpaymentBps"?, "allowPartial"?}
+--     (@parker/settlement-core AmountTolerance); NULL = exact on XRPL, 1% under-payment on EVM
+--   settlement_partial_payments: payments short of the quote counted towards it (tolerant with
+--     allowPartial); the payment that completes the quote settles it
+--   driver_credits: over-payment of a settled session, in atomic units of the paid asset
+
+ALTER TABLE lots ADD COLUMN IF NOT EXISTS amount_tolerance JSONB;
+
+CREATE TABLE IF NOT EXISTS settlement_partial_payments (
+    tx_hash     VARCHAR(128) PRIMARY KEY,
+    payment_id  UUID NOT NULL, -- xrpl_payment_intents / evm_pending_payments payment_id
+    rail        VARCHAR(20) NOT NULL,
+    asset       JSONB NOT NULL,
+    amount      NUMERIC(78, 0) NOT NULL CHECK (amount > 0),
+    payer       VARCHAR(64),
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_partial_payments_payment
+  ON settlement_partial_payments(payment_id);
+
+CREATE TABLE IF NOT EXISTS driver_credits (
+    id             UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plate_number   VARCHAR(20) NOT NULL,
+    lot_id         VARCHAR(50) NOT NULL REFERENCES lots(id),
+    session_id     UUID NOT NULL UNIQUE REFERENCES sessions(id),
+    driver_wallet  VARCHAR(64),
+    rail           VARCHAR(20) NOT NULL,
+    asset          JSONB NOT NULL,
+    amount         NUMERIC(78, 0) NOT NULL CHECK (amount > 0),
+    tx_hash        VARCHAR(128),
+    created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_credits_plate ON driver_credits(plate_number);
@@ -0,0 +1,5 @@
+-- Migration: per-day fee breakdown of the exit quote on sessions
+--   fee_days: FeeDayBreakdown[] of the last exit quote (the fee the session is charged), so
+--   history shows what was charged even after the lot's tariff changes; NULL before exit
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS fee_days JSONB;
@@ -0,0 +1,7 @@
+-- Migration: chain and token of EVM refunds
+--   chain_id / token_address: where the refunded settlement was paid (SETTLEMENT_VERIFIED
+--     chainId / tokenAddress); EVM refunds are sent on that chain in that token. NULL on
+--     other rails
+
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS chain_id INT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS token_address VARCHAR(42);
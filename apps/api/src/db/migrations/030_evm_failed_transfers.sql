@@ -0,0 +1,18 @@
+-- Migration: retry table for EVM transfers the payment watcher failed to handle
+--   evm_failed_transfers: a Transfer log whose handling threw (e.g. the DB was down while
+--     settling). The block cursor moves past it as usual; every watcher instance retries the
+--     rows of its chain + token until the transfer is handled or is no longer on the chain.
+--     Before this table the cursor was held below such a transfer, but another instance
+--     could advance the shared cursor past it and the transfer was never retried.
+
+CREATE TABLE IF NOT EXISTS evm_failed_transfers (
+    cursor_key    VARCHAR(128) NOT NULL, -- evm:<chainId>:<token address>
+    tx_hash       VARCHAR(66) NOT NULL,
+    log_index     INT NOT NULL,
+    block_number  BIGINT NOT NULL,
+    attempts      INT NOT NULL DEFAULT 1,
+    last_error    TEXT,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (cursor_key, tx_hash, log_index)
+);
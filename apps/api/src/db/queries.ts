@@ -3,11 +3,30 @@ import type { SessionEventType } from '../events/types'
 import { SESSION_EVENTS, toSessionEventType } from '../events/types'
 import { emitSessionEvent } from '../events/emitSessionEvent'
 import { getSessionTimeline as getSessionTimelineRows } from '../events/getSessionTimeline'
-import type { DriverRecord, SessionRecord, Lot, SessionState } from '@parker/core'
-import { assertSessionTransition, assertSessionTransitionPath } from '@parker/core'
+import type {
+  DailyCapMode,
+  DebtSource,
+  DebtStatus,
+  DisputeStatus,
+  DriverRecord,
+  FeeDayBreakdown,
+  SessionComp,
+  SessionRecord,
+  Lot,
+  LotAmountTolerance,
+  LotEvmAsset,
+  LotRiskThresholds,
+  PaymentReviewStatus,
+  RefundRail,
+  RefundStatus,
+  SessionState,
+  TariffBand,
+} from '@parker/core'
+import { assertSessionTransition, assertSessionTransitionPath, toMinor } from '@parker/core'
 import type { DecisionState } from '@parker/core'
 import { assertDecisionTransition } from '@parker/core'
 import { LIFECYCLE_EVENT } from '@parker/core'
+import type { AppliedPolicyLayer, Policy, PolicyLayer, PolicyV1 } from '@parker/policy-core'
 
 // ---- Driver Queries ----
 
@@ -108,6 +127,34 @@ async function getSessionState(sessionId: string): Promise<SessionState | null>
   return rows[0] ? normalizeSessionState(rows[0].status) : null
 }
 
+async function getSession(sessionId: string): Promise<SessionRecord | null> {
+  const { rows } = await pool.query(`SELECT * FROM sessions WHERE id = $1::uuid`, [sessionId])
+  return rows[0] ? mapSession(rows[0]) : null
+}
+
+/** Set (or clear) the operator comp on an open session; null when the session is not open. */
+async function setSessionComp(
+  sessionId: string,
+  comp: SessionComp | null,
+): Promise<SessionRecord | null> {
+  const { rows } = await pool.query(
+    `UPDATE sessions SET comp = $2::jsonb
+     WHERE id = $1::uuid
+       AND status IN ('active', 'payment_required', 'approval_required', 'payment_failed')
+     RETURNING *`,
+    [sessionId, comp ? JSON.stringify(comp) : null],
+  )
+  return rows[0] ? mapSession(rows[0]) : null
+}
+
+/** Record the per-day breakdown of the session's exit quote. */
+async function setSessionFeeDays(sessionId: string, feeDays: FeeDayBreakdown[]): Promise<void> {
+  await pool.query(`UPDATE sessions SET fee_days = $2::jsonb WHERE id = $1::uuid`, [
+    sessionId,
+    JSON.stringify(feeDays),
+  ])
+}
+
 async function getActiveSessionsByLot(lotId: string): Promise<SessionRecord[]> {
   const { rows } = await pool.query(
     `SELECT * FROM sessions
@@ -128,6 +175,8 @@ interface TransitionSessionInput {
   feeAmount?: number
   feeCurrency?: string
   stripePaymentId?: string
+  /** When the car left, for closes recorded after the fact (default: now) */
+  exitTime?: Date
 }
 
 interface TransitionInvariantMetadata extends Record<string, unknown> {
@@ -252,18 +301,38 @@ async function transitionSession(
   assertSessionTransition(fromState, input.to)
   const nextStatus = sessionStateToPersistedStatus(input.to)
 
+  // Closing with a settled fee records it in the spend ledger in the same statement
+  const spendMinor =
+    input.to === 'closed' && input.feeAmount != null && input.feeCurrency
+      ? toMinor(input.feeAmount, input.feeCurrency).toString()
+      : null
+  const rail = typeof input.metadata?.rail === 'string' ? input.metadata.rail : null
+
   const { rows } = await pool.query(
-    `UPDATE sessions
-     SET status = $2,
-         exit_time = CASE
-           WHEN $2 = 'closed' AND exit_time IS NULL THEN NOW()
-           ELSE exit_time
-         END,
-         fee_amount = COALESCE($3, fee_amount),
-         fee_currency = COALESCE($4, fee_currency),
-         stripe_payment_id = COALESCE($5, stripe_payment_id)
-     WHERE id = $1 AND status = $6
-     RETURNING *`,
+    `WITH updated AS (
+       UPDATE sessions
+       SET status = $2,
+           exit_time = CASE
+             WHEN $2 = 'closed' AND exit_time IS NULL THEN COALESCE($11, NOW())
+             ELSE exit_time
+           END,
+           fee_amount = COALESCE($3, fee_amount),
+           fee_currency = COALESCE($4, fee_currency),
+           stripe_payment_id = COALESCE($5, stripe_payment_id)
+       WHERE id = $1 AND status = $6
+       RETURNING *
+     ), ledger AS (
+       INSERT INTO spend_ledger
+         (session_id, plate_number, owner_wallet, fleet_id, lot_id, amount_minor, currency,
+          rail, decision_id, tx_hash)
+       SELECT u.id, u.plate_number, LOWER(d.wallet), d.fleet_id, u.lot_id, $7::bigint,
+              u.fee_currency, $8, $9, $10
+       FROM updated u
+       LEFT JOIN drivers d ON d.plate_number = u.plate_number
+       WHERE $7::bigint IS NOT NULL
+       ON CONFLICT (session_id) DO NOTHING
+     )
+     SELECT * FROM updated`,
     [
       session.id,
       nextStatus,
@@ -271,6 +340,11 @@ async function transitionSession(
       input.feeCurrency ?? null,
       input.stripePaymentId ?? null,
       session.status,
+      spendMinor,
+      rail,
+      input.decisionId ?? null,
+      input.txHash ?? null,
+      input.exitTime ?? null,
     ],
   )
   if (!rows[0]) return null
@@ -375,12 +449,14 @@ interface InsertPolicyGrantInput {
   requireApproval: boolean
   reasons: unknown
   expiresAt: Date
+  /** Layers merged into the grant's effective policy (audit) */
+  policyLayers?: AppliedPolicyLayer[]
 }
 
 async function insertPolicyGrant(input: InsertPolicyGrantInput): Promise<{ grantId: string }> {
   const { rows } = await pool.query(
-    `INSERT INTO policy_grants (session_id, policy_hash, allowed_rails, allowed_assets, max_spend, require_approval, reasons, expires_at)
-     VALUES ($1, $2, $3::jsonb, $4::jsonb, $5::jsonb, $6, $7::jsonb, $8)
+    `INSERT INTO policy_grants (session_id, policy_hash, allowed_rails, allowed_assets, max_spend, require_approval, reasons, expires_at, policy_layers)
+     VALUES ($1, $2, $3::jsonb, $4::jsonb, $5::jsonb, $6, $7::jsonb, $8, $9::jsonb)
      RETURNING grant_id`,
     [
       input.sessionId,
@@ -391,6 +467,7 @@ async function insertPolicyGrant(input: InsertPolicyGrantInput): Promise<{ grant
       input.requireApproval,
       JSON.stringify(input.reasons),
       input.expiresAt,
+      input.policyLayers ? JSON.stringify(input.policyLayers) : null,
     ],
   )
   return { grantId: rows[0].grant_id }
@@ -456,29 +533,192 @@ async function getPolicyGrantByGrantId(grantId: string): Promise<PolicyGrantReco
   return mapPolicyGrantRecord(rows[0])
 }
 
+// ---- Policy layers (owner / vehicle / lot) ----
+
+/** Layers stored in the DB; the platform layer comes from config (services/policyStack). */
+export type StoredPolicyLayer = Exclude<PolicyLayer, 'platform'>
+
+export interface PolicyLayerRecord {
+  layer: StoredPolicyLayer
+  /** Owner wallet (lowercased), normalized plate, or lot id */
+  subject: string
+  /** As stored: rows written before a schema bump keep their version until rewritten */
+  policy: Policy | PolicyV1
+  createdAt: Date
+  updatedAt: Date
+}
+
+function mapPolicyLayer(row: any): PolicyLayerRecord {
+  return {
+    layer: row.layer,
+    subject: row.subject,
+    policy: typeof row.policy === 'string' ? JSON.parse(row.policy) : row.policy,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+async function getPolicyLayer(
+  layer: StoredPolicyLayer,
+  subject: string,
+): Promise<PolicyLayerRecord | null> {
+  const { rows } = await pool.query(
+    `SELECT * FROM policy_layers WHERE layer = $1 AND subject = $2`,
+    [layer, subject],
+  )
+  return rows[0] ? mapPolicyLayer(rows[0]) : null
+}
+
+async function listPolicyLayers(layer: StoredPolicyLayer): Promise<PolicyLayerRecord[]> {
+  const { rows } = await pool.query(
+    `SELECT * FROM policy_layers WHERE layer = $1 ORDER BY subject`,
+    [layer],
+  )
+  return rows.map(mapPolicyLayer)
+}
+
+async function upsertPolicyLayer(
+  layer: StoredPolicyLayer,
+  subject: string,
+  policy: Policy,
+): Promise<PolicyLayerRecord> {
+  const { rows } = await pool.query(
+    `INSERT INTO policy_layers (layer, subject, policy)
+     VALUES ($1, $2, $3::jsonb)
+     ON CONFLICT (layer, subject) DO UPDATE SET policy = EXCLUDED.policy, updated_at = NOW()
+     RETURNING *`,
+    [layer, subject, JSON.stringify(policy)],
+  )
+  return mapPolicyLayer(rows[0])
+}
+
+async function deletePolicyLayer(layer: StoredPolicyLayer, subject: string): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `DELETE FROM policy_layers WHERE layer = $1 AND subject = $2`,
+    [layer, subject],
+  )
+  return (rowCount ?? 0) > 0
+}
+
 /**
- * Spend totals in fiat (lot currency) for cap comparison.
- * Returns decimal amounts; caller converts to fiat minor for policy (same unit as capPerTxMinor etc).
- * Matches cap units: caps are fiat minor in lot currency; we compare apples-to-apples.
- * sessionTotalFiat: 0 for now (no partial payments).
+ * Layers that apply to a vehicle at a lot: the lot's policy, the plate's policy, and the
+ * policy of the wallet that registered the plate (owner).
  */
-async function getFiatSpendTotalsByCurrency(
-  plate: string,
-  currency: string,
-): Promise<{ dayTotalFiat: number; sessionTotalFiat: number }> {
+async function getPolicyLayersForStack(
+  lotId: string,
+  plateNumber?: string,
+): Promise<PolicyLayerRecord[]> {
   const { rows } = await pool.query(
-    `SELECT COALESCE(SUM(fee_amount), 0) AS day_total
-     FROM sessions
-     WHERE plate_number = $1 AND status IN ('closed', 'completed') AND fee_currency = $2
-       AND exit_time >= date_trunc('day', NOW())`,
-    [plate, currency],
+    `SELECT * FROM policy_layers
+     WHERE (layer = 'lot' AND subject = $1)
+        OR (layer = 'vehicle' AND subject = $2)
+        OR (layer = 'owner' AND subject = (
+              SELECT LOWER(wallet) FROM drivers WHERE plate_number = $2 AND active = true LIMIT 1
+            ))`,
+    [lotId, plateNumber ?? null],
   )
-  const dayTotalFiat = Number(rows[0]?.day_total ?? 0)
-  return { dayTotalFiat, sessionTotalFiat: 0 }
+  return rows.map(mapPolicyLayer)
+}
+
+// ---- Spend ledger (cumulative spend for caps and budgets) ----
+
+/**
+ * Day window for spend totals:
+ * - rolling_24h: the 24 hours before `at`
+ * - calendar_day: since local midnight in `timeZone`
+ */
+export interface SpendWindow {
+  mode: DailyCapMode
+  timeZone: string
 }
 
-/** @deprecated Prefer getFiatSpendTotalsByCurrency; kept for compatibility. */
-const getSpendTotalsFiat = getFiatSpendTotalsByCurrency
+export interface SpendLedgerQuery {
+  plate: string
+  currency: string
+  window: SpendWindow
+  /** Session whose own settled spend is reported as sessionMinor */
+  sessionId?: string
+  at?: Date
+}
+
+/** Settled spend in minor units of the query currency. */
+export interface SpendLedgerTotals {
+  sessionMinor: bigint
+  /** This vehicle, in the day window */
+  vehicleDayMinor: bigint
+  /** Every vehicle of the plate's owner wallet, in the day window */
+  ownerDayMinor: bigint
+  /** Every vehicle of the plate's fleet, in the day window (0 without a fleet) */
+  fleetDayMinor: bigint
+  /** The plate's current fleet */
+  fleetId: string | null
+}
+
+/** Spend totals for a plate from the spend ledger; owner and fleet come from its driver row. */
+async function getSpendLedgerTotals(query: SpendLedgerQuery): Promise<SpendLedgerTotals> {
+  const { rows } = await pool.query<{
+    session_minor: string
+    vehicle_day_minor: string
+    owner_day_minor: string
+    fleet_day_minor: string
+    fleet_id: string | null
+  }>(
+    `WITH subject AS (
+       SELECT $1::text AS plate, LOWER(d.wallet) AS owner_wallet, d.fleet_id
+       FROM (SELECT 1) one
+       LEFT JOIN drivers d ON d.plate_number = $1
+     ), bounds AS (
+       SELECT CASE
+         WHEN $4 = 'calendar_day'
+           THEN date_trunc('day', $6::timestamptz AT TIME ZONE $5) AT TIME ZONE $5
+         ELSE $6::timestamptz - INTERVAL '24 hours'
+       END AS since
+     )
+     SELECT
+       COALESCE(SUM(l.amount_minor) FILTER (WHERE l.session_id::text = $3), 0)::text
+         AS session_minor,
+       COALESCE(SUM(l.amount_minor)
+         FILTER (WHERE l.plate_number = s.plate AND l.settled_at >= b.since), 0)::text
+         AS vehicle_day_minor,
+       COALESCE(SUM(l.amount_minor)
+         FILTER (WHERE l.owner_wallet = s.owner_wallet AND l.settled_at >= b.since), 0)::text
+         AS owner_day_minor,
+       COALESCE(SUM(l.amount_minor)
+         FILTER (WHERE l.fleet_id = s.fleet_id AND l.settled_at >= b.since), 0)::text
+         AS fleet_day_minor,
+       s.fleet_id
+     FROM subject s
+     CROSS JOIN bounds b
+     LEFT JOIN spend_ledger l
+       ON l.currency = $2
+      AND l.settled_at <= $6::timestamptz
+      AND (
+        l.session_id::text = $3
+        OR (
+          l.settled_at >= b.since
+          AND (l.plate_number = s.plate OR l.owner_wallet = s.owner_wallet
+               OR l.fleet_id = s.fleet_id)
+        )
+      )
+     GROUP BY s.fleet_id`,
+    [
+      query.plate,
+      query.currency,
+      query.sessionId ?? null,
+      query.window.mode,
+      query.window.timeZone,
+      query.at ?? new Date(),
+    ],
+  )
+  const row = rows[0]
+  return {
+    sessionMinor: BigInt(row?.session_minor ?? 0),
+    vehicleDayMinor: BigInt(row?.vehicle_day_minor ?? 0),
+    ownerDayMinor: BigInt(row?.owner_day_minor ?? 0),
+    fleetDayMinor: BigInt(row?.fleet_day_minor ?? 0),
+    fleetId: row?.fleet_id ?? null,
+  }
+}
 
 // ---- Policy events (audit + decision lookup for enforcement) ----
 
@@ -756,6 +996,15 @@ async function insertPolicyEvent(input: InsertPolicyEventInput): Promise<void> {
       lotId: inferred.lotId,
     })
   }
+
+  // Paid but not closable: every enforcement failure of a settlement opens a review
+  if (
+    input.eventType === LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED &&
+    input.sessionId &&
+    isUuid(input.sessionId)
+  ) {
+    await openPaymentReviewFromEvent({ ...input, sessionId: input.sessionId })
+  }
 }
 
 async function getSessionTimeline(sessionId: string, limit = 500): Promise<SessionTimelineEvent[]> {
@@ -779,6 +1028,8 @@ export interface InsertPolicyDecisionInput {
   chosenAsset: unknown
   quoteMinor: string
   quoteCurrency: string
+  /** FxSnapshot of the rate used for the stablecoin quote, if any */
+  fxSnapshot?: unknown
   expiresAt: Date
   action: string
   reasons: unknown
@@ -797,9 +1048,10 @@ async function insertPolicyDecision(input: InsertPolicyDecisionInput): Promise<v
     input.chosenAsset != null ? JSON.stringify(input.chosenAsset) : null
   const reasonsJson = JSON.stringify(input.reasons)
   const payloadJson = JSON.stringify(input.payload)
+  const fxSnapshotJson = input.fxSnapshot != null ? JSON.stringify(input.fxSnapshot) : null
   await pool.query(
-    `INSERT INTO policy_decisions (decision_id, decision_state, policy_hash, session_grant_id, chosen_rail, chosen_asset, quote_minor, quote_currency, expires_at, action, reasons, require_approval, payload)
-     VALUES ($1, 'created', $2, $3::uuid, $4, $5::jsonb, $6, $7, $8, $9, $10::jsonb, $11, $12::jsonb)`,
+    `INSERT INTO policy_decisions (decision_id, decision_state, policy_hash, session_grant_id, chosen_rail, chosen_asset, quote_minor, quote_currency, expires_at, action, reasons, require_approval, payload, fx_snapshot)
+     VALUES ($1, 'created', $2, $3::uuid, $4, $5::jsonb, $6, $7, $8, $9, $10::jsonb, $11, $12::jsonb, $13::jsonb)`,
     [
       input.decisionId,
       input.policyHash,
@@ -813,10 +1065,82 @@ async function insertPolicyDecision(input: InsertPolicyDecisionInput): Promise<v
       reasonsJson,
       input.requireApproval,
       payloadJson,
+      fxSnapshotJson,
     ],
   )
 }
 
+/** A stored exit decision with the session context needed to re-evaluate it (policy simulation). */
+export interface DecisionReplayRecord {
+  decisionId: string
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  entryTime: Date
+  action: string
+  reasons: string[]
+  quoteMinor: string
+  quoteCurrency: string
+  /** Spend ledger total for the plate in the lot's day window before the decision (minor units) */
+  vehicleDayMinor: string
+  /** Same, across every vehicle of the plate's owner wallet */
+  ownerDayMinor: string
+  createdAt: Date
+}
+
+/** Most recent exit decisions (newest first), optionally for one lot. */
+async function getRecentDecisionsForReplay(
+  limit: number,
+  lotId?: string,
+): Promise<DecisionReplayRecord[]> {
+  const { rows } = await pool.query(
+    `SELECT d.decision_id, d.action, d.reasons, d.quote_minor, d.quote_currency, d.created_at,
+            s.id AS session_id, s.plate_number, s.lot_id, s.entry_time,
+            spend.vehicle_day_minor, spend.owner_day_minor
+     FROM policy_decisions d
+     JOIN policy_events e ON e.decision_id = d.decision_id AND e.event_type = $3
+     JOIN sessions s ON s.id::text = e.session_id
+     LEFT JOIN lots lt ON lt.id = s.lot_id
+     LEFT JOIN drivers dr ON dr.plate_number = s.plate_number
+     CROSS JOIN LATERAL (
+       SELECT CASE
+         WHEN lt.daily_cap_mode = 'calendar_day'
+           THEN date_trunc('day', d.created_at AT TIME ZONE lt.timezone) AT TIME ZONE lt.timezone
+         ELSE d.created_at - INTERVAL '24 hours'
+       END AS since
+     ) w
+     CROSS JOIN LATERAL (
+       SELECT
+         COALESCE(SUM(l.amount_minor) FILTER (WHERE l.plate_number = s.plate_number), 0)::text
+           AS vehicle_day_minor,
+         COALESCE(SUM(l.amount_minor) FILTER (WHERE l.owner_wallet = LOWER(dr.wallet)), 0)::text
+           AS owner_day_minor
+       FROM spend_ledger l
+       WHERE l.currency = d.quote_currency AND l.session_id <> s.id
+         AND l.settled_at >= w.since AND l.settled_at < d.created_at
+         AND (l.plate_number = s.plate_number OR l.owner_wallet = LOWER(dr.wallet))
+     ) spend
+     WHERE ($2::text IS NULL OR s.lot_id = $2)
+     ORDER BY d.created_at DESC
+     LIMIT $1`,
+    [limit, lotId ?? null, LIFECYCLE_EVENT.PAYMENT_DECISION_CREATED],
+  )
+  return rows.map((row) => ({
+    decisionId: row.decision_id,
+    sessionId: row.session_id,
+    plateNumber: row.plate_number,
+    lotId: row.lot_id,
+    entryTime: row.entry_time,
+    action: row.action,
+    reasons: Array.isArray(row.reasons) ? row.reasons : [],
+    quoteMinor: row.quote_minor,
+    quoteCurrency: row.quote_currency,
+    vehicleDayMinor: row.vehicle_day_minor ?? '0',
+    ownerDayMinor: row.owner_day_minor ?? '0',
+    createdAt: row.created_at,
+  }))
+}
+
 function normalizeDecisionState(state: string): DecisionState {
   switch (state) {
     case 'created':
@@ -893,6 +1217,35 @@ async function getLatestPolicyEventPayload(
   return rows[0]?.payload ?? null
 }
 
+export interface PolicyEventRecord {
+  eventType: string
+  createdAt: Date
+  txHash?: string
+  decisionId?: string
+  payload: Record<string, unknown>
+}
+
+/** Policy events of the given types for a session, oldest first. */
+async function getSessionPolicyEvents(
+  sessionId: string,
+  eventTypes: string[],
+): Promise<PolicyEventRecord[]> {
+  const { rows } = await pool.query(
+    `SELECT event_type, created_at, tx_hash, decision_id, payload
+     FROM policy_events
+     WHERE session_id = $1 AND event_type = ANY($2::text[])
+     ORDER BY created_at, id`,
+    [sessionId, eventTypes],
+  )
+  return rows.map((row) => ({
+    eventType: row.event_type,
+    createdAt: row.created_at,
+    txHash: row.tx_hash ?? undefined,
+    decisionId: row.decision_id ?? undefined,
+    payload: row.payload ?? {},
+  }))
+}
+
 interface DecisionRecord {
   decisionId: string
   decisionState: string
@@ -944,6 +1297,8 @@ export interface SessionDebugRecord {
   decision: DecisionRecord | null
   signedAuthorization: unknown | null
   settlement: SettlementDebugRecord | null
+  /** Policy rule traces: entry grant (POLICY_GRANT_ISSUED) and exit decision (or SESSION_DENIED) */
+  trace: { entry: unknown | null; exit: unknown | null }
 }
 
 async function getSessionDebugRecord(sessionId: string): Promise<SessionDebugRecord | null> {
@@ -1020,6 +1375,20 @@ async function getSessionDebugRecord(sessionId: string): Promise<SessionDebugRec
   const signedAuthorization =
     (asRecord(decision?.payload)?.paymentAuthorization as unknown | undefined) ?? null
 
+  const grantIssuedPayload = await getLatestPolicyEventPayload(
+    sessionId,
+    LIFECYCLE_EVENT.POLICY_GRANT_ISSUED,
+  )
+  let exitTrace = asRecord(decision?.payload)?.trace ?? null
+  if (!exitTrace) {
+    const deniedPayload = await getLatestPolicyEventPayload(
+      sessionId,
+      LIFECYCLE_EVENT.SESSION_DENIED,
+    )
+    exitTrace = asRecord(deniedPayload)?.trace ?? null
+  }
+  const trace = { entry: asRecord(grantIssuedPayload)?.trace ?? null, exit: exitTrace }
+
   const { rows: settlementRows } = await pool.query(
     `SELECT event_type, created_at, tx_hash, decision_id, payload
      FROM policy_events
@@ -1051,6 +1420,7 @@ async function getSessionDebugRecord(sessionId: string): Promise<SessionDebugRec
     decision,
     signedAuthorization,
     settlement,
+    trace,
   }
 }
 
@@ -1090,124 +1460,1134 @@ async function getMedianFeeForLot(lotId: string): Promise<number | null> {
   return Number.isFinite(n) ? n : null
 }
 
-// ---- Lot Queries ----
-
-async function getLot(lotId: string): Promise<Lot | null> {
-  const { rows } = await pool.query(`SELECT * FROM lots WHERE id = $1`, [lotId])
-  return rows[0] ? mapLot(rows[0]) : null
+/** Lots other than `lotId` where the plate has an open session — cloned-plate risk signal. */
+async function getOtherActiveSessionLots(plate: string, lotId: string): Promise<string[]> {
+  const { rows } = await pool.query<{ lot_id: string }>(
+    `SELECT DISTINCT lot_id FROM sessions
+     WHERE plate_number = $1
+       AND lot_id <> $2
+       AND status IN ('active', 'payment_required', 'approval_required', 'payment_failed')`,
+    [plate, lotId],
+  )
+  return rows.map((r) => r.lot_id)
 }
 
-interface UpdateLotInput {
-  name?: string
-  address?: string
-  capacity?: number
-  ratePerHour?: number
-  billingMinutes?: number
-  maxDailyFee?: number | null
-  gracePeriodMinutes?: number
-  currency?: string
-  paymentMethods?: string[]
+export interface PlateRiskHistory {
+  /** Exits denied by policy (SESSION_DENIED) */
+  failedExits: number
+  /** Rejected payments, settlements and enforcement failures */
+  paymentFailures: number
 }
 
-async function updateLot(lotId: string, updates: UpdateLotInput): Promise<Lot | null> {
-  const { rows } = await pool.query(
-    `UPDATE lots SET
-      name = COALESCE($2, name),
-      address = COALESCE($3, address),
-      capacity = COALESCE($4, capacity),
-      rate_per_hour = COALESCE($5, rate_per_hour),
-      billing_minutes = COALESCE($6, billing_minutes),
-      max_daily_fee = COALESCE($7, max_daily_fee),
-      grace_period_minutes = COALESCE($8, grace_period_minutes),
-      currency = COALESCE($9, currency),
-      payment_methods = COALESCE($10, payment_methods)
-     WHERE id = $1
-     RETURNING *`,
+/** Failed exits and payment failures for a plate's sessions since `since` — risk signals. */
+async function getPlateRiskHistory(plate: string, since: Date): Promise<PlateRiskHistory> {
+  const { rows } = await pool.query<{ failed_exits: number; payment_failures: number }>(
+    `SELECT
+       COUNT(*) FILTER (WHERE pe.event_type = $3)::int AS failed_exits,
+       COUNT(*) FILTER (WHERE pe.event_type IN ($4, $5, $6))::int AS payment_failures
+     FROM policy_events pe
+     JOIN sessions s ON s.id::text = pe.session_id
+     WHERE s.plate_number = $1 AND pe.created_at >= $2`,
     [
-      lotId,
-      updates.name,
-      updates.address,
-      updates.capacity,
-      updates.ratePerHour,
-      updates.billingMinutes,
-      updates.maxDailyFee,
-      updates.gracePeriodMinutes,
-      updates.currency,
-      updates.paymentMethods,
+      plate,
+      since,
+      LIFECYCLE_EVENT.SESSION_DENIED,
+      LIFECYCLE_EVENT.PAYMENT_REJECTED,
+      LIFECYCLE_EVENT.SETTLEMENT_REJECTED,
+      LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
     ],
   )
-  return rows[0] ? mapLot(rows[0]) : null
+  return {
+    failedExits: rows[0]?.failed_exits ?? 0,
+    paymentFailures: rows[0]?.payment_failures ?? 0,
+  }
 }
 
-// ---- Idempotency Queries ----
+// ---- Approval Queries ----
 
-interface BeginIdempotencyInput {
-  endpoint: string
-  idempotencyKey: string
-  requestHash: string
+export type ApprovalRequestStatus = 'pending' | 'approved' | 'rejected' | 'expired'
+
+export interface ApprovalRequestRecord {
+  id: string
+  decisionId: string
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  /** Vehicle owner wallet (lowercased) */
+  ownerWallet: string
+  /** Price being approved, in minor units of currency */
+  amountMinor: string
+  currency: string
+  reasons: string[]
+  status: ApprovalRequestStatus
+  /** Wallet that signed the resolution (owner or delegate) */
+  approverWallet?: string
+  signature?: string
+  createdAt: Date
+  expiresAt: Date
+  resolvedAt?: Date
 }
 
-type BeginIdempotencyResult =
-  | { status: 'started' }
-  | { status: 'replay'; responseCode: number; responseBody: unknown }
-  | { status: 'in_progress' }
-  | { status: 'conflict' }
+interface CreateApprovalRequestInput {
+  decisionId: string
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  ownerWallet: string
+  amountMinor: string
+  currency: string
+  reasons: string[]
+  expiresAt: Date
+}
 
-async function beginIdempotency(input: BeginIdempotencyInput): Promise<BeginIdempotencyResult> {
-  const insert = await pool.query(
-    `INSERT INTO idempotency_keys (endpoint, idempotency_key, request_hash, status)
-     VALUES ($1, $2, $3, 'pending')
-     ON CONFLICT DO NOTHING
-     RETURNING endpoint`,
-    [input.endpoint, input.idempotencyKey, input.requestHash],
+/** Open an approval request; earlier pending requests for the session are expired. */
+async function createApprovalRequest(
+  input: CreateApprovalRequestInput,
+): Promise<ApprovalRequestRecord> {
+  const { rows } = await pool.query(
+    `WITH superseded AS (
+       UPDATE approval_requests
+       SET status = 'expired', resolved_at = NOW()
+       WHERE session_id = $2 AND status = 'pending'
+     )
+     INSERT INTO approval_requests
+       (decision_id, session_id, plate_number, lot_id, owner_wallet, amount_minor, currency,
+        reasons, expires_at)
+     VALUES ($1, $2, $3, $4, LOWER($5), $6, $7, $8, $9)
+     RETURNING *`,
+    [
+      input.decisionId,
+      input.sessionId,
+      input.plateNumber,
+      input.lotId,
+      input.ownerWallet,
+      input.amountMinor,
+      input.currency,
+      JSON.stringify(input.reasons),
+      input.expiresAt,
+    ],
   )
+  return mapApprovalRequest(rows[0])
+}
 
-  if (insert.rowCount && insert.rowCount > 0) {
-    return { status: 'started' }
-  }
+async function getApprovalRequest(id: string): Promise<ApprovalRequestRecord | null> {
+  const { rows } = await pool.query(`SELECT * FROM approval_requests WHERE id = $1`, [id])
+  return rows[0] ? mapApprovalRequest(rows[0]) : null
+}
 
+/** Pending, unexpired requests the wallet can sign: as owner or as a delegate of the owner. */
+async function getPendingApprovalRequestsForWallet(
+  wallet: string,
+): Promise<ApprovalRequestRecord[]> {
   const { rows } = await pool.query(
-    `SELECT request_hash, status, response_code, response_body
-     FROM idempotency_keys
-     WHERE endpoint = $1 AND idempotency_key = $2`,
-    [input.endpoint, input.idempotencyKey],
+    `SELECT r.* FROM approval_requests r
+     WHERE r.status = 'pending'
+       AND r.expires_at > NOW()
+       AND (
+         r.owner_wallet = LOWER($1)
+         OR EXISTS (
+           SELECT 1 FROM approval_delegates d
+           WHERE d.owner_wallet = r.owner_wallet AND d.delegate_wallet = LOWER($1)
+         )
+       )
+     ORDER BY r.created_at DESC`,
+    [wallet],
   )
+  return rows.map(mapApprovalRequest)
+}
 
-  const row = rows[0]
-  if (!row) {
-    // Very unlikely race (deleted between insert/select) — allow processing.
-    return { status: 'started' }
-  }
-
-  if (row.request_hash !== input.requestHash) {
-    return { status: 'conflict' }
-  }
+interface ResolveApprovalRequestInput {
+  status: Exclude<ApprovalRequestStatus, 'pending'>
+  approverWallet?: string
+  signature?: string
+}
 
-  if (row.status === 'completed') {
-    return {
-      status: 'replay',
-      responseCode: row.response_code ?? 200,
-      responseBody: row.response_body ?? {},
-    }
-  }
+/** Resolve a pending request; null when it was already resolved. */
+async function resolveApprovalRequest(
+  id: string,
+  input: ResolveApprovalRequestInput,
+): Promise<ApprovalRequestRecord | null> {
+  const { rows } = await pool.query(
+    `UPDATE approval_requests
+     SET status = $2, approver_wallet = LOWER($3), signature = $4, resolved_at = NOW()
+     WHERE id = $1 AND status = 'pending'
+     RETURNING *`,
+    [id, input.status, input.approverWallet ?? null, input.signature ?? null],
+  )
+  return rows[0] ? mapApprovalRequest(rows[0]) : null
+}
 
-  return { status: 'in_progress' }
+/** Latest approval for a session resolved at or after `since` (still usable at exit). */
+async function getLatestSessionApproval(
+  sessionId: string,
+  since: Date,
+): Promise<ApprovalRequestRecord | null> {
+  const { rows } = await pool.query(
+    `SELECT * FROM approval_requests
+     WHERE session_id = $1 AND status = 'approved' AND resolved_at >= $2
+     ORDER BY resolved_at DESC
+     LIMIT 1`,
+    [sessionId, since],
+  )
+  return rows[0] ? mapApprovalRequest(rows[0]) : null
 }
 
-interface CompleteIdempotencyInput {
-  endpoint: string
-  idempotencyKey: string
-  responseCode: number
-  responseBody: unknown
+async function getApprovalDelegates(ownerWallet: string): Promise<string[]> {
+  const { rows } = await pool.query(
+    `SELECT delegate_wallet FROM approval_delegates
+     WHERE owner_wallet = LOWER($1)
+     ORDER BY created_at`,
+    [ownerWallet],
+  )
+  return rows.map((r) => r.delegate_wallet)
 }
 
-async function completeIdempotency(input: CompleteIdempotencyInput): Promise<void> {
+async function addApprovalDelegate(ownerWallet: string, delegateWallet: string): Promise<void> {
   await pool.query(
-    `UPDATE idempotency_keys
-     SET status = 'completed',
-         response_code = $3,
-         response_body = $4::jsonb,
-         completed_at = NOW()
+    `INSERT INTO approval_delegates (owner_wallet, delegate_wallet)
+     VALUES (LOWER($1), LOWER($2))
+     ON CONFLICT DO NOTHING`,
+    [ownerWallet, delegateWallet],
+  )
+}
+
+async function removeApprovalDelegate(
+  ownerWallet: string,
+  delegateWallet: string,
+): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `DELETE FROM approval_delegates WHERE owner_wallet = LOWER($1) AND delegate_wallet = LOWER($2)`,
+    [ownerWallet, delegateWallet],
+  )
+  return (rowCount ?? 0) > 0
+}
+
+// ---- Payment Review Queries ----
+
+export interface PaymentReviewRecord {
+  id: string
+  sessionId: string
+  decisionId?: string
+  paymentId?: string
+  txHash?: string
+  rail?: string
+  /** Settled amount as reported by the rail (atomic units; Stripe: minor units) */
+  amount?: string
+  /** Enforcement reason code */
+  reason: string
+  /** POLICY_ENFORCEMENT_FAILED payload the review was opened from */
+  evidence: Record<string, unknown>
+  status: PaymentReviewStatus
+  note?: string
+  resolvedBy?: { id: string; wallet?: string }
+  topUpMinor?: string
+  topUpCurrency?: string
+  createdAt: Date
+  resolvedAt?: Date
+  /** Joined from the session */
+  plateNumber?: string
+  lotId?: string
+  sessionStatus?: SessionState
+}
+
+export interface ResolvePaymentReviewInput {
+  status: Exclude<PaymentReviewStatus, 'open'>
+  note: string
+  resolvedBy: { id: string; wallet?: string }
+  topUpMinor?: string
+  topUpCurrency?: string
+}
+
+const PAYMENT_REVIEW_SELECT = `
+  SELECT r.*, s.plate_number, s.lot_id, s.status AS session_status
+  FROM payment_reviews r
+  JOIN sessions s ON s.id = r.session_id`
+
+/**
+ * Open a review from a POLICY_ENFORCEMENT_FAILED event (one per settlement tx) and record
+ * PAYMENT_REVIEW_OPENED. Failures are logged, not thrown: the event itself is already stored
+ * and the settlement path that emitted it must still answer.
+ */
+async function openPaymentReviewFromEvent(
+  input: InsertPolicyEventInput & { sessionId: string },
+): Promise<void> {
+  const payload = asRecord(input.payload) ?? {}
+  const settlement = asRecord(payload.settlement)
+  const txHash = input.txHash ?? asString(settlement?.txHash)
+  const decisionId = input.decisionId ?? asString(payload.decisionId)
+  const reason = asString(payload.reason) ?? 'UNKNOWN'
+  try {
+    const { rows } = await pool.query(
+      `INSERT INTO payment_reviews
+         (session_id, decision_id, payment_id, tx_hash, rail, amount, reason, evidence)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+       ON CONFLICT (tx_hash) WHERE tx_hash IS NOT NULL DO NOTHING
+       RETURNING id`,
+      [
+        input.sessionId,
+        decisionId ?? null,
+        input.paymentId ?? null,
+        txHash ?? null,
+        asString(settlement?.rail) ?? null,
+        asString(settlement?.amount) ?? null,
+        reason,
+        JSON.stringify(payload),
+      ],
+    )
+    if (!rows[0]) return
+    await insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.PAYMENT_REVIEW_OPENED,
+      payload: { reviewId: rows[0].id, reason, rail: asString(settlement?.rail), txHash },
+      sessionId: input.sessionId,
+      decisionId,
+      txHash,
+    })
+  } catch (error) {
+    console.error('Failed to open payment review:', error)
+  }
+}
+
+async function listPaymentReviews(
+  filter: { status?: PaymentReviewStatus; lotId?: string; limit?: number } = {},
+): Promise<PaymentReviewRecord[]> {
+  const limit = Math.min(Math.max(filter.limit ?? 100, 1), 500)
+  const { rows } = await pool.query(
+    `${PAYMENT_REVIEW_SELECT}
+     WHERE ($1::text IS NULL OR r.status = $1)
+       AND ($2::text IS NULL OR s.lot_id = $2)
+     ORDER BY r.created_at
+     LIMIT $3`,
+    [filter.status ?? null, filter.lotId ?? null, limit],
+  )
+  return rows.map(mapPaymentReview)
+}
+
+async function getPaymentReview(id: string): Promise<PaymentReviewRecord | null> {
+  const { rows } = await pool.query(`${PAYMENT_REVIEW_SELECT} WHERE r.id = $1`, [id])
+  return rows[0] ? mapPaymentReview(rows[0]) : null
+}
+
+async function getLatestSessionPaymentReview(
+  sessionId: string,
+): Promise<PaymentReviewRecord | null> {
+  const { rows } = await pool.query(
+    `${PAYMENT_REVIEW_SELECT}
+     WHERE r.session_id = $1
+     ORDER BY r.created_at DESC
+     LIMIT 1`,
+    [sessionId],
+  )
+  return rows[0] ? mapPaymentReview(rows[0]) : null
+}
+
+/** Resolve an open review. Returns null when it was already resolved. */
+async function resolvePaymentReview(
+  id: string,
+  input: ResolvePaymentReviewInput,
+): Promise<PaymentReviewRecord | null> {
+  const { rows } = await pool.query(
+    `WITH updated AS (
+       UPDATE payment_reviews
+       SET status = $2, note = $3, resolved_by = $4::jsonb, top_up_minor = $5,
+           top_up_currency = $6, resolved_at = NOW()
+       WHERE id = $1 AND status = 'open'
+       RETURNING *
+     )
+     SELECT r.*, s.plate_number, s.lot_id, s.status AS session_status
+     FROM updated r
+     JOIN sessions s ON s.id = r.session_id`,
+    [
+      id,
+      input.status,
+      input.note,
+      JSON.stringify(input.resolvedBy),
+      input.topUpMinor ?? null,
+      input.topUpCurrency ?? null,
+    ],
+  )
+  return rows[0] ? mapPaymentReview(rows[0]) : null
+}
+
+// ---- Refund Queries ----
+
+export interface RefundRecord {
+  id: string
+  sessionId: string
+  reviewId?: string
+  decisionId?: string
+  /** Settlement being refunded: Stripe checkout session id, EVM or XRPL tx hash */
+  settlementTxHash: string
+  rail: RefundRail
+  asset?: string
+  /** EVM: chain and token contract the settlement was paid with; the refund goes out the same way */
+  chainId?: number
+  tokenAddress?: string
+  /** Payer address on chain rails (refund destination) */
+  destination?: string
+  /** Atomic units of the settlement (Stripe: minor units) */
+  amount: string
+  settledAmount: string
+  status: RefundStatus
+  idempotencyKey: string
+  note?: string
+  requestedBy: { id: string; wallet?: string }
+  approvedBy?: { id: string; wallet?: string }
+  /** Stripe refund id or refund tx hash */
+  railReference?: string
+  failureReason?: string
+  createdAt: Date
+  approvedAt?: Date
+  executedAt?: Date
+  confirmedAt?: Date
+  failedAt?: Date
+}
+
+/** A settlement a refund can be issued against, as recorded in policy_events. */
+export interface RefundableSettlement {
+  sessionId: string
+  txHash: string
+  rail: string
+  amount: string
+  asset?: string
+  /** EVM settlements: chain id and token contract address */
+  chainId?: number
+  tokenAddress?: string
+  payer?: string
+  decisionId?: string
+  /** SETTLEMENT_VERIFIED, or POLICY_ENFORCEMENT_FAILED for a payment held for review */
+  eventType: string
+}
+
+export interface CreateRefundInput {
+  sessionId: string
+  reviewId?: string
+  decisionId?: string
+  settlementTxHash: string
+  rail: RefundRail
+  asset?: string
+  chainId?: number
+  tokenAddress?: string
+  destination?: string
+  amount: bigint
+  settledAmount: bigint
+  idempotencyKey: string
+  note?: string
+  requestedBy: { id: string; wallet?: string }
+}
+
+export type CreateRefundResult =
+  | { status: 'created'; refund: RefundRecord }
+  | { status: 'existing'; refund: RefundRecord }
+  | { status: 'cap_exceeded'; refundedAmount: string }
+
+/**
+ * Latest settlement of a session that money was received for (optionally a specific tx): a
+ * verified settlement, or one that failed enforcement after it was verified on its rail.
+ */
+async function getRefundableSettlement(
+  sessionId: string,
+  txHash?: string,
+): Promise<RefundableSettlement | null> {
+  const { rows } = await pool.query(
+    `SELECT event_type, tx_hash, decision_id, payload
+     FROM policy_events
+     WHERE session_id = $1
+       AND event_type IN ($2, $3)
+       AND tx_hash IS NOT NULL
+       AND ($4::text IS NULL OR tx_hash = $4)
+     ORDER BY created_at DESC, id DESC
+     LIMIT 1`,
+    [
+      sessionId,
+      LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+      LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+      txHash ?? null,
+    ],
+  )
+  const row = rows[0]
+  if (!row) return null
+  const payload = asRecord(row.payload) ?? {}
+  const settlement = asRecord(payload.settlement) ?? payload
+  const rail = asString(settlement.rail)
+  const amount = asString(settlement.amount)
+  if (!rail || !amount) return null
+  return {
+    sessionId,
+    txHash: row.tx_hash,
+    rail,
+    amount,
+    asset: toAssetLabel(settlement.asset),
+    chainId: typeof settlement.chainId === 'number' ? settlement.chainId : undefined,
+    tokenAddress: asString(settlement.tokenAddress),
+    payer: asString(settlement.payer),
+    decisionId: row.decision_id ?? asString(payload.decisionId),
+    eventType: row.event_type,
+  }
+}
+
+/**
+ * Insert a refund unless one with the same idempotency key is live (returned as existing) or
+ * the live refunds of the settlement would exceed what was settled. Serialized per settlement
+ * with a transaction-scoped advisory lock so concurrent requests cannot both pass the cap.
+ */
+async function createRefund(input: CreateRefundInput): Promise<CreateRefundResult> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [input.settlementTxHash])
+
+    const existing = await client.query(
+      `SELECT * FROM refunds WHERE idempotency_key = $1 AND status <> 'failed'`,
+      [input.idempotencyKey],
+    )
+    if (existing.rows[0]) {
+      await client.query('COMMIT')
+      return { status: 'existing', refund: mapRefund(existing.rows[0]) }
+    }
+
+    const { rows: totals } = await client.query(
+      `SELECT COALESCE(SUM(amount), 0)::text AS refunded
+       FROM refunds
+       WHERE settlement_tx_hash = $1 AND status <> 'failed'`,
+      [input.settlementTxHash],
+    )
+    const refunded = BigInt(totals[0]?.refunded ?? '0')
+    if (refunded + input.amount > input.settledAmount) {
+      await client.query('COMMIT')
+      return { status: 'cap_exceeded', refundedAmount: refunded.toString() }
+    }
+
+    const { rows } = await client.query(
+      `INSERT INTO refunds
+         (session_id, review_id, decision_id, settlement_tx_hash, rail, asset, chain_id,
+          token_address, destination, amount, settled_amount, idempotency_key, note, requested_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14::jsonb)
+       RETURNING *`,
+      [
+        input.sessionId,
+        input.reviewId ?? null,
+        input.decisionId ?? null,
+        input.settlementTxHash,
+        input.rail,
+        input.asset ?? null,
+        input.chainId ?? null,
+        input.tokenAddress ?? null,
+        input.destination ?? null,
+        input.amount.toString(),
+        input.settledAmount.toString(),
+        input.idempotencyKey,
+        input.note ?? null,
+        JSON.stringify(input.requestedBy),
+      ],
+    )
+    await client.query('COMMIT')
+    return { status: 'created', refund: mapRefund(rows[0]) }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function getRefund(id: string): Promise<RefundRecord | null> {
+  const { rows } = await pool.query('SELECT * FROM refunds WHERE id = $1', [id])
+  return rows[0] ? mapRefund(rows[0]) : null
+}
+
+async function listRefunds(
+  filter: { sessionId?: string; status?: RefundStatus; limit?: number } = {},
+): Promise<RefundRecord[]> {
+  const limit = Math.min(Math.max(filter.limit ?? 100, 1), 500)
+  const { rows } = await pool.query(
+    `SELECT * FROM refunds
+     WHERE ($1::uuid IS NULL OR session_id = $1)
+       AND ($2::text IS NULL OR status = $2)
+     ORDER BY created_at DESC
+     LIMIT $3`,
+    [filter.sessionId ?? null, filter.status ?? null, limit],
+  )
+  return rows.map(mapRefund)
+}
+
+/** requested → approved. Returns null when the refund was not waiting for approval. */
+async function approveRefund(
+  id: string,
+  approvedBy: { id: string; wallet?: string },
+): Promise<RefundRecord | null> {
+  const { rows } = await pool.query(
+    `UPDATE refunds
+     SET status = 'approved', approved_by = $2::jsonb, approved_at = NOW()
+     WHERE id = $1 AND status = 'requested'
+     RETURNING *`,
+    [id, JSON.stringify(approvedBy)],
+  )
+  return rows[0] ? mapRefund(rows[0]) : null
+}
+
+/** approved → executed once the rail accepted the refund. */
+async function markRefundExecuted(id: string, railReference: string): Promise<RefundRecord | null> {
+  const { rows } = await pool.query(
+    `UPDATE refunds
+     SET status = 'executed', rail_reference = $2, executed_at = NOW()
+     WHERE id = $1 AND status = 'approved'
+     RETURNING *`,
+    [id, railReference],
+  )
+  return rows[0] ? mapRefund(rows[0]) : null
+}
+
+/** executed → confirmed once the refund is final on the rail. */
+async function markRefundConfirmed(id: string): Promise<RefundRecord | null> {
+  const { rows } = await pool.query(
+    `UPDATE refunds
+     SET status = 'confirmed', confirmed_at = NOW()
+     WHERE id = $1 AND status = 'executed'
+     RETURNING *`,
+    [id],
+  )
+  return rows[0] ? mapRefund(rows[0]) : null
+}
+
+/** approved / executed → failed. The amount no longer counts against the settlement. */
+async function markRefundFailed(
+  id: string,
+  failureReason: string,
+  railReference?: string,
+): Promise<RefundRecord | null> {
+  const { rows } = await pool.query(
+    `UPDATE refunds
+     SET status = 'failed', failure_reason = $2,
+         rail_reference = COALESCE($3, rail_reference), failed_at = NOW()
+     WHERE id = $1 AND status IN ('approved', 'executed')
+     RETURNING *`,
+    [id, failureReason, railReference ?? null],
+  )
+  return rows[0] ? mapRefund(rows[0]) : null
+}
+
+// ---- Dispute Queries ----
+
+export interface DisputeRecord {
+  id: string
+  sessionId: string
+  /** Driver wallet that opened the dispute (lowercased) */
+  openedBy: string
+  reason: string
+  status: DisputeStatus
+  /** Evidence bundle, once collected */
+  evidence?: Record<string, unknown>
+  /** sha256 of the evidence bundle's canonical JSON */
+  evidenceHash?: string
+  resolutionNote?: string
+  resolvedBy?: { id: string; wallet?: string }
+  refundId?: string
+  createdAt: Date
+  evidenceCollectedAt?: Date
+  resolvedAt?: Date
+  /** Joined from the session */
+  plateNumber?: string
+  lotId?: string
+}
+
+export interface ResolveDisputeInput {
+  status: Extract<DisputeStatus, 'resolved_driver' | 'resolved_operator'>
+  note: string
+  resolvedBy: { id: string; wallet?: string }
+  refundId?: string
+}
+
+const DISPUTE_SELECT = `
+  SELECT d.*, s.plate_number, s.lot_id
+  FROM disputes d
+  JOIN sessions s ON s.id = d.session_id`
+
+/** Open a dispute. Returns null when the session already has an unresolved dispute. */
+async function createDispute(input: {
+  sessionId: string
+  openedBy: string
+  reason: string
+}): Promise<DisputeRecord | null> {
+  const { rows } = await pool.query(
+    `WITH inserted AS (
+       INSERT INTO disputes (session_id, opened_by, reason)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (session_id) WHERE status IN ('opened', 'evidence_collected') DO NOTHING
+       RETURNING *
+     )
+     SELECT d.*, s.plate_number, s.lot_id
+     FROM inserted d
+     JOIN sessions s ON s.id = d.session_id`,
+    [input.sessionId, input.openedBy.toLowerCase(), input.reason],
+  )
+  return rows[0] ? mapDispute(rows[0]) : null
+}
+
+async function getDispute(id: string): Promise<DisputeRecord | null> {
+  const { rows } = await pool.query(`${DISPUTE_SELECT} WHERE d.id = $1`, [id])
+  return rows[0] ? mapDispute(rows[0]) : null
+}
+
+async function listDisputes(
+  filter: { sessionId?: string; status?: DisputeStatus; limit?: number } = {},
+): Promise<DisputeRecord[]> {
+  const limit = Math.min(Math.max(filter.limit ?? 100, 1), 500)
+  const { rows } = await pool.query(
+    `SELECT d.id, d.session_id, d.opened_by, d.reason, d.status, d.evidence_hash,
+            d.resolution_note, d.resolved_by, d.refund_id, d.created_at,
+            d.evidence_collected_at, d.resolved_at, s.plate_number, s.lot_id
+     FROM disputes d
+     JOIN sessions s ON s.id = d.session_id
+     WHERE ($1::uuid IS NULL OR d.session_id = $1)
+       AND ($2::text IS NULL OR d.status = $2)
+     ORDER BY d.created_at DESC
+     LIMIT $3`,
+    [filter.sessionId ?? null, filter.status ?? null, limit],
+  )
+  return rows.map(mapDispute)
+}
+
+/** Store (or replace) the evidence bundle of an unresolved dispute. */
+async function storeDisputeEvidence(
+  id: string,
+  evidence: Record<string, unknown>,
+  evidenceHash: string,
+): Promise<DisputeRecord | null> {
+  const { rows } = await pool.query(
+    `WITH updated AS (
+       UPDATE disputes
+       SET status = 'evidence_collected', evidence = $2::jsonb, evidence_hash = $3,
+           evidence_collected_at = NOW()
+       WHERE id = $1 AND status IN ('opened', 'evidence_collected')
+       RETURNING *
+     )
+     SELECT d.*, s.plate_number, s.lot_id
+     FROM updated d
+     JOIN sessions s ON s.id = d.session_id`,
+    [id, JSON.stringify(evidence), evidenceHash],
+  )
+  return rows[0] ? mapDispute(rows[0]) : null
+}
+
+/** Resolve an unresolved dispute. Returns null when it was already resolved. */
+async function resolveDispute(
+  id: string,
+  input: ResolveDisputeInput,
+): Promise<DisputeRecord | null> {
+  const { rows } = await pool.query(
+    `WITH updated AS (
+       UPDATE disputes
+       SET status = $2, resolution_note = $3, resolved_by = $4::jsonb, refund_id = $5,
+           resolved_at = NOW()
+       WHERE id = $1 AND status IN ('opened', 'evidence_collected')
+       RETURNING *
+     )
+     SELECT d.*, s.plate_number, s.lot_id
+     FROM updated d
+     JOIN sessions s ON s.id = d.session_id`,
+    [id, input.status, input.note, JSON.stringify(input.resolvedBy), input.refundId ?? null],
+  )
+  return rows[0] ? mapDispute(rows[0]) : null
+}
+
+// ---- Debt Queries ----
+
+export interface PlateDebtRecord {
+  id: string
+  plateNumber: string
+  lotId: string
+  /** Session that left without paying */
+  sessionId: string
+  /** Driver registered for the plate when the debt was recorded (lowercased) */
+  driverWallet?: string
+  /** Minor units of currency */
+  amountMinor: string
+  currency: string
+  source: DebtSource
+  entryTime: Date
+  exitTime: Date
+  status: DebtStatus
+  /** Session whose exit fee includes the debt */
+  collectingSessionId?: string
+  collectedTxHash?: string
+  createdAt: Date
+  collectedAt?: Date
+}
+
+export interface CreatePlateDebtInput {
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  driverWallet?: string
+  amountMinor: bigint
+  currency: string
+  source: DebtSource
+  entryTime: Date
+  exitTime: Date
+}
+
+export type CreatePlateDebtResult =
+  | { status: 'created'; debt: PlateDebtRecord }
+  | { status: 'existing'; debt: PlateDebtRecord }
+
+/** Record the debt of an unpaid session (one per session; a retry returns the existing one). */
+async function createPlateDebt(input: CreatePlateDebtInput): Promise<CreatePlateDebtResult> {
+  const { rows } = await pool.query(
+    `INSERT INTO plate_debts
+       (session_id, plate_number, lot_id, driver_wallet, amount_minor, currency, source,
+        entry_time, exit_time)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (session_id) DO NOTHING
+     RETURNING *`,
+    [
+      input.sessionId,
+      input.plateNumber,
+      input.lotId,
+      input.driverWallet?.toLowerCase() ?? null,
+      input.amountMinor.toString(),
+      input.currency,
+      input.source,
+      input.entryTime,
+      input.exitTime,
+    ],
+  )
+  if (rows[0]) return { status: 'created', debt: mapPlateDebt(rows[0]) }
+
+  const existing = await pool.query(`SELECT * FROM plate_debts WHERE session_id = $1`, [
+    input.sessionId,
+  ])
+  return { status: 'existing', debt: mapPlateDebt(existing.rows[0]) }
+}
+
+async function listPlateDebts(
+  filter: { plateNumber?: string; status?: DebtStatus; limit?: number } = {},
+): Promise<PlateDebtRecord[]> {
+  const limit = Math.min(Math.max(filter.limit ?? 100, 1), 500)
+  const { rows } = await pool.query(
+    `SELECT * FROM plate_debts
+     WHERE ($1::text IS NULL OR plate_number = $1)
+       AND ($2::text IS NULL OR status = $2)
+     ORDER BY created_at DESC
+     LIMIT $3`,
+    [filter.plateNumber ?? null, filter.status ?? null, limit],
+  )
+  return rows.map(mapPlateDebt)
+}
+
+/** Sum of a plate's outstanding debts in one currency (minor units). */
+async function getOutstandingDebtTotal(plateNumber: string, currency: string): Promise<bigint> {
+  const { rows } = await pool.query(
+    `SELECT COALESCE(SUM(amount_minor), 0)::text AS total
+     FROM plate_debts
+     WHERE plate_number = $1 AND currency = $2 AND status = 'outstanding'`,
+    [plateNumber, currency],
+  )
+  return BigInt(rows[0]?.total ?? '0')
+}
+
+/**
+ * Attach a plate's outstanding debts run up in `lotId` (in `currency`) to the session being
+ * charged at exit from that lot, so they are collected when it settles and paid to the
+ * operator they are owed to. Debts attached to an earlier session that closed without
+ * settling are taken over.
+ */
+async function attachOutstandingDebts(
+  plateNumber: string,
+  lotId: string,
+  currency: string,
+  sessionId: string,
+): Promise<PlateDebtRecord[]> {
+  const { rows } = await pool.query(
+    `UPDATE plate_debts
+     SET collecting_session_id = $4
+     WHERE plate_number = $1 AND lot_id = $2 AND currency = $3 AND status = 'outstanding'
+       AND session_id <> $4
+     RETURNING *`,
+    [plateNumber, lotId, currency, sessionId],
+  )
+  return rows.map(mapPlateDebt)
+}
+
+/** Mark the debts attached to a settled session as collected. */
+async function collectSessionDebts(
+  sessionId: string,
+  txHash?: string,
+): Promise<PlateDebtRecord[]> {
+  const { rows } = await pool.query(
+    `UPDATE plate_debts
+     SET status = 'collected', collected_tx_hash = $2, collected_at = NOW()
+     WHERE collecting_session_id = $1 AND status = 'outstanding'
+     RETURNING *`,
+    [sessionId, txHash ?? null],
+  )
+  return rows.map(mapPlateDebt)
+}
+
+// ---- Driver Credit Queries ----
+
+export interface DriverCreditRecord {
+  id: string
+  plateNumber: string
+  lotId: string
+  /** Session whose settlement was over-paid */
+  sessionId: string
+  /** Payer of the settling payment (lowercased for EVM) */
+  driverWallet?: string
+  rail: string
+  asset: unknown
+  /** Atomic units of asset */
+  amount: string
+  txHash?: string
+  createdAt: Date
+}
+
+export interface CreateDriverCreditInput {
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  driverWallet?: string
+  rail: string
+  asset: unknown
+  amount: bigint
+  txHash?: string
+}
+
+/** Record the over-payment of a settled session (one per session; a retry returns null). */
+async function createDriverCredit(
+  input: CreateDriverCreditInput,
+): Promise<DriverCreditRecord | null> {
+  const { rows } = await pool.query(
+    `INSERT INTO driver_credits
+       (session_id, plate_number, lot_id, driver_wallet, rail, asset, amount, tx_hash)
+     VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8)
+     ON CONFLICT (session_id) DO NOTHING
+     RETURNING *`,
+    [
+      input.sessionId,
+      input.plateNumber,
+      input.lotId,
+      input.driverWallet?.startsWith('0x')
+        ? input.driverWallet.toLowerCase()
+        : (input.driverWallet ?? null),
+      input.rail,
+      JSON.stringify(input.asset),
+      input.amount.toString(),
+      input.txHash ?? null,
+    ],
+  )
+  return rows[0] ? mapDriverCredit(rows[0]) : null
+}
+
+async function listDriverCredits(plateNumber: string, limit = 100): Promise<DriverCreditRecord[]> {
+  const { rows } = await pool.query(
+    `SELECT * FROM driver_credits
+     WHERE plate_number = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [plateNumber, Math.min(Math.max(limit, 1), 500)],
+  )
+  return rows.map(mapDriverCredit)
+}
+
+// ---- Partial Payment Queries ----
+
+export interface SettlementPartialPaymentRecord {
+  txHash: string
+  paymentId: string
+  rail: string
+  asset: unknown
+  /** Atomic units of asset */
+  amount: bigint
+  payer?: string
+  createdAt: Date
+}
+
+/**
+ * Count a payment short of the quote towards a pending payment (XRPL intent or EVM pending
+ * payment). False when the transaction was already counted.
+ */
+async function addSettlementPartialPayment(input: {
+  paymentId: string
+  rail: string
+  asset: unknown
+  txHash: string
+  amount: bigint
+  payer?: string
+}): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `INSERT INTO settlement_partial_payments (tx_hash, payment_id, rail, asset, amount, payer)
+     VALUES ($1, $2, $3, $4::jsonb, $5, $6)
+     ON CONFLICT (tx_hash) DO NOTHING`,
+    [
+      input.txHash,
+      input.paymentId,
+      input.rail,
+      JSON.stringify(input.asset),
+      input.amount.toString(),
+      input.payer ?? null,
+    ],
+  )
+  return (rowCount ?? 0) > 0
+}
+
+/** Partial payments counted towards a payment, oldest first. */
+async function listSettlementPartialPayments(
+  paymentId: string,
+): Promise<SettlementPartialPaymentRecord[]> {
+  const { rows } = await pool.query(
+    `SELECT * FROM settlement_partial_payments
+     WHERE payment_id = $1
+     ORDER BY created_at, tx_hash`,
+    [paymentId],
+  )
+  return rows.map(mapSettlementPartialPayment)
+}
+
+/** Stop counting a partial payment (its transfer was reorged out). */
+async function removeSettlementPartialPayment(txHash: string): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `DELETE FROM settlement_partial_payments WHERE tx_hash = $1`,
+    [txHash],
+  )
+  return (rowCount ?? 0) > 0
+}
+
+// ---- Lot Queries ----
+
+async function getLot(lotId: string): Promise<Lot | null> {
+  const { rows } = await pool.query(`SELECT * FROM lots WHERE id = $1`, [lotId])
+  return rows[0] ? mapLot(rows[0]) : null
+}
+
+interface UpdateLotInput {
+  name?: string
+  address?: string
+  capacity?: number
+  ratePerHour?: number
+  billingMinutes?: number
+  maxDailyFee?: number | null
+  gracePeriodMinutes?: number
+  currency?: string
+  paymentMethods?: string[]
+  timezone?: string
+  tariff?: TariffBand[]
+  dailyCapMode?: DailyCapMode
+  riskThresholds?: LotRiskThresholds
+  evmAssets?: LotEvmAsset[]
+  amountTolerance?: LotAmountTolerance
+}
+
+async function updateLot(lotId: string, updates: UpdateLotInput): Promise<Lot | null> {
+  const { rows } = await pool.query(
+    `UPDATE lots SET
+      name = COALESCE($2, name),
+      address = COALESCE($3, address),
+      capacity = COALESCE($4, capacity),
+      rate_per_hour = COALESCE($5, rate_per_hour),
+      billing_minutes = COALESCE($6, billing_minutes),
+      max_daily_fee = COALESCE($7, max_daily_fee),
+      grace_period_minutes = COALESCE($8, grace_period_minutes),
+      currency = COALESCE($9, currency),
+      payment_methods = COALESCE($10, payment_methods),
+      timezone = COALESCE($11, timezone),
+      tariff = COALESCE($12::jsonb, tariff),
+      daily_cap_mode = COALESCE($13, daily_cap_mode),
+      risk_thresholds = COALESCE($14::jsonb, risk_thresholds),
+      evm_assets = COALESCE($15::jsonb, evm_assets),
+      amount_tolerance = COALESCE($16::jsonb, amount_tolerance)
+     WHERE id = $1
+     RETURNING *`,
+    [
+      lotId,
+      updates.name,
+      updates.address,
+      updates.capacity,
+      updates.ratePerHour,
+      updates.billingMinutes,
+      updates.maxDailyFee,
+      updates.gracePeriodMinutes,
+      updates.currency,
+      updates.paymentMethods,
+      updates.timezone,
+      updates.tariff !== undefined ? JSON.stringify(updates.tariff) : null,
+      updates.dailyCapMode,
+      updates.riskThresholds !== undefined ? JSON.stringify(updates.riskThresholds) : null,
+      updates.evmAssets !== undefined ? JSON.stringify(updates.evmAssets) : null,
+      updates.amountTolerance !== undefined ? JSON.stringify(updates.amountTolerance) : null,
+    ],
+  )
+  return rows[0] ? mapLot(rows[0]) : null
+}
+
+// ---- Idempotency Queries ----
+
+interface BeginIdempotencyInput {
+  endpoint: string
+  idempotencyKey: string
+  requestHash: string
+}
+
+type BeginIdempotencyResult =
+  | { status: 'started' }
+  | { status: 'replay'; responseCode: number; responseBody: unknown }
+  | { status: 'in_progress' }
+  | { status: 'conflict' }
+
+async function beginIdempotency(input: BeginIdempotencyInput): Promise<BeginIdempotencyResult> {
+  const insert = await pool.query(
+    `INSERT INTO idempotency_keys (endpoint, idempotency_key, request_hash, status)
+     VALUES ($1, $2, $3, 'pending')
+     ON CONFLICT DO NOTHING
+     RETURNING endpoint`,
+    [input.endpoint, input.idempotencyKey, input.requestHash],
+  )
+
+  if (insert.rowCount && insert.rowCount > 0) {
+    return { status: 'started' }
+  }
+
+  const { rows } = await pool.query(
+    `SELECT request_hash, status, response_code, response_body
+     FROM idempotency_keys
+     WHERE endpoint = $1 AND idempotency_key = $2`,
+    [input.endpoint, input.idempotencyKey],
+  )
+
+  const row = rows[0]
+  if (!row) {
+    // Very unlikely race (deleted between insert/select) — allow processing.
+    return { status: 'started' }
+  }
+
+  if (row.request_hash !== input.requestHash) {
+    return { status: 'conflict' }
+  }
+
+  if (row.status === 'completed') {
+    return {
+      status: 'replay',
+      responseCode: row.response_code ?? 200,
+      responseBody: row.response_body ?? {},
+    }
+  }
+
+  return { status: 'in_progress' }
+}
+
+interface CompleteIdempotencyInput {
+  endpoint: string
+  idempotencyKey: string
+  responseCode: number
+  responseBody: unknown
+}
+
+async function completeIdempotency(input: CompleteIdempotencyInput): Promise<void> {
+  await pool.query(
+    `UPDATE idempotency_keys
+     SET status = 'completed',
+         response_code = $3,
+         response_body = $4::jsonb,
+         completed_at = NOW()
      WHERE endpoint = $1 AND idempotency_key = $2`,
     [
       input.endpoint,
@@ -1239,6 +2619,8 @@ export interface XrplPaymentIntentRecord {
   xamanDeepLink?: string
   xamanQrPng?: string
   txHash?: string
+  /** Unique per pending intent of a destination; kept when the intent is re-quoted */
+  destinationTag?: number
 }
 
 interface UpsertXrplPendingIntentInput {
@@ -1363,120 +2745,750 @@ async function upsertXrplPendingIntent(
       input.expiresAt,
       ],
     )
-
-    return mapXrplIntent(rows[0])
+
+    return mapXrplIntent(rows[0])
+  } catch (error) {
+    const normalized = normalizeXrplIntentBindingError(error)
+    if (normalized) throw normalized
+    throw error
+  }
+}
+
+async function getActiveXrplPendingIntent(
+  plateNumber: string,
+  lotId: string,
+): Promise<XrplPaymentIntentRecord | null> {
+  const { rows } = await pool.query(
+    `SELECT *
+     FROM xrpl_payment_intents
+     WHERE plate_number = $1
+       AND lot_id = $2
+       AND status = 'pending'
+       AND expires_at > NOW()
+     ORDER BY updated_at DESC
+     LIMIT 1`,
+    [plateNumber, lotId],
+  )
+
+  return rows[0] ? mapXrplIntent(rows[0]) : null
+}
+
+async function attachXamanPayloadToIntent(input: {
+  paymentId: string
+  payloadUuid: string
+  deepLink?: string
+  qrPng?: string
+}): Promise<void> {
+  await pool.query(
+    `UPDATE xrpl_payment_intents
+     SET xaman_payload_uuid = $2::uuid,
+         xaman_deep_link = $3,
+         xaman_qr_png = $4,
+         updated_at = NOW()
+     WHERE payment_id = $1::uuid`,
+    [input.paymentId, input.payloadUuid, input.deepLink ?? null, input.qrPng ?? null],
+  )
+}
+
+async function resolveXrplIntentByPayloadUuid(input: {
+  payloadUuid: string
+  txHash?: string
+}): Promise<void> {
+  await pool.query(
+    `UPDATE xrpl_payment_intents
+     SET status = 'resolved',
+         tx_hash = COALESCE($2, tx_hash),
+         updated_at = NOW()
+     WHERE xaman_payload_uuid = $1::uuid
+       AND status = 'pending'`,
+    [input.payloadUuid, input.txHash ?? null],
+  )
+}
+
+async function cancelXrplIntentByPayloadUuid(payloadUuid: string): Promise<void> {
+  await pool.query(
+    `UPDATE xrpl_payment_intents
+     SET status = 'cancelled',
+         updated_at = NOW()
+     WHERE xaman_payload_uuid = $1::uuid
+       AND status = 'pending'`,
+    [payloadUuid],
+  )
+}
+
+async function resolveActiveXrplIntentByPlateLot(input: {
+  plateNumber: string
+  lotId: string
+  txHash?: string
+}): Promise<void> {
+  await pool.query(
+    `UPDATE xrpl_payment_intents
+     SET status = 'resolved',
+         tx_hash = COALESCE($3, tx_hash),
+         updated_at = NOW()
+     WHERE plate_number = $1
+       AND lot_id = $2
+       AND status = 'pending'`,
+    [input.plateNumber, input.lotId, input.txHash ?? null],
+  )
+}
+
+async function resolveXrplIntentByPaymentId(input: {
+  paymentId: string
+  txHash?: string
+}): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE xrpl_payment_intents
+     SET status = 'resolved',
+         tx_hash = COALESCE($2, tx_hash),
+         updated_at = NOW()
+     WHERE payment_id = $1::uuid
+       AND status = 'pending'`,
+    [input.paymentId, input.txHash ?? null],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+async function getXrplIntentByTxHash(txHash: string): Promise<XrplPaymentIntentRecord | null> {
+  const { rows } = await pool.query(
+    `SELECT *
+     FROM xrpl_payment_intents
+     WHERE tx_hash = $1
+     ORDER BY updated_at DESC
+     LIMIT 1`,
+    [txHash],
+  )
+  return rows[0] ? mapXrplIntent(rows[0]) : null
+}
+
+/** The live pending intent a Payment to destination with this destination tag pays. */
+async function getPendingXrplIntentByDestinationTag(
+  destination: string,
+  destinationTag: number,
+): Promise<XrplPaymentIntentRecord | null> {
+  const { rows } = await pool.query(
+    `SELECT *
+     FROM xrpl_payment_intents
+     WHERE destination = $1
+       AND destination_tag = $2
+       AND status = 'pending'
+       AND expires_at > NOW()
+     LIMIT 1`,
+    [destination, destinationTag],
+  )
+  return rows[0] ? mapXrplIntent(rows[0]) : null
+}
+
+/**
+ * Bind a pending intent to the Payment that pays it, before settling. Null when another
+ * instance (or the tx-hash flow) bound it first, or the tx already pays another intent.
+ */
+async function claimXrplIntentForTx(
+  paymentId: string,
+  txHash: string,
+): Promise<XrplPaymentIntentRecord | null> {
+  try {
+    const { rows } = await pool.query(
+      `UPDATE xrpl_payment_intents
+       SET tx_hash = $2,
+           updated_at = NOW()
+       WHERE payment_id = $1::uuid
+         AND status = 'pending'
+         AND tx_hash IS NULL
+       RETURNING *`,
+      [paymentId, txHash],
+    )
+    return rows[0] ? mapXrplIntent(rows[0]) : null
+  } catch (error) {
+    // idx_xrpl_intents_unique_tx_hash: the tx is bound to another intent
+    if ((error as { code?: string }).code === '23505') return null
+    throw error
+  }
+}
+
+/** Close a pending intent whose payment was rejected at settlement (a new exit re-quotes). */
+async function cancelXrplIntentByPaymentId(paymentId: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE xrpl_payment_intents
+     SET status = 'cancelled',
+         updated_at = NOW()
+     WHERE payment_id = $1::uuid
+       AND status = 'pending'`,
+    [paymentId],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+// ---- XRPL Ledger Cursor Queries ----
+
+async function getXrplLedgerCursor(account: string): Promise<number | null> {
+  const { rows } = await pool.query(
+    'SELECT ledger_index FROM xrpl_ledger_cursors WHERE account = $1',
+    [account],
+  )
+  return rows[0] ? Number(rows[0].ledger_index) : null
+}
+
+/** Move the cursor forward to ledgerIndex (never back). */
+async function advanceXrplLedgerCursor(account: string, ledgerIndex: number): Promise<void> {
+  await pool.query(
+    `INSERT INTO xrpl_ledger_cursors (account, ledger_index)
+     VALUES ($1, $2)
+     ON CONFLICT (account) DO UPDATE SET
+       ledger_index = GREATEST(xrpl_ledger_cursors.ledger_index, EXCLUDED.ledger_index),
+       updated_at = NOW()`,
+    [account, ledgerIndex],
+  )
+}
+
+// ---- EVM Pending Payment Queries ----
+
+export type EvmPendingPaymentStatus =
+  | 'pending'
+  | 'matched'
+  | 'resolved'
+  | 'rejected'
+  | 'expired'
+  | 'cancelled'
+
+export interface EvmPendingPaymentRecord {
+  paymentId: string
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  /** Decimal string as quoted (e.g. "1.500000") */
+  expectedAmount: string
+  receiverWallet: string
+  fee: number
+  feeCurrency: string
+  tokenId?: number
+  decisionId?: string
+  policyHash?: string
+  rail?: string
+  asset?: unknown
+  /** One quote per accepted EVM asset; a transfer of any of them can pay */
+  quotes?: EvmPendingQuote[]
+  /** Transfer that claimed the payment */
+  txHash?: string
+  /** Claiming transfer value in the token's smallest unit */
+  paidAmount?: string
+  payer?: string
+  /** Block of the claiming transfer; confirmations and reorg checks use it */
+  blockNumber?: number
+  blockHash?: string
+  /** Chain + token contract of the claiming transfer */
+  paidChainId?: number
+  paidToken?: string
+  status: EvmPendingPaymentStatus
+  expiresAt: Date
+  createdAt: Date
+}
+
+export interface UpsertEvmPendingPaymentInput {
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  expectedAmount: string
+  receiverWallet: string
+  fee: number
+  feeCurrency: string
+  tokenId?: number
+  decisionId?: string
+  policyHash?: string
+  rail?: string
+  asset?: unknown
+  quotes?: EvmPendingQuote[]
+  expiresAt: Date
+}
+
+/** Settlement quote a pending EVM payment accepts (decision.settlementQuotes, EVM rail) */
+export interface EvmPendingQuote {
+  quoteId: string
+  asset: { kind: 'ERC20'; chainId: number; token: string }
+  /** Amount in the token's smallest unit */
+  amount: string
+  decimals: number
+}
+
+/** Transfer claiming a pending EVM payment */
+export interface EvmTransferMatch {
+  txHash: string
+  /** Transfer value in the token's smallest unit */
+  amount: string
+  payer: string
+  chainId: number
+  /** Token contract the transfer moved */
+  token: string
+  blockNumber?: number
+  blockHash?: string
+}
+
+/** Register the payment a session waits for; replaces the session's pending one (new quote). */
+async function upsertEvmPendingPayment(
+  input: UpsertEvmPendingPaymentInput,
+): Promise<EvmPendingPaymentRecord> {
+  const { rows } = await pool.query(
+    `INSERT INTO evm_pending_payments (
+       session_id, plate_number, lot_id, expected_amount, receiver_wallet, fee, fee_currency,
+       token_id, decision_id, policy_hash, rail, asset, expires_at, quotes
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     ON CONFLICT (session_id) WHERE status = 'pending'
+     DO UPDATE SET
+       plate_number = EXCLUDED.plate_number,
+       lot_id = EXCLUDED.lot_id,
+       expected_amount = EXCLUDED.expected_amount,
+       receiver_wallet = EXCLUDED.receiver_wallet,
+       fee = EXCLUDED.fee,
+       fee_currency = EXCLUDED.fee_currency,
+       token_id = EXCLUDED.token_id,
+       decision_id = EXCLUDED.decision_id,
+       policy_hash = EXCLUDED.policy_hash,
+       rail = EXCLUDED.rail,
+       asset = EXCLUDED.asset,
+       quotes = EXCLUDED.quotes,
+       expires_at = EXCLUDED.expires_at,
+       created_at = NOW(),
+       updated_at = NOW()
+     RETURNING *`,
+    [
+      input.sessionId,
+      input.plateNumber,
+      input.lotId,
+      input.expectedAmount,
+      input.receiverWallet,
+      input.fee,
+      input.feeCurrency,
+      input.tokenId ?? null,
+      input.decisionId ?? null,
+      input.policyHash ?? null,
+      input.rail ?? null,
+      input.asset != null ? JSON.stringify(input.asset) : null,
+      input.expiresAt,
+      input.quotes?.length ? JSON.stringify(input.quotes) : null,
+    ],
+  )
+  return mapEvmPendingPayment(rows[0])
+}
+
+async function getActiveEvmPendingPayment(
+  plateNumber: string,
+  lotId: string,
+): Promise<EvmPendingPaymentRecord | null> {
+  const { rows } = await pool.query(
+    `SELECT *
+     FROM evm_pending_payments
+     WHERE plate_number = $1
+       AND lot_id = $2
+       AND status = 'pending'
+       AND expires_at > NOW()
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [plateNumber, lotId],
+  )
+  return rows[0] ? mapEvmPendingPayment(rows[0]) : null
+}
+
+/** Unexpired pending payments to a receiver (case-insensitive), oldest first. */
+async function listEvmPendingPaymentsForReceiver(
+  receiverWallet: string,
+): Promise<EvmPendingPaymentRecord[]> {
+  const { rows } = await pool.query(
+    `SELECT *
+     FROM evm_pending_payments
+     WHERE LOWER(receiver_wallet) = LOWER($1)
+       AND status = 'pending'
+       AND expires_at > NOW()
+     ORDER BY created_at`,
+    [receiverWallet],
+  )
+  return rows.map(mapEvmPendingPayment)
+}
+
+/**
+ * Claim a pending payment for a transfer (pending → matched). Only one instance wins a
+ * payment, and a transfer claims one payment at most; null when it lost either race.
+ */
+async function claimEvmPendingPayment(
+  paymentId: string,
+  transfer: EvmTransferMatch,
+): Promise<EvmPendingPaymentRecord | null> {
+  try {
+    const { rows } = await pool.query(
+      `UPDATE evm_pending_payments
+       SET status = 'matched',
+           tx_hash = $2,
+           paid_amount = $3,
+           payer = $4,
+           block_number = $5,
+           block_hash = $6,
+           paid_chain_id = $7,
+           paid_token = $8,
+           updated_at = NOW()
+       WHERE payment_id = $1::uuid
+         AND status = 'pending'
+         AND expires_at > NOW()
+       RETURNING *`,
+      [
+        paymentId,
+        transfer.txHash,
+        transfer.amount,
+        transfer.payer,
+        transfer.blockNumber ?? null,
+        transfer.blockHash ?? null,
+        transfer.chainId,
+        transfer.token,
+      ],
+    )
+    return rows[0] ? mapEvmPendingPayment(rows[0]) : null
   } catch (error) {
-    const normalized = normalizeXrplIntentBindingError(error)
-    if (normalized) throw normalized
+    // idx_evm_pending_unique_tx_hash: the transfer already claimed another payment
+    if ((error as { code?: string })?.code === '23505') return null
     throw error
   }
 }
 
-async function getActiveXrplPendingIntent(
-  plateNumber: string,
-  lotId: string,
-): Promise<XrplPaymentIntentRecord | null> {
+/** Record the outcome of a claimed payment (matched → resolved | rejected). */
+async function completeEvmPendingPayment(
+  paymentId: string,
+  status: 'resolved' | 'rejected',
+): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE evm_pending_payments
+     SET status = $2, updated_at = NOW()
+     WHERE payment_id = $1::uuid
+       AND status = 'matched'`,
+    [paymentId, status],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Payments claimed by a transfer on chainId in a block at or below maxBlock, oldest block
+ * first.
+ */
+async function listMatchedEvmPendingPayments(
+  chainId: number,
+  maxBlock: number,
+): Promise<EvmPendingPaymentRecord[]> {
   const { rows } = await pool.query(
     `SELECT *
-     FROM xrpl_payment_intents
-     WHERE plate_number = $1
-       AND lot_id = $2
-       AND status = 'pending'
-       AND expires_at > NOW()
-     ORDER BY updated_at DESC
-     LIMIT 1`,
-    [plateNumber, lotId],
+     FROM evm_pending_payments
+     WHERE status = 'matched'
+       AND paid_chain_id = $1
+       AND block_number <= $2
+     ORDER BY block_number, created_at`,
+    [chainId, maxBlock],
   )
+  return rows.map(mapEvmPendingPayment)
+}
 
-  return rows[0] ? mapXrplIntent(rows[0]) : null
+/**
+ * Move the payment a reorged transfer claimed back to pending (matched → pending), so the
+ * transfer can match again once it is re-included. Null when no unverified payment has it.
+ */
+async function releaseEvmPendingPayment(txHash: string): Promise<EvmPendingPaymentRecord | null> {
+  const { rows } = await pool.query(
+    `UPDATE evm_pending_payments
+     SET status = 'pending',
+         tx_hash = NULL,
+         paid_amount = NULL,
+         payer = NULL,
+         block_number = NULL,
+         block_hash = NULL,
+         paid_chain_id = NULL,
+         paid_token = NULL,
+         updated_at = NOW()
+     WHERE tx_hash = $1
+       AND status = 'matched'
+     RETURNING *`,
+    [txHash],
+  )
+  return rows[0] ? mapEvmPendingPayment(rows[0]) : null
 }
 
-async function attachXamanPayloadToIntent(input: {
-  paymentId: string
-  payloadUuid: string
-  deepLink?: string
-  qrPng?: string
-}): Promise<void> {
+/** Cancel a session's pending payment (paid another way, or closed). */
+async function cancelEvmPendingPayment(sessionId: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE evm_pending_payments
+     SET status = 'cancelled', updated_at = NOW()
+     WHERE session_id = $1
+       AND status = 'pending'`,
+    [sessionId],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/** Move pending EVM payments past expires_at to expired, oldest first. */
+async function expireEvmPendingPayments(limit: number): Promise<ExpiredRecord[]> {
+  const { rows } = await pool.query(
+    `WITH due AS (
+       SELECT payment_id FROM evm_pending_payments
+       WHERE status = 'pending' AND expires_at <= NOW()
+       ORDER BY expires_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     ), expired AS (
+       UPDATE evm_pending_payments p
+       SET status = 'expired', updated_at = NOW()
+       FROM due
+       WHERE p.payment_id = due.payment_id AND p.status = 'pending'
+       RETURNING p.payment_id, p.session_id, p.plate_number, p.lot_id, p.decision_id, p.expires_at
+     )
+     SELECT e.payment_id AS id, e.decision_id, e.expires_at,
+            e.session_id, e.plate_number, e.lot_id, s.status AS session_status
+     FROM expired e
+     JOIN sessions s ON s.id = e.session_id`,
+    [limit],
+  )
+  return rows.map(mapExpiredRecord)
+}
+
+// ---- EVM Block Cursor Queries ----
+
+async function getEvmBlockCursor(cursorKey: string): Promise<number | null> {
+  const { rows } = await pool.query(
+    'SELECT block_number FROM evm_block_cursors WHERE cursor_key = $1',
+    [cursorKey],
+  )
+  return rows[0] ? Number(rows[0].block_number) : null
+}
+
+/** Move the cursor forward to blockNumber (never back). */
+async function advanceEvmBlockCursor(cursorKey: string, blockNumber: number): Promise<void> {
   await pool.query(
-    `UPDATE xrpl_payment_intents
-     SET xaman_payload_uuid = $2::uuid,
-         xaman_deep_link = $3,
-         xaman_qr_png = $4,
-         updated_at = NOW()
-     WHERE payment_id = $1::uuid`,
-    [input.paymentId, input.payloadUuid, input.deepLink ?? null, input.qrPng ?? null],
+    `INSERT INTO evm_block_cursors (cursor_key, block_number)
+     VALUES ($1, $2)
+     ON CONFLICT (cursor_key) DO UPDATE SET
+       block_number = GREATEST(evm_block_cursors.block_number, EXCLUDED.block_number),
+       updated_at = NOW()`,
+    [cursorKey, blockNumber],
   )
 }
 
-async function resolveXrplIntentByPayloadUuid(input: {
-  payloadUuid: string
-  txHash?: string
-}): Promise<void> {
+/** Move the cursor back to blockNumber (never forward), e.g. below a reorged block. */
+async function rewindEvmBlockCursor(cursorKey: string, blockNumber: number): Promise<void> {
   await pool.query(
-    `UPDATE xrpl_payment_intents
-     SET status = 'resolved',
-         tx_hash = COALESCE($2, tx_hash),
-         updated_at = NOW()
-     WHERE xaman_payload_uuid = $1::uuid
-       AND status = 'pending'`,
-    [input.payloadUuid, input.txHash ?? null],
+    `UPDATE evm_block_cursors
+     SET block_number = LEAST(block_number, $2), updated_at = NOW()
+     WHERE cursor_key = $1`,
+    [cursorKey, blockNumber],
   )
 }
 
-async function cancelXrplIntentByPayloadUuid(payloadUuid: string): Promise<void> {
+// ---- EVM Failed Transfer Queries ----
+
+/** A Transfer log the payment watcher failed to handle (evm_failed_transfers) */
+export interface EvmFailedTransfer {
+  txHash: string
+  logIndex: number
+  blockNumber: number
+  attempts: number
+}
+
+/** Store a transfer for retry, or count another failed attempt. */
+async function recordEvmFailedTransfer(
+  cursorKey: string,
+  transfer: Pick<EvmFailedTransfer, 'txHash' | 'logIndex' | 'blockNumber'>,
+  error: string,
+): Promise<void> {
   await pool.query(
-    `UPDATE xrpl_payment_intents
-     SET status = 'cancelled',
-         updated_at = NOW()
-     WHERE xaman_payload_uuid = $1::uuid
-       AND status = 'pending'`,
-    [payloadUuid],
+    `INSERT INTO evm_failed_transfers (cursor_key, tx_hash, log_index, block_number, last_error)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (cursor_key, tx_hash, log_index) DO UPDATE SET
+       attempts = evm_failed_transfers.attempts + 1,
+       block_number = EXCLUDED.block_number,
+       last_error = EXCLUDED.last_error,
+       updated_at = NOW()`,
+    [cursorKey, transfer.txHash, transfer.logIndex, transfer.blockNumber, error],
   )
 }
 
-async function resolveActiveXrplIntentByPlateLot(input: {
-  plateNumber: string
-  lotId: string
-  txHash?: string
-}): Promise<void> {
+/** Failed transfers of one chain + token, oldest block first. */
+async function listEvmFailedTransfers(
+  cursorKey: string,
+  limit: number,
+): Promise<EvmFailedTransfer[]> {
+  const { rows } = await pool.query(
+    `SELECT tx_hash, log_index, block_number, attempts
+     FROM evm_failed_transfers
+     WHERE cursor_key = $1
+     ORDER BY block_number, log_index
+     LIMIT $2`,
+    [cursorKey, limit],
+  )
+  return rows.map((row) => ({
+    txHash: row.tx_hash,
+    logIndex: Number(row.log_index),
+    blockNumber: Number(row.block_number),
+    attempts: Number(row.attempts),
+  }))
+}
+
+async function deleteEvmFailedTransfer(
+  cursorKey: string,
+  txHash: string,
+  logIndex: number,
+): Promise<void> {
   await pool.query(
-    `UPDATE xrpl_payment_intents
-     SET status = 'resolved',
-         tx_hash = COALESCE($3, tx_hash),
-         updated_at = NOW()
-     WHERE plate_number = $1
-       AND lot_id = $2
-       AND status = 'pending'`,
-    [input.plateNumber, input.lotId, input.txHash ?? null],
+    'DELETE FROM evm_failed_transfers WHERE cursor_key = $1 AND tx_hash = $2 AND log_index = $3',
+    [cursorKey, txHash, logIndex],
   )
 }
 
-async function resolveXrplIntentByPaymentId(input: {
-  paymentId: string
-  txHash?: string
-}): Promise<boolean> {
-  const result = await pool.query(
-    `UPDATE xrpl_payment_intents
-     SET status = 'resolved',
-         tx_hash = COALESCE($2, tx_hash),
-         updated_at = NOW()
-     WHERE payment_id = $1::uuid
-       AND status = 'pending'`,
-    [input.paymentId, input.txHash ?? null],
+// ---- Expiry Sweep Queries ----
+
+/** A row the expiry sweeper moved to expired, with the session it belongs to (if known). */
+export interface ExpiredRecord {
+  /** decision_id, grant_id or payment_id */
+  id: string
+  decisionId?: string
+  sessionId?: string
+  plateNumber?: string
+  lotId?: string
+  /** The session is not closed or denied; only open sessions notify gate and driver */
+  sessionOpen: boolean
+  expiresAt: Date
+}
+
+function mapExpiredRecord(row: any): ExpiredRecord {
+  return {
+    id: row.id,
+    decisionId: row.decision_id ?? undefined,
+    sessionId: row.session_id ?? undefined,
+    plateNumber: row.plate_number ?? undefined,
+    lotId: row.lot_id ?? undefined,
+    sessionOpen: row.session_status != null && !['closed', 'denied'].includes(row.session_status),
+    expiresAt: row.expires_at,
+  }
+}
+
+/**
+ * Move decisions past expires_at from created / approved to expired, oldest first.
+ * The session comes from the decision's grant, else from its PAYMENT_DECISION_CREATED event.
+ */
+async function expirePolicyDecisions(limit: number): Promise<ExpiredRecord[]> {
+  assertDecisionTransition('created', 'expired')
+  assertDecisionTransition('approved', 'expired')
+
+  const { rows } = await pool.query(
+    `WITH due AS (
+       SELECT decision_id FROM policy_decisions
+       WHERE decision_state IN ('created', 'approved') AND expires_at <= NOW()
+       ORDER BY expires_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     ), expired AS (
+       UPDATE policy_decisions d
+       SET decision_state = 'expired'
+       FROM due
+       WHERE d.decision_id = due.decision_id
+         AND d.decision_state IN ('created', 'approved')
+       RETURNING d.decision_id, d.session_grant_id, d.expires_at
+     )
+     SELECT e.decision_id AS id, e.decision_id, e.expires_at,
+            s.id AS session_id, s.plate_number, s.lot_id, s.status AS session_status
+     FROM expired e
+     LEFT JOIN policy_grants g ON g.grant_id = e.session_grant_id
+     LEFT JOIN sessions s ON s.id::text = COALESCE(
+       g.session_id::text,
+       (SELECT pe.session_id FROM policy_events pe
+        WHERE pe.decision_id = e.decision_id AND pe.event_type = $2
+        LIMIT 1)
+     )`,
+    [limit, LIFECYCLE_EVENT.PAYMENT_DECISION_CREATED],
   )
-  return (result.rowCount ?? 0) > 0
+  return rows.map(mapExpiredRecord)
 }
 
-async function getXrplIntentByTxHash(txHash: string): Promise<XrplPaymentIntentRecord | null> {
+/** Move active grants past expires_at to expired, oldest first. */
+async function expirePolicyGrants(limit: number): Promise<ExpiredRecord[]> {
   const { rows } = await pool.query(
-    `SELECT *
-     FROM xrpl_payment_intents
-     WHERE tx_hash = $1
-     ORDER BY updated_at DESC
-     LIMIT 1`,
-    [txHash],
+    `WITH due AS (
+       SELECT grant_id FROM policy_grants
+       WHERE grant_state = 'active' AND expires_at <= NOW()
+       ORDER BY expires_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     ), expired AS (
+       UPDATE policy_grants g
+       SET grant_state = 'expired'
+       FROM due
+       WHERE g.grant_id = due.grant_id AND g.grant_state = 'active'
+       RETURNING g.grant_id, g.session_id, g.expires_at
+     )
+     SELECT e.grant_id AS id, e.expires_at,
+            s.id AS session_id, s.plate_number, s.lot_id, s.status AS session_status
+     FROM expired e
+     JOIN sessions s ON s.id = e.session_id`,
+    [limit],
   )
-  return rows[0] ? mapXrplIntent(rows[0]) : null
+  return rows.map(mapExpiredRecord)
+}
+
+/** Move pending XRPL intents past expires_at to expired, oldest first. */
+async function expireXrplIntents(limit: number): Promise<ExpiredRecord[]> {
+  const { rows } = await pool.query(
+    `WITH due AS (
+       SELECT payment_id FROM xrpl_payment_intents
+       WHERE status = 'pending' AND expires_at <= NOW()
+       ORDER BY expires_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     ), expired AS (
+       UPDATE xrpl_payment_intents i
+       SET status = 'expired', updated_at = NOW()
+       FROM due
+       WHERE i.payment_id = due.payment_id AND i.status = 'pending'
+       RETURNING i.payment_id, i.session_id, i.plate_number, i.lot_id, i.decision_id, i.expires_at
+     )
+     SELECT e.payment_id AS id, e.decision_id, e.expires_at,
+            e.session_id, e.plate_number, e.lot_id, s.status AS session_status
+     FROM expired e
+     JOIN sessions s ON s.id = e.session_id`,
+    [limit],
+  )
+  return rows.map(mapExpiredRecord)
+}
+
+/** Move pending approval requests past expires_at to expired, oldest first. */
+async function expireApprovalRequests(limit: number): Promise<ApprovalRequestRecord[]> {
+  const { rows } = await pool.query(
+    `WITH due AS (
+       SELECT id FROM approval_requests
+       WHERE status = 'pending' AND expires_at <= NOW()
+       ORDER BY expires_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     UPDATE approval_requests r
+     SET status = 'expired', resolved_at = NOW()
+     FROM due
+     WHERE r.id = due.id AND r.status = 'pending'
+     RETURNING r.*`,
+    [limit],
+  )
+  return rows.map(mapApprovalRequest)
+}
+
+/**
+ * Run `fn` while holding a session-level Postgres advisory lock on a dedicated connection.
+ * Returns null without running `fn` when another connection (e.g. another API instance)
+ * holds the lock.
+ */
+async function withAdvisoryLock<T>(key: number, fn: () => Promise<T>): Promise<T | null> {
+  const client = await pool.connect()
+  try {
+    const { rows } = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [key])
+    if (!rows[0]?.locked) return null
+    try {
+      return await fn()
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [key])
+    }
+  } finally {
+    client.release()
+  }
 }
 
 // ---- Row Mappers ----
@@ -1490,6 +3502,7 @@ function mapDriver(row: any): DriverRecord {
     carMake: row.car_make,
     carModel: row.car_model,
     active: row.active,
+    fleetId: row.fleet_id ?? undefined,
     createdAt: row.created_at,
   }
 }
@@ -1510,6 +3523,148 @@ function mapSession(row: any): SessionRecord {
     policyGrantId: row.policy_grant_id ?? undefined,
     policyHash: row.policy_hash ?? undefined,
     approvalRequiredBeforePayment: row.approval_required_before_payment === true,
+    comp: row.comp ?? undefined,
+    feeDays: row.fee_days ?? undefined,
+  }
+}
+
+function mapApprovalRequest(row: any): ApprovalRequestRecord {
+  return {
+    id: row.id,
+    decisionId: row.decision_id,
+    sessionId: row.session_id,
+    plateNumber: row.plate_number,
+    lotId: row.lot_id,
+    ownerWallet: row.owner_wallet,
+    amountMinor: String(row.amount_minor),
+    currency: row.currency,
+    reasons: Array.isArray(row.reasons) ? row.reasons : [],
+    status: row.status,
+    approverWallet: row.approver_wallet ?? undefined,
+    signature: row.signature ?? undefined,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    resolvedAt: row.resolved_at ?? undefined,
+  }
+}
+
+function mapPaymentReview(row: any): PaymentReviewRecord {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    decisionId: row.decision_id ?? undefined,
+    paymentId: row.payment_id ?? undefined,
+    txHash: row.tx_hash ?? undefined,
+    rail: row.rail ?? undefined,
+    amount: row.amount ?? undefined,
+    reason: row.reason,
+    evidence: row.evidence ?? {},
+    status: row.status,
+    note: row.note ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    topUpMinor: row.top_up_minor != null ? String(row.top_up_minor) : undefined,
+    topUpCurrency: row.top_up_currency ?? undefined,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at ?? undefined,
+    plateNumber: row.plate_number ?? undefined,
+    lotId: row.lot_id ?? undefined,
+    sessionStatus: row.session_status ? normalizeSessionState(row.session_status) : undefined,
+  }
+}
+
+function mapRefund(row: any): RefundRecord {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    reviewId: row.review_id ?? undefined,
+    decisionId: row.decision_id ?? undefined,
+    settlementTxHash: row.settlement_tx_hash,
+    rail: row.rail,
+    asset: row.asset ?? undefined,
+    chainId: row.chain_id ?? undefined,
+    tokenAddress: row.token_address ?? undefined,
+    destination: row.destination ?? undefined,
+    amount: String(row.amount),
+    settledAmount: String(row.settled_amount),
+    status: row.status,
+    idempotencyKey: row.idempotency_key,
+    note: row.note ?? undefined,
+    requestedBy: row.requested_by,
+    approvedBy: row.approved_by ?? undefined,
+    railReference: row.rail_reference ?? undefined,
+    failureReason: row.failure_reason ?? undefined,
+    createdAt: row.created_at,
+    approvedAt: row.approved_at ?? undefined,
+    executedAt: row.executed_at ?? undefined,
+    confirmedAt: row.confirmed_at ?? undefined,
+    failedAt: row.failed_at ?? undefined,
+  }
+}
+
+function mapDispute(row: any): DisputeRecord {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    openedBy: row.opened_by,
+    reason: row.reason,
+    status: row.status,
+    evidence: row.evidence ?? undefined,
+    evidenceHash: row.evidence_hash ?? undefined,
+    resolutionNote: row.resolution_note ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    refundId: row.refund_id ?? undefined,
+    createdAt: row.created_at,
+    evidenceCollectedAt: row.evidence_collected_at ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    plateNumber: row.plate_number ?? undefined,
+    lotId: row.lot_id ?? undefined,
+  }
+}
+
+function mapPlateDebt(row: any): PlateDebtRecord {
+  return {
+    id: row.id,
+    plateNumber: row.plate_number,
+    lotId: row.lot_id,
+    sessionId: row.session_id,
+    driverWallet: row.driver_wallet ?? undefined,
+    amountMinor: String(row.amount_minor),
+    currency: row.currency,
+    source: row.source,
+    entryTime: row.entry_time,
+    exitTime: row.exit_time,
+    status: row.status,
+    collectingSessionId: row.collecting_session_id ?? undefined,
+    collectedTxHash: row.collected_tx_hash ?? undefined,
+    createdAt: row.created_at,
+    collectedAt: row.collected_at ?? undefined,
+  }
+}
+
+function mapDriverCredit(row: any): DriverCreditRecord {
+  return {
+    id: row.id,
+    plateNumber: row.plate_number,
+    lotId: row.lot_id,
+    sessionId: row.session_id,
+    driverWallet: row.driver_wallet ?? undefined,
+    rail: row.rail,
+    asset: row.asset,
+    amount: String(row.amount),
+    txHash: row.tx_hash ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+function mapSettlementPartialPayment(row: any): SettlementPartialPaymentRecord {
+  return {
+    txHash: row.tx_hash,
+    paymentId: row.payment_id,
+    rail: row.rail,
+    asset: row.asset,
+    amount: BigInt(row.amount),
+    payer: row.payer ?? undefined,
+    createdAt: row.created_at,
   }
 }
 
@@ -1528,6 +3683,41 @@ function mapLot(row: any): Lot {
     currency: row.currency,
     paymentMethods: row.payment_methods ?? ['stripe', 'x402'],
     operatorWallet: row.operator_wallet,
+    timezone: row.timezone ?? 'UTC',
+    tariff: row.tariff ?? [],
+    dailyCapMode: row.daily_cap_mode ?? 'rolling_24h',
+    riskThresholds: row.risk_thresholds ?? undefined,
+    evmAssets: row.evm_assets ?? undefined,
+    amountTolerance: row.amount_tolerance ?? undefined,
+  }
+}
+
+function mapEvmPendingPayment(row: any): EvmPendingPaymentRecord {
+  return {
+    paymentId: row.payment_id,
+    sessionId: row.session_id,
+    plateNumber: row.plate_number,
+    lotId: row.lot_id,
+    expectedAmount: row.expected_amount,
+    receiverWallet: row.receiver_wallet,
+    fee: Number(row.fee),
+    feeCurrency: row.fee_currency,
+    tokenId: row.token_id != null ? Number(row.token_id) : undefined,
+    decisionId: row.decision_id ?? undefined,
+    policyHash: row.policy_hash ?? undefined,
+    rail: row.rail ?? undefined,
+    asset: row.asset ?? undefined,
+    txHash: row.tx_hash ?? undefined,
+    paidAmount: row.paid_amount ?? undefined,
+    payer: row.payer ?? undefined,
+    blockNumber: row.block_number != null ? Number(row.block_number) : undefined,
+    blockHash: row.block_hash ?? undefined,
+    quotes: row.quotes ?? undefined,
+    paidChainId: row.paid_chain_id ?? undefined,
+    paidToken: row.paid_token ?? undefined,
+    status: row.status,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
   }
 }
 
@@ -1551,6 +3741,7 @@ function mapXrplIntent(row: any): XrplPaymentIntentRecord {
     xamanDeepLink: row.xaman_deep_link ?? undefined,
     xamanQrPng: row.xaman_qr_png ?? undefined,
     txHash: row.tx_hash ?? undefined,
+    destinationTag: row.destination_tag != null ? Number(row.destination_tag) : undefined,
   }
 }
 
@@ -1563,6 +3754,9 @@ export const db = {
   createSession,
   getActiveSession,
   getSessionState,
+  getSession,
+  setSessionComp,
+  setSessionFeeDays,
   getActiveSessionsByLot,
   transitionSession,
   settleSessionAfterVerified,
@@ -1571,20 +3765,63 @@ export const db = {
   updateSessionPolicyGrant,
   getPolicyGrantExpiresAt,
   getPolicyGrantByGrantId,
-  getFiatSpendTotalsByCurrency,
-  getSpendTotalsFiat,
+  getPolicyLayer,
+  listPolicyLayers,
+  upsertPolicyLayer,
+  deletePolicyLayer,
+  getPolicyLayersForStack,
+  getSpendLedgerTotals,
   insertPolicyEvent,
   insertSessionEvent,
   getSessionTimeline,
   insertPolicyDecision,
+  getRecentDecisionsForReplay,
   transitionDecisionState,
   consumeDecisionOnce,
   getDecisionPayloadByDecisionId,
   getLatestPolicyEventPayload,
+  getSessionPolicyEvents,
   getSessionDebugRecord,
   hasSettlementForTxHash,
   hasSettlementForDecisionRail,
   getMedianFeeForLot,
+  getOtherActiveSessionLots,
+  getPlateRiskHistory,
+  createApprovalRequest,
+  getApprovalRequest,
+  getPendingApprovalRequestsForWallet,
+  resolveApprovalRequest,
+  getLatestSessionApproval,
+  getApprovalDelegates,
+  addApprovalDelegate,
+  removeApprovalDelegate,
+  listPaymentReviews,
+  getPaymentReview,
+  getLatestSessionPaymentReview,
+  resolvePaymentReview,
+  getRefundableSettlement,
+  createRefund,
+  getRefund,
+  listRefunds,
+  approveRefund,
+  markRefundExecuted,
+  markRefundConfirmed,
+  markRefundFailed,
+  createDispute,
+  getDispute,
+  listDisputes,
+  storeDisputeEvidence,
+  resolveDispute,
+  createPlateDebt,
+  listPlateDebts,
+  getOutstandingDebtTotal,
+  attachOutstandingDebts,
+  collectSessionDebts,
+  createDriverCredit,
+  listDriverCredits,
+  addSettlementPartialPayment,
+  listSettlementPartialPayments,
+  removeSettlementPartialPayment,
   getLot,
   updateLot,
   beginIdempotency,
@@ -1597,4 +3834,29 @@ export const db = {
   resolveActiveXrplIntentByPlateLot,
   resolveXrplIntentByPaymentId,
   getXrplIntentByTxHash,
+  getPendingXrplIntentByDestinationTag,
+  claimXrplIntentForTx,
+  cancelXrplIntentByPaymentId,
+  getXrplLedgerCursor,
+  advanceXrplLedgerCursor,
+  upsertEvmPendingPayment,
+  getActiveEvmPendingPayment,
+  listEvmPendingPaymentsForReceiver,
+  claimEvmPendingPayment,
+  completeEvmPendingPayment,
+  listMatchedEvmPendingPayments,
+  releaseEvmPendingPayment,
+  cancelEvmPendingPayment,
+  expireEvmPendingPayments,
+  getEvmBlockCursor,
+  advanceEvmBlockCursor,
+  rewindEvmBlockCursor,
+  recordEvmFailedTransfer,
+  listEvmFailedTransfers,
+  deleteEvmFailedTransfer,
+  expirePolicyDecisions,
+  expirePolicyGrants,
+  expireXrplIntents,
+  expireApprovalRequests,
+  withAdvisoryLock,
 }
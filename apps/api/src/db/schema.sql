@@ -12,11 +12,13 @@ CREATE TABLE drivers (
     car_make      VARCHAR(50),
     car_model     VARCHAR(50),
     active        BOOLEAN DEFAULT true,
+    fleet_id      VARCHAR(64),                 -- optional fleet for fleet-wide spend caps
     created_at    TIMESTAMPTZ DEFAULT NOW()
 );
 
 CREATE INDEX idx_drivers_wallet ON drivers(wallet);
 CREATE INDEX idx_drivers_plate ON drivers(plate_number);
+CREATE INDEX idx_drivers_fleet ON drivers(fleet_id) WHERE fleet_id IS NOT NULL;
 
 -- Session index (mirrors on-chain ParkingNFT)
 CREATE TABLE sessions (
@@ -34,6 +36,8 @@ CREATE TABLE sessions (
     policy_grant_id   UUID,
     policy_hash       VARCHAR(64),
     approval_required_before_payment BOOLEAN NOT NULL DEFAULT false,
+    comp              JSONB,                 -- operator discount {percent} | {amountMinor}
+    fee_days          JSONB,                 -- per-day breakdown of the exit quote
     created_at        TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -73,11 +77,29 @@ CREATE TABLE policy_grants (
     require_approval BOOLEAN NOT NULL DEFAULT false,
     reasons          JSONB NOT NULL,
     expires_at       TIMESTAMPTZ NOT NULL,
-    created_at       TIMESTAMPTZ DEFAULT NOW()
+    policy_layers    JSONB,
+    grant_state      VARCHAR(16) NOT NULL DEFAULT 'active',  -- active|expired (expiry sweeper)
+    created_at       TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT chk_policy_grant_state CHECK (grant_state IN ('active', 'expired'))
 );
 
 CREATE INDEX idx_policy_grants_session ON policy_grants(session_id);
 CREATE INDEX idx_policy_grants_expires_at ON policy_grants(expires_at);
+CREATE INDEX idx_policy_grants_active_expires_at ON policy_grants(expires_at)
+  WHERE grant_state = 'active';
+
+-- Owner / vehicle / lot policy layers (merged over the platform policy at entry and exit)
+-- subject: owner wallet (lowercased), normalized plate, or lot id
+CREATE TABLE policy_layers (
+    id          UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    layer       VARCHAR(10) NOT NULL,
+    subject     VARCHAR(100) NOT NULL,
+    policy      JSONB NOT NULL,
+    created_at  TIMESTAMPTZ DEFAULT NOW(),
+    updated_at  TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (layer, subject),
+    CONSTRAINT chk_policy_layers_layer CHECK (layer IN ('owner', 'vehicle', 'lot'))
+);
 
 -- sessions.policy_grant_id references policy_grants.grant_id (nullable; set after grant is inserted)
 ALTER TABLE sessions ADD CONSTRAINT fk_sessions_policy_grant
@@ -98,6 +120,13 @@ CREATE TABLE lots (
     currency        VARCHAR(10) NOT NULL DEFAULT 'USD',
     payment_methods TEXT[] DEFAULT '{stripe,x402}',
     operator_wallet VARCHAR(42) NOT NULL,
+    timezone        VARCHAR(64) NOT NULL DEFAULT 'UTC',  -- IANA zone for tariff bands
+    tariff          JSONB NOT NULL DEFAULT '[]'::jsonb,  -- ordered rate bands (first match wins)
+    daily_cap_mode  VARCHAR(16) NOT NULL DEFAULT 'rolling_24h'
+                    CHECK (daily_cap_mode IN ('rolling_24h', 'calendar_day')),
+    risk_thresholds JSONB,                               -- {requireApproval, deny?}; NULL = defaults
+    evm_assets      JSONB,                               -- [{chainId, token}]; NULL = X402 default
+    amount_tolerance JSONB,                              -- {stance, underpaymentBps?, allowPartial?}
     created_at      TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -116,8 +145,12 @@ CREATE TABLE idempotency_keys (
     CONSTRAINT chk_idempotency_status CHECK (status IN ('pending', 'completed'))
 );
 
+-- Destination tags for XRPL payment intents (uint32; wraps around)
+CREATE SEQUENCE xrpl_destination_tag_seq AS BIGINT MINVALUE 1 MAXVALUE 4294967295 CYCLE;
+
 -- Persistent XRPL/Xaman payment intents (survive API restarts)
 -- decision_id + policy_hash bind the payment to the exit-time policy decision for enforcement.
+-- destination_tag identifies the intent in plain wallet payments (XRPL payment watcher).
 CREATE TABLE xrpl_payment_intents (
     payment_id      UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     plate_number    VARCHAR(20) NOT NULL,
@@ -135,6 +168,7 @@ CREATE TABLE xrpl_payment_intents (
     xaman_deep_link TEXT,
     xaman_qr_png    TEXT,
     tx_hash         VARCHAR(128),
+    destination_tag BIGINT DEFAULT nextval('xrpl_destination_tag_seq'),
     status          VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending|resolved|expired|cancelled
     expires_at      TIMESTAMPTZ NOT NULL,
     created_at      TIMESTAMPTZ DEFAULT NOW(),
@@ -144,6 +178,8 @@ CREATE TABLE xrpl_payment_intents (
 
 CREATE INDEX idx_xrpl_intents_plate_lot ON xrpl_payment_intents(plate_number, lot_id);
 CREATE INDEX idx_xrpl_intents_expires_at ON xrpl_payment_intents(expires_at);
+CREATE INDEX idx_xrpl_intents_pending_expires_at ON xrpl_payment_intents(expires_at)
+  WHERE status = 'pending';
 CREATE INDEX idx_xrpl_intents_payload_uuid ON xrpl_payment_intents(xaman_payload_uuid);
 CREATE UNIQUE INDEX idx_xrpl_intents_unique_tx_hash
   ON xrpl_payment_intents(tx_hash)
@@ -153,6 +189,10 @@ CREATE UNIQUE INDEX idx_xrpl_intents_unique_tx_hash
 CREATE UNIQUE INDEX idx_xrpl_intents_one_pending_per_plate_lot
   ON xrpl_payment_intents(plate_number, lot_id)
   WHERE status = 'pending';
+-- A tag identifies one pending intent per receiving account.
+CREATE UNIQUE INDEX idx_xrpl_intents_pending_destination_tag
+  ON xrpl_payment_intents(destination, destination_tag)
+  WHERE status = 'pending' AND destination_tag IS NOT NULL;
 
 -- First-class decision records (exit-time policy outcome). Source of truth for enforcement.
 -- decision_id is unique (PRIMARY KEY). Indexes below for enforcement lookups.
@@ -170,7 +210,8 @@ CREATE TABLE policy_decisions (
     action            VARCHAR(32) NOT NULL,
     reasons           JSONB NOT NULL,
     require_approval  BOOLEAN NOT NULL DEFAULT false,
-    payload           JSONB NOT NULL
+    payload           JSONB NOT NULL,
+    fx_snapshot       JSONB                -- FX rate used for the stablecoin quote (audit)
 );
 
 ALTER TABLE policy_decisions ADD CONSTRAINT chk_policy_decision_state
@@ -178,6 +219,8 @@ ALTER TABLE policy_decisions ADD CONSTRAINT chk_policy_decision_state
 
 CREATE INDEX idx_policy_decisions_session_grant ON policy_decisions(session_grant_id);
 CREATE INDEX idx_policy_decisions_expires_at ON policy_decisions(expires_at);
+CREATE INDEX idx_policy_decisions_open_expires_at ON policy_decisions(expires_at)
+  WHERE decision_state IN ('created', 'approved');
 ALTER TABLE policy_decisions ADD CONSTRAINT fk_policy_decisions_session_grant
   FOREIGN KEY (session_grant_id) REFERENCES policy_grants(grant_id);
 
@@ -256,3 +299,289 @@ CREATE TABLE session_events (
 
 CREATE INDEX idx_session_events_session_created_at ON session_events(session_id, created_at);
 CREATE INDEX idx_session_events_type_created_at ON session_events(event_type, created_at);
+
+-- Spend ledger: one row per settled session, written in the statement that closes it.
+-- Source of cumulative spend for daily caps and owner / fleet budgets.
+CREATE TABLE spend_ledger (
+    id            BIGSERIAL PRIMARY KEY,
+    session_id    UUID NOT NULL UNIQUE REFERENCES sessions(id),
+    plate_number  VARCHAR(20) NOT NULL,
+    owner_wallet  VARCHAR(42),                 -- driver wallet at settlement (lowercased)
+    fleet_id      VARCHAR(64),
+    lot_id        VARCHAR(50) NOT NULL,
+    amount_minor  BIGINT NOT NULL CHECK (amount_minor >= 0),  -- minor units of currency
+    currency      VARCHAR(10) NOT NULL,
+    rail          VARCHAR(16),
+    decision_id   VARCHAR(64),
+    tx_hash       VARCHAR(128),
+    settled_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_spend_ledger_plate ON spend_ledger(plate_number, currency, settled_at);
+CREATE INDEX idx_spend_ledger_owner ON spend_ledger(owner_wallet, currency, settled_at)
+  WHERE owner_wallet IS NOT NULL;
+CREATE INDEX idx_spend_ledger_fleet ON spend_ledger(fleet_id, currency, settled_at)
+  WHERE fleet_id IS NOT NULL;
+
+-- Owner approvals: one request per REQUIRE_APPROVAL decision, signed (EIP-712) by the vehicle
+-- owner or one of their delegates. Pending requests time out at expires_at.
+CREATE TABLE approval_requests (
+    id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    decision_id      VARCHAR(64) NOT NULL UNIQUE REFERENCES policy_decisions(decision_id),
+    session_id       UUID NOT NULL REFERENCES sessions(id),
+    plate_number     VARCHAR(20) NOT NULL,
+    lot_id           VARCHAR(50) NOT NULL,
+    owner_wallet     VARCHAR(42) NOT NULL,     -- lowercased
+    amount_minor     BIGINT NOT NULL CHECK (amount_minor >= 0),  -- price being approved
+    currency         VARCHAR(10) NOT NULL,
+    reasons          JSONB NOT NULL DEFAULT '[]'::jsonb,
+    status           VARCHAR(16) NOT NULL DEFAULT 'pending'
+                     CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+    approver_wallet  VARCHAR(42),              -- signer (owner or delegate), lowercased
+    signature        TEXT,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at       TIMESTAMPTZ NOT NULL,
+    resolved_at      TIMESTAMPTZ
+);
+
+CREATE INDEX idx_approval_requests_session ON approval_requests(session_id, status);
+CREATE INDEX idx_approval_requests_owner_pending ON approval_requests(owner_wallet)
+  WHERE status = 'pending';
+CREATE INDEX idx_approval_requests_pending_expires_at ON approval_requests(expires_at)
+  WHERE status = 'pending';
+
+CREATE TABLE approval_delegates (
+    owner_wallet     VARCHAR(42) NOT NULL,
+    delegate_wallet  VARCHAR(42) NOT NULL,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (owner_wallet, delegate_wallet),
+    CHECK (owner_wallet <> delegate_wallet)
+);
+
+CREATE INDEX idx_approval_delegates_delegate ON approval_delegates(delegate_wallet);
+
+-- Paid-but-not-closable review queue: one row per settlement that was verified on its rail but
+-- rejected by policy enforcement. Operators accept, refund or request a top-up.
+CREATE TABLE payment_reviews (
+    id               UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id       UUID NOT NULL REFERENCES sessions(id),
+    decision_id      VARCHAR(64),
+    payment_id       UUID,
+    tx_hash          VARCHAR(128),
+    rail             VARCHAR(16),
+    amount           VARCHAR(78),
+    reason           VARCHAR(64) NOT NULL,
+    evidence         JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status           VARCHAR(20) NOT NULL DEFAULT 'open'
+                     CHECK (status IN ('open', 'accepted', 'refund_requested', 'top_up_requested')),
+    note             TEXT,
+    resolved_by      JSONB,
+    top_up_minor     BIGINT CHECK (top_up_minor > 0),
+    top_up_currency  VARCHAR(10),
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at      TIMESTAMPTZ
+);
+
+-- A settlement is reviewed once, however many enforcement failures it produced
+CREATE UNIQUE INDEX idx_payment_reviews_tx_hash ON payment_reviews(tx_hash)
+  WHERE tx_hash IS NOT NULL;
+CREATE INDEX idx_payment_reviews_session ON payment_reviews(session_id, created_at DESC);
+CREATE INDEX idx_payment_reviews_open ON payment_reviews(created_at)
+  WHERE status = 'open';
+
+-- Refunds of settled payments back to the payer, per settlement and capped at its amount.
+-- requested → approved → executed (sent on the rail) → confirmed, or failed.
+CREATE TABLE refunds (
+    id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id          UUID NOT NULL REFERENCES sessions(id),
+    review_id           UUID REFERENCES payment_reviews(id),
+    decision_id         VARCHAR(64),
+    settlement_tx_hash  VARCHAR(128) NOT NULL,
+    rail                VARCHAR(16) NOT NULL CHECK (rail IN ('stripe', 'evm', 'xrpl')),
+    asset               VARCHAR(64),
+    chain_id            INT,                   -- EVM: chain + token the settlement was paid with
+    token_address       VARCHAR(42),
+    destination         VARCHAR(128),
+    amount              NUMERIC(78, 0) NOT NULL CHECK (amount > 0),
+    settled_amount      NUMERIC(78, 0) NOT NULL CHECK (settled_amount > 0),
+    status              VARCHAR(20) NOT NULL DEFAULT 'requested'
+                        CHECK (status IN ('requested', 'approved', 'executed', 'confirmed', 'failed')),
+    idempotency_key     VARCHAR(160) NOT NULL,
+    note                TEXT,
+    requested_by        JSONB NOT NULL,
+    approved_by         JSONB,
+    rail_reference      VARCHAR(128),
+    failure_reason      TEXT,
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    approved_at         TIMESTAMPTZ,
+    executed_at         TIMESTAMPTZ,
+    confirmed_at        TIMESTAMPTZ,
+    failed_at           TIMESTAMPTZ,
+    CHECK (amount <= settled_amount)
+);
+
+CREATE UNIQUE INDEX idx_refunds_idempotency_key ON refunds(idempotency_key)
+  WHERE status <> 'failed';
+CREATE INDEX idx_refunds_settlement ON refunds(settlement_tx_hash);
+CREATE INDEX idx_refunds_session ON refunds(session_id, created_at DESC);
+CREATE INDEX idx_refunds_pending ON refunds(status, created_at)
+  WHERE status IN ('requested', 'approved', 'executed');
+
+-- Driver disputes of session charges, with the evidence bundle collected for each.
+-- opened → evidence_collected → resolved_driver | resolved_operator.
+CREATE TABLE disputes (
+    id                     UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id             UUID NOT NULL REFERENCES sessions(id),
+    opened_by              VARCHAR(42) NOT NULL,  -- driver wallet (lowercased)
+    reason                 TEXT NOT NULL,
+    status                 VARCHAR(20) NOT NULL DEFAULT 'opened'
+                           CHECK (status IN ('opened', 'evidence_collected', 'resolved_driver', 'resolved_operator')),
+    evidence               JSONB,
+    evidence_hash          VARCHAR(64),           -- sha256 of the canonical evidence JSON
+    resolution_note        TEXT,
+    resolved_by            JSONB,
+    refund_id              UUID REFERENCES refunds(id),
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    evidence_collected_at  TIMESTAMPTZ,
+    resolved_at            TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX idx_disputes_session_unresolved ON disputes(session_id)
+  WHERE status IN ('opened', 'evidence_collected');
+CREATE INDEX idx_disputes_status ON disputes(status, created_at);
+
+-- Fees owed by plates for exits that left without paying (offline gate, Mirror Node fallback).
+-- Outstanding until the session they were attached to (collecting_session_id) settles.
+CREATE TABLE plate_debts (
+    id                     UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plate_number           VARCHAR(20) NOT NULL,
+    lot_id                 VARCHAR(50) NOT NULL REFERENCES lots(id),
+    session_id             UUID NOT NULL UNIQUE REFERENCES sessions(id),  -- the unpaid session
+    driver_wallet          VARCHAR(42),           -- driver registered for the plate at the time
+    amount_minor           BIGINT NOT NULL CHECK (amount_minor > 0),
+    currency               VARCHAR(10) NOT NULL,
+    source                 VARCHAR(32) NOT NULL
+                           CHECK (source IN ('gate_offline', 'mirror_node_fallback')),
+    entry_time             TIMESTAMPTZ NOT NULL,
+    exit_time              TIMESTAMPTZ NOT NULL,
+    status                 VARCHAR(20) NOT NULL DEFAULT 'outstanding'
+                           CHECK (status IN ('outstanding', 'collected')),
+    collecting_session_id  UUID REFERENCES sessions(id),
+    collected_tx_hash      VARCHAR(128),
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    collected_at           TIMESTAMPTZ
+);
+
+CREATE INDEX idx_plate_debts_outstanding ON plate_debts(plate_number, currency)
+  WHERE status = 'outstanding';
+CREATE INDEX idx_plate_debts_collecting ON plate_debts(collecting_session_id)
+  WHERE status = 'outstanding';
+
+-- Over-payments of settled sessions (tolerant amount stance), in atomic units of the asset.
+CREATE TABLE driver_credits (
+    id             UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plate_number   VARCHAR(20) NOT NULL,
+    lot_id         VARCHAR(50) NOT NULL REFERENCES lots(id),
+    session_id     UUID NOT NULL UNIQUE REFERENCES sessions(id),  -- the over-paid session
+    driver_wallet  VARCHAR(64),                   -- payer of the settling payment
+    rail           VARCHAR(20) NOT NULL,
+    asset          JSONB NOT NULL,
+    amount         NUMERIC(78, 0) NOT NULL CHECK (amount > 0),
+    tx_hash        VARCHAR(128),
+    created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_driver_credits_plate ON driver_credits(plate_number);
+
+-- Payments short of the quote counted towards it (tolerant stance with allowPartial).
+CREATE TABLE settlement_partial_payments (
+    tx_hash     VARCHAR(128) PRIMARY KEY,
+    payment_id  UUID NOT NULL,  -- xrpl_payment_intents / evm_pending_payments payment_id
+    rail        VARCHAR(20) NOT NULL,
+    asset       JSONB NOT NULL,
+    amount      NUMERIC(78, 0) NOT NULL CHECK (amount > 0),
+    payer       VARCHAR(64),
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_settlement_partial_payments_payment ON settlement_partial_payments(payment_id);
+
+-- Pending EVM payments the on-chain watcher matches Transfer events against (EIP-681 QR).
+-- pending -> matched (claimed by a transfer) -> resolved | rejected; or expired | cancelled.
+CREATE TABLE evm_pending_payments (
+    payment_id       UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id       UUID NOT NULL REFERENCES sessions(id),
+    plate_number     VARCHAR(20) NOT NULL,
+    lot_id           VARCHAR(50) NOT NULL,
+    expected_amount  VARCHAR(64) NOT NULL, -- decimal string as quoted (e.g. "1.500000")
+    receiver_wallet  VARCHAR(64) NOT NULL,
+    fee              DECIMAL(10, 6) NOT NULL,
+    fee_currency     VARCHAR(10) NOT NULL,
+    token_id         BIGINT,
+    decision_id      VARCHAR(64),
+    policy_hash      VARCHAR(64),
+    rail             VARCHAR(20),
+    asset            JSONB,
+    quotes           JSONB,                 -- [{quoteId, asset, amount, decimals}] per accepted asset
+    tx_hash          VARCHAR(128),
+    paid_amount      VARCHAR(78),           -- claiming transfer value (smallest unit)
+    payer            VARCHAR(64),
+    block_number     BIGINT,                -- block of the claiming transfer (reorg checks)
+    block_hash       VARCHAR(66),
+    paid_chain_id    INT,                   -- chain + token of the claiming transfer
+    paid_token       VARCHAR(42),
+    status           VARCHAR(20) NOT NULL DEFAULT 'pending',
+    expires_at       TIMESTAMPTZ NOT NULL,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT chk_evm_pending_status
+      CHECK (status IN ('pending', 'matched', 'resolved', 'rejected', 'expired', 'cancelled'))
+);
+
+-- One pending payment per session; a new exit quote replaces it.
+CREATE UNIQUE INDEX idx_evm_pending_one_per_session
+  ON evm_pending_payments(session_id)
+  WHERE status = 'pending';
+-- A transfer can be claimed by one payment only.
+CREATE UNIQUE INDEX idx_evm_pending_unique_tx_hash
+  ON evm_pending_payments(tx_hash)
+  WHERE tx_hash IS NOT NULL;
+CREATE INDEX idx_evm_pending_receiver ON evm_pending_payments(LOWER(receiver_wallet))
+  WHERE status = 'pending';
+CREATE INDEX idx_evm_pending_plate_lot ON evm_pending_payments(plate_number, lot_id)
+  WHERE status = 'pending';
+CREATE INDEX idx_evm_pending_expires_at ON evm_pending_payments(expires_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_evm_pending_matched_chain_block
+  ON evm_pending_payments(paid_chain_id, block_number)
+  WHERE status = 'matched';
+
+-- Last block the EVM payment watcher has scanned per chain + token (getLogs backfill cursor).
+-- Key: evm:<chainId>:<token address>.
+CREATE TABLE evm_block_cursors (
+    cursor_key    VARCHAR(128) PRIMARY KEY,
+    block_number  BIGINT NOT NULL,
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Transfer logs the EVM payment watcher failed to handle; retried by every instance until
+-- handled or gone from the chain (the block cursor does not wait for them).
+CREATE TABLE evm_failed_transfers (
+    cursor_key    VARCHAR(128) NOT NULL,
+    tx_hash       VARCHAR(66) NOT NULL,
+    log_index     INT NOT NULL,
+    block_number  BIGINT NOT NULL,
+    attempts      INT NOT NULL DEFAULT 1,
+    last_error    TEXT,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (cursor_key, tx_hash, log_index)
+);
+
+-- Last validated ledger whose Payments to an account the XRPL payment watcher has handled
+-- (account_tx replay cursor).
+CREATE TABLE xrpl_ledger_cursors (
+    account       VARCHAR(64) PRIMARY KEY,
+    ledger_index  BIGINT NOT NULL,
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
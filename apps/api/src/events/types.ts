@@ -3,11 +3,34 @@ import { LIFECYCLE_EVENT } from '@parker/core'
 export const SESSION_EVENTS = {
   SESSION_CREATED: 'SESSION.CREATED',
   POLICY_GRANT_ISSUED: 'POLICY.GRANT_ISSUED',
+  POLICY_GRANT_EXPIRED: 'POLICY.GRANT_EXPIRED',
   SESSION_BUDGET_AUTHORIZATION_ISSUED: 'SESSION_BUDGET_AUTHORIZATION.ISSUED',
   PAYMENT_DECISION_CREATED: 'PAYMENT.DECISION_CREATED',
+  PAYMENT_DECISION_EXPIRED: 'PAYMENT.DECISION_EXPIRED',
+  PAYMENT_INTENT_EXPIRED: 'PAYMENT.INTENT_EXPIRED',
   SIGNED_PAYMENT_AUTHORIZATION_ISSUED: 'SIGNED_PAYMENT_AUTHORIZATION.ISSUED',
   SETTLEMENT_VERIFIED: 'SETTLEMENT.VERIFIED',
+  SETTLEMENT_REORGED: 'SETTLEMENT.REORGED',
+  SETTLEMENT_PARTIAL: 'SETTLEMENT.PARTIAL',
+  PAYMENT_REVIEW_OPENED: 'PAYMENT.REVIEW_OPENED',
+  PAYMENT_REVIEW_RESOLVED: 'PAYMENT.REVIEW_RESOLVED',
+  REFUND_REQUESTED: 'REFUND.REQUESTED',
+  REFUND_APPROVED: 'REFUND.APPROVED',
+  REFUND_EXECUTED: 'REFUND.EXECUTED',
+  REFUND_CONFIRMED: 'REFUND.CONFIRMED',
+  REFUND_FAILED: 'REFUND.FAILED',
+  DISPUTE_OPENED: 'DISPUTE.OPENED',
+  DISPUTE_EVIDENCE_COLLECTED: 'DISPUTE.EVIDENCE_COLLECTED',
+  DISPUTE_RESOLVED: 'DISPUTE.RESOLVED',
+  DEBT_RECORDED: 'DEBT.RECORDED',
+  DEBT_COLLECTED: 'DEBT.COLLECTED',
+  CREDIT_RECORDED: 'CREDIT.RECORDED',
+  ALPR_READ: 'ALPR.READ',
+  SESSION_NFT_BURNED: 'SESSION.NFT_BURNED',
   SESSION_CLOSED: 'SESSION.CLOSED',
+  SESSION_FORCE_CLOSED: 'SESSION.FORCE_CLOSED',
+  SESSION_VOIDED: 'SESSION.VOIDED',
+  SESSION_COMPED: 'SESSION.COMPED',
 } as const
 
 export type SessionEventType = (typeof SESSION_EVENTS)[keyof typeof SESSION_EVENTS]
@@ -15,13 +38,36 @@ export type SessionEventType = (typeof SESSION_EVENTS)[keyof typeof SESSION_EVEN
 const LIFECYCLE_TO_SESSION_EVENT: Partial<Record<string, SessionEventType>> = {
   [LIFECYCLE_EVENT.SESSION_CREATED]: SESSION_EVENTS.SESSION_CREATED,
   [LIFECYCLE_EVENT.POLICY_GRANT_ISSUED]: SESSION_EVENTS.POLICY_GRANT_ISSUED,
+  [LIFECYCLE_EVENT.POLICY_GRANT_EXPIRED]: SESSION_EVENTS.POLICY_GRANT_EXPIRED,
   [LIFECYCLE_EVENT.SESSION_BUDGET_AUTHORIZATION_ISSUED]:
     SESSION_EVENTS.SESSION_BUDGET_AUTHORIZATION_ISSUED,
   [LIFECYCLE_EVENT.PAYMENT_DECISION_CREATED]: SESSION_EVENTS.PAYMENT_DECISION_CREATED,
+  [LIFECYCLE_EVENT.PAYMENT_DECISION_EXPIRED]: SESSION_EVENTS.PAYMENT_DECISION_EXPIRED,
+  [LIFECYCLE_EVENT.PAYMENT_INTENT_EXPIRED]: SESSION_EVENTS.PAYMENT_INTENT_EXPIRED,
   [LIFECYCLE_EVENT.SIGNED_PAYMENT_AUTHORIZATION_ISSUED]:
     SESSION_EVENTS.SIGNED_PAYMENT_AUTHORIZATION_ISSUED,
   [LIFECYCLE_EVENT.SETTLEMENT_VERIFIED]: SESSION_EVENTS.SETTLEMENT_VERIFIED,
+  [LIFECYCLE_EVENT.SETTLEMENT_REORGED]: SESSION_EVENTS.SETTLEMENT_REORGED,
+  [LIFECYCLE_EVENT.SETTLEMENT_PARTIAL]: SESSION_EVENTS.SETTLEMENT_PARTIAL,
+  [LIFECYCLE_EVENT.PAYMENT_REVIEW_OPENED]: SESSION_EVENTS.PAYMENT_REVIEW_OPENED,
+  [LIFECYCLE_EVENT.PAYMENT_REVIEW_RESOLVED]: SESSION_EVENTS.PAYMENT_REVIEW_RESOLVED,
+  [LIFECYCLE_EVENT.REFUND_REQUESTED]: SESSION_EVENTS.REFUND_REQUESTED,
+  [LIFECYCLE_EVENT.REFUND_APPROVED]: SESSION_EVENTS.REFUND_APPROVED,
+  [LIFECYCLE_EVENT.REFUND_EXECUTED]: SESSION_EVENTS.REFUND_EXECUTED,
+  [LIFECYCLE_EVENT.REFUND_CONFIRMED]: SESSION_EVENTS.REFUND_CONFIRMED,
+  [LIFECYCLE_EVENT.REFUND_FAILED]: SESSION_EVENTS.REFUND_FAILED,
+  [LIFECYCLE_EVENT.DISPUTE_OPENED]: SESSION_EVENTS.DISPUTE_OPENED,
+  [LIFECYCLE_EVENT.DISPUTE_EVIDENCE_COLLECTED]: SESSION_EVENTS.DISPUTE_EVIDENCE_COLLECTED,
+  [LIFECYCLE_EVENT.DISPUTE_RESOLVED]: SESSION_EVENTS.DISPUTE_RESOLVED,
+  [LIFECYCLE_EVENT.DEBT_RECORDED]: SESSION_EVENTS.DEBT_RECORDED,
+  [LIFECYCLE_EVENT.DEBT_COLLECTED]: SESSION_EVENTS.DEBT_COLLECTED,
+  [LIFECYCLE_EVENT.CREDIT_RECORDED]: SESSION_EVENTS.CREDIT_RECORDED,
+  [LIFECYCLE_EVENT.ALPR_READ]: SESSION_EVENTS.ALPR_READ,
+  [LIFECYCLE_EVENT.SESSION_NFT_BURNED]: SESSION_EVENTS.SESSION_NFT_BURNED,
   [LIFECYCLE_EVENT.SESSION_CLOSED]: SESSION_EVENTS.SESSION_CLOSED,
+  [LIFECYCLE_EVENT.SESSION_FORCE_CLOSED]: SESSION_EVENTS.SESSION_FORCE_CLOSED,
+  [LIFECYCLE_EVENT.SESSION_VOIDED]: SESSION_EVENTS.SESSION_VOIDED,
+  [LIFECYCLE_EVENT.SESSION_COMPED]: SESSION_EVENTS.SESSION_COMPED,
 }
 
 export function toSessionEventType(eventType: string): SessionEventType | null {
@@ -5,12 +5,31 @@ import { createApp } from './app'
 import { setupWebSocket } from './ws/index'
 import { verifyJwt } from './routes/auth'
 import { createPublicClient, http } from 'viem'
-import { baseSepolia } from 'viem/chains'
-import { isBaseEnabled } from './services/blockchain'
+import { getEvmChain } from '@parker/core'
+import { VIEM_CHAINS, evmRpcUrl, evmSettlementNetworks, isBaseEnabled } from './services/blockchain'
 import { isHederaEnabled } from './services/hedera'
 import { isStripeEnabled } from './services/stripe'
 import { startPaymentWatcher } from './services/paymentWatcher'
+import { startXrplPaymentWatcher } from './services/xrplWatcher'
+import { startExpirySweeper } from './services/expirySweeper'
 import { logger } from './services/observability'
+import { getPlatformPolicy } from './services/policyStack'
+
+/** XRPL accounts to watch for payments (XRPL_WATCH_ACCOUNTS, default LOT_OPERATOR_WALLET). */
+function xrplWatchAccounts(): string[] {
+  return (process.env.XRPL_WATCH_ACCOUNTS || process.env.LOT_OPERATOR_WALLET || '')
+    .split(',')
+    .map((a) => a.trim())
+    .filter(Boolean)
+}
+
+// Refuse to start with an invalid PLATFORM_POLICY_JSON rather than failing every gate entry
+try {
+  getPlatformPolicy()
+} catch (error) {
+  logger.error('platform_policy_invalid', { error: (error as Error).message })
+  process.exit(1)
+}
 
 const app = createApp()
 const server = createServer(app)
@@ -31,14 +50,36 @@ server.listen(port, () => {
     stripe_enabled: isStripeEnabled(),
   })
 
-  // Start on-chain payment watcher (only when Base RPC is configured)
+  // Start on-chain payment watchers, one per settlement chain (only when Base is configured)
   if (isBaseEnabled()) {
-    const rpcUrl = process.env.RPC_URL || 'https://sepolia.base.org'
-    const client = createPublicClient({ chain: baseSepolia, transport: http(rpcUrl) })
-    startPaymentWatcher(client as any)
-    logger.info('payment_watcher_started', { enabled: true })
+    evmSettlementNetworks().forEach((network, i) => {
+      const rpcUrl = evmRpcUrl(network, i === 0)
+      if (!rpcUrl) {
+        logger.warn('payment_watcher_no_rpc', { network })
+        return
+      }
+      const chain = VIEM_CHAINS[getEvmChain(network)!.chainId]
+      const client = createPublicClient({ chain, transport: http(rpcUrl) })
+      startPaymentWatcher(client as any, network)
+      logger.info('payment_watcher_started', { enabled: true, network })
+    })
   } else {
     startPaymentWatcher(null)
     logger.info('payment_watcher_started', { enabled: false })
   }
+
+  // Settle tagged XRPL payments to the operator account(s) without a submitted tx hash
+  const x402Network = process.env.X402_NETWORK || ''
+  if (x402Network.startsWith('xrpl:') && process.env.XRPL_RPC_URL) {
+    for (const account of xrplWatchAccounts()) {
+      startXrplPaymentWatcher({ serverUrl: process.env.XRPL_RPC_URL, account })
+        .then(() => logger.info('xrpl_payment_watcher_started', { account }))
+        .catch((error) =>
+          logger.error('xrpl_payment_watcher_failed', { account, error: (error as Error).message }),
+        )
+    }
+  }
+
+  // Expire decisions, grants, XRPL intents and approval requests (one instance per tick)
+  startExpirySweeper()
 })
@@ -1,4 +1,4 @@
-import type { RequestHandler } from 'express'
+import type { Request, RequestHandler } from 'express'
 import { verifyJwt } from '../routes/auth'
 
 /**
@@ -41,3 +41,24 @@ export const requireWallet: RequestHandler = (req, res, next) => {
   }
   next()
 }
+
+/**
+ * Operator access: the request carries the gate API key in `x-gate-api-key`.
+ * Any caller passes while the key (GATE_API_KEY by default) is unset (development).
+ */
+export function hasGateAccess(
+  req: Request,
+  expectedApiKey: string | undefined = process.env.GATE_API_KEY,
+): boolean {
+  if (!expectedApiKey) return true
+  return req.header('x-gate-api-key') === expectedApiKey
+}
+
+/**
+ * Operator access for endpoints that move money: like hasGateAccess, but fails closed, so no
+ * caller passes while GATE_API_KEY is unset.
+ */
+export function hasStrictGateAccess(req: Request): boolean {
+  const expectedApiKey = process.env.GATE_API_KEY
+  return Boolean(expectedApiKey) && req.header('x-gate-api-key') === expectedApiKey
+}
@@ -3,6 +3,10 @@ import type { RegisterDriverRequest } from '@parker/core'
 import { normalizePlate } from '@parker/core'
 
 import { db } from '../db'
+import { requireWallet } from '../middleware/auth'
+import { approvalTypedData } from '../services/approvals'
+import { toPlateDebt } from '../services/debts'
+import { toDriverCredit } from '../services/settlementAmount'
 
 export const driversRouter = Router()
 
@@ -54,6 +58,61 @@ driversRouter.get('/wallet/:address', async (req, res) => {
   }
 })
 
+// GET /api/drivers/approvals/pending — Approval requests the signed-in wallet can answer
+// (as vehicle owner or delegate), with the typed data to sign for POST /api/gate/exit/approve
+driversRouter.get('/approvals/pending', requireWallet, async (req, res) => {
+  try {
+    const requests = await db.getPendingApprovalRequestsForWallet((req as any).wallet)
+    res.json(requests.map((r) => ({ ...r, typedData: approvalTypedData(r) })))
+  } catch (error) {
+    console.error('Failed to list pending approvals:', error)
+    res.status(500).json({ error: 'Failed to list pending approvals' })
+  }
+})
+
+// GET /api/drivers/approvals/delegates — Wallets allowed to approve for the signed-in owner
+driversRouter.get('/approvals/delegates', requireWallet, async (req, res) => {
+  try {
+    res.json({ delegates: await db.getApprovalDelegates((req as any).wallet) })
+  } catch (error) {
+    console.error('Failed to list approval delegates:', error)
+    res.status(500).json({ error: 'Failed to list approval delegates' })
+  }
+})
+
+// POST /api/drivers/approvals/delegates — Add a delegate approver. Body: { wallet }
+driversRouter.post('/approvals/delegates', requireWallet, async (req, res) => {
+  try {
+    const owner = ((req as any).wallet as string).toLowerCase()
+    const { wallet } = req.body as { wallet?: unknown }
+    if (typeof wallet !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(wallet)) {
+      return res.status(400).json({ error: 'wallet must be a 0x-prefixed address' })
+    }
+    if (wallet.toLowerCase() === owner) {
+      return res.status(400).json({ error: 'Owner cannot be their own delegate' })
+    }
+    await db.addApprovalDelegate(owner, wallet)
+    res.status(201).json({ delegates: await db.getApprovalDelegates(owner) })
+  } catch (error) {
+    console.error('Failed to add approval delegate:', error)
+    res.status(500).json({ error: 'Failed to add approval delegate' })
+  }
+})
+
+// DELETE /api/drivers/approvals/delegates/:wallet — Remove a delegate approver
+driversRouter.delete('/approvals/delegates/:wallet', requireWallet, async (req, res) => {
+  try {
+    const removed = await db.removeApprovalDelegate((req as any).wallet, req.params.wallet)
+    if (!removed) {
+      return res.status(404).json({ error: 'Delegate not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Failed to remove approval delegate:', error)
+    res.status(500).json({ error: 'Failed to remove approval delegate' })
+  }
+})
+
 // GET /api/drivers/:plate — Get driver profile
 driversRouter.get('/:plate', async (req, res) => {
   try {
@@ -68,6 +127,37 @@ driversRouter.get('/:plate', async (req, res) => {
   }
 })
 
+// GET /api/drivers/:plate/debts — Fees owed from exits that left without paying (gate opened
+// offline), newest first. ?status=outstanding|collected; collected on the next exit.
+driversRouter.get('/:plate/debts', async (req, res) => {
+  const { status } = req.query
+  if (status !== undefined && status !== 'outstanding' && status !== 'collected') {
+    return res.status(400).json({ error: 'status must be outstanding or collected' })
+  }
+  try {
+    const debts = await db.listPlateDebts({
+      plateNumber: normalizePlate(req.params.plate),
+      status,
+    })
+    res.json(debts.map(toPlateDebt))
+  } catch (error) {
+    console.error('Failed to list plate debts:', error)
+    res.status(500).json({ error: 'Failed to list plate debts' })
+  }
+})
+
+// GET /api/drivers/:plate/credits — Over-payments of settled sessions kept for the driver
+// (lots with the tolerant amount stance), newest first
+driversRouter.get('/:plate/credits', async (req, res) => {
+  try {
+    const credits = await db.listDriverCredits(normalizePlate(req.params.plate))
+    res.json(credits.map(toDriverCredit))
+  } catch (error) {
+    console.error('Failed to list driver credits:', error)
+    res.status(500).json({ error: 'Failed to list driver credits' })
+  }
+})
+
 // PUT /api/drivers/:plate — Update profile
 driversRouter.put('/:plate', async (req, res) => {
   try {
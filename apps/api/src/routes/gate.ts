@@ -1,8 +1,29 @@
 import { Router } from 'express'
 import { createHash, randomUUID } from 'node:crypto'
-import type { GateEntryRequest, GateExitRequest, PaymentOptions } from '@parker/core'
-import { calculateFee, normalizePlate } from '@parker/core'
-import { LIFECYCLE_EVENT } from '@parker/core'
+import type {
+  DebtSource,
+  EvmToken,
+  GateEntryRequest,
+  GateExitRequest,
+  LotEvmAsset,
+  PaymentOptions,
+  X402AssetOption,
+} from '@parker/core'
+import {
+  applySessionComp,
+  calculateTariffFee,
+  getCurrencyExponent,
+  getEvmChain,
+  getEvmToken,
+  isValidTimeZone,
+  minorToNumber,
+  normalizePlate,
+  unitsToDecimal,
+  validateLotEvmAssets,
+  validateTariff,
+} from '@parker/core'
+import type { FeeBandBreakdown, FeeDayBreakdown } from '@parker/core'
+import { LIFECYCLE_EVENT, checkSettlementAmount, validateAmountTolerance } from '@parker/core'
 import { recognizePlate } from '@parker/alpr'
 
 import { db } from '../db'
@@ -14,12 +35,19 @@ import {
   findActiveSessionOnHedera,
 } from '../services/hedera'
 import {
-  convertToStablecoin,
-  getFxRate,
-  getStablecoinBaseCurrency,
+  quoteStablecoin,
   X402_STABLECOIN,
   X402_NETWORK,
+  type StablecoinQuote,
 } from '../services/pricing'
+import { assessRisk, validateRiskThresholds } from '../services/risk'
+import {
+  ApprovalError,
+  approvalTypedData,
+  getSessionOwnerApproval,
+  requestOwnerApproval,
+  resolveOwnerApproval,
+} from '../services/approvals'
 
 import { isStripeEnabled, createParkingCheckout } from '../services/stripe'
 import {
@@ -34,20 +62,43 @@ import {
   getXamanPayloadStatus,
   isXamanConfigured,
 } from '../services/xaman'
-import { evaluateEntryPolicy, resolveEffectivePolicy } from '@parker/policy-core'
+import {
+  evaluateEntryPolicy,
+  resolveEffectivePolicy,
+  resolvePolicyProvenance,
+} from '@parker/policy-core'
 import type {
   Rail,
   Asset,
+  AmountCheck,
   PaymentPolicyDecision,
   SettlementResult,
   SettlementQuote,
   FiatMoneyMinor,
   PolicyReasonCode,
 } from '@parker/policy-core'
-import { buildEntryPolicyStack } from '../services/policyStack'
-import { enforceOrReject, evaluateExitPolicy, buildAssetsOffered } from '../services/policy'
+import { buildPolicyStack } from '../services/policyStack'
+import {
+  enforceOrReject,
+  evaluateExitPolicy,
+  buildAssetsOffered,
+  buildRailsOffered,
+} from '../services/policy'
 import { sessionLifecycleService } from '../services/sessionLifecycle'
+import { recordAlprRead, recordNftBurn } from '../services/evidence'
+import {
+  attachDebtsToExit,
+  recordOfflineExit,
+  toPlateDebt,
+  type OfflineExit,
+} from '../services/debts'
 import { createSignedPaymentAuthorization } from '../services/paymentAuthorization'
+import { hasGateAccess } from '../middleware/auth'
+import {
+  getAmountTolerance,
+  getX402QuotedAmount,
+  recordOverpaymentCredit,
+} from '../services/settlementAmount'
 import {
   createSignedSessionBudgetAuthorization,
   verifySignedSessionBudgetAuthorizationForDecision,
@@ -89,6 +140,8 @@ const REASON_WHY: Record<PolicyReasonCode, string> = {
   RISK_HIGH: 'Risk check requires approval',
   NEEDS_APPROVAL: 'Approval required before payment',
   GRANT_EXPIRED: 'Session grant expired; approval required',
+  OUTSIDE_TIME_WINDOW: 'Outside allowed parking hours',
+  DEBT_OUTSTANDING: 'Unpaid balance from an earlier exit',
 }
 
 function toMetricReason(reason: string | undefined): string {
@@ -161,6 +214,40 @@ function decimalToScaledBigInt(value: string, decimals: number): bigint {
   return BigInt(`${whole}${fraction}`)
 }
 
+/** Settlement quote for one EVM asset of an exit */
+interface EvmAssetQuote {
+  quoteId: string
+  asset: Extract<Asset, { kind: 'ERC20' }>
+  token: EvmToken
+  quote: StablecoinQuote
+}
+
+/**
+ * EVM assets to quote at exit: those the decision allows (first = decision.asset), else
+ * the lot's accepted assets (decisions awaiting approval carry none).
+ */
+function evmQuoteAssets(
+  decision: PaymentPolicyDecision,
+  lot: { evmAssets?: LotEvmAsset[] } | null,
+): Extract<Asset, { kind: 'ERC20' }>[] {
+  const assets =
+    decision.allowedAssets ??
+    (decision.asset ? [decision.asset] : buildAssetsOffered(['evm'], lot))
+  return assets.filter((a): a is Extract<Asset, { kind: 'ERC20' }> => a.kind === 'ERC20')
+}
+
+function evmAssetOptions(quotes: EvmAssetQuote[]): X402AssetOption[] {
+  return quotes.map(({ quoteId, token, quote }) => ({
+    quoteId,
+    chainId: token.chainId,
+    network: getEvmChain(token.chainId)?.network ?? String(token.chainId),
+    token: token.symbol,
+    tokenAddress: token.address,
+    decimals: token.decimals,
+    amount: unitsToDecimal(BigInt(quote.amountAtomic), quote.decimals),
+  }))
+}
+
 function parseXrplIntentBody(body: unknown): { plate: string; lotId: string } | { error: string } {
   if (!body || typeof body !== 'object') {
     return { error: 'Invalid request body' }
@@ -205,7 +292,7 @@ gateRouter.post('/xrpl/xaman-intent', async (req, res) => {
 
     // If pending state is missing (e.g. restart or direct driver flow), derive it here.
     if (!intent) {
-      let pending = getPendingPaymentByPlateLot(plate, lotId)
+      let pending = await getPendingPaymentByPlateLot(plate, lotId)
       if (!pending) {
         const session = await db.getActiveSession(plate)
         if (!session) {
@@ -225,34 +312,29 @@ gateRouter.post('/xrpl/xaman-intent', async (req, res) => {
         if (!lot) {
           return res.status(404).json({ error: 'Lot not found', lotId })
         }
-        const entryMs = new Date(session.entryTime).getTime()
-        const durationMinutes = (Date.now() - entryMs) / (1000 * 60)
-        const fee = calculateFee(
-          durationMinutes,
-          lot.ratePerHour,
-          lot.billingMinutes,
-          lot.maxDailyFee ?? undefined,
-          lot.gracePeriodMinutes ?? 0,
-        )
+        const quote = calculateTariffFee(new Date(session.entryTime), new Date(), lot)
+        const { totalMinor: debtMinor } = await attachDebtsToExit(session, lot.currency || 'USD')
+        const feeMinor = applySessionComp(BigInt(quote.feeMinor), session.comp) + debtMinor
+        const fee = minorToNumber(feeMinor, lot.currency || 'USD')
         if (fee <= 0) {
           return res.status(400).json({
             error: 'No payment required for this session',
           })
         }
 
-        const stablecoinAmount = convertToStablecoin(fee, lot.currency || 'USD')
+        const stablecoin = await quoteStablecoin(feeMinor, lot.currency || 'USD')
         pending = {
           plate,
           lotId,
           sessionId: session.id,
-          expectedAmount: stablecoinAmount.toFixed(6),
+          expectedAmount: unitsToDecimal(BigInt(stablecoin.amountAtomic), stablecoin.decimals),
           receiverWallet: lot.operatorWallet || process.env.LOT_OPERATOR_WALLET || '',
           fee,
           feeCurrency: lot.currency || 'USD',
           tokenId: session.tokenId,
           createdAt: Date.now(),
         }
-        addPendingPayment(pending)
+        await addPendingPayment(pending)
       }
 
       intent = await db.upsertXrplPendingIntent({
@@ -284,6 +366,7 @@ gateRouter.post('/xrpl/xaman-intent', async (req, res) => {
       policyHash: intent.policyHash,
       rail: intent.rail,
       asset: intent.asset,
+      destinationTag: intent.destinationTag,
     })
 
     await db.attachXamanPayloadToIntent({
@@ -296,6 +379,7 @@ gateRouter.post('/xrpl/xaman-intent', async (req, res) => {
     return res.json({
       ...payload,
       paymentId: intent.paymentId,
+      destinationTag: intent.destinationTag,
       expiresAt: intent.expiresAt,
     })
   } catch (error) {
@@ -436,16 +520,29 @@ gateRouter.post('/entry', async (req, res) => {
       })
     }
 
+    const risk = await assessRisk(
+      {
+        stage: 'entry',
+        plate,
+        lotId,
+        alprConfidence: alprResult?.confidence,
+        thresholds: lot.riskThresholds,
+      },
+      db,
+    )
+
+    // Fees left unpaid by earlier exits (offline gate); policy may refuse entry above a limit
+    const outstandingDebtMinor = await db.getOutstandingDebtTotal(plate, lot.currency || 'USD')
+
     // Entry-time policy: resolve stack, evaluate, reject if denied
-    const stack = buildEntryPolicyStack(lotId, plate)
+    const { stack, layers: policyLayers } = await buildPolicyStack(
+      lotId,
+      plate,
+      db.getPolicyLayersForStack.bind(db),
+    )
     const policy = resolveEffectivePolicy(stack)
-    const railsOffered: Rail[] = []
-    if (lot.paymentMethods?.includes('stripe')) railsOffered.push('stripe')
-    if (lot.paymentMethods?.includes('x402')) {
-      railsOffered.push(X402_NETWORK.startsWith('xrpl:') ? 'xrpl' : 'evm')
-    }
-    if (railsOffered.length === 0) railsOffered.push('stripe', 'xrpl', 'evm') // fallback so policy can still restrict
-    const assetsOffered = buildAssetsOffered(railsOffered)
+    const railsOffered = buildRailsOffered(lot)
+    const assetsOffered = buildAssetsOffered(railsOffered, lot)
     const entryCtx = {
       policy,
       lotId,
@@ -453,6 +550,13 @@ gateRouter.post('/entry', async (req, res) => {
       nowISO: new Date().toISOString(),
       railsOffered,
       assetsOffered,
+      geo: lot.lat != null && lot.lng != null ? { lat: lot.lat, lng: lot.lng } : undefined,
+      riskScore: risk.score,
+      riskThresholds: lot.riskThresholds,
+      outstandingDebtMinor: outstandingDebtMinor.toString(),
+      layers: policyLayers,
+      trace: true,
+      provenance: resolvePolicyProvenance(stack),
     }
     const grant = evaluateEntryPolicy(entryCtx)
     if (grant.grantAction === 'DENY') {
@@ -462,13 +566,21 @@ gateRouter.post('/entry', async (req, res) => {
           lotId,
           plateNumber: plate,
           policyHash: grant.policyHash,
+          policyLayers: grant.layers,
           reasons: grant.reasons,
+          trace: grant.trace,
         },
       })
       return reply(403, {
         error: 'Entry denied by policy',
         reasons: grant.reasons,
         grantId: grant.grantId,
+        ...(grant.reasons.includes('DEBT_OUTSTANDING') && {
+          outstandingDebt: {
+            amount: minorToNumber(outstandingDebtMinor, lot.currency || 'USD'),
+            currency: lot.currency || 'USD',
+          },
+        }),
       })
     }
 
@@ -495,7 +607,9 @@ gateRouter.post('/entry', async (req, res) => {
         plateNumber: plate,
         lotId,
         tokenId,
+        mintTxHash: txHash,
       })
+      if (alprResult) await recordAlprRead(session.id, 'entry', plate, alprResult)
       // Persist entry policy grant and bind to session
       const expiresAt = new Date(grant.expiresAtISO)
       const { grantId } = await db.insertPolicyGrant({
@@ -507,6 +621,7 @@ gateRouter.post('/entry', async (req, res) => {
         requireApproval: grant.requireApproval ?? false,
         reasons: grant.reasons,
         expiresAt,
+        policyLayers: grant.layers,
       })
       await db.updateSessionPolicyGrant(
         session.id,
@@ -525,9 +640,11 @@ gateRouter.post('/entry', async (req, res) => {
         payload: {
           grantId,
           policyHash: grant.policyHash,
+          policyLayers: grant.layers,
           reasons: grant.reasons,
           sessionId: session.id,
           expiresAtISO: grant.expiresAtISO,
+          trace: grant.trace,
         },
         sessionId: session.id,
       })
@@ -693,8 +810,16 @@ gateRouter.post('/exit', async (req, res) => {
     let lot: import('@parker/core').Lot | null = null
     let durationMinutes: number
     let fee: number
+    let feeMinor = 0n
+    let feeBreakdown: FeeBandBreakdown[] = []
+    let feeDays: FeeDayBreakdown[] = []
+    let debtMinor = 0n
+    let debtCount = 0
     let usingFallback = false
     let fallbackSerial: number | undefined
+    // Mirror Node fallback without lot config: no fee can be computed, so the gate opens and
+    // uploads the exit later (POST /offline-exits) to record the fee as a debt
+    let paymentDeferred = false
 
     try {
       // Fast path: DB lookup
@@ -716,15 +841,21 @@ gateRouter.post('/exit', async (req, res) => {
         return reply(404, { error: 'Lot not found' })
       }
 
-      const durationMs = Date.now() - session.entryTime.getTime()
-      durationMinutes = durationMs / (1000 * 60)
-      fee = calculateFee(
-        durationMinutes,
-        lot.ratePerHour,
-        lot.billingMinutes,
-        lot.maxDailyFee ?? undefined,
-        lot.gracePeriodMinutes ?? 0,
-      )
+      const exitTime = new Date()
+      durationMinutes = (exitTime.getTime() - session.entryTime.getTime()) / (1000 * 60)
+      const quote = calculateTariffFee(session.entryTime, exitTime, lot)
+      // Operator comps reduce the total; the breakdown stays the undiscounted tariff
+      feeMinor = applySessionComp(BigInt(quote.feeMinor), session.comp)
+      // Debts from earlier unpaid exits are collected with this one
+      const attached = await attachDebtsToExit(session, lot.currency || 'USD')
+      debtMinor = attached.totalMinor
+      debtCount = attached.debts.length
+      feeMinor += debtMinor
+      fee = minorToNumber(feeMinor, lot.currency || 'USD')
+      feeBreakdown = quote.breakdown
+      feeDays = quote.days
+      // History shows the breakdown the session was charged, not a recomputation
+      await db.setSessionFeeDays(session.id, feeDays)
     } catch (dbError) {
       // DB unreachable — try Mirror Node fallback
       console.warn(
@@ -761,16 +892,18 @@ gateRouter.post('/exit', async (req, res) => {
       }
 
       const entryTimeMs = nftSession.entryTime * 1000
-      durationMinutes = (Date.now() - entryTimeMs) / (1000 * 60)
-      fee = lot
-        ? calculateFee(
-            durationMinutes,
-            lot.ratePerHour,
-            lot.billingMinutes,
-            lot.maxDailyFee ?? undefined,
-            lot.gracePeriodMinutes ?? 0,
-          )
-        : 0 // Can't calculate fee without lot config — let payment handle it
+      const exitTime = new Date()
+      durationMinutes = (exitTime.getTime() - entryTimeMs) / (1000 * 60)
+      if (lot) {
+        const quote = calculateTariffFee(new Date(entryTimeMs), exitTime, lot)
+        fee = quote.fee
+        feeMinor = BigInt(quote.feeMinor)
+        feeBreakdown = quote.breakdown
+        feeDays = quote.days
+      } else {
+        fee = 0 // Can't calculate fee without lot config — owed as a debt once uploaded
+        paymentDeferred = true
+      }
 
       usingFallback = true
       fallbackSerial = nftSession.serial
@@ -781,33 +914,46 @@ gateRouter.post('/exit', async (req, res) => {
 
     const currency = lot?.currency || 'USD'
     const sessionId = session?.id || `hedera-${fallbackSerial}`
+    const debt = debtMinor > 0n && {
+      amount: minorToNumber(debtMinor, currency),
+      currency,
+      count: debtCount,
+    }
+    if (alprResult && session) await recordAlprRead(session.id, 'exit', plate, alprResult)
 
     // ---- Phase 2: Payment (with exit-time policy decision) ----
 
     if (fee > 0 && !(req as any).paymentVerified) {
-      const medianFee = await db.getMedianFeeForLot(lotId)
-      if (
-        medianFee != null &&
-        medianFee > 0 &&
-        fee > 2 * medianFee &&
-        session?.id
-      ) {
-        await db.insertPolicyEvent({
-          eventType: LIFECYCLE_EVENT.RISK_SIGNAL,
-          payload: { signal: 'AMOUNT_ANOMALY', fee, medianFee, lotId },
-          sessionId: session.id,
-        })
-      }
+      // Risk signals need the DB; on the Mirror Node fallback the exit is scored as no risk
+      const risk = usingFallback
+        ? undefined
+        : await assessRisk(
+            {
+              stage: 'exit',
+              plate,
+              lotId,
+              sessionId: session?.id,
+              alprConfidence: alprResult?.confidence,
+              fee,
+              thresholds: lot?.riskThresholds,
+            },
+            db,
+          )
+      const ownerApproval =
+        session && !usingFallback ? await getSessionOwnerApproval(session.id) : null
       const finalDecision = await evaluateExitPolicy({
         session,
         lot,
-        fee,
+        feeMinor,
         currency,
         plate,
         lotId,
-        getFiatSpendTotalsByCurrency: db.getFiatSpendTotalsByCurrency.bind(db),
+        riskScore: risk?.score,
+        ownerApproval,
+        getSpendLedgerTotals: db.getSpendLedgerTotals.bind(db),
         getPolicyGrantExpiresAt: db.getPolicyGrantExpiresAt.bind(db),
         getPolicyGrantByGrantId: db.getPolicyGrantByGrantId.bind(db),
+        getPolicyLayersForStack: db.getPolicyLayersForStack.bind(db),
       })
 
       // Invariant: if session has policy_grant_id, exit decision must include sessionGrantId (else 500 + log)
@@ -828,7 +974,12 @@ gateRouter.post('/exit', async (req, res) => {
           await sessionLifecycleService.denySession(session, {
             reason: 'payment_denied',
             decisionId: finalDecision.decisionId,
-            metadata: { source: 'gate_exit', action: finalDecision.action },
+            metadata: {
+              source: 'gate_exit',
+              action: finalDecision.action,
+              reasons: finalDecision.reasons,
+              trace: finalDecision.trace,
+            },
           })
         }
         return reply(403, {
@@ -839,12 +990,44 @@ gateRouter.post('/exit', async (req, res) => {
       }
 
       const priceFiat: FiatMoneyMinor | undefined = finalDecision.priceFiat ?? {
-        amountMinor: String(Math.round(fee * 100)),
+        amountMinor: feeMinor.toString(),
         currency,
       }
       const expiresAtQuotes = new Date(Date.now() + 15 * 60_000).toISOString()
       const settlementQuotes: SettlementQuote[] = []
 
+      // One FX lookup per exit and quoted asset: the x402 quotes, the x402 payment option and
+      // the persisted decision all use the same rate, recorded as the quote's FxSnapshot.
+      // EVM: one quote per (chainId, token) the decision allows, each in its token's currency.
+      const xrplOrEvm: Rail = X402_NETWORK.startsWith('xrpl:') ? 'xrpl' : 'evm'
+      const evmQuotes: EvmAssetQuote[] = []
+      let stablecoinQuote: StablecoinQuote | null = null
+      if (fee > 0 && xrplOrEvm === 'evm') {
+        for (const asset of evmQuoteAssets(finalDecision, lot)) {
+          const token = getEvmToken(asset.chainId, asset.token)
+          if (!token) continue
+          try {
+            const quote = await quoteStablecoin(feeMinor, currency, token)
+            evmQuotes.push({ quoteId: randomUUID(), asset, token, quote })
+          } catch (err) {
+            // no quote for this asset if no FX rate is available
+            logger.warn(
+              'gate_exit_fx_unavailable',
+              { session_id: sessionId, currency, token: token.symbol, chain_id: token.chainId },
+              err,
+            )
+          }
+        }
+        stablecoinQuote = evmQuotes[0]?.quote ?? null
+      } else if (fee > 0) {
+        try {
+          stablecoinQuote = await quoteStablecoin(feeMinor, currency)
+        } catch (err) {
+          // no x402 quote if no FX rate is available
+          logger.warn('gate_exit_fx_unavailable', { session_id: sessionId, currency }, err)
+        }
+      }
+
       if (fee > 0 && priceFiat) {
         if (
           !usingFallback &&
@@ -855,39 +1038,44 @@ gateRouter.post('/exit', async (req, res) => {
           settlementQuotes.push({
             quoteId: randomUUID(),
             rail: 'stripe',
-            amount: { amount: priceFiat.amountMinor, decimals: 2 },
+            amount: { amount: priceFiat.amountMinor, decimals: getCurrencyExponent(currency) },
             destination: '',
             expiresAt: expiresAtQuotes,
           })
         }
-        try {
-          const stablecoinAmount = convertToStablecoin(fee, currency)
-          const xrplOrEvm: Rail = X402_NETWORK.startsWith('xrpl:') ? 'xrpl' : 'evm'
-          const baseCurrency = getStablecoinBaseCurrency()
-          const rate = getFxRate(currency, baseCurrency)
-          const atomicStablecoin = String(Math.round(stablecoinAmount * 1_000_000))
-          const operatorWallet = lot?.operatorWallet || process.env.LOT_OPERATOR_WALLET || ''
+        const operatorWallet = lot?.operatorWallet || process.env.LOT_OPERATOR_WALLET || ''
+        if (operatorWallet) {
+          for (const { quoteId, asset, quote } of evmQuotes) {
+            settlementQuotes.push({
+              quoteId,
+              rail: 'evm',
+              asset,
+              amount: { amount: quote.amountAtomic, decimals: quote.decimals },
+              destination: operatorWallet,
+              expiresAt: expiresAtQuotes,
+              fx: quote.fx,
+            })
+          }
+        }
+        if (stablecoinQuote && xrplOrEvm === 'xrpl') {
           if (operatorWallet) {
             settlementQuotes.push({
               quoteId: randomUUID(),
               rail: xrplOrEvm,
-              asset: finalDecision.asset ?? (xrplOrEvm === 'xrpl'
-                ? { kind: 'IOU', currency: X402_STABLECOIN, issuer: process.env.XRPL_ISSUER ?? '' }
-                : { kind: 'ERC20', chainId: X402_NETWORK.startsWith('base') ? 8453 : 84532, token: '0xUSDC' }),
-              amount: { amount: atomicStablecoin, decimals: 6 },
+              asset: finalDecision.asset ?? {
+                kind: 'IOU',
+                currency: X402_STABLECOIN,
+                issuer: process.env.XRPL_ISSUER ?? '',
+              },
+              amount: {
+                amount: stablecoinQuote.amountAtomic,
+                decimals: stablecoinQuote.decimals,
+              },
               destination: operatorWallet,
               expiresAt: expiresAtQuotes,
-              fx: {
-                baseCurrency: currency,
-                quoteAssetSymbol: X402_STABLECOIN,
-                rate: String(rate),
-                asOf: new Date().toISOString(),
-                provider: 'env',
-              },
+              fx: stablecoinQuote.fx,
             })
           }
-        } catch {
-          // no x402 quote if FX not configured
         }
       }
 
@@ -913,9 +1101,19 @@ gateRouter.post('/exit', async (req, res) => {
           (sbaPayload as { sessionBudgetAuthorization?: unknown } | null)
             ?.sessionBudgetAuthorization ?? sbaPayload
         if (hasSignedSbaEnvelope(envelopeCandidate)) {
+          const spend = await db.getSpendLedgerTotals({
+            plate,
+            currency: envelopeCandidate.authorization.currency,
+            sessionId: session.id,
+            window: {
+              mode: lot?.dailyCapMode ?? 'rolling_24h',
+              timeZone: lot?.timezone ?? 'UTC',
+            },
+          })
           const sbaCheck = verifySignedSessionBudgetAuthorizationForDecision(envelopeCandidate, {
             sessionId: session.id,
             decision: decisionToPersist,
+            spend,
           })
           if (!sbaCheck.ok) {
             paymentFailuresTotal.inc({ reason: `session_budget_authorization_${sbaCheck.reason}` })
@@ -944,6 +1142,7 @@ gateRouter.post('/exit', async (req, res) => {
           chosenAsset: finalDecision.asset ?? null,
           quoteMinor: priceFiat.amountMinor,
           quoteCurrency: priceFiat.currency,
+          fxSnapshot: stablecoinQuote?.fx ?? null,
           expiresAt: new Date(finalDecision.expiresAtISO),
           action: finalDecision.action,
           reasons: finalDecision.reasons,
@@ -993,22 +1192,55 @@ gateRouter.post('/exit', async (req, res) => {
         })
       }
 
+      // Ask the vehicle owner (or a delegate) to sign off; without a registered wallet the
+      // decision stays REQUIRE_APPROVAL with no request to answer.
+      let approvalRequest: Awaited<ReturnType<typeof requestOwnerApproval>> = null
+      if (finalDecision.action === 'REQUIRE_APPROVAL' && session && !usingFallback) {
+        try {
+          approvalRequest = await requestOwnerApproval({
+            sessionId: session.id,
+            plateNumber: plate,
+            lotId,
+            decision: finalDecision,
+            priceFiat,
+          })
+        } catch (err) {
+          logger.error('gate_exit_approval_request_failed', {
+            session_id: session.id,
+            decision_id: finalDecision.decisionId,
+            message: (err as Error).message || 'unknown error',
+          })
+        }
+      }
+      const approvalRequestPayload = approvalRequest && {
+        requestId: approvalRequest.id,
+        ownerWallet: approvalRequest.ownerWallet,
+        expiresAt: approvalRequest.expiresAt,
+        typedData: approvalTypedData(approvalRequest),
+      }
+
       // Build options for x402 and stripe; then filter by finalDecision.rail when ALLOW
+      const evmOptions = evmAssetOptions(evmQuotes)
       const x402Option =
         (lot?.paymentMethods?.includes('x402') ?? true) &&
-        (() => {
-          try {
-            const stablecoinAmount = convertToStablecoin(fee, currency)
-            return {
-              amount: stablecoinAmount.toFixed(6),
+        stablecoinQuote &&
+        (evmOptions.length > 0
+          ? {
+              amount: evmOptions[0].amount,
+              token: evmOptions[0].token,
+              network: evmOptions[0].network,
+              receiver: lot?.operatorWallet || process.env.LOT_OPERATOR_WALLET || '',
+              assets: evmOptions,
+            }
+          : {
+              amount: unitsToDecimal(
+                BigInt(stablecoinQuote.amountAtomic),
+                stablecoinQuote.decimals,
+              ),
               token: X402_STABLECOIN,
               network: X402_NETWORK,
               receiver: lot?.operatorWallet || process.env.LOT_OPERATOR_WALLET || '',
-            }
-          } catch {
-            return null
-          }
-        })()
+            })
       let stripeOption: { checkoutUrl: string } | null = null
       if (
         !usingFallback &&
@@ -1080,24 +1312,38 @@ gateRouter.post('/exit', async (req, res) => {
       }
 
       if (paymentOptions.x402) {
-        addPendingPayment({
-          plate,
-          lotId,
-          sessionId,
-          expectedAmount: paymentOptions.x402.amount,
-          receiverWallet: paymentOptions.x402.receiver,
-          fee,
-          feeCurrency: currency,
-          tokenId: session?.tokenId,
-          createdAt: Date.now(),
-          decisionId: finalDecision.decisionId,
-          policyHash: finalDecision.policyHash,
-          rail: finalDecision.rail,
-          asset: finalDecision.asset ? JSON.stringify(finalDecision.asset) : undefined,
-        })
+        // Mirror Node fallback sessions have no DB row to watch a payment for
+        if (session?.id) {
+          try {
+            await addPendingPayment({
+              plate,
+              lotId,
+              sessionId: session.id,
+              expectedAmount: paymentOptions.x402.amount,
+              receiverWallet: paymentOptions.x402.receiver,
+              fee,
+              feeCurrency: currency,
+              tokenId: session.tokenId,
+              createdAt: Date.now(),
+              decisionId: finalDecision.decisionId,
+              policyHash: finalDecision.policyHash,
+              rail: finalDecision.rail,
+              asset: finalDecision.asset ? JSON.stringify(finalDecision.asset) : undefined,
+              quotes: evmQuotes.map(({ quoteId, asset, quote }) => ({
+                quoteId,
+                asset,
+                amount: quote.amountAtomic,
+                decimals: quote.decimals,
+              })),
+            })
+          } catch (watchErr) {
+            // The x402 header path still settles; only the on-chain watcher misses this one
+            console.error('Failed to register pending EVM payment (continuing):', watchErr)
+          }
+        }
         if (X402_NETWORK.startsWith('xrpl:') && session?.id) {
           try {
-            await db.upsertXrplPendingIntent({
+            const intent = await db.upsertXrplPendingIntent({
               plateNumber: plate,
               lotId,
               sessionId: session.id,
@@ -1111,6 +1357,10 @@ gateRouter.post('/exit', async (req, res) => {
               rail: finalDecision.rail,
               asset: finalDecision.asset,
             })
+            // Payments carrying the tag settle through the XRPL watcher
+            if (intent?.destinationTag != null) {
+              paymentOptions.x402.destinationTag = intent.destinationTag
+            }
           } catch (persistErr) {
             const errorCode = (persistErr as Error & { code?: string }).code
             const constraint = (persistErr as Error & { constraint?: string }).constraint
@@ -1163,11 +1413,14 @@ gateRouter.post('/exit', async (req, res) => {
           type: 'payment_required',
           fee,
           currency,
+          feeBreakdown,
+          feeDays,
           durationMinutes: Math.round(durationMinutes),
           paymentOptions,
           sessionId,
           lotId,
           policy: wsPolicy,
+          ...(debt && { debt }),
           ...(approvalRequired && {
             approvalRequired: true,
             approval: {
@@ -1178,6 +1431,7 @@ gateRouter.post('/exit', async (req, res) => {
                 maxSpend: finalDecision.maxSpend,
               },
               approvalEndpoint: '/api/gate/exit/approve',
+              ...(approvalRequestPayload && { request: approvalRequestPayload }),
             },
             decision: {
               ...wsPolicy,
@@ -1213,8 +1467,11 @@ gateRouter.post('/exit', async (req, res) => {
         },
         fee,
         currency,
+        feeBreakdown,
+        feeDays,
         durationMinutes: Math.round(durationMinutes),
         paymentOptions,
+        ...(debt && { debt }),
         policy: policyPayload,
         ...(paymentAuthorization && { paymentAuthorization }),
         ...(approvalRequired && {
@@ -1228,6 +1485,7 @@ gateRouter.post('/exit', async (req, res) => {
               maxSpend: finalDecision.maxSpend,
             },
             approvalEndpoint: '/api/gate/exit/approve',
+            ...(approvalRequestPayload && { request: approvalRequestPayload }),
           },
           decision: {
             ...policyPayload,
@@ -1247,7 +1505,7 @@ gateRouter.post('/exit', async (req, res) => {
     // ---- Phase 3: Payment verified — close session ----
 
     // Remove from on-chain watcher to prevent double-close
-    removePendingPayment(sessionId)
+    if (session?.id) await removePendingPayment(session.id)
 
     const isXrplRail = X402_NETWORK.startsWith('xrpl:')
     const paymentVerified = Boolean((req as any).paymentVerified)
@@ -1324,7 +1582,14 @@ gateRouter.post('/exit', async (req, res) => {
       const allowAnyDestinationTag = process.env.XRPL_ALLOW_ANY_DESTINATION_TAG === 'true'
       const requireDestinationTag =
         process.env.XRPL_REQUIRE_DESTINATION_TAG === 'true' || expectedDestinationTag != null
-      if (expectedDestinationTag != null && destinationTag !== expectedDestinationTag) {
+      // The intent's own tag always identifies this payment
+      const intentTagMatches =
+        pendingIntent.destinationTag != null && destinationTag === pendingIntent.destinationTag
+      if (
+        expectedDestinationTag != null &&
+        destinationTag !== expectedDestinationTag &&
+        !intentTagMatches
+      ) {
         paymentFailuresTotal.inc({ reason: 'xrpl_destination_tag_mismatch' })
         return reply(400, {
           error: 'XRPL destination tag mismatch',
@@ -1336,7 +1601,12 @@ gateRouter.post('/exit', async (req, res) => {
         paymentFailuresTotal.inc({ reason: 'xrpl_destination_tag_missing' })
         return reply(400, { error: 'XRPL destination tag is required' })
       }
-      if (!allowAnyDestinationTag && expectedDestinationTag == null && destinationTag != null) {
+      if (
+        !allowAnyDestinationTag &&
+        expectedDestinationTag == null &&
+        destinationTag != null &&
+        !intentTagMatches
+      ) {
         paymentFailuresTotal.inc({ reason: 'xrpl_destination_tag_unexpected' })
         return reply(400, { error: 'XRPL destination tag is not allowed for this wallet' })
       }
@@ -1409,17 +1679,27 @@ gateRouter.post('/exit', async (req, res) => {
         })
       }
 
-      const expectedAmount = decimalToScaledBigInt(pendingIntent.amount, 6)
-      if (transfer.amount !== expectedAmount) {
+      // One payment here; partial payments are summed by the XRPL watcher
+      const amountCheck = checkSettlementAmount(
+        decimalToScaledBigInt(pendingIntent.amount, 6),
+        [transfer.amount],
+        getAmountTolerance(lot, 'xrpl'),
+      )
+      if (!amountCheck.accepted) {
         paymentFailuresTotal.inc({ reason: 'amount_mismatch' })
         return reply(400, {
           error: 'Payment amount mismatch',
-          expectedAmount: expectedAmount.toString(),
-          actualAmount: transfer.amount.toString(),
+          expectedAmount: amountCheck.expected,
+          actualAmount: amountCheck.received,
+          delta: amountCheck.delta,
         })
       }
 
-      if (transfer.paymentReference !== pendingIntent.paymentId) {
+      // Plain wallet payments carry the intent's tag instead of the memo reference
+      const referenceMatches =
+        transfer.paymentReference === pendingIntent.paymentId ||
+        (transfer.paymentReference == null && intentTagMatches)
+      if (!referenceMatches) {
         paymentFailuresTotal.inc({ reason: 'payment_reference_mismatch' })
         return reply(400, {
           error: 'Payment memo reference mismatch',
@@ -1441,6 +1721,7 @@ gateRouter.post('/exit', async (req, res) => {
         destination: pendingIntent.destination,
         expectedSessionGrantId: session?.policyGrantId ?? null,
         expectedPolicyHash: pendingIntent.policyHash ?? undefined,
+        amountCheck,
       }
       const enforcement = await enforceOrReject(
         db.getDecisionPayloadByDecisionId.bind(db),
@@ -1452,7 +1733,13 @@ gateRouter.post('/exit', async (req, res) => {
           eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
           payload: {
             reason: enforcement.reason,
-            settlement: { amount: settlement.amount, rail: settlement.rail, txHash: settlement.txHash },
+            settlement: {
+              amount: settlement.amount,
+              rail: settlement.rail,
+              txHash: settlement.txHash,
+              asset: settlement.asset,
+              payer: settlement.payer,
+            },
           },
           paymentId: pendingIntent.paymentId,
           sessionId: pendingIntent.sessionId,
@@ -1545,6 +1832,8 @@ gateRouter.post('/exit', async (req, res) => {
             amount: transfer.amount.toString(),
             rail: 'xrpl',
             asset: pendingIntent.token,
+            payer: transfer.from,
+            amountCheck,
           },
           paymentId: pendingIntent.paymentId,
           sessionId: pendingIntent.sessionId,
@@ -1565,6 +1854,18 @@ gateRouter.post('/exit', async (req, res) => {
           error: 'XRPL payment intent is no longer pending',
         })
       }
+      await recordOverpaymentCredit({
+        check: amountCheck,
+        sessionId: pendingIntent.sessionId,
+        plateNumber: plate,
+        lotId,
+        rail: 'xrpl',
+        asset: settlement.asset,
+        payer: transfer.from,
+        txHash: proofHash ?? undefined,
+        decisionId: pendingIntent.decisionId ?? undefined,
+        paymentId: pendingIntent.paymentId,
+      })
     } else if (transfer) {
       settlementTxHash = paymentTxHash || transfer.txHash
       settlementTxHashUnique = true
@@ -1593,21 +1894,33 @@ gateRouter.post('/exit', async (req, res) => {
         })
       }
 
-      // Verify amount is within 1% of expected fee (handles rounding)
-      const stablecoinDecimals = 6 // USDC has 6 decimals
-      const expectedAmount = BigInt(Math.round(fee * 10 ** stablecoinDecimals))
-      if (expectedAmount > 0n) {
-        const tolerance = expectedAmount / 100n // 1%
-        const diff =
-          transfer.amount > expectedAmount
-            ? transfer.amount - expectedAmount
-            : expectedAmount - transfer.amount
-        if (diff > tolerance) {
+      const settlementRail =
+        paymentVerificationRail ?? (X402_NETWORK.startsWith('xrpl:') ? 'xrpl' : 'evm')
+      // x402 payments are verified on X402_NETWORK in X402_STABLECOIN
+      const x402Chain = settlementRail === 'evm' ? getEvmChain(X402_NETWORK) : undefined
+      const x402Token = x402Chain && getEvmToken(x402Chain.chainId, X402_STABLECOIN)
+
+      // Verify the amount settles the decision's quote for that token under the lot's stance
+      let amountCheck: AmountCheck | undefined
+      if (fee > 0) {
+        const expectedAmount =
+          x402Token && session ? await getX402QuotedAmount(session.id, x402Token) : null
+        if (expectedAmount == null) {
+          paymentFailuresTotal.inc({ reason: 'missing_settlement_quote' })
+          return reply(409, { error: 'No settlement quote for this payment' })
+        }
+        amountCheck = checkSettlementAmount(
+          expectedAmount,
+          [transfer.amount],
+          getAmountTolerance(lot, 'evm'),
+        )
+        if (!amountCheck.accepted) {
           paymentFailuresTotal.inc({ reason: 'amount_mismatch' })
           return reply(400, {
             error: 'Payment amount mismatch',
-            expectedAmount: expectedAmount.toString(),
-            actualAmount: transfer.amount.toString(),
+            expectedAmount: amountCheck.expected,
+            actualAmount: amountCheck.received,
+            delta: amountCheck.delta,
           })
         }
       }
@@ -1616,8 +1929,11 @@ gateRouter.post('/exit', async (req, res) => {
         payload: {
           decisionId: settlementDecisionId,
           amount: transfer.amount.toString(),
-          rail: paymentVerificationRail ?? (X402_NETWORK.startsWith('xrpl:') ? 'xrpl' : 'evm'),
+          rail: settlementRail,
           asset: X402_STABLECOIN,
+          ...(x402Token && { chainId: x402Token.chainId, tokenAddress: x402Token.address }),
+          payer: transfer.from,
+          ...(amountCheck && { amountCheck }),
         },
         sessionId,
         decisionId: settlementDecisionId,
@@ -1625,6 +1941,19 @@ gateRouter.post('/exit', async (req, res) => {
       })
       settlementEventPersisted = true
       settlementProofVerified = true
+      if (amountCheck && session) {
+        await recordOverpaymentCredit({
+          check: amountCheck,
+          sessionId: session.id,
+          plateNumber: plate,
+          lotId,
+          rail: settlementRail,
+          asset: X402_STABLECOIN,
+          payer: transfer.from,
+          txHash: settlementTxHash,
+          decisionId: settlementDecisionId,
+        })
+      }
     }
 
     // Burn parking NFT on Hedera
@@ -1632,8 +1961,9 @@ gateRouter.post('/exit', async (req, res) => {
     let nftBurnSucceeded = !isHederaEnabled() || !serialToBurn
     if (isHederaEnabled() && serialToBurn) {
       try {
-        await endParkingSessionOnHedera(serialToBurn)
+        const burn = await endParkingSessionOnHedera(serialToBurn)
         nftBurnSucceeded = true
+        if (session) await recordNftBurn(session.id, serialToBurn, burn)
       } catch (err) {
         nftBurnSucceeded = false
         console.error('Hedera NFT burn failed (continuing with off-chain):', err)
@@ -1669,7 +1999,7 @@ gateRouter.post('/exit', async (req, res) => {
       if (!closedSession) {
         return reply(409, { error: 'Session already closed or not found', plateNumber: plate })
       }
-    } else {
+    } else if (!paymentDeferred) {
       // Try DB close, but don't block the gate if it fails
       try {
         const activeSession = await db.getActiveSession(plate)
@@ -1717,8 +2047,11 @@ gateRouter.post('/exit', async (req, res) => {
         session: closedSession || { id: sessionId, plateNumber: plate, lotId },
         fee,
         currency,
+        feeBreakdown,
+        feeDays,
         durationMinutes: Math.round(durationMinutes),
         paymentMethod: 'x402',
+        ...(debt && { debt }),
       })
     } catch {
       // WS notifications are best-effort
@@ -1738,8 +2071,12 @@ gateRouter.post('/exit', async (req, res) => {
       session: closedSession || { id: sessionId, plateNumber: plate, lotId, status: 'closed' },
       fee,
       currency,
+      feeBreakdown,
+      feeDays,
       durationMinutes: Math.round(durationMinutes),
+      ...(debt && { debt }),
       ...(usingFallback && { fallback: 'hedera-mirror-node' }),
+      ...(paymentDeferred && { paymentDeferred: true, exitTime: new Date().toISOString() }),
       ...(alprResult && { alpr: alprResult }),
     })
   } catch (error) {
@@ -1748,14 +2085,142 @@ gateRouter.post('/exit', async (req, res) => {
   }
 })
 
-// POST /api/gate/exit/approve — Approval workflow placeholder (stub)
-// When policy returns REQUIRE_APPROVAL, driver app can call this to record approval.
-// Body: { sessionId, decisionId } (or similar). Implementation: TBD (e.g. operator webhook, manual allowlist).
+const OFFLINE_EXIT_SOURCES: DebtSource[] = ['gate_offline', 'mirror_node_fallback']
+const MAX_OFFLINE_EXITS = 100
+/** Gate clocks may run a little ahead of the API */
+const OFFLINE_EXIT_CLOCK_SKEW_MS = 5 * 60_000
+
+function parseOfflineExits(
+  body: unknown,
+): { lotId: string; exits: OfflineExit[] } | { error: string } {
+  const { lotId, exits } = (body ?? {}) as { lotId?: unknown; exits?: unknown }
+  if (typeof lotId !== 'string' || !LOT_ID_REGEX.test(lotId)) {
+    return { error: 'Invalid lotId format' }
+  }
+  if (!Array.isArray(exits) || exits.length === 0 || exits.length > MAX_OFFLINE_EXITS) {
+    return { error: `exits must be an array of 1 to ${MAX_OFFLINE_EXITS} exits` }
+  }
+
+  const parsed: OfflineExit[] = []
+  for (const [i, exit] of exits.entries()) {
+    const fields = (exit ?? {}) as Record<string, unknown>
+    const { plateNumber, exitTime, source = 'gate_offline' } = fields
+    const plate = typeof plateNumber === 'string' ? normalizePlate(plateNumber.trim()) : ''
+    if (!/^[A-Z0-9]{2,16}$/.test(plate)) {
+      return { error: `exits[${i}].plateNumber is invalid` }
+    }
+    const at = typeof exitTime === 'string' ? new Date(exitTime) : null
+    if (
+      !at ||
+      Number.isNaN(at.getTime()) ||
+      at.getTime() > Date.now() + OFFLINE_EXIT_CLOCK_SKEW_MS
+    ) {
+      return { error: `exits[${i}].exitTime must be an ISO timestamp in the past` }
+    }
+    if (!OFFLINE_EXIT_SOURCES.includes(source as DebtSource)) {
+      return { error: `exits[${i}].source must be one of ${OFFLINE_EXIT_SOURCES.join(', ')}` }
+    }
+    parsed.push({ plateNumber: plate, exitTime: at, source: source as DebtSource })
+  }
+  return { lotId, exits: parsed }
+}
+
+// POST /api/gate/offline-exits — Upload exits the gate let through while the API was unreachable
+// Body: { lotId, exits: [{ plateNumber, exitTime, source? }] }; source defaults to gate_offline.
+// Needs the gate API key (when GATE_API_KEY is set). Each exit closes its session at exitTime and
+// records the fee as a debt of the plate, collected on its next exit. Safe to upload again.
+gateRouter.post('/offline-exits', async (req, res) => {
+  if (!hasGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const parsed = parseOfflineExits(req.body)
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error })
+  }
+
+  try {
+    const lot = await db.getLot(parsed.lotId)
+    if (!lot) {
+      return res.status(404).json({ error: 'Lot not found', lotId: parsed.lotId })
+    }
+
+    const results = []
+    for (const exit of parsed.exits) {
+      const result = await recordOfflineExit(lot, exit)
+      const debt = result.debt && toPlateDebt(result.debt)
+      if (debt) notifyDriver(exit.plateNumber, { type: 'debt_recorded', debt })
+      results.push({ ...result, debt })
+    }
+
+    logger.info('gate_offline_exits_uploaded', {
+      lot_id: lot.id,
+      exits: results.length,
+      debts_recorded: results.filter((r) => r.status === 'recorded').length,
+    })
+    res.json({ results })
+  } catch (error) {
+    console.error('Failed to record offline exits:', error)
+    res.status(500).json({ error: 'Failed to record offline exits' })
+  }
+})
+
+const APPROVAL_ERROR_STATUS: Record<ApprovalError['code'], number> = {
+  NOT_FOUND: 404,
+  NOT_PENDING: 409,
+  EXPIRED: 410,
+  INVALID_SIGNATURE: 401,
+  NOT_APPROVER: 403,
+}
+
+// POST /api/gate/exit/approve — Owner (or delegate) approves or rejects a REQUIRE_APPROVAL decision
+// Body: { requestId, approved, signature } — EIP-712 PaymentApproval over approval.request.typedData.
+// An approval lets the next exit attempt for the session through; gate and driver are notified.
 gateRouter.post('/exit/approve', async (req, res) => {
-  res.status(501).json({
-    error: 'Approval workflow not yet implemented',
-    message: 'Use approvalEndpoint from REQUIRE_APPROVAL response when implemented.',
-  })
+  try {
+    const { requestId, approved, signature } = req.body as {
+      requestId?: unknown
+      approved?: unknown
+      signature?: unknown
+    }
+    if (
+      typeof requestId !== 'string' ||
+      typeof approved !== 'boolean' ||
+      typeof signature !== 'string'
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'requestId, approved (boolean) and signature are required' })
+    }
+
+    const resolved = await resolveOwnerApproval({ requestId, approved, signature })
+    const event = {
+      type: 'approval_resolved',
+      requestId: resolved.id,
+      sessionId: resolved.sessionId,
+      decisionId: resolved.decisionId,
+      plateNumber: resolved.plateNumber,
+      status: resolved.status,
+      approver: resolved.approverWallet,
+    }
+    notifyGate(resolved.lotId, event)
+    notifyDriver(resolved.plateNumber, event)
+
+    res.json({
+      requestId: resolved.id,
+      sessionId: resolved.sessionId,
+      decisionId: resolved.decisionId,
+      status: resolved.status,
+      approver: resolved.approverWallet,
+    })
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res
+        .status(APPROVAL_ERROR_STATUS[error.code])
+        .json({ error: error.message, code: error.code })
+    }
+    console.error('Failed to resolve approval:', error)
+    res.status(500).json({ error: 'Failed to resolve approval' })
+  }
 })
 
 // POST /api/gate/scan — ALPR: upload image, get plate string
@@ -1810,6 +2275,11 @@ gateRouter.get('/lot/:lotId/status', async (req, res) => {
       currency: lot.currency,
       paymentMethods: lot.paymentMethods,
       operatorWallet: lot.operatorWallet,
+      timezone: lot.timezone,
+      tariff: lot.tariff,
+      dailyCapMode: lot.dailyCapMode,
+      riskThresholds: lot.riskThresholds ?? null,
+      amountTolerance: lot.amountTolerance ?? null,
     })
   } catch (error) {
     console.error('Failed to get lot status:', error)
@@ -1841,6 +2311,12 @@ gateRouter.put('/lot/:lotId', async (req, res) => {
       gracePeriodMinutes,
       currency,
       paymentMethods,
+      timezone,
+      tariff,
+      dailyCapMode,
+      riskThresholds,
+      evmAssets,
+      amountTolerance,
     } = req.body
 
     // Parse numeric fields — allow 0 as a valid value (only skip if not provided)
@@ -1871,6 +2347,40 @@ gateRouter.put('/lot/:lotId', async (req, res) => {
     if (parsedGracePeriod !== undefined && isNaN(parsedGracePeriod)) {
       return res.status(400).json({ error: 'gracePeriodMinutes must be a valid number' })
     }
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+      return res.status(400).json({ error: 'timezone must be a valid IANA timezone' })
+    }
+    if (
+      dailyCapMode !== undefined &&
+      dailyCapMode !== 'rolling_24h' &&
+      dailyCapMode !== 'calendar_day'
+    ) {
+      return res.status(400).json({ error: "dailyCapMode must be 'rolling_24h' or 'calendar_day'" })
+    }
+    if (tariff !== undefined) {
+      const tariffError = validateTariff(tariff)
+      if (tariffError) {
+        return res.status(400).json({ error: tariffError })
+      }
+    }
+    if (riskThresholds !== undefined) {
+      const riskError = validateRiskThresholds(riskThresholds)
+      if (riskError) {
+        return res.status(400).json({ error: riskError })
+      }
+    }
+    if (evmAssets !== undefined) {
+      const evmAssetsError = validateLotEvmAssets(evmAssets)
+      if (evmAssetsError) {
+        return res.status(400).json({ error: evmAssetsError })
+      }
+    }
+    if (amountTolerance !== undefined) {
+      const amountToleranceError = validateAmountTolerance(amountTolerance)
+      if (amountToleranceError) {
+        return res.status(400).json({ error: amountToleranceError })
+      }
+    }
 
     const lot = await db.updateLot(req.params.lotId, {
       name,
@@ -1882,6 +2392,16 @@ gateRouter.put('/lot/:lotId', async (req, res) => {
       gracePeriodMinutes: parsedGracePeriod,
       currency,
       paymentMethods,
+      timezone,
+      tariff,
+      dailyCapMode,
+      riskThresholds,
+      // Stored as registry addresses, whether given by address or symbol
+      evmAssets: (evmAssets as LotEvmAsset[] | undefined)?.map(({ chainId, token }) => ({
+        chainId,
+        token: getEvmToken(chainId, token)!.address,
+      })),
+      amountTolerance,
     })
 
     if (!lot) {
@@ -0,0 +1,206 @@
+import { Router, type Request } from 'express'
+import { normalizePlate } from '@parker/core'
+import { migratePolicy, type Policy, type PolicyLayer, type PolicyStack } from '@parker/policy-core'
+
+import { db } from '../db'
+import type { StoredPolicyLayer } from '../db/queries'
+import { hasGateAccess } from '../middleware/auth'
+import { getPlatformPolicy } from '../services/policyStack'
+import { simulatePolicy, type PolicyCandidate } from '../services/policy'
+
+/**
+ * CRUD for owner / vehicle / lot policy layers.
+ *
+ *   GET    /api/policies/platform           effective platform policy (from config, read-only)
+ *   GET    /api/policies/:layer             list layers of one kind
+ *   GET    /api/policies/:layer/:subject    one layer
+ *   PUT    /api/policies/:layer/:subject    create/replace (body is the Policy document)
+ *   DELETE /api/policies/:layer/:subject
+ *   POST   /api/policies/simulate           dry-run a candidate policy against recent decisions
+ *
+ * subject: owner wallet, plate number, or lot id. Writes to a lot layer need the gate API key
+ * (when GATE_API_KEY is set); owner and vehicle layers can also be written by the owning wallet,
+ * except for requireApprovalOverMinor, which only the gate operator may set, change or delete.
+ */
+export const policiesRouter = Router()
+
+const LAYERS: StoredPolicyLayer[] = ['owner', 'vehicle', 'lot']
+const STACK_LAYERS: PolicyLayer[] = ['platform', ...LAYERS]
+
+const SIMULATION_DEFAULT_LIMIT = 100
+const SIMULATION_MAX_LIMIT = 500
+
+function parseLayer(value: string): StoredPolicyLayer | null {
+  return LAYERS.includes(value as StoredPolicyLayer) ? (value as StoredPolicyLayer) : null
+}
+
+function normalizeSubject(layer: StoredPolicyLayer, subject: string): string {
+  if (layer === 'vehicle') return normalizePlate(subject)
+  if (layer === 'owner') return subject.toLowerCase()
+  return subject
+}
+
+/** Gate operators may write any layer; drivers may write their own owner and vehicle layers. */
+async function canWrite(req: Request, layer: StoredPolicyLayer, subject: string): Promise<boolean> {
+  if (hasGateAccess(req)) return true
+  const wallet = ((req as any).wallet as string | undefined)?.toLowerCase()
+  if (!wallet || layer === 'lot') return false
+  if (layer === 'owner') return wallet === subject
+  const driver = await db.getDriverByPlate(subject)
+  return driver?.wallet.toLowerCase() === wallet
+}
+
+const APPROVAL_THRESHOLD_OPERATOR_ONLY =
+  'requireApprovalOverMinor can only be changed by the gate operator'
+
+/** requireApprovalOverMinor of the stored layer, if any */
+async function storedApprovalThreshold(
+  layer: StoredPolicyLayer,
+  subject: string,
+): Promise<string | undefined> {
+  const stored = await db.getPolicyLayer(layer, subject)
+  return stored?.policy.requireApprovalOverMinor ?? undefined
+}
+
+policiesRouter.get('/platform', (_req, res) => {
+  res.json({ layer: 'platform', subject: 'platform', policy: getPlatformPolicy() })
+})
+
+/**
+ * Body: { policy, layer?, limit?, lotId? } to swap one layer (default platform) into each
+ * session's stack, or { stack, limit?, lotId? } to replace the whole stack.
+ */
+function parseCandidate(body: Record<string, unknown>): PolicyCandidate | string {
+  if (body.stack !== undefined) {
+    if (body.policy !== undefined) return 'Provide either policy or stack, not both'
+    const stack = body.stack as Record<string, unknown> | null
+    if (!stack || typeof stack !== 'object' || stack.platform === undefined) {
+      return 'stack.platform is required'
+    }
+    const upgraded: Partial<Record<PolicyLayer, Policy>> = {}
+    for (const key of Object.keys(stack)) {
+      if (!STACK_LAYERS.includes(key as PolicyLayer)) return `unknown stack layer: ${key}`
+      const result = migratePolicy(stack[key])
+      if (!result.ok) return `stack.${key}: ${result.errors.join('; ')}`
+      upgraded[key as PolicyLayer] = result.policy
+    }
+    return { stack: upgraded as PolicyStack }
+  }
+
+  const layer = (body.layer ?? 'platform') as PolicyLayer
+  if (!STACK_LAYERS.includes(layer)) return `layer must be one of ${STACK_LAYERS.join(', ')}`
+  const result = migratePolicy(body.policy)
+  if (!result.ok) return result.errors.join('; ')
+  return { policy: result.policy, layer }
+}
+
+policiesRouter.post('/simulate', async (req, res) => {
+  if (!hasGateAccess(req)) return res.status(403).json({ error: 'Gate API key required' })
+
+  const body = (req.body ?? {}) as Record<string, unknown>
+  const candidate = parseCandidate(body)
+  if (typeof candidate === 'string') return res.status(400).json({ error: candidate })
+
+  const limit = body.limit === undefined ? SIMULATION_DEFAULT_LIMIT : Number(body.limit)
+  if (!Number.isInteger(limit) || limit < 1 || limit > SIMULATION_MAX_LIMIT) {
+    return res.status(400).json({ error: `limit must be between 1 and ${SIMULATION_MAX_LIMIT}` })
+  }
+  const lotId = typeof body.lotId === 'string' && body.lotId ? body.lotId : undefined
+
+  try {
+    const decisions = await db.getRecentDecisionsForReplay(limit, lotId)
+    const report = await simulatePolicy({
+      candidate,
+      decisions,
+      getLot: db.getLot.bind(db),
+      getPolicyLayersForStack: db.getPolicyLayersForStack.bind(db),
+    })
+    res.json(report)
+  } catch (error) {
+    console.error('Failed to simulate policy:', error)
+    res.status(500).json({ error: 'Failed to simulate policy' })
+  }
+})
+
+policiesRouter.get('/:layer', async (req, res) => {
+  const layer = parseLayer(req.params.layer)
+  if (!layer) return res.status(400).json({ error: `layer must be one of ${LAYERS.join(', ')}` })
+  try {
+    res.json(await db.listPolicyLayers(layer))
+  } catch (error) {
+    console.error('Failed to list policy layers:', error)
+    res.status(500).json({ error: 'Failed to list policy layers' })
+  }
+})
+
+policiesRouter.get('/:layer/:subject', async (req, res) => {
+  const layer = parseLayer(req.params.layer)
+  if (!layer) return res.status(400).json({ error: `layer must be one of ${LAYERS.join(', ')}` })
+  try {
+    const record = await db.getPolicyLayer(layer, normalizeSubject(layer, req.params.subject))
+    if (!record) return res.status(404).json({ error: 'Policy not found' })
+    res.json(record)
+  } catch (error) {
+    console.error('Failed to get policy layer:', error)
+    res.status(500).json({ error: 'Failed to get policy layer' })
+  }
+})
+
+policiesRouter.put('/:layer/:subject', async (req, res) => {
+  const layer = parseLayer(req.params.layer)
+  if (!layer) return res.status(400).json({ error: `layer must be one of ${LAYERS.join(', ')}` })
+  const subject = normalizeSubject(layer, req.params.subject)
+
+  // Older schema versions are accepted and stored upgraded to the current version
+  const migrated = migratePolicy(req.body)
+  if (!migrated.ok) {
+    return res.status(400).json({ error: migrated.errors.join('; '), errors: migrated.errors })
+  }
+
+  try {
+    if (!(await canWrite(req, layer, subject))) {
+      return res.status(403).json({ error: 'Not allowed to change this policy' })
+    }
+    if (layer === 'lot' && !(await db.getLot(subject))) {
+      return res.status(404).json({ error: 'Lot not found' })
+    }
+    let policy = migrated.policy
+    if (!hasGateAccess(req)) {
+      // The threshold merges as "override wins", so a driver could raise or remove the
+      // operator's. Drivers keep whatever the stored layer has.
+      const stored = await storedApprovalThreshold(layer, subject)
+      if (
+        policy.requireApprovalOverMinor !== undefined &&
+        policy.requireApprovalOverMinor !== stored
+      ) {
+        return res.status(403).json({ error: APPROVAL_THRESHOLD_OPERATOR_ONLY })
+      }
+      if (stored !== undefined) policy = { ...policy, requireApprovalOverMinor: stored }
+    }
+    res.json(await db.upsertPolicyLayer(layer, subject, policy))
+  } catch (error) {
+    console.error('Failed to save policy layer:', error)
+    res.status(500).json({ error: 'Failed to save policy layer' })
+  }
+})
+
+policiesRouter.delete('/:layer/:subject', async (req, res) => {
+  const layer = parseLayer(req.params.layer)
+  if (!layer) return res.status(400).json({ error: `layer must be one of ${LAYERS.join(', ')}` })
+  const subject = normalizeSubject(layer, req.params.subject)
+
+  try {
+    if (!(await canWrite(req, layer, subject))) {
+      return res.status(403).json({ error: 'Not allowed to change this policy' })
+    }
+    if (!hasGateAccess(req) && (await storedApprovalThreshold(layer, subject)) !== undefined) {
+      return res.status(403).json({ error: APPROVAL_THRESHOLD_OPERATOR_ONLY })
+    }
+    const deleted = await db.deletePolicyLayer(layer, subject)
+    if (!deleted) return res.status(404).json({ error: 'Policy not found' })
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete policy layer:', error)
+    res.status(500).json({ error: 'Failed to delete policy layer' })
+  }
+})
@@ -1,18 +1,46 @@
-import { Router, type Request } from 'express'
-import { normalizePlate } from '@parker/core'
+import { Router, type Request, type Response } from 'express'
+import {
+  OPERATOR_OVERRIDE_REASONS,
+  normalizePlate,
+  toMinor,
+  type DisputeStatus,
+  type OperatorOverrideAction,
+  type OperatorOverrideReason,
+  type PaymentReviewStatus,
+  type RefundStatus,
+  type SessionComp,
+  type SessionRecord,
+} from '@parker/core'
 
 import { db } from '../db'
+import type { DisputeRecord, RefundRecord } from '../db/queries'
+import { hasGateAccess, hasStrictGateAccess, requireWallet } from '../middleware/auth'
 import { logger } from '../services/observability'
+import { SessionLifecycleError, sessionLifecycleService } from '../services/sessionLifecycle'
+import {
+  PaymentReviewError,
+  acceptReviewedPayment,
+  requestReviewRefund,
+  requestReviewTopUp,
+  toSessionPaymentReview,
+  type ResolvedReview,
+} from '../services/paymentReviews'
+import { RefundError, approveRefund, confirmRefund, requestRefund } from '../services/refunds'
+import {
+  DisputeError,
+  collectDisputeEvidence,
+  listDriverDisputes,
+  openDispute,
+  resolveDispute,
+} from '../services/disputes'
+import { recordNftBurn } from '../services/evidence'
+import { removePendingPayment } from '../services/paymentWatcher'
+import { isHederaEnabled, endParkingSessionOnHedera } from '../services/hedera'
+import { notifyGate, notifyDriver } from '../ws/index'
 
 export const sessionsRouter = Router()
 const UUID_V4_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
 
-function hasTimelineAccess(req: Request): boolean {
-  const expectedApiKey = process.env.SESSION_TIMELINE_API_KEY || process.env.GATE_API_KEY
-  if (!expectedApiKey) return true
-  return req.header('x-gate-api-key') === expectedApiKey
-}
-
 function canonicalJson(value: unknown): string {
   if (value === null || typeof value !== 'object') return JSON.stringify(value)
   if (Array.isArray(value)) return `[${value.map((v) => canonicalJson(v)).join(',')}]`
@@ -265,7 +293,7 @@ sessionsRouter.get('/:sessionId/timeline', async (req, res) => {
     if (!UUID_V4_REGEX.test(req.params.sessionId)) {
       return res.status(400).json({ error: 'Invalid sessionId format' })
     }
-    if (!hasTimelineAccess(req)) {
+    if (!hasGateAccess(req, process.env.SESSION_TIMELINE_API_KEY || process.env.GATE_API_KEY)) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
     const rawLimit = parseInt(req.query.limit as string)
@@ -299,7 +327,7 @@ sessionsRouter.get('/:sessionId/debug', async (req, res) => {
     if (!UUID_V4_REGEX.test(req.params.sessionId)) {
       return res.status(400).json({ error: 'Invalid sessionId format' })
     }
-    if (!hasTimelineAccess(req)) {
+    if (!hasGateAccess(req, process.env.SESSION_TIMELINE_API_KEY || process.env.GATE_API_KEY)) {
       return res.status(401).json({ error: 'Unauthorized' })
     }
 
@@ -329,6 +357,7 @@ sessionsRouter.get('/:sessionId/debug', async (req, res) => {
       decision: debugRecord.decision,
       signedAuthorization: debugRecord.signedAuthorization,
       settlement,
+      trace: debugRecord.trace,
       invariants: evaluateInvariants({
         budget,
         decision: debugRecord.decision,
@@ -346,3 +375,685 @@ sessionsRouter.get('/:sessionId/debug', async (req, res) => {
     return res.status(500).json({ error: 'Failed to get session debug bundle' })
   }
 })
+
+// ---- Operator overrides ----
+
+const OVERRIDE_NOTE_MAX_LENGTH = 500
+const OVERRIDE_ERROR_STATUS: Record<string, number> = {
+  INVALID_TRANSITION: 409,
+  OVERRIDE_NOT_ALLOWED: 409,
+}
+
+interface ParsedOverride {
+  reasonCode: OperatorOverrideReason
+  note: string
+  operator: { id: string; wallet?: string }
+}
+
+/** Body: { note, operatorId } shared by overrides and payment reviews. */
+function parseOperatorNote(req: Request): Omit<ParsedOverride, 'reasonCode'> | string {
+  const { note, operatorId } = (req.body ?? {}) as Record<string, unknown>
+  if (typeof note !== 'string' || !note.trim()) return 'note is required'
+  if (note.length > OVERRIDE_NOTE_MAX_LENGTH) {
+    return `note must be at most ${OVERRIDE_NOTE_MAX_LENGTH} characters`
+  }
+  if (typeof operatorId !== 'string' || !operatorId.trim()) return 'operatorId is required'
+  const wallet = (req as any).wallet as string | undefined
+  return {
+    note: note.trim(),
+    operator: { id: operatorId.trim(), ...(wallet && { wallet: wallet.toLowerCase() }) },
+  }
+}
+
+/** Body: { reasonCode, note, operatorId }. Returns an error message when invalid. */
+function parseOverride(req: Request): ParsedOverride | string {
+  const { reasonCode } = (req.body ?? {}) as Record<string, unknown>
+  if (!OPERATOR_OVERRIDE_REASONS.includes(reasonCode as OperatorOverrideReason)) {
+    return `reasonCode must be one of ${OPERATOR_OVERRIDE_REASONS.join(', ')}`
+  }
+  const parsed = parseOperatorNote(req)
+  if (typeof parsed === 'string') return parsed
+  return { reasonCode: reasonCode as OperatorOverrideReason, ...parsed }
+}
+
+/** Comp body: { percent } (1–100) or { amount } (lot currency, major units). */
+function parseComp(body: Record<string, unknown>, currency: string): SessionComp | string {
+  const { percent, amount } = body
+  if ((percent === undefined) === (amount === undefined)) {
+    return 'Provide either percent or amount'
+  }
+  if (percent !== undefined) {
+    if (typeof percent !== 'number' || !Number.isInteger(percent) || percent < 1 || percent > 100) {
+      return 'percent must be an integer between 1 and 100'
+    }
+    return { percent }
+  }
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return 'amount must be a positive number'
+  }
+  return { amountMinor: toMinor(amount, currency).toString() }
+}
+
+/** After a close outside the payment flow: drop the pending payment, burn the NFT, notify. */
+async function closeSideEffects(closed: SessionRecord, summary: Record<string, unknown>) {
+  await removePendingPayment(closed.id)
+  if (isHederaEnabled() && closed.tokenId) {
+    try {
+      const burn = await endParkingSessionOnHedera(closed.tokenId)
+      await recordNftBurn(closed.id, closed.tokenId, burn)
+    } catch (err) {
+      console.error('Hedera NFT burn failed after operator close (continuing):', err)
+    }
+  }
+  notifyGate(closed.lotId, {
+    type: 'exit',
+    session: closed,
+    plate: closed.plateNumber,
+    override: summary,
+  })
+  notifyDriver(closed.plateNumber, { type: 'session_ended', session: closed, override: summary })
+}
+
+function registerOverride(
+  action: OperatorOverrideAction,
+  path: string,
+  run: (
+    session: SessionRecord,
+    override: ParsedOverride,
+    body: Record<string, unknown>,
+  ) => Promise<SessionRecord | null | string>,
+) {
+  sessionsRouter.post(`/:sessionId/${path}`, async (req, res) => {
+    if (!UUID_V4_REGEX.test(req.params.sessionId)) {
+      return res.status(400).json({ error: 'Invalid sessionId format' })
+    }
+    if (!hasGateAccess(req)) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+    const override = parseOverride(req)
+    if (typeof override === 'string') return res.status(400).json({ error: override })
+
+    try {
+      const session = await db.getSession(req.params.sessionId)
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' })
+      }
+      const result = await run(session, override, (req.body ?? {}) as Record<string, unknown>)
+      if (typeof result === 'string') return res.status(400).json({ error: result })
+      if (!result) {
+        return res.status(409).json({ error: 'Session changed concurrently; retry' })
+      }
+
+      logger.info('session.override', {
+        sessionId: session.id,
+        action,
+        reasonCode: override.reasonCode,
+        operatorId: override.operator.id,
+      })
+      if (action === 'comp') {
+        notifyDriver(result.plateNumber, { type: 'session_comped', session: result })
+      } else {
+        await closeSideEffects(result, {
+          action,
+          reasonCode: override.reasonCode,
+          operatorId: override.operator.id,
+        })
+      }
+      res.json(result)
+    } catch (error) {
+      if (error instanceof SessionLifecycleError) {
+        return res
+          .status(OVERRIDE_ERROR_STATUS[error.code] ?? 409)
+          .json({ error: error.message, code: error.code })
+      }
+      console.error(`Failed to ${action} session:`, error)
+      res.status(500).json({ error: `Failed to ${action} session` })
+    }
+  })
+}
+
+// POST /api/sessions/:sessionId/force-close — Close without settlement (towed, barrier lifted)
+// Body: { reasonCode, note, operatorId }
+registerOverride('force_close', 'force-close', (session, override) =>
+  sessionLifecycleService.forceCloseSession(session, override),
+)
+
+// POST /api/sessions/:sessionId/void — Close with a zero fee. Body: { reasonCode, note, operatorId }
+registerOverride('void', 'void', async (session, override) => {
+  const lot = await db.getLot(session.lotId)
+  return sessionLifecycleService.voidSession(session, {
+    ...override,
+    feeCurrency: lot?.currency || 'USD',
+  })
+})
+
+// POST /api/sessions/:sessionId/comp — Discount the exit fee
+// Body: { reasonCode, note, operatorId, percent | amount }
+registerOverride('comp', 'comp', async (session, override, body) => {
+  const lot = await db.getLot(session.lotId)
+  const comp = parseComp(body, lot?.currency || 'USD')
+  if (typeof comp === 'string') return comp
+  return sessionLifecycleService.compSession(session, { ...override, comp })
+})
+
+// ---- Payment reviews (paid but not closable) ----
+
+const PAYMENT_REVIEW_STATUSES: PaymentReviewStatus[] = [
+  'open',
+  'accepted',
+  'refund_requested',
+  'top_up_requested',
+]
+const REVIEW_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  ALREADY_RESOLVED: 409,
+  SESSION_NOT_OPEN: 409,
+  INVALID_TOP_UP: 400,
+}
+
+// GET /api/sessions/reviews?status=open&lotId=...&limit=100 — Operator review queue
+sessionsRouter.get('/reviews', async (req, res) => {
+  if (!hasGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const status = req.query.status ?? 'open'
+  if (status !== 'all' && !PAYMENT_REVIEW_STATUSES.includes(status as PaymentReviewStatus)) {
+    return res
+      .status(400)
+      .json({ error: `status must be all or one of ${PAYMENT_REVIEW_STATUSES.join(', ')}` })
+  }
+  try {
+    const reviews = await db.listPaymentReviews({
+      status: status === 'all' ? undefined : (status as PaymentReviewStatus),
+      lotId: typeof req.query.lotId === 'string' ? req.query.lotId : undefined,
+      limit: parseInt(req.query.limit as string) || 100,
+    })
+    res.json(reviews)
+  } catch (error) {
+    console.error('Failed to list payment reviews:', error)
+    res.status(500).json({ error: 'Failed to list payment reviews' })
+  }
+})
+
+// GET /api/sessions/:sessionId/review — Latest payment review of a session (driver-facing)
+sessionsRouter.get('/:sessionId/review', async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.sessionId)) {
+    return res.status(400).json({ error: 'Invalid sessionId format' })
+  }
+  try {
+    const review = await db.getLatestSessionPaymentReview(req.params.sessionId)
+    if (!review) {
+      return res.status(404).json({ error: 'No payment review for this session' })
+    }
+    res.json(toSessionPaymentReview(review))
+  } catch (error) {
+    console.error('Failed to get payment review:', error)
+    res.status(500).json({ error: 'Failed to get payment review' })
+  }
+})
+
+/** Resolutions that can create a refund pass hasStrictGateAccess as `hasAccess`. */
+function registerReviewResolution(
+  path: string,
+  run: (
+    reviewId: string,
+    resolution: Omit<ParsedOverride, 'reasonCode'>,
+    body: Record<string, unknown>,
+  ) => Promise<ResolvedReview | string>,
+  hasAccess: (req: Request) => boolean = hasGateAccess,
+) {
+  sessionsRouter.post(`/reviews/:reviewId/${path}`, async (req, res) => {
+    if (!UUID_V4_REGEX.test(req.params.reviewId)) {
+      return res.status(400).json({ error: 'Invalid reviewId format' })
+    }
+    if (!hasAccess(req)) {
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+    const resolution = parseOperatorNote(req)
+    if (typeof resolution === 'string') return res.status(400).json({ error: resolution })
+
+    try {
+      const result = await run(
+        req.params.reviewId,
+        resolution,
+        (req.body ?? {}) as Record<string, unknown>,
+      )
+      if (typeof result === 'string') return res.status(400).json({ error: result })
+      const { review, session } = result
+
+      logger.info('payment_review.resolved', {
+        reviewId: review.id,
+        sessionId: review.sessionId,
+        status: review.status,
+        operatorId: resolution.operator.id,
+      })
+      if (review.status === 'accepted' && session) {
+        await closeSideEffects(session, {
+          action: 'accept_payment',
+          reviewId: review.id,
+          operatorId: resolution.operator.id,
+        })
+      }
+      if (review.plateNumber) {
+        notifyDriver(review.plateNumber, {
+          type: 'payment_review_resolved',
+          sessionId: review.sessionId,
+          review: toSessionPaymentReview(review),
+        })
+      }
+      res.json(result)
+    } catch (error) {
+      if (error instanceof PaymentReviewError || error instanceof SessionLifecycleError) {
+        return res
+          .status(REVIEW_ERROR_STATUS[error.code] ?? 409)
+          .json({ error: error.message, code: error.code })
+      }
+      if (error instanceof RefundError) {
+        return res
+          .status(REFUND_ERROR_STATUS[error.code] ?? 409)
+          .json({ error: error.message, code: error.code })
+      }
+      console.error(`Failed to resolve payment review (${path}):`, error)
+      res.status(500).json({ error: 'Failed to resolve payment review' })
+    }
+  })
+}
+
+// POST /api/sessions/reviews/:reviewId/accept — Take the payment and close the session
+// Body: { note, operatorId }
+registerReviewResolution('accept', (reviewId, resolution) =>
+  acceptReviewedPayment(reviewId, resolution),
+)
+
+// POST /api/sessions/reviews/:reviewId/refund — Request a refund of the payment
+// Body: { note, operatorId }
+registerReviewResolution(
+  'refund',
+  (reviewId, resolution) => requestReviewRefund(reviewId, resolution),
+  hasStrictGateAccess,
+)
+
+// POST /api/sessions/reviews/:reviewId/top-up — Ask the driver to pay the difference
+// Body: { note, operatorId, amount } (amount still owed, lot currency, major units)
+registerReviewResolution('top-up', async (reviewId, resolution, body) => {
+  const { amount } = body
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return 'amount must be a positive number'
+  }
+  const review = await db.getPaymentReview(reviewId)
+  const lot = review?.lotId ? await db.getLot(review.lotId) : null
+  return requestReviewTopUp(reviewId, {
+    ...resolution,
+    amountMinor: toMinor(amount, lot?.currency || 'USD'),
+  })
+})
+
+// ---- Refunds ----
+
+const REFUND_STATUSES: RefundStatus[] = ['requested', 'approved', 'executed', 'confirmed', 'failed']
+const REFUND_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  SETTLEMENT_NOT_FOUND: 404,
+  INVALID_AMOUNT: 400,
+  IDEMPOTENCY_KEY_REQUIRED: 400,
+  SAME_OPERATOR: 403,
+  OUTCOME_UNKNOWN: 502,
+}
+
+function sendRefundError(res: Response, error: unknown, action: string) {
+  if (error instanceof RefundError) {
+    return res
+      .status(REFUND_ERROR_STATUS[error.code] ?? 409)
+      .json({ error: error.message, code: error.code })
+  }
+  console.error(`Failed to ${action} refund:`, error)
+  return res.status(500).json({ error: `Failed to ${action} refund` })
+}
+
+/** Atomic units as a positive whole number or digit string; null when invalid. */
+function parseAtomicAmount(value: unknown): bigint | null {
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value > 0) return BigInt(value)
+  if (typeof value === 'string' && /^\d+$/.test(value) && BigInt(value) > 0n) return BigInt(value)
+  return null
+}
+
+async function notifyRefund(refund: RefundRecord) {
+  const session = await db.getSession(refund.sessionId)
+  if (!session) return
+  notifyDriver(session.plateNumber, {
+    type: 'refund_updated',
+    sessionId: refund.sessionId,
+    refundId: refund.id,
+    status: refund.status,
+  })
+}
+
+// GET /api/sessions/refunds?status=requested&limit=100 — Operator refund queue (default: all)
+sessionsRouter.get('/refunds', async (req, res) => {
+  if (!hasStrictGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const status = req.query.status ?? 'all'
+  if (status !== 'all' && !REFUND_STATUSES.includes(status as RefundStatus)) {
+    return res
+      .status(400)
+      .json({ error: `status must be all or one of ${REFUND_STATUSES.join(', ')}` })
+  }
+  try {
+    const refunds = await db.listRefunds({
+      status: status === 'all' ? undefined : (status as RefundStatus),
+      limit: parseInt(req.query.limit as string) || 100,
+    })
+    res.json(refunds)
+  } catch (error) {
+    sendRefundError(res, error, 'list')
+  }
+})
+
+// GET /api/sessions/:sessionId/refunds — Refunds of a session
+sessionsRouter.get('/:sessionId/refunds', async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.sessionId)) {
+    return res.status(400).json({ error: 'Invalid sessionId format' })
+  }
+  if (!hasStrictGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  try {
+    res.json(await db.listRefunds({ sessionId: req.params.sessionId }))
+  } catch (error) {
+    sendRefundError(res, error, 'list')
+  }
+})
+
+// POST /api/sessions/:sessionId/refunds — Request a refund of a settlement
+// Body: { note, operatorId, txHash?, amount? } (amount in the settlement's atomic units;
+// defaults to the latest settlement, in full). Header Idempotency-Key: required for a partial
+// refund. Needs the gate API key even in development.
+sessionsRouter.post('/:sessionId/refunds', async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.sessionId)) {
+    return res.status(400).json({ error: 'Invalid sessionId format' })
+  }
+  if (!hasStrictGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const request = parseOperatorNote(req)
+  if (typeof request === 'string') return res.status(400).json({ error: request })
+  const { txHash, amount } = (req.body ?? {}) as Record<string, unknown>
+  if (txHash !== undefined && (typeof txHash !== 'string' || !txHash.trim())) {
+    return res.status(400).json({ error: 'txHash must be a non-empty string' })
+  }
+  const refundAmount = amount === undefined ? undefined : parseAtomicAmount(amount)
+  if (refundAmount === null) {
+    return res.status(400).json({ error: 'amount must be a whole number of atomic units' })
+  }
+  const idempotencyKey = req.header('idempotency-key')?.trim()
+
+  try {
+    const { refund, created } = await requestRefund({
+      sessionId: req.params.sessionId,
+      txHash: typeof txHash === 'string' ? txHash.trim() : undefined,
+      amount: refundAmount,
+      ...request,
+      ...(idempotencyKey && { idempotencyKey }),
+    })
+    if (created) {
+      logger.info('refund.requested', {
+        refundId: refund.id,
+        sessionId: refund.sessionId,
+        rail: refund.rail,
+        operatorId: request.operator.id,
+      })
+    }
+    res.status(created ? 201 : 200).json(refund)
+  } catch (error) {
+    sendRefundError(res, error, 'request')
+  }
+})
+
+// POST /api/sessions/refunds/:refundId/approve — Approve a requested refund and send it
+// Body: { note, operatorId } (another operator than the requester). Needs the gate API key even
+// in development.
+sessionsRouter.post('/refunds/:refundId/approve', async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.refundId)) {
+    return res.status(400).json({ error: 'Invalid refundId format' })
+  }
+  if (!hasStrictGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const approval = parseOperatorNote(req)
+  if (typeof approval === 'string') return res.status(400).json({ error: approval })
+
+  try {
+    const refund = await approveRefund(req.params.refundId, approval)
+    logger.info('refund.approved', {
+      refundId: refund.id,
+      sessionId: refund.sessionId,
+      rail: refund.rail,
+      status: refund.status,
+      operatorId: approval.operator.id,
+    })
+    await notifyRefund(refund)
+    res.json(refund)
+  } catch (error) {
+    sendRefundError(res, error, 'approve')
+  }
+})
+
+// POST /api/sessions/refunds/:refundId/confirm — Check whether an executed refund is final
+sessionsRouter.post('/refunds/:refundId/confirm', async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.refundId)) {
+    return res.status(400).json({ error: 'Invalid refundId format' })
+  }
+  if (!hasStrictGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  try {
+    const refund = await confirmRefund(req.params.refundId)
+    if (refund.status !== 'executed') await notifyRefund(refund)
+    res.json(refund)
+  } catch (error) {
+    sendRefundError(res, error, 'confirm')
+  }
+})
+
+// ---- Disputes ----
+
+const DISPUTE_STATUSES: DisputeStatus[] = [
+  'opened',
+  'evidence_collected',
+  'resolved_driver',
+  'resolved_operator',
+]
+const DISPUTE_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  SESSION_NOT_FOUND: 404,
+  NOT_SESSION_DRIVER: 403,
+  REFUND_NOT_ALLOWED: 400,
+}
+
+function sendDisputeError(res: Response, error: unknown, action: string) {
+  if (error instanceof DisputeError) {
+    return res
+      .status(DISPUTE_ERROR_STATUS[error.code] ?? 409)
+      .json({ error: error.message, code: error.code })
+  }
+  if (error instanceof RefundError) {
+    return res
+      .status(REFUND_ERROR_STATUS[error.code] ?? 409)
+      .json({ error: error.message, code: error.code })
+  }
+  console.error(`Failed to ${action} dispute:`, error)
+  return res.status(500).json({ error: `Failed to ${action} dispute` })
+}
+
+/** Driver-facing view of a dispute: no evidence bundle or operator details. */
+function toDriverDispute(dispute: DisputeRecord) {
+  return {
+    id: dispute.id,
+    sessionId: dispute.sessionId,
+    reason: dispute.reason,
+    status: dispute.status,
+    evidenceHash: dispute.evidenceHash,
+    resolutionNote: dispute.resolutionNote,
+    refundId: dispute.refundId,
+    createdAt: dispute.createdAt,
+    resolvedAt: dispute.resolvedAt,
+  }
+}
+
+// GET /api/sessions/disputes?status=evidence_collected&limit=100 — Operator dispute queue
+// (default: all). Evidence bundles are left out; fetch a dispute to see its bundle.
+sessionsRouter.get('/disputes', async (req, res) => {
+  if (!hasGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const status = req.query.status ?? 'all'
+  if (status !== 'all' && !DISPUTE_STATUSES.includes(status as DisputeStatus)) {
+    return res
+      .status(400)
+      .json({ error: `status must be all or one of ${DISPUTE_STATUSES.join(', ')}` })
+  }
+  try {
+    const disputes = await db.listDisputes({
+      status: status === 'all' ? undefined : (status as DisputeStatus),
+      limit: parseInt(req.query.limit as string) || 100,
+    })
+    res.json(disputes)
+  } catch (error) {
+    sendDisputeError(res, error, 'list')
+  }
+})
+
+// GET /api/sessions/disputes/:disputeId — Dispute with its evidence bundle (operator)
+sessionsRouter.get('/disputes/:disputeId', async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.disputeId)) {
+    return res.status(400).json({ error: 'Invalid disputeId format' })
+  }
+  if (!hasGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  try {
+    const dispute = await db.getDispute(req.params.disputeId)
+    if (!dispute) return res.status(404).json({ error: 'Dispute not found' })
+    res.json(dispute)
+  } catch (error) {
+    sendDisputeError(res, error, 'get')
+  }
+})
+
+// POST /api/sessions/:sessionId/disputes — Driver disputes the session's charge
+// Body: { reason }. Requires the wallet that registered the session's plate.
+sessionsRouter.post('/:sessionId/disputes', requireWallet, async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.sessionId)) {
+    return res.status(400).json({ error: 'Invalid sessionId format' })
+  }
+  const { reason } = (req.body ?? {}) as Record<string, unknown>
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return res.status(400).json({ error: 'reason is required' })
+  }
+  if (reason.length > OVERRIDE_NOTE_MAX_LENGTH) {
+    return res
+      .status(400)
+      .json({ error: `reason must be at most ${OVERRIDE_NOTE_MAX_LENGTH} characters` })
+  }
+
+  try {
+    const dispute = await openDispute({
+      sessionId: req.params.sessionId,
+      wallet: (req as any).wallet,
+      reason: reason.trim(),
+    })
+    logger.info('dispute.opened', {
+      disputeId: dispute.id,
+      sessionId: dispute.sessionId,
+      evidenceHash: dispute.evidenceHash,
+    })
+    if (dispute.lotId) {
+      notifyGate(dispute.lotId, {
+        type: 'dispute_opened',
+        sessionId: dispute.sessionId,
+        disputeId: dispute.id,
+      })
+    }
+    res.status(201).json(toDriverDispute(dispute))
+  } catch (error) {
+    sendDisputeError(res, error, 'open')
+  }
+})
+
+// GET /api/sessions/:sessionId/disputes — Disputes of a session (its driver)
+sessionsRouter.get('/:sessionId/disputes', requireWallet, async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.sessionId)) {
+    return res.status(400).json({ error: 'Invalid sessionId format' })
+  }
+  try {
+    const disputes = await listDriverDisputes(req.params.sessionId, (req as any).wallet)
+    res.json(disputes.map(toDriverDispute))
+  } catch (error) {
+    sendDisputeError(res, error, 'list')
+  }
+})
+
+// POST /api/sessions/disputes/:disputeId/evidence — Collect the evidence bundle again
+sessionsRouter.post('/disputes/:disputeId/evidence', async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.disputeId)) {
+    return res.status(400).json({ error: 'Invalid disputeId format' })
+  }
+  if (!hasGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  try {
+    res.json(await collectDisputeEvidence(req.params.disputeId))
+  } catch (error) {
+    sendDisputeError(res, error, 'collect evidence for')
+  }
+})
+
+// POST /api/sessions/disputes/:disputeId/resolve — Resolve for the driver or the operator
+// Body: { outcome: 'driver' | 'operator', note, operatorId, refund?: boolean, amount? }
+// (refund: driver outcome only; amount in the settlement's atomic units, defaults to all of it).
+// It can create a refund, so it needs the gate API key like the refund endpoints.
+sessionsRouter.post('/disputes/:disputeId/resolve', async (req, res) => {
+  if (!UUID_V4_REGEX.test(req.params.disputeId)) {
+    return res.status(400).json({ error: 'Invalid disputeId format' })
+  }
+  if (!hasStrictGateAccess(req)) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  const resolution = parseOperatorNote(req)
+  if (typeof resolution === 'string') return res.status(400).json({ error: resolution })
+  const { outcome, refund, amount } = (req.body ?? {}) as Record<string, unknown>
+  if (outcome !== 'driver' && outcome !== 'operator') {
+    return res.status(400).json({ error: 'outcome must be driver or operator' })
+  }
+  const refundAmount = amount === undefined ? undefined : parseAtomicAmount(amount)
+  if (refundAmount === null) {
+    return res.status(400).json({ error: 'amount must be a whole number of atomic units' })
+  }
+
+  try {
+    const result = await resolveDispute(req.params.disputeId, {
+      outcome,
+      ...resolution,
+      ...(refund === true && { refund: { amount: refundAmount } }),
+    })
+    const { dispute } = result
+    logger.info('dispute.resolved', {
+      disputeId: dispute.id,
+      sessionId: dispute.sessionId,
+      status: dispute.status,
+      refundId: result.refund?.id,
+      operatorId: resolution.operator.id,
+    })
+    if (dispute.plateNumber) {
+      notifyDriver(dispute.plateNumber, {
+        type: 'dispute_resolved',
+        sessionId: dispute.sessionId,
+        dispute: toDriverDispute(dispute),
+      })
+    }
+    res.json(result)
+  } catch (error) {
+    sendDisputeError(res, error, 'resolve')
+  }
+})
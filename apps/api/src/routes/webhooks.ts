@@ -1,5 +1,5 @@
 import { Router, raw } from 'express'
-import { LIFECYCLE_EVENT } from '@parker/core'
+import { LIFECYCLE_EVENT, minorToNumber } from '@parker/core'
 
 import { db } from '../db'
 import { notifyGate, notifyDriver } from '../ws/index'
@@ -12,6 +12,7 @@ import { verifyWebhookSignature, isStripeEnabled } from '../services/stripe'
 import { logger, paymentFailuresTotal } from '../services/observability'
 import { enforceOrReject } from '../services/policy'
 import { sessionLifecycleService } from '../services/sessionLifecycle'
+import { recordNftBurn } from '../services/evidence'
 
 export const webhooksRouter = Router()
 
@@ -85,7 +86,9 @@ webhooksRouter.post('/stripe', raw({ type: 'application/json' }), async (req, re
     })
 
     // Calculate fee from Stripe amount (smallest unit → decimal)
-    const feeAmount = stripeSession.amount_total ? stripeSession.amount_total / 100 : 0
+    const feeAmount = stripeSession.amount_total
+      ? minorToNumber(BigInt(stripeSession.amount_total), feeCurrency || 'USD')
+      : 0
 
     try {
       // Replay protection: same Stripe payment id must not settle twice (shared with EVM/XRPL via policy_events)
@@ -229,8 +232,9 @@ webhooksRouter.post('/stripe', raw({ type: 'application/json' }), async (req, re
       let nftBurnSucceeded = !isHederaEnabled() || !session.tokenId
       if (isHederaEnabled() && session.tokenId) {
         try {
-          await endParkingSessionOnHedera(session.tokenId)
+          const burn = await endParkingSessionOnHedera(session.tokenId)
           nftBurnSucceeded = true
+          await recordNftBurn(session.id, session.tokenId, burn)
         } catch (err) {
           nftBurnSucceeded = false
           paymentFailuresTotal.inc({ rail: 'stripe', reason: 'hedera_burn_failed' })
@@ -0,0 +1,222 @@
+/**
+ * Owner approvals for REQUIRE_APPROVAL payment decisions (NEEDS_APPROVAL, PRICE_SPIKE, RISK_HIGH).
+ * An exit that needs approval opens a request bound to the vehicle owner's wallet; the owner or
+ * one of their delegates approves or rejects it with an EIP-712 signature. An approval covers
+ * re-evaluated exits of the session for APPROVAL_VALIDITY_MS while the price stays within the
+ * approved amount (OwnerApproval in policy-core).
+ */
+
+import { recoverTypedDataAddress, type Hex } from 'viem'
+import type { PaymentPolicyDecision } from '@parker/policy-core'
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import { db } from '../db'
+import type { ApprovalRequestRecord } from '../db/queries'
+
+/** How long the owner has to answer a request. */
+export const APPROVAL_REQUEST_TTL_MS = 10 * 60_000
+
+/** How long an approval keeps covering exits of the session after it is given. */
+export const APPROVAL_VALIDITY_MS = 30 * 60_000
+
+export const APPROVAL_TYPED_DATA_DOMAIN = { name: 'Parker', version: '1' } as const
+
+export const APPROVAL_TYPED_DATA_TYPES = {
+  PaymentApproval: [
+    { name: 'requestId', type: 'string' },
+    { name: 'decisionId', type: 'string' },
+    { name: 'sessionId', type: 'string' },
+    { name: 'plateNumber', type: 'string' },
+    { name: 'amountMinor', type: 'string' },
+    { name: 'currency', type: 'string' },
+    { name: 'expiresAt', type: 'string' },
+    { name: 'approved', type: 'bool' },
+  ],
+} as const
+
+/** Fields of the PaymentApproval message other than `approved` (sent to the driver app). */
+export function approvalMessage(request: ApprovalRequestRecord) {
+  return {
+    requestId: request.id,
+    decisionId: request.decisionId,
+    sessionId: request.sessionId,
+    plateNumber: request.plateNumber,
+    amountMinor: request.amountMinor,
+    currency: request.currency,
+    expiresAt: new Date(request.expiresAt).toISOString(),
+  }
+}
+
+/** Typed data the driver app signs; `approved` is set by the signer's choice. */
+export function approvalTypedData(request: ApprovalRequestRecord) {
+  return {
+    domain: APPROVAL_TYPED_DATA_DOMAIN,
+    types: APPROVAL_TYPED_DATA_TYPES,
+    primaryType: 'PaymentApproval' as const,
+    message: approvalMessage(request),
+  }
+}
+
+/** Recover the (lowercased) wallet that signed an approve / reject; null if malformed. */
+export async function recoverApprovalSigner(
+  request: ApprovalRequestRecord,
+  approved: boolean,
+  signature: string,
+): Promise<string | null> {
+  try {
+    const address = await recoverTypedDataAddress({
+      domain: APPROVAL_TYPED_DATA_DOMAIN,
+      types: APPROVAL_TYPED_DATA_TYPES,
+      primaryType: 'PaymentApproval',
+      message: { ...approvalMessage(request), approved },
+      signature: signature as Hex,
+    })
+    return address.toLowerCase()
+  } catch {
+    return null
+  }
+}
+
+type ApprovalErrorCode =
+  | 'NOT_FOUND'
+  | 'NOT_PENDING'
+  | 'EXPIRED'
+  | 'INVALID_SIGNATURE'
+  | 'NOT_APPROVER'
+
+export class ApprovalError extends Error {
+  code: ApprovalErrorCode
+
+  constructor(code: ApprovalErrorCode, message: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+interface RequestOwnerApprovalInput {
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  decision: PaymentPolicyDecision
+  priceFiat: { amountMinor: string; currency: string }
+}
+
+/**
+ * Open an approval request for a REQUIRE_APPROVAL decision. Returns null when the plate has
+ * no registered owner wallet to approve it.
+ */
+export async function requestOwnerApproval(
+  input: RequestOwnerApprovalInput,
+): Promise<ApprovalRequestRecord | null> {
+  const driver = await db.getDriverByPlate(input.plateNumber)
+  if (!driver?.wallet) return null
+  return db.createApprovalRequest({
+    decisionId: input.decision.decisionId,
+    sessionId: input.sessionId,
+    plateNumber: input.plateNumber,
+    lotId: input.lotId,
+    ownerWallet: driver.wallet,
+    amountMinor: input.priceFiat.amountMinor,
+    currency: input.priceFiat.currency,
+    reasons: input.decision.reasons,
+    expiresAt: new Date(Date.now() + APPROVAL_REQUEST_TTL_MS),
+  })
+}
+
+/**
+ * Expire the decision of a request that timed out and record PAYMENT_DECISION_EXPIRED with
+ * reason 'approval_timeout'. Called for late answers and by the expiry sweeper.
+ */
+export async function expireApprovalDecision(request: ApprovalRequestRecord): Promise<void> {
+  const expired = await db.transitionDecisionState(request.decisionId, {
+    from: ['created'],
+    to: 'expired',
+  })
+  if (!expired) return
+  await db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.PAYMENT_DECISION_EXPIRED,
+    payload: { reason: 'approval_timeout', approvalRequestId: request.id },
+    sessionId: request.sessionId,
+    decisionId: request.decisionId,
+  })
+}
+
+interface ResolveOwnerApprovalInput {
+  requestId: string
+  approved: boolean
+  signature: string
+}
+
+/**
+ * Verify a signed approve / reject against the owner wallet and its delegates, then record it:
+ * request status, decision state (approved / rejected) and a PAYMENT_APPROVED or
+ * PAYMENT_REJECTED event. A request answered after its deadline is expired instead.
+ */
+export async function resolveOwnerApproval(
+  input: ResolveOwnerApprovalInput,
+): Promise<ApprovalRequestRecord> {
+  const request = await db.getApprovalRequest(input.requestId)
+  if (!request) throw new ApprovalError('NOT_FOUND', 'Approval request not found')
+  if (request.status !== 'pending') {
+    throw new ApprovalError('NOT_PENDING', `Approval request is already ${request.status}`)
+  }
+
+  if (new Date(request.expiresAt).getTime() <= Date.now()) {
+    const expired = await db.resolveApprovalRequest(request.id, { status: 'expired' })
+    if (expired) await expireApprovalDecision(expired)
+    throw new ApprovalError('EXPIRED', 'Approval request has expired')
+  }
+
+  const signer = await recoverApprovalSigner(request, input.approved, input.signature)
+  if (!signer) throw new ApprovalError('INVALID_SIGNATURE', 'Invalid approval signature')
+  const delegated = signer !== request.ownerWallet
+  if (delegated) {
+    const delegates = await db.getApprovalDelegates(request.ownerWallet)
+    if (!delegates.includes(signer)) {
+      throw new ApprovalError('NOT_APPROVER', 'Signer is not the vehicle owner or a delegate')
+    }
+  }
+
+  const resolved = await db.resolveApprovalRequest(request.id, {
+    status: input.approved ? 'approved' : 'rejected',
+    approverWallet: signer,
+    signature: input.signature,
+  })
+  if (!resolved) throw new ApprovalError('NOT_PENDING', 'Approval request was already resolved')
+
+  await db.transitionDecisionState(request.decisionId, {
+    from: ['created'],
+    to: input.approved ? 'approved' : 'rejected',
+  })
+  await db.insertPolicyEvent({
+    eventType: input.approved ? LIFECYCLE_EVENT.PAYMENT_APPROVED : LIFECYCLE_EVENT.PAYMENT_REJECTED,
+    payload: {
+      reason: input.approved ? 'owner_approved' : 'owner_rejected',
+      approvalRequestId: request.id,
+      approver: signer,
+      ownerWallet: request.ownerWallet,
+      delegated,
+      signature: input.signature,
+      amountMinor: request.amountMinor,
+      currency: request.currency,
+    },
+    sessionId: request.sessionId,
+    decisionId: request.decisionId,
+  })
+  return resolved
+}
+
+/** Approval still covering the session's exits, in the shape evaluateExitPolicy expects. */
+export async function getSessionOwnerApproval(sessionId: string) {
+  const approval = await db.getLatestSessionApproval(
+    sessionId,
+    new Date(Date.now() - APPROVAL_VALIDITY_MS),
+  )
+  if (!approval) return null
+  return {
+    approvalId: approval.id,
+    maxMinor: approval.amountMinor,
+    currency: approval.currency,
+    approvedBy: approval.approverWallet,
+  }
+}
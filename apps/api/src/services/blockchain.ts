@@ -1,17 +1,73 @@
 /**
  * Base Sepolia blockchain service.
  *
- * Handles DriverRegistry reads on Base L2.
- * ParkingNFT operations have moved to Hedera (see hedera.ts).
+ * Handles DriverRegistry reads, token refund transfers on the settlement networks and the relayer
+ * of gasless x402 payments. ParkingNFT operations have moved to Hedera (see hedera.ts).
  */
 
-import { createPublicClient, http, parseAbi } from 'viem'
-import { baseSepolia } from 'viem/chains'
+import {
+  BaseError,
+  RpcRequestError,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  keccak256,
+  parseAbi,
+  type Chain,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { arbitrum, arbitrumSepolia, base, baseSepolia, polygon, polygonAmoy } from 'viem/chains'
+import type { Request } from 'express'
+import { getEvmChain, getEvmToken, type EvmToken } from '@parker/core'
+import { relayTransferWithAuthorization, type TransferAuthorizationOptions } from '@parker/x402'
+
+import { logger } from './observability'
 
 // ---- Configuration ----
 
 const RPC_URL = process.env.RPC_URL || 'https://sepolia.base.org'
 const DRIVER_REGISTRY_ADDRESS = process.env.DRIVER_REGISTRY_ADDRESS as `0x${string}` | undefined
+/** Key of the operator wallet that pays refunds back to drivers; EVM refunds are off when unset */
+const REFUND_EVM_PRIVATE_KEY = process.env.REFUND_EVM_PRIVATE_KEY as `0x${string}` | undefined
+/** Key of the wallet that submits drivers' EIP-3009 authorizations and pays their gas */
+const X402_RELAYER_PRIVATE_KEY = process.env.X402_RELAYER_PRIVATE_KEY as `0x${string}` | undefined
+
+/** viem chains of the registry's EVM networks */
+export const VIEM_CHAINS: Record<number, Chain> = Object.fromEntries(
+  [base, baseSepolia, polygon, polygonAmoy, arbitrum, arbitrumSepolia].map((c) => [c.id, c]),
+)
+
+/**
+ * EVM networks lots can settle on (EVM_SETTLEMENT_NETWORKS, comma-separated registry network
+ * names). Defaults to X402_NETWORK, or base-sepolia when that is not an EVM network.
+ */
+export function evmSettlementNetworks(): string[] {
+  const configured = (process.env.EVM_SETTLEMENT_NETWORKS || '')
+    .split(',')
+    .map((n) => n.trim())
+    .filter(Boolean)
+  const networks = configured.length > 0 ? configured : [process.env.X402_NETWORK || '']
+  const known = networks.filter((n) => {
+    if (getEvmChain(n)) return true
+    if (configured.length > 0) logger.warn('evm_settlement_network_unknown', { network: n })
+    return false
+  })
+  return known.length > 0 ? known : ['base-sepolia']
+}
+
+/**
+ * RPC for a network: EVM_RPC_URL_<NETWORK> (e.g. EVM_RPC_URL_POLYGON_AMOY), else RPC_URL for
+ * the first settlement network.
+ */
+export function evmRpcUrl(network: string, primary: boolean): string | undefined {
+  const key = `EVM_RPC_URL_${network.toUpperCase().replace(/-/g, '_')}`
+  if (process.env[key]) return process.env[key]
+  if (!primary) return undefined
+  return (
+    process.env.RPC_URL || (network === 'base-sepolia' ? 'https://sepolia.base.org' : undefined)
+  )
+}
 
 // ---- Clients ----
 
@@ -20,6 +76,40 @@ const publicClient = createPublicClient({
   transport: http(RPC_URL),
 })
 
+/** Refund wallet and receipt reader of one chain */
+interface RefundChainClients {
+  wallet: ReturnType<typeof createWalletClient>
+  public: ReturnType<typeof createPublicClient>
+}
+
+const _refundClients = new Map<number, RefundChainClients>()
+
+/** Clients of the refund wallet on a settlement chain, over that chain's RPC */
+function getRefundClients(chainId: number): RefundChainClients {
+  let clients = _refundClients.get(chainId)
+  if (!clients) {
+    if (!REFUND_EVM_PRIVATE_KEY) {
+      throw new Error('REFUND_EVM_PRIVATE_KEY is required')
+    }
+    const chain = VIEM_CHAINS[chainId]
+    const network = getEvmChain(chainId)?.network
+    const rpcUrl = network && evmRpcUrl(network, network === evmSettlementNetworks()[0])
+    if (!chain || !rpcUrl) {
+      throw new Error(`No RPC configured for chain ${chainId}`)
+    }
+    clients = {
+      wallet: createWalletClient({
+        account: privateKeyToAccount(REFUND_EVM_PRIVATE_KEY),
+        chain,
+        transport: http(rpcUrl),
+      }),
+      public: createPublicClient({ chain, transport: http(rpcUrl) }),
+    }
+    _refundClients.set(chainId, clients)
+  }
+  return clients
+}
+
 // ---- ABIs ----
 
 const DRIVER_REGISTRY_ABI = parseAbi([
@@ -28,12 +118,20 @@ const DRIVER_REGISTRY_ABI = parseAbi([
   'function getDriverByWallet(address wallet) external view returns ((address wallet, string plateNumber, string countryCode, string carMake, string carModel, bool active, uint256 registeredAt))',
 ])
 
+const ERC20_TRANSFER_ABI = parseAbi([
+  'function transfer(address to, uint256 amount) external returns (bool)',
+])
+
 // ---- Status Check ----
 
 export function isBaseEnabled(): boolean {
   return !!DRIVER_REGISTRY_ADDRESS
 }
 
+export function isEvmRefundEnabled(): boolean {
+  return !!REFUND_EVM_PRIVATE_KEY
+}
+
 // ---- DriverRegistry Operations (Base Sepolia) ----
 
 /**
@@ -67,3 +165,93 @@ export async function getDriverOnChain(plateNumber: string) {
     return null
   }
 }
+
+// ---- Token Refunds ----
+
+/**
+ * Send a token transfer from the refund wallet on the chain the payment settled on. Returns the
+ * signed transaction's hash once it is handed to the RPC; use getTransactionOutcome to learn
+ * whether it was mined. Throws only when the transfer was not broadcast: it failed before signing
+ * or the node rejected it. A broadcast whose reply was lost (timeout, dropped connection) still
+ * returns the hash, because the transfer may be mined.
+ *
+ * @param token - Contract address of a registry token on `chainId`
+ * @param amount - Atomic token units, as recorded at settlement
+ */
+export async function sendTokenTransfer(
+  chainId: number,
+  token: `0x${string}`,
+  to: `0x${string}`,
+  amount: bigint,
+): Promise<`0x${string}`> {
+  const registered = getEvmToken(chainId, token)
+  if (!registered || registered.address.toLowerCase() !== token.toLowerCase()) {
+    throw new Error(`Token ${token} is not in the registry for chain ${chainId}`)
+  }
+  const { wallet } = getRefundClients(chainId)
+  const request = await wallet.prepareTransactionRequest({
+    account: wallet.account!,
+    chain: wallet.chain,
+    to: registered.address,
+    data: encodeFunctionData({
+      abi: ERC20_TRANSFER_ABI,
+      functionName: 'transfer',
+      args: [to, amount],
+    }),
+  })
+  const serializedTransaction = await wallet.signTransaction({ ...request, chain: wallet.chain })
+  const hash = keccak256(serializedTransaction)
+  try {
+    await wallet.sendRawTransaction({ serializedTransaction })
+  } catch (error) {
+    // The node answered with an error: it did not take the transfer
+    if (error instanceof BaseError && error.walk((e) => e instanceof RpcRequestError)) throw error
+    logger.warn('evm_refund_broadcast_unconfirmed', { chainId, hash }, error)
+  }
+  return hash
+}
+
+// ---- Gasless x402 payments (EIP-3009) ----
+
+/**
+ * Relay settings for the x402 middleware: drivers sign a transferWithAuthorization of
+ * X402_STABLECOIN on X402_NETWORK and the X402_RELAYER_PRIVATE_KEY wallet submits it once it
+ * covers `amountDue` of the request. Undefined (gasless payments off) without the key, or when
+ * the registry has no EIP-3009 domain for the token.
+ */
+export function createX402TransferAuthorization(
+  amountDue: (req: Request, token: EvmToken) => Promise<bigint | null>,
+): TransferAuthorizationOptions | undefined {
+  if (!X402_RELAYER_PRIVATE_KEY) return undefined
+  const chain = getEvmChain(process.env.X402_NETWORK || 'base-sepolia')
+  const token = chain && getEvmToken(chain.chainId, process.env.X402_STABLECOIN || 'USDC')
+  const viemChain = chain && VIEM_CHAINS[chain.chainId]
+  if (!token?.eip3009 || !viemChain) return undefined
+
+  const walletClient = createWalletClient({
+    account: privateKeyToAccount(X402_RELAYER_PRIVATE_KEY),
+    chain: viemChain,
+    transport: http(RPC_URL),
+  })
+  const domain = { ...token.eip3009, chainId: token.chainId, verifyingContract: token.address }
+  return {
+    domain,
+    decimals: token.decimals,
+    amountDue: (req) => amountDue(req, token),
+    relay: (signed) => relayTransferWithAuthorization(walletClient, token.address, signed),
+  }
+}
+
+/** Receipt status of a refund transaction on its chain, or 'pending' while it has not been mined. */
+export async function getTransactionOutcome(
+  chainId: number,
+  hash: `0x${string}`,
+): Promise<'success' | 'reverted' | 'pending'> {
+  try {
+    const receipt = await getRefundClients(chainId).public.getTransactionReceipt({ hash })
+    return receipt.status
+  } catch (error) {
+    if ((error as Error)?.name === 'TransactionReceiptNotFoundError') return 'pending'
+    throw error
+  }
+}
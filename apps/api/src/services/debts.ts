@@ -0,0 +1,139 @@
+/**
+ * Debt ledger for exits that left without paying.
+ *
+ * While the API is unreachable the gate opens from its session cache ("payment deferred"), and
+ * on the Mirror Node fallback an exit whose fee cannot be computed (no lot config) opens for
+ * free. The gate keeps those exits and uploads them when it reconnects: each one closes its
+ * session at the recorded exit time and the fee becomes a debt of the plate (plate_debts).
+ *
+ * Debts are collected on the plate's next paid exit from the same lot: they are attached to that
+ * session and added to its fee, and marked collected when it settles (SessionLifecycleService). A policy
+ * can also refuse entry above a debt limit (maxOutstandingDebtMinor).
+ */
+
+import type { DebtSource, Lot, PlateDebt, SessionRecord } from '@parker/core'
+import { LIFECYCLE_EVENT, applySessionComp, calculateTariffFee } from '@parker/core'
+
+import { db } from '../db'
+import type { PlateDebtRecord } from '../db/queries'
+import { endParkingSessionOnHedera, isHederaEnabled } from './hedera'
+import { recordNftBurn } from './evidence'
+import { sessionLifecycleService } from './sessionLifecycle'
+
+export interface OfflineExit {
+  plateNumber: string
+  exitTime: Date
+  source: DebtSource
+}
+
+/**
+ * - recorded: session closed, fee owed as `debt`
+ * - no_fee: session closed, nothing owed (e.g. within the grace period)
+ * - no_session: no open session of the plate in the lot that started before the exit
+ *   (already closed, or never reached the DB); nothing to do
+ */
+export interface OfflineExitResult {
+  plateNumber: string
+  status: 'recorded' | 'no_fee' | 'no_session'
+  sessionId?: string
+  debt?: PlateDebtRecord
+}
+
+/**
+ * Close the session of an exit the gate let through while offline and record its fee as a
+ * debt. Safe to upload again: the debt is unique per session and a closed session is skipped.
+ */
+export async function recordOfflineExit(lot: Lot, exit: OfflineExit): Promise<OfflineExitResult> {
+  const { plateNumber, exitTime, source } = exit
+  const session = await db.getActiveSession(plateNumber)
+  if (!session || session.lotId !== lot.id || session.entryTime.getTime() > exitTime.getTime()) {
+    return { plateNumber, status: 'no_session' }
+  }
+
+  const currency = lot.currency || 'USD'
+  const quote = calculateTariffFee(session.entryTime, exitTime, lot)
+  const feeMinor = applySessionComp(BigInt(quote.feeMinor), session.comp)
+
+  let debt: PlateDebtRecord | undefined
+  if (feeMinor > 0n) {
+    const driver = await db.getDriverByPlate(plateNumber)
+    const created = await db.createPlateDebt({
+      sessionId: session.id,
+      plateNumber,
+      lotId: lot.id,
+      driverWallet: driver?.wallet,
+      amountMinor: feeMinor,
+      currency,
+      source,
+      entryTime: session.entryTime,
+      exitTime,
+    })
+    debt = created.debt
+    if (created.status === 'created') {
+      await db.insertPolicyEvent({
+        eventType: LIFECYCLE_EVENT.DEBT_RECORDED,
+        payload: {
+          debtId: debt.id,
+          amountMinor: debt.amountMinor,
+          currency,
+          source,
+          exitTime: exitTime.toISOString(),
+        },
+        sessionId: session.id,
+      })
+    }
+  }
+
+  await sessionLifecycleService.closeUnpaidExit(session, { exitTime, source, debtId: debt?.id })
+  // The Mirror Node fallback burned the NFT at exit; an offline gate could not
+  if (source === 'gate_offline') await burnSessionNft(session)
+
+  return debt
+    ? { plateNumber, status: 'recorded', sessionId: session.id, debt }
+    : { plateNumber, status: 'no_fee', sessionId: session.id }
+}
+
+async function burnSessionNft(session: SessionRecord): Promise<void> {
+  if (!isHederaEnabled() || !session.tokenId) return
+  try {
+    const burn = await endParkingSessionOnHedera(session.tokenId)
+    await recordNftBurn(session.id, session.tokenId, burn)
+  } catch (error) {
+    console.error(`Hedera NFT burn failed for offline exit session=${session.id}:`, error)
+  }
+}
+
+/**
+ * Attach the plate's outstanding debts in this lot and its currency to the session charged at
+ * exit. The exit adds `totalMinor` to the fee; the debts are collected when the session settles.
+ */
+export async function attachDebtsToExit(
+  session: SessionRecord,
+  currency: string,
+): Promise<{ debts: PlateDebtRecord[]; totalMinor: bigint }> {
+  const debts = await db.attachOutstandingDebts(
+    session.plateNumber,
+    session.lotId,
+    currency,
+    session.id,
+  )
+  const totalMinor = debts.reduce((sum, debt) => sum + BigInt(debt.amountMinor), 0n)
+  return { debts, totalMinor }
+}
+
+/** What the driver sees about a debt of their plate. */
+export function toPlateDebt(debt: PlateDebtRecord): PlateDebt {
+  return {
+    id: debt.id,
+    plateNumber: debt.plateNumber,
+    lotId: debt.lotId,
+    sessionId: debt.sessionId,
+    amountMinor: debt.amountMinor,
+    currency: debt.currency,
+    status: debt.status,
+    entryTime: debt.entryTime,
+    exitTime: debt.exitTime,
+    createdAt: debt.createdAt,
+    collectedAt: debt.collectedAt,
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Disputes of session charges.
+ *
+ * The driver whose wallet registered the session's plate opens a dispute. Its evidence bundle
+ * (services/evidence.ts) is collected right away and can be collected again until the dispute
+ * is resolved. An operator then resolves it:
+ * - for the driver: optionally with a refund of the settlement (services/refunds.ts), which
+ *   still goes through refund approval
+ * - for the operator: the charge stands
+ *
+ * Each step is recorded in policy_events and shows on the session timeline.
+ */
+
+import type { SessionRecord } from '@parker/core'
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import { db } from '../db'
+import type { DisputeRecord, RefundRecord } from '../db/queries'
+import { buildEvidenceBundle, hashEvidence } from './evidence'
+import { requestRefund } from './refunds'
+
+type DisputeErrorCode =
+  | 'NOT_FOUND'
+  | 'SESSION_NOT_FOUND'
+  | 'NOT_SESSION_DRIVER'
+  | 'ALREADY_OPEN'
+  | 'ALREADY_RESOLVED'
+  | 'REFUND_NOT_ALLOWED'
+
+export class DisputeError extends Error {
+  code: DisputeErrorCode
+
+  constructor(code: DisputeErrorCode, message: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+export interface ResolveDisputeRequest {
+  outcome: 'driver' | 'operator'
+  note: string
+  operator: { id: string; wallet?: string }
+  /** Request a refund of the settlement (driver outcome only); amount defaults to all of it */
+  refund?: { amount?: bigint }
+}
+
+export interface ResolvedDispute {
+  dispute: DisputeRecord
+  refund?: RefundRecord
+}
+
+const RESOLVED = new Set<DisputeRecord['status']>(['resolved_driver', 'resolved_operator'])
+
+async function recordDisputeEvent(
+  eventType: string,
+  dispute: DisputeRecord,
+  payload: Record<string, unknown>,
+) {
+  await db.insertPolicyEvent({
+    eventType,
+    payload: { disputeId: dispute.id, ...payload },
+    sessionId: dispute.sessionId,
+  })
+}
+
+/** The session, if `wallet` is the driver registered for its plate. */
+async function getDriverSession(sessionId: string, wallet: string): Promise<SessionRecord> {
+  const session = await db.getSession(sessionId)
+  if (!session) throw new DisputeError('SESSION_NOT_FOUND', 'Session not found')
+  const driver = await db.getDriverByPlate(session.plateNumber)
+  if (!driver || driver.wallet.toLowerCase() !== wallet.toLowerCase()) {
+    throw new DisputeError('NOT_SESSION_DRIVER', 'Only the driver of this session can do this')
+  }
+  return session
+}
+
+/** Open a dispute for the session's driver and collect its evidence. */
+export async function openDispute(input: {
+  sessionId: string
+  wallet: string
+  reason: string
+}): Promise<DisputeRecord> {
+  await getDriverSession(input.sessionId, input.wallet)
+  const dispute = await db.createDispute({
+    sessionId: input.sessionId,
+    openedBy: input.wallet,
+    reason: input.reason,
+  })
+  if (!dispute) {
+    throw new DisputeError('ALREADY_OPEN', 'This session already has an open dispute')
+  }
+  await recordDisputeEvent(LIFECYCLE_EVENT.DISPUTE_OPENED, dispute, {
+    reason: dispute.reason,
+    openedBy: dispute.openedBy,
+  })
+  return collectDisputeEvidence(dispute.id)
+}
+
+/** Disputes of a session, as seen by its driver. */
+export async function listDriverDisputes(
+  sessionId: string,
+  wallet: string,
+): Promise<DisputeRecord[]> {
+  await getDriverSession(sessionId, wallet)
+  return db.listDisputes({ sessionId })
+}
+
+/** Build the evidence bundle of an unresolved dispute and store it with its hash. */
+export async function collectDisputeEvidence(disputeId: string): Promise<DisputeRecord> {
+  const dispute = await db.getDispute(disputeId)
+  if (!dispute) throw new DisputeError('NOT_FOUND', 'Dispute not found')
+  if (RESOLVED.has(dispute.status)) {
+    throw new DisputeError('ALREADY_RESOLVED', 'Dispute is already resolved')
+  }
+  const bundle = await buildEvidenceBundle(dispute.sessionId)
+  if (!bundle) throw new DisputeError('SESSION_NOT_FOUND', 'Session not found')
+
+  const evidenceHash = hashEvidence(bundle)
+  const stored = await db.storeDisputeEvidence(dispute.id, bundle, evidenceHash)
+  if (!stored) throw new DisputeError('ALREADY_RESOLVED', 'Dispute is already resolved')
+  await recordDisputeEvent(LIFECYCLE_EVENT.DISPUTE_EVIDENCE_COLLECTED, stored, { evidenceHash })
+  return stored
+}
+
+/**
+ * Resolve a dispute. A refund is requested before the dispute is resolved, with the
+ * idempotency key `dispute:<id>`, so a retried resolution does not request a second one.
+ */
+export async function resolveDispute(
+  disputeId: string,
+  input: ResolveDisputeRequest,
+): Promise<ResolvedDispute> {
+  const dispute = await db.getDispute(disputeId)
+  if (!dispute) throw new DisputeError('NOT_FOUND', 'Dispute not found')
+  if (RESOLVED.has(dispute.status)) {
+    throw new DisputeError('ALREADY_RESOLVED', 'Dispute is already resolved')
+  }
+  if (input.refund && input.outcome !== 'driver') {
+    throw new DisputeError(
+      'REFUND_NOT_ALLOWED',
+      'Only disputes resolved for the driver can be refunded',
+    )
+  }
+
+  const refund = input.refund
+    ? (
+        await requestRefund({
+          sessionId: dispute.sessionId,
+          amount: input.refund.amount,
+          note: input.note,
+          operator: input.operator,
+          idempotencyKey: `dispute:${dispute.id}`,
+        })
+      ).refund
+    : undefined
+
+  const resolved = await db.resolveDispute(dispute.id, {
+    status: input.outcome === 'driver' ? 'resolved_driver' : 'resolved_operator',
+    note: input.note,
+    resolvedBy: input.operator,
+    refundId: refund?.id,
+  })
+  if (!resolved) throw new DisputeError('ALREADY_RESOLVED', 'Dispute is already resolved')
+
+  await recordDisputeEvent(LIFECYCLE_EVENT.DISPUTE_RESOLVED, resolved, {
+    outcome: input.outcome,
+    note: input.note,
+    operator: input.operator,
+    ...(refund && { refundId: refund.id }),
+  })
+  return { dispute: resolved, refund }
+}
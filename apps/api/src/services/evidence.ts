@@ -0,0 +1,201 @@
+/**
+ * Session evidence: what is recorded while a session runs, and the bundle assembled from it
+ * when a charge is disputed.
+ *
+ * Recorded as policy events (and shown on the session timeline):
+ * - SESSION_CREATED carries the NFT serial and mint tx (gate entry)
+ * - SESSION_NFT_BURNED: serial and burn tx, wherever the NFT is burned
+ * - ALPR_READ: plate reads from gate images, at entry and exit
+ *
+ * The bundle gathers the timeline, the signed authorizations, settlements, refunds, the NFT and
+ * the ALPR reads of one session. Its hash is the sha256 of its canonical JSON, so a stored
+ * bundle can be checked later.
+ */
+
+import { createHash } from 'node:crypto'
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import { db } from '../db'
+import type { PolicyEventRecord } from '../db/queries'
+import { isHederaEnabled, isNftActiveOnHedera } from './hedera'
+
+export const EVIDENCE_BUNDLE_VERSION = 1
+
+type AlprRead = { raw: string; confidence: number }
+
+/** Record an NFT burn. Never throws: the burn already happened on Hedera. */
+export async function recordNftBurn(
+  sessionId: string,
+  serial: number,
+  burn: { txHash: string },
+): Promise<void> {
+  try {
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.SESSION_NFT_BURNED,
+      payload: { serial, txHash: burn.txHash },
+      sessionId,
+    })
+  } catch (error) {
+    console.error(`Failed to record NFT burn for session=${sessionId}:`, error)
+  }
+}
+
+/** Record a plate read from a gate image. Never throws: the read must not block the gate. */
+export async function recordAlprRead(
+  sessionId: string,
+  stage: 'entry' | 'exit',
+  plate: string,
+  read: AlprRead,
+): Promise<void> {
+  try {
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.ALPR_READ,
+      payload: { stage, plate, raw: read.raw, confidence: read.confidence },
+      sessionId,
+    })
+  } catch (error) {
+    console.error(`Failed to record ALPR read for session=${sessionId}:`, error)
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (Array.isArray(value)) return `[${value.map((v) => canonicalJson(v)).join(',')}]`
+  const obj = value as Record<string, unknown>
+  const keys = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined)
+    .sort()
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`
+}
+
+/** sha256 (hex) of the canonical JSON of a bundle as it is stored. */
+export function hashEvidence(bundle: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(canonicalJson(JSON.parse(JSON.stringify(bundle))))
+    .digest('hex')
+}
+
+const EVIDENCE_EVENTS = [
+  LIFECYCLE_EVENT.SESSION_CREATED,
+  LIFECYCLE_EVENT.SESSION_NFT_BURNED,
+  LIFECYCLE_EVENT.ALPR_READ,
+  LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+  LIFECYCLE_EVENT.SETTLEMENT_REJECTED,
+  LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+]
+
+function settlementEvidence(event: PolicyEventRecord) {
+  const settlement = (event.payload.settlement ?? event.payload) as Record<string, unknown>
+  return {
+    eventType: event.eventType,
+    recordedAt: event.createdAt,
+    txHash: event.txHash,
+    decisionId: event.decisionId,
+    rail: settlement.rail,
+    amount: settlement.amount,
+    asset: settlement.asset,
+    payer: settlement.payer,
+    ...(event.eventType !== LIFECYCLE_EVENT.SETTLEMENT_VERIFIED && {
+      reason: event.payload.reason,
+    }),
+  }
+}
+
+async function nftOnHedera(serial: number): Promise<boolean | null> {
+  if (!isHederaEnabled()) return null
+  try {
+    return await isNftActiveOnHedera(serial)
+  } catch (error) {
+    console.error(`Failed to read NFT serial=${serial} from Hedera:`, error)
+    return null
+  }
+}
+
+/** Assemble the evidence bundle of a session. Null when the session does not exist. */
+export async function buildEvidenceBundle(
+  sessionId: string,
+): Promise<Record<string, unknown> | null> {
+  const record = await db.getSessionDebugRecord(sessionId)
+  if (!record) return null
+
+  const [timeline, events, refunds] = await Promise.all([
+    db.getSessionTimeline(sessionId, 1000),
+    db.getSessionPolicyEvents(sessionId, EVIDENCE_EVENTS),
+    db.listRefunds({ sessionId }),
+  ])
+  const ofType = (eventType: string) => events.filter((event) => event.eventType === eventType)
+
+  const { session, decision } = record
+  const created = ofType(LIFECYCLE_EVENT.SESSION_CREATED)[0]
+  const burned = ofType(LIFECYCLE_EVENT.SESSION_NFT_BURNED).at(-1)
+  const serial = session.tokenId ?? (burned?.payload.serial as number | undefined)
+
+  return {
+    bundleVersion: EVIDENCE_BUNDLE_VERSION,
+    generatedAt: new Date().toISOString(),
+    session: {
+      id: session.id,
+      plateNumber: session.plateNumber,
+      lotId: session.lotId,
+      status: session.status,
+      entryTime: session.entryTime,
+      exitTime: session.exitTime,
+      feeAmount: session.feeAmount,
+      feeCurrency: session.feeCurrency,
+      comp: session.comp,
+    },
+    timeline: timeline.map((event) => ({
+      eventType: event.eventType,
+      createdAt: event.timestamp,
+      metadata: event.metadata ?? {},
+    })),
+    authorization: {
+      policyHash: decision?.policyHash ?? session.policyHash,
+      decision: decision && {
+        decisionId: decision.decisionId,
+        action: decision.action,
+        rail: decision.chosenRail,
+        asset: decision.chosenAsset,
+        quoteMinor: decision.quoteMinor,
+        quoteCurrency: decision.quoteCurrency,
+        expiresAt: decision.expiresAt,
+      },
+      signedPaymentAuthorization: record.signedAuthorization,
+      sessionBudgetAuthorization: record.budget,
+    },
+    settlements: events
+      .filter(
+        (event) =>
+          event.eventType === LIFECYCLE_EVENT.SETTLEMENT_VERIFIED ||
+          event.eventType === LIFECYCLE_EVENT.SETTLEMENT_REJECTED ||
+          event.eventType === LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+      )
+      .map(settlementEvidence),
+    refunds: refunds.map((refund) => ({
+      id: refund.id,
+      status: refund.status,
+      rail: refund.rail,
+      amount: refund.amount,
+      settlementTxHash: refund.settlementTxHash,
+      railReference: refund.railReference,
+    })),
+    nft:
+      serial == null
+        ? null
+        : {
+            serial,
+            mintTxHash: created?.payload.mintTxHash ?? null,
+            mintedAt: created?.createdAt ?? null,
+            burnTxHash: burned?.payload.txHash ?? null,
+            burnedAt: burned?.createdAt ?? null,
+            activeOnHedera: await nftOnHedera(serial),
+          },
+    alprReads: ofType(LIFECYCLE_EVENT.ALPR_READ).map((event) => ({
+      stage: event.payload.stage,
+      plate: event.payload.plate,
+      raw: event.payload.raw,
+      confidence: event.payload.confidence,
+      readAt: event.createdAt,
+    })),
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Expiry sweeper.
+ *
+ * Decisions, grants, XRPL intents and approval requests carry an expires_at but were only
+ * expired lazily, when something touched them. The sweeper runs on an interval in every API
+ * instance; a Postgres advisory lock elects the instance that sweeps on each tick.
+ *
+ * Per tick (batches of SWEEP_BATCH_SIZE, oldest first):
+ * 1. Approval requests past their deadline → expired; their decision expires with
+ *    reason 'approval_timeout' (same as a late answer)
+ * 2. Decisions (created / approved) → expired, PAYMENT_DECISION_EXPIRED
+ * 3. Grants (active) → expired, POLICY_GRANT_EXPIRED
+ * 4. XRPL intents (pending) → expired, PAYMENT_INTENT_EXPIRED
+ *
+ * Gate and driver are notified only for sessions that are still open.
+ */
+
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import { db } from '../db'
+import type { ExpiredRecord } from '../db/queries'
+import { notifyGate, notifyDriver } from '../ws/index'
+import { expireApprovalDecision } from './approvals'
+import { logger } from './observability'
+
+/** pg advisory lock key held by the sweeping instance ('PRKX'). */
+export const EXPIRY_SWEEP_LOCK_KEY = 0x50524b58
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000
+const SWEEP_BATCH_SIZE = 200
+
+export interface ExpirySweepResult {
+  approvalRequests: number
+  decisions: number
+  grants: number
+  xrplIntents: number
+}
+
+function notifySession(record: ExpiredRecord, event: Record<string, unknown>) {
+  if (!record.sessionOpen) return
+  if (record.lotId) notifyGate(record.lotId, event)
+  if (record.plateNumber) notifyDriver(record.plateNumber, event)
+}
+
+async function sweepExpired(batchSize: number): Promise<ExpirySweepResult> {
+  const approvalRequests = await db.expireApprovalRequests(batchSize)
+  for (const request of approvalRequests) {
+    try {
+      await expireApprovalDecision(request)
+      const event = {
+        type: 'approval_resolved',
+        requestId: request.id,
+        sessionId: request.sessionId,
+        decisionId: request.decisionId,
+        plateNumber: request.plateNumber,
+        status: 'expired',
+      }
+      notifyGate(request.lotId, event)
+      notifyDriver(request.plateNumber, event)
+    } catch (error) {
+      logger.warn('expiry_sweep_item_failed', { kind: 'approval_request', id: request.id }, error)
+    }
+  }
+
+  const decisions = await db.expirePolicyDecisions(batchSize)
+  for (const decision of decisions) {
+    try {
+      if (decision.sessionId) {
+        await db.insertPolicyEvent({
+          eventType: LIFECYCLE_EVENT.PAYMENT_DECISION_EXPIRED,
+          payload: { reason: 'ttl', expiresAt: decision.expiresAt },
+          sessionId: decision.sessionId,
+          decisionId: decision.id,
+        })
+      }
+      notifySession(decision, {
+        type: 'decision_expired',
+        decisionId: decision.id,
+        sessionId: decision.sessionId,
+        plateNumber: decision.plateNumber,
+      })
+    } catch (error) {
+      logger.warn('expiry_sweep_item_failed', { kind: 'decision', id: decision.id }, error)
+    }
+  }
+
+  const grants = await db.expirePolicyGrants(batchSize)
+  for (const grant of grants) {
+    try {
+      await db.insertPolicyEvent({
+        eventType: LIFECYCLE_EVENT.POLICY_GRANT_EXPIRED,
+        payload: { reason: 'ttl', grantId: grant.id, expiresAt: grant.expiresAt },
+        sessionId: grant.sessionId,
+      })
+      notifySession(grant, {
+        type: 'grant_expired',
+        grantId: grant.id,
+        sessionId: grant.sessionId,
+        plateNumber: grant.plateNumber,
+      })
+    } catch (error) {
+      logger.warn('expiry_sweep_item_failed', { kind: 'grant', id: grant.id }, error)
+    }
+  }
+
+  const xrplIntents = await db.expireXrplIntents(batchSize)
+  for (const intent of xrplIntents) {
+    try {
+      await db.insertPolicyEvent({
+        eventType: LIFECYCLE_EVENT.PAYMENT_INTENT_EXPIRED,
+        payload: { reason: 'ttl', rail: 'xrpl', expiresAt: intent.expiresAt },
+        paymentId: intent.id,
+        sessionId: intent.sessionId,
+        decisionId: intent.decisionId,
+      })
+      notifySession(intent, {
+        type: 'payment_intent_expired',
+        paymentId: intent.id,
+        sessionId: intent.sessionId,
+        plateNumber: intent.plateNumber,
+      })
+    } catch (error) {
+      logger.warn('expiry_sweep_item_failed', { kind: 'xrpl_intent', id: intent.id }, error)
+    }
+  }
+
+  return {
+    approvalRequests: approvalRequests.length,
+    decisions: decisions.length,
+    grants: grants.length,
+    xrplIntents: xrplIntents.length,
+  }
+}
+
+/**
+ * Run one sweep if this instance wins the advisory lock. Returns null when another instance
+ * holds it.
+ */
+export async function runExpirySweep(
+  batchSize = SWEEP_BATCH_SIZE,
+): Promise<ExpirySweepResult | null> {
+  return db.withAdvisoryLock(EXPIRY_SWEEP_LOCK_KEY, () => sweepExpired(batchSize))
+}
+
+/**
+ * Start the sweeper (EXPIRY_SWEEP_INTERVAL_MS, default 60s; 0 disables it).
+ * Returns a function that stops it.
+ */
+export function startExpirySweeper(
+  intervalMs = Number(process.env.EXPIRY_SWEEP_INTERVAL_MS ?? DEFAULT_SWEEP_INTERVAL_MS),
+): () => void {
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    logger.info('expiry_sweeper_started', { enabled: false })
+    return () => {}
+  }
+
+  let running = false
+  const timer = setInterval(async () => {
+    // Skip the tick while a long sweep is still running
+    if (running) return
+    running = true
+    try {
+      const result = await runExpirySweep()
+      if (result && Object.values(result).some((count) => count > 0)) {
+        logger.info('expiry_sweep_completed', {
+          approval_requests: result.approvalRequests,
+          decisions: result.decisions,
+          grants: result.grants,
+          xrpl_intents: result.xrplIntents,
+        })
+      }
+    } catch (error) {
+      logger.error('expiry_sweep_failed', {}, error)
+    } finally {
+      running = false
+    }
+  }, intervalMs)
+  timer.unref?.()
+
+  logger.info('expiry_sweeper_started', { enabled: true, interval_ms: intervalMs })
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,212 @@
+/**
+ * Pluggable FX rate providers.
+ *
+ * The pricing service asks `fxService` for a rate; the service serves cached rates
+ * within a TTL, refuses rates older than the staleness limit, and falls back to the
+ * static FX_RATE_{FROM}_{TO} env rates when the configured provider can't answer.
+ *
+ * Configuration:
+ *   FX_PROVIDER=env|json          (default env)
+ *   FX_SOURCE=<file path or URL>  JSON rate document for the json provider
+ *   FX_CACHE_TTL_SECONDS=60       how long a fetched rate is reused
+ *   FX_MAX_STALENESS_SECONDS=900  oldest `asOf` accepted from any provider
+ *   FX_FETCH_TIMEOUT_MS=3000      how long the json provider waits for an HTTP source
+ */
+
+import { readFile } from 'node:fs/promises'
+
+export interface FxRate {
+  /** Units of `to` per 1 unit of `from` */
+  rate: number
+  /** When the provider observed the rate */
+  asOf: Date
+  /** Provider name recorded in the FxSnapshot */
+  provider: string
+}
+
+export interface FxProvider {
+  readonly name: string
+  /** Resolve a rate, or null if the provider has no rate for this pair. */
+  getRate(from: string, to: string): Promise<FxRate | null>
+}
+
+export class FxUnavailableError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    detail: string,
+  ) {
+    super(`No FX rate available for ${from} → ${to}: ${detail}`)
+    this.name = 'FxUnavailableError'
+  }
+}
+
+function parsePositiveRate(value: unknown): number | null {
+  const rate = typeof value === 'number' ? value : parseFloat(String(value))
+  return Number.isFinite(rate) && rate > 0 ? rate : null
+}
+
+// ---- Providers ----
+
+/**
+ * Static rates from env vars: FX_RATE_{FROM}_{TO}, with the inverse pair as fallback.
+ * Env rates have no observation time, so asOf is "now".
+ */
+export class EnvFxProvider implements FxProvider {
+  readonly name = 'env'
+
+  async getRate(from: string, to: string): Promise<FxRate | null> {
+    const direct = parsePositiveRate(process.env[`FX_RATE_${from}_${to}`])
+    if (direct !== null) return { rate: direct, asOf: new Date(), provider: this.name }
+
+    const inverse = parsePositiveRate(process.env[`FX_RATE_${to}_${from}`])
+    if (inverse !== null) return { rate: 1 / inverse, asOf: new Date(), provider: this.name }
+
+    return null
+  }
+}
+
+/**
+ * Rate document:
+ *   { "asOf": "2025-03-05T10:00:00Z", "rates": { "EUR_USD": 1.08, "GBP_USD": 1.27 } }
+ */
+interface FxRateDocument {
+  asOf?: string
+  rates?: Record<string, number | string>
+}
+
+/**
+ * Reads rates from a JSON document on disk or over HTTP(S).
+ * Stand-in for a live feed in local development and tests. HTTP fetches are aborted after
+ * `timeoutMs`, so FxService answers from its cache or fallback instead of holding the exit.
+ */
+export class JsonFxProvider implements FxProvider {
+  readonly name: string
+
+  constructor(
+    private readonly source: string,
+    private readonly timeoutMs = 3000,
+  ) {
+    this.name = /^https?:\/\//.test(source) ? 'http' : 'file'
+  }
+
+  private async load(): Promise<FxRateDocument> {
+    if (this.name === 'http') {
+      const res = await fetch(this.source, { signal: AbortSignal.timeout(this.timeoutMs) })
+      if (!res.ok) throw new Error(`FX source fetch failed (${res.status})`)
+      return (await res.json()) as FxRateDocument
+    }
+    return JSON.parse(await readFile(this.source, 'utf8')) as FxRateDocument
+  }
+
+  async getRate(from: string, to: string): Promise<FxRate | null> {
+    const doc = await this.load()
+    const asOf = doc.asOf ? new Date(doc.asOf) : new Date()
+    if (isNaN(asOf.getTime())) throw new Error('FX source has an invalid asOf')
+
+    const direct = parsePositiveRate(doc.rates?.[`${from}_${to}`])
+    if (direct !== null) return { rate: direct, asOf, provider: this.name }
+
+    const inverse = parsePositiveRate(doc.rates?.[`${to}_${from}`])
+    if (inverse !== null) return { rate: 1 / inverse, asOf, provider: this.name }
+
+    return null
+  }
+}
+
+// ---- Caching service ----
+
+export interface FxServiceOptions {
+  ttlMs: number
+  maxStalenessMs: number
+  /** Used when the primary provider fails, has no rate, or returns a stale rate */
+  fallback?: FxProvider
+  now?: () => number
+}
+
+export class FxService {
+  private readonly cache = new Map<string, { value: FxRate; fetchedAt: number }>()
+
+  constructor(
+    private readonly provider: FxProvider,
+    private readonly options: FxServiceOptions,
+  ) {}
+
+  /**
+   * Resolve a rate for `from` → `to` (ISO 4217 codes).
+   * Order: fresh cache → primary provider → last cached value (if not stale) → fallback.
+   * Throws FxUnavailableError when nothing usable is available.
+   */
+  async getRate(from: string, to: string): Promise<FxRate> {
+    const fromUpper = from.toUpperCase()
+    const toUpper = to.toUpperCase()
+    const now = this.options.now?.() ?? Date.now()
+
+    if (fromUpper === toUpper) return { rate: 1, asOf: new Date(now), provider: 'identity' }
+
+    const key = `${fromUpper}_${toUpper}`
+    const cached = this.cache.get(key)
+    if (cached && now - cached.fetchedAt < this.options.ttlMs && !this.isStale(cached.value, now)) {
+      return cached.value
+    }
+
+    let failure = 'no rate from provider'
+    try {
+      const fresh = await this.provider.getRate(fromUpper, toUpper)
+      if (fresh && !this.isStale(fresh, now)) {
+        this.cache.set(key, { value: fresh, fetchedAt: now })
+        return fresh
+      }
+      if (fresh) failure = `rate from ${fresh.provider} is stale (asOf ${fresh.asOf.toISOString()})`
+    } catch (err) {
+      failure = (err as Error).message
+    }
+
+    if (cached && !this.isStale(cached.value, now)) return cached.value
+
+    if (this.options.fallback && this.options.fallback !== this.provider) {
+      const fallback = await this.options.fallback.getRate(fromUpper, toUpper).catch(() => null)
+      if (fallback && !this.isStale(fallback, now)) return fallback
+    }
+
+    throw new FxUnavailableError(fromUpper, toUpper, failure)
+  }
+
+  clearCache(): void {
+    this.cache.clear()
+  }
+
+  private isStale(rate: FxRate, now: number): boolean {
+    return now - rate.asOf.getTime() > this.options.maxStalenessMs
+  }
+}
+
+function intFromEnv(key: string, fallback: number): number {
+  const value = parseInt(process.env[key] || '', 10)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+export function createFxServiceFromEnv(): FxService {
+  const envProvider = new EnvFxProvider()
+  const providerName = (process.env.FX_PROVIDER || 'env').toLowerCase()
+  const source = process.env.FX_SOURCE
+
+  let provider: FxProvider = envProvider
+  if (providerName === 'json') {
+    if (source) {
+      provider = new JsonFxProvider(source, intFromEnv('FX_FETCH_TIMEOUT_MS', 3000))
+    } else {
+      console.warn('[fx] FX_PROVIDER=json but FX_SOURCE is not set — using env rates')
+    }
+  } else if (providerName !== 'env') {
+    console.warn(`[fx] Unknown FX_PROVIDER "${providerName}" — using env rates`)
+  }
+
+  return new FxService(provider, {
+    ttlMs: intFromEnv('FX_CACHE_TTL_SECONDS', 60) * 1000,
+    maxStalenessMs: intFromEnv('FX_MAX_STALENESS_SECONDS', 900) * 1000,
+    fallback: envProvider,
+  })
+}
+
+export const fxService = createFxServiceFromEnv()
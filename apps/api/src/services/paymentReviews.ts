@@ -0,0 +1,234 @@
+/**
+ * Payment review queue (paid but not closable).
+ *
+ * A settlement can be verified on its rail and still fail enforceOrReject (cap mismatch, policy
+ * hash mismatch, ...), which leaves the session in payment_failed with the money received.
+ * Every POLICY_ENFORCEMENT_FAILED opens a review with the settlement evidence
+ * (db.insertPolicyEvent). An operator then:
+ * - accepts the payment: the session closes with the decision's price as its fee
+ * - requests a refund: a refund of the settlement is requested (services/refunds.ts); the
+ *   session stays open and still owes its fee
+ * - requests a top-up: the payment is credited to the session (as a comp) so the next exit
+ *   charges only what is still owed
+ */
+
+import type { SessionPaymentReview, SessionRecord } from '@parker/core'
+import { LIFECYCLE_EVENT, calculateTariffFee, minorToNumber } from '@parker/core'
+
+import { db } from '../db'
+import type { PaymentReviewRecord, RefundRecord, ResolvePaymentReviewInput } from '../db/queries'
+import { requestRefund } from './refunds'
+import { sessionLifecycleService } from './sessionLifecycle'
+
+type PaymentReviewErrorCode =
+  | 'NOT_FOUND'
+  | 'ALREADY_RESOLVED'
+  | 'SESSION_NOT_OPEN'
+  | 'INVALID_TOP_UP'
+
+export class PaymentReviewError extends Error {
+  code: PaymentReviewErrorCode
+
+  constructor(code: PaymentReviewErrorCode, message: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+interface ResolveReviewInput {
+  note: string
+  operator: { id: string; wallet?: string }
+}
+
+export interface ResolvedReview {
+  review: PaymentReviewRecord
+  session: SessionRecord | null
+  refund?: RefundRecord
+}
+
+const OPEN_SESSION_STATES = new Set<SessionRecord['status']>([
+  'active',
+  'payment_required',
+  'approval_required',
+  'payment_failed',
+  'payment_verified',
+])
+
+/** Driver-facing view of a review: no evidence, operator or internal notes. */
+export function toSessionPaymentReview(review: PaymentReviewRecord): SessionPaymentReview {
+  return {
+    status: review.status,
+    reason: review.reason,
+    createdAt: review.createdAt,
+    ...(review.resolvedAt && { resolvedAt: review.resolvedAt }),
+    ...(review.topUpMinor && {
+      topUpMinor: review.topUpMinor,
+      topUpCurrency: review.topUpCurrency,
+    }),
+  }
+}
+
+async function loadOpenReview(reviewId: string) {
+  const review = await db.getPaymentReview(reviewId)
+  if (!review) throw new PaymentReviewError('NOT_FOUND', 'Payment review not found')
+  if (review.status !== 'open') {
+    throw new PaymentReviewError('ALREADY_RESOLVED', `Payment review is ${review.status}`)
+  }
+  const session = await db.getSession(review.sessionId)
+  return { review, session }
+}
+
+function assertSessionOpen(
+  session: SessionRecord | null,
+  action: string,
+): asserts session is SessionRecord {
+  if (!session || !OPEN_SESSION_STATES.has(session.status)) {
+    throw new PaymentReviewError(
+      'SESSION_NOT_OPEN',
+      `Cannot ${action}: session is ${session?.status ?? 'missing'}`,
+    )
+  }
+}
+
+async function resolve(
+  review: PaymentReviewRecord,
+  input: ResolveReviewInput,
+  resolution: Omit<ResolvePaymentReviewInput, 'note' | 'resolvedBy'>,
+  extra: Record<string, unknown> = {},
+): Promise<PaymentReviewRecord> {
+  const resolved = await db.resolvePaymentReview(review.id, {
+    ...resolution,
+    note: input.note,
+    resolvedBy: input.operator,
+  })
+  if (!resolved) {
+    throw new PaymentReviewError('ALREADY_RESOLVED', 'Payment review was resolved concurrently')
+  }
+  await db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.PAYMENT_REVIEW_RESOLVED,
+    payload: {
+      reviewId: review.id,
+      status: resolution.status,
+      note: input.note,
+      operator: input.operator,
+      reason: review.reason,
+      ...extra,
+    },
+    sessionId: review.sessionId,
+    decisionId: review.decisionId,
+    txHash: review.txHash,
+  })
+  return resolved
+}
+
+/** Decision price in fiat (what the driver was asked to pay), if the decision recorded it. */
+async function decisionPrice(decisionId: string | undefined) {
+  if (!decisionId) return null
+  const payload = (await db.getDecisionPayloadByDecisionId(decisionId)) as {
+    priceFiat?: { amountMinor?: string; currency?: string }
+  } | null
+  const price = payload?.priceFiat
+  if (!price?.amountMinor || !price.currency) return null
+  return {
+    feeAmount: minorToNumber(BigInt(price.amountMinor), price.currency),
+    feeCurrency: price.currency,
+  }
+}
+
+/**
+ * Accept the payment and close the session. The session is closed first so a concurrent
+ * accept fails on the session state machine instead of closing twice.
+ */
+export async function acceptReviewedPayment(
+  reviewId: string,
+  input: ResolveReviewInput,
+): Promise<ResolvedReview> {
+  const { review, session } = await loadOpenReview(reviewId)
+  assertSessionOpen(session, 'accept payment')
+
+  const price = await decisionPrice(review.decisionId)
+  const closed = await sessionLifecycleService.acceptReviewedPayment(session, {
+    reviewId: review.id,
+    operator: input.operator,
+    decisionId: review.decisionId,
+    txHash: review.txHash,
+    rail: review.rail,
+    ...price,
+  })
+  if (!closed) {
+    throw new PaymentReviewError('SESSION_NOT_OPEN', 'Session changed concurrently; retry')
+  }
+  const resolved = await resolve(review, input, { status: 'accepted' }, { ...price })
+  return { review: resolved, session: closed }
+}
+
+/**
+ * Request a refund of the full settlement, then mark the review. The refund is keyed on the
+ * review, so a retry after a failed resolve does not request it twice. The session stays open
+ * and still owes its fee.
+ */
+export async function requestReviewRefund(
+  reviewId: string,
+  input: ResolveReviewInput,
+): Promise<ResolvedReview> {
+  const { review, session } = await loadOpenReview(reviewId)
+  const { refund } = await requestRefund({
+    sessionId: review.sessionId,
+    txHash: review.txHash,
+    note: input.note,
+    operator: input.operator,
+    idempotencyKey: `review:${review.id}`,
+    reviewId: review.id,
+  })
+  const resolved = await resolve(
+    review,
+    input,
+    { status: 'refund_requested' },
+    { amount: review.amount, rail: review.rail, refundId: refund.id },
+  )
+  return { review: resolved, session, refund }
+}
+
+/**
+ * Ask the driver to top up: `amountMinor` (lot currency) is what they still owe. The rest of
+ * the current fee is credited as a fixed comp, replacing any earlier comp, so the next exit
+ * charges the top-up (plus any time parked since).
+ */
+export async function requestReviewTopUp(
+  reviewId: string,
+  input: ResolveReviewInput & { amountMinor: bigint },
+): Promise<ResolvedReview> {
+  const { review, session } = await loadOpenReview(reviewId)
+  assertSessionOpen(session, 'request a top-up')
+  if (session.status === 'payment_verified') {
+    throw new PaymentReviewError('SESSION_NOT_OPEN', 'Cannot request a top-up: session is paid')
+  }
+
+  const lot = await db.getLot(session.lotId)
+  if (!lot) throw new PaymentReviewError('NOT_FOUND', 'Lot not found')
+  const currency = lot.currency || 'USD'
+  const feeMinor = BigInt(calculateTariffFee(new Date(session.entryTime), new Date(), lot).feeMinor)
+  if (input.amountMinor <= 0n || input.amountMinor >= feeMinor) {
+    throw new PaymentReviewError(
+      'INVALID_TOP_UP',
+      `Top-up must be more than 0 and less than the current fee (${minorToNumber(feeMinor, currency)} ${currency})`,
+    )
+  }
+
+  const credit = { amountMinor: (feeMinor - input.amountMinor).toString() }
+  const credited = await db.setSessionComp(session.id, credit)
+  if (!credited) {
+    throw new PaymentReviewError('SESSION_NOT_OPEN', 'Session changed concurrently; retry')
+  }
+  const resolved = await resolve(
+    review,
+    input,
+    {
+      status: 'top_up_requested',
+      topUpMinor: input.amountMinor.toString(),
+      topUpCurrency: currency,
+    },
+    { credit, previousComp: session.comp ?? null },
+  )
+  return { review: resolved, session: credited }
+}
@@ -1,31 +1,52 @@
 /**
  * On-chain payment watcher.
  *
- * Watches for USDC Transfer events on Base Sepolia to auto-settle parking
- * sessions when drivers pay via EIP-681 QR codes (scanned with any wallet).
+ * Watches ERC-20 Transfer events of every registry token on a chain (@parker/core
+ * evm-assets) to auto-settle parking sessions when drivers pay via EIP-681 QR codes
+ * (scanned with any wallet). Run one watcher per chain the lots accept.
  *
  * Flow:
- * 1. Gate exit registers a pending payment (expected amount + receiver)
+ * 1. Gate exit registers a pending payment (one quote per accepted chain + token)
  * 2. This watcher sees the Transfer event on-chain
- * 3. Matches it to a pending payment (receiver + amount within 1% tolerance)
- * 4. Settles the session: ends DB session, burns NFT, notifies gate + driver
+ * 3. Matches it to a pending payment (receiver + a quote for this chain and token, amount
+ *    accepted by the lot's amount stance: by default up to 1% under the quote, see
+ *    settlementAmount). Under a tolerant stance with allowPartial, a short transfer that can
+ *    only be for one payment is counted towards it (SETTLEMENT_PARTIAL)
+ * 4. Settles the session: ends DB session, burns NFT, notifies gate + driver; an over-payment
+ *    is recorded as driver credit
+ *
+ * Pending payments live in evm_pending_payments (one pending row per session), so every
+ * API instance sees the same set. Each instance watches the chain; the instance that claims
+ * a payment (pending → matched) settles it, and the others skip the transfer. Unpaid
+ * payments expire after MAX_PENDING_AGE_MS.
+ *
+ * The last scanned block is kept in evm_block_cursors; blocks after it are backfilled with
+ * getLogs on start and after subscription errors. A transfer whose handling failed is stored in
+ * evm_failed_transfers and retried every EVM_FAILED_LOG_RETRY_MS by every instance, so the shared
+ * cursor can move on. With EVM_PAYMENT_CONFIRMATIONS > 1 a claimed payment stays matched until
+ * its transfer is deep enough, then SETTLEMENT_VERIFIED; a transfer reorged out moves its payment
+ * back to pending (SETTLEMENT_REORGED).
  */
 
 import type { PublicClient, Log } from 'viem'
-import { parseAbi } from 'viem'
-import { LIFECYCLE_EVENT, USDC_ADDRESSES } from '@parker/core'
-import type { SettlementResult, Asset } from '@parker/policy-core'
+import { parseAbi, TransactionReceiptNotFoundError } from 'viem'
+import {
+  LIFECYCLE_EVENT,
+  checkSettlementAmount,
+  getEvmChain,
+  getEvmTokensForChain,
+} from '@parker/core'
+import type { EvmToken } from '@parker/core'
+import type { SettlementResult, Asset, AmountCheck } from '@parker/policy-core'
 
 import { db } from '../db'
+import type { EvmPendingPaymentRecord, EvmPendingQuote } from '../db/queries'
 import { enforceOrReject } from './policy/enforceOrReject'
 import { notifyGate, notifyDriver } from '../ws/index'
 import { isHederaEnabled, endParkingSessionOnHedera } from './hedera'
+import { recordNftBurn } from './evidence'
 import { sessionLifecycleService } from './sessionLifecycle'
-
-const CHAIN_ID_BY_NETWORK: Record<string, number> = {
-  'base-sepolia': 84532,
-  'base': 8453,
-}
+import { getAmountTolerance, recordOverpaymentCredit } from './settlementAmount'
 
 // ---- Types ----
 
@@ -47,35 +68,68 @@ export interface PendingPayment {
   rail?: string
   /** Asset as JSON string if needed (e.g. IOU/ERC20) */
   asset?: string
+  /** One quote per accepted EVM asset; a transfer of any of them pays. Unset: USDC only. */
+  quotes?: EvmPendingQuote[]
 }
 
-// ---- State ----
-
-const pendingPayments = new Map<string, PendingPayment>()
+function toPendingPayment(record: EvmPendingPaymentRecord): PendingPayment {
+  return {
+    plate: record.plateNumber,
+    lotId: record.lotId,
+    sessionId: record.sessionId,
+    expectedAmount: record.expectedAmount,
+    receiverWallet: record.receiverWallet,
+    fee: record.fee,
+    feeCurrency: record.feeCurrency,
+    tokenId: record.tokenId,
+    createdAt: new Date(record.createdAt).getTime(),
+    decisionId: record.decisionId,
+    policyHash: record.policyHash,
+    rail: record.rail,
+    asset: record.asset != null ? JSON.stringify(record.asset) : undefined,
+    quotes: record.quotes,
+  }
+}
 
 // ---- Public API ----
 
-export function addPendingPayment(pending: PendingPayment) {
-  pendingPayments.set(pending.sessionId, pending)
+/** Register (or replace) the pending payment of a session. */
+export async function addPendingPayment(pending: PendingPayment): Promise<void> {
+  await db.upsertEvmPendingPayment({
+    sessionId: pending.sessionId,
+    plateNumber: pending.plate,
+    lotId: pending.lotId,
+    expectedAmount: pending.expectedAmount,
+    receiverWallet: pending.receiverWallet,
+    fee: pending.fee,
+    feeCurrency: pending.feeCurrency,
+    tokenId: pending.tokenId,
+    decisionId: pending.decisionId,
+    policyHash: pending.policyHash,
+    rail: pending.rail,
+    asset: pending.asset ? JSON.parse(pending.asset) : undefined,
+    quotes: pending.quotes,
+    expiresAt: new Date(pending.createdAt + MAX_PENDING_AGE_MS),
+  })
   console.log(
     `[paymentWatcher] Registered pending payment: session=${pending.sessionId}, amount=${pending.expectedAmount}, receiver=${pending.receiverWallet}`,
   )
 }
 
-export function removePendingPayment(sessionId: string) {
-  const removed = pendingPayments.delete(sessionId)
+/** Cancel the pending payment of a session (paid another way, or closed). */
+export async function removePendingPayment(sessionId: string): Promise<void> {
+  const removed = await db.cancelEvmPendingPayment(sessionId)
   if (removed) {
     console.log(`[paymentWatcher] Removed pending payment: session=${sessionId}`)
   }
 }
 
-export function getPendingPaymentByPlateLot(plate: string, lotId: string): PendingPayment | null {
-  for (const pending of pendingPayments.values()) {
-    if (pending.plate === plate && pending.lotId === lotId) {
-      return pending
-    }
-  }
-  return null
+export async function getPendingPaymentByPlateLot(
+  plate: string,
+  lotId: string,
+): Promise<PendingPayment | null> {
+  const record = await db.getActiveEvmPendingPayment(plate, lotId)
+  return record ? toPendingPayment(record) : null
 }
 
 // ---- ERC-20 Transfer ABI ----
@@ -88,86 +142,470 @@ const ERC20_TRANSFER_EVENT = parseAbi([
 
 const PRUNE_INTERVAL_MS = 5 * 60_000 // 5 minutes
 const MAX_PENDING_AGE_MS = 30 * 60_000 // 30 minutes
+const PRUNE_BATCH_SIZE = 200
+
+const DEFAULT_CONFIRMATIONS = 1
+const DEFAULT_CONFIRMATION_POLL_MS = 4_000
+const DEFAULT_BACKFILL_CHUNK_BLOCKS = 2_000
+const DEFAULT_FAILED_LOG_RETRY_MS = 30_000
+const FAILED_TRANSFER_BATCH_SIZE = 50
+/** Recently handled logs per watcher; live logs and backfill can overlap */
+const SEEN_LOGS_LIMIT = 10_000
+
+/** pg advisory lock key held by the instance verifying confirmed payments ('PRKE'). */
+export const EVM_CONFIRMATION_LOCK_KEY = 0x50524b45
 
-export function startPaymentWatcher(publicClient: PublicClient | null, network = 'base-sepolia') {
+export interface PaymentWatcherOptions {
+  /**
+   * Blocks a transfer needs, counting its own, before SETTLEMENT_VERIFIED
+   * (EVM_PAYMENT_CONFIRMATIONS, default 1: verified on inclusion).
+   */
+  confirmations?: number
+  /** How often claimed payments are checked for confirmations (EVM_CONFIRMATION_POLL_MS) */
+  confirmationPollMs?: number
+  /** Blocks per getLogs call when backfilling (EVM_BACKFILL_CHUNK_BLOCKS) */
+  backfillChunkBlocks?: number
+  /** How often transfers whose handling failed are retried (EVM_FAILED_LOG_RETRY_MS) */
+  failedLogRetryMs?: number
+  /** Token symbols to watch on the chain (default: every registry token on it) */
+  tokens?: string[]
+}
+
+/** One watched token contract on one chain */
+interface WatcherContext {
+  client: PublicClient
+  token: EvmToken
+  chainId: number
+  /** evm_block_cursors key: evm:<chainId>:<token address> */
+  cursorKey: string
+  confirmations: number
+  backfillChunkBlocks: number
+  seenLogs: Set<string>
+}
+
+function positiveInt(value: number | string | undefined, fallback: number): number {
+  const n = Number(value)
+  return Number.isInteger(n) && n > 0 ? n : fallback
+}
+
+/**
+ * Start watching USDC transfers. Returns a function that stops the watcher.
+ *
+ * Blocks up to the stored cursor are backfilled with getLogs on start and after subscription
+ * errors. With more than one confirmation, a matched transfer waits in `matched` until it is
+ * deep enough; a transfer that left the chain moves its payment back to pending.
+ */
+export function startPaymentWatcher(
+  publicClient: PublicClient | null,
+  network = 'base-sepolia',
+  options: PaymentWatcherOptions = {},
+): () => void {
   if (!publicClient) {
     console.warn('[paymentWatcher] No publicClient provided — on-chain payment watching disabled')
-    return
+    return () => {}
   }
 
-  const usdcAddress = USDC_ADDRESSES[network]
-  if (!usdcAddress) {
-    console.warn(`[paymentWatcher] No USDC address for network "${network}" — watcher disabled`)
-    return
+  const chain = getEvmChain(network)
+  const tokens = chain
+    ? getEvmTokensForChain(chain.chainId).filter(
+        (t) => !options.tokens || options.tokens.some((s) => s.toUpperCase() === t.symbol),
+      )
+    : []
+  if (!chain || tokens.length === 0) {
+    console.warn(`[paymentWatcher] No tokens to watch on network "${network}" — watcher disabled`)
+    return () => {}
   }
 
-  console.log(`[paymentWatcher] Watching USDC Transfer events on ${network} (${usdcAddress})`)
+  const confirmations = positiveInt(
+    options.confirmations ?? process.env.EVM_PAYMENT_CONFIRMATIONS,
+    DEFAULT_CONFIRMATIONS,
+  )
+  const backfillChunkBlocks = positiveInt(
+    options.backfillChunkBlocks ?? process.env.EVM_BACKFILL_CHUNK_BLOCKS,
+    DEFAULT_BACKFILL_CHUNK_BLOCKS,
+  )
+  const contexts: WatcherContext[] = tokens.map((token) => ({
+    client: publicClient,
+    token,
+    chainId: chain.chainId,
+    cursorKey: `evm:${chain.chainId}:${token.address.toLowerCase()}`,
+    confirmations,
+    backfillChunkBlocks,
+    seenLogs: new Set(),
+  }))
 
-  const chainId = CHAIN_ID_BY_NETWORK[network] ?? 0
+  console.log(
+    `[paymentWatcher] Watching ${tokens.map((t) => t.symbol).join(', ')} Transfer events on ${network}, confirmations=${confirmations}`,
+  )
 
-  // Watch for Transfer events on the USDC contract
-  publicClient.watchContractEvent({
-    address: usdcAddress,
-    abi: ERC20_TRANSFER_EVENT,
-    eventName: 'Transfer',
-    onLogs: (logs) => {
-      for (const log of logs) {
-        handleTransferEvent(log, { usdcAddress, chainId })
+  // Logs, backfills and confirmation checks of the chain run one at a time, in order
+  let queue = Promise.resolve()
+  const enqueue = (label: string, task: () => Promise<void>) => {
+    queue = queue.then(task).catch((err) => {
+      console.error(`[paymentWatcher] ${label} failed:`, err)
+    })
+  }
+
+  const unwatchers = contexts.map((ctx) => {
+    // Catch up on blocks missed while the API was down
+    enqueue('Backfill', () => backfill(ctx))
+
+    // Watch for Transfer events on the token contract
+    return publicClient.watchContractEvent({
+      address: ctx.token.address,
+      abi: ERC20_TRANSFER_EVENT,
+      eventName: 'Transfer',
+      onLogs: (logs) => {
+        enqueue('Log handling', async () => {
+          await handleLogs(logs, ctx)
+        })
+      },
+      onError: (error) => {
+        console.error(
+          `[paymentWatcher] Event subscription error (${ctx.token.symbol}):`,
+          error.message,
+        )
+        // Transfers may have been missed while the subscription was down
+        enqueue('Backfill', () => backfill(ctx))
+      },
+    })
+  })
+
+  // Verify claimed payments once they have enough confirmations
+  const confirmationTimer =
+    confirmations > 1
+      ? setInterval(
+          () => enqueue('Confirmation check', () => checkConfirmations(contexts)),
+          positiveInt(
+            options.confirmationPollMs ?? process.env.EVM_CONFIRMATION_POLL_MS,
+            DEFAULT_CONFIRMATION_POLL_MS,
+          ),
+        )
+      : null
+
+  // Retry transfers that failed to settle (here or on another instance)
+  const retryTimer = setInterval(
+    () => {
+      for (const ctx of contexts) {
+        enqueue('Failed transfer retry', () => retryFailedTransfers(ctx))
       }
     },
-    onError: (error) => {
-      console.error('[paymentWatcher] Event subscription error:', error.message)
-    },
-  })
+    positiveInt(
+      options.failedLogRetryMs ?? process.env.EVM_FAILED_LOG_RETRY_MS,
+      DEFAULT_FAILED_LOG_RETRY_MS,
+    ),
+  )
 
-  // Periodic cleanup of stale pending payments
+  // Periodic expiry of stale pending payments (SKIP LOCKED: safe from every instance)
   const pruneTimer = setInterval(() => {
-    const now = Date.now()
-    for (const [sessionId, pending] of pendingPayments) {
-      if (now - pending.createdAt > MAX_PENDING_AGE_MS) {
-        pendingPayments.delete(sessionId)
-        console.log(`[paymentWatcher] Pruned stale pending payment: session=${sessionId}`)
-      }
-    }
+    void expireStalePendingPayments()
   }, PRUNE_INTERVAL_MS)
 
   // Don't prevent process from exiting
+  confirmationTimer?.unref()
+  retryTimer.unref()
   pruneTimer.unref()
+
+  return () => {
+    for (const unwatch of unwatchers) unwatch?.()
+    if (confirmationTimer) clearInterval(confirmationTimer)
+    clearInterval(retryTimer)
+    clearInterval(pruneTimer)
+  }
 }
 
-// ---- Event handler ----
+async function expireStalePendingPayments() {
+  try {
+    const expired = await db.expireEvmPendingPayments(PRUNE_BATCH_SIZE)
+    for (const payment of expired) {
+      await db.insertPolicyEvent({
+        eventType: LIFECYCLE_EVENT.PAYMENT_INTENT_EXPIRED,
+        payload: { reason: 'ttl', rail: 'evm', expiresAt: payment.expiresAt },
+        paymentId: payment.id,
+        sessionId: payment.sessionId,
+        decisionId: payment.decisionId,
+      })
+      console.log(`[paymentWatcher] Pruned stale pending payment: session=${payment.sessionId}`)
+    }
+  } catch (err) {
+    console.error('[paymentWatcher] Failed to prune stale pending payments:', err)
+  }
+}
+
+// ---- Block cursor + backfill ----
 
-async function handleTransferEvent(
-  log: Log,
-  ctx: { usdcAddress: string; chainId: number },
+/** Scan blocks after the cursor up to the chain head with getLogs, advancing the cursor. */
+async function backfill(ctx: WatcherContext) {
+  const head = Number(await ctx.client.getBlockNumber())
+  const cursor = await db.getEvmBlockCursor(ctx.cursorKey)
+  if (cursor == null) {
+    // First start on this chain: nothing was missed yet
+    await db.advanceEvmBlockCursor(ctx.cursorKey, head)
+    return
+  }
+  if (cursor >= head) return
+
+  for (let from = cursor + 1; from <= head; from += ctx.backfillChunkBlocks) {
+    const to = Math.min(from + ctx.backfillChunkBlocks - 1, head)
+    const logs = await ctx.client.getLogs({
+      address: ctx.token.address,
+      event: ERC20_TRANSFER_EVENT[0],
+      fromBlock: BigInt(from),
+      toBlock: BigInt(to),
+    })
+    if (!(await handleLogs(logs as Log[], ctx))) {
+      console.warn(`[paymentWatcher] Backfill of ${ctx.token.symbol} stopped at block ${from}`)
+      return
+    }
+    await db.advanceEvmBlockCursor(ctx.cursorKey, to)
+  }
+  console.log(`[paymentWatcher] Backfilled ${ctx.token.symbol} blocks ${cursor + 1}..${head}`)
+}
+
+/**
+ * Handle logs in order and advance the cursor to the last block handled. A transfer that fails
+ * is stored for retry (evm_failed_transfers) and does not hold the cursor back. Returns false,
+ * leaving the cursor where it was, when a failed transfer could not be stored either.
+ */
+async function handleLogs(logs: Log[], ctx: WatcherContext): Promise<boolean> {
+  let lastBlock: number | undefined
+  let stored = true
+  for (const log of logs) {
+    const blockNumber = log.blockNumber != null ? Number(log.blockNumber) : undefined
+    try {
+      if (log.removed) {
+        if (log.transactionHash) {
+          await handleReorgedTransfer(log.transactionHash, ctx, {
+            blockNumber,
+            blockHash: log.blockHash ?? undefined,
+          })
+        }
+      } else if (markSeen(log, ctx)) {
+        try {
+          await handleTransferEvent(log, ctx)
+        } catch (err) {
+          if (!(await storeFailedTransfer(log, ctx, err))) stored = false
+          throw err
+        }
+      }
+    } catch (err) {
+      console.error(`[paymentWatcher] Failed to handle transfer tx=${log.transactionHash}:`, err)
+    }
+    if (blockNumber != null && !log.removed) {
+      lastBlock = Math.max(lastBlock ?? 0, blockNumber)
+    }
+  }
+  if (!stored) return false
+  if (lastBlock != null) await db.advanceEvmBlockCursor(ctx.cursorKey, lastBlock)
+  return true
+}
+
+/** Store a transfer whose handling failed for retryFailedTransfers; false if that failed too. */
+async function storeFailedTransfer(log: Log, ctx: WatcherContext, err: unknown): Promise<boolean> {
+  // Only mined logs can be fetched again; a pending one comes back once it is mined
+  if (log.blockNumber == null || log.transactionHash == null || log.logIndex == null) return true
+  try {
+    await db.recordEvmFailedTransfer(
+      ctx.cursorKey,
+      {
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        blockNumber: Number(log.blockNumber),
+      },
+      err instanceof Error ? err.message : String(err),
+    )
+    return true
+  } catch (storeErr) {
+    console.error(
+      `[paymentWatcher] Failed to store transfer tx=${log.transactionHash} for retry:`,
+      storeErr,
+    )
+    return false
+  }
+}
+
+/**
+ * Handle the failed transfers of one token again. A transfer that is no longer in its block
+ * (reorged out; the reorg rescan picks it up if it was re-included) is dropped, and one that
+ * fails again stays for the next retry. Every instance retries: claiming a payment is atomic,
+ * so a transfer another instance settled meanwhile is skipped.
+ */
+async function retryFailedTransfers(ctx: WatcherContext) {
+  const failed = await db.listEvmFailedTransfers(ctx.cursorKey, FAILED_TRANSFER_BATCH_SIZE)
+  for (const transfer of failed) {
+    try {
+      const logs = (await ctx.client.getLogs({
+        address: ctx.token.address,
+        event: ERC20_TRANSFER_EVENT[0],
+        fromBlock: BigInt(transfer.blockNumber),
+        toBlock: BigInt(transfer.blockNumber),
+      })) as Log[]
+      const log = logs.find(
+        (l) => l.transactionHash === transfer.txHash && l.logIndex === transfer.logIndex,
+      )
+      if (log) await handleTransferEvent(log, ctx)
+      await db.deleteEvmFailedTransfer(ctx.cursorKey, transfer.txHash, transfer.logIndex)
+    } catch (err) {
+      console.error(
+        `[paymentWatcher] Retry of transfer tx=${transfer.txHash} failed (attempt ${transfer.attempts + 1}):`,
+        err,
+      )
+      await db.recordEvmFailedTransfer(
+        ctx.cursorKey,
+        transfer,
+        err instanceof Error ? err.message : String(err),
+      )
+    }
+  }
+}
+
+/** False when this watcher already handled the log (live subscription and backfill overlap). */
+function markSeen(log: Log, ctx: WatcherContext): boolean {
+  const key = `${log.transactionHash}:${log.logIndex}:${log.blockHash}`
+  if (ctx.seenLogs.has(key)) return false
+  ctx.seenLogs.add(key)
+  if (ctx.seenLogs.size > SEEN_LOGS_LIMIT) {
+    ctx.seenLogs.delete(ctx.seenLogs.values().next().value as string)
+  }
+  return true
+}
+
+// ---- Confirmations + reorgs ----
+
+/**
+ * Verify claimed payments deep enough in the chain; release those whose transfer is gone.
+ * Runs for all watched tokens of one chain under a per-chain lock.
+ */
+async function checkConfirmations(contexts: WatcherContext[]) {
+  const [first] = contexts
+  await db.withAdvisoryLock(confirmationLockKey(first.chainId), async () => {
+    const head = Number(await first.client.getBlockNumber())
+    // A transfer in block N has head - N + 1 confirmations
+    const confirmed = await db.listMatchedEvmPendingPayments(
+      first.chainId,
+      head - first.confirmations + 1,
+    )
+    const reorged = new Set<WatcherContext>()
+    for (const record of confirmed) {
+      const ctx =
+        contexts.find((c) => c.token.address.toLowerCase() === record.paidToken?.toLowerCase()) ??
+        first
+      try {
+        const receipt = await getReceipt(ctx, record.txHash!)
+        if (!receipt || receipt.status !== 'success' || receipt.blockHash !== record.blockHash) {
+          reorged.add(ctx)
+          await handleReorgedTransfer(record.txHash!, ctx, record)
+          continue
+        }
+        await verifyAndSettle(record, ctx)
+      } catch (err) {
+        console.error(`[paymentWatcher] Confirmation check failed for tx=${record.txHash}:`, err)
+      }
+    }
+    // A reorged transfer may be re-included below the cursor: rescan from there
+    for (const ctx of reorged) await backfill(ctx)
+  })
+}
+
+/** Advisory lock key for the confirmation check of one chain */
+function confirmationLockKey(chainId: number): number {
+  return EVM_CONFIRMATION_LOCK_KEY * 1_000_000 + chainId
+}
+
+async function getReceipt(ctx: WatcherContext, txHash: string) {
+  try {
+    return await ctx.client.getTransactionReceipt({ hash: txHash as `0x${string}` })
+  } catch (err) {
+    if (err instanceof TransactionReceiptNotFoundError) return null
+    throw err
+  }
+}
+
+/**
+ * A transfer left the canonical chain: move the payment it claimed back to pending so it can
+ * match again, and rewind the cursor below its block.
+ */
+async function handleReorgedTransfer(
+  txHash: string,
+  ctx: WatcherContext,
+  block: { blockNumber?: number; blockHash?: string },
 ) {
+  if (await db.removeSettlementPartialPayment(txHash)) {
+    console.warn(`[paymentWatcher] Partial transfer reorged out, no longer counted: tx=${txHash}`)
+  }
+  const released = await db.releaseEvmPendingPayment(txHash)
+  if (released) {
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.SETTLEMENT_REORGED,
+      payload: {
+        decisionId: released.decisionId,
+        rail: 'evm',
+        txHash,
+        blockNumber: block.blockNumber,
+        blockHash: block.blockHash,
+      },
+      paymentId: released.paymentId,
+      sessionId: released.sessionId,
+      decisionId: released.decisionId,
+      txHash,
+    })
+    console.warn(
+      `[paymentWatcher] Transfer reorged out, payment back to pending: session=${released.sessionId}, tx=${txHash}`,
+    )
+  } else if (await db.hasSettlementForTxHash(txHash)) {
+    // Verified before the reorg (confirmation depth too low for it)
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.RISK_SIGNAL,
+      payload: { signal: 'SETTLED_TRANSFER_REORGED', rail: 'evm', txHash },
+      txHash,
+    })
+    console.warn(`[paymentWatcher] Verified transfer reorged out: tx=${txHash}`)
+  }
+  if (block.blockNumber != null) {
+    await db.rewindEvmBlockCursor(ctx.cursorKey, block.blockNumber - 1)
+  }
+}
+
+// ---- Event handler ----
+
+async function handleTransferEvent(log: Log, ctx: WatcherContext) {
   const logAddress = (log as any).address as string | undefined
-  if (logAddress && logAddress.toLowerCase() !== ctx.usdcAddress.toLowerCase()) return
+  if (logAddress && logAddress.toLowerCase() !== ctx.token.address.toLowerCase()) return
 
   // Some viem transports/clients do not populate chainId on each log object.
   // Keep this as a best-effort extra guard; contract address match is primary.
   const logChainId = (log as any).chainId as number | undefined
-  if (typeof logChainId === 'number' && ctx.chainId !== 0 && logChainId !== ctx.chainId) return
+  if (typeof logChainId === 'number' && logChainId !== ctx.chainId) return
 
   const args = (log as any).args as { from: string; to: string; value: bigint } | undefined
   if (!args) return
 
+  // Confirmations are counted from the transfer's block
+  if (ctx.confirmations > 1 && log.blockNumber == null) return
+
   const txHash = log.transactionHash ?? ''
   const { to, value } = args
 
   // Find a pending payment where the receiver matches
-  for (const [sessionId, pending] of pendingPayments) {
-    if (to.toLowerCase() !== pending.receiverWallet.toLowerCase()) continue
-
-    // Check amount within 1% tolerance
-    const expectedSmallestUnit = parseDecimalToSmallestUnit(pending.expectedAmount, 6)
-    if (expectedSmallestUnit === 0n) continue
+  const candidates = await db.listEvmPendingPaymentsForReceiver(to)
+  // Payments a short transfer could count towards (tolerant stance with allowPartial)
+  const partialMatches: PartialMatch[] = []
+  for (const record of candidates) {
+    const pending = toPendingPayment(record)
+    const { sessionId } = pending
 
-    const tolerance = expectedSmallestUnit / 100n // 1%
-    const diff =
-      value > expectedSmallestUnit ? value - expectedSmallestUnit : expectedSmallestUnit - value
+    // The payment must quote this chain + token
+    const quote = matchQuote(pending, ctx)
+    if (!quote || quote.amount === 0n) continue
 
-    if (diff > tolerance) continue
+    // The amount must settle the quote under the lot's stance
+    const amountCheck = await checkTransferAmount(record, quote, txHash, value)
+    // Already counted as a partial payment of this payment
+    if (!amountCheck) return
+    if (!amountCheck.accepted) {
+      if (amountCheck.awaitingMore) partialMatches.push({ record, quote, amountCheck })
+      continue
+    }
 
     // Replay protection: same tx_hash must not settle twice
     const alreadySettled = await db.hasSettlementForTxHash(txHash)
@@ -184,30 +622,37 @@ async function handleTransferEvent(
 
     // Same contract as XRPL route + Stripe webhook: enforceOrReject before close, persist events
     if (!pending.decisionId) {
-      console.warn(`[paymentWatcher] No decisionId bound — skipping settlement for session=${sessionId}`)
+      console.warn(
+        `[paymentWatcher] No decisionId bound — skipping settlement for session=${sessionId}`,
+      )
+      return
+    }
+    // Claim the payment for this transfer; another instance may have claimed it already
+    const claimed = await db.claimEvmPendingPayment(record.paymentId, {
+      txHash,
+      amount: value.toString(),
+      payer: args.from,
+      chainId: ctx.chainId,
+      token: ctx.token.address,
+      blockNumber: log.blockNumber != null ? Number(log.blockNumber) : undefined,
+      blockHash: log.blockHash ?? undefined,
+    })
+    if (!claimed) {
+      console.log(`[paymentWatcher] Payment already claimed: session=${sessionId}, tx=${txHash}`)
       return
     }
     const session = await db.getActiveSession(pending.plate)
-    const asset: Asset = pending.asset
-      ? (JSON.parse(pending.asset) as Asset)
-      : { kind: 'ERC20', chainId: ctx.chainId, token: ctx.usdcAddress }
-    const settlementAssetLabel =
-      typeof (asset as any)?.symbol === 'string'
-        ? (asset as any).symbol
-        : typeof (asset as any)?.currency === 'string'
-          ? (asset as any).currency
-          : typeof (asset as any)?.token === 'string'
-            ? (asset as any).token
-            : 'USDC'
     const settlement: SettlementResult = {
-      amount: value.toString(),
-      asset,
+      amount: amountCheck.received,
+      asset: quote.asset,
       rail: 'evm',
+      ...(quote.quoteId && { quoteId: quote.quoteId }),
       txHash,
       payer: args.from,
       destination: pending.receiverWallet,
       expectedSessionGrantId: session?.policyGrantId ?? null,
       expectedPolicyHash: pending.policyHash ?? undefined,
+      amountCheck,
     }
     await db.insertPolicyEvent({
       eventType: LIFECYCLE_EVENT.SETTLEMENT_DETECTED,
@@ -215,7 +660,10 @@ async function handleTransferEvent(
         decisionId: pending.decisionId,
         amount: settlement.amount,
         rail: settlement.rail,
+        chainId: ctx.chainId,
+        token: ctx.token.symbol,
         txHash,
+        amountCheck,
       },
       sessionId: pending.sessionId,
       decisionId: pending.decisionId,
@@ -232,7 +680,15 @@ async function handleTransferEvent(
         payload: {
           decisionId: pending.decisionId,
           reason: enforcement.reason,
-          settlement: { amount: settlement.amount, rail: settlement.rail, txHash },
+          settlement: {
+            amount: settlement.amount,
+            rail: settlement.rail,
+            asset: ctx.token.symbol,
+            chainId: ctx.chainId,
+            tokenAddress: ctx.token.address,
+            txHash,
+            payer: settlement.payer,
+          },
         },
         sessionId: pending.sessionId,
         decisionId: pending.decisionId,
@@ -257,6 +713,7 @@ async function handleTransferEvent(
         decisionId: pending.decisionId,
         txHash,
       })
+      await db.completeEvmPendingPayment(record.paymentId, 'rejected')
       console.warn(
         `[paymentWatcher] Enforcement failed: session=${sessionId}, reason=${enforcement.reason}`,
       )
@@ -298,54 +755,171 @@ async function handleTransferEvent(
           decisionId: pending.decisionId,
           txHash,
         })
+        await db.completeEvmPendingPayment(record.paymentId, 'rejected')
         console.warn(
           `[paymentWatcher] Grant mismatch: session=${sessionId}, sessionGrantId !== session.policyGrantId`,
         )
         return
       }
     }
-    if (pending.decisionId) {
-      const consumed = await db.consumeDecisionOnce(pending.decisionId)
-      if (!consumed) {
-        await db.insertPolicyEvent({
-          eventType: LIFECYCLE_EVENT.RISK_SIGNAL,
-          payload: { signal: 'DECISION_ALREADY_CONSUMED', decisionId: pending.decisionId, rail: 'evm', txHash },
-          sessionId: pending.sessionId,
+    if (ctx.confirmations > 1) {
+      console.log(
+        `[paymentWatcher] Transfer matched, awaiting ${ctx.confirmations} confirmations: session=${sessionId}, tx=${txHash}`,
+      )
+      return
+    }
+    await verifyAndSettle(claimed, ctx, amountCheck)
+
+    return // One transfer settles one session
+  }
+
+  // A short transfer counts only towards the one payment it can be for
+  if (partialMatches.length === 1) {
+    await recordPartialTransfer(partialMatches[0], { txHash, value, payer: args.from }, ctx)
+  }
+}
+
+interface PartialMatch {
+  record: EvmPendingPaymentRecord
+  quote: MatchedQuote
+  amountCheck: AmountCheck
+}
+
+/**
+ * Check a transfer against the quote under the lot's stance, summed with the partial payments
+ * already counted towards the payment in the same asset. Null when the transfer itself was
+ * already counted.
+ */
+async function checkTransferAmount(
+  record: EvmPendingPaymentRecord,
+  quote: MatchedQuote,
+  txHash: string,
+  value: bigint,
+): Promise<AmountCheck | null> {
+  const tolerance = getAmountTolerance(await db.getLot(record.lotId), 'evm')
+  const partials = tolerance.allowPartial
+    ? (await db.listSettlementPartialPayments(record.paymentId)).filter((p) =>
+        sameErc20(p.asset as Asset, quote.asset),
+      )
+    : []
+  if (partials.some((p) => p.txHash === txHash)) return null
+  return checkSettlementAmount(quote.amount, [...partials.map((p) => p.amount), value], tolerance)
+}
+
+/** Count a short transfer towards a payment; a later transfer completing the quote settles it. */
+async function recordPartialTransfer(
+  match: PartialMatch,
+  transfer: { txHash: string; value: bigint; payer: string },
+  ctx: WatcherContext,
+) {
+  const { record, quote, amountCheck } = match
+  const { txHash } = transfer
+  const added = await db.addSettlementPartialPayment({
+    paymentId: record.paymentId,
+    rail: 'evm',
+    asset: quote.asset,
+    txHash,
+    amount: transfer.value,
+    payer: transfer.payer,
+  })
+  if (!added) return
+  await db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.SETTLEMENT_PARTIAL,
+    payload: {
+      decisionId: record.decisionId,
+      amount: transfer.value.toString(),
+      rail: 'evm',
+      chainId: ctx.chainId,
+      token: ctx.token.symbol,
+      amountCheck,
+    },
+    paymentId: record.paymentId,
+    sessionId: record.sessionId,
+    decisionId: record.decisionId,
+    txHash,
+  })
+  console.log(
+    `[paymentWatcher] Partial transfer counted: session=${record.sessionId}, tx=${txHash}, received=${amountCheck.received}/${amountCheck.expected}`,
+  )
+}
+
+/** Last step for a claimed payment whose transfer is deep enough: verify and close. */
+async function verifyAndSettle(
+  record: EvmPendingPaymentRecord,
+  ctx: WatcherContext,
+  checked?: AmountCheck,
+) {
+  const pending = toPendingPayment(record)
+  const { sessionId } = pending
+  const txHash = record.txHash ?? ''
+  const quote = matchQuote(pending, ctx)
+  // Claimed in an earlier pass (confirmations > 1): check the amount again
+  let amountCheck = checked
+  if (!amountCheck && quote && record.paidAmount != null) {
+    amountCheck =
+      (await checkTransferAmount(record, quote, txHash, BigInt(record.paidAmount))) ?? undefined
+  }
+  if (pending.decisionId) {
+    const consumed = await db.consumeDecisionOnce(pending.decisionId)
+    if (!consumed) {
+      await db.insertPolicyEvent({
+        eventType: LIFECYCLE_EVENT.RISK_SIGNAL,
+        payload: {
+          signal: 'DECISION_ALREADY_CONSUMED',
           decisionId: pending.decisionId,
+          rail: 'evm',
           txHash,
-        })
-        console.warn(
-          `[paymentWatcher] Decision already consumed: decision=${pending.decisionId}`,
-        )
-        return
-      }
-    }
-    await db.insertPolicyEvent({
-      eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
-      payload: {
+        },
+        sessionId: pending.sessionId,
         decisionId: pending.decisionId,
-        amount: value.toString(),
-        rail: 'evm',
-        asset: settlementAssetLabel,
-      },
-      sessionId: pending.sessionId,
+        txHash,
+      })
+      await db.completeEvmPendingPayment(record.paymentId, 'rejected')
+      console.warn(`[paymentWatcher] Decision already consumed: decision=${pending.decisionId}`)
+      return
+    }
+  }
+  await db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+    payload: {
       decisionId: pending.decisionId,
+      amount: amountCheck?.received ?? record.paidAmount,
+      rail: 'evm',
+      asset: ctx.token.symbol,
+      chainId: ctx.chainId,
+      tokenAddress: ctx.token.address,
+      payer: record.payer,
+      blockNumber: record.blockNumber,
+      confirmations: ctx.confirmations,
+      amountCheck,
+    },
+    sessionId: pending.sessionId,
+    decisionId: pending.decisionId,
+    txHash,
+  })
+
+  // Match found — settle
+  console.log(`[paymentWatcher] On-chain payment matched: session=${sessionId}, tx=${txHash}`)
+  await db.completeEvmPendingPayment(record.paymentId, 'resolved')
+  if (amountCheck && quote) {
+    await recordOverpaymentCredit({
+      check: amountCheck,
+      sessionId,
+      plateNumber: pending.plate,
+      lotId: pending.lotId,
+      rail: 'evm',
+      asset: quote.asset,
+      payer: record.payer,
       txHash,
+      decisionId: pending.decisionId,
+      paymentId: record.paymentId,
     })
+  }
 
-    // Match found — settle
-    console.log(
-      `[paymentWatcher] On-chain payment matched: session=${sessionId}, tx=${txHash}`,
-    )
-    pendingPayments.delete(sessionId)
-
-    try {
-      await settleSession(pending, txHash)
-    } catch (err) {
-      console.error(`[paymentWatcher] Failed to settle session=${sessionId}:`, err)
-    }
-
-    return // One transfer settles one session
+  try {
+    await settleSession(pending, txHash)
+  } catch (err) {
+    console.error(`[paymentWatcher] Failed to settle session=${sessionId}:`, err)
   }
 }
 
@@ -356,8 +930,9 @@ async function settleSession(pending: PendingPayment, txHash?: string) {
   let nftBurnSucceeded = !isHederaEnabled() || !tokenId
   if (isHederaEnabled() && tokenId) {
     try {
-      await endParkingSessionOnHedera(tokenId)
+      const burn = await endParkingSessionOnHedera(tokenId)
       nftBurnSucceeded = true
+      await recordNftBurn(sessionId, tokenId, burn)
     } catch (err) {
       nftBurnSucceeded = false
       console.error(`[paymentWatcher] Hedera NFT burn failed for session=${sessionId}:`, err)
@@ -422,6 +997,44 @@ async function settleSession(pending: PendingPayment, txHash?: string) {
 
 // ---- Helpers ----
 
+interface MatchedQuote {
+  quoteId?: string
+  asset: Asset
+  amount: bigint
+}
+
+/**
+ * The quote of a pending payment this watcher's chain + token pays, with the settlement
+ * asset to enforce against. Payments without quotes (registered before per-lot assets)
+ * accept USDC only, at expectedAmount.
+ */
+function matchQuote(pending: PendingPayment, ctx: WatcherContext): MatchedQuote | null {
+  if (pending.quotes?.length) {
+    const quote = pending.quotes.find(
+      (q) =>
+        q.asset.chainId === ctx.chainId &&
+        q.asset.token.toLowerCase() === ctx.token.address.toLowerCase(),
+    )
+    return quote ? { quoteId: quote.quoteId, asset: quote.asset, amount: BigInt(quote.amount) } : null
+  }
+  if (ctx.token.symbol !== 'USDC') return null
+  return {
+    asset: pending.asset
+      ? (JSON.parse(pending.asset) as Asset)
+      : { kind: 'ERC20', chainId: ctx.chainId, token: ctx.token.address },
+    amount: parseDecimalToSmallestUnit(pending.expectedAmount, ctx.token.decimals),
+  }
+}
+
+function sameErc20(a: Asset, b: Asset): boolean {
+  return (
+    a.kind === 'ERC20' &&
+    b.kind === 'ERC20' &&
+    a.chainId === b.chainId &&
+    a.token.toLowerCase() === b.token.toLowerCase()
+  )
+}
+
 function parseDecimalToSmallestUnit(amount: string, decimals: number): bigint {
   const [whole = '0', frac = ''] = amount.split('.')
   const paddedFrac = frac.padEnd(decimals, '0').slice(0, decimals)
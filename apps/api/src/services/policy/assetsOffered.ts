@@ -1,23 +1,51 @@
 /**
  * Build policy assets from what settlement can verify (no DB).
- * Used by exit policy evaluation.
+ * Used by entry and exit policy evaluation.
  */
 
 import type { Rail, Asset } from '@parker/policy-core'
-import { USDC_ADDRESSES } from '@parker/core'
-import { X402_NETWORK } from '../pricing'
+import type { EvmToken, LotEvmAsset } from '@parker/core'
+import { getEvmChain, getEvmToken, resolveLotEvmTokens } from '@parker/core'
+import { X402_NETWORK, X402_STABLECOIN } from '../pricing'
 
-const CHAIN_ID_BY_NETWORK: Record<string, number> = {
-  'base-sepolia': 84532,
-  base: 8453,
+/**
+ * Rails a lot can settle on, from its payment methods. With none configured all rails are
+ * offered so policy can still restrict them.
+ */
+export function buildRailsOffered(lot: { paymentMethods?: string[] } | null): Rail[] {
+  const rails: Rail[] = []
+  if (lot?.paymentMethods?.includes('stripe')) rails.push('stripe')
+  if (lot?.paymentMethods?.includes('x402')) {
+    rails.push(X402_NETWORK.startsWith('xrpl:') ? 'xrpl' : 'evm')
+  }
+  if (rails.length === 0) rails.push('stripe', 'xrpl', 'evm')
+  return rails
+}
+
+/**
+ * Registry tokens a lot accepts for EVM settlement, in lot order.
+ * Lots without evmAssets accept X402_STABLECOIN on X402_NETWORK (USDC when the symbol is
+ * not in the registry).
+ */
+export function getLotEvmTokens(lot: { evmAssets?: LotEvmAsset[] } | null): EvmToken[] {
+  if (lot?.evmAssets?.length) return resolveLotEvmTokens(lot.evmAssets)
+  const chain = getEvmChain(X402_NETWORK)
+  if (!chain) return []
+  const token =
+    getEvmToken(chain.chainId, X402_STABLECOIN) ?? getEvmToken(chain.chainId, 'USDC')
+  return token ? [token] : []
 }
 
 /**
  * Build assets offered for policy from actual settlement options only.
- * XRPL: XRP (optional) + IOU only when XRPL_ISSUER is set (fail closed). EVM: ERC20.
+ * XRPL: XRP (optional) + IOU only when XRPL_ISSUER is set (fail closed). EVM: one ERC20
+ * per (chainId, token) the lot accepts, in lot order.
  * Stripe is a rail only; no asset is offered for it.
  */
-export function buildAssetsOffered(railsOffered: Rail[]): Asset[] {
+export function buildAssetsOffered(
+  railsOffered: Rail[],
+  lot: { evmAssets?: LotEvmAsset[] } | null = null,
+): Asset[] {
   const assets: Asset[] = []
   if (railsOffered.includes('xrpl')) {
     if (process.env.XRPL_ALLOW_XRP === 'true') {
@@ -30,11 +58,8 @@ export function buildAssetsOffered(railsOffered: Rail[]): Asset[] {
     }
   }
   if (railsOffered.includes('evm')) {
-    const network = X402_NETWORK
-    const chainId = CHAIN_ID_BY_NETWORK[network] ?? 0
-    const token = USDC_ADDRESSES[network]
-    if (chainId && token) {
-      assets.push({ kind: 'ERC20', chainId, token })
+    for (const token of getLotEvmTokens(lot)) {
+      assets.push({ kind: 'ERC20', chainId: token.chainId, token: token.address })
     }
   }
   return assets
@@ -1,104 +1,156 @@
 /**
  * Exit-time policy evaluation: build context (fiat-only caps), evaluate payment policy, apply grant expiry.
  * Caps and spend are in fiat minor (lot currency); settlement quotes are generated after decision in gate.
+ * Spend totals come from the spend ledger, in the lot's day window (dailyCapMode, timezone).
+ * An owner approval covering the price (services/approvals) clears approval-only escalations.
  */
 
-import { resolveEffectivePolicy, evaluatePaymentPolicy } from '@parker/policy-core'
+import type { DailyCapMode, LotEvmAsset } from '@parker/core'
+import {
+  resolveEffectivePolicy,
+  resolvePolicyProvenance,
+  evaluatePaymentPolicy,
+} from '@parker/policy-core'
 import type {
   PaymentPolicyContext,
   PaymentPolicyDecision,
   PolicyReasonCode,
-  Rail,
+  PolicyTraceEntry,
   FiatMoneyMinor,
+  OwnerApproval,
+  RiskThresholds,
 } from '@parker/policy-core'
-import { buildEntryPolicyStack } from '../policyStack'
-import { buildAssetsOffered } from './assetsOffered'
+import { buildPolicyStack, type PolicyLayerLoader } from '../policyStack'
+import { buildAssetsOffered, buildRailsOffered } from './assetsOffered'
 import { validateDecisionAgainstGrant } from './grantEnforcement'
-import { X402_NETWORK } from '../pricing'
-import type { PolicyGrantRecord } from '../../db/queries'
-
-/** Fiat minor units: assume 2 decimals (cents) for standard currencies. */
-const FIAT_MINOR_DECIMALS = 2
-
-function toFiatMinor(amount: number): string {
-  return String(Math.round(amount * 10 ** FIAT_MINOR_DECIMALS))
-}
+import type { PolicyGrantRecord, SpendLedgerQuery, SpendLedgerTotals } from '../../db/queries'
 
 export interface EvaluateExitPolicyParams {
   session: { id: string; policyGrantId?: string | null; approvalRequiredBeforePayment?: boolean } | null
-  lot: { paymentMethods?: string[]; currency?: string; operatorWallet?: string } | null
-  fee: number
+  lot: {
+    paymentMethods?: string[]
+    currency?: string
+    operatorWallet?: string
+    timezone?: string
+    dailyCapMode?: DailyCapMode
+    riskThresholds?: RiskThresholds
+    evmAssets?: LotEvmAsset[]
+  } | null
+  /** Exit fee in minor units of `currency` (FeeQuote.feeMinor) — the amount shown to the driver */
+  feeMinor: bigint
   currency: string
   plate: string
   lotId: string
-  getFiatSpendTotalsByCurrency: (plate: string, currency: string) => Promise<{ dayTotalFiat: number; sessionTotalFiat: number }>
+  /** Risk score 0..100 (services/risk); compared against lot.riskThresholds */
+  riskScore?: number
+  /** Approved owner approval for the session, in `currency` of the approved price */
+  ownerApproval?: (OwnerApproval & { currency: string }) | null
+  getSpendLedgerTotals: (query: SpendLedgerQuery) => Promise<SpendLedgerTotals>
   getPolicyGrantExpiresAt: (grantId: string) => Promise<Date | null>
   getPolicyGrantByGrantId: (grantId: string) => Promise<PolicyGrantRecord | null>
+  getPolicyLayersForStack: PolicyLayerLoader
 }
 
 /**
  * Evaluate payment policy at exit: context uses priceFiat + spendTotalsFiat (fiat minor);
- * caps are compared in fiat only.
+ * caps are compared in fiat only. The decision carries a rule trace; escalations applied here
+ * (grant expiry, entry approval, grant scope) are appended to it.
  */
 export async function evaluateExitPolicy(params: EvaluateExitPolicyParams): Promise<PaymentPolicyDecision> {
   const {
     session,
     lot,
-    fee,
+    feeMinor,
     currency,
     plate,
     lotId,
-    getFiatSpendTotalsByCurrency,
+    riskScore,
+    ownerApproval,
+    getSpendLedgerTotals,
     getPolicyGrantExpiresAt,
     getPolicyGrantByGrantId,
+    getPolicyLayersForStack,
   } = params
 
-  const spendFiat = await getFiatSpendTotalsByCurrency(plate, currency)
+  const now = new Date()
+  const spend = await getSpendLedgerTotals({
+    plate,
+    currency,
+    sessionId: session?.id,
+    window: { mode: lot?.dailyCapMode ?? 'rolling_24h', timeZone: lot?.timezone ?? 'UTC' },
+    at: now,
+  })
   const priceFiat: FiatMoneyMinor = {
-    amountMinor: toFiatMinor(fee),
+    amountMinor: feeMinor.toString(),
     currency,
   }
-  const spendTotalsFiat = {
-    dayTotal: { amountMinor: toFiatMinor(spendFiat.dayTotalFiat), currency },
-    sessionTotal: { amountMinor: toFiatMinor(spendFiat.sessionTotalFiat), currency },
-  }
+
+  const approval: OwnerApproval | undefined =
+    ownerApproval && ownerApproval.currency === currency
+      ? {
+          approvalId: ownerApproval.approvalId,
+          maxMinor: ownerApproval.maxMinor,
+          approvedBy: ownerApproval.approvedBy,
+        }
+      : undefined
+  const approvalCoversPrice = approval !== undefined && feeMinor <= BigInt(approval.maxMinor)
 
   let sessionGrantId: string | undefined
+  let grantExpiresAt: Date | null = null
   if (session?.policyGrantId) {
-    const expiresAt = await getPolicyGrantExpiresAt(session.policyGrantId)
-    if (expiresAt && expiresAt > new Date()) sessionGrantId = session.policyGrantId
+    grantExpiresAt = await getPolicyGrantExpiresAt(session.policyGrantId)
+    if (grantExpiresAt && grantExpiresAt > now) sessionGrantId = session.policyGrantId
   }
 
-  const stack = buildEntryPolicyStack(lotId, plate)
+  const { stack } = await buildPolicyStack(lotId, plate, getPolicyLayersForStack)
   const policy = resolveEffectivePolicy(stack)
-  const railsOffered: Rail[] = []
-  if (lot?.paymentMethods?.includes('stripe')) railsOffered.push('stripe')
-  if (lot?.paymentMethods?.includes('x402')) {
-    railsOffered.push(X402_NETWORK.startsWith('xrpl:') ? 'xrpl' : 'evm')
+  const provenance = resolvePolicyProvenance(stack)
+  // A daily cap set by the owner layer covers all of the owner's vehicles
+  const dayTotalMinor = provenance.capPerDayMinor?.includes('owner')
+    ? spend.ownerDayMinor > spend.vehicleDayMinor
+      ? spend.ownerDayMinor
+      : spend.vehicleDayMinor
+    : spend.vehicleDayMinor
+  const spendTotalsFiat = {
+    dayTotal: { amountMinor: dayTotalMinor.toString(), currency },
+    sessionTotal: { amountMinor: spend.sessionMinor.toString(), currency },
   }
-  if (railsOffered.length === 0) railsOffered.push('stripe', 'xrpl', 'evm')
-  const assetsOffered = buildAssetsOffered(railsOffered)
+  const railsOffered = buildRailsOffered(lot)
+  const assetsOffered = buildAssetsOffered(railsOffered, lot)
 
   const paymentCtx: PaymentPolicyContext = {
     policy,
     lotId,
     operatorId: lot?.operatorWallet,
-    nowISO: new Date().toISOString(),
+    nowISO: now.toISOString(),
     priceFiat,
     spendTotalsFiat,
     railsOffered,
     assetsOffered,
+    riskScore,
+    riskThresholds: lot?.riskThresholds,
+    ownerApproval: approval,
     sessionGrantId,
+    trace: true,
+    provenance,
   }
   let decision = evaluatePaymentPolicy(paymentCtx)
+  const trace: PolicyTraceEntry[] = [...(decision.trace ?? [])]
 
   const hadGrantButExpired = Boolean(session?.policyGrantId) && sessionGrantId === undefined
-  if (hadGrantButExpired) {
+  if (hadGrantButExpired && !approvalCoversPrice) {
     decision = {
       ...decision,
       action: 'REQUIRE_APPROVAL',
       reasons: [...(decision.reasons || []), 'GRANT_EXPIRED' as PolicyReasonCode],
     }
+    trace.push({
+      rule: 'grantExpiry',
+      result: 'require_approval',
+      input: paymentCtx.nowISO,
+      limit: grantExpiresAt?.toISOString() ?? null,
+      reason: 'GRANT_EXPIRED',
+    })
   }
 
   // Invariant: if session has policyGrantId, decision MUST include sessionGrantId (no forgetting the grant).
@@ -107,15 +159,27 @@ export async function evaluateExitPolicy(params: EvaluateExitPolicyParams): Prom
     sessionGrantId: session?.policyGrantId ?? sessionGrantId ?? null,
     grantId: sessionGrantId ?? session?.policyGrantId ?? null,
     priceFiat,
+    trace,
   }
 
-  // Entry tagged approvalRequiredBeforePayment => exit must require approval before settlement.
-  if (session?.approvalRequiredBeforePayment && finalDecision.action === 'ALLOW') {
+  // Entry tagged approvalRequiredBeforePayment => exit must require approval before settlement,
+  // unless the owner has already approved this price.
+  if (
+    session?.approvalRequiredBeforePayment &&
+    finalDecision.action === 'ALLOW' &&
+    !approvalCoversPrice
+  ) {
     finalDecision = {
       ...finalDecision,
       action: 'REQUIRE_APPROVAL',
       reasons: [...(finalDecision.reasons || []), 'NEEDS_APPROVAL' as PolicyReasonCode],
     }
+    trace.push({
+      rule: 'entryApproval',
+      result: 'require_approval',
+      input: true,
+      reason: 'NEEDS_APPROVAL',
+    })
   }
 
   if (sessionGrantId) {
@@ -123,6 +187,12 @@ export async function evaluateExitPolicy(params: EvaluateExitPolicyParams): Prom
     if (grant) {
       const check = validateDecisionAgainstGrant(grant, finalDecision)
       if (!check.valid) {
+        trace.push({
+          rule: 'grantScope',
+          result: 'deny',
+          input: grant.grantId,
+          reason: check.reason,
+        })
         finalDecision = {
           action: 'DENY',
           reasons: [check.reason],
@@ -130,6 +200,7 @@ export async function evaluateExitPolicy(params: EvaluateExitPolicyParams): Prom
           decisionId: finalDecision.decisionId,
           policyHash: finalDecision.policyHash,
           sessionGrantId: sessionGrantId ?? null,
+          trace,
         }
       }
     }
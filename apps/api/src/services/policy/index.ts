@@ -2,4 +2,11 @@ export { enforceOrReject } from './enforceOrReject'
 export type { GetDecisionPayload } from './enforceOrReject'
 export { evaluateExitPolicy } from './exitEvaluation'
 export type { EvaluateExitPolicyParams } from './exitEvaluation'
-export { buildAssetsOffered } from './assetsOffered'
+export { buildAssetsOffered, buildRailsOffered, getLotEvmTokens } from './assetsOffered'
+export { simulatePolicy } from './simulation'
+export type {
+  PolicyCandidate,
+  PolicySimulationReport,
+  SimulatePolicyParams,
+  SimulatedFlip,
+} from './simulation'
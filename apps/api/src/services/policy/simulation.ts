@@ -0,0 +1,189 @@
+/**
+ * Policy dry-run: replay recent exit decisions against a candidate policy and report which
+ * sessions would have changed outcome. Read-only — nothing is persisted or enforced.
+ *
+ * Each decision is evaluated twice in the same context (lot, price, same-day spend, time):
+ * once with the stack as stored today and once with the candidate applied, so a flip is
+ * attributable to the candidate alone. Same-day spend comes from the spend ledger, in the
+ * lot's day window, as at exit. Grant expiry and grant binding are not replayed.
+ */
+
+import {
+  evaluateEntryPolicy,
+  evaluatePaymentPolicy,
+  resolveEffectivePolicy,
+  resolvePolicyProvenance,
+} from '@parker/policy-core'
+import type {
+  Policy,
+  PolicyDecisionAction,
+  PolicyLayer,
+  PolicyReasonCode,
+  PolicyStack,
+} from '@parker/policy-core'
+import type { Lot } from '@parker/core'
+import { buildPolicyStack, type PolicyLayerLoader } from '../policyStack'
+import { buildAssetsOffered, buildRailsOffered } from './assetsOffered'
+import type { DecisionReplayRecord } from '../../db/queries'
+
+/** Either one layer to swap into every session's stack, or a complete stack. */
+export type PolicyCandidate = { policy: Policy; layer: PolicyLayer } | { stack: PolicyStack }
+
+export interface ReplayOutcome {
+  action: PolicyDecisionAction
+  reasons: PolicyReasonCode[]
+  /** Where the outcome was decided: entry grant or exit payment decision */
+  stage: 'entry' | 'payment'
+}
+
+export interface SimulatedFlip {
+  decisionId: string
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  /** Action stored when the decision was made */
+  recordedAction: string
+  current: ReplayOutcome
+  candidate: ReplayOutcome
+}
+
+export interface PolicySimulationReport {
+  evaluated: number
+  unchanged: number
+  /** Count per transition, e.g. { "ALLOW→DENY": 3 } */
+  transitions: Record<string, number>
+  /** Sessions made stricter by the candidate, grouped by the candidate's reason codes */
+  byReason: Partial<Record<PolicyReasonCode, { count: number; sessionIds: string[] }>>
+  flips: SimulatedFlip[]
+}
+
+export interface SimulatePolicyParams {
+  candidate: PolicyCandidate
+  decisions: DecisionReplayRecord[]
+  getLot: (lotId: string) => Promise<Lot | null>
+  getPolicyLayersForStack: PolicyLayerLoader
+}
+
+const STRICTNESS: Record<PolicyDecisionAction, number> = {
+  ALLOW: 0,
+  REQUIRE_APPROVAL: 1,
+  DENY: 2,
+}
+
+function applyCandidate(stack: PolicyStack, candidate: PolicyCandidate): PolicyStack {
+  if ('stack' in candidate) return candidate.stack
+  return { ...stack, [candidate.layer]: candidate.policy }
+}
+
+/** Entry grant, then exit payment decision, for one stored decision's context. */
+function replay(stack: PolicyStack, record: DecisionReplayRecord, lot: Lot | null): ReplayOutcome {
+  const policy = resolveEffectivePolicy(stack)
+  // A daily cap set by the owner layer covers all of the owner's vehicles (as at exit)
+  const ownerCap = resolvePolicyProvenance(stack).capPerDayMinor?.includes('owner')
+  const vehicleDay = BigInt(record.vehicleDayMinor)
+  const ownerDay = BigInt(record.ownerDayMinor)
+  const dayTotalMinor = ownerCap && ownerDay > vehicleDay ? ownerDay : vehicleDay
+  const railsOffered = buildRailsOffered(lot)
+  const assetsOffered = buildAssetsOffered(railsOffered, lot)
+
+  const grant = evaluateEntryPolicy({
+    policy,
+    lotId: record.lotId,
+    operatorId: lot?.operatorWallet,
+    nowISO: new Date(record.entryTime).toISOString(),
+    railsOffered,
+    assetsOffered,
+    geo: lot?.lat != null && lot.lng != null ? { lat: lot.lat, lng: lot.lng } : undefined,
+  })
+  if (grant.grantAction === 'DENY') {
+    return { action: 'DENY', reasons: grant.reasons, stage: 'entry' }
+  }
+
+  const currency = record.quoteCurrency
+  const decision = evaluatePaymentPolicy({
+    policy,
+    lotId: record.lotId,
+    operatorId: lot?.operatorWallet,
+    nowISO: new Date(record.createdAt).toISOString(),
+    priceFiat: { amountMinor: record.quoteMinor, currency },
+    spendTotalsFiat: {
+      dayTotal: { amountMinor: dayTotalMinor.toString(), currency },
+      sessionTotal: { amountMinor: '0', currency },
+    },
+    railsOffered,
+    assetsOffered,
+  })
+
+  // Same escalation as exit: an entry grant that required approval holds the payment.
+  if (grant.requireApproval && decision.action === 'ALLOW') {
+    return { action: 'REQUIRE_APPROVAL', reasons: ['NEEDS_APPROVAL'], stage: 'payment' }
+  }
+  return { action: decision.action, reasons: decision.reasons, stage: 'payment' }
+}
+
+/**
+ * Replay `decisions` under the current stack and under the candidate, and summarize the
+ * sessions whose outcome changed.
+ */
+export async function simulatePolicy(
+  params: SimulatePolicyParams,
+): Promise<PolicySimulationReport> {
+  const { candidate, decisions, getLot, getPolicyLayersForStack } = params
+  const lots = new Map<string, Promise<Lot | null>>()
+  // Stacks depend only on (lot, plate); load each once for the whole replay
+  const stacks = new Map<string, Promise<PolicyStack>>()
+
+  const report: PolicySimulationReport = {
+    evaluated: 0,
+    unchanged: 0,
+    transitions: {},
+    byReason: {},
+    flips: [],
+  }
+
+  for (const record of decisions) {
+    if (!lots.has(record.lotId)) lots.set(record.lotId, getLot(record.lotId))
+    const lot = await lots.get(record.lotId)!
+
+    const stackKey = `${record.lotId}\u0000${record.plateNumber}`
+    if (!stacks.has(stackKey)) {
+      stacks.set(
+        stackKey,
+        buildPolicyStack(record.lotId, record.plateNumber, getPolicyLayersForStack).then(
+          ({ stack }) => stack,
+        ),
+      )
+    }
+    const stack = await stacks.get(stackKey)!
+    const current = replay(stack, record, lot)
+    const next = replay(applyCandidate(stack, candidate), record, lot)
+    report.evaluated++
+
+    if (current.action === next.action) {
+      report.unchanged++
+      continue
+    }
+
+    const transition = `${current.action}→${next.action}`
+    report.transitions[transition] = (report.transitions[transition] ?? 0) + 1
+    report.flips.push({
+      decisionId: record.decisionId,
+      sessionId: record.sessionId,
+      plateNumber: record.plateNumber,
+      lotId: record.lotId,
+      recordedAction: record.action,
+      current,
+      candidate: next,
+    })
+
+    if (STRICTNESS[next.action] > STRICTNESS[current.action]) {
+      for (const reason of new Set(next.reasons)) {
+        const group = (report.byReason[reason] ??= { count: 0, sessionIds: [] })
+        group.count++
+        group.sessionIds.push(record.sessionId)
+      }
+    }
+  }
+
+  return report
+}
@@ -1,10 +1,11 @@
 /**
- * Build PolicyStack for entry (platform from env/config; operator/vehicle/lot from DB when available).
+ * Build PolicyStack for entry and exit (platform from env/config; owner/vehicle/lot from DB).
  * Precedence: platform < owner < vehicle < lot (merge.ts).
  */
 
-import type { Policy, PolicyStack } from '@parker/policy-core'
-import { POLICY_SCHEMA_VERSION } from '@parker/policy-core'
+import type { AppliedPolicyLayer, Policy, PolicyStack } from '@parker/policy-core'
+import { POLICY_SCHEMA_VERSION, migratePolicy } from '@parker/policy-core'
+import type { PolicyLayerRecord } from '../db/queries'
 
 /** Default platform policy: no restrictions (allow all). */
 function defaultPlatformPolicy(): Policy {
@@ -13,39 +14,85 @@ function defaultPlatformPolicy(): Policy {
   }
 }
 
-/** Parse optional PLATFORM_POLICY_JSON env (JSON string). Must be a valid Policy. */
+/**
+ * Parse optional PLATFORM_POLICY_JSON env (JSON string), upgraded to the current schema version.
+ * Throws when it is set but not valid JSON or not a valid Policy, so a typo can't open the
+ * platform up to the allow-all default.
+ */
 function getPlatformPolicyFromEnv(): Policy | null {
   const raw = process.env.PLATFORM_POLICY_JSON
-  if (!raw || typeof raw !== 'string') return null
+  if (!raw) return null
+  let parsed: unknown
   try {
-    const parsed = JSON.parse(raw) as unknown
-    if (parsed && typeof parsed === 'object' && 'version' in parsed && (parsed as Policy).version === 1) {
-      return parsed as Policy
-    }
-  } catch {
-    // ignore
+    parsed = JSON.parse(raw)
+  } catch (error) {
+    throw new Error(`PLATFORM_POLICY_JSON is not valid JSON: ${(error as Error).message}`)
   }
-  return null
+  const result = migratePolicy(parsed)
+  if (!result.ok) {
+    throw new Error(`PLATFORM_POLICY_JSON is invalid: ${result.errors.join('; ')}`)
+  }
+  return result.policy
 }
 
 /**
- * Platform policy: PLATFORM_POLICY_JSON env (if valid) else default (no restrictions).
+ * Platform policy: PLATFORM_POLICY_JSON env (if set) else default (no restrictions).
+ * Throws when PLATFORM_POLICY_JSON is invalid; called at startup to fail fast.
  */
 export function getPlatformPolicy(): Policy {
   return getPlatformPolicyFromEnv() ?? defaultPlatformPolicy()
 }
 
 /**
- * Build stack for entry. Today: platform only.
- * TODO: merge in from DB when available:
- *   - lot policy overrides (e.g. lot-specific caps / rail allowlist)
- *   - vehicle/owner policy overrides (e.g. by plate or wallet)
+ * Stored layer document upgraded to the current schema version. Layers are validated on write,
+ * so a failure here means the row was edited by hand or a migration is missing.
  */
-export function buildEntryPolicyStack(_lotId: string, _plateNumber?: string): PolicyStack {
-  return {
-    platform: getPlatformPolicy(),
-    owner: undefined,
-    vehicle: undefined,
-    lot: undefined,
+function upgradeStoredPolicy(record: PolicyLayerRecord): Policy {
+  const result = migratePolicy(record.policy)
+  if (!result.ok) {
+    throw new Error(
+      `Stored ${record.layer} policy for ${record.subject} is invalid: ${result.errors.join('; ')}`,
+    )
+  }
+  return result.policy
+}
+
+/** Loads the stored layers for a lot + plate (db.getPolicyLayersForStack). */
+export type PolicyLayerLoader = (
+  lotId: string,
+  plateNumber?: string,
+) => Promise<PolicyLayerRecord[]>
+
+export interface ResolvedPolicyStack {
+  stack: PolicyStack
+  /** Layers present in the stack, in merge order; recorded on grants for audit. */
+  layers: AppliedPolicyLayer[]
+}
+
+const STACK_ORDER = ['owner', 'vehicle', 'lot'] as const
+
+/**
+ * Build the policy stack for a vehicle at a lot: platform policy plus any owner (wallet that
+ * registered the plate), vehicle (plate) and lot layers stored in the DB.
+ */
+export async function buildPolicyStack(
+  lotId: string,
+  plateNumber: string | undefined,
+  loadLayers: PolicyLayerLoader,
+): Promise<ResolvedPolicyStack> {
+  const stack: PolicyStack = { platform: getPlatformPolicy() }
+  const layers: AppliedPolicyLayer[] = [{ layer: 'platform', subject: 'platform' }]
+
+  const records = await loadLayers(lotId, plateNumber)
+  for (const layer of STACK_ORDER) {
+    const record = records.find((r) => r.layer === layer)
+    if (!record) continue
+    stack[layer] = upgradeStoredPolicy(record)
+    layers.push({
+      layer,
+      subject: record.subject,
+      version: new Date(record.updatedAt).toISOString(),
+    })
   }
+  return { stack, layers }
 }
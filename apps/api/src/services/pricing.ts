@@ -4,10 +4,23 @@
  * Converts parking fees from any local currency to the configured stablecoin
  * for the x402 crypto payment rail.
  *
- * For MVP: uses static FX rates from environment variables.
- * Future: plug in a live price feed (CoinGecko, Circle, oracle).
+ * Quotes go through the pluggable FX service (see ./fx) so the rate used can be
+ * recorded as an FxSnapshot. The synchronous helpers read static env rates only.
+ * Conversions run on integer minor/atomic units (@parker/core money), never floats.
  */
 
+import {
+  convertUnits,
+  formatMinor,
+  getCurrencyExponent,
+  toMinor,
+  unitsToDecimal,
+  type EvmToken,
+  type RoundingMode,
+} from '@parker/core'
+import type { FxSnapshot } from '@parker/policy-core'
+import { fxService } from './fx'
+
 // ---- Configuration ----
 
 /** The stablecoin used for x402 settlement (e.g. "USDC") */
@@ -16,6 +29,12 @@ export const X402_STABLECOIN = process.env.X402_STABLECOIN || 'USDC'
 /** The network used for x402 settlement (e.g. "base-sepolia") */
 export const X402_NETWORK = process.env.X402_NETWORK || 'base-sepolia'
 
+/** On-chain decimals of the settlement stablecoin (USDC, USDT and EURC all use 6) */
+export const STABLECOIN_DECIMALS = 6
+
+/** Rounding applied when converting fiat minor units to stablecoin atomic units */
+const FX_ROUNDING: RoundingMode = 'half_up'
+
 /**
  * Load FX rates from env vars.
  * Pattern: FX_RATE_{FROM}_{TO}=<rate>
@@ -78,13 +97,65 @@ export function getFxRate(from: string, to: string): number {
 export function convertToStablecoin(amount: number, fromCurrency: string): number {
   const baseCurrency = getStablecoinBaseCurrency()
   const rate = getFxRate(fromCurrency, baseCurrency)
-  return Math.round(amount * rate * 1_000_000) / 1_000_000
+  const atomic = convertUnits(
+    toMinor(amount, fromCurrency),
+    getCurrencyExponent(fromCurrency),
+    STABLECOIN_DECIMALS,
+    rate,
+    FX_ROUNDING,
+  )
+  return Number(unitsToDecimal(atomic, STABLECOIN_DECIMALS))
+}
+
+export interface StablecoinQuote {
+  /** Stablecoin amount (rounded to 6 decimal places) */
+  amount: number
+  /** Same amount in atomic units (10^-STABLECOIN_DECIMALS), as a decimal string */
+  amountAtomic: string
+  decimals: number
+  /** Rate actually applied, as recorded on the settlement quote */
+  fx: FxSnapshot
+}
+
+/**
+ * Convert a fee in local-currency minor units to the configured stablecoin using the
+ * FX service, returning the FxSnapshot of the rate used. Pass a registry token to quote
+ * in that token instead (FX target is the token's currency, atomic units its decimals).
+ * Throws FxUnavailableError when no fresh rate is available.
+ */
+export async function quoteStablecoin(
+  amountMinor: bigint,
+  fromCurrency: string,
+  token?: EvmToken,
+): Promise<StablecoinQuote> {
+  const baseCurrency = token?.currency ?? getStablecoinBaseCurrency()
+  const decimals = token?.decimals ?? STABLECOIN_DECIMALS
+  const fx = await fxService.getRate(fromCurrency, baseCurrency)
+  const atomic = convertUnits(
+    amountMinor,
+    getCurrencyExponent(fromCurrency),
+    decimals,
+    fx.rate,
+    FX_ROUNDING,
+  )
+  return {
+    amount: Number(unitsToDecimal(atomic, decimals)),
+    amountAtomic: atomic.toString(),
+    decimals,
+    fx: {
+      baseCurrency: fromCurrency.toUpperCase(),
+      quoteAssetSymbol: token?.symbol ?? X402_STABLECOIN,
+      rate: String(fx.rate),
+      asOf: fx.asOf.toISOString(),
+      provider: fx.provider,
+    },
+  }
 }
 
 /**
  * Format a fee amount with its currency for display.
- * e.g. formatLocalFee(37.5, "EUR") → "37.50 EUR"
+ * e.g. formatLocalFee(37.5, "EUR") → "37.50 EUR", formatLocalFee(1500, "JPY") → "1500 JPY"
  */
 export function formatLocalFee(amount: number, currency: string): string {
-  return `${amount.toFixed(2)} ${currency.toUpperCase()}`
+  return formatMinor(toMinor(amount, currency), currency)
 }
@@ -0,0 +1,241 @@
+/**
+ * Refund executors: one per rail, each sending a refund back the way the payment came.
+ *
+ * - stripe: Stripe refund of the Checkout Session's payment (services/stripe.ts)
+ * - evm: token transfer from the refund wallet back to the payer, on the chain and in the token
+ *   the payment settled with (services/blockchain.ts)
+ * - xrpl: XRPL Payment back to the source account (@parker/x402-xrpl-settlement-adapter)
+ *
+ * Executors only talk to their rail through the small client interfaces below, so each one can
+ * run against a local stand-in. getRefundExecutors() wires the real clients for the rails that
+ * are configured.
+ *
+ * execute() throws RefundRejectedError only when nothing reached the rail. A send that may have
+ * gone through (a timeout or dropped connection after the tx was signed and submitted) resolves
+ * pending with the signed tx hash, and confirm() settles it later.
+ */
+
+import type { RefundRail } from '@parker/core'
+import {
+  createXrplPaymentSender,
+  type XrplPaymentSender,
+  type XrplPaymentSubmission,
+} from '@parker/x402-xrpl-settlement-adapter'
+
+import type { RefundRecord } from '../db/queries'
+import { getTransactionOutcome, isEvmRefundEnabled, sendTokenTransfer } from './blockchain'
+import {
+  getStripeRefund,
+  isStripeEnabled,
+  isStripeRejection,
+  refundCheckoutPayment,
+  type StripeRefundResult,
+} from './stripe'
+
+export interface RefundRailResult {
+  /** Stripe refund id or refund tx hash */
+  reference: string
+  status: 'pending' | 'confirmed' | 'failed'
+  failureReason?: string
+}
+
+export interface RefundExecutor {
+  /** Send an approved refund. Called once per refund. */
+  execute(refund: RefundRecord): Promise<RefundRailResult>
+  /** Current outcome of a refund that was sent (refund.railReference is set). */
+  confirm(refund: RefundRecord): Promise<RefundRailResult>
+}
+
+export type RefundExecutors = Partial<Record<RefundRail, RefundExecutor>>
+
+/** The rail did not take the refund: nothing was sent, so its amount can be released. */
+export class RefundRejectedError extends Error {}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function requireReference(refund: RefundRecord): string {
+  if (!refund.railReference) throw new Error(`Refund ${refund.id} has not been sent`)
+  return refund.railReference
+}
+
+// ---- Stripe ----
+
+export interface StripeRefundClient {
+  refundCheckoutPayment(
+    checkoutSessionId: string,
+    amountMinor: number,
+    idempotencyKey: string,
+    metadata?: Record<string, string>,
+  ): Promise<StripeRefundResult>
+  getStripeRefund(refundId: string): Promise<StripeRefundResult>
+}
+
+function fromStripeRefund(result: StripeRefundResult): RefundRailResult {
+  const status =
+    result.status === 'succeeded'
+      ? 'confirmed'
+      : result.status === 'failed' || result.status === 'canceled'
+        ? 'failed'
+        : 'pending'
+  return {
+    reference: result.refundId,
+    status,
+    ...(status === 'failed' && { failureReason: result.failureReason ?? result.status }),
+  }
+}
+
+export function createStripeRefundExecutor(
+  client: StripeRefundClient = { refundCheckoutPayment, getStripeRefund },
+): RefundExecutor {
+  return {
+    async execute(refund) {
+      let result: StripeRefundResult
+      try {
+        result = await client.refundCheckoutPayment(
+          refund.settlementTxHash,
+          Number(refund.amount),
+          `refund:${refund.id}`,
+          { refundId: refund.id, sessionId: refund.sessionId },
+        )
+      } catch (error) {
+        // A connection error or 5xx may still have created the refund
+        if (isStripeRejection(error)) throw new RefundRejectedError(errorMessage(error))
+        throw error
+      }
+      return fromStripeRefund(result)
+    },
+    async confirm(refund) {
+      return fromStripeRefund(await client.getStripeRefund(requireReference(refund)))
+    },
+  }
+}
+
+// ---- EVM (ERC-20 tokens) ----
+
+export interface EvmRefundClient {
+  sendTokenTransfer(
+    chainId: number,
+    token: `0x${string}`,
+    to: `0x${string}`,
+    amount: bigint,
+  ): Promise<`0x${string}`>
+  getTransactionOutcome(
+    chainId: number,
+    hash: `0x${string}`,
+  ): Promise<'success' | 'reverted' | 'pending'>
+}
+
+function requireEvmChain(refund: RefundRecord): number {
+  if (refund.chainId == null) throw new RefundRejectedError('Refund has no EVM chain')
+  return refund.chainId
+}
+
+export function createEvmRefundExecutor(
+  client: EvmRefundClient = { sendTokenTransfer, getTransactionOutcome },
+): RefundExecutor {
+  return {
+    async execute(refund) {
+      if (!refund.destination || !/^0x[0-9a-fA-F]{40}$/.test(refund.destination)) {
+        throw new RefundRejectedError('Refund has no EVM payer address')
+      }
+      if (!refund.tokenAddress || !/^0x[0-9a-fA-F]{40}$/.test(refund.tokenAddress)) {
+        throw new RefundRejectedError('Refund has no EVM token address')
+      }
+      const chainId = requireEvmChain(refund)
+      let hash: `0x${string}`
+      try {
+        // Throws only when the transfer was not broadcast
+        hash = await client.sendTokenTransfer(
+          chainId,
+          refund.tokenAddress as `0x${string}`,
+          refund.destination as `0x${string}`,
+          BigInt(refund.amount),
+        )
+      } catch (error) {
+        throw new RefundRejectedError(errorMessage(error))
+      }
+      return { reference: hash, status: 'pending' }
+    },
+    async confirm(refund) {
+      const reference = requireReference(refund)
+      const outcome = await client.getTransactionOutcome(
+        requireEvmChain(refund),
+        reference as `0x${string}`,
+      )
+      if (outcome === 'success') return { reference, status: 'confirmed' }
+      if (outcome === 'reverted') {
+        return { reference, status: 'failed', failureReason: 'transfer reverted' }
+      }
+      return { reference, status: 'pending' }
+    },
+  }
+}
+
+// ---- XRPL ----
+
+export type XrplRefundClient = Pick<XrplPaymentSender, 'sendPayment' | 'getPaymentResult'>
+
+function fromXrplSubmission(submission: XrplPaymentSubmission): RefundRailResult {
+  if (!submission.validated) return { reference: submission.txHash, status: 'pending' }
+  if (submission.result === 'tesSUCCESS') {
+    return { reference: submission.txHash, status: 'confirmed' }
+  }
+  return { reference: submission.txHash, status: 'failed', failureReason: submission.result }
+}
+
+/** `issuer` is used for issued-currency refunds (the settled asset's issuer). */
+export function createXrplRefundExecutor(
+  client: XrplRefundClient,
+  issuer?: string,
+): RefundExecutor {
+  return {
+    async execute(refund) {
+      if (!refund.destination) throw new RefundRejectedError('Refund has no XRPL source account')
+      const assetCode = refund.asset?.toUpperCase() ?? 'XRP'
+      let submission: XrplPaymentSubmission
+      try {
+        // Throws only when the Payment cannot apply; an unknown outcome comes back unvalidated
+        submission = await client.sendPayment({
+          destination: refund.destination,
+          amount: BigInt(refund.amount),
+          assetCode,
+          ...(assetCode !== 'XRP' && { assetIssuer: issuer }),
+          reference: { refundId: refund.id, settlementTxHash: refund.settlementTxHash },
+        })
+      } catch (error) {
+        throw new RefundRejectedError(errorMessage(error))
+      }
+      return fromXrplSubmission(submission)
+    },
+    async confirm(refund) {
+      const reference = requireReference(refund)
+      const submission = await client.getPaymentResult(reference)
+      return submission ? fromXrplSubmission(submission) : { reference, status: 'pending' }
+    },
+  }
+}
+
+// ---- Configured rails ----
+
+let _executors: RefundExecutors | null = null
+
+/** Executors for the rails configured in this deployment. */
+export function getRefundExecutors(): RefundExecutors {
+  if (!_executors) {
+    _executors = {}
+    if (isStripeEnabled()) _executors.stripe = createStripeRefundExecutor()
+    if (isEvmRefundEnabled()) _executors.evm = createEvmRefundExecutor()
+    if (process.env.XRPL_RPC_URL && process.env.REFUND_XRPL_SEED) {
+      _executors.xrpl = createXrplRefundExecutor(
+        createXrplPaymentSender({
+          serverUrl: process.env.XRPL_RPC_URL,
+          seed: process.env.REFUND_XRPL_SEED,
+        }),
+        process.env.XRPL_ISSUER,
+      )
+    }
+  }
+  return _executors
+}
@@ -0,0 +1,283 @@
+/**
+ * Refunds of settled payments.
+ *
+ * A refund belongs to one settlement of a session: a SETTLEMENT_VERIFIED event, or a settlement
+ * that was verified on its rail but failed enforcement (held for payment review). It moves
+ * requested → approved → executed → confirmed, or ends in failed:
+ * - requested: an operator (or a payment review) asked for it; the amount is reserved
+ *   against the settlement so refunds never add up to more than was settled
+ * - approved: an operator released it; it is sent on the settlement's rail right away (EVM: on
+ *   the settlement's chain, in the token that was paid)
+ * - executed: the rail accepted it, or may have (Stripe refund id or refund tx hash recorded)
+ * - confirmed: final on the rail
+ * - failed: the rail rejected it or it was never sent; the amount is released
+ *
+ * A refund is only failed when the rail definitely did not pay it. A send whose outcome is
+ * unknown and has no tx hash (e.g. a Stripe connection error) stays approved with its amount
+ * reserved, so it cannot be requested and paid a second time.
+ *
+ * Requests are idempotent: a request with the key of a live refund returns that refund. The
+ * operator who approves a refund must not be the one who requested it.
+ * Every step is recorded in policy_events and shows on the session timeline.
+ */
+
+import type { EvmToken, RefundRail } from '@parker/core'
+import { LIFECYCLE_EVENT, getEvmChain, getEvmToken } from '@parker/core'
+
+import { db } from '../db'
+import type { RefundableSettlement, RefundRecord } from '../db/queries'
+import {
+  getRefundExecutors,
+  type RefundExecutor,
+  type RefundExecutors,
+  RefundRejectedError,
+  type RefundRailResult,
+} from './refundExecutors'
+
+type RefundErrorCode =
+  | 'NOT_FOUND'
+  | 'SETTLEMENT_NOT_FOUND'
+  | 'RAIL_UNSUPPORTED'
+  | 'PAYER_UNKNOWN'
+  | 'TOKEN_UNKNOWN'
+  | 'INVALID_AMOUNT'
+  | 'CAP_EXCEEDED'
+  | 'IDEMPOTENCY_CONFLICT'
+  | 'IDEMPOTENCY_KEY_REQUIRED'
+  | 'SAME_OPERATOR'
+  | 'INVALID_STATE'
+  | 'OUTCOME_UNKNOWN'
+
+export class RefundError extends Error {
+  code: RefundErrorCode
+
+  constructor(code: RefundErrorCode, message: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+type Operator = { id: string; wallet?: string }
+
+export interface RequestRefundInput {
+  sessionId: string
+  /** Settlement to refund; defaults to the session's latest settlement */
+  txHash?: string
+  /** Atomic units of the settlement; defaults to the full settled amount */
+  amount?: bigint
+  note: string
+  operator: Operator
+  /**
+   * Required for a partial refund, so two partial refunds of the same amount stay distinct.
+   * A full refund defaults to `<settlement tx>:<amount>`.
+   */
+  idempotencyKey?: string
+  reviewId?: string
+}
+
+const REFUND_RAILS: RefundRail[] = ['stripe', 'evm', 'xrpl']
+
+async function recordRefundEvent(
+  eventType: string,
+  refund: RefundRecord,
+  payload: Record<string, unknown> = {},
+) {
+  await db.insertPolicyEvent({
+    eventType,
+    payload: {
+      refundId: refund.id,
+      rail: refund.rail,
+      amount: refund.amount,
+      ...(refund.asset && { asset: refund.asset }),
+      ...(refund.railReference && { railReference: refund.railReference }),
+      ...payload,
+    },
+    sessionId: refund.sessionId,
+    decisionId: refund.decisionId,
+    txHash: refund.settlementTxHash,
+  })
+}
+
+/**
+ * Registry token an EVM settlement was paid in. Settlements recorded before the token address
+ * was kept are resolved by symbol, on X402_NETWORK when they do not record a chain either.
+ */
+function settlementToken(settlement: RefundableSettlement): EvmToken | undefined {
+  const chainId =
+    settlement.chainId ?? getEvmChain(process.env.X402_NETWORK || 'base-sepolia')?.chainId
+  const token = settlement.tokenAddress ?? settlement.asset
+  return chainId != null && token ? getEvmToken(chainId, token) : undefined
+}
+
+/**
+ * Request a refund of (part of) a settlement. Returns the existing refund, with `created: false`,
+ * when the idempotency key belongs to a refund that has not failed.
+ */
+export async function requestRefund(
+  input: RequestRefundInput,
+): Promise<{ refund: RefundRecord; created: boolean }> {
+  const settlement = await db.getRefundableSettlement(input.sessionId, input.txHash)
+  if (!settlement) {
+    throw new RefundError('SETTLEMENT_NOT_FOUND', 'No settlement to refund for this session')
+  }
+  const rail = settlement.rail as RefundRail
+  if (!REFUND_RAILS.includes(rail)) {
+    throw new RefundError('RAIL_UNSUPPORTED', `Refunds are not supported on ${settlement.rail}`)
+  }
+  if (rail !== 'stripe' && !settlement.payer) {
+    throw new RefundError('PAYER_UNKNOWN', 'The settlement does not record who paid')
+  }
+  const token = rail === 'evm' ? settlementToken(settlement) : undefined
+  if (rail === 'evm' && !token) {
+    throw new RefundError('TOKEN_UNKNOWN', 'The settlement does not record a known token')
+  }
+
+  const settledAmount = BigInt(settlement.amount)
+  const amount = input.amount ?? settledAmount
+  if (amount <= 0n) {
+    throw new RefundError('INVALID_AMOUNT', 'Refund amount must be positive')
+  }
+  if (!input.idempotencyKey && amount !== settledAmount) {
+    throw new RefundError('IDEMPOTENCY_KEY_REQUIRED', 'A partial refund needs an idempotency key')
+  }
+
+  const result = await db.createRefund({
+    sessionId: input.sessionId,
+    reviewId: input.reviewId,
+    decisionId: settlement.decisionId,
+    settlementTxHash: settlement.txHash,
+    rail,
+    asset: settlement.asset,
+    ...(token && { chainId: token.chainId, tokenAddress: token.address }),
+    destination: rail === 'stripe' ? undefined : settlement.payer,
+    amount,
+    settledAmount,
+    idempotencyKey: input.idempotencyKey ?? `${settlement.txHash}:${amount}`,
+    note: input.note,
+    requestedBy: input.operator,
+  })
+
+  if (result.status === 'cap_exceeded') {
+    throw new RefundError(
+      'CAP_EXCEEDED',
+      `Refund exceeds the settled amount (${settledAmount}, already refunded ${result.refundedAmount})`,
+    )
+  }
+  if (result.status === 'existing') {
+    const { refund } = result
+    if (refund.settlementTxHash !== settlement.txHash || refund.amount !== amount.toString()) {
+      throw new RefundError(
+        'IDEMPOTENCY_CONFLICT',
+        'Idempotency key was already used for a different refund',
+      )
+    }
+    return { refund, created: false }
+  }
+
+  await recordRefundEvent(LIFECYCLE_EVENT.REFUND_REQUESTED, result.refund, {
+    settledAmount: result.refund.settledAmount,
+    note: input.note,
+    operator: input.operator,
+    ...(input.reviewId && { reviewId: input.reviewId }),
+    source: settlement.eventType,
+  })
+  return { refund: result.refund, created: true }
+}
+
+async function failRefund(refund: RefundRecord, reason: string, reference?: string) {
+  const failed = await db.markRefundFailed(refund.id, reason, reference)
+  if (!failed) return (await db.getRefund(refund.id)) ?? refund
+  await recordRefundEvent(LIFECYCLE_EVENT.REFUND_FAILED, failed, { reason })
+  return failed
+}
+
+/** Record what the rail said about a refund that was sent (executed). */
+async function applyOutcome(refund: RefundRecord, result: RefundRailResult) {
+  if (result.status === 'failed') {
+    return failRefund(refund, result.failureReason ?? 'rejected by rail', result.reference)
+  }
+  if (result.status === 'pending') return refund
+  const confirmed = await db.markRefundConfirmed(refund.id)
+  if (!confirmed) return (await db.getRefund(refund.id)) ?? refund
+  await recordRefundEvent(LIFECYCLE_EVENT.REFUND_CONFIRMED, confirmed)
+  return confirmed
+}
+
+/** Same operator id, or the same verified wallet */
+function sameOperator(a: Operator, b: Operator): boolean {
+  if (a.id.trim().toLowerCase() === b.id.trim().toLowerCase()) return true
+  return Boolean(a.wallet && b.wallet && a.wallet.toLowerCase() === b.wallet.toLowerCase())
+}
+
+function executorFor(refund: RefundRecord, executors: RefundExecutors): RefundExecutor {
+  const executor = executors[refund.rail]
+  if (!executor) {
+    throw new RefundError('RAIL_UNSUPPORTED', `Refunds on ${refund.rail} are not configured`)
+  }
+  return executor
+}
+
+/**
+ * Approve a requested refund and send it. Only the caller whose approval lands sends the
+ * refund, so a double approval cannot pay twice.
+ */
+export async function approveRefund(
+  refundId: string,
+  input: { note?: string; operator: Operator },
+  executors: RefundExecutors = getRefundExecutors(),
+): Promise<RefundRecord> {
+  const refund = await db.getRefund(refundId)
+  if (!refund) throw new RefundError('NOT_FOUND', 'Refund not found')
+  if (refund.status !== 'requested') {
+    throw new RefundError('INVALID_STATE', `Refund is ${refund.status}`)
+  }
+  if (sameOperator(refund.requestedBy, input.operator)) {
+    throw new RefundError(
+      'SAME_OPERATOR',
+      'A refund must be approved by another operator than the one who requested it',
+    )
+  }
+  const executor = executorFor(refund, executors)
+
+  const approved = await db.approveRefund(refund.id, input.operator)
+  if (!approved) throw new RefundError('INVALID_STATE', 'Refund was approved concurrently')
+  await recordRefundEvent(LIFECYCLE_EVENT.REFUND_APPROVED, approved, {
+    operator: input.operator,
+    ...(input.note && { note: input.note }),
+  })
+
+  let result: RefundRailResult
+  try {
+    result = await executor.execute(approved)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (error instanceof RefundRejectedError) return failRefund(approved, message)
+    throw new RefundError(
+      'OUTCOME_UNKNOWN',
+      `Refund may have been sent on ${approved.rail} (${message}); it stays approved until checked on the rail`,
+    )
+  }
+  if (result.status === 'failed') {
+    return failRefund(approved, result.failureReason ?? 'rejected by rail', result.reference)
+  }
+
+  const executed = await db.markRefundExecuted(approved.id, result.reference)
+  if (!executed) throw new RefundError('INVALID_STATE', 'Refund changed while it was sent')
+  await recordRefundEvent(LIFECYCLE_EVENT.REFUND_EXECUTED, executed, {
+    ...(executed.destination && { destination: executed.destination }),
+  })
+  return applyOutcome(executed, result)
+}
+
+/** Ask the rail whether an executed refund is final. */
+export async function confirmRefund(
+  refundId: string,
+  executors: RefundExecutors = getRefundExecutors(),
+): Promise<RefundRecord> {
+  const refund = await db.getRefund(refundId)
+  if (!refund) throw new RefundError('NOT_FOUND', 'Refund not found')
+  if (refund.status !== 'executed') {
+    throw new RefundError('INVALID_STATE', `Refund is ${refund.status}`)
+  }
+  return applyOutcome(refund, await executorFor(refund, executors).confirm(refund))
+}
@@ -0,0 +1,187 @@
+/**
+ * Risk scoring: a 0..100 score from signals available at the gate, fed into entry and exit
+ * policy evaluation as `riskScore`. Lots choose the cut-offs (Lot.riskThresholds); each scored
+ * request with contributing factors is recorded as a RISK_SIGNAL lifecycle event.
+ *
+ * Factors (points are summed and capped at 100):
+ *   LOW_ALPR_CONFIDENCE     plate read from an image below 90% confidence (up to 40)
+ *   PLATE_ACTIVE_ELSEWHERE  the plate has an open session at another lot (40)
+ *   REPEATED_FAILED_EXITS   two or more policy-denied exits in the lookback window (up to 30)
+ *   PAYMENT_FAILURES        rejected payments / settlements in the lookback window (up to 30)
+ *   UNUSUAL_FEE             exit fee above twice the lot's median fee (15, or 30 above 5x)
+ */
+
+import type { LotRiskThresholds } from '@parker/core'
+import { LIFECYCLE_EVENT } from '@parker/core'
+import type { InsertPolicyEventInput, PlateRiskHistory } from '../db/queries'
+
+/** How far back failed exits and payment failures count. */
+export const RISK_LOOKBACK_DAYS = 30
+
+const ALPR_CONFIDENCE_FLOOR = 0.9
+
+export type RiskFactorCode =
+  | 'LOW_ALPR_CONFIDENCE'
+  | 'PLATE_ACTIVE_ELSEWHERE'
+  | 'REPEATED_FAILED_EXITS'
+  | 'PAYMENT_FAILURES'
+  | 'UNUSUAL_FEE'
+
+export interface RiskFactor {
+  code: RiskFactorCode
+  points: number
+  /** Observed values behind the factor (for the RISK_SIGNAL event) */
+  detail: Record<string, unknown>
+}
+
+export interface RiskAssessment {
+  /** 0..100 */
+  score: number
+  factors: RiskFactor[]
+}
+
+export interface RiskSignals {
+  /** ALPR confidence (0..1); only set when the plate was read from an image */
+  alprConfidence?: number
+  /** Other lots where the plate has an open session */
+  otherActiveLots?: string[]
+  failedExits?: number
+  paymentFailures?: number
+  /** Exit fee and the lot's median fee, in lot currency */
+  fee?: number
+  medianFee?: number | null
+}
+
+/** Score signals; pure (no DB). */
+export function scoreRisk(signals: RiskSignals): RiskAssessment {
+  const factors: RiskFactor[] = []
+
+  const confidence = signals.alprConfidence
+  if (confidence !== undefined && confidence < ALPR_CONFIDENCE_FLOOR) {
+    factors.push({
+      code: 'LOW_ALPR_CONFIDENCE',
+      points: Math.min(40, Math.round((ALPR_CONFIDENCE_FLOOR - confidence) * 100)),
+      detail: { confidence },
+    })
+  }
+
+  if (signals.otherActiveLots && signals.otherActiveLots.length > 0) {
+    factors.push({
+      code: 'PLATE_ACTIVE_ELSEWHERE',
+      points: 40,
+      detail: { lotIds: signals.otherActiveLots },
+    })
+  }
+
+  const failedExits = signals.failedExits ?? 0
+  if (failedExits >= 2) {
+    factors.push({
+      code: 'REPEATED_FAILED_EXITS',
+      points: Math.min(30, failedExits * 10),
+      detail: { count: failedExits, lookbackDays: RISK_LOOKBACK_DAYS },
+    })
+  }
+
+  const paymentFailures = signals.paymentFailures ?? 0
+  if (paymentFailures > 0) {
+    factors.push({
+      code: 'PAYMENT_FAILURES',
+      points: Math.min(30, paymentFailures * 10),
+      detail: { count: paymentFailures, lookbackDays: RISK_LOOKBACK_DAYS },
+    })
+  }
+
+  const { fee, medianFee } = signals
+  if (fee !== undefined && medianFee != null && medianFee > 0 && fee > 2 * medianFee) {
+    factors.push({
+      code: 'UNUSUAL_FEE',
+      points: fee > 5 * medianFee ? 30 : 15,
+      detail: { fee, medianFee },
+    })
+  }
+
+  const total = factors.reduce((sum, f) => sum + f.points, 0)
+  return { score: Math.min(100, total), factors }
+}
+
+/** DB reads and event sink used by assessRisk (the `db` object satisfies this). */
+export interface RiskSignalSources {
+  getOtherActiveSessionLots: (plate: string, lotId: string) => Promise<string[]>
+  getPlateRiskHistory: (plate: string, since: Date) => Promise<PlateRiskHistory>
+  getMedianFeeForLot: (lotId: string) => Promise<number | null>
+  insertPolicyEvent: (input: InsertPolicyEventInput) => Promise<unknown>
+}
+
+export interface AssessRiskInput {
+  stage: 'entry' | 'exit'
+  plate: string
+  lotId: string
+  sessionId?: string
+  alprConfidence?: number
+  /** Exit fee in lot currency; enables the UNUSUAL_FEE factor */
+  fee?: number
+  thresholds?: LotRiskThresholds
+}
+
+/**
+ * Gather signals for a plate at a lot, score them, and emit a RISK_SIGNAL event (signal
+ * RISK_SCORE) listing the contributing factors when there are any.
+ */
+export async function assessRisk(
+  input: AssessRiskInput,
+  sources: RiskSignalSources,
+): Promise<RiskAssessment> {
+  const since = new Date(Date.now() - RISK_LOOKBACK_DAYS * 24 * 60 * 60_000)
+  const [otherActiveLots, history, medianFee] = await Promise.all([
+    sources.getOtherActiveSessionLots(input.plate, input.lotId),
+    sources.getPlateRiskHistory(input.plate, since),
+    input.fee !== undefined ? sources.getMedianFeeForLot(input.lotId) : Promise.resolve(null),
+  ])
+
+  const assessment = scoreRisk({
+    alprConfidence: input.alprConfidence,
+    otherActiveLots,
+    failedExits: history.failedExits,
+    paymentFailures: history.paymentFailures,
+    fee: input.fee,
+    medianFee,
+  })
+
+  if (assessment.factors.length > 0) {
+    await sources.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.RISK_SIGNAL,
+      payload: {
+        signal: 'RISK_SCORE',
+        stage: input.stage,
+        score: assessment.score,
+        factors: assessment.factors,
+        thresholds: input.thresholds ?? null,
+        lotId: input.lotId,
+        plateNumber: input.plate,
+      },
+      sessionId: input.sessionId,
+    })
+  }
+  return assessment
+}
+
+/** Validate lot risk thresholds from a request body; returns an error message or null. */
+export function validateRiskThresholds(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'riskThresholds must be an object'
+  }
+  const { requireApproval, deny, ...rest } = value as Record<string, unknown>
+  const unknown = Object.keys(rest)
+  if (unknown.length > 0) return `riskThresholds has unknown field: ${unknown[0]}`
+  const isScore = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 100
+  if (!isScore(requireApproval)) {
+    return 'riskThresholds.requireApproval must be a number between 0 and 100'
+  }
+  if (deny !== undefined) {
+    if (!isScore(deny)) return 'riskThresholds.deny must be a number between 0 and 100'
+    if ((deny as number) <= (requireApproval as number)) {
+      return 'riskThresholds.deny must be greater than requireApproval'
+    }
+  }
+  return null
+}
@@ -1,6 +1,15 @@
 import crypto, { createHash, randomUUID } from 'node:crypto'
 import type { Asset, PaymentPolicyDecision, Rail } from '@parker/policy-core'
-
+import type { SpendLedgerTotals } from '../db/queries'
+
+/**
+ * What a budget's maxAmountMinor covers (settled spend from the spend ledger, in the lot's day
+ * window, plus the payment being checked):
+ * - SESSION: this session
+ * - DAY: every vehicle of the owner wallet
+ * - VEHICLE: this vehicle, across sessions
+ * - FLEET: every vehicle of the fleet named by scopeId
+ */
 export type BudgetScope = 'SESSION' | 'DAY' | 'VEHICLE' | 'FLEET'
 
 export interface SessionBudgetAuthorization {
@@ -108,9 +117,36 @@ function assetMatches(a: Asset, b: Asset): boolean {
   return canonicalJson(a) === canonicalJson(b)
 }
 
+/** Spend already counted against the budget's scope, or null when it can't be determined. */
+function scopeSpentMinor(
+  authorization: SessionBudgetAuthorization,
+  spend: SpendLedgerTotals | undefined,
+): bigint | null {
+  if (authorization.budgetScope === 'SESSION') return spend?.sessionMinor ?? 0n
+  if (!spend) return null
+  switch (authorization.budgetScope) {
+    case 'DAY':
+      return spend.ownerDayMinor
+    case 'VEHICLE':
+      return spend.vehicleDayMinor
+    case 'FLEET':
+      return authorization.scopeId && authorization.scopeId === spend.fleetId
+        ? spend.fleetDayMinor
+        : null
+    default:
+      return null
+  }
+}
+
 export function verifySignedSessionBudgetAuthorizationForDecision(
   envelope: SignedSessionBudgetAuthorization,
-  input: { sessionId: string; decision: PaymentPolicyDecision; nowMs?: number },
+  input: {
+    sessionId: string
+    decision: PaymentPolicyDecision
+    nowMs?: number
+    /** Ledger totals in the authorization's currency; required for non-SESSION scopes */
+    spend?: SpendLedgerTotals
+  },
 ): { ok: true } | { ok: false; reason: 'invalid_signature' | 'expired' | 'mismatch' } {
   if (envelope.keyId !== getExpectedKeyId()) {
     return { ok: false, reason: 'invalid_signature' }
@@ -136,7 +172,8 @@ export function verifySignedSessionBudgetAuthorizationForDecision(
   if (authorization.sessionId !== input.sessionId || authorization.policyHash !== decision.policyHash) {
     return { ok: false, reason: 'mismatch' }
   }
-  if (authorization.budgetScope !== 'SESSION') {
+  const spentMinor = scopeSpentMinor(authorization, input.spend)
+  if (spentMinor === null) {
     return { ok: false, reason: 'mismatch' }
   }
   if (decision.rail && !authorization.allowedRails.includes(decision.rail)) {
@@ -153,7 +190,7 @@ export function verifySignedSessionBudgetAuthorizationForDecision(
   if (decision.priceFiat?.amountMinor) {
     const budgetMinor = BigInt(authorization.maxAmountMinor)
     const decisionMinor = BigInt(decision.priceFiat.amountMinor)
-    if (decisionMinor > budgetMinor) {
+    if (spentMinor + decisionMinor > budgetMinor) {
       return { ok: false, reason: 'mismatch' }
     }
   }
@@ -1,4 +1,10 @@
-import type { SessionRecord } from '@parker/core'
+import type {
+  DebtSource,
+  OperatorOverrideAction,
+  OperatorOverrideReason,
+  SessionComp,
+  SessionRecord,
+} from '@parker/core'
 import { LIFECYCLE_EVENT } from '@parker/core'
 
 import { db } from '../db'
@@ -8,6 +14,8 @@ interface ActivateSessionInput {
   plateNumber: string
   lotId: string
   tokenId?: number
+  /** Hedera tx that minted the session NFT (tokenId) */
+  mintTxHash?: string
 }
 
 interface LifecycleTransitionInput {
@@ -18,6 +26,14 @@ interface LifecycleTransitionInput {
   feeAmount?: number
   feeCurrency?: string
   stripePaymentId?: string
+  exitTime?: Date
+}
+
+interface OperatorOverrideInput {
+  reasonCode: OperatorOverrideReason
+  note: string
+  /** Who performed the override: operator id from the gate app, plus the signed-in wallet if any */
+  operator: { id: string; wallet?: string }
 }
 
 type SessionLifecycleErrorCode =
@@ -25,6 +41,7 @@ type SessionLifecycleErrorCode =
   | 'MISSING_POLICY_GRANT'
   | 'MISSING_DECISION'
   | 'MISSING_SETTLEMENT_PROOF'
+  | 'OVERRIDE_NOT_ALLOWED'
 
 export class SessionLifecycleError extends Error {
   code: SessionLifecycleErrorCode
@@ -56,13 +73,15 @@ export class SessionLifecycleService {
   }
 
   async activateSession(input: ActivateSessionInput): Promise<SessionRecord> {
-    const session = await db.createSession(input)
+    const { mintTxHash, ...sessionInput } = input
+    const session = await db.createSession(sessionInput)
     await db.insertPolicyEvent({
       eventType: LIFECYCLE_EVENT.SESSION_CREATED,
       payload: {
         plateNumber: input.plateNumber,
         lotId: input.lotId,
         tokenId: input.tokenId ?? null,
+        ...(mintTxHash && { mintTxHash }),
       },
       sessionId: session.id,
     })
@@ -220,7 +239,7 @@ export class SessionLifecycleService {
     if (session.status !== 'payment_verified' && session.status !== 'payment_required' && session.status !== 'active' && session.status !== 'payment_failed') {
       this.assertCanTransition(session, 'closed')
     }
-    return db.settleSessionAfterVerified(session, {
+    const closed = await db.settleSessionAfterVerified(session, {
       reason: input.reason,
       decisionId: input.decisionId,
       txHash: input.txHash,
@@ -229,6 +248,223 @@ export class SessionLifecycleService {
       feeCurrency: input.feeCurrency,
       stripePaymentId: input.stripePaymentId,
     })
+    if (closed) await this.collectDebts(closed, input.txHash)
+    return closed
+  }
+
+  /**
+   * Close a session whose car already left without paying (gate opened while the API was
+   * unreachable). No fee is recorded on the session: it is owed as a plate debt instead.
+   */
+  async closeUnpaidExit(
+    session: SessionRecord,
+    input: { exitTime: Date; source: DebtSource; debtId?: string },
+  ): Promise<SessionRecord | null> {
+    const reason = 'unpaid_exit'
+    const metadata = { source: input.source, ...(input.debtId && { debtId: input.debtId }) }
+    const closed = await this.closeOutsidePaymentFlow(session, {
+      reason,
+      metadata,
+      exitTime: input.exitTime,
+    })
+    if (!closed) return null
+
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.SESSION_CLOSED,
+      payload: { reason, metadata },
+      sessionId: closed.id,
+    })
+    return closed
+  }
+
+  /**
+   * Operator force-close (car towed, barrier lifted by hand): closes the session without a
+   * settlement, leaving any fee unpaid. Also closes payment_verified sessions stuck before close.
+   */
+  async forceCloseSession(
+    session: SessionRecord,
+    input: OperatorOverrideInput,
+  ): Promise<SessionRecord | null> {
+    return this.closeByOperator(session, 'force_close', input)
+  }
+
+  /** Operator void: closes the session with a zero fee (recorded in the spend ledger). */
+  async voidSession(
+    session: SessionRecord,
+    input: OperatorOverrideInput & { feeCurrency: string },
+  ): Promise<SessionRecord | null> {
+    if (session.status === 'payment_verified') {
+      throw new SessionLifecycleError('OVERRIDE_NOT_ALLOWED', 'Cannot void a paid session')
+    }
+    return this.closeByOperator(session, 'void', input, {
+      feeAmount: 0,
+      feeCurrency: input.feeCurrency,
+    })
+  }
+
+  /** Operator comp: discount applied to the exit fee. The session stays open. */
+  async compSession(
+    session: SessionRecord,
+    input: OperatorOverrideInput & { comp: SessionComp },
+  ): Promise<SessionRecord | null> {
+    if (session.status === 'payment_verified') {
+      throw new SessionLifecycleError('OVERRIDE_NOT_ALLOWED', 'Cannot comp a paid session')
+    }
+    const comped = await db.setSessionComp(session.id, input.comp)
+    if (!comped) {
+      throw new SessionLifecycleError('INVALID_TRANSITION', `Cannot comp a ${session.status} session`)
+    }
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.SESSION_COMPED,
+      payload: {
+        reasonCode: input.reasonCode,
+        note: input.note,
+        operator: input.operator,
+        comp: input.comp,
+        previousComp: session.comp ?? null,
+      },
+      sessionId: session.id,
+    })
+    return comped
+  }
+
+  /**
+   * Payment review accept: the operator takes a settlement that policy enforcement rejected
+   * as payment and closes the session (fee = the decision's price).
+   */
+  async acceptReviewedPayment(
+    session: SessionRecord,
+    input: {
+      reviewId: string
+      operator: { id: string; wallet?: string }
+      decisionId?: string
+      txHash?: string
+      rail?: string
+      feeAmount?: number
+      feeCurrency?: string
+    },
+  ): Promise<SessionRecord | null> {
+    const reason = 'payment_review_accepted'
+    const metadata = { reviewId: input.reviewId, operator: input.operator, rail: input.rail }
+    const closed = await this.closeOutsidePaymentFlow(session, {
+      reason,
+      metadata,
+      decisionId: input.decisionId,
+      txHash: input.txHash,
+      feeAmount: input.feeAmount,
+      feeCurrency: input.feeCurrency,
+    })
+    if (!closed) return null
+
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.SESSION_CLOSED,
+      payload: { reason, metadata },
+      sessionId: closed.id,
+      decisionId: input.decisionId,
+      txHash: input.txHash,
+    })
+    await this.collectDebts(closed, input.txHash)
+    return closed
+  }
+
+  /**
+   * Close path for decisions taken outside the payment flow (overrides, payment reviews).
+   * active / payment_required go through approval_required; approval_required,
+   * payment_failed and payment_verified close directly.
+   */
+  private async closeOutsidePaymentFlow(
+    session: SessionRecord,
+    input: LifecycleTransitionInput,
+  ): Promise<SessionRecord | null> {
+    const { reason, metadata } = input
+    let current = session
+    if (current.status === 'active' || current.status === 'payment_required') {
+      this.assertCanTransition(current, 'approval_required')
+      const held = await db.transitionSession(current, { to: 'approval_required', reason, metadata })
+      if (!held) return null
+      current = held
+    }
+    this.assertCanTransition(current, 'closed')
+
+    return db.transitionSession(current, {
+      to: 'closed',
+      reason,
+      decisionId: input.decisionId,
+      txHash: input.txHash,
+      metadata: {
+        ...metadata,
+        // payment_verified is only reached after the settlement event is stored
+        ...(current.status === 'payment_verified' && {
+          settlementEventPersisted: true,
+          allowDelayedNftBurn: true,
+        }),
+      },
+      feeAmount: input.feeAmount,
+      feeCurrency: input.feeCurrency,
+      exitTime: input.exitTime,
+    })
+  }
+
+  /**
+   * Plate debts attached to a session (added to its exit fee) are paid by its settlement.
+   * Each collection is recorded on the timeline of the session that left unpaid.
+   */
+  private async collectDebts(session: SessionRecord, txHash?: string): Promise<void> {
+    const collected = await db.collectSessionDebts(session.id, txHash)
+    for (const debt of collected) {
+      await db.insertPolicyEvent({
+        eventType: LIFECYCLE_EVENT.DEBT_COLLECTED,
+        payload: {
+          debtId: debt.id,
+          amountMinor: debt.amountMinor,
+          currency: debt.currency,
+          collectedBySessionId: session.id,
+        },
+        sessionId: debt.sessionId,
+        txHash,
+      })
+    }
+  }
+
+  private async closeByOperator(
+    session: SessionRecord,
+    action: Exclude<OperatorOverrideAction, 'comp'>,
+    input: OperatorOverrideInput,
+    fee?: { feeAmount: number; feeCurrency: string },
+  ): Promise<SessionRecord | null> {
+    const reason = action === 'void' ? 'operator_void' : 'operator_force_close'
+    const metadata = {
+      operatorOverride: action,
+      reasonCode: input.reasonCode,
+      operator: input.operator,
+    }
+
+    const closed = await this.closeOutsidePaymentFlow(session, {
+      reason,
+      metadata,
+      feeAmount: fee?.feeAmount,
+      feeCurrency: fee?.feeCurrency,
+    })
+    if (!closed) return null
+
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.SESSION_CLOSED,
+      payload: { reason, metadata },
+      sessionId: closed.id,
+    })
+    await db.insertPolicyEvent({
+      eventType:
+        action === 'void' ? LIFECYCLE_EVENT.SESSION_VOIDED : LIFECYCLE_EVENT.SESSION_FORCE_CLOSED,
+      payload: {
+        reasonCode: input.reasonCode,
+        note: input.note,
+        operator: input.operator,
+        fromState: session.status,
+        ...(fee && { feeAmount: fee.feeAmount, feeCurrency: fee.feeCurrency }),
+      },
+      sessionId: closed.id,
+    })
+    return closed
   }
 
   async denySession(
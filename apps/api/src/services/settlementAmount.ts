@@ -0,0 +1,149 @@
+/**
+ * Settlement amount stance of a lot (Lot.amountTolerance).
+ *
+ * Every crypto settlement path (gate exit with a tx hash, EVM and XRPL watchers) checks the
+ * amount received against the quote with @parker/core checkSettlementAmount and
+ * hands the check to enforcement with the settlement. Under the tolerant stance:
+ * - a shortfall within underpaymentBps settles the session; the events report the delta
+ * - an over-payment settles it and the excess becomes driver credit (driver_credits)
+ * - with allowPartial, the watchers count payments short of the quote
+ *   (settlement_partial_payments) until their sum settles it
+ *
+ * Lots without a stance keep the earlier checks: exact on XRPL, up to 1% under-payment on EVM.
+ *
+ * x402 payments are checked against the exit decision's quote for the token paid, and gasless
+ * authorizations must cover that quote before they are relayed.
+ */
+
+import type { AmountCheck, AmountTolerance, DriverCredit, EvmToken, Lot } from '@parker/core'
+import { LIFECYCLE_EVENT, decimalToUnits, normalizePlate, unitsToDecimal } from '@parker/core'
+import type { PaymentPolicyDecision } from '@parker/policy-core'
+
+import { db } from '../db'
+import type { DriverCreditRecord } from '../db/queries'
+
+export type AmountRail = 'xrpl' | 'evm'
+
+/** Stance of lots without amountTolerance */
+export const DEFAULT_AMOUNT_TOLERANCE: Record<AmountRail, AmountTolerance> = {
+  xrpl: { stance: 'strictExact' },
+  evm: { stance: 'tolerant', underpaymentBps: 100 },
+}
+
+export function getAmountTolerance(
+  lot: Pick<Lot, 'amountTolerance'> | null | undefined,
+  rail: AmountRail,
+): AmountTolerance {
+  return lot?.amountTolerance ?? DEFAULT_AMOUNT_TOLERANCE[rail]
+}
+
+/**
+ * Atomic units of `token` an x402 payment of a session must settle: the EVM quote for that
+ * token in the session's latest exit decision, in the token's decimals. Null without one.
+ */
+export async function getX402QuotedAmount(
+  sessionId: string,
+  token: EvmToken,
+): Promise<bigint | null> {
+  const decision = (await db.getLatestPolicyEventPayload(
+    sessionId,
+    LIFECYCLE_EVENT.PAYMENT_DECISION_CREATED,
+  )) as PaymentPolicyDecision | null
+  const quote = decision?.settlementQuotes?.find(
+    (q) =>
+      q.rail === 'evm' &&
+      q.asset?.kind === 'ERC20' &&
+      q.asset.chainId === token.chainId &&
+      q.asset.token.toLowerCase() === token.address.toLowerCase(),
+  )
+  if (!quote) return null
+  const { amount, decimals } = quote.amount
+  return decimalToUnits(unitsToDecimal(BigInt(amount), decimals), token.decimals, 'ceil')
+}
+
+/**
+ * Amount a gasless x402 exit request (`{ plateNumber, lotId }`) must authorize before it is
+ * relayed: the quote of the plate's active session at the lot. Null when there is none.
+ */
+export async function getX402AmountDue(body: unknown, token: EvmToken): Promise<bigint | null> {
+  const { plateNumber, lotId } = (body ?? {}) as { plateNumber?: unknown; lotId?: unknown }
+  if (typeof plateNumber !== 'string' || typeof lotId !== 'string') return null
+  const session = await db.getActiveSession(normalizePlate(plateNumber))
+  if (!session || session.lotId !== lotId) return null
+  return getX402QuotedAmount(session.id, token)
+}
+
+export interface OverpaymentCreditInput {
+  check: AmountCheck
+  sessionId: string
+  plateNumber: string
+  lotId: string
+  rail: string
+  asset: unknown
+  payer?: string
+  txHash?: string
+  decisionId?: string
+  paymentId?: string
+}
+
+/**
+ * Record the over-payment of a settled session as driver credit (CREDIT_RECORDED). No-op
+ * when the check carries no credit or the session already has one. The session is settled
+ * either way: a failure is logged, not thrown.
+ */
+export async function recordOverpaymentCredit(
+  input: OverpaymentCreditInput,
+): Promise<DriverCreditRecord | null> {
+  const { check, sessionId, txHash } = input
+  const amount = BigInt(check.credit)
+  if (amount <= 0n) return null
+
+  try {
+    const credit = await db.createDriverCredit({
+      sessionId,
+      plateNumber: input.plateNumber,
+      lotId: input.lotId,
+      driverWallet: input.payer,
+      rail: input.rail,
+      asset: input.asset,
+      amount,
+      txHash,
+    })
+    if (credit) {
+      await db.insertPolicyEvent({
+        eventType: LIFECYCLE_EVENT.CREDIT_RECORDED,
+        payload: {
+          creditId: credit.id,
+          amount: credit.amount,
+          rail: input.rail,
+          asset: input.asset,
+          expected: check.expected,
+          received: check.received,
+        },
+        paymentId: input.paymentId,
+        sessionId,
+        decisionId: input.decisionId,
+        txHash,
+      })
+    }
+    return credit
+  } catch (error) {
+    console.error(`Failed to record driver credit for session=${sessionId}:`, error)
+    return null
+  }
+}
+
+/** What the driver sees about a credit of their plate. */
+export function toDriverCredit(credit: DriverCreditRecord): DriverCredit {
+  return {
+    id: credit.id,
+    plateNumber: credit.plateNumber,
+    lotId: credit.lotId,
+    sessionId: credit.sessionId,
+    rail: credit.rail,
+    asset: credit.asset,
+    amount: credit.amount,
+    txHash: credit.txHash,
+    createdAt: credit.createdAt,
+  }
+}
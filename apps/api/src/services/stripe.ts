@@ -6,6 +6,7 @@
  */
 
 import Stripe from 'stripe'
+import { toMinor } from '@parker/core'
 import type { Lot, SessionRecord } from '@parker/core'
 
 // ---- Configuration ----
@@ -54,8 +55,8 @@ export async function createParkingCheckout(
 ): Promise<{ checkoutUrl: string; stripeSessionId: string }> {
   const stripe = getStripe()
 
-  // Stripe expects amounts in the smallest currency unit (cents, agorot, etc.)
-  const amountInSmallestUnit = Math.round(feeAmount * 100)
+  // Stripe expects amounts in the smallest currency unit (cents, agorot; whole yen for JPY)
+  const amountInSmallestUnit = Number(toMinor(feeAmount, lot.currency))
 
   const metadata: Record<string, string> = {
     sessionId: session.id,
@@ -117,3 +118,63 @@ export function verifyWebhookSignature(rawBody: Buffer, signature: string): Stri
   const stripe = getStripe()
   return stripe.webhooks.constructEvent(rawBody, signature, STRIPE_WEBHOOK_SECRET)
 }
+
+// ---- Refunds ----
+
+export interface StripeRefundResult {
+  refundId: string
+  /** Stripe refund status: pending, requires_action, succeeded, failed or canceled */
+  status: string
+  failureReason?: string
+}
+
+function toRefundResult(refund: Stripe.Refund): StripeRefundResult {
+  return {
+    refundId: refund.id,
+    status: refund.status ?? 'pending',
+    failureReason: refund.failure_reason ?? undefined,
+  }
+}
+
+/**
+ * Refund (part of) the payment behind a Checkout Session. The idempotency key is passed to
+ * Stripe, so a retried call returns the same refund instead of issuing a second one.
+ *
+ * @param checkoutSessionId - Checkout Session id recorded as the settlement tx hash
+ * @param amountMinor - Amount to refund in the smallest currency unit
+ */
+export async function refundCheckoutPayment(
+  checkoutSessionId: string,
+  amountMinor: number,
+  idempotencyKey: string,
+  metadata: Record<string, string> = {},
+): Promise<StripeRefundResult> {
+  const stripe = getStripe()
+  const checkoutSession = await stripe.checkout.sessions.retrieve(checkoutSessionId)
+  const paymentIntent =
+    typeof checkoutSession.payment_intent === 'string'
+      ? checkoutSession.payment_intent
+      : checkoutSession.payment_intent?.id
+  if (!paymentIntent) {
+    throw new Error(`Checkout Session ${checkoutSessionId} has no payment to refund`)
+  }
+
+  const refund = await stripe.refunds.create(
+    { payment_intent: paymentIntent, amount: amountMinor, metadata },
+    { idempotencyKey },
+  )
+  return toRefundResult(refund)
+}
+
+/**
+ * True when a Stripe call failed without Stripe carrying it out: a client error (4xx) or an error
+ * before the request was sent. Connection errors and 5xx leave the outcome unknown.
+ */
+export function isStripeRejection(error: unknown): boolean {
+  if (!(error instanceof Stripe.errors.StripeError)) return true
+  return error.statusCode !== undefined && error.statusCode < 500
+}
+
+export async function getStripeRefund(refundId: string): Promise<StripeRefundResult> {
+  return toRefundResult(await getStripe().refunds.retrieve(refundId))
+}
@@ -24,6 +24,8 @@ interface XamanPaymentIntent {
   policyHash?: string
   rail?: string
   asset?: unknown
+  /** Intent's destination tag; lets the XRPL watcher match the payment too */
+  destinationTag?: number
 }
 
 const DEFAULT_XAMAN_API_URL = 'https://xumm.app'
@@ -98,6 +100,7 @@ export async function createXamanPayloadForPendingPayment(
     txjson: {
       TransactionType: 'Payment',
       Destination: pending.receiverWallet,
+      ...(pending.destinationTag != null && { DestinationTag: pending.destinationTag }),
       Amount: amount,
       Memos: [
         {
@@ -0,0 +1,510 @@
+/**
+ * XRPL payment watcher.
+ *
+ * Subscribes to an operator account's validated transactions over the XRPL WebSocket API
+ * (@parker/x402-xrpl-settlement-adapter) to auto-settle parking sessions paid with a plain
+ * Payment from any XRPL wallet: no tx hash to paste, no Xaman payload to poll.
+ *
+ * Flow:
+ * 1. Gate exit (or the Xaman intent route) creates an xrpl_payment_intents row; the DB gives
+ *    it a destination tag unique among the account's pending intents, shown with the QR
+ * 2. This watcher sees a validated Payment to the account carrying that tag
+ * 3. Matches it to the pending intent: no partial or path payment, same asset, Amount equal
+ *    to delivered_amount, and an amount accepted by the lot's amount stance (by default exactly
+ *    the intent amount, see settlementAmount). Under a tolerant stance with allowPartial, a
+ *    short Payment is counted towards the intent (SETTLEMENT_PARTIAL) until the Payments add
+ *    up to it
+ * 4. Claims the intent for the tx, enforces it against the exit decision, resolves the intent
+ *    and settles the session: ends DB session, burns NFT, notifies gate + driver; an
+ *    over-payment is recorded as driver credit
+ *
+ * Every API instance watches the account; the instance that claims an intent (tx_hash set
+ * while pending) settles it, and the others skip the Payment. The last ledger whose Payments
+ * were all handled is kept in xrpl_ledger_cursors; later ledgers are replayed with account_tx
+ * on start, after reconnects, and 30s after a Payment failed to settle (the cursor stays below
+ * it until then).
+ */
+
+import { LIFECYCLE_EVENT, checkSettlementAmount } from '@parker/core'
+import type { SettlementResult, Asset, AmountCheck } from '@parker/policy-core'
+import {
+  decodeXrplCurrency,
+  watchXrplAccountPayments,
+  type XrplLedgerPayment,
+} from '@parker/x402-xrpl-settlement-adapter'
+
+import { db } from '../db'
+import type { XrplPaymentIntentRecord } from '../db/queries'
+import { enforceOrReject } from './policy/enforceOrReject'
+import { notifyGate, notifyDriver } from '../ws/index'
+import { isHederaEnabled, endParkingSessionOnHedera } from './hedera'
+import { recordNftBurn } from './evidence'
+import { sessionLifecycleService } from './sessionLifecycle'
+import { getPendingPaymentByPlateLot, removePendingPayment } from './paymentWatcher'
+import { getAmountTolerance, recordOverpaymentCredit } from './settlementAmount'
+
+export interface XrplWatcherOptions {
+  /** rippled WebSocket URL (XRPL_RPC_URL) */
+  serverUrl: string
+  /** Operator account receiving the Payments */
+  account: string
+  /** Delay before a Payment that failed to settle is retried (default 30s) */
+  retryDelayMs?: number
+}
+
+/**
+ * Start watching Payments to an XRPL account. Resolves to a function that stops the watcher.
+ * Connection failures are logged; the client reconnects and replays missed ledgers.
+ */
+export async function startXrplPaymentWatcher(
+  options: XrplWatcherOptions,
+): Promise<() => Promise<void>> {
+  const { serverUrl, account } = options
+  if (!serverUrl || !account) {
+    console.warn('[xrplWatcher] No XRPL server or account — XRPL payment watching disabled')
+    return async () => {}
+  }
+
+  const watcher = await watchXrplAccountPayments({
+    serverUrl,
+    account,
+    getCursor: () => db.getXrplLedgerCursor(account),
+    onCursor: (ledgerIndex) => db.advanceXrplLedgerCursor(account, ledgerIndex),
+    // A Payment that throws holds the cursor below its ledger until a replay retries it
+    onPayment: (payment) => handlePayment(payment, account),
+    onError: (err) => console.error('[xrplWatcher] Watcher error:', err),
+    retryDelayMs: options.retryDelayMs,
+  })
+
+  console.log(`[xrplWatcher] Watching Payments to ${account} on ${serverUrl}`)
+  return () => watcher.stop()
+}
+
+// ---- Matching ----
+
+async function handlePayment(payment: XrplLedgerPayment, account: string) {
+  // Untagged Payments settle through the tx-hash / Xaman flow
+  if (payment.destinationTag == null) return
+
+  const intent = await db.getPendingXrplIntentByDestinationTag(account, payment.destinationTag)
+  if (!intent) {
+    console.log(
+      `[xrplWatcher] No pending intent for destination tag ${payment.destinationTag}: tx=${payment.txHash}`,
+    )
+    return
+  }
+  const { txHash } = payment
+
+  // Replay protection: same tx_hash must not settle twice
+  const existingByTx = await db.getXrplIntentByTxHash(txHash)
+  if (
+    (await db.hasSettlementForTxHash(txHash)) ||
+    (existingByTx && existingByTx.paymentId !== intent.paymentId)
+  ) {
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.RISK_SIGNAL,
+      payload: { signal: 'REPLAY_SUSPICION', txHash, paymentId: intent.paymentId },
+      paymentId: intent.paymentId,
+      sessionId: intent.sessionId,
+      txHash,
+    })
+    console.warn(`[xrplWatcher] Replay ignored: tx=${txHash}`)
+    return
+  }
+
+  const match = await matchIntent(payment, intent)
+  // Replay of a partial Payment already counted towards the intent
+  if (match.alreadyCounted) return
+  if (match.amountCheck?.awaitingMore) {
+    await recordPartialPayment(payment, intent, match.amountCheck)
+    return
+  }
+  if (match.mismatch) {
+    const { mismatch } = match
+    // The intent stays pending: a correct Payment with the same tag still settles it
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.RISK_SIGNAL,
+      payload: {
+        signal: 'XRPL_PAYMENT_MISMATCH',
+        reason: mismatch,
+        paymentId: intent.paymentId,
+        destinationTag: payment.destinationTag,
+        expectedAmount: intent.amount,
+        deliveredAmount: payment.amount.toString(),
+        assetCode: payment.assetCode,
+        ...(match.amountCheck && { amountCheck: match.amountCheck }),
+      },
+      paymentId: intent.paymentId,
+      sessionId: intent.sessionId,
+      txHash,
+    })
+    console.warn(
+      `[xrplWatcher] Payment does not match intent: payment=${intent.paymentId}, tx=${txHash}, reason=${mismatch}`,
+    )
+    return
+  }
+
+  if (!intent.decisionId) {
+    console.warn(
+      `[xrplWatcher] No decisionId bound — skipping settlement for session=${intent.sessionId}`,
+    )
+    return
+  }
+  // Bind the intent to this Payment; another instance or the tx-hash flow may have done it
+  const claimed = await db.claimXrplIntentForTx(intent.paymentId, txHash)
+  if (!claimed) {
+    console.log(`[xrplWatcher] Intent already claimed: payment=${intent.paymentId}, tx=${txHash}`)
+    return
+  }
+
+  await settleIntent(claimed, payment, match.amountCheck!)
+}
+
+/**
+ * How a Payment pays the intent: `mismatch` is set unless it settles it. The amount check
+ * (lot's stance, summed with the partial Payments already counted) is set once the Payment
+ * passes the other checks; `alreadyCounted` when it is one of those partial Payments.
+ */
+async function matchIntent(
+  payment: XrplLedgerPayment,
+  intent: XrplPaymentIntentRecord,
+): Promise<{ mismatch?: string; amountCheck?: AmountCheck; alreadyCounted?: boolean }> {
+  // Partial payment flag: delivered_amount may be anything up to Amount
+  if (payment.isPartialPayment || payment.hasPaths || payment.hasSendMax || payment.hasDeliverMin) {
+    return { mismatch: 'PARTIAL_OR_PATH_PAYMENT' }
+  }
+
+  const asset = intentAsset(intent)
+  if (asset.kind === 'XRP') {
+    if (payment.assetCode !== 'XRP') return { mismatch: 'ASSET_MISMATCH' }
+  } else if (asset.kind === 'IOU') {
+    const currency = decodeXrplCurrency(payment.assetCode ?? '')
+    if (currency.toUpperCase() !== decodeXrplCurrency(asset.currency).toUpperCase()) {
+      return { mismatch: 'ASSET_MISMATCH' }
+    }
+    if (asset.issuer && payment.assetIssuer !== asset.issuer) return { mismatch: 'ASSET_MISMATCH' }
+  } else {
+    return { mismatch: 'ASSET_MISMATCH' }
+  }
+
+  if (payment.requestedAmount != null && payment.requestedAmount !== payment.amount) {
+    return { mismatch: 'AMOUNT_MISMATCH' }
+  }
+  const tolerance = getAmountTolerance(await db.getLot(intent.lotId), 'xrpl')
+  const partials = tolerance.allowPartial
+    ? await db.listSettlementPartialPayments(intent.paymentId)
+    : []
+  if (partials.some((p) => p.txHash === payment.txHash)) return { alreadyCounted: true }
+  const amountCheck = checkSettlementAmount(
+    decimalToScaledBigInt(intent.amount, 6),
+    [...partials.map((p) => p.amount), payment.amount],
+    tolerance,
+  )
+  return amountCheck.accepted ? { amountCheck } : { mismatch: 'AMOUNT_MISMATCH', amountCheck }
+}
+
+/** Count a short Payment towards the intent; the Payment completing it settles the intent. */
+async function recordPartialPayment(
+  payment: XrplLedgerPayment,
+  intent: XrplPaymentIntentRecord,
+  amountCheck: AmountCheck,
+) {
+  const { paymentId, sessionId, decisionId } = intent
+  const { txHash } = payment
+  const added = await db.addSettlementPartialPayment({
+    paymentId,
+    rail: 'xrpl',
+    asset: intentAsset(intent),
+    txHash,
+    amount: payment.amount,
+    payer: payment.from,
+  })
+  if (!added) return
+  await db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.SETTLEMENT_PARTIAL,
+    payload: {
+      decisionId,
+      paymentId,
+      amount: payment.amount.toString(),
+      rail: 'xrpl',
+      destinationTag: payment.destinationTag,
+      amountCheck,
+    },
+    paymentId,
+    sessionId,
+    decisionId,
+    txHash,
+  })
+  console.log(
+    `[xrplWatcher] Partial payment counted: payment=${paymentId}, tx=${txHash}, received=${amountCheck.received}/${amountCheck.expected}`,
+  )
+}
+
+/** Asset the intent is paid in: the decision's asset, else the deployment's XRPL token */
+function intentAsset(intent: XrplPaymentIntentRecord): Asset {
+  if (intent.asset) return intent.asset as Asset
+  return intent.token.toUpperCase() === 'XRP'
+    ? { kind: 'XRP' }
+    : { kind: 'IOU', currency: intent.token, issuer: process.env.XRPL_ISSUER ?? '' }
+}
+
+// ---- Settlement ----
+
+/** Same contract as the gate's XRPL route: enforceOrReject before close, persist events. */
+async function settleIntent(
+  intent: XrplPaymentIntentRecord,
+  payment: XrplLedgerPayment,
+  amountCheck: AmountCheck,
+) {
+  const { paymentId, sessionId, decisionId } = intent
+  const { txHash } = payment
+  const session = await db.getActiveSession(intent.plateNumber)
+  const settlement: SettlementResult = {
+    amount: amountCheck.received,
+    asset: intentAsset(intent),
+    rail: 'xrpl',
+    txHash,
+    payer: payment.from,
+    destination: intent.destination,
+    expectedSessionGrantId: session?.policyGrantId ?? null,
+    expectedPolicyHash: intent.policyHash ?? undefined,
+    amountCheck,
+  }
+  await db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.SETTLEMENT_DETECTED,
+    payload: {
+      decisionId,
+      amount: settlement.amount,
+      rail: 'xrpl',
+      txHash,
+      paymentId,
+      destinationTag: payment.destinationTag,
+      amountCheck,
+    },
+    paymentId,
+    sessionId,
+    decisionId,
+    txHash,
+  })
+
+  const reject = async (reason: string) => {
+    if (session) {
+      await sessionLifecycleService.markPaymentFailed(session, {
+        reason: 'settlement_rejected',
+        decisionId,
+        txHash,
+        metadata: { source: 'xrpl_watcher', reason },
+      })
+    }
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.SETTLEMENT_REJECTED,
+      payload: {
+        decisionId,
+        reason,
+        settlement: { amount: settlement.amount, rail: settlement.rail, txHash },
+      },
+      paymentId,
+      sessionId,
+      decisionId,
+      txHash,
+    })
+    await db.cancelXrplIntentByPaymentId(paymentId)
+    console.warn(`[xrplWatcher] Settlement rejected: session=${sessionId}, reason=${reason}`)
+  }
+
+  const enforcement = await enforceOrReject(
+    db.getDecisionPayloadByDecisionId.bind(db),
+    decisionId,
+    settlement,
+  )
+  if (!enforcement.allowed) {
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+      payload: {
+        decisionId,
+        reason: enforcement.reason,
+        settlement: {
+          amount: settlement.amount,
+          rail: settlement.rail,
+          txHash,
+          asset: settlement.asset,
+          payer: settlement.payer,
+        },
+      },
+      paymentId,
+      sessionId,
+      decisionId,
+      txHash,
+    })
+    await reject(enforcement.reason)
+    return
+  }
+  await db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_PASSED,
+    payload: {
+      decisionId,
+      settlement: { amount: settlement.amount, rail: settlement.rail, txHash },
+    },
+    paymentId,
+    sessionId,
+    decisionId,
+    txHash,
+  })
+  // Decision→grant linkage: decision must reference session's grant when session has one
+  if (session?.policyGrantId && decisionId) {
+    const decisionPayload = (await db.getDecisionPayloadByDecisionId(decisionId)) as {
+      sessionGrantId?: string | null
+    } | null
+    if (
+      decisionPayload?.sessionGrantId != null &&
+      decisionPayload.sessionGrantId !== session.policyGrantId
+    ) {
+      await reject('NEEDS_APPROVAL')
+      return
+    }
+  }
+
+  if (decisionId) {
+    const consumed = await db.consumeDecisionOnce(decisionId)
+    if (!consumed) {
+      await db.insertPolicyEvent({
+        eventType: LIFECYCLE_EVENT.RISK_SIGNAL,
+        payload: { signal: 'DECISION_ALREADY_CONSUMED', decisionId, rail: 'xrpl', txHash },
+        paymentId,
+        sessionId,
+        decisionId,
+        txHash,
+      })
+      await db.cancelXrplIntentByPaymentId(paymentId)
+      console.warn(`[xrplWatcher] Decision already consumed: decision=${decisionId}`)
+      return
+    }
+  }
+  await db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+    payload: {
+      decisionId,
+      paymentId,
+      amount: settlement.amount,
+      rail: 'xrpl',
+      asset: intent.token,
+      payer: payment.from,
+      destinationTag: payment.destinationTag,
+      ledgerIndex: payment.ledgerIndex,
+      amountCheck,
+    },
+    paymentId,
+    sessionId,
+    decisionId,
+    txHash,
+  })
+  await db.resolveXrplIntentByPaymentId({ paymentId, txHash })
+  console.log(`[xrplWatcher] XRPL payment matched: session=${sessionId}, tx=${txHash}`)
+  await recordOverpaymentCredit({
+    check: amountCheck,
+    sessionId,
+    plateNumber: intent.plateNumber,
+    lotId: intent.lotId,
+    rail: 'xrpl',
+    asset: settlement.asset,
+    payer: payment.from,
+    txHash,
+    decisionId,
+    paymentId,
+  })
+
+  try {
+    await settleSession(intent, txHash)
+  } catch (err) {
+    console.error(`[xrplWatcher] Failed to settle session=${sessionId}:`, err)
+  }
+}
+
+async function settleSession(intent: XrplPaymentIntentRecord, txHash: string) {
+  const { plateNumber: plate, lotId, sessionId, decisionId } = intent
+  // Fee in the lot currency comes from the exit's pending payment
+  const pending = await getPendingPaymentByPlateLot(plate, lotId)
+  const fee = pending?.fee ?? Number(intent.amount)
+  const feeCurrency = pending?.feeCurrency ?? intent.token
+  const tokenId = pending?.tokenId
+
+  // Paid on XRPL: the EVM watcher must not close the session again
+  await removePendingPayment(sessionId)
+
+  // Burn parking NFT on Hedera if applicable
+  let nftBurnSucceeded = !isHederaEnabled() || !tokenId
+  if (isHederaEnabled() && tokenId) {
+    try {
+      const burn = await endParkingSessionOnHedera(tokenId)
+      nftBurnSucceeded = true
+      await recordNftBurn(sessionId, tokenId, burn)
+    } catch (err) {
+      nftBurnSucceeded = false
+      console.error(`[xrplWatcher] Hedera NFT burn failed for session=${sessionId}:`, err)
+    }
+  }
+
+  // End session in DB
+  try {
+    const activeSession = await db.getActiveSession(plate)
+    if (!activeSession) {
+      console.warn(`[xrplWatcher] No active session found to transition: session=${sessionId}`)
+      return
+    }
+    await sessionLifecycleService.closeSession(activeSession, {
+      reason: 'settlement_verified',
+      decisionId,
+      txHash,
+      metadata: {
+        source: 'xrpl_watcher',
+        rail: 'xrpl',
+        decisionValidated: true,
+        decisionNotExpired: true,
+        settlementProofVerified: true,
+        enforcementPassed: true,
+        txHashUnique: true,
+        settlementEventPersisted: true,
+        nftBurnSucceeded,
+        allowDelayedNftBurn: true,
+      },
+      feeAmount: fee,
+      feeCurrency,
+    })
+  } catch (err) {
+    console.error(`[xrplWatcher] DB transitionSession failed for session=${sessionId}:`, err)
+  }
+
+  // Notify gate + driver via WebSocket
+  try {
+    notifyGate(lotId, {
+      type: 'exit',
+      session: { id: sessionId, plateNumber: plate, lotId },
+      plate,
+      fee,
+      currency: feeCurrency,
+      paymentMethod: 'crypto-onchain',
+    })
+    notifyDriver(plate, {
+      type: 'session_ended',
+      session: { id: sessionId, plateNumber: plate, lotId },
+      fee,
+      currency: feeCurrency,
+      paymentMethod: 'crypto-onchain',
+    })
+  } catch {
+    // WS notifications are best-effort
+  }
+
+  console.log(
+    `[xrplWatcher] Session settled: session=${sessionId}, plate=${plate}, fee=${fee} ${feeCurrency}`,
+  )
+}
+
+// ---- Helpers ----
+
+function decimalToScaledBigInt(value: string, decimals: number): bigint {
+  const [wholeRaw, fractionRaw = ''] = value.split('.')
+  const whole = wholeRaw || '0'
+  const fraction = (fractionRaw + '0'.repeat(decimals)).slice(0, decimals)
+  return BigInt(`${whole}${fraction}`)
+}
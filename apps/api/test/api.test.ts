@@ -11,9 +11,13 @@ const mockDb = vi.hoisted(() => ({
   deactivateDriver: vi.fn(),
   createSession: vi.fn(),
   getActiveSession: vi.fn(),
+  setSessionFeeDays: vi.fn(),
   getActiveSessionsByLot: vi.fn(),
   transitionSession: vi.fn(),
   settleSessionAfterVerified: vi.fn(),
+  collectSessionDebts: vi.fn(async () => []),
+  getOutstandingDebtTotal: vi.fn(async () => 0n),
+  attachOutstandingDebts: vi.fn(async () => []),
   getSessionHistory: vi.fn(),
   getLot: vi.fn(),
   updateLot: vi.fn(),
@@ -21,8 +25,8 @@ const mockDb = vi.hoisted(() => ({
   updateSessionPolicyGrant: vi.fn(),
   getPolicyGrantExpiresAt: vi.fn(),
   getPolicyGrantByGrantId: vi.fn(),
-  getFiatSpendTotalsByCurrency: vi.fn(),
-  getSpendTotalsFiat: vi.fn(),
+  getPolicyLayersForStack: vi.fn(async () => []),
+  getSpendLedgerTotals: vi.fn(),
   insertPolicyEvent: vi.fn(),
   insertPolicyDecision: vi.fn(),
   getDecisionPayloadByDecisionId: vi.fn(),
@@ -30,12 +34,19 @@ const mockDb = vi.hoisted(() => ({
   hasSettlementForTxHash: vi.fn(),
   hasSettlementForDecisionRail: vi.fn(),
   getMedianFeeForLot: vi.fn(),
+  getOtherActiveSessionLots: vi.fn(),
+  getPlateRiskHistory: vi.fn(),
+  createApprovalRequest: vi.fn(),
+  getLatestSessionApproval: vi.fn(),
   beginIdempotency: vi.fn(),
   completeIdempotency: vi.fn(),
   getXrplIntentByTxHash: vi.fn(),
   getActiveXrplPendingIntent: vi.fn(),
   resolveXrplIntentByPaymentId: vi.fn(),
   upsertXrplPendingIntent: vi.fn(),
+  upsertEvmPendingPayment: vi.fn(),
+  getActiveEvmPendingPayment: vi.fn(async () => null),
+  cancelEvmPendingPayment: vi.fn(async () => false),
 }))
 
 vi.mock('../src/db', () => ({ db: mockDb, pool: { query: vi.fn(), on: vi.fn() } }))
@@ -62,6 +73,12 @@ vi.mock('../src/services/stripe', () => ({
 
 vi.mock('../src/services/pricing', () => ({
   convertToStablecoin: vi.fn((fee: number) => fee),
+  quoteStablecoin: vi.fn(async (feeMinor: bigint) => ({
+    amount: Number(feeMinor) / 100,
+    amountAtomic: String(feeMinor * 10_000n),
+    decimals: 6,
+    fx: { baseCurrency: 'USD', quoteAssetSymbol: 'USDC', rate: '1', asOf: '', provider: 'env' },
+  })),
   X402_STABLECOIN: 'USDC',
   X402_NETWORK: 'base-sepolia',
   getFxRate: vi.fn().mockReturnValue(1),
@@ -93,8 +110,13 @@ beforeEach(() => {
   vi.clearAllMocks()
   mockDb.beginIdempotency.mockResolvedValue({ status: 'started' })
   mockDb.completeIdempotency.mockResolvedValue(undefined)
-  mockDb.getFiatSpendTotalsByCurrency.mockResolvedValue({ dayTotalFiat: 0, sessionTotalFiat: 0 })
-  mockDb.getSpendTotalsFiat.mockResolvedValue({ dayTotalFiat: 0, sessionTotalFiat: 0 })
+  mockDb.getSpendLedgerTotals.mockResolvedValue({
+    sessionMinor: 0n,
+    vehicleDayMinor: 0n,
+    ownerDayMinor: 0n,
+    fleetDayMinor: 0n,
+    fleetId: null,
+  })
   mockDb.getPolicyGrantExpiresAt.mockResolvedValue(null)
   mockDb.getPolicyGrantByGrantId.mockResolvedValue(null)
   mockDb.insertPolicyGrant.mockResolvedValue({ grantId: 'grant-1' })
@@ -103,6 +125,9 @@ beforeEach(() => {
   mockDb.hasSettlementForTxHash.mockResolvedValue(false)
   mockDb.hasSettlementForDecisionRail.mockResolvedValue(false)
   mockDb.getMedianFeeForLot.mockResolvedValue(null)
+  mockDb.getOtherActiveSessionLots.mockResolvedValue([])
+  mockDb.getPlateRiskHistory.mockResolvedValue({ failedExits: 0, paymentFailures: 0 })
+  mockDb.getLatestSessionApproval.mockResolvedValue(null)
   app = createApp()
 })
 
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest'
+import { readdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+async function collectTypeScriptFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const fullPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        return collectTypeScriptFiles(fullPath)
+      }
+      if (entry.isFile() && fullPath.endsWith('.ts')) {
+        return [fullPath]
+      }
+      return []
+    }),
+  )
+  return files.flat()
+}
+
+describe('runtime package imports', () => {
+  it('loads the gate route against the built workspace packages', async () => {
+    // No mocks: @parker/policy-core resolves to its dist, as in a deployment
+    vi.stubEnv('NFT_ENCRYPTION_KEY', '00'.repeat(32))
+    const { gateRouter } = await import('../../src/routes/gate')
+    expect(gateRouter).toBeTypeOf('function')
+  })
+
+  it('does not import @parker/settlement-core, whose index loads the XRPL adapter', async () => {
+    const srcRoot = path.resolve(process.cwd(), 'src')
+    const files = await collectTypeScriptFiles(srcRoot)
+
+    const offenders: string[] = []
+    for (const filePath of files) {
+      const content = await readFile(filePath, 'utf8')
+      if (content.includes("from '@parker/settlement-core'")) {
+        offenders.push(path.relative(process.cwd(), filePath))
+      }
+    }
+
+    expect(offenders).toEqual([])
+  })
+})
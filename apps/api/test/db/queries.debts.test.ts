@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('../../src/db/index', () => ({
+  pool: {
+    query: vi.fn(),
+  },
+}))
+
+import { pool } from '../../src/db/index'
+import { db } from '../../src/db/queries'
+
+const entryTime = new Date('2026-01-01T10:00:00Z')
+const exitTime = new Date('2026-01-01T12:00:00Z')
+
+const input = {
+  sessionId: 'sess-1',
+  plateNumber: '1234567',
+  lotId: 'LOT-1',
+  driverWallet: '0xAA',
+  amountMinor: 1600n,
+  currency: 'USD',
+  source: 'gate_offline' as const,
+  entryTime,
+  exitTime,
+}
+
+const debtRow = {
+  id: 'debt-1',
+  session_id: 'sess-1',
+  plate_number: '1234567',
+  lot_id: 'LOT-1',
+  driver_wallet: '0xaa',
+  amount_minor: '1600',
+  currency: 'USD',
+  source: 'gate_offline',
+  entry_time: entryTime,
+  exit_time: exitTime,
+  status: 'outstanding',
+  collecting_session_id: null,
+  collected_tx_hash: null,
+  created_at: exitTime,
+  collected_at: null,
+}
+
+function call(index: number) {
+  return vi.mocked(pool.query).mock.calls[index] as unknown as [string, unknown[]]
+}
+
+describe('plate debt queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('records one debt per session and returns the existing one on retry', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [debtRow] } as never)
+
+    expect(await db.createPlateDebt(input)).toEqual({
+      status: 'created',
+      debt: {
+        id: 'debt-1',
+        sessionId: 'sess-1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        driverWallet: '0xaa',
+        amountMinor: '1600',
+        currency: 'USD',
+        source: 'gate_offline',
+        entryTime,
+        exitTime,
+        status: 'outstanding',
+        collectingSessionId: undefined,
+        collectedTxHash: undefined,
+        createdAt: exitTime,
+        collectedAt: undefined,
+      },
+    })
+    const [sql, params] = call(0)
+    expect(sql).toContain('ON CONFLICT (session_id) DO NOTHING')
+    expect(params).toEqual([
+      'sess-1',
+      '1234567',
+      'LOT-1',
+      '0xaa',
+      '1600',
+      'USD',
+      'gate_offline',
+      entryTime,
+      exitTime,
+    ])
+
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [] } as never)
+      .mockResolvedValueOnce({ rows: [debtRow] } as never)
+    expect(await db.createPlateDebt(input)).toMatchObject({
+      status: 'existing',
+      debt: { id: 'debt-1' },
+    })
+  })
+
+  it('attaches outstanding debts of other sessions to the session charged at exit', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [{ ...debtRow, collecting_session_id: 'sess-2' }],
+    } as never)
+
+    const debts = await db.attachOutstandingDebts('1234567', 'LOT-1', 'USD', 'sess-2')
+
+    const [sql, params] = call(0)
+    expect(sql).toContain("status = 'outstanding'")
+    expect(sql).toContain('session_id <> $4')
+    expect(params).toEqual(['1234567', 'LOT-1', 'USD', 'sess-2'])
+    expect(debts[0].collectingSessionId).toBe('sess-2')
+  })
+
+  it('attaches only the debts run up in the lot of the exit', async () => {
+    const outstanding = [
+      debtRow,
+      { ...debtRow, id: 'debt-2', session_id: 'sess-0', lot_id: 'LOT-2', amount_minor: '900' },
+    ]
+    // Stand-in for the UPDATE's WHERE clause
+    vi.mocked(pool.query).mockImplementationOnce((async (_sql: string, params: unknown[]) => ({
+      rows: outstanding
+        .filter((row) => row.plate_number === params[0] && row.lot_id === params[1])
+        .map((row) => ({ ...row, collecting_session_id: params[3] })),
+    })) as never)
+
+    const debts = await db.attachOutstandingDebts('1234567', 'LOT-2', 'USD', 'sess-2')
+
+    expect(call(0)[0]).toContain('lot_id = $2')
+    expect(debts.map((debt) => [debt.id, debt.lotId])).toEqual([['debt-2', 'LOT-2']])
+  })
+
+  it('sums outstanding debts as a bigint', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ total: '2000' }] } as never)
+
+    expect(await db.getOutstandingDebtTotal('1234567', 'USD')).toBe(2000n)
+  })
+})
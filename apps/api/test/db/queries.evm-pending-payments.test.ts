@@ -0,0 +1,222 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('../../src/db/index', () => ({
+  pool: {
+    query: vi.fn(),
+  },
+}))
+
+import { pool } from '../../src/db/index'
+import { db } from '../../src/db/queries'
+
+const createdAt = new Date('2026-01-01T10:00:00Z')
+const expiresAt = new Date('2026-01-01T10:30:00Z')
+
+const paymentRow = {
+  payment_id: 'pay-1',
+  session_id: 'sess-1',
+  plate_number: '1234567',
+  lot_id: 'LOT-1',
+  expected_amount: '1.500000',
+  receiver_wallet: '0xReceiver',
+  fee: '1.500000',
+  fee_currency: 'USD',
+  token_id: '42',
+  decision_id: 'dec-1',
+  policy_hash: 'ph-1',
+  rail: 'evm',
+  asset: { kind: 'ERC20', chainId: 84532, token: '0xUSDC' },
+  tx_hash: null,
+  status: 'pending',
+  expires_at: expiresAt,
+  created_at: createdAt,
+}
+
+function call(index: number) {
+  return vi.mocked(pool.query).mock.calls[index] as unknown as [string, unknown[]]
+}
+
+describe('EVM pending payment queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('replaces the pending payment of a session on a new quote', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [paymentRow] } as never)
+
+    const payment = await db.upsertEvmPendingPayment({
+      sessionId: 'sess-1',
+      plateNumber: '1234567',
+      lotId: 'LOT-1',
+      expectedAmount: '1.500000',
+      receiverWallet: '0xReceiver',
+      fee: 1.5,
+      feeCurrency: 'USD',
+      tokenId: 42,
+      decisionId: 'dec-1',
+      policyHash: 'ph-1',
+      rail: 'evm',
+      asset: paymentRow.asset,
+      quotes: [{ quoteId: 'q-1', asset: paymentRow.asset, amount: '1500000', decimals: 6 }],
+      expiresAt,
+    })
+
+    const [sql, params] = call(0)
+    expect(sql).toContain("ON CONFLICT (session_id) WHERE status = 'pending'")
+    expect(params[11]).toBe(JSON.stringify(paymentRow.asset))
+    expect(JSON.parse(params[13] as string)).toEqual([
+      { quoteId: 'q-1', asset: paymentRow.asset, amount: '1500000', decimals: 6 },
+    ])
+    expect(payment).toMatchObject({
+      paymentId: 'pay-1',
+      fee: 1.5,
+      tokenId: 42,
+      txHash: undefined,
+      status: 'pending',
+    })
+  })
+
+  it('lets one transfer claim one unexpired pending payment', async () => {
+    const transfer = {
+      txHash: '0xtx',
+      amount: '1500000',
+      payer: '0xPayer',
+      chainId: 84532,
+      token: '0xEURC',
+      blockNumber: 120,
+      blockHash: '0xblock',
+    }
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [
+        {
+          ...paymentRow,
+          status: 'matched',
+          tx_hash: '0xtx',
+          paid_amount: '1500000',
+          payer: '0xPayer',
+          block_number: '120',
+          block_hash: '0xblock',
+          paid_chain_id: 84532,
+          paid_token: '0xEURC',
+        },
+      ],
+    } as never)
+
+    expect(await db.claimEvmPendingPayment('pay-1', transfer)).toMatchObject({
+      status: 'matched',
+      txHash: '0xtx',
+      paidAmount: '1500000',
+      blockNumber: 120,
+      blockHash: '0xblock',
+      paidChainId: 84532,
+      paidToken: '0xEURC',
+    })
+    const [sql, params] = call(0)
+    expect(sql).toContain("AND status = 'pending'")
+    expect(sql).toContain('expires_at > NOW()')
+    expect(params).toEqual(['pay-1', '0xtx', '1500000', '0xPayer', 120, '0xblock', 84532, '0xEURC'])
+
+    // Claimed by another instance
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as never)
+    expect(await db.claimEvmPendingPayment('pay-1', transfer)).toBeNull()
+
+    // Transfer already claimed another payment
+    vi.mocked(pool.query).mockRejectedValueOnce({ code: '23505' })
+    expect(await db.claimEvmPendingPayment('pay-2', transfer)).toBeNull()
+  })
+
+  it('lists matched payments of one chain up to a block', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as never)
+
+    await db.listMatchedEvmPendingPayments(137, 500)
+
+    const [sql, params] = call(0)
+    expect(sql).toContain('paid_chain_id = $1')
+    expect(params).toEqual([137, 500])
+  })
+
+  it('moves the payment of a reorged transfer back to pending', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [paymentRow] } as never)
+
+    expect(await db.releaseEvmPendingPayment('0xtx')).toMatchObject({
+      paymentId: 'pay-1',
+      status: 'pending',
+      txHash: undefined,
+      blockNumber: undefined,
+    })
+    const [sql, params] = call(0)
+    expect(sql).toContain("SET status = 'pending'")
+    expect(sql).toContain("AND status = 'matched'")
+    expect(params).toEqual(['0xtx'])
+  })
+
+  it('moves the block cursor forward on advance and back on rewind', async () => {
+    vi.mocked(pool.query).mockResolvedValue({ rows: [] } as never)
+
+    await db.advanceEvmBlockCursor('evm:84532:0xusdc', 200)
+    await db.rewindEvmBlockCursor('evm:84532:0xusdc', 150)
+
+    expect(call(0)[0]).toContain('GREATEST(evm_block_cursors.block_number, EXCLUDED.block_number)')
+    expect(call(0)[1]).toEqual(['evm:84532:0xusdc', 200])
+    expect(call(1)[0]).toContain('LEAST(block_number, $2)')
+    expect(call(1)[1]).toEqual(['evm:84532:0xusdc', 150])
+  })
+
+  it('stores failed transfers for retry and counts each attempt', async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [] } as never)
+      .mockResolvedValueOnce({
+        rows: [{ tx_hash: '0xtx', log_index: 2, block_number: '101', attempts: 3 }],
+      } as never)
+      .mockResolvedValueOnce({ rows: [] } as never)
+
+    await db.recordEvmFailedTransfer(
+      'evm:84532:0xusdc',
+      { txHash: '0xtx', logIndex: 2, blockNumber: 101 },
+      'db down',
+    )
+    expect(await db.listEvmFailedTransfers('evm:84532:0xusdc', 50)).toEqual([
+      { txHash: '0xtx', logIndex: 2, blockNumber: 101, attempts: 3 },
+    ])
+    await db.deleteEvmFailedTransfer('evm:84532:0xusdc', '0xtx', 2)
+
+    expect(call(0)[0]).toContain('attempts = evm_failed_transfers.attempts + 1')
+    expect(call(0)[1]).toEqual(['evm:84532:0xusdc', '0xtx', 2, 101, 'db down'])
+    expect(call(1)[1]).toEqual(['evm:84532:0xusdc', 50])
+    expect(call(2)[0]).toContain('DELETE FROM evm_failed_transfers')
+    expect(call(2)[1]).toEqual(['evm:84532:0xusdc', '0xtx', 2])
+  })
+
+  it('expires stale pending payments with their session state', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [
+        {
+          id: 'pay-1',
+          decision_id: 'dec-1',
+          expires_at: expiresAt,
+          session_id: 'sess-1',
+          plate_number: '1234567',
+          lot_id: 'LOT-1',
+          session_status: 'payment_required',
+        },
+      ],
+    } as never)
+
+    const expired = await db.expireEvmPendingPayments(50)
+
+    const [sql, params] = call(0)
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED')
+    expect(params).toEqual([50])
+    expect(expired).toEqual([
+      {
+        id: 'pay-1',
+        decisionId: 'dec-1',
+        sessionId: 'sess-1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        sessionOpen: true,
+        expiresAt,
+      },
+    ])
+  })
+})
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const client = {
+  query: vi.fn(),
+  release: vi.fn(),
+}
+
+vi.mock('../../src/db/index', () => ({
+  pool: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}))
+
+import { pool } from '../../src/db/index'
+import { db } from '../../src/db/queries'
+
+describe('expiry sweep queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(pool.connect).mockResolvedValue(client as never)
+    vi.mocked(pool.query).mockResolvedValue({ rows: [] } as never)
+  })
+
+  it('runs the callback under the advisory lock and releases it', async () => {
+    client.query.mockResolvedValueOnce({ rows: [{ locked: true }] }).mockResolvedValueOnce({})
+
+    const result = await db.withAdvisoryLock(42, async () => 'swept')
+
+    expect(result).toBe('swept')
+    expect(client.query.mock.calls).toEqual([
+      ['SELECT pg_try_advisory_lock($1) AS locked', [42]],
+      ['SELECT pg_advisory_unlock($1)', [42]],
+    ])
+    expect(client.release).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns null without running the callback when the lock is held elsewhere', async () => {
+    client.query.mockResolvedValueOnce({ rows: [{ locked: false }] })
+    const fn = vi.fn()
+
+    expect(await db.withAdvisoryLock(42, fn)).toBeNull()
+    expect(fn).not.toHaveBeenCalled()
+    expect(client.query).toHaveBeenCalledTimes(1)
+    expect(client.release).toHaveBeenCalledTimes(1)
+  })
+
+  it('unlocks when the callback throws', async () => {
+    client.query.mockResolvedValueOnce({ rows: [{ locked: true }] }).mockResolvedValueOnce({})
+
+    await expect(
+      db.withAdvisoryLock(42, async () => {
+        throw new Error('boom')
+      }),
+    ).rejects.toThrow('boom')
+    expect(client.query).toHaveBeenLastCalledWith('SELECT pg_advisory_unlock($1)', [42])
+    expect(client.release).toHaveBeenCalledTimes(1)
+  })
+
+  it('maps expired decisions with their session', async () => {
+    const expiresAt = new Date('2026-01-01T10:00:00Z')
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [
+        {
+          id: 'dec-1',
+          decision_id: 'dec-1',
+          expires_at: expiresAt,
+          session_id: 'sess-1',
+          plate_number: 'ABC123',
+          lot_id: 'LOT-1',
+          session_status: 'payment_required',
+        },
+        { id: 'dec-2', decision_id: 'dec-2', expires_at: expiresAt, session_status: 'closed' },
+      ],
+    } as never)
+
+    const rows = await db.expirePolicyDecisions(50)
+
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0] as unknown as [string, unknown[]]
+    expect(sql).toContain("SET decision_state = 'expired'")
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED')
+    expect(params[0]).toBe(50)
+    expect(rows).toEqual([
+      {
+        id: 'dec-1',
+        decisionId: 'dec-1',
+        sessionId: 'sess-1',
+        plateNumber: 'ABC123',
+        lotId: 'LOT-1',
+        sessionOpen: true,
+        expiresAt,
+      },
+      {
+        id: 'dec-2',
+        decisionId: 'dec-2',
+        sessionId: undefined,
+        plateNumber: undefined,
+        lotId: undefined,
+        sessionOpen: false,
+        expiresAt,
+      },
+    ])
+  })
+})
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+vi.mock('../../src/db/index', () => ({
+  pool: {
+    query: vi.fn(),
+  },
+}))
+
+vi.mock('../../src/events/emitSessionEvent', () => ({
+  emitSessionEvent: vi.fn(),
+}))
+
+import { pool } from '../../src/db/index'
+import { db } from '../../src/db/queries'
+
+const sessionId = '11111111-1111-4111-8111-111111111111'
+
+function enforcementFailed() {
+  return db.insertPolicyEvent({
+    eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+    payload: {
+      reason: 'CAP_EXCEEDED_TX',
+      settlement: { amount: '5000000', rail: 'evm', txHash: '0xabc' },
+    },
+    sessionId,
+    decisionId: 'dec-1',
+    txHash: '0xabc',
+  })
+}
+
+function queriesContaining(fragment: string) {
+  return vi
+    .mocked(pool.query)
+    .mock.calls.filter(([sql]) => String(sql).includes(fragment)) as unknown as [
+    string,
+    unknown[],
+  ][]
+}
+
+describe('payment review capture', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(pool.query).mockResolvedValue({ rows: [], rowCount: 1 } as never)
+  })
+
+  it('opens a review with the settlement evidence and records PAYMENT_REVIEW_OPENED', async () => {
+    vi.mocked(pool.query).mockImplementation((async (sql: string) =>
+      sql.includes('INSERT INTO payment_reviews')
+        ? { rows: [{ id: 'rev-1' }] }
+        : { rows: [], rowCount: 1 }) as never)
+
+    await enforcementFailed()
+
+    const [[sql, params]] = queriesContaining('INSERT INTO payment_reviews')
+    expect(sql).toContain('ON CONFLICT (tx_hash)')
+    expect(params.slice(0, 7)).toEqual([
+      sessionId,
+      'dec-1',
+      null,
+      '0xabc',
+      'evm',
+      '5000000',
+      'CAP_EXCEEDED_TX',
+    ])
+    const events = queriesContaining('INSERT INTO policy_events').map(([, p]) => p[0])
+    expect(events).toEqual([
+      LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+      LIFECYCLE_EVENT.PAYMENT_REVIEW_OPENED,
+    ])
+  })
+
+  it('does not reopen a review for a settlement already under review', async () => {
+    await enforcementFailed()
+
+    expect(queriesContaining('INSERT INTO payment_reviews')).toHaveLength(1)
+    const events = queriesContaining('INSERT INTO policy_events').map(([, p]) => p[0])
+    expect(events).toEqual([LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED])
+  })
+
+  it('keeps the enforcement event when the review cannot be stored', async () => {
+    vi.mocked(pool.query).mockImplementation((async (sql: string) => {
+      if (sql.includes('INSERT INTO payment_reviews')) throw new Error('db down')
+      return { rows: [], rowCount: 1 }
+    }) as never)
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(enforcementFailed()).resolves.toBeUndefined()
+    expect(consoleError).toHaveBeenCalled()
+    consoleError.mockRestore()
+  })
+
+  it('ignores other events and non-session ids', async () => {
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_PASSED,
+      payload: {},
+      sessionId,
+    })
+    await db.insertPolicyEvent({
+      eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+      payload: { reason: 'CAP_EXCEEDED_TX' },
+      sessionId: 'hedera-12',
+    })
+
+    expect(queriesContaining('INSERT INTO payment_reviews')).toHaveLength(0)
+  })
+})
@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+const client = {
+  query: vi.fn(),
+  release: vi.fn(),
+}
+
+vi.mock('../../src/db/index', () => ({
+  pool: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}))
+
+import { pool } from '../../src/db/index'
+import { db } from '../../src/db/queries'
+
+const sessionId = '11111111-1111-4111-8111-111111111111'
+
+const input = {
+  sessionId,
+  settlementTxHash: '0xsettle',
+  rail: 'evm' as const,
+  destination: '0x00000000000000000000000000000000000000aa',
+  amount: 2000000n,
+  settledAmount: 5000000n,
+  idempotencyKey: 'key-1',
+  requestedBy: { id: 'op-1' },
+}
+
+const refundRow = {
+  id: 'ref-1',
+  session_id: sessionId,
+  settlement_tx_hash: '0xsettle',
+  rail: 'evm',
+  destination: input.destination,
+  amount: '2000000',
+  settled_amount: '5000000',
+  status: 'requested',
+  idempotency_key: 'key-1',
+  requested_by: { id: 'op-1' },
+  created_at: new Date('2026-01-01T10:00:00Z'),
+}
+
+function statements() {
+  return client.query.mock.calls.map(([sql]) =>
+    String(sql).trim().split(/\s+/).slice(0, 2).join(' '),
+  )
+}
+
+describe('refund queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(pool.connect).mockResolvedValue(client as never)
+  })
+
+  it('inserts a refund under the settlement lock when it fits within the settled amount', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('SUM(amount)')) return { rows: [{ refunded: '3000000' }] }
+      if (sql.includes('INSERT INTO refunds')) return { rows: [refundRow] }
+      return { rows: [] }
+    })
+
+    const result = await db.createRefund(input)
+
+    expect(result).toMatchObject({
+      status: 'created',
+      refund: { id: 'ref-1', amount: '2000000', settledAmount: '5000000', status: 'requested' },
+    })
+    expect(client.query).toHaveBeenCalledWith('SELECT pg_advisory_xact_lock(hashtext($1))', [
+      '0xsettle',
+    ])
+    expect(statements()).toEqual([
+      'BEGIN',
+      'SELECT pg_advisory_xact_lock(hashtext($1))',
+      'SELECT *',
+      'SELECT COALESCE(SUM(amount),',
+      'INSERT INTO',
+      'COMMIT',
+    ])
+    expect(client.release).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses a refund that would exceed the settled amount', async () => {
+    client.query.mockImplementation(async (sql: string) =>
+      sql.includes('SUM(amount)') ? { rows: [{ refunded: '3000001' }] } : { rows: [] },
+    )
+
+    expect(await db.createRefund(input)).toEqual({
+      status: 'cap_exceeded',
+      refundedAmount: '3000001',
+    })
+    expect(statements()).not.toContain('INSERT INTO')
+  })
+
+  it('returns the live refund with the same idempotency key', async () => {
+    client.query.mockImplementation(async (sql: string) =>
+      sql.includes('idempotency_key = $1') ? { rows: [refundRow] } : { rows: [] },
+    )
+
+    expect(await db.createRefund(input)).toMatchObject({
+      status: 'existing',
+      refund: { id: 'ref-1' },
+    })
+    expect(statements()).not.toContain('INSERT INTO')
+  })
+
+  it('rolls back and releases the client when the insert fails', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('SUM(amount)')) return { rows: [{ refunded: '0' }] }
+      if (sql.includes('INSERT INTO refunds')) throw new Error('db down')
+      return { rows: [] }
+    })
+
+    await expect(db.createRefund(input)).rejects.toThrow('db down')
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK')
+    expect(client.release).toHaveBeenCalledTimes(1)
+  })
+
+  it('reads refundable settlements from verified and review-held settlement events', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [
+        {
+          event_type: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+          tx_hash: 'A'.repeat(64),
+          decision_id: 'dec-1',
+          payload: {
+            reason: 'CAP_EXCEEDED_TX',
+            settlement: {
+              amount: '2500000',
+              rail: 'xrpl',
+              asset: { kind: 'XRP' },
+              payer: 'rPayer',
+            },
+          },
+        },
+      ],
+    } as never)
+
+    const settlement = await db.getRefundableSettlement(sessionId)
+
+    const [, params] = vi.mocked(pool.query).mock.calls[0] as unknown as [string, unknown[]]
+    expect(params).toEqual([
+      sessionId,
+      LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+      LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+      null,
+    ])
+    expect(settlement).toEqual({
+      sessionId,
+      txHash: 'A'.repeat(64),
+      rail: 'xrpl',
+      amount: '2500000',
+      asset: 'XRP',
+      payer: 'rPayer',
+      decisionId: 'dec-1',
+      eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+    })
+  })
+
+  it('reads the chain and token of EVM settlements', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [
+        {
+          event_type: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+          tx_hash: '0xsettle',
+          decision_id: 'dec-1',
+          payload: {
+            amount: '5000000',
+            rail: 'evm',
+            asset: 'USDC',
+            chainId: 80002,
+            tokenAddress: '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582',
+            payer: input.destination,
+          },
+        },
+      ],
+    } as never)
+
+    expect(await db.getRefundableSettlement(sessionId)).toMatchObject({
+      rail: 'evm',
+      asset: 'USDC',
+      chainId: 80002,
+      tokenAddress: '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582',
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SessionRecord } from '@parker/core'
+
+vi.mock('../../src/db/index', () => ({
+  pool: {
+    query: vi.fn(),
+  },
+}))
+
+vi.mock('../../src/events/emitSessionEvent', () => ({
+  emitSessionEvent: vi.fn(),
+}))
+
+import { pool } from '../../src/db/index'
+import { emitSessionEvent } from '../../src/events/emitSessionEvent'
+import { db } from '../../src/db/queries'
+
+const session: SessionRecord = {
+  id: '11111111-1111-4111-8111-111111111111',
+  plateNumber: '1234567',
+  lotId: 'LOT-1',
+  entryTime: new Date('2026-01-01T08:00:00Z'),
+  status: 'payment_verified',
+}
+
+describe('spend ledger queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(pool.query).mockResolvedValue({ rows: [], rowCount: 1 } as never)
+    vi.mocked(emitSessionEvent).mockResolvedValue(undefined)
+  })
+
+  it('records the fee in minor units when closing a session', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [{ id: session.id, plate_number: '1234567', lot_id: 'LOT-1', status: 'closed' }],
+    } as never)
+
+    await db.transitionSession(session, {
+      to: 'closed',
+      reason: 'PAYMENT_SETTLED',
+      feeAmount: 12.5,
+      feeCurrency: 'USD',
+      decisionId: 'dec-1',
+      txHash: '0xabc',
+      metadata: { rail: 'xrpl', settlementEventPersisted: true, nftBurnSucceeded: true },
+    })
+
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0] as unknown as [string, unknown[]]
+    expect(sql).toContain('INSERT INTO spend_ledger')
+    expect(params.slice(6)).toEqual(['1250', 'xrpl', 'dec-1', '0xabc', null])
+  })
+
+  it('maps ledger totals to bigints and passes the lot window', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [
+        {
+          session_minor: '0',
+          vehicle_day_minor: '2500',
+          owner_day_minor: '4000',
+          fleet_day_minor: '9000',
+          fleet_id: 'fleet-a',
+        },
+      ],
+    } as never)
+    const at = new Date('2026-01-01T12:00:00Z')
+
+    const totals = await db.getSpendLedgerTotals({
+      plate: '1234567',
+      currency: 'EUR',
+      sessionId: session.id,
+      window: { mode: 'calendar_day', timeZone: 'Europe/Berlin' },
+      at,
+    })
+
+    expect(totals).toEqual({
+      sessionMinor: 0n,
+      vehicleDayMinor: 2500n,
+      ownerDayMinor: 4000n,
+      fleetDayMinor: 9000n,
+      fleetId: 'fleet-a',
+    })
+    expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([
+      '1234567',
+      'EUR',
+      session.id,
+      'calendar_day',
+      'Europe/Berlin',
+      at,
+    ])
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Unit tests: simulatePolicy (replay stored decisions under a candidate policy).
+ */
+import { describe, it, expect, vi } from 'vitest'
+import { simulatePolicy } from '../../src/services/policy/simulation'
+import type { DecisionReplayRecord, PolicyLayerRecord } from '../../src/db/queries'
+
+const lot = { id: 'LOT-1', paymentMethods: ['stripe'], currency: 'USD' } as any
+
+function decision(id: string, quoteMinor: string, overrides: Partial<DecisionReplayRecord> = {}) {
+  return {
+    decisionId: `dec-${id}`,
+    sessionId: `sess-${id}`,
+    plateNumber: `PLATE-${id}`,
+    lotId: 'LOT-1',
+    entryTime: new Date('2025-03-05T08:00:00Z'),
+    action: 'ALLOW',
+    reasons: ['OK'],
+    quoteMinor,
+    quoteCurrency: 'USD',
+    vehicleDayMinor: '0',
+    ownerDayMinor: '0',
+    createdAt: new Date('2025-03-05T10:00:00Z'),
+    ...overrides,
+  } satisfies DecisionReplayRecord
+}
+
+function layers(records: Partial<PolicyLayerRecord>[] = []) {
+  return vi.fn(async () => records as PolicyLayerRecord[])
+}
+
+describe('simulatePolicy', () => {
+  it('reports sessions a tighter platform cap would deny, grouped by reason', async () => {
+    const report = await simulatePolicy({
+      candidate: { layer: 'platform', policy: { version: 2, capPerTxMinor: '1000' } },
+      decisions: [decision('a', '1500'), decision('b', '500')],
+      getLot: vi.fn(async () => lot),
+      getPolicyLayersForStack: layers(),
+    })
+
+    expect(report.evaluated).toBe(2)
+    expect(report.unchanged).toBe(1)
+    expect(report.transitions).toEqual({ 'ALLOW→DENY': 1 })
+    expect(report.byReason).toEqual({ CAP_EXCEEDED_TX: { count: 1, sessionIds: ['sess-a'] } })
+    expect(report.flips[0]).toMatchObject({
+      sessionId: 'sess-a',
+      recordedAction: 'ALLOW',
+      current: { action: 'ALLOW' },
+      candidate: { action: 'DENY', reasons: ['CAP_EXCEEDED_TX'], stage: 'payment' },
+    })
+  })
+
+  it('counts same-day spend toward the daily cap and flags approval thresholds', async () => {
+    const report = await simulatePolicy({
+      candidate: {
+        layer: 'platform',
+        policy: { version: 2, capPerDayMinor: '2000', requireApprovalOverMinor: '400' },
+      },
+      decisions: [decision('a', '500', { vehicleDayMinor: '1800' }), decision('b', '500')],
+      getLot: vi.fn(async () => lot),
+      getPolicyLayersForStack: layers(),
+    })
+
+    expect(report.transitions).toEqual({ 'ALLOW→DENY': 1, 'ALLOW→REQUIRE_APPROVAL': 1 })
+    expect(report.byReason.CAP_EXCEEDED_DAY?.sessionIds).toEqual(['sess-a'])
+    expect(report.byReason.PRICE_SPIKE?.sessionIds).toEqual(['sess-b'])
+    expect(report.byReason.NEEDS_APPROVAL?.sessionIds).toEqual(['sess-b'])
+  })
+
+  it('counts owner-wide spend under an owner daily cap and loads each stack once', async () => {
+    const getPolicyLayersForStack = layers()
+    const report = await simulatePolicy({
+      candidate: { layer: 'owner', policy: { version: 2, capPerDayMinor: '2000' } },
+      decisions: [
+        decision('a', '500', { plateNumber: 'PLATE-1', ownerDayMinor: '1800' }),
+        decision('b', '500', { plateNumber: 'PLATE-1' }),
+      ],
+      getLot: vi.fn(async () => lot),
+      getPolicyLayersForStack,
+    })
+
+    expect(report.transitions).toEqual({ 'ALLOW→DENY': 1 })
+    expect(report.byReason.CAP_EXCEEDED_DAY?.sessionIds).toEqual(['sess-a'])
+    expect(getPolicyLayersForStack).toHaveBeenCalledTimes(1)
+  })
+
+  it('replays entry: a lot layer without usable rails denies at entry', async () => {
+    const getLot = vi.fn(async () => lot)
+    const report = await simulatePolicy({
+      candidate: { layer: 'lot', policy: { version: 2, railAllowlist: ['xrpl'] } },
+      decisions: [decision('a', '500'), decision('b', '700')],
+      getLot,
+      getPolicyLayersForStack: layers(),
+    })
+
+    expect(report.transitions).toEqual({ 'ALLOW→DENY': 2 })
+    expect(report.flips.every((f) => f.candidate.stage === 'entry')).toBe(true)
+    expect(report.byReason.RAIL_NOT_ALLOWED?.count).toBe(2)
+    expect(getLot).toHaveBeenCalledTimes(1)
+  })
+
+  it('compares against the stored stack and reports relaxations outside byReason', async () => {
+    const report = await simulatePolicy({
+      candidate: { stack: { platform: { version: 2 } } },
+      decisions: [decision('a', '1500', { action: 'REQUIRE_APPROVAL' })],
+      getLot: vi.fn(async () => lot),
+      getPolicyLayersForStack: layers([
+        {
+          layer: 'lot',
+          subject: 'LOT-1',
+          policy: { version: 1, requireApprovalOverMinor: '1000' },
+          updatedAt: new Date(),
+        },
+      ]),
+    })
+
+    expect(report.transitions).toEqual({ 'REQUIRE_APPROVAL→ALLOW': 1 })
+    expect(report.flips[0].recordedAction).toBe('REQUIRE_APPROVAL')
+    expect(report.byReason).toEqual({})
+  })
+})
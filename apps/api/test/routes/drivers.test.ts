@@ -12,9 +12,20 @@ vi.mock('../../src/db', () => ({
     getDriverByWallet: vi.fn(),
     updateDriver: vi.fn(),
     deactivateDriver: vi.fn(),
+    getPendingApprovalRequestsForWallet: vi.fn(),
+    getApprovalDelegates: vi.fn(),
+    addApprovalDelegate: vi.fn(),
+    removeApprovalDelegate: vi.fn(),
+    listPlateDebts: vi.fn(),
+    listDriverCredits: vi.fn(),
   },
 }))
 
+vi.mock('../../src/services/hedera', () => ({
+  isHederaEnabled: vi.fn(() => false),
+  endParkingSessionOnHedera: vi.fn(),
+}))
+
 // Mock auth JWT verification (not needed for these tests)
 vi.mock('../../routes/auth', () => ({
   verifyJwt: vi.fn().mockResolvedValue(null),
@@ -153,6 +164,98 @@ describe('drivers routes', () => {
     })
   })
 
+  describe('GET /api/drivers/:plate/debts', () => {
+    it('lists debts of the plate without internal fields', async () => {
+      vi.mocked(db.listPlateDebts).mockResolvedValue([
+        {
+          id: 'debt-1',
+          plateNumber: '1234567',
+          lotId: 'LOT-1',
+          sessionId: 's1',
+          driverWallet: '0xabc',
+          amountMinor: '1600',
+          currency: 'USD',
+          source: 'gate_offline',
+          entryTime: new Date('2026-01-01T10:00:00Z'),
+          exitTime: new Date('2026-01-01T12:00:00Z'),
+          status: 'outstanding',
+          collectingSessionId: 's2',
+          createdAt: new Date('2026-01-01T12:05:00Z'),
+        },
+      ])
+
+      const app = createApp()
+      const res = await request(app).get('/api/drivers/12-345-67/debts?status=outstanding')
+
+      expect(res.status).toBe(200)
+      expect(db.listPlateDebts).toHaveBeenCalledWith({
+        plateNumber: '1234567',
+        status: 'outstanding',
+      })
+      expect(res.body).toEqual([
+        {
+          id: 'debt-1',
+          plateNumber: '1234567',
+          lotId: 'LOT-1',
+          sessionId: 's1',
+          amountMinor: '1600',
+          currency: 'USD',
+          status: 'outstanding',
+          entryTime: '2026-01-01T10:00:00.000Z',
+          exitTime: '2026-01-01T12:00:00.000Z',
+          createdAt: '2026-01-01T12:05:00.000Z',
+        },
+      ])
+    })
+
+    it('rejects an unknown status filter', async () => {
+      const app = createApp()
+      const res = await request(app).get('/api/drivers/1234567/debts?status=paid')
+
+      expect(res.status).toBe(400)
+      expect(db.listPlateDebts).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/drivers/:plate/credits', () => {
+    it('lists over-payment credits of the plate without the payer wallet', async () => {
+      const asset = { kind: 'ERC20', chainId: 8453, token: '0xUSDC' }
+      vi.mocked(db.listDriverCredits).mockResolvedValue([
+        {
+          id: 'credit-1',
+          plateNumber: '1234567',
+          lotId: 'LOT-1',
+          sessionId: 's1',
+          driverWallet: '0xabc',
+          rail: 'evm',
+          asset,
+          amount: '250000',
+          txHash: '0xtx',
+          createdAt: new Date('2026-01-01T12:05:00Z'),
+        },
+      ])
+
+      const app = createApp()
+      const res = await request(app).get('/api/drivers/12-345-67/credits')
+
+      expect(res.status).toBe(200)
+      expect(db.listDriverCredits).toHaveBeenCalledWith('1234567')
+      expect(res.body).toEqual([
+        {
+          id: 'credit-1',
+          plateNumber: '1234567',
+          lotId: 'LOT-1',
+          sessionId: 's1',
+          rail: 'evm',
+          asset,
+          amount: '250000',
+          txHash: '0xtx',
+          createdAt: '2026-01-01T12:05:00.000Z',
+        },
+      ])
+    })
+  })
+
   describe('PUT /api/drivers/:plate', () => {
     it('updates driver profile', async () => {
       vi.mocked(db.updateDriver).mockResolvedValue({
@@ -205,4 +308,52 @@ describe('drivers routes', () => {
       expect(res.status).toBe(404)
     })
   })
+
+  describe('approval delegates', () => {
+    const DELEGATE = '0x' + 'ab'.repeat(20)
+
+    it('requires a signed-in wallet', async () => {
+      const res = await request(createApp()).get('/api/drivers/approvals/delegates')
+      expect(res.status).toBe(401)
+    })
+
+    it('adds, lists and removes delegates for the signed-in owner', async () => {
+      vi.mocked(db.getApprovalDelegates).mockResolvedValue([DELEGATE])
+      vi.mocked(db.removeApprovalDelegate).mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+      const app = createApp()
+
+      const added = await request(app)
+        .post('/api/drivers/approvals/delegates')
+        .set('x-wallet-address', '0xABC')
+        .send({ wallet: DELEGATE })
+      expect(added.status).toBe(201)
+      expect(added.body.delegates).toEqual([DELEGATE])
+      expect(db.addApprovalDelegate).toHaveBeenCalledWith('0xabc', DELEGATE)
+
+      const removed = await request(app)
+        .delete(`/api/drivers/approvals/delegates/${DELEGATE}`)
+        .set('x-wallet-address', '0xABC')
+      expect(removed.status).toBe(200)
+      const missing = await request(app)
+        .delete(`/api/drivers/approvals/delegates/${DELEGATE}`)
+        .set('x-wallet-address', '0xABC')
+      expect(missing.status).toBe(404)
+    })
+
+    it('rejects malformed or self delegates', async () => {
+      const app = createApp()
+      const bad = await request(app)
+        .post('/api/drivers/approvals/delegates')
+        .set('x-wallet-address', '0xABC')
+        .send({ wallet: 'not-a-wallet' })
+      expect(bad.status).toBe(400)
+
+      const self = await request(app)
+        .post('/api/drivers/approvals/delegates')
+        .set('x-wallet-address', DELEGATE.toUpperCase().replace('0X', '0x'))
+        .send({ wallet: DELEGATE })
+      expect(self.status).toBe(400)
+      expect(db.addApprovalDelegate).not.toHaveBeenCalled()
+    })
+  })
 })
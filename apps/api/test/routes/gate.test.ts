@@ -1,6 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import express from 'express'
 import request from 'supertest'
+import { LIFECYCLE_EVENT } from '@parker/core'
 import { gateRouter } from '../../src/routes/gate'
 
 // Mock dependencies
@@ -9,8 +10,13 @@ vi.mock('../../src/db', () => ({
     getLot: vi.fn(),
     getDriverByPlate: vi.fn(),
     getActiveSession: vi.fn(),
+    setSessionFeeDays: vi.fn(),
     getActiveSessionsByLot: vi.fn(),
     settleSessionAfterVerified: vi.fn(),
+    collectSessionDebts: vi.fn(async () => []),
+    getOutstandingDebtTotal: vi.fn(async () => 0n),
+    attachOutstandingDebts: vi.fn(async () => []),
+    createPlateDebt: vi.fn(),
     transitionSession: vi.fn(),
     createSession: vi.fn(),
     updateLot: vi.fn(),
@@ -18,22 +24,33 @@ vi.mock('../../src/db', () => ({
     completeIdempotency: vi.fn(),
     getActiveXrplPendingIntent: vi.fn(),
     upsertXrplPendingIntent: vi.fn(),
+    upsertEvmPendingPayment: vi.fn(),
+    getActiveEvmPendingPayment: vi.fn(async () => null),
+    cancelEvmPendingPayment: vi.fn(async () => false),
     getXrplIntentByTxHash: vi.fn(),
     resolveXrplIntentByPaymentId: vi.fn(),
     insertPolicyGrant: vi.fn(),
     updateSessionPolicyGrant: vi.fn(),
     getPolicyGrantExpiresAt: vi.fn(),
-    getFiatSpendTotalsByCurrency: vi.fn(),
-    getSpendTotalsFiat: vi.fn(),
+    getSpendLedgerTotals: vi.fn(),
     insertPolicyEvent: vi.fn(),
     insertPolicyDecision: vi.fn(),
     getDecisionPayloadByDecisionId: vi.fn(),
     getLatestPolicyEventPayload: vi.fn(),
     getMedianFeeForLot: vi.fn(),
+    getOtherActiveSessionLots: vi.fn(),
+    getPlateRiskHistory: vi.fn(),
     getPolicyGrantByGrantId: vi.fn(),
+    getPolicyLayersForStack: vi.fn(async () => []),
     consumeDecisionOnce: vi.fn(),
     hasSettlementForTxHash: vi.fn(),
     hasSettlementForDecisionRail: vi.fn(),
+    transitionDecisionState: vi.fn(),
+    createApprovalRequest: vi.fn(),
+    getApprovalRequest: vi.fn(),
+    resolveApprovalRequest: vi.fn(),
+    getLatestSessionApproval: vi.fn(),
+    getApprovalDelegates: vi.fn(),
   },
 }))
 
@@ -48,10 +65,26 @@ vi.mock('../../src/services/hedera', () => ({
   endParkingSessionOnHedera: vi.fn(),
 }))
 
+const pricing = vi.hoisted(() => ({ network: 'xrpl:testnet' }))
+
 vi.mock('../../src/services/pricing', () => ({
   convertToStablecoin: vi.fn(() => 10),
+  quoteStablecoin: vi.fn(async () => ({
+    amount: 10,
+    amountAtomic: '10000000',
+    decimals: 6,
+    fx: {
+      baseCurrency: 'USD',
+      quoteAssetSymbol: 'USDC',
+      rate: '1',
+      asOf: '2025-01-01T00:00:00.000Z',
+      provider: 'identity',
+    },
+  })),
   X402_STABLECOIN: 'USDC',
-  X402_NETWORK: 'xrpl:testnet',
+  get X402_NETWORK() {
+    return pricing.network
+  },
 }))
 
 vi.mock('../../src/services/stripe', () => ({
@@ -81,8 +114,11 @@ vi.mock('../../src/services/policy', async (importOriginal) => {
 import { db } from '../../src/db'
 import { enforcePayment } from '@parker/policy-core'
 import { evaluateExitPolicy } from '../../src/services/policy'
+import { quoteStablecoin } from '../../src/services/pricing'
 import { isHederaEnabled, endParkingSessionOnHedera, mintParkingNFTOnHedera } from '../../src/services/hedera'
-import { notifyDriver } from '../../src/ws/index'
+import { notifyDriver, notifyGate } from '../../src/ws/index'
+import { privateKeyToAccount } from 'viem/accounts'
+import { approvalTypedData } from '../../src/services/approvals'
 
 const mockLot = {
   id: 'LOT-1',
@@ -159,8 +195,13 @@ describe('gate routes', () => {
     vi.mocked(db.hasSettlementForDecisionRail).mockResolvedValue(false)
     vi.mocked(db.consumeDecisionOnce).mockResolvedValue(true)
     vi.mocked(db.resolveXrplIntentByPaymentId).mockResolvedValue(true)
-    vi.mocked(db.getFiatSpendTotalsByCurrency).mockResolvedValue({ dayTotalFiat: 0, sessionTotalFiat: 0 })
-    vi.mocked(db.getSpendTotalsFiat).mockResolvedValue({ dayTotalFiat: 0, sessionTotalFiat: 0 })
+    vi.mocked(db.getSpendLedgerTotals).mockResolvedValue({
+      sessionMinor: 0n,
+      vehicleDayMinor: 0n,
+      ownerDayMinor: 0n,
+      fleetDayMinor: 0n,
+      fleetId: null,
+    })
     vi.mocked(db.getPolicyGrantExpiresAt).mockResolvedValue(null)
     vi.mocked(db.insertPolicyGrant).mockResolvedValue({ grantId: 'grant-1' } as any)
     vi.mocked(db.updateSessionPolicyGrant).mockResolvedValue(undefined)
@@ -168,7 +209,13 @@ describe('gate routes', () => {
     vi.mocked(db.getDecisionPayloadByDecisionId).mockResolvedValue(null)
     vi.mocked(db.getLatestPolicyEventPayload).mockResolvedValue(null)
     vi.mocked(db.getMedianFeeForLot).mockResolvedValue(null)
+    vi.mocked(db.getOtherActiveSessionLots).mockResolvedValue([])
+    vi.mocked(db.getPlateRiskHistory).mockResolvedValue({ failedExits: 0, paymentFailures: 0 })
     vi.mocked(db.getPolicyGrantByGrantId).mockResolvedValue(null)
+    vi.mocked(db.getPolicyLayersForStack).mockResolvedValue([])
+    vi.mocked(db.getLatestSessionApproval).mockResolvedValue(null)
+    vi.mocked(db.getApprovalDelegates).mockResolvedValue([])
+    vi.mocked(db.transitionDecisionState).mockResolvedValue(true)
     vi.mocked(db.transitionSession).mockImplementation(async (session: any, input: any) => ({
       ...session,
       status: input.to,
@@ -204,6 +251,244 @@ describe('gate routes', () => {
       )
     })
 
+    it('merges DB policy layers into the grant and records which layers applied', async () => {
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(mockDriver)
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+      vi.mocked(db.getActiveSessionsByLot).mockResolvedValue([])
+      vi.mocked(db.createSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(),
+        status: 'active',
+      })
+      const updatedAt = new Date('2026-01-01T00:00:00Z')
+      vi.mocked(db.getPolicyLayersForStack).mockResolvedValue([
+        {
+          layer: 'lot',
+          subject: 'LOT-1',
+          policy: { version: 1, capPerSessionMinor: '2000' },
+          createdAt: updatedAt,
+          updatedAt,
+        },
+        {
+          layer: 'vehicle',
+          subject: '1234567',
+          policy: { version: 1, capPerSessionMinor: '1500' },
+          createdAt: updatedAt,
+          updatedAt,
+        },
+      ])
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/entry')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(201)
+      expect(db.getPolicyLayersForStack).toHaveBeenCalledWith('LOT-1', '1234567')
+      expect(vi.mocked(db.insertPolicyGrant)).toHaveBeenCalledWith(
+        expect.objectContaining({
+          maxSpend: expect.objectContaining({ perSessionMinor: '1500' }),
+          policyLayers: [
+            { layer: 'platform', subject: 'platform' },
+            { layer: 'vehicle', subject: '1234567', version: updatedAt.toISOString() },
+            { layer: 'lot', subject: 'LOT-1', version: updatedAt.toISOString() },
+          ],
+        }),
+      )
+    })
+
+    it('denies entry when a lot policy layer allows no rails', async () => {
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(mockDriver)
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+      vi.mocked(db.getActiveSessionsByLot).mockResolvedValue([])
+      vi.mocked(db.getPolicyLayersForStack).mockResolvedValue([
+        {
+          layer: 'lot',
+          subject: 'LOT-1',
+          policy: { version: 1, railAllowlist: [] },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ])
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/entry')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(403)
+      expect(res.body.reasons).toContain('RAIL_NOT_ALLOWED')
+      expect(db.createSession).not.toHaveBeenCalled()
+    })
+
+    it('denies entry when the plate owes more than the policy debt limit', async () => {
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(mockDriver)
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+      vi.mocked(db.getActiveSessionsByLot).mockResolvedValue([])
+      vi.mocked(db.getOutstandingDebtTotal).mockResolvedValueOnce(1600n)
+      vi.mocked(db.getPolicyLayersForStack).mockResolvedValue([
+        {
+          layer: 'lot',
+          subject: 'LOT-1',
+          policy: { version: 1, maxOutstandingDebtMinor: '1000' },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ])
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/entry')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(403)
+      expect(res.body.reasons).toContain('DEBT_OUTSTANDING')
+      expect(res.body.outstandingDebt).toEqual({ amount: 16, currency: 'USD' })
+      expect(db.getOutstandingDebtTotal).toHaveBeenCalledWith('1234567', 'USD')
+      expect(db.createSession).not.toHaveBeenCalled()
+    })
+
+    it("checks the lot's coordinates against policy geofences", async () => {
+      vi.mocked(db.getLot).mockResolvedValue({ ...mockLot, lat: 32.08, lng: 34.78 })
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(mockDriver)
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+      vi.mocked(db.getActiveSessionsByLot).mockResolvedValue([])
+      vi.mocked(db.getPolicyLayersForStack).mockResolvedValue([
+        {
+          layer: 'vehicle',
+          subject: '1234567',
+          policy: {
+            version: 1,
+            geoAllowlist: [
+              {
+                type: 'Polygon',
+                coordinates: [
+                  [
+                    [34.7, 31.7],
+                    [34.9, 31.7],
+                    [34.9, 31.9],
+                    [34.7, 31.9],
+                    [34.7, 31.7],
+                  ],
+                ],
+              },
+            ],
+          },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ])
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/entry')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(403)
+      expect(res.body.reasons).toEqual(['GEO_NOT_ALLOWED'])
+      const denied = vi
+        .mocked(db.insertPolicyEvent)
+        .mock.calls.find(([e]) => e.eventType === 'POLICY_GRANT_DENIED')
+      const trace = (denied?.[0].payload as { trace: Array<Record<string, unknown>> }).trace
+      expect(trace[trace.length - 1]).toMatchObject({
+        rule: 'geoAllowlist',
+        input: { lat: 32.08, lng: 34.78 },
+      })
+    })
+
+    it('denies entry outside the vehicle layer time windows', async () => {
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(mockDriver)
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+      vi.mocked(db.getActiveSessionsByLot).mockResolvedValue([])
+      vi.mocked(db.getPolicyLayersForStack).mockResolvedValue([
+        {
+          layer: 'vehicle',
+          subject: '1234567',
+          policy: { version: 1, timeWindows: [] },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ])
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/entry')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(403)
+      expect(res.body.reasons).toEqual(['OUTSIDE_TIME_WINDOW'])
+      expect(db.createSession).not.toHaveBeenCalled()
+    })
+
+    it('denies entry at the lot risk deny threshold and records the contributing factors', async () => {
+      vi.mocked(db.getLot).mockResolvedValue({
+        ...mockLot,
+        riskThresholds: { requireApproval: 10, deny: 20 },
+      })
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(mockDriver)
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+      vi.mocked(db.getActiveSessionsByLot).mockResolvedValue([])
+      vi.mocked(db.getPlateRiskHistory).mockResolvedValue({ failedExits: 0, paymentFailures: 2 })
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/entry')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(403)
+      expect(res.body.reasons).toEqual(['RISK_HIGH'])
+      expect(db.createSession).not.toHaveBeenCalled()
+      expect(vi.mocked(db.insertPolicyEvent)).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'RISK_SIGNAL',
+          payload: expect.objectContaining({
+            signal: 'RISK_SCORE',
+            stage: 'entry',
+            score: 20,
+            factors: [expect.objectContaining({ code: 'PAYMENT_FAILURES', points: 20 })],
+          }),
+        }),
+      )
+    })
+
+    it('records the entry rule trace with the layer each rule came from', async () => {
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(mockDriver)
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+      vi.mocked(db.getActiveSessionsByLot).mockResolvedValue([])
+      vi.mocked(db.getPolicyLayersForStack).mockResolvedValue([
+        {
+          layer: 'lot',
+          subject: 'LOT-1',
+          policy: { version: 1, railAllowlist: [] },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ])
+
+      const app = createApp()
+      await request(app).post('/api/gate/entry').send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      const denied = vi
+        .mocked(db.insertPolicyEvent)
+        .mock.calls.find(([e]) => e.eventType === 'POLICY_GRANT_DENIED')
+      const trace = (denied?.[0].payload as { trace: Array<Record<string, unknown>> }).trace
+      expect(trace[0]).toEqual({ rule: 'operatorAllowlist', result: 'not_set' })
+      expect(trace[trace.length - 1]).toMatchObject({
+        rule: 'railAllowlist',
+        result: 'deny',
+        limit: [],
+        reason: 'RAIL_NOT_ALLOWED',
+        layers: ['lot'],
+      })
+    })
+
     it('returns 400 without lotId', async () => {
       const app = createApp()
       const res = await request(app).post('/api/gate/entry').send({ plateNumber: '1234567' })
@@ -371,6 +656,15 @@ describe('gate routes', () => {
       expect(res.body.fee).toBeGreaterThan(0)
       expect(res.body.currency).toBe('USD')
       expect(res.body.paymentOptions).toBeDefined()
+      expect(db.setSessionFeeDays).toHaveBeenCalledWith('s1', res.body.feeDays)
+      expect(db.upsertEvmPendingPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: 's1',
+          plateNumber: '1234567',
+          lotId: 'LOT-1',
+          expectedAmount: res.body.paymentOptions.x402.amount,
+        }),
+      )
       expect(vi.mocked(notifyDriver)).toHaveBeenCalledWith(
         '1234567',
         expect.objectContaining({
@@ -386,6 +680,169 @@ describe('gate routes', () => {
       )
     })
 
+    it('adds outstanding debts of the plate to the exit fee', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 59 * 60 * 1000), // bills as 1h
+        status: 'active',
+      })
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.attachOutstandingDebts).mockResolvedValueOnce([
+        { id: 'debt-1', sessionId: 's0', amountMinor: '1600' } as any,
+      ])
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      expect(db.attachOutstandingDebts).toHaveBeenCalledWith('1234567', 'LOT-1', 'USD', 's1')
+      // 1h at 8/h plus the 16.00 debt
+      expect(res.body.fee).toBe(24)
+      expect(res.body.debt).toEqual({ amount: 16, currency: 'USD', count: 1 })
+      expect(vi.mocked(notifyDriver)).toHaveBeenCalledWith(
+        '1234567',
+        expect.objectContaining({ type: 'payment_required', debt: res.body.debt }),
+      )
+    })
+
+    it('returns per-band fee breakdown from the lot tariff', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 50 * 60 * 1000), // rounds up to 4 × 15 min
+        status: 'active',
+      })
+      vi.mocked(db.getLot).mockResolvedValue({
+        ...mockLot,
+        maxDailyFee: undefined,
+        tariff: [{ name: 'Flat', ratePerHour: 3, start: '00:00', end: '00:00' }],
+      })
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.fee).toBe(3)
+      expect(res.body.feeBreakdown).toEqual([
+        { band: 'Flat', ratePerHour: 3, minutes: 60, fee: 3, feeMinor: '300' },
+      ])
+    })
+
+    it('prices the exit after an operator comp but keeps the undiscounted breakdown', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 50 * 60 * 1000),
+        status: 'active',
+        comp: { percent: 50 },
+      })
+      vi.mocked(db.getLot).mockResolvedValue({
+        ...mockLot,
+        maxDailyFee: undefined,
+        tariff: [{ name: 'Flat', ratePerHour: 3, start: '00:00', end: '00:00' }],
+      })
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.fee).toBe(1.5)
+      expect(res.body.feeBreakdown[0].feeMinor).toBe('300')
+      expect(vi.mocked(evaluateExitPolicy).mock.calls[0][0].feeMinor).toBe(150n)
+    })
+
+    it('applies maxDailyFee per day on multi-day stays and returns the per-day breakdown', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - (2 * 24 * 60 + 50) * 60 * 1000), // 2 days 50 min
+        status: 'active',
+      })
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      // 50 + 50 (capped days) + 1h at 8/hr
+      expect(res.body.fee).toBe(108)
+      expect(
+        res.body.feeDays.map((d: { fee: number; capped: boolean }) => [d.fee, d.capped]),
+      ).toEqual([
+        [50, true],
+        [50, true],
+        [8, false],
+      ])
+    })
+
+    it('records the FX snapshot on the stablecoin quote and persists it with the decision', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 60 * 60 * 1000),
+        status: 'active',
+      })
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      const decisionInput = vi.mocked(db.insertPolicyDecision).mock.calls[0][0]
+      expect(decisionInput.fxSnapshot).toMatchObject({ rate: '1', provider: 'identity' })
+      const quotes = (
+        decisionInput.payload as { settlementQuotes?: { rail: string; fx?: unknown }[] }
+      ).settlementQuotes
+      expect(quotes?.find((q) => q.rail === 'xrpl')?.fx).toEqual(decisionInput.fxSnapshot)
+    })
+
+    it('prices policy checks and the stablecoin quote from the same minor-unit fee', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 50 * 60 * 1000),
+        status: 'active',
+      })
+      vi.mocked(db.getLot).mockResolvedValue({
+        ...mockLot,
+        ratePerHour: 500,
+        maxDailyFee: 5000,
+        currency: 'JPY',
+      })
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.fee).toBe(500)
+      expect(vi.mocked(evaluateExitPolicy).mock.calls[0][0].feeMinor).toBe(500n)
+      expect(vi.mocked(quoteStablecoin)).toHaveBeenCalledWith(500n, 'JPY')
+      const decisionInput = vi.mocked(db.insertPolicyDecision).mock.calls[0][0]
+      expect((decisionInput.payload as { priceFiat?: unknown }).priceFiat).toEqual({
+        amountMinor: '500',
+        currency: 'JPY',
+      })
+    })
+
     it('returns 404 when no active session', async () => {
       vi.mocked(db.getActiveSession).mockResolvedValue(null)
 
@@ -527,6 +984,71 @@ describe('gate routes', () => {
       expect(res.body.decision.sessionGrantId).toBe('grant-expired')
     })
 
+    it('persists the exit rule trace with the decision payload', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 60 * 60 * 1000),
+        status: 'active',
+        policyGrantId: 'grant-expired',
+        policyHash: 'ph-1',
+      } as any)
+      vi.mocked(db.getPolicyGrantExpiresAt).mockResolvedValue(new Date(Date.now() - 1000))
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+
+      const app = createApp()
+      await request(app).post('/api/gate/exit').send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      const payload = vi.mocked(db.insertPolicyDecision).mock.calls[0][0].payload as {
+        trace: Array<Record<string, unknown>>
+      }
+      expect(payload.trace.map((e) => e.rule)).toContain('capPerTxMinor')
+      expect(payload.trace[payload.trace.length - 1]).toMatchObject({
+        rule: 'grantExpiry',
+        result: 'require_approval',
+        reason: 'GRANT_EXPIRED',
+      })
+    })
+
+    it('requires approval at exit when the plate is active in another lot', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 60 * 60 * 1000),
+        status: 'active',
+      })
+      vi.mocked(db.getLot).mockResolvedValue({
+        ...mockLot,
+        riskThresholds: { requireApproval: 50 },
+      })
+      vi.mocked(db.getOtherActiveSessionLots).mockResolvedValue(['LOT-2'])
+      vi.mocked(db.getMedianFeeForLot).mockResolvedValue(2)
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.approvalRequired).toBe(true)
+      expect(res.body.policy.reasons).toContain('RISK_HIGH')
+      const signal = vi
+        .mocked(db.insertPolicyEvent)
+        .mock.calls.find(([e]) => e.eventType === 'RISK_SIGNAL')?.[0]
+      expect(signal?.sessionId).toBe('s1')
+      expect(signal?.payload).toMatchObject({
+        stage: 'exit',
+        score: 55,
+        factors: [
+          { code: 'PLATE_ACTIVE_ELSEWHERE', points: 40, detail: { lotIds: ['LOT-2'] } },
+          { code: 'UNUSUAL_FEE', points: 15, detail: { fee: expect.any(Number), medianFee: 2 } },
+        ],
+        thresholds: { requireApproval: 50 },
+      })
+    })
+
     it('returns 400 for lot mismatch', async () => {
       vi.mocked(db.getActiveSession).mockResolvedValue({
         id: 's1',
@@ -862,6 +1384,77 @@ describe('gate routes', () => {
       expect(vi.mocked(db.settleSessionAfterVerified)).not.toHaveBeenCalled()
     })
 
+    it("accepts the intent's own destination tag in place of the memo reference", async () => {
+      const decisionId = 'dec-intent-tag'
+      const intent = {
+        paymentId: '44444444-4444-4444-8444-444444444444',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        sessionId: 's1',
+        amount: '8.000000',
+        destination: mockLot.operatorWallet,
+        token: 'USDC',
+        network: 'xrpl:testnet',
+        status: 'pending',
+        expiresAt: new Date(Date.now() + 60_000),
+        decisionId,
+        asset: { kind: 'IOU', currency: 'USDC', issuer: 'rIssuer' },
+        destinationTag: 4242,
+      }
+      vi.mocked(db.getActiveXrplPendingIntent).mockResolvedValue(intent as any)
+      vi.mocked(db.getDecisionPayloadByDecisionId).mockResolvedValue({
+        action: 'ALLOW',
+        rail: 'xrpl',
+        asset: { kind: 'IOU', currency: 'USDC', issuer: 'rIssuer' },
+        reasons: ['OK'],
+        maxSpend: { perTxMinor: '10000000' },
+        expiresAtISO: new Date(Date.now() + 5 * 60_000).toISOString(),
+        decisionId,
+        policyHash: 'ph-intent-tag',
+      } as any)
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 60 * 60 * 1000),
+        status: 'active',
+      } as any)
+      vi.mocked(db.getLot).mockResolvedValue(mockLot as any)
+      vi.mocked(db.settleSessionAfterVerified).mockResolvedValue({
+        id: 's1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date(Date.now() - 60 * 60 * 1000),
+        exitTime: new Date(),
+        feeAmount: 8,
+        feeCurrency: 'USD',
+        status: 'closed',
+      } as any)
+
+      const app = createApp()
+      const exitWithTag = (tag: string) =>
+        request(app)
+          .post('/api/gate/exit')
+          .set('x-test-payment-verified', 'true')
+          .set('x-test-payment-rail', 'xrpl')
+          .set('x-test-payment-tx-hash', 'BD'.repeat(32))
+          .set('x-test-transfer-to', mockLot.operatorWallet)
+          .set('x-test-transfer-amount', String(8 * 10 ** 6))
+          .set('x-test-transfer-destination-tag', tag)
+          .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      const otherTag = await exitWithTag('4243')
+      expect(otherTag.status).toBe(400)
+      expect(otherTag.body.error).toMatch(/destination tag is not allowed/i)
+
+      const ownTag = await exitWithTag('4242')
+      expect(ownTag.status).toBe(200)
+      expect(vi.mocked(db.resolveXrplIntentByPaymentId)).toHaveBeenCalledWith({
+        paymentId: intent.paymentId,
+        txHash: 'BD'.repeat(32),
+      })
+    })
+
     it('rejects verified XRPL payment when amount mismatches or verification context is invalid', async () => {
       vi.mocked(db.getActiveXrplPendingIntent).mockResolvedValue({
         paymentId: '33333333-3333-4333-8333-333333333333',
@@ -911,6 +1504,92 @@ describe('gate routes', () => {
       expect(vi.mocked(db.settleSessionAfterVerified)).not.toHaveBeenCalled()
     })
 
+    describe('x402 payments on an EVM network', () => {
+      const baseSepoliaUsdc = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+
+      beforeEach(() => {
+        pricing.network = 'base-sepolia'
+        vi.mocked(db.getActiveSession).mockResolvedValue({
+          id: 's1',
+          tokenId: 123,
+          plateNumber: '1234567',
+          lotId: 'LOT-1',
+          entryTime: new Date(Date.now() - 60 * 60 * 1000),
+          status: 'active',
+        } as any)
+        vi.mocked(db.getLot).mockResolvedValue(mockLot as any)
+      })
+
+      afterEach(() => {
+        pricing.network = 'xrpl:testnet'
+      })
+
+      function payEvm(amount: bigint) {
+        return request(createApp())
+          .post('/api/gate/exit')
+          .set('x-test-payment-verified', 'true')
+          .set('x-test-payment-rail', 'evm')
+          .set('x-test-payment-tx-hash', '0x' + 'e'.repeat(64))
+          .set('x-test-transfer-to', mockLot.operatorWallet)
+          .set('x-test-transfer-amount', amount.toString())
+          .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+      }
+
+      it("checks the amount against the decision's quote for the token", async () => {
+        vi.mocked(db.getLatestPolicyEventPayload).mockImplementation(async (_id, eventType) =>
+          eventType === LIFECYCLE_EVENT.PAYMENT_DECISION_CREATED
+            ? {
+                decisionId: 'dec-evm',
+                settlementQuotes: [
+                  {
+                    quoteId: 'q-evm',
+                    rail: 'evm',
+                    asset: { kind: 'ERC20', chainId: 84532, token: baseSepoliaUsdc },
+                    amount: { amount: '9000000', decimals: 6 },
+                    destination: mockLot.operatorWallet,
+                    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+                  },
+                ],
+              }
+            : null,
+        )
+
+        // 8 USDC is the fee at 1:1, but the driver was quoted 9
+        const res = await payEvm(8_000_000n)
+
+        expect(res.status).toBe(400)
+        expect(res.body).toMatchObject({
+          error: 'Payment amount mismatch',
+          expectedAmount: '9000000',
+          actualAmount: '8000000',
+        })
+        expect(vi.mocked(db.insertPolicyEvent)).not.toHaveBeenCalledWith(
+          expect.objectContaining({ eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED }),
+        )
+
+        await payEvm(9_000_000n)
+        expect(vi.mocked(db.insertPolicyEvent)).toHaveBeenCalledWith(
+          expect.objectContaining({
+            eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+            payload: expect.objectContaining({
+              amount: '9000000',
+              chainId: 84532,
+              tokenAddress: baseSepoliaUsdc,
+              amountCheck: expect.objectContaining({ accepted: true, expected: '9000000' }),
+            }),
+          }),
+        )
+      })
+
+      it('rejects a payment the decision did not quote', async () => {
+        const res = await payEvm(8_000_000n)
+
+        expect(res.status).toBe(409)
+        expect(res.body.error).toBe('No settlement quote for this payment')
+        expect(vi.mocked(db.settleSessionAfterVerified)).not.toHaveBeenCalled()
+      })
+    })
+
     it('settlement close requires matching decision: 403 when enforcement fails', async () => {
       const paymentId = 'eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee'
       vi.mocked(db.getActiveXrplPendingIntent).mockResolvedValue({
@@ -1363,6 +2042,347 @@ describe('gate routes', () => {
     })
   })
 
+  describe('owner approvals', () => {
+    const owner = privateKeyToAccount(`0x${'11'.repeat(32)}`)
+    const delegate = privateKeyToAccount(`0x${'22'.repeat(32)}`)
+    const stranger = privateKeyToAccount(`0x${'33'.repeat(32)}`)
+
+    beforeEach(async () => {
+      // Earlier exit tests replace the evaluator with fixed decisions
+      const actual = await vi.importActual<typeof import('../../src/services/policy')>(
+        '../../src/services/policy',
+      )
+      vi.mocked(evaluateExitPolicy).mockImplementation(actual.evaluateExitPolicy)
+    })
+
+    const pendingRequest = (overrides: Record<string, unknown> = {}) => ({
+      id: 'ar-1',
+      decisionId: 'dec-1',
+      sessionId: 's1',
+      plateNumber: '1234567',
+      lotId: 'LOT-1',
+      ownerWallet: owner.address.toLowerCase(),
+      amountMinor: '800',
+      currency: 'USD',
+      reasons: ['NEEDS_APPROVAL'],
+      status: 'pending' as const,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+      ...overrides,
+    })
+
+    async function sign(
+      account: typeof owner,
+      req: ReturnType<typeof pendingRequest>,
+      approved: boolean,
+    ) {
+      const typed = approvalTypedData(req)
+      return account.signTypedData({ ...typed, message: { ...typed.message, approved } })
+    }
+
+    const approvalSession = {
+      id: 's1',
+      plateNumber: '1234567',
+      lotId: 'LOT-1',
+      entryTime: new Date(Date.now() - 60 * 60 * 1000),
+      status: 'active' as const,
+      approvalRequiredBeforePayment: true,
+    }
+
+    it('opens an approval request for the owner wallet when exit requires approval', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue(approvalSession)
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.getDriverByPlate).mockResolvedValue({ ...mockDriver, wallet: owner.address })
+      vi.mocked(db.createApprovalRequest).mockImplementation(async (input) =>
+        pendingRequest({ decisionId: input.decisionId, amountMinor: input.amountMinor }),
+      )
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.approvalRequired).toBe(true)
+      expect(vi.mocked(db.createApprovalRequest)).toHaveBeenCalledWith(
+        expect.objectContaining({
+          decisionId: res.body.policy.decisionId,
+          sessionId: 's1',
+          ownerWallet: owner.address,
+          currency: 'USD',
+        }),
+      )
+      expect(res.body.approval.request).toMatchObject({
+        requestId: 'ar-1',
+        typedData: { primaryType: 'PaymentApproval', message: { requestId: 'ar-1' } },
+      })
+      expect(vi.mocked(notifyDriver)).toHaveBeenCalledWith(
+        '1234567',
+        expect.objectContaining({
+          approval: expect.objectContaining({
+            request: expect.objectContaining({ requestId: 'ar-1' }),
+          }),
+        }),
+      )
+    })
+
+    it('lets the exit through once the owner has approved the price', async () => {
+      vi.mocked(db.getActiveSession).mockResolvedValue(approvalSession)
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.getLatestSessionApproval).mockResolvedValue({
+        ...pendingRequest({ amountMinor: '100000' }),
+        status: 'approved',
+        approverWallet: owner.address.toLowerCase(),
+      })
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit')
+        .send({ plateNumber: '1234567', lotId: 'LOT-1' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.approvalRequired).toBeUndefined()
+      expect(res.body.policy.action).toBe('ALLOW')
+      expect(vi.mocked(evaluateExitPolicy)).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ownerApproval: expect.objectContaining({ approvalId: 'ar-1', maxMinor: '100000' }),
+        }),
+      )
+      expect(vi.mocked(db.createApprovalRequest)).not.toHaveBeenCalled()
+    })
+
+    it('records a signed owner approval on the decision', async () => {
+      const pending = pendingRequest()
+      vi.mocked(db.getApprovalRequest).mockResolvedValue(pending)
+      vi.mocked(db.resolveApprovalRequest).mockImplementation(async (_id, input) => ({
+        ...pending,
+        status: input.status,
+        approverWallet: input.approverWallet,
+        signature: input.signature,
+      }))
+
+      const signature = await sign(owner, pending, true)
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit/approve')
+        .send({ requestId: 'ar-1', approved: true, signature })
+
+      expect(res.status).toBe(200)
+      expect(res.body).toMatchObject({ status: 'approved', approver: owner.address.toLowerCase() })
+      expect(vi.mocked(db.transitionDecisionState)).toHaveBeenCalledWith('dec-1', {
+        from: ['created'],
+        to: 'approved',
+      })
+      expect(vi.mocked(db.insertPolicyEvent)).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'PAYMENT_APPROVED',
+          sessionId: 's1',
+          decisionId: 'dec-1',
+          payload: expect.objectContaining({ approvalRequestId: 'ar-1', delegated: false }),
+        }),
+      )
+      expect(vi.mocked(notifyGate)).toHaveBeenCalledWith(
+        'LOT-1',
+        expect.objectContaining({ type: 'approval_resolved', status: 'approved' }),
+      )
+    })
+
+    it('accepts a delegate rejection and refuses other signers', async () => {
+      const pending = pendingRequest()
+      vi.mocked(db.getApprovalRequest).mockResolvedValue(pending)
+      vi.mocked(db.getApprovalDelegates).mockResolvedValue([delegate.address.toLowerCase()])
+      vi.mocked(db.resolveApprovalRequest).mockImplementation(async (_id, input) => ({
+        ...pending,
+        status: input.status,
+        approverWallet: input.approverWallet,
+      }))
+      const app = createApp()
+
+      const foreign = await request(app)
+        .post('/api/gate/exit/approve')
+        .send({ requestId: 'ar-1', approved: true, signature: await sign(stranger, pending, true) })
+      expect(foreign.status).toBe(403)
+      expect(foreign.body.code).toBe('NOT_APPROVER')
+      expect(vi.mocked(db.resolveApprovalRequest)).not.toHaveBeenCalled()
+
+      // Signed as a rejection but submitted as an approval: recovers to another address
+      const flipped = await request(app)
+        .post('/api/gate/exit/approve')
+        .send({ requestId: 'ar-1', approved: true, signature: await sign(owner, pending, false) })
+      expect(flipped.status).toBe(403)
+
+      const rejected = await request(app)
+        .post('/api/gate/exit/approve')
+        .send({
+          requestId: 'ar-1',
+          approved: false,
+          signature: await sign(delegate, pending, false),
+        })
+      expect(rejected.status).toBe(200)
+      expect(rejected.body.status).toBe('rejected')
+      expect(vi.mocked(db.transitionDecisionState)).toHaveBeenCalledWith('dec-1', {
+        from: ['created'],
+        to: 'rejected',
+      })
+      expect(vi.mocked(db.insertPolicyEvent)).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'PAYMENT_REJECTED',
+          payload: expect.objectContaining({ delegated: true }),
+        }),
+      )
+    })
+
+    it('expires requests answered after their deadline', async () => {
+      const pending = pendingRequest({ expiresAt: new Date(Date.now() - 1000) })
+      vi.mocked(db.getApprovalRequest).mockResolvedValue(pending)
+      vi.mocked(db.resolveApprovalRequest).mockResolvedValue({ ...pending, status: 'expired' })
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit/approve')
+        .send({ requestId: 'ar-1', approved: true, signature: await sign(owner, pending, true) })
+
+      expect(res.status).toBe(410)
+      expect(vi.mocked(db.resolveApprovalRequest)).toHaveBeenCalledWith('ar-1', {
+        status: 'expired',
+      })
+      expect(vi.mocked(db.transitionDecisionState)).toHaveBeenCalledWith('dec-1', {
+        from: ['created'],
+        to: 'expired',
+      })
+    })
+
+    it('validates the approve body', async () => {
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/exit/approve')
+        .send({ requestId: 'ar-1', approved: 'yes', signature: '0x' })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/gate/offline-exits', () => {
+    const exitTime = new Date(Date.now() - 10 * 60 * 1000)
+    const entryTime = new Date(exitTime.getTime() - 119 * 60 * 1000) // bills as 2h
+
+    beforeEach(() => {
+      vi.mocked(db.getLot).mockResolvedValue(mockLot)
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(mockDriver)
+      vi.mocked(db.createPlateDebt).mockImplementation(async (input) => ({
+        status: 'created',
+        debt: {
+          id: 'debt-1',
+          ...input,
+          amountMinor: input.amountMinor.toString(),
+          status: 'outstanding',
+          createdAt: new Date(),
+        },
+      }))
+    })
+
+    afterEach(() => {
+      delete process.env.GATE_API_KEY
+    })
+
+    it('closes the sessions of uploaded exits and records their fees as debts', async () => {
+      vi.mocked(db.getActiveSession).mockImplementation(async (plate) =>
+        plate === '1234567'
+          ? { id: 's1', plateNumber: plate, lotId: 'LOT-1', entryTime, status: 'active' }
+          : null,
+      )
+
+      const app = createApp()
+      const res = await request(app)
+        .post('/api/gate/offline-exits')
+        .send({
+          lotId: 'LOT-1',
+          exits: [
+            { plateNumber: '12-345-67', exitTime: exitTime.toISOString() },
+            { plateNumber: '7654321', exitTime: exitTime.toISOString() },
+          ],
+        })
+
+      expect(res.status).toBe(200)
+      expect(res.body.results).toMatchObject([
+        {
+          plateNumber: '1234567',
+          status: 'recorded',
+          sessionId: 's1',
+          debt: { id: 'debt-1', amountMinor: '1600', currency: 'USD', status: 'outstanding' },
+        },
+        { plateNumber: '7654321', status: 'no_session' },
+      ])
+      expect(db.createPlateDebt).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 's1', amountMinor: 1600n, source: 'gate_offline' }),
+      )
+      expect(db.transitionSession).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ to: 'closed', reason: 'unpaid_exit', exitTime }),
+      )
+      expect(vi.mocked(notifyDriver)).toHaveBeenCalledWith(
+        '1234567',
+        expect.objectContaining({
+          type: 'debt_recorded',
+          debt: expect.objectContaining({ id: 'debt-1' }),
+        }),
+      )
+    })
+
+    it('requires the gate API key when one is configured', async () => {
+      process.env.GATE_API_KEY = 'gate-key'
+      const body = {
+        lotId: 'LOT-1',
+        exits: [{ plateNumber: '1234567', exitTime: exitTime.toISOString() }],
+      }
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+
+      const app = createApp()
+      const denied = await request(app).post('/api/gate/offline-exits').send(body)
+      expect(denied.status).toBe(401)
+
+      const allowed = await request(app)
+        .post('/api/gate/offline-exits')
+        .set('x-gate-api-key', 'gate-key')
+        .send(body)
+      expect(allowed.status).toBe(200)
+    })
+
+    it('rejects invalid exits and unknown lots', async () => {
+      const app = createApp()
+      const post = (body: unknown) => request(app).post('/api/gate/offline-exits').send(body)
+
+      expect((await post({ lotId: 'LOT-1', exits: [] })).status).toBe(400)
+      expect(
+        (await post({ lotId: 'LOT-1', exits: [{ plateNumber: '1234567', exitTime: 'soon' }] }))
+          .status,
+      ).toBe(400)
+      expect(
+        (
+          await post({
+            lotId: 'LOT-1',
+            exits: [{ plateNumber: '1234567', exitTime: new Date(Date.now() + 3_600_000) }],
+          })
+        ).status,
+      ).toBe(400)
+      expect(
+        (
+          await post({
+            lotId: 'LOT-1',
+            exits: [{ plateNumber: '1234567', exitTime: exitTime.toISOString(), source: 'x' }],
+          })
+        ).status,
+      ).toBe(400)
+
+      vi.mocked(db.getLot).mockResolvedValue(null)
+      const unknown = await post({
+        lotId: 'LOT-9',
+        exits: [{ plateNumber: '1234567', exitTime: exitTime.toISOString() }],
+      })
+      expect(unknown.status).toBe(404)
+      expect(db.createPlateDebt).not.toHaveBeenCalled()
+    })
+  })
+
   describe('GET /api/gate/lot/:lotId/status', () => {
     it('returns lot status', async () => {
       vi.mocked(db.getLot).mockResolvedValue(mockLot)
@@ -1432,5 +2452,131 @@ describe('gate routes', () => {
 
       expect(res.status).toBe(400)
     })
+
+    it('saves a tariff schedule and timezone', async () => {
+      const tariff = [{ name: 'Night', ratePerHour: 2, start: '22:00', end: '06:00' }]
+      vi.mocked(db.updateLot).mockResolvedValue({ ...mockLot, timezone: 'Europe/London', tariff })
+
+      const app = createApp()
+      const res = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({ timezone: 'Europe/London', tariff })
+
+      expect(res.status).toBe(200)
+      expect(res.body.tariff).toEqual(tariff)
+      expect(vi.mocked(db.updateLot)).toHaveBeenCalledWith(
+        'LOT-1',
+        expect.objectContaining({ timezone: 'Europe/London', tariff }),
+      )
+    })
+
+    it('rejects an unknown dailyCapMode', async () => {
+      const app = createApp()
+      const res = await request(app).put('/api/gate/lot/LOT-1').send({ dailyCapMode: 'weekly' })
+
+      expect(res.status).toBe(400)
+      expect(vi.mocked(db.updateLot)).not.toHaveBeenCalled()
+    })
+
+    it('saves risk thresholds and rejects invalid ones', async () => {
+      const riskThresholds = { requireApproval: 60, deny: 90 }
+      vi.mocked(db.updateLot).mockResolvedValue({ ...mockLot, riskThresholds })
+
+      const app = createApp()
+      const res = await request(app).put('/api/gate/lot/LOT-1').send({ riskThresholds })
+      expect(res.status).toBe(200)
+      expect(res.body.riskThresholds).toEqual(riskThresholds)
+      expect(vi.mocked(db.updateLot)).toHaveBeenCalledWith(
+        'LOT-1',
+        expect.objectContaining({ riskThresholds }),
+      )
+
+      vi.mocked(db.updateLot).mockClear()
+      const inverted = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({ riskThresholds: { requireApproval: 80, deny: 50 } })
+      expect(inverted.status).toBe(400)
+      expect(inverted.body.error).toMatch(/deny/)
+
+      const outOfRange = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({ riskThresholds: { requireApproval: 150 } })
+      expect(outOfRange.status).toBe(400)
+      expect(vi.mocked(db.updateLot)).not.toHaveBeenCalled()
+    })
+
+    it('saves accepted EVM assets as registry addresses and rejects unknown ones', async () => {
+      vi.mocked(db.updateLot).mockResolvedValue(mockLot)
+
+      const app = createApp()
+      const res = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({
+          evmAssets: [
+            { chainId: 8453, token: 'EURC' },
+            { chainId: 137, token: 'usdc' },
+          ],
+        })
+      expect(res.status).toBe(200)
+      expect(vi.mocked(db.updateLot)).toHaveBeenCalledWith(
+        'LOT-1',
+        expect.objectContaining({
+          evmAssets: [
+            { chainId: 8453, token: '0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42' },
+            { chainId: 137, token: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359' },
+          ],
+        }),
+      )
+
+      vi.mocked(db.updateLot).mockClear()
+      const unknownToken = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({ evmAssets: [{ chainId: 137, token: 'EURC' }] })
+      expect(unknownToken.status).toBe(400)
+      expect(unknownToken.body.error).toMatch(/evmAssets\[0\]\.token/)
+      expect(vi.mocked(db.updateLot)).not.toHaveBeenCalled()
+    })
+
+    it('saves an amount tolerance and rejects invalid ones', async () => {
+      const amountTolerance = { stance: 'tolerant', underpaymentBps: 50, allowPartial: true }
+      vi.mocked(db.updateLot).mockResolvedValue({ ...mockLot, amountTolerance } as any)
+
+      const app = createApp()
+      const res = await request(app).put('/api/gate/lot/LOT-1').send({ amountTolerance })
+      expect(res.status).toBe(200)
+      expect(res.body.amountTolerance).toEqual(amountTolerance)
+      expect(vi.mocked(db.updateLot)).toHaveBeenCalledWith(
+        'LOT-1',
+        expect.objectContaining({ amountTolerance }),
+      )
+
+      vi.mocked(db.updateLot).mockClear()
+      const tooLoose = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({ amountTolerance: { stance: 'tolerant', underpaymentBps: 5_000 } })
+      expect(tooLoose.status).toBe(400)
+      expect(tooLoose.body.error).toMatch(/underpaymentBps/)
+
+      const strictWithBps = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({ amountTolerance: { stance: 'strictExact', underpaymentBps: 10 } })
+      expect(strictWithBps.status).toBe(400)
+      expect(vi.mocked(db.updateLot)).not.toHaveBeenCalled()
+    })
+
+    it('rejects invalid tariff bands and timezones', async () => {
+      const app = createApp()
+      const badBand = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({ tariff: [{ name: 'Night', ratePerHour: 2, start: '22:00', end: '6pm' }] })
+      expect(badBand.status).toBe(400)
+      expect(badBand.body.error).toMatch(/end/)
+
+      const badZone = await request(app)
+        .put('/api/gate/lot/LOT-1')
+        .send({ timezone: 'Nowhere/City' })
+      expect(badZone.status).toBe(400)
+      expect(vi.mocked(db.updateLot)).not.toHaveBeenCalled()
+    })
   })
 })
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import express from 'express'
+import request from 'supertest'
+import { policiesRouter } from '../../src/routes/policies'
+
+vi.mock('../../src/db', () => ({
+  db: {
+    getDriverByPlate: vi.fn(),
+    getLot: vi.fn(),
+    getPolicyLayer: vi.fn(),
+    listPolicyLayers: vi.fn(),
+    upsertPolicyLayer: vi.fn(),
+    deletePolicyLayer: vi.fn(),
+    getPolicyLayersForStack: vi.fn(async () => []),
+    getRecentDecisionsForReplay: vi.fn(async () => []),
+  },
+}))
+
+import { db } from '../../src/db'
+
+function createApp(wallet?: string) {
+  const app = express()
+  app.use(express.json())
+  if (wallet) {
+    app.use((req, _res, next) => {
+      ;(req as any).wallet = wallet
+      next()
+    })
+  }
+  app.use('/api/policies', policiesRouter)
+  return app
+}
+
+const record = (layer: string, subject: string, policy: unknown) => ({
+  layer,
+  subject,
+  policy,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+})
+
+describe('policies routes', () => {
+  const originalGateApiKey = process.env.GATE_API_KEY
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.GATE_API_KEY = 'gate-key'
+    vi.mocked(db.upsertPolicyLayer).mockImplementation(
+      async (layer, subject, policy) => record(layer, subject, policy) as any,
+    )
+  })
+  afterEach(() => {
+    if (originalGateApiKey === undefined) delete process.env.GATE_API_KEY
+    else process.env.GATE_API_KEY = originalGateApiKey
+  })
+
+  it('returns the platform policy', async () => {
+    const res = await request(createApp()).get('/api/policies/platform')
+    expect(res.status).toBe(200)
+    expect(res.body.policy).toEqual({ version: 2 })
+  })
+
+  it('rejects unknown layers', async () => {
+    const res = await request(createApp()).get('/api/policies/fleet/x')
+    expect(res.status).toBe(400)
+  })
+
+  it('normalizes the plate when reading a vehicle layer', async () => {
+    vi.mocked(db.getPolicyLayer).mockResolvedValue(
+      record('vehicle', '1234567', { version: 1 }) as any,
+    )
+    const res = await request(createApp()).get('/api/policies/vehicle/12-345-67')
+    expect(res.status).toBe(200)
+    expect(db.getPolicyLayer).toHaveBeenCalledWith('vehicle', '1234567')
+  })
+
+  it('saves a lot layer with the gate API key', async () => {
+    vi.mocked(db.getLot).mockResolvedValue({ id: 'LOT-1' } as any)
+    const policy = { version: 2, railAllowlist: ['stripe'], capPerTxMinor: '5000' }
+
+    const res = await request(createApp())
+      .put('/api/policies/lot/LOT-1')
+      .set('x-gate-api-key', 'gate-key')
+      .send(policy)
+
+    expect(res.status).toBe(200)
+    expect(db.upsertPolicyLayer).toHaveBeenCalledWith('lot', 'LOT-1', policy)
+  })
+
+  it('stores older schema versions upgraded to the current version', async () => {
+    vi.mocked(db.getLot).mockResolvedValue({ id: 'LOT-1' } as any)
+
+    const res = await request(createApp())
+      .put('/api/policies/lot/LOT-1')
+      .set('x-gate-api-key', 'gate-key')
+      .send({ version: 1, vendorAllowlist: ['0xOP'] })
+
+    expect(res.status).toBe(200)
+    expect(db.upsertPolicyLayer).toHaveBeenCalledWith('lot', 'LOT-1', {
+      version: 2,
+      operatorAllowlist: ['0xOP'],
+    })
+  })
+
+  it('rejects invalid policy documents', async () => {
+    const res = await request(createApp())
+      .put('/api/policies/lot/LOT-1')
+      .set('x-gate-api-key', 'gate-key')
+      .send({ version: 1, capPerTxMinor: 50, railAllowlist: 'stripe' })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toMatch(/capPerTxMinor/)
+    expect(res.body.errors).toEqual([
+      'policy.railAllowlist must only contain xrpl, evm, stripe, hosted',
+      'policy.capPerTxMinor must be a non-negative integer string (minor units)',
+    ])
+    expect(db.upsertPolicyLayer).not.toHaveBeenCalled()
+  })
+
+  it('lets a wallet write its own owner layer but not the lot layer', async () => {
+    const app = createApp('0xABC')
+    const own = await request(app).put('/api/policies/owner/0xabc').send({ version: 2 })
+    expect(own.status).toBe(200)
+    expect(db.upsertPolicyLayer).toHaveBeenCalledWith('owner', '0xabc', { version: 2 })
+
+    const other = await request(app).put('/api/policies/owner/0xdef').send({ version: 1 })
+    expect(other.status).toBe(403)
+
+    const lot = await request(app).put('/api/policies/lot/LOT-1').send({ version: 1 })
+    expect(lot.status).toBe(403)
+  })
+
+  it('lets the registered wallet write its vehicle layer', async () => {
+    vi.mocked(db.getDriverByPlate).mockResolvedValue({ wallet: '0xAbC' } as any)
+    const res = await request(createApp('0xabc'))
+      .put('/api/policies/vehicle/12-345-67')
+      .send({ version: 1, capPerDayMinor: '10000' })
+
+    expect(res.status).toBe(200)
+    expect(db.getDriverByPlate).toHaveBeenCalledWith('1234567')
+  })
+
+  it('keeps drivers from raising or removing the approval threshold', async () => {
+    const stored = record('owner', '0xabc', { version: 2, requireApprovalOverMinor: '5000' }) as any
+    const app = createApp('0xABC')
+
+    vi.mocked(db.getPolicyLayer).mockResolvedValueOnce(stored)
+    const raised = await request(app)
+      .put('/api/policies/owner/0xabc')
+      .send({ version: 2, requireApprovalOverMinor: '50000' })
+    expect(raised.status).toBe(403)
+
+    vi.mocked(db.getPolicyLayer).mockResolvedValueOnce(stored)
+    const omitted = await request(app)
+      .put('/api/policies/owner/0xabc')
+      .send({ version: 2, capPerDayMinor: '10000' })
+    expect(omitted.status).toBe(200)
+    expect(db.upsertPolicyLayer).toHaveBeenCalledWith('owner', '0xabc', {
+      version: 2,
+      capPerDayMinor: '10000',
+      requireApprovalOverMinor: '5000',
+    })
+
+    vi.mocked(db.getPolicyLayer).mockResolvedValueOnce(stored)
+    const removed = await request(app).delete('/api/policies/owner/0xabc')
+    expect(removed.status).toBe(403)
+    expect(db.deletePolicyLayer).not.toHaveBeenCalled()
+
+    const operator = await request(createApp())
+      .put('/api/policies/owner/0xabc')
+      .set('x-gate-api-key', 'gate-key')
+      .send({ version: 2, requireApprovalOverMinor: '50000' })
+    expect(operator.status).toBe(200)
+  })
+
+  it('deletes a layer and 404s when missing', async () => {
+    vi.mocked(db.deletePolicyLayer).mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+    const app = createApp()
+
+    const ok = await request(app)
+      .delete('/api/policies/lot/LOT-1')
+      .set('x-gate-api-key', 'gate-key')
+    expect(ok.status).toBe(200)
+
+    const missing = await request(app)
+      .delete('/api/policies/lot/LOT-1')
+      .set('x-gate-api-key', 'gate-key')
+    expect(missing.status).toBe(404)
+  })
+
+  it('simulates a candidate platform policy against recent decisions', async () => {
+    vi.mocked(db.getLot).mockResolvedValue({ id: 'LOT-1', paymentMethods: ['stripe'] } as any)
+    vi.mocked(db.getRecentDecisionsForReplay).mockResolvedValue([
+      {
+        decisionId: 'dec-1',
+        sessionId: 'sess-1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date('2025-03-05T08:00:00Z'),
+        action: 'ALLOW',
+        reasons: ['OK'],
+        quoteMinor: '2500',
+        quoteCurrency: 'USD',
+        vehicleDayMinor: '0',
+        ownerDayMinor: '0',
+        createdAt: new Date('2025-03-05T10:00:00Z'),
+      },
+    ])
+
+    const res = await request(createApp())
+      .post('/api/policies/simulate')
+      .set('x-gate-api-key', 'gate-key')
+      .send({ policy: { version: 1, capPerTxMinor: '2000' }, limit: 20, lotId: 'LOT-1' })
+
+    expect(res.status).toBe(200)
+    expect(db.getRecentDecisionsForReplay).toHaveBeenCalledWith(20, 'LOT-1')
+    expect(res.body).toMatchObject({
+      evaluated: 1,
+      transitions: { 'ALLOW→DENY': 1 },
+      byReason: { CAP_EXCEEDED_TX: { count: 1, sessionIds: ['sess-1'] } },
+    })
+  })
+
+  it('validates simulation input and requires the gate API key', async () => {
+    const app = createApp()
+    const noKey = await request(app)
+      .post('/api/policies/simulate')
+      .send({ policy: { version: 1 } })
+    expect(noKey.status).toBe(403)
+
+    const badPolicy = await request(app)
+      .post('/api/policies/simulate')
+      .set('x-gate-api-key', 'gate-key')
+      .send({ stack: { platform: { version: 1 }, lot: { version: 1, capPerTxMinor: 5 } } })
+    expect(badPolicy.status).toBe(400)
+    expect(badPolicy.body.error).toMatch(/stack\.lot/)
+
+    const badLimit = await request(app)
+      .post('/api/policies/simulate')
+      .set('x-gate-api-key', 'gate-key')
+      .send({ policy: { version: 1 }, limit: 10_000 })
+    expect(badLimit.status).toBe(400)
+    expect(db.getRecentDecisionsForReplay).not.toHaveBeenCalled()
+  })
+})
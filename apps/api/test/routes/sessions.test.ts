@@ -2,22 +2,81 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import express from 'express'
 import request from 'supertest'
 import { sessionsRouter } from '../../src/routes/sessions'
+import { verifyWallet } from '../../src/middleware/auth'
 
 vi.mock('../../src/db', () => ({
   db: {
     getActiveSession: vi.fn(),
+    setSessionFeeDays: vi.fn(),
     getSessionState: vi.fn(),
     getSessionDebugRecord: vi.fn(),
     getSessionHistory: vi.fn(),
     getSessionTimeline: vi.fn(),
+    getSession: vi.fn(),
+    getLot: vi.fn(),
+    setSessionComp: vi.fn(),
+    transitionSession: vi.fn(),
+    collectSessionDebts: vi.fn(async () => []),
+    insertPolicyEvent: vi.fn(),
+    listPaymentReviews: vi.fn(),
+    getPaymentReview: vi.fn(),
+    getLatestSessionPaymentReview: vi.fn(),
+    resolvePaymentReview: vi.fn(),
+    getDecisionPayloadByDecisionId: vi.fn(),
+    getRefundableSettlement: vi.fn(),
+    createRefund: vi.fn(),
+    getRefund: vi.fn(),
+    listRefunds: vi.fn(),
+    approveRefund: vi.fn(),
+    markRefundExecuted: vi.fn(),
+    markRefundConfirmed: vi.fn(),
+    markRefundFailed: vi.fn(),
+    getDriverByPlate: vi.fn(),
+    createDispute: vi.fn(),
+    getDispute: vi.fn(),
+    listDisputes: vi.fn(),
+    storeDisputeEvidence: vi.fn(),
+    resolveDispute: vi.fn(),
   },
 }))
 
+vi.mock('../../src/ws/index', () => ({
+  notifyGate: vi.fn(),
+  notifyDriver: vi.fn(),
+}))
+
+vi.mock('../../src/services/hedera', () => ({
+  isHederaEnabled: vi.fn(() => false),
+  endParkingSessionOnHedera: vi.fn(),
+}))
+
+vi.mock('../../src/services/paymentWatcher', () => ({
+  removePendingPayment: vi.fn(),
+}))
+
+vi.mock('../../src/services/refundExecutors', () => ({
+  getRefundExecutors: vi.fn(() => ({})),
+}))
+
+vi.mock('../../src/services/evidence', () => ({
+  recordNftBurn: vi.fn(),
+  buildEvidenceBundle: vi.fn(),
+  hashEvidence: vi.fn(() => 'e'.repeat(64)),
+}))
+
+import type { SessionRecord } from '@parker/core'
+import { LIFECYCLE_EVENT } from '@parker/core'
 import { db } from '../../src/db'
+import { notifyDriver, notifyGate } from '../../src/ws/index'
+import { removePendingPayment } from '../../src/services/paymentWatcher'
+import { getRefundExecutors } from '../../src/services/refundExecutors'
+import { buildEvidenceBundle } from '../../src/services/evidence'
+import type { DisputeRecord, PaymentReviewRecord, RefundRecord } from '../../src/db/queries'
 
 function createApp() {
   const app = express()
   app.use(express.json())
+  app.use(verifyWallet)
   app.use('/api/sessions', sessionsRouter)
   return app
 }
@@ -172,6 +231,43 @@ describe('sessions routes', () => {
       expect(db.getSessionTimeline).toHaveBeenCalledWith(sessionId, 10)
     })
 
+    it('includes the entry and exit policy rule traces', async () => {
+      const entryTrace = [
+        { rule: 'lotAllowlist', result: 'pass', input: 'LOT-1', limit: ['LOT-1'] },
+      ]
+      const exitTrace = [
+        {
+          rule: 'capPerTxMinor',
+          result: 'deny',
+          input: '2500',
+          limit: '2000',
+          reason: 'CAP_EXCEEDED_TX',
+          layers: ['owner'],
+        },
+      ]
+      vi.mocked(db.getSessionDebugRecord).mockResolvedValue({
+        session: {
+          id: sessionId,
+          plateNumber: '1234567',
+          lotId: 'LOT-1',
+          entryTime: new Date('2026-03-08T10:00:00.000Z'),
+          status: 'denied',
+        },
+        grant: null,
+        budget: null,
+        decision: null,
+        signedAuthorization: null,
+        settlement: null,
+        trace: { entry: entryTrace, exit: exitTrace },
+      } as any)
+      vi.mocked(db.getSessionTimeline).mockResolvedValue([])
+
+      const res = await request(createApp()).get(`/api/sessions/${sessionId}/debug`)
+
+      expect(res.status).toBe(200)
+      expect(res.body.trace).toEqual({ entry: entryTrace, exit: exitTrace })
+    })
+
     it('returns 400 for malformed sessionId', async () => {
       const app = createApp()
       const res = await request(app).get('/api/sessions/not-a-uuid/timeline')
@@ -414,4 +510,823 @@ describe('sessions routes', () => {
       expect(db.getSessionTimeline).not.toHaveBeenCalled()
     })
   })
+
+  describe('operator overrides', () => {
+    const sessionId = '11111111-1111-4111-8111-111111111111'
+    const base: SessionRecord = {
+      id: sessionId,
+      plateNumber: '1234567',
+      lotId: 'LOT-1',
+      entryTime: new Date('2026-01-01T08:00:00Z'),
+      status: 'active',
+      policyGrantId: 'grant-1',
+    }
+    const body = { reasonCode: 'VEHICLE_TOWED', note: 'Towed by city', operatorId: 'op-7' }
+
+    beforeEach(() => {
+      vi.mocked(db.getSession).mockResolvedValue(base)
+      vi.mocked(db.getLot).mockResolvedValue({ currency: 'EUR' } as never)
+      vi.mocked(db.transitionSession).mockImplementation(async (session, input) => ({
+        ...session,
+        status: input.to,
+      }))
+      vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+    })
+
+    it('force-closes an active session through approval_required and records who did it', async () => {
+      const app = createApp()
+      const res = await request(app).post(`/api/sessions/${sessionId}/force-close`).send(body)
+
+      expect(res.status).toBe(200)
+      expect(res.body.status).toBe('closed')
+      expect(vi.mocked(db.transitionSession).mock.calls.map(([, input]) => input.to)).toEqual([
+        'approval_required',
+        'closed',
+      ])
+      const closeInput = vi.mocked(db.transitionSession).mock.calls[1][1]
+      expect(closeInput.reason).toBe('operator_force_close')
+      expect(closeInput.feeAmount).toBeUndefined()
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+        eventType: LIFECYCLE_EVENT.SESSION_FORCE_CLOSED,
+        payload: {
+          reasonCode: 'VEHICLE_TOWED',
+          note: 'Towed by city',
+          operator: { id: 'op-7' },
+          fromState: 'active',
+        },
+        sessionId,
+      })
+      expect(removePendingPayment).toHaveBeenCalledWith(sessionId)
+      expect(notifyGate).toHaveBeenCalledWith(
+        'LOT-1',
+        expect.objectContaining({
+          type: 'exit',
+          override: expect.objectContaining({ action: 'force_close' }),
+        }),
+      )
+      expect(notifyDriver).toHaveBeenCalledWith(
+        '1234567',
+        expect.objectContaining({ type: 'session_ended' }),
+      )
+    })
+
+    it('voids a session with a zero fee in the lot currency', async () => {
+      vi.mocked(db.getSession).mockResolvedValue({ ...base, status: 'payment_failed' })
+
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/${sessionId}/void`)
+        .send({ ...body, reasonCode: 'EQUIPMENT_FAULT' })
+
+      expect(res.status).toBe(200)
+      expect(db.transitionSession).toHaveBeenCalledTimes(1)
+      expect(vi.mocked(db.transitionSession).mock.calls[0][1]).toMatchObject({
+        to: 'closed',
+        reason: 'operator_void',
+        feeAmount: 0,
+        feeCurrency: 'EUR',
+      })
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: LIFECYCLE_EVENT.SESSION_VOIDED }),
+      )
+    })
+
+    it('refuses to void a paid session', async () => {
+      vi.mocked(db.getSession).mockResolvedValue({ ...base, status: 'payment_verified' })
+
+      const app = createApp()
+      const res = await request(app).post(`/api/sessions/${sessionId}/void`).send(body)
+
+      expect(res.status).toBe(409)
+      expect(res.body.code).toBe('OVERRIDE_NOT_ALLOWED')
+      expect(db.transitionSession).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 for a closed session', async () => {
+      vi.mocked(db.getSession).mockResolvedValue({ ...base, status: 'closed' })
+
+      const app = createApp()
+      const res = await request(app).post(`/api/sessions/${sessionId}/force-close`).send(body)
+
+      expect(res.status).toBe(409)
+      expect(res.body.code).toBe('INVALID_TRANSITION')
+    })
+
+    it('comps a session by percent or amount without closing it', async () => {
+      vi.mocked(db.setSessionComp).mockImplementation(async (_id, comp) => ({
+        ...base,
+        comp: comp ?? undefined,
+      }))
+
+      const app = createApp()
+      const byPercent = await request(app)
+        .post(`/api/sessions/${sessionId}/comp`)
+        .send({ ...body, reasonCode: 'VIP_GUEST', percent: 50 })
+      expect(byPercent.status).toBe(200)
+      expect(byPercent.body.comp).toEqual({ percent: 50 })
+
+      const byAmount = await request(app)
+        .post(`/api/sessions/${sessionId}/comp`)
+        .send({ ...body, reasonCode: 'CUSTOMER_COMPLAINT', amount: 2.5 })
+      expect(byAmount.status).toBe(200)
+      expect(db.setSessionComp).toHaveBeenLastCalledWith(sessionId, { amountMinor: '250' })
+
+      expect(db.transitionSession).not.toHaveBeenCalled()
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: LIFECYCLE_EVENT.SESSION_COMPED,
+          payload: expect.objectContaining({ reasonCode: 'VIP_GUEST', comp: { percent: 50 } }),
+        }),
+      )
+    })
+
+    it('validates reason code, note, operator and comp amount', async () => {
+      const app = createApp()
+      const url = `/api/sessions/${sessionId}/force-close`
+
+      expect(
+        (
+          await request(app)
+            .post(url)
+            .send({ ...body, reasonCode: 'BORED' })
+        ).status,
+      ).toBe(400)
+      expect(
+        (
+          await request(app)
+            .post(url)
+            .send({ ...body, note: '  ' })
+        ).status,
+      ).toBe(400)
+      expect(
+        (
+          await request(app)
+            .post(url)
+            .send({ ...body, operatorId: undefined })
+        ).status,
+      ).toBe(400)
+      const comp = await request(app)
+        .post(`/api/sessions/${sessionId}/comp`)
+        .send({ ...body, percent: 50, amount: 2 })
+      expect(comp.status).toBe(400)
+      expect(db.getSession).toHaveBeenCalledTimes(1)
+    })
+
+    it('requires the gate API key when configured', async () => {
+      process.env.GATE_API_KEY = 'secret'
+
+      const app = createApp()
+      const denied = await request(app).post(`/api/sessions/${sessionId}/force-close`).send(body)
+      expect(denied.status).toBe(401)
+
+      const allowed = await request(app)
+        .post(`/api/sessions/${sessionId}/force-close`)
+        .set('x-gate-api-key', 'secret')
+        .send(body)
+      expect(allowed.status).toBe(200)
+    })
+  })
+
+  describe('payment reviews', () => {
+    const sessionId = '11111111-1111-4111-8111-111111111111'
+    const reviewId = '22222222-2222-4222-8222-222222222222'
+    const review: PaymentReviewRecord = {
+      id: reviewId,
+      sessionId,
+      decisionId: 'dec-1',
+      txHash: '0xabc',
+      rail: 'xrpl',
+      amount: '16000000',
+      reason: 'POLICY_HASH_MISMATCH',
+      evidence: { reason: 'POLICY_HASH_MISMATCH' },
+      status: 'open',
+      createdAt: new Date('2026-01-01T10:00:00Z'),
+      plateNumber: '1234567',
+      lotId: 'LOT-1',
+      sessionStatus: 'payment_failed',
+    }
+    const resolution = { note: 'Hash rotated mid-session', operatorId: 'op-7' }
+
+    beforeEach(() => {
+      vi.mocked(db.getPaymentReview).mockResolvedValue(review)
+      vi.mocked(db.getSession).mockResolvedValue({
+        id: sessionId,
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date('2026-01-01T08:00:00Z'),
+        status: 'payment_failed',
+      })
+      vi.mocked(db.getDecisionPayloadByDecisionId).mockResolvedValue({
+        priceFiat: { amountMinor: '1600', currency: 'USD' },
+      })
+      vi.mocked(db.transitionSession).mockImplementation(async (session, input) => ({
+        ...session,
+        status: input.to,
+      }))
+      vi.mocked(db.resolvePaymentReview).mockImplementation(async (_id, input) => ({
+        ...review,
+        status: input.status,
+        note: input.note,
+        resolvedBy: input.resolvedBy,
+        resolvedAt: new Date('2026-01-01T11:00:00Z'),
+      }))
+      vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+    })
+
+    it('lists the open review queue for operators', async () => {
+      vi.mocked(db.listPaymentReviews).mockResolvedValue([review])
+
+      const app = createApp()
+      const res = await request(app).get('/api/sessions/reviews?lotId=LOT-1')
+
+      expect(res.status).toBe(200)
+      expect(res.body).toHaveLength(1)
+      expect(db.listPaymentReviews).toHaveBeenCalledWith({
+        status: 'open',
+        lotId: 'LOT-1',
+        limit: 100,
+      })
+    })
+
+    it('requires the gate API key for the queue when configured', async () => {
+      process.env.GATE_API_KEY = 'secret'
+
+      const app = createApp()
+      const res = await request(app).get('/api/sessions/reviews')
+
+      expect(res.status).toBe(401)
+      expect(db.listPaymentReviews).not.toHaveBeenCalled()
+    })
+
+    it('shows the driver the review status without evidence or operator details', async () => {
+      vi.mocked(db.getLatestSessionPaymentReview).mockResolvedValue({
+        ...review,
+        status: 'refund_requested',
+        note: 'internal',
+        resolvedBy: { id: 'op-7' },
+      })
+
+      const app = createApp()
+      const res = await request(app).get(`/api/sessions/${sessionId}/review`)
+
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({
+        status: 'refund_requested',
+        reason: 'POLICY_HASH_MISMATCH',
+        createdAt: '2026-01-01T10:00:00.000Z',
+      })
+    })
+
+    it('returns 404 when the session has no review', async () => {
+      vi.mocked(db.getLatestSessionPaymentReview).mockResolvedValue(null)
+
+      const app = createApp()
+      const res = await request(app).get(`/api/sessions/${sessionId}/review`)
+
+      expect(res.status).toBe(404)
+    })
+
+    it('accepts a reviewed payment, closes the session and notifies gate and driver', async () => {
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/reviews/${reviewId}/accept`)
+        .send(resolution)
+
+      expect(res.status).toBe(200)
+      expect(res.body.review.status).toBe('accepted')
+      expect(res.body.session.status).toBe('closed')
+      expect(db.resolvePaymentReview).toHaveBeenCalledWith(reviewId, {
+        status: 'accepted',
+        note: 'Hash rotated mid-session',
+        resolvedBy: { id: 'op-7' },
+      })
+      expect(removePendingPayment).toHaveBeenCalledWith(sessionId)
+      expect(notifyGate).toHaveBeenCalledWith(
+        'LOT-1',
+        expect.objectContaining({
+          type: 'exit',
+          override: expect.objectContaining({ action: 'accept_payment', reviewId }),
+        }),
+      )
+      expect(notifyDriver).toHaveBeenCalledWith(
+        '1234567',
+        expect.objectContaining({
+          type: 'payment_review_resolved',
+          review: expect.objectContaining({ status: 'accepted' }),
+        }),
+      )
+    })
+
+    it('returns 409 for a review that is already resolved', async () => {
+      vi.mocked(db.getPaymentReview).mockResolvedValue({ ...review, status: 'accepted' })
+      process.env.GATE_API_KEY = 'secret'
+
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/reviews/${reviewId}/refund`)
+        .set('x-gate-api-key', 'secret')
+        .send(resolution)
+
+      expect(res.status).toBe(409)
+      expect(res.body.code).toBe('ALREADY_RESOLVED')
+    })
+
+    it('requests a refund of the reviewed settlement', async () => {
+      vi.mocked(db.getRefundableSettlement).mockResolvedValue({
+        sessionId,
+        txHash: '0xabc',
+        rail: 'xrpl',
+        amount: '16000000',
+        asset: 'XRP',
+        payer: 'rPayer',
+        eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+      })
+      vi.mocked(db.createRefund).mockImplementation(async (input) => ({
+        status: 'created',
+        refund: {
+          id: 'ref-1',
+          sessionId,
+          settlementTxHash: input.settlementTxHash,
+          rail: input.rail,
+          amount: input.amount.toString(),
+          settledAmount: input.settledAmount.toString(),
+          status: 'requested',
+          idempotencyKey: input.idempotencyKey,
+          requestedBy: input.requestedBy,
+          createdAt: new Date('2026-01-01T11:00:00Z'),
+        },
+      }))
+
+      process.env.GATE_API_KEY = 'secret'
+
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/reviews/${reviewId}/refund`)
+        .set('x-gate-api-key', 'secret')
+        .send(resolution)
+
+      expect(res.status).toBe(200)
+      expect(res.body.review.status).toBe('refund_requested')
+      expect(res.body.refund).toMatchObject({
+        id: 'ref-1',
+        amount: '16000000',
+        status: 'requested',
+      })
+    })
+
+    it('needs the gate API key to resolve with a refund, even when none is configured', async () => {
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/reviews/${reviewId}/refund`)
+        .send(resolution)
+
+      expect(res.status).toBe(401)
+      expect(db.createRefund).not.toHaveBeenCalled()
+      expect(db.resolvePaymentReview).not.toHaveBeenCalled()
+    })
+
+    it('validates the resolution body', async () => {
+      process.env.GATE_API_KEY = 'secret'
+      const app = createApp()
+
+      const noNote = await request(app)
+        .post(`/api/sessions/reviews/${reviewId}/refund`)
+        .set('x-gate-api-key', 'secret')
+        .send({ operatorId: 'op-7' })
+      expect(noNote.status).toBe(400)
+
+      const noAmount = await request(app)
+        .post(`/api/sessions/reviews/${reviewId}/top-up`)
+        .set('x-gate-api-key', 'secret')
+        .send(resolution)
+      expect(noAmount.status).toBe(400)
+      expect(db.resolvePaymentReview).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('refunds', () => {
+    const sessionId = '11111111-1111-4111-8111-111111111111'
+    const refundId = '33333333-3333-4333-8333-333333333333'
+    const body = { note: 'Charged twice', operatorId: 'op-7' }
+    const approval = { note: 'Checked the statement', operatorId: 'op-8' }
+    const refund: RefundRecord = {
+      id: refundId,
+      sessionId,
+      settlementTxHash: 'cs_test_1',
+      rail: 'stripe',
+      amount: '600',
+      settledAmount: '1600',
+      status: 'requested',
+      idempotencyKey: 'refund-key-1',
+      requestedBy: { id: 'op-7' },
+      createdAt: new Date('2026-01-01T10:00:00Z'),
+    }
+
+    beforeEach(() => {
+      process.env.GATE_API_KEY = 'secret'
+      vi.mocked(db.getRefundableSettlement).mockResolvedValue({
+        sessionId,
+        txHash: 'cs_test_1',
+        rail: 'stripe',
+        amount: '1600',
+        eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+      })
+      vi.mocked(db.createRefund).mockResolvedValue({ status: 'created', refund })
+      vi.mocked(db.getRefund).mockResolvedValue(refund)
+      vi.mocked(db.getSession).mockResolvedValue({
+        id: sessionId,
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date('2026-01-01T08:00:00Z'),
+        status: 'closed',
+      })
+      vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+    })
+
+    it('requests a partial refund with the caller idempotency key', async () => {
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/${sessionId}/refunds`)
+        .set('x-gate-api-key', 'secret')
+        .set('Idempotency-Key', 'refund-key-1')
+        .send({ ...body, amount: '600' })
+
+      expect(res.status).toBe(201)
+      expect(db.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          settlementTxHash: 'cs_test_1',
+          amount: 600n,
+          settledAmount: 1600n,
+          idempotencyKey: 'refund-key-1',
+          requestedBy: { id: 'op-7' },
+        }),
+      )
+
+      vi.mocked(db.createRefund).mockResolvedValue({ status: 'existing', refund })
+      const replay = await request(app)
+        .post(`/api/sessions/${sessionId}/refunds`)
+        .set('x-gate-api-key', 'secret')
+        .set('Idempotency-Key', 'refund-key-1')
+        .send({ ...body, amount: '600' })
+      expect(replay.status).toBe(200)
+      expect(replay.body.id).toBe(refundId)
+    })
+
+    it('returns 409 when the refund exceeds what was settled', async () => {
+      vi.mocked(db.createRefund).mockResolvedValue({
+        status: 'cap_exceeded',
+        refundedAmount: '1600',
+      })
+
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/${sessionId}/refunds`)
+        .set('x-gate-api-key', 'secret')
+        .send(body)
+
+      expect(res.status).toBe(409)
+      expect(res.body.code).toBe('CAP_EXCEEDED')
+    })
+
+    it('validates the refund request', async () => {
+      const app = createApp()
+
+      const badAmount = await request(app)
+        .post(`/api/sessions/${sessionId}/refunds`)
+        .set('x-gate-api-key', 'secret')
+        .send({ ...body, amount: '1.5' })
+      expect(badAmount.status).toBe(400)
+
+      const noOperator = await request(app)
+        .post(`/api/sessions/${sessionId}/refunds`)
+        .set('x-gate-api-key', 'secret')
+        .send({ note: 'x' })
+      expect(noOperator.status).toBe(400)
+      expect(db.createRefund).not.toHaveBeenCalled()
+    })
+
+    it('approves a refund, sends it on its rail and notifies the driver', async () => {
+      const stripe = {
+        execute: vi.fn(async () => ({ reference: 're_1', status: 'confirmed' as const })),
+        confirm: vi.fn(),
+      }
+      vi.mocked(getRefundExecutors).mockReturnValue({ stripe })
+      vi.mocked(db.approveRefund).mockResolvedValue({ ...refund, status: 'approved' })
+      vi.mocked(db.markRefundExecuted).mockResolvedValue({
+        ...refund,
+        status: 'executed',
+        railReference: 're_1',
+      })
+      vi.mocked(db.markRefundConfirmed).mockResolvedValue({
+        ...refund,
+        status: 'confirmed',
+        railReference: 're_1',
+      })
+
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/refunds/${refundId}/approve`)
+        .set('x-gate-api-key', 'secret')
+        .send(approval)
+
+      expect(res.status).toBe(200)
+      expect(res.body.status).toBe('confirmed')
+      expect(stripe.execute).toHaveBeenCalledTimes(1)
+      expect(notifyDriver).toHaveBeenCalledWith(
+        '1234567',
+        expect.objectContaining({ type: 'refund_updated', refundId, status: 'confirmed' }),
+      )
+    })
+
+    it('needs the gate API key for every refund endpoint, even when none is configured', async () => {
+      delete process.env.GATE_API_KEY
+      const app = createApp()
+
+      const requested = await request(app).post(`/api/sessions/${sessionId}/refunds`).send(body)
+      expect(requested.status).toBe(401)
+      const approved = await request(app)
+        .post(`/api/sessions/refunds/${refundId}/approve`)
+        .send(approval)
+      expect(approved.status).toBe(401)
+      const confirmed = await request(app).post(`/api/sessions/refunds/${refundId}/confirm`)
+      expect(confirmed.status).toBe(401)
+      const queue = await request(app).get('/api/sessions/refunds')
+      expect(queue.status).toBe(401)
+      const listed = await request(app).get(`/api/sessions/${sessionId}/refunds`)
+      expect(listed.status).toBe(401)
+      expect(db.createRefund).not.toHaveBeenCalled()
+      expect(db.approveRefund).not.toHaveBeenCalled()
+      expect(db.listRefunds).not.toHaveBeenCalled()
+    })
+
+    it('rejects an approval by the operator who requested the refund', async () => {
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/refunds/${refundId}/approve`)
+        .set('x-gate-api-key', 'secret')
+        .send(body)
+
+      expect(res.status).toBe(403)
+      expect(res.body.code).toBe('SAME_OPERATOR')
+      expect(db.approveRefund).not.toHaveBeenCalled()
+    })
+
+    it('needs an Idempotency-Key for a partial refund', async () => {
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/${sessionId}/refunds`)
+        .set('x-gate-api-key', 'secret')
+        .send({ ...body, amount: '600' })
+
+      expect(res.status).toBe(400)
+      expect(res.body.code).toBe('IDEMPOTENCY_KEY_REQUIRED')
+      expect(db.createRefund).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 when the rail has no refund executor', async () => {
+      vi.mocked(getRefundExecutors).mockReturnValue({})
+
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/refunds/${refundId}/approve`)
+        .set('x-gate-api-key', 'secret')
+        .send(approval)
+
+      expect(res.status).toBe(409)
+      expect(res.body.code).toBe('RAIL_UNSUPPORTED')
+      expect(db.approveRefund).not.toHaveBeenCalled()
+    })
+
+    it('lists refunds for operators with the gate API key', async () => {
+      vi.mocked(db.listRefunds).mockResolvedValue([refund])
+
+      const app = createApp()
+      const denied = await request(app).get(`/api/sessions/${sessionId}/refunds`)
+      expect(denied.status).toBe(401)
+
+      const queue = await request(app)
+        .get('/api/sessions/refunds?status=requested')
+        .set('x-gate-api-key', 'secret')
+      expect(queue.status).toBe(200)
+      expect(db.listRefunds).toHaveBeenCalledWith({ status: 'requested', limit: 100 })
+    })
+  })
+
+  describe('disputes', () => {
+    const sessionId = '11111111-1111-4111-8111-111111111111'
+    const disputeId = '44444444-4444-4444-8444-444444444444'
+    const wallet = '0x00000000000000000000000000000000000000aa'
+    const bundle = { bundleVersion: 1, session: { id: sessionId } }
+    const dispute: DisputeRecord = {
+      id: disputeId,
+      sessionId,
+      openedBy: wallet,
+      reason: 'I left after 20 minutes',
+      status: 'opened',
+      createdAt: new Date('2026-01-01T12:00:00Z'),
+      plateNumber: '1234567',
+      lotId: 'LOT-1',
+    }
+
+    beforeEach(() => {
+      vi.mocked(db.getSession).mockResolvedValue({
+        id: sessionId,
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        entryTime: new Date('2026-01-01T08:00:00Z'),
+        status: 'closed',
+      })
+      vi.mocked(db.getDriverByPlate).mockResolvedValue({
+        id: 'drv-1',
+        wallet,
+        plateNumber: '1234567',
+        countryCode: 'IL',
+        active: true,
+        createdAt: new Date('2025-12-01T00:00:00Z'),
+      })
+      vi.mocked(db.createDispute).mockResolvedValue(dispute)
+      vi.mocked(db.getDispute).mockResolvedValue(dispute)
+      vi.mocked(db.storeDisputeEvidence).mockImplementation(
+        async (_id, evidence, evidenceHash) => ({
+          ...dispute,
+          status: 'evidence_collected',
+          evidence,
+          evidenceHash,
+        }),
+      )
+      vi.mocked(db.resolveDispute).mockImplementation(async (_id, input) => ({
+        ...dispute,
+        status: input.status,
+        resolutionNote: input.note,
+        resolvedBy: input.resolvedBy,
+        refundId: input.refundId,
+      }))
+      vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+      vi.mocked(buildEvidenceBundle).mockResolvedValue(bundle)
+    })
+
+    it('lets the driver open a dispute and returns it without the evidence bundle', async () => {
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/${sessionId}/disputes`)
+        .set('x-wallet-address', wallet)
+        .send({ reason: ' I left after 20 minutes ' })
+
+      expect(res.status).toBe(201)
+      expect(res.body).toMatchObject({
+        id: disputeId,
+        status: 'evidence_collected',
+        evidenceHash: 'e'.repeat(64),
+      })
+      expect(res.body.evidence).toBeUndefined()
+      expect(db.createDispute).toHaveBeenCalledWith({
+        sessionId,
+        openedBy: wallet,
+        reason: 'I left after 20 minutes',
+      })
+      expect(notifyGate).toHaveBeenCalledWith(
+        'LOT-1',
+        expect.objectContaining({ type: 'dispute_opened', disputeId }),
+      )
+    })
+
+    it('requires a signed-in wallet that drove the session', async () => {
+      const app = createApp()
+
+      const anonymous = await request(app)
+        .post(`/api/sessions/${sessionId}/disputes`)
+        .send({ reason: 'x' })
+      expect(anonymous.status).toBe(401)
+
+      const stranger = await request(app)
+        .post(`/api/sessions/${sessionId}/disputes`)
+        .set('x-wallet-address', '0x00000000000000000000000000000000000000bb')
+        .send({ reason: 'x' })
+      expect(stranger.status).toBe(403)
+      expect(stranger.body.code).toBe('NOT_SESSION_DRIVER')
+
+      const noReason = await request(app)
+        .post(`/api/sessions/${sessionId}/disputes`)
+        .set('x-wallet-address', wallet)
+        .send({})
+      expect(noReason.status).toBe(400)
+      expect(db.createDispute).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 when the session already has an open dispute', async () => {
+      vi.mocked(db.createDispute).mockResolvedValue(null)
+
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/${sessionId}/disputes`)
+        .set('x-wallet-address', wallet)
+        .send({ reason: 'again' })
+
+      expect(res.status).toBe(409)
+      expect(res.body.code).toBe('ALREADY_OPEN')
+    })
+
+    it('shows operators the dispute with its evidence bundle', async () => {
+      vi.mocked(db.getDispute).mockResolvedValue({
+        ...dispute,
+        status: 'evidence_collected',
+        evidence: bundle,
+        evidenceHash: 'e'.repeat(64),
+      })
+      process.env.GATE_API_KEY = 'secret'
+
+      const app = createApp()
+      const denied = await request(app).get(`/api/sessions/disputes/${disputeId}`)
+      expect(denied.status).toBe(401)
+
+      const res = await request(app)
+        .get(`/api/sessions/disputes/${disputeId}`)
+        .set('x-gate-api-key', 'secret')
+      expect(res.status).toBe(200)
+      expect(res.body.evidence).toEqual(bundle)
+    })
+
+    it('resolves a dispute for the driver with a refund and notifies the driver', async () => {
+      vi.mocked(db.getRefundableSettlement).mockResolvedValue({
+        sessionId,
+        txHash: 'cs_test_1',
+        rail: 'stripe',
+        amount: '1600',
+        eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+      })
+      vi.mocked(db.createRefund).mockImplementation(async (input) => ({
+        status: 'created',
+        refund: {
+          id: 'ref-9',
+          sessionId,
+          settlementTxHash: input.settlementTxHash,
+          rail: input.rail,
+          amount: input.amount.toString(),
+          settledAmount: input.settledAmount.toString(),
+          status: 'requested',
+          idempotencyKey: input.idempotencyKey,
+          requestedBy: input.requestedBy,
+          createdAt: new Date('2026-01-01T13:00:00Z'),
+        },
+      }))
+
+      process.env.GATE_API_KEY = 'secret'
+
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/disputes/${disputeId}/resolve`)
+        .set('x-gate-api-key', 'secret')
+        .send({
+          outcome: 'driver',
+          note: 'Exit read belongs to another car',
+          operatorId: 'op-7',
+          refund: true,
+          amount: '1200',
+        })
+
+      expect(res.status).toBe(200)
+      expect(res.body.dispute).toMatchObject({ status: 'resolved_driver', refundId: 'ref-9' })
+      expect(res.body.refund).toMatchObject({ id: 'ref-9', amount: '1200' })
+      expect(db.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotencyKey: `dispute:${disputeId}` }),
+      )
+      expect(notifyDriver).toHaveBeenCalledWith(
+        '1234567',
+        expect.objectContaining({
+          type: 'dispute_resolved',
+          dispute: expect.objectContaining({ status: 'resolved_driver' }),
+        }),
+      )
+    })
+
+    it('needs the gate API key to resolve, even when none is configured', async () => {
+      const app = createApp()
+      const res = await request(app)
+        .post(`/api/sessions/disputes/${disputeId}/resolve`)
+        .send({ outcome: 'driver', note: 'x', operatorId: 'op-7', refund: true })
+
+      expect(res.status).toBe(401)
+      expect(db.resolveDispute).not.toHaveBeenCalled()
+      expect(db.createRefund).not.toHaveBeenCalled()
+    })
+
+    it('validates the resolution', async () => {
+      process.env.GATE_API_KEY = 'secret'
+      const app = createApp()
+
+      const noOutcome = await request(app)
+        .post(`/api/sessions/disputes/${disputeId}/resolve`)
+        .set('x-gate-api-key', 'secret')
+        .send({ note: 'x', operatorId: 'op-7' })
+      expect(noOutcome.status).toBe(400)
+
+      const operatorRefund = await request(app)
+        .post(`/api/sessions/disputes/${disputeId}/resolve`)
+        .set('x-gate-api-key', 'secret')
+        .send({ outcome: 'operator', note: 'x', operatorId: 'op-7', refund: true })
+      expect(operatorRefund.status).toBe(400)
+      expect(operatorRefund.body.code).toBe('REFUND_NOT_ALLOWED')
+      expect(db.resolveDispute).not.toHaveBeenCalled()
+    })
+  })
 })
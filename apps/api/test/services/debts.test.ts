@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../src/db', () => ({
+  db: {
+    getActiveSession: vi.fn(),
+    setSessionFeeDays: vi.fn(),
+    getDriverByPlate: vi.fn(),
+    createPlateDebt: vi.fn(),
+    attachOutstandingDebts: vi.fn(),
+    transitionSession: vi.fn(),
+    insertPolicyEvent: vi.fn(),
+  },
+}))
+
+vi.mock('../../src/services/hedera', () => ({
+  isHederaEnabled: vi.fn(() => false),
+  endParkingSessionOnHedera: vi.fn(),
+}))
+
+import type { Lot, SessionRecord } from '@parker/core'
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import { attachDebtsToExit, recordOfflineExit } from '../../src/services/debts'
+import { endParkingSessionOnHedera, isHederaEnabled } from '../../src/services/hedera'
+import { db } from '../../src/db'
+import type { PlateDebtRecord } from '../../src/db/queries'
+
+const entryTime = new Date('2026-01-01T10:00:00Z')
+const exitTime = new Date('2026-01-01T11:59:00Z') // bills as 2h
+
+const lot = {
+  id: 'LOT-1',
+  name: 'Lot',
+  address: '',
+  capacity: 10,
+  ratePerHour: 8,
+  billingMinutes: 15,
+  currency: 'USD',
+  paymentMethods: ['x402'],
+} as Lot
+
+const session: SessionRecord = {
+  id: 'sess-1',
+  tokenId: 42,
+  plateNumber: '1234567',
+  lotId: 'LOT-1',
+  entryTime,
+  status: 'active',
+}
+
+const debt: PlateDebtRecord = {
+  id: 'debt-1',
+  plateNumber: '1234567',
+  lotId: 'LOT-1',
+  sessionId: 'sess-1',
+  driverWallet: '0xaa',
+  amountMinor: '1600',
+  currency: 'USD',
+  source: 'gate_offline',
+  entryTime,
+  exitTime,
+  status: 'outstanding',
+  createdAt: exitTime,
+}
+
+function recordedEvents() {
+  return vi.mocked(db.insertPolicyEvent).mock.calls.map(([input]) => input.eventType)
+}
+
+describe('plate debts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(isHederaEnabled).mockReturnValue(false)
+    vi.mocked(db.getActiveSession).mockResolvedValue(session)
+    vi.mocked(db.getDriverByPlate).mockResolvedValue({ wallet: '0xAA' } as never)
+    vi.mocked(db.createPlateDebt).mockResolvedValue({ status: 'created', debt })
+    vi.mocked(db.transitionSession).mockImplementation(async (current, input) => ({
+      ...current,
+      status: input.to,
+    }))
+    vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+  })
+
+  describe('recordOfflineExit', () => {
+    it('closes the session at the recorded exit time and records its fee as a debt', async () => {
+      const result = await recordOfflineExit(lot, {
+        plateNumber: '1234567',
+        exitTime,
+        source: 'gate_offline',
+      })
+
+      expect(result).toEqual({
+        plateNumber: '1234567',
+        status: 'recorded',
+        sessionId: 'sess-1',
+        debt,
+      })
+      expect(db.createPlateDebt).toHaveBeenCalledWith({
+        sessionId: 'sess-1',
+        plateNumber: '1234567',
+        lotId: 'LOT-1',
+        driverWallet: '0xAA',
+        amountMinor: 1600n,
+        currency: 'USD',
+        source: 'gate_offline',
+        entryTime,
+        exitTime,
+      })
+      expect(db.transitionSession).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'approval_required' }),
+        expect.objectContaining({
+          to: 'closed',
+          reason: 'unpaid_exit',
+          metadata: { source: 'gate_offline', debtId: 'debt-1' },
+          exitTime,
+        }),
+      )
+      expect(recordedEvents()).toEqual([
+        LIFECYCLE_EVENT.DEBT_RECORDED,
+        LIFECYCLE_EVENT.SESSION_CLOSED,
+      ])
+    })
+
+    it('does not record the debt again when the exit is uploaded twice', async () => {
+      vi.mocked(db.createPlateDebt).mockResolvedValue({ status: 'existing', debt })
+
+      const result = await recordOfflineExit(lot, {
+        plateNumber: '1234567',
+        exitTime,
+        source: 'mirror_node_fallback',
+      })
+
+      expect(result.status).toBe('recorded')
+      expect(recordedEvents()).toEqual([LIFECYCLE_EVENT.SESSION_CLOSED])
+    })
+
+    it('closes a session within the grace period without a debt', async () => {
+      const result = await recordOfflineExit(
+        { ...lot, gracePeriodMinutes: 180 },
+        { plateNumber: '1234567', exitTime, source: 'gate_offline' },
+      )
+
+      expect(result).toEqual({ plateNumber: '1234567', status: 'no_fee', sessionId: 'sess-1' })
+      expect(db.createPlateDebt).not.toHaveBeenCalled()
+      expect(db.transitionSession).toHaveBeenCalledTimes(2)
+    })
+
+    it('skips exits without an open session in the lot that started before them', async () => {
+      const exit = { plateNumber: '1234567', exitTime, source: 'gate_offline' as const }
+
+      vi.mocked(db.getActiveSession).mockResolvedValue(null)
+      expect(await recordOfflineExit(lot, exit)).toEqual({
+        plateNumber: '1234567',
+        status: 'no_session',
+      })
+
+      vi.mocked(db.getActiveSession).mockResolvedValue({ ...session, lotId: 'LOT-2' })
+      expect((await recordOfflineExit(lot, exit)).status).toBe('no_session')
+
+      vi.mocked(db.getActiveSession).mockResolvedValue({
+        ...session,
+        entryTime: new Date('2026-01-01T12:30:00Z'),
+      })
+      expect((await recordOfflineExit(lot, exit)).status).toBe('no_session')
+      expect(db.transitionSession).not.toHaveBeenCalled()
+    })
+
+    it('burns the NFT of offline gate exits only', async () => {
+      vi.mocked(isHederaEnabled).mockReturnValue(true)
+      vi.mocked(endParkingSessionOnHedera).mockResolvedValue({ txHash: '0.0.1@2.2' } as never)
+
+      await recordOfflineExit(lot, { plateNumber: '1234567', exitTime, source: 'gate_offline' })
+      expect(endParkingSessionOnHedera).toHaveBeenCalledWith(42)
+      expect(db.insertPolicyEvent).toHaveBeenLastCalledWith({
+        eventType: LIFECYCLE_EVENT.SESSION_NFT_BURNED,
+        payload: { serial: 42, txHash: '0.0.1@2.2' },
+        sessionId: 'sess-1',
+      })
+
+      vi.mocked(endParkingSessionOnHedera).mockClear()
+      await recordOfflineExit(lot, {
+        plateNumber: '1234567',
+        exitTime,
+        source: 'mirror_node_fallback',
+      })
+      expect(endParkingSessionOnHedera).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('attachDebtsToExit', () => {
+    it('attaches outstanding debts of the lot in its currency and totals them', async () => {
+      vi.mocked(db.attachOutstandingDebts).mockResolvedValue([
+        debt,
+        { ...debt, id: 'debt-2', sessionId: 'sess-0', amountMinor: '400' },
+      ])
+
+      const attached = await attachDebtsToExit({ ...session, id: 'sess-2' }, 'USD')
+
+      expect(db.attachOutstandingDebts).toHaveBeenCalledWith('1234567', 'LOT-1', 'USD', 'sess-2')
+      expect(attached.totalMinor).toBe(2000n)
+      expect(attached.debts).toHaveLength(2)
+    })
+  })
+})
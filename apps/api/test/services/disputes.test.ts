@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../src/db', () => ({
+  db: {
+    getSession: vi.fn(),
+    getDriverByPlate: vi.fn(),
+    createDispute: vi.fn(),
+    getDispute: vi.fn(),
+    listDisputes: vi.fn(),
+    storeDisputeEvidence: vi.fn(),
+    resolveDispute: vi.fn(),
+    getRefundableSettlement: vi.fn(),
+    createRefund: vi.fn(),
+    insertPolicyEvent: vi.fn(),
+  },
+}))
+
+vi.mock('../../src/services/evidence', () => ({
+  buildEvidenceBundle: vi.fn(),
+  hashEvidence: vi.fn(() => 'e'.repeat(64)),
+}))
+
+import type { SessionRecord } from '@parker/core'
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import {
+  DisputeError,
+  collectDisputeEvidence,
+  listDriverDisputes,
+  openDispute,
+  resolveDispute,
+} from '../../src/services/disputes'
+import { buildEvidenceBundle } from '../../src/services/evidence'
+import { db } from '../../src/db'
+import type { DisputeRecord, RefundRecord } from '../../src/db/queries'
+
+const wallet = '0x00000000000000000000000000000000000000Aa'
+const operator = { id: 'op-1' }
+const createdAt = new Date('2026-01-01T10:00:00Z')
+
+const session: SessionRecord = {
+  id: 'sess-1',
+  plateNumber: '1234567',
+  lotId: 'LOT-1',
+  entryTime: createdAt,
+  status: 'closed',
+}
+
+const dispute: DisputeRecord = {
+  id: 'dis-1',
+  sessionId: 'sess-1',
+  openedBy: wallet.toLowerCase(),
+  reason: 'Charged for 3 hours, parked for 1',
+  status: 'opened',
+  createdAt,
+  plateNumber: '1234567',
+  lotId: 'LOT-1',
+}
+
+const bundle = { bundleVersion: 1, session: { id: 'sess-1' } }
+
+function recordedEvents() {
+  return vi.mocked(db.insertPolicyEvent).mock.calls.map(([input]) => input.eventType)
+}
+
+describe('disputes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.getSession).mockResolvedValue(session)
+    vi.mocked(db.getDriverByPlate).mockResolvedValue({
+      id: 'drv-1',
+      wallet: wallet.toLowerCase(),
+      plateNumber: '1234567',
+      countryCode: 'IL',
+      active: true,
+      createdAt,
+    })
+    vi.mocked(db.createDispute).mockResolvedValue(dispute)
+    vi.mocked(db.getDispute).mockResolvedValue(dispute)
+    vi.mocked(db.storeDisputeEvidence).mockImplementation(async (_id, evidence, evidenceHash) => ({
+      ...dispute,
+      status: 'evidence_collected',
+      evidence,
+      evidenceHash,
+    }))
+    vi.mocked(db.resolveDispute).mockImplementation(async (_id, input) => ({
+      ...dispute,
+      status: input.status,
+      resolutionNote: input.note,
+      resolvedBy: input.resolvedBy,
+      refundId: input.refundId,
+    }))
+    vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+    vi.mocked(buildEvidenceBundle).mockResolvedValue(bundle)
+  })
+
+  describe('openDispute', () => {
+    it('opens a dispute for the session driver and collects its evidence', async () => {
+      const opened = await openDispute({
+        sessionId: 'sess-1',
+        wallet,
+        reason: dispute.reason,
+      })
+
+      expect(opened).toMatchObject({
+        status: 'evidence_collected',
+        evidence: bundle,
+        evidenceHash: 'e'.repeat(64),
+      })
+      expect(db.createDispute).toHaveBeenCalledWith({
+        sessionId: 'sess-1',
+        openedBy: wallet,
+        reason: dispute.reason,
+      })
+      expect(db.storeDisputeEvidence).toHaveBeenCalledWith('dis-1', bundle, 'e'.repeat(64))
+      expect(recordedEvents()).toEqual([
+        LIFECYCLE_EVENT.DISPUTE_OPENED,
+        LIFECYCLE_EVENT.DISPUTE_EVIDENCE_COLLECTED,
+      ])
+      expect(db.insertPolicyEvent).toHaveBeenLastCalledWith({
+        eventType: LIFECYCLE_EVENT.DISPUTE_EVIDENCE_COLLECTED,
+        payload: { disputeId: 'dis-1', evidenceHash: 'e'.repeat(64) },
+        sessionId: 'sess-1',
+      })
+    })
+
+    it('only lets the driver registered for the plate dispute', async () => {
+      await expect(
+        openDispute({ sessionId: 'sess-1', wallet: '0xsomeoneelse', reason: 'x' }),
+      ).rejects.toMatchObject({ code: 'NOT_SESSION_DRIVER' })
+
+      vi.mocked(db.getDriverByPlate).mockResolvedValue(null)
+      await expect(openDispute({ sessionId: 'sess-1', wallet, reason: 'x' })).rejects.toMatchObject(
+        { code: 'NOT_SESSION_DRIVER' },
+      )
+
+      vi.mocked(db.getSession).mockResolvedValue(null)
+      await expect(openDispute({ sessionId: 'sess-1', wallet, reason: 'x' })).rejects.toMatchObject(
+        { code: 'SESSION_NOT_FOUND' },
+      )
+      expect(db.createDispute).not.toHaveBeenCalled()
+    })
+
+    it('allows one unresolved dispute per session', async () => {
+      vi.mocked(db.createDispute).mockResolvedValue(null)
+
+      await expect(openDispute({ sessionId: 'sess-1', wallet, reason: 'x' })).rejects.toMatchObject(
+        { code: 'ALREADY_OPEN' },
+      )
+      expect(db.insertPolicyEvent).not.toHaveBeenCalled()
+    })
+
+    it('lists disputes for the session driver only', async () => {
+      vi.mocked(db.listDisputes).mockResolvedValue([dispute])
+
+      expect(await listDriverDisputes('sess-1', wallet)).toEqual([dispute])
+      await expect(listDriverDisputes('sess-1', '0xsomeoneelse')).rejects.toBeInstanceOf(
+        DisputeError,
+      )
+    })
+  })
+
+  describe('collectDisputeEvidence', () => {
+    it('refuses resolved disputes', async () => {
+      vi.mocked(db.getDispute).mockResolvedValue({ ...dispute, status: 'resolved_operator' })
+
+      await expect(collectDisputeEvidence('dis-1')).rejects.toMatchObject({
+        code: 'ALREADY_RESOLVED',
+      })
+      expect(buildEvidenceBundle).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolveDispute', () => {
+    it('resolves for the operator without a refund', async () => {
+      const { dispute: resolved, refund } = await resolveDispute('dis-1', {
+        outcome: 'operator',
+        note: 'ALPR reads and NFT burn match the charge',
+        operator,
+      })
+
+      expect(resolved.status).toBe('resolved_operator')
+      expect(refund).toBeUndefined()
+      expect(db.createRefund).not.toHaveBeenCalled()
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+        eventType: LIFECYCLE_EVENT.DISPUTE_RESOLVED,
+        payload: {
+          disputeId: 'dis-1',
+          outcome: 'operator',
+          note: 'ALPR reads and NFT burn match the charge',
+          operator,
+        },
+        sessionId: 'sess-1',
+      })
+    })
+
+    it('resolves for the driver with a refund of the settlement', async () => {
+      const refund = { id: 'ref-1', status: 'requested' } as RefundRecord
+      vi.mocked(db.getRefundableSettlement).mockResolvedValue({
+        sessionId: 'sess-1',
+        txHash: 'cs_test_1',
+        rail: 'stripe',
+        amount: '1600',
+        eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+      })
+      vi.mocked(db.createRefund).mockResolvedValue({ status: 'created', refund })
+
+      const result = await resolveDispute('dis-1', {
+        outcome: 'driver',
+        note: 'Exit read was another car',
+        operator,
+        refund: { amount: 1000n },
+      })
+
+      expect(db.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1000n, idempotencyKey: 'dispute:dis-1' }),
+      )
+      expect(db.resolveDispute).toHaveBeenCalledWith('dis-1', {
+        status: 'resolved_driver',
+        note: 'Exit read was another car',
+        resolvedBy: operator,
+        refundId: 'ref-1',
+      })
+      expect(result.refund).toBe(refund)
+      expect(recordedEvents()).toEqual([
+        LIFECYCLE_EVENT.REFUND_REQUESTED,
+        LIFECYCLE_EVENT.DISPUTE_RESOLVED,
+      ])
+    })
+
+    it('refuses refunds on operator outcomes and resolved disputes', async () => {
+      await expect(
+        resolveDispute('dis-1', { outcome: 'operator', note: 'x', operator, refund: {} }),
+      ).rejects.toMatchObject({ code: 'REFUND_NOT_ALLOWED' })
+
+      vi.mocked(db.resolveDispute).mockResolvedValue(null)
+      await expect(
+        resolveDispute('dis-1', { outcome: 'driver', note: 'x', operator }),
+      ).rejects.toMatchObject({ code: 'ALREADY_RESOLVED' })
+      expect(db.createRefund).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../src/db', () => ({
+  db: {
+    getSessionDebugRecord: vi.fn(),
+    getSessionTimeline: vi.fn(),
+    getSessionPolicyEvents: vi.fn(),
+    listRefunds: vi.fn(),
+    insertPolicyEvent: vi.fn(),
+  },
+}))
+
+vi.mock('../../src/services/hedera', () => ({
+  isHederaEnabled: vi.fn(() => false),
+  isNftActiveOnHedera: vi.fn(),
+}))
+
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import {
+  buildEvidenceBundle,
+  hashEvidence,
+  recordAlprRead,
+  recordNftBurn,
+} from '../../src/services/evidence'
+import { isHederaEnabled, isNftActiveOnHedera } from '../../src/services/hedera'
+import { db } from '../../src/db'
+import type { SessionDebugRecord } from '../../src/db/queries'
+
+const sessionId = '11111111-1111-4111-8111-111111111111'
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 10, minute))
+
+const debugRecord = {
+  session: {
+    id: sessionId,
+    tokenId: 42,
+    plateNumber: '1234567',
+    lotId: 'LOT-1',
+    entryTime: at(0),
+    exitTime: at(50),
+    feeAmount: 16,
+    feeCurrency: 'USD',
+    status: 'closed',
+    policyHash: 'ph-1',
+  },
+  grant: null,
+  budget: { authorization: { budgetId: 'b-1' }, signature: 'sba-sig' },
+  decision: {
+    decisionId: 'dec-1',
+    decisionState: 'consumed',
+    policyHash: 'ph-1',
+    sessionGrantId: 'g-1',
+    chosenRail: 'xrpl',
+    chosenAsset: { kind: 'XRP' },
+    quoteMinor: '1600',
+    quoteCurrency: 'USD',
+    expiresAt: at(55),
+    action: 'ALLOW',
+    reasons: [],
+    requireApproval: false,
+    payload: {},
+    createdAt: at(48),
+  },
+  signedAuthorization: { authorization: { decisionId: 'dec-1' }, signature: 'spa-sig' },
+  settlement: null,
+  trace: { entry: null, exit: null },
+} as SessionDebugRecord
+
+describe('session evidence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(isHederaEnabled).mockReturnValue(false)
+    vi.mocked(db.getSessionDebugRecord).mockResolvedValue(debugRecord)
+    vi.mocked(db.getSessionTimeline).mockResolvedValue([
+      {
+        id: 'e-1',
+        sessionId,
+        eventType: 'SESSION.CREATED',
+        timestamp: at(0),
+        metadata: { tokenId: 42 },
+      },
+    ])
+    vi.mocked(db.getSessionPolicyEvents).mockResolvedValue([
+      {
+        eventType: LIFECYCLE_EVENT.SESSION_CREATED,
+        createdAt: at(0),
+        payload: { tokenId: 42, mintTxHash: '0.0.1@1.1' },
+      },
+      {
+        eventType: LIFECYCLE_EVENT.ALPR_READ,
+        createdAt: at(0),
+        payload: { stage: 'entry', plate: '1234567', raw: '12-345-67', confidence: 0.93 },
+      },
+      {
+        eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+        createdAt: at(49),
+        txHash: 'A'.repeat(64),
+        decisionId: 'dec-1',
+        payload: { rail: 'xrpl', amount: '16000000', asset: { kind: 'XRP' }, payer: 'rPayer' },
+      },
+      {
+        eventType: LIFECYCLE_EVENT.SESSION_NFT_BURNED,
+        createdAt: at(50),
+        payload: { serial: 42, txHash: '0.0.1@2.2' },
+      },
+    ])
+    vi.mocked(db.listRefunds).mockResolvedValue([])
+    vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+  })
+
+  it('bundles the timeline, authorizations, settlement, NFT and ALPR reads of a session', async () => {
+    const bundle = await buildEvidenceBundle(sessionId)
+
+    expect(db.getSessionPolicyEvents).toHaveBeenCalledWith(
+      sessionId,
+      expect.arrayContaining([LIFECYCLE_EVENT.ALPR_READ, LIFECYCLE_EVENT.SESSION_NFT_BURNED]),
+    )
+    expect(bundle).toMatchObject({
+      bundleVersion: 1,
+      session: { id: sessionId, plateNumber: '1234567', feeAmount: 16 },
+      timeline: [{ eventType: 'SESSION.CREATED', metadata: { tokenId: 42 } }],
+      authorization: {
+        policyHash: 'ph-1',
+        decision: { decisionId: 'dec-1', rail: 'xrpl', quoteMinor: '1600' },
+        signedPaymentAuthorization: { signature: 'spa-sig' },
+        sessionBudgetAuthorization: { signature: 'sba-sig' },
+      },
+      settlements: [
+        {
+          eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+          txHash: 'A'.repeat(64),
+          amount: '16000000',
+          payer: 'rPayer',
+        },
+      ],
+      refunds: [],
+      nft: {
+        serial: 42,
+        mintTxHash: '0.0.1@1.1',
+        burnTxHash: '0.0.1@2.2',
+        burnedAt: at(50),
+        activeOnHedera: null,
+      },
+      alprReads: [{ stage: 'entry', raw: '12-345-67', confidence: 0.93 }],
+    })
+    expect(isNftActiveOnHedera).not.toHaveBeenCalled()
+  })
+
+  it('reads the NFT state from Hedera when it is configured', async () => {
+    vi.mocked(isHederaEnabled).mockReturnValue(true)
+    vi.mocked(isNftActiveOnHedera).mockResolvedValue(false)
+
+    const bundle = await buildEvidenceBundle(sessionId)
+
+    expect(isNftActiveOnHedera).toHaveBeenCalledWith(42)
+    expect(bundle?.nft).toMatchObject({ serial: 42, activeOnHedera: false })
+  })
+
+  it('returns null for an unknown session', async () => {
+    vi.mocked(db.getSessionDebugRecord).mockResolvedValue(null)
+    expect(await buildEvidenceBundle(sessionId)).toBeNull()
+  })
+
+  it('hashes the bundle as stored, independent of key order', () => {
+    const hash = hashEvidence({ b: 1, a: { d: at(0), c: [1, 2] } })
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashEvidence({ a: { c: [1, 2], d: at(0).toISOString() }, b: 1 })).toBe(hash)
+    expect(hashEvidence({ a: { c: [2, 1], d: at(0) }, b: 1 })).not.toBe(hash)
+  })
+
+  it('records NFT burns and ALPR reads without throwing', async () => {
+    await recordNftBurn(sessionId, 42, { txHash: '0.0.1@2.2' })
+    await recordAlprRead(sessionId, 'exit', '1234567', { raw: '12-345-67', confidence: 0.88 })
+
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+      eventType: LIFECYCLE_EVENT.SESSION_NFT_BURNED,
+      payload: { serial: 42, txHash: '0.0.1@2.2' },
+      sessionId,
+    })
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+      eventType: LIFECYCLE_EVENT.ALPR_READ,
+      payload: { stage: 'exit', plate: '1234567', raw: '12-345-67', confidence: 0.88 },
+      sessionId,
+    })
+
+    vi.mocked(db.insertPolicyEvent).mockRejectedValue(new Error('db down'))
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(recordNftBurn(sessionId, 42, { txHash: 'x' })).resolves.toBeUndefined()
+    consoleError.mockRestore()
+  })
+})
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('../../src/db', () => ({
+  db: {
+    withAdvisoryLock: vi.fn(),
+    expireApprovalRequests: vi.fn(),
+    expirePolicyDecisions: vi.fn(),
+    expirePolicyGrants: vi.fn(),
+    expireXrplIntents: vi.fn(),
+    transitionDecisionState: vi.fn(),
+    insertPolicyEvent: vi.fn(),
+  },
+}))
+
+vi.mock('../../src/ws/index', () => ({
+  notifyGate: vi.fn(),
+  notifyDriver: vi.fn(),
+}))
+
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import {
+  EXPIRY_SWEEP_LOCK_KEY,
+  runExpirySweep,
+  startExpirySweeper,
+} from '../../src/services/expirySweeper'
+import { db } from '../../src/db'
+import { notifyGate, notifyDriver } from '../../src/ws/index'
+import type { ApprovalRequestRecord, ExpiredRecord } from '../../src/db/queries'
+
+const expiresAt = new Date('2026-01-01T10:00:00Z')
+
+function expired(overrides: Partial<ExpiredRecord> = {}): ExpiredRecord {
+  return {
+    id: 'dec-1',
+    sessionId: 'sess-1',
+    plateNumber: 'ABC123',
+    lotId: 'LOT-1',
+    sessionOpen: true,
+    expiresAt,
+    ...overrides,
+  }
+}
+
+describe('expiry sweeper', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.withAdvisoryLock).mockImplementation(async (_key, fn) => fn())
+    vi.mocked(db.expireApprovalRequests).mockResolvedValue([])
+    vi.mocked(db.expirePolicyDecisions).mockResolvedValue([])
+    vi.mocked(db.expirePolicyGrants).mockResolvedValue([])
+    vi.mocked(db.expireXrplIntents).mockResolvedValue([])
+    vi.mocked(db.transitionDecisionState).mockResolvedValue(true)
+    vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+  })
+
+  it('skips the sweep when another instance holds the lock', async () => {
+    vi.mocked(db.withAdvisoryLock).mockResolvedValue(null)
+
+    expect(await runExpirySweep()).toBeNull()
+    expect(db.withAdvisoryLock).toHaveBeenCalledWith(EXPIRY_SWEEP_LOCK_KEY, expect.any(Function))
+    expect(db.expirePolicyDecisions).not.toHaveBeenCalled()
+  })
+
+  it('emits expiry events and notifies gate and driver of open sessions', async () => {
+    vi.mocked(db.expirePolicyDecisions).mockResolvedValue([expired()])
+    vi.mocked(db.expirePolicyGrants).mockResolvedValue([expired({ id: 'grant-1' })])
+    vi.mocked(db.expireXrplIntents).mockResolvedValue([
+      expired({ id: 'pay-1', decisionId: 'dec-2' }),
+    ])
+
+    const result = await runExpirySweep()
+
+    expect(result).toEqual({ approvalRequests: 0, decisions: 1, grants: 1, xrplIntents: 1 })
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+      eventType: LIFECYCLE_EVENT.PAYMENT_DECISION_EXPIRED,
+      payload: { reason: 'ttl', expiresAt },
+      sessionId: 'sess-1',
+      decisionId: 'dec-1',
+    })
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+      eventType: LIFECYCLE_EVENT.POLICY_GRANT_EXPIRED,
+      payload: { reason: 'ttl', grantId: 'grant-1', expiresAt },
+      sessionId: 'sess-1',
+    })
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+      eventType: LIFECYCLE_EVENT.PAYMENT_INTENT_EXPIRED,
+      payload: { reason: 'ttl', rail: 'xrpl', expiresAt },
+      paymentId: 'pay-1',
+      sessionId: 'sess-1',
+      decisionId: 'dec-2',
+    })
+    expect(notifyGate).toHaveBeenCalledWith(
+      'LOT-1',
+      expect.objectContaining({ type: 'decision_expired', decisionId: 'dec-1' }),
+    )
+    expect(notifyDriver).toHaveBeenCalledWith(
+      'ABC123',
+      expect.objectContaining({ type: 'grant_expired', grantId: 'grant-1' }),
+    )
+    expect(notifyDriver).toHaveBeenCalledWith(
+      'ABC123',
+      expect.objectContaining({ type: 'payment_intent_expired', paymentId: 'pay-1' }),
+    )
+  })
+
+  it('records but does not notify expiries of closed sessions', async () => {
+    vi.mocked(db.expirePolicyDecisions).mockResolvedValue([expired({ sessionOpen: false })])
+
+    await runExpirySweep()
+
+    expect(db.insertPolicyEvent).toHaveBeenCalledTimes(1)
+    expect(notifyGate).not.toHaveBeenCalled()
+    expect(notifyDriver).not.toHaveBeenCalled()
+  })
+
+  it('expires the decision of a timed-out approval request', async () => {
+    const request = {
+      id: 'ar-1',
+      decisionId: 'dec-1',
+      sessionId: 'sess-1',
+      plateNumber: 'ABC123',
+      lotId: 'LOT-1',
+      ownerWallet: '0xowner',
+      amountMinor: '5000',
+      currency: 'USD',
+      reasons: ['NEEDS_APPROVAL'],
+      status: 'expired',
+      createdAt: expiresAt,
+      expiresAt,
+    } as ApprovalRequestRecord
+    vi.mocked(db.expireApprovalRequests).mockResolvedValue([request])
+
+    const result = await runExpirySweep()
+
+    expect(result?.approvalRequests).toBe(1)
+    expect(db.transitionDecisionState).toHaveBeenCalledWith('dec-1', {
+      from: ['created'],
+      to: 'expired',
+    })
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: LIFECYCLE_EVENT.PAYMENT_DECISION_EXPIRED,
+        payload: { reason: 'approval_timeout', approvalRequestId: 'ar-1' },
+      }),
+    )
+    expect(notifyDriver).toHaveBeenCalledWith(
+      'ABC123',
+      expect.objectContaining({ type: 'approval_resolved', requestId: 'ar-1', status: 'expired' }),
+    )
+  })
+
+  it('keeps sweeping when one item fails', async () => {
+    vi.mocked(db.expirePolicyDecisions).mockResolvedValue([
+      expired({ id: 'dec-1' }),
+      expired({ id: 'dec-2' }),
+    ])
+    vi.mocked(db.insertPolicyEvent).mockRejectedValueOnce(new Error('db down'))
+
+    const result = await runExpirySweep()
+
+    expect(result?.decisions).toBe(2)
+    expect(notifyGate).toHaveBeenCalledWith(
+      'LOT-1',
+      expect.objectContaining({ decisionId: 'dec-2' }),
+    )
+  })
+
+  describe('startExpirySweeper', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('sweeps on each interval until stopped', async () => {
+      vi.useFakeTimers()
+      const stop = startExpirySweeper(1_000)
+
+      await vi.advanceTimersByTimeAsync(2_500)
+      expect(db.withAdvisoryLock).toHaveBeenCalledTimes(2)
+
+      stop()
+      await vi.advanceTimersByTimeAsync(2_000)
+      expect(db.withAdvisoryLock).toHaveBeenCalledTimes(2)
+    })
+
+    it('is disabled by a zero interval', async () => {
+      vi.useFakeTimers()
+      startExpirySweeper(0)
+
+      await vi.advanceTimersByTimeAsync(120_000)
+      expect(db.withAdvisoryLock).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import {
+  EnvFxProvider,
+  FxService,
+  FxUnavailableError,
+  JsonFxProvider,
+  type FxProvider,
+  type FxRate,
+} from '../../src/services/fx'
+
+const NOW = Date.parse('2025-03-05T12:00:00Z')
+
+function stubProvider(impl: (from: string, to: string) => Promise<FxRate | null>): FxProvider {
+  return { name: 'stub', getRate: vi.fn(impl) }
+}
+
+function rate(value: number, ageMs = 0, provider = 'stub'): FxRate {
+  return { rate: value, asOf: new Date(NOW - ageMs), provider }
+}
+
+describe('FxService', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = NOW
+  })
+
+  function service(provider: FxProvider, fallback?: FxProvider) {
+    return new FxService(provider, {
+      ttlMs: 60_000,
+      maxStalenessMs: 15 * 60_000,
+      fallback,
+      now: () => now,
+    })
+  }
+
+  it('returns identity rate for matching currencies without calling the provider', async () => {
+    const provider = stubProvider(async () => rate(2))
+    const fx = await service(provider).getRate('usd', 'USD')
+    expect(fx.rate).toBe(1)
+    expect(provider.getRate).not.toHaveBeenCalled()
+  })
+
+  it('caches rates within the TTL and refetches after it', async () => {
+    const provider = stubProvider(async () => rate(1.08))
+    const svc = service(provider)
+
+    await svc.getRate('EUR', 'USD')
+    now += 30_000
+    await svc.getRate('eur', 'usd')
+    expect(provider.getRate).toHaveBeenCalledTimes(1)
+
+    now += 60_000
+    await svc.getRate('EUR', 'USD')
+    expect(provider.getRate).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects stale provider rates and uses the fallback', async () => {
+    const provider = stubProvider(async () => rate(1.08, 60 * 60_000))
+    const fallback = stubProvider(async () => rate(1.1, 0, 'env'))
+    const fx = await service(provider, fallback).getRate('EUR', 'USD')
+    expect(fx).toMatchObject({ rate: 1.1, provider: 'env' })
+  })
+
+  it('serves the last cached rate when the provider fails and it is not stale', async () => {
+    let fail = false
+    const provider = stubProvider(async () => {
+      if (fail) throw new Error('feed down')
+      return rate(1.08)
+    })
+    const svc = service(provider)
+    await svc.getRate('EUR', 'USD')
+
+    fail = true
+    now += 5 * 60_000 // past TTL, within staleness
+    expect((await svc.getRate('EUR', 'USD')).rate).toBe(1.08)
+
+    now += 20 * 60_000 // cached rate now stale
+    await expect(svc.getRate('EUR', 'USD')).rejects.toBeInstanceOf(FxUnavailableError)
+  })
+
+  it('throws FxUnavailableError when no provider has the pair', async () => {
+    const svc = service(
+      stubProvider(async () => null),
+      stubProvider(async () => null),
+    )
+    await expect(svc.getRate('JPY', 'USD')).rejects.toThrow(/JPY → USD/)
+  })
+})
+
+describe('EnvFxProvider', () => {
+  afterEach(() => {
+    delete process.env.FX_RATE_EUR_USD
+    delete process.env.FX_RATE_USD_ILS
+  })
+
+  it('reads direct and inverse env rates', async () => {
+    process.env.FX_RATE_EUR_USD = '1.08'
+    process.env.FX_RATE_USD_ILS = '4'
+    const provider = new EnvFxProvider()
+
+    expect((await provider.getRate('EUR', 'USD'))?.rate).toBe(1.08)
+    expect((await provider.getRate('ILS', 'USD'))?.rate).toBe(0.25)
+    expect(await provider.getRate('GBP', 'USD')).toBeNull()
+  })
+})
+
+describe('JsonFxProvider', () => {
+  it('reads rates and asOf from a local file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fx-'))
+    const file = join(dir, 'rates.json')
+    writeFileSync(
+      file,
+      JSON.stringify({ asOf: '2025-03-05T11:55:00Z', rates: { EUR_USD: 1.08, USD_ILS: 4 } }),
+    )
+    const provider = new JsonFxProvider(file)
+
+    expect(provider.name).toBe('file')
+    expect(await provider.getRate('EUR', 'USD')).toEqual({
+      rate: 1.08,
+      asOf: new Date('2025-03-05T11:55:00Z'),
+      provider: 'file',
+    })
+    expect((await provider.getRate('ILS', 'USD'))?.rate).toBe(0.25)
+    expect(await provider.getRate('GBP', 'USD')).toBeNull()
+  })
+
+  it('fetches rates over HTTP', async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ asOf: '2025-03-05T11:59:00Z', rates: { GBP_USD: '1.27' } }),
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+    try {
+      const provider = new JsonFxProvider('http://localhost:9999/rates.json')
+      expect(provider.name).toBe('http')
+      expect((await provider.getRate('GBP', 'USD'))?.rate).toBe(1.27)
+      expect(fetchMock).toHaveBeenCalledWith('http://localhost:9999/rates.json', {
+        signal: expect.any(AbortSignal),
+      })
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('gives up on a slow HTTP source and lets the service serve its cached rate', async () => {
+    let calls = 0
+    const fetchMock = vi.fn(async (_url: string, init: { signal: AbortSignal }) => {
+      if (calls++ === 0) {
+        return { ok: true, json: async () => ({ rates: { GBP_USD: 1.27 } }) }
+      }
+      // Hangs until the timeout aborts it
+      return new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(init.signal.reason))
+      })
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    try {
+      let now = Date.now()
+      const fx = new FxService(new JsonFxProvider('http://localhost:9999/rates.json', 20), {
+        ttlMs: 1_000,
+        maxStalenessMs: 15 * 60_000,
+        now: () => now,
+      })
+      expect((await fx.getRate('GBP', 'USD')).rate).toBe(1.27)
+
+      now += 2_000 // past the TTL: the provider is asked again and times out
+      expect((await fx.getRate('GBP', 'USD')).rate).toBe(1.27)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+})
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../src/db', () => ({
+  db: {
+    getPaymentReview: vi.fn(),
+    resolvePaymentReview: vi.fn(),
+    getSession: vi.fn(),
+    getLot: vi.fn(),
+    setSessionComp: vi.fn(),
+    getDecisionPayloadByDecisionId: vi.fn(),
+    getRefundableSettlement: vi.fn(),
+    createRefund: vi.fn(),
+    transitionSession: vi.fn(),
+    collectSessionDebts: vi.fn(async () => []),
+    insertPolicyEvent: vi.fn(),
+  },
+}))
+
+import type { SessionRecord } from '@parker/core'
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import {
+  PaymentReviewError,
+  acceptReviewedPayment,
+  requestReviewRefund,
+  requestReviewTopUp,
+  toSessionPaymentReview,
+} from '../../src/services/paymentReviews'
+import { db } from '../../src/db'
+import type { PaymentReviewRecord } from '../../src/db/queries'
+
+const operator = { id: 'op-1' }
+const createdAt = new Date('2026-01-01T10:00:00Z')
+
+const review: PaymentReviewRecord = {
+  id: 'rev-1',
+  sessionId: 'sess-1',
+  decisionId: 'dec-1',
+  txHash: '0xabc',
+  rail: 'evm',
+  amount: '5000000',
+  reason: 'CAP_EXCEEDED_TX',
+  evidence: { reason: 'CAP_EXCEEDED_TX' },
+  status: 'open',
+  createdAt,
+  plateNumber: 'ABC123',
+  lotId: 'LOT-1',
+  sessionStatus: 'payment_failed',
+}
+
+const session: SessionRecord = {
+  id: 'sess-1',
+  plateNumber: 'ABC123',
+  lotId: 'LOT-1',
+  entryTime: new Date(Date.now() - 119 * 60_000), // bills as 2h
+  status: 'payment_failed',
+}
+
+describe('payment reviews', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.getPaymentReview).mockResolvedValue(review)
+    vi.mocked(db.getSession).mockResolvedValue(session)
+    vi.mocked(db.resolvePaymentReview).mockImplementation(async (_id, input) => ({
+      ...review,
+      status: input.status,
+      note: input.note,
+      resolvedBy: input.resolvedBy,
+      topUpMinor: input.topUpMinor,
+      topUpCurrency: input.topUpCurrency,
+      resolvedAt: createdAt,
+    }))
+    vi.mocked(db.transitionSession).mockImplementation(async (s, input) => ({
+      ...s,
+      status: input.to,
+    }))
+    vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+  })
+
+  it('accepts the payment: closes the session at the decision price and resolves the review', async () => {
+    vi.mocked(db.getDecisionPayloadByDecisionId).mockResolvedValue({
+      priceFiat: { amountMinor: '1600', currency: 'USD' },
+    })
+
+    const result = await acceptReviewedPayment('rev-1', { note: 'Cap was stale', operator })
+
+    expect(result.session?.status).toBe('closed')
+    expect(result.review.status).toBe('accepted')
+    expect(db.transitionSession).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(db.transitionSession).mock.calls[0][1]).toMatchObject({
+      to: 'closed',
+      reason: 'payment_review_accepted',
+      decisionId: 'dec-1',
+      txHash: '0xabc',
+      feeAmount: 16,
+      feeCurrency: 'USD',
+    })
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: LIFECYCLE_EVENT.SESSION_CLOSED, sessionId: 'sess-1' }),
+    )
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+      eventType: LIFECYCLE_EVENT.PAYMENT_REVIEW_RESOLVED,
+      payload: {
+        reviewId: 'rev-1',
+        status: 'accepted',
+        note: 'Cap was stale',
+        operator,
+        reason: 'CAP_EXCEEDED_TX',
+        feeAmount: 16,
+        feeCurrency: 'USD',
+      },
+      sessionId: 'sess-1',
+      decisionId: 'dec-1',
+      txHash: '0xabc',
+    })
+  })
+
+  it('holds an unpaid session in approval_required before closing it', async () => {
+    vi.mocked(db.getSession).mockResolvedValue({ ...session, status: 'payment_required' })
+    vi.mocked(db.getDecisionPayloadByDecisionId).mockResolvedValue(null)
+
+    await acceptReviewedPayment('rev-1', { note: 'ok', operator })
+
+    expect(vi.mocked(db.transitionSession).mock.calls.map(([, input]) => input.to)).toEqual([
+      'approval_required',
+      'closed',
+    ])
+  })
+
+  it('refuses to accept when the session is already closed', async () => {
+    vi.mocked(db.getSession).mockResolvedValue({ ...session, status: 'closed' })
+
+    await expect(acceptReviewedPayment('rev-1', { note: 'ok', operator })).rejects.toMatchObject({
+      code: 'SESSION_NOT_OPEN',
+    })
+    expect(db.resolvePaymentReview).not.toHaveBeenCalled()
+  })
+
+  it('rejects resolving a review twice', async () => {
+    vi.mocked(db.getPaymentReview).mockResolvedValue({ ...review, status: 'refund_requested' })
+
+    await expect(requestReviewRefund('rev-1', { note: 'again', operator })).rejects.toBeInstanceOf(
+      PaymentReviewError,
+    )
+  })
+
+  it('requests a refund of the settlement without touching the session, even once it has closed', async () => {
+    vi.mocked(db.getSession).mockResolvedValue({ ...session, status: 'closed' })
+    vi.mocked(db.getRefundableSettlement).mockResolvedValue({
+      sessionId: 'sess-1',
+      txHash: '0xabc',
+      rail: 'evm',
+      amount: '5000000',
+      asset: 'USDC',
+      chainId: 84532,
+      tokenAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payer: '0x00000000000000000000000000000000000000aa',
+      eventType: LIFECYCLE_EVENT.POLICY_ENFORCEMENT_FAILED,
+    })
+    vi.mocked(db.createRefund).mockImplementation(async (input) => ({
+      status: 'created',
+      refund: {
+        id: 'ref-1',
+        sessionId: input.sessionId,
+        settlementTxHash: input.settlementTxHash,
+        rail: input.rail,
+        amount: input.amount.toString(),
+        settledAmount: input.settledAmount.toString(),
+        status: 'requested',
+        idempotencyKey: input.idempotencyKey,
+        requestedBy: input.requestedBy,
+        createdAt,
+      },
+    }))
+
+    const result = await requestReviewRefund('rev-1', { note: 'Driver asked', operator })
+
+    expect(result.review.status).toBe('refund_requested')
+    expect(result.refund?.id).toBe('ref-1')
+    expect(db.getRefundableSettlement).toHaveBeenCalledWith('sess-1', '0xabc')
+    expect(db.createRefund).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reviewId: 'rev-1',
+        idempotencyKey: 'review:rev-1',
+        amount: 5000000n,
+        destination: '0x00000000000000000000000000000000000000aa',
+      }),
+    )
+    expect(db.transitionSession).not.toHaveBeenCalled()
+    expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: LIFECYCLE_EVENT.PAYMENT_REVIEW_RESOLVED,
+        payload: expect.objectContaining({
+          status: 'refund_requested',
+          amount: '5000000',
+          refundId: 'ref-1',
+        }),
+      }),
+    )
+  })
+
+  it('credits all but the top-up against the current fee', async () => {
+    vi.mocked(db.getLot).mockResolvedValue({
+      id: 'LOT-1',
+      name: 'Lot',
+      address: '',
+      capacity: 10,
+      ratePerHour: 8,
+      billingMinutes: 15,
+      currency: 'USD',
+      paymentMethods: ['x402'],
+    } as never)
+    vi.mocked(db.setSessionComp).mockImplementation(async (_id, comp) => ({
+      ...session,
+      comp: comp ?? undefined,
+    }))
+
+    const result = await requestReviewTopUp('rev-1', { note: 'Short', operator, amountMinor: 250n })
+
+    // 2h at 8/h = 16.00 USD; 2.50 still owed
+    expect(db.setSessionComp).toHaveBeenCalledWith('sess-1', { amountMinor: '1350' })
+    expect(result.review).toMatchObject({ topUpMinor: '250', topUpCurrency: 'USD' })
+    expect(toSessionPaymentReview(result.review)).toEqual({
+      status: 'top_up_requested',
+      reason: 'CAP_EXCEEDED_TX',
+      createdAt,
+      resolvedAt: createdAt,
+      topUpMinor: '250',
+      topUpCurrency: 'USD',
+    })
+  })
+
+  it('rejects a top-up that is not below the current fee', async () => {
+    vi.mocked(db.getLot).mockResolvedValue({
+      ratePerHour: 8,
+      billingMinutes: 15,
+      currency: 'USD',
+    } as never)
+
+    await expect(
+      requestReviewTopUp('rev-1', { note: 'x', operator, amountMinor: 5000n }),
+    ).rejects.toMatchObject({ code: 'INVALID_TOP_UP' })
+    expect(db.setSessionComp).not.toHaveBeenCalled()
+  })
+})
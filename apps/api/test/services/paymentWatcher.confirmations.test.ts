@@ -0,0 +1,481 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { TransactionReceiptNotFoundError } from 'viem'
+
+// In-memory stand-in for evm_pending_payments, evm_block_cursors and evm_failed_transfers
+const store = vi.hoisted(() => {
+  const rows = new Map<string, any>()
+  const cursors = new Map<string, number>()
+  const failed = new Map<string, any>()
+  let seq = 0
+  const active = (row: any) => row.status === 'pending' && row.expiresAt > new Date()
+  return {
+    rows,
+    cursors,
+    failed,
+    upsert: async (input: any) => {
+      const row = { ...input, paymentId: `pay-${++seq}`, status: 'pending', createdAt: new Date() }
+      rows.set(input.sessionId, row)
+      return row
+    },
+    listForReceiver: async (receiver: string) =>
+      [...rows.values()].filter(
+        (row) => active(row) && row.receiverWallet.toLowerCase() === receiver.toLowerCase(),
+      ),
+    claim: async (paymentId: string, transfer: any) => {
+      const row = [...rows.values()].find((r) => r.paymentId === paymentId)
+      if (!row || !active(row)) return null
+      if ([...rows.values()].some((r) => r.txHash === transfer.txHash)) return null
+      Object.assign(row, {
+        status: 'matched',
+        txHash: transfer.txHash,
+        paidAmount: transfer.amount,
+        payer: transfer.payer,
+        blockNumber: transfer.blockNumber,
+        blockHash: transfer.blockHash,
+        paidChainId: transfer.chainId,
+        paidToken: transfer.token,
+      })
+      return row
+    },
+    complete: async (paymentId: string, status: string) => {
+      const row = [...rows.values()].find((r) => r.paymentId === paymentId)
+      if (row?.status !== 'matched') return false
+      row.status = status
+      return true
+    },
+    listMatched: async (chainId: number, maxBlock: number) =>
+      [...rows.values()]
+        .filter(
+          (r) => r.status === 'matched' && r.paidChainId === chainId && r.blockNumber <= maxBlock,
+        )
+        .map((r) => ({ ...r })),
+    release: async (txHash: string) => {
+      const row = [...rows.values()].find((r) => r.txHash === txHash && r.status === 'matched')
+      if (!row) return null
+      Object.assign(row, {
+        status: 'pending',
+        txHash: undefined,
+        paidAmount: undefined,
+        payer: undefined,
+        blockNumber: undefined,
+        blockHash: undefined,
+        paidChainId: undefined,
+        paidToken: undefined,
+      })
+      return row
+    },
+    getCursor: async (key: string) => cursors.get(key) ?? null,
+    advanceCursor: async (key: string, block: number) => {
+      cursors.set(key, Math.max(cursors.get(key) ?? block, block))
+    },
+    rewindCursor: async (key: string, block: number) => {
+      if (cursors.has(key)) cursors.set(key, Math.min(cursors.get(key)!, block))
+    },
+    recordFailed: async (key: string, transfer: any) => {
+      const id = `${key}:${transfer.txHash}:${transfer.logIndex}`
+      const attempts = (failed.get(id)?.attempts ?? 0) + 1
+      failed.set(id, { key, ...transfer, attempts })
+    },
+    listFailed: async (key: string) => [...failed.values()].filter((f) => f.key === key),
+    deleteFailed: async (key: string, txHash: string, logIndex: number) => {
+      failed.delete(`${key}:${txHash}:${logIndex}`)
+    },
+  }
+})
+
+vi.mock('../../src/db', () => ({
+  db: {
+    settleSessionAfterVerified: vi.fn(),
+    upsertEvmPendingPayment: vi.fn(store.upsert),
+    listEvmPendingPaymentsForReceiver: vi.fn(store.listForReceiver),
+    claimEvmPendingPayment: vi.fn(store.claim),
+    completeEvmPendingPayment: vi.fn(store.complete),
+    listMatchedEvmPendingPayments: vi.fn(store.listMatched),
+    releaseEvmPendingPayment: vi.fn(store.release),
+    expireEvmPendingPayments: vi.fn(async () => []),
+    getEvmBlockCursor: vi.fn(store.getCursor),
+    advanceEvmBlockCursor: vi.fn(store.advanceCursor),
+    rewindEvmBlockCursor: vi.fn(store.rewindCursor),
+    recordEvmFailedTransfer: vi.fn(store.recordFailed),
+    listEvmFailedTransfers: vi.fn(store.listFailed),
+    deleteEvmFailedTransfer: vi.fn(store.deleteFailed),
+    withAdvisoryLock: vi.fn((_key: number, fn: () => Promise<unknown>) => fn()),
+    collectSessionDebts: vi.fn(async () => []),
+    transitionSession: vi.fn(),
+    hasSettlementForTxHash: vi.fn(() => Promise.resolve(false)),
+    hasSettlementForDecisionRail: vi.fn(() => Promise.resolve(false)),
+    consumeDecisionOnce: vi.fn(() => Promise.resolve(true)),
+    getDecisionPayloadByDecisionId: vi.fn(() =>
+      Promise.resolve({
+        action: 'ALLOW',
+        decisionId: 'dec-1',
+        policyHash: 'ph-1',
+        expiresAtISO: new Date(Date.now() + 60_000).toISOString(),
+        rail: 'evm',
+        asset: {
+          kind: 'ERC20',
+          chainId: 84532,
+          token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+        },
+        reasons: ['OK'],
+        maxSpend: { perTxMinor: '10000000' },
+      }),
+    ),
+    insertPolicyEvent: vi.fn(() => Promise.resolve()),
+    getLot: vi.fn(async () => null),
+    removeSettlementPartialPayment: vi.fn(async () => false),
+    getActiveSession: vi.fn(() =>
+      Promise.resolve({
+        id: 'sess-1',
+        plateNumber: 'ABC123',
+        lotId: 'LOT-1',
+        entryTime: new Date(),
+        status: 'payment_required',
+        policyGrantId: null,
+      }),
+    ),
+  },
+}))
+
+vi.mock('../../src/ws/index', () => ({
+  notifyGate: vi.fn(),
+  notifyDriver: vi.fn(),
+}))
+
+vi.mock('../../src/services/hedera', () => ({
+  isHederaEnabled: vi.fn(() => false),
+  endParkingSessionOnHedera: vi.fn(),
+}))
+
+import {
+  addPendingPayment,
+  startPaymentWatcher,
+  type PaymentWatcherOptions,
+} from '../../src/services/paymentWatcher'
+import { db } from '../../src/db'
+
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+const CURSOR_KEY = `evm:84532:${USDC.toLowerCase()}`
+
+function makeTransferLog(
+  txHash: string,
+  blockNumber: bigint,
+  overrides: Record<string, unknown> = {},
+) {
+  return {
+    address: USDC,
+    chainId: 84532,
+    args: { from: '0xSender', to: '0xReceiver', value: 1_500_000n },
+    transactionHash: txHash,
+    logIndex: 0,
+    blockNumber,
+    blockHash: `0xblock-${blockNumber}`,
+    ...overrides,
+  }
+}
+
+/** Local node stand-in: a chain head, logs by block and receipts by tx hash */
+function makeChain(head: bigint) {
+  const chain = {
+    head,
+    logs: [] as any[],
+    receipts: new Map<string, { status: string; blockHash: string }>(),
+    watchContractEvent: vi.fn((_params: any) => vi.fn()),
+    getBlockNumber: vi.fn(async () => chain.head),
+    getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+      chain.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock),
+    ),
+    getTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => {
+      const receipt = chain.receipts.get(hash)
+      if (!receipt) throw new TransactionReceiptNotFoundError({ hash: hash as `0x${string}` })
+      return receipt
+    }),
+    /** Include a transfer in a block (log + receipt) */
+    include(txHash: string, blockNumber: bigint) {
+      const log = makeTransferLog(txHash, blockNumber)
+      chain.logs.push(log)
+      chain.receipts.set(txHash, { status: 'success', blockHash: log.blockHash })
+      return log
+    },
+  }
+  return chain
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 50))
+
+function eventTypes() {
+  return vi.mocked(db.insertPolicyEvent).mock.calls.map(([event]: any[]) => event.eventType)
+}
+
+async function addPending() {
+  await addPendingPayment({
+    plate: 'ABC123',
+    lotId: 'LOT-1',
+    sessionId: 'sess-1',
+    expectedAmount: '1.500000',
+    receiverWallet: '0xReceiver',
+    fee: 1.5,
+    feeCurrency: 'USDC',
+    createdAt: Date.now(),
+    decisionId: 'dec-1',
+  })
+}
+
+describe('paymentWatcher block cursor and confirmations', () => {
+  let stop: () => void = () => {}
+
+  function start(chain: ReturnType<typeof makeChain>, options: PaymentWatcherOptions = {}) {
+    stop = startPaymentWatcher(chain as any, 'base-sepolia', { tokens: ['USDC'], ...options })
+    return chain.watchContractEvent.mock.calls[0][0] as any
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    store.rows.clear()
+    store.cursors.clear()
+    store.failed.clear()
+  })
+
+  afterEach(() => {
+    stop()
+  })
+
+  describe('backfill', () => {
+    it('starts the cursor at the chain head on first start', async () => {
+      const chain = makeChain(100n)
+      start(chain)
+      await flush()
+
+      expect(chain.getLogs).not.toHaveBeenCalled()
+      expect(store.cursors.get(CURSOR_KEY)).toBe(100)
+    })
+
+    it('settles a transfer made while the API was down', async () => {
+      store.cursors.set(CURSOR_KEY, 90)
+      await addPending()
+      const chain = makeChain(100n)
+      chain.include('0xtx-missed', 95n)
+
+      start(chain, { backfillChunkBlocks: 4 })
+      await flush()
+
+      expect(chain.getLogs).toHaveBeenCalledTimes(3)
+      expect(chain.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ address: USDC, fromBlock: 91n, toBlock: 94n }),
+      )
+      expect(chain.getLogs).toHaveBeenLastCalledWith(
+        expect.objectContaining({ fromBlock: 99n, toBlock: 100n }),
+      )
+      expect(eventTypes()).toContain('SETTLEMENT_VERIFIED')
+      expect(store.rows.get('sess-1').status).toBe('resolved')
+      expect(store.cursors.get(CURSOR_KEY)).toBe(100)
+    })
+
+    it('backfills again after a subscription error', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      const { onError } = start(chain)
+      await flush()
+      expect(chain.getLogs).not.toHaveBeenCalled()
+
+      chain.head = 103n
+      chain.include('0xtx-dropped', 102n)
+      onError(new Error('socket closed'))
+      await flush()
+
+      expect(chain.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 101n, toBlock: 103n }),
+      )
+      expect(store.rows.get('sess-1').status).toBe('resolved')
+    })
+
+    it('handles a transfer seen by both the subscription and a backfill once', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      const { onLogs, onError } = start(chain)
+      await flush()
+
+      chain.head = 101n
+      const log = chain.include('0xtx-both', 101n)
+      onError(new Error('socket closed'))
+      onLogs([log])
+      await flush()
+
+      expect(chain.getLogs).toHaveBeenCalledOnce()
+      expect(db.listEvmPendingPaymentsForReceiver).toHaveBeenCalledOnce()
+    })
+
+    it('stores a transfer that failed for retry and moves the cursor past it', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      const { onLogs } = start(chain)
+      await flush()
+
+      chain.head = 102n
+      const failing = chain.include('0xtx-retry', 101n)
+      const later = chain.include('0xtx-other', 102n)
+      later.args = { ...later.args, to: '0xSomeoneElse' }
+      vi.mocked(db.listEvmPendingPaymentsForReceiver).mockRejectedValueOnce(new Error('db down'))
+      onLogs([failing, later])
+      await flush()
+
+      expect(store.rows.get('sess-1').status).toBe('pending')
+      expect(store.cursors.get(CURSOR_KEY)).toBe(102)
+      expect(db.recordEvmFailedTransfer).toHaveBeenCalledWith(
+        CURSOR_KEY,
+        { txHash: '0xtx-retry', logIndex: 0, blockNumber: 101 },
+        'db down',
+      )
+    })
+
+    it('retries a failed transfer after EVM_FAILED_LOG_RETRY_MS, past a cursor another instance moved', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      const { onLogs } = start(chain, { failedLogRetryMs: 20 })
+      await flush()
+
+      chain.head = 101n
+      vi.mocked(db.listEvmPendingPaymentsForReceiver).mockRejectedValueOnce(new Error('db down'))
+      onLogs([chain.include('0xtx-retry', 101n)])
+      // Another instance handled later blocks in the meantime
+      store.cursors.set(CURSOR_KEY, 150)
+      await flush()
+      await flush()
+
+      expect(chain.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 101n, toBlock: 101n }),
+      )
+      expect(store.rows.get('sess-1').status).toBe('resolved')
+      expect(store.failed.size).toBe(0)
+      expect(store.cursors.get(CURSOR_KEY)).toBe(150)
+    })
+
+    it('keeps retrying a transfer that fails again and drops one no longer on the chain', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      await store.recordFailed(CURSOR_KEY, { txHash: '0xtx-gone', logIndex: 0, blockNumber: 99 })
+      await store.recordFailed(CURSOR_KEY, { txHash: '0xtx-retry', logIndex: 0, blockNumber: 100 })
+      chain.include('0xtx-retry', 100n)
+      vi.mocked(db.listEvmPendingPaymentsForReceiver).mockImplementation(async () => {
+        throw new Error('db down')
+      })
+      start(chain, { failedLogRetryMs: 20 })
+      await flush()
+      vi.mocked(db.listEvmPendingPaymentsForReceiver).mockImplementation(store.listForReceiver)
+
+      expect([...store.failed.values()]).toEqual([
+        expect.objectContaining({ txHash: '0xtx-retry' }),
+      ])
+      expect([...store.failed.values()][0].attempts).toBeGreaterThan(1)
+      expect(store.rows.get('sess-1').status).toBe('pending')
+    })
+
+    it('keeps the cursor where it was when a failed transfer cannot be stored', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      const { onLogs } = start(chain)
+      await flush()
+
+      vi.mocked(db.listEvmPendingPaymentsForReceiver).mockRejectedValueOnce(new Error('db down'))
+      vi.mocked(db.recordEvmFailedTransfer).mockRejectedValueOnce(new Error('db down'))
+      onLogs([chain.include('0xtx-retry', 101n)])
+      await flush()
+
+      expect(store.cursors.get(CURSOR_KEY)).toBe(100)
+    })
+  })
+
+  describe('confirmation depth', () => {
+    it('verifies a matched transfer only once it has enough confirmations', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      const { onLogs } = start(chain, { confirmations: 3, confirmationPollMs: 10 })
+      await flush()
+
+      onLogs([chain.include('0xtx-deep', 100n)])
+      await flush()
+      expect(store.rows.get('sess-1').status).toBe('matched')
+      expect(eventTypes()).toContain('POLICY_ENFORCEMENT_PASSED')
+      expect(eventTypes()).not.toContain('SETTLEMENT_VERIFIED')
+      expect(db.consumeDecisionOnce).not.toHaveBeenCalled()
+
+      chain.head = 102n
+      await flush()
+
+      expect(store.rows.get('sess-1').status).toBe('resolved')
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'SETTLEMENT_VERIFIED',
+          payload: expect.objectContaining({
+            amount: '1500000',
+            payer: '0xSender',
+            blockNumber: 100,
+            confirmations: 3,
+          }),
+          txHash: '0xtx-deep',
+        }),
+      )
+    })
+
+    it('moves the payment back to pending when its transfer is reorged out', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      const { onLogs } = start(chain, { confirmations: 3, confirmationPollMs: 10 })
+      await flush()
+
+      onLogs([chain.include('0xtx-orphaned', 100n)])
+      await flush()
+      expect(store.rows.get('sess-1').status).toBe('matched')
+
+      // Block 100 replaced; the transfer is gone from the canonical chain
+      chain.logs = []
+      chain.receipts.clear()
+      chain.head = 102n
+      await flush()
+
+      expect(store.rows.get('sess-1').status).toBe('pending')
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'SETTLEMENT_REORGED',
+          payload: expect.objectContaining({ txHash: '0xtx-orphaned', blockNumber: 100 }),
+        }),
+      )
+      expect(db.rewindEvmBlockCursor).toHaveBeenCalledWith(CURSOR_KEY, 99)
+      expect(eventTypes()).not.toContain('SETTLEMENT_VERIFIED')
+    })
+
+    it('matches a reorged transfer again when it is re-included', async () => {
+      store.cursors.set(CURSOR_KEY, 100)
+      await addPending()
+      const chain = makeChain(100n)
+      const { onLogs } = start(chain, { confirmations: 2, confirmationPollMs: 10 })
+      await flush()
+
+      const log = chain.include('0xtx-moved', 100n)
+      onLogs([log])
+      await flush()
+
+      // The subscription reports the log removed, then the tx lands in a later block
+      onLogs([{ ...log, removed: true }])
+      chain.logs = []
+      chain.head = 102n
+      onLogs([chain.include('0xtx-moved', 101n)])
+      await flush()
+
+      expect(eventTypes()).toContain('SETTLEMENT_REORGED')
+      expect(store.rows.get('sess-1').status).toBe('resolved')
+      expect(db.claimEvmPendingPayment).toHaveBeenLastCalledWith(
+        store.rows.get('sess-1').paymentId,
+        expect.objectContaining({ txHash: '0xtx-moved', blockNumber: 101 }),
+      )
+    })
+  })
+})
@@ -1,8 +1,60 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 
+// In-memory stand-in for evm_pending_payments (one pending row per session)
+const pendingStore = vi.hoisted(() => {
+  const rows = new Map<string, any>()
+  let seq = 0
+  const active = (row: any) => row.status === 'pending' && row.expiresAt > new Date()
+  return {
+    rows,
+    upsert: async (input: any) => {
+      const row = { ...input, paymentId: `pay-${++seq}`, status: 'pending', createdAt: new Date() }
+      rows.set(input.sessionId, row)
+      return row
+    },
+    cancel: async (sessionId: string) => {
+      const row = rows.get(sessionId)
+      if (!row || row.status !== 'pending') return false
+      row.status = 'cancelled'
+      return true
+    },
+    listForReceiver: async (receiver: string) =>
+      [...rows.values()].filter(
+        (row) => active(row) && row.receiverWallet.toLowerCase() === receiver.toLowerCase(),
+      ),
+    claim: async (paymentId: string, transfer: any) => {
+      const row = [...rows.values()].find((r) => r.paymentId === paymentId)
+      if (!row || !active(row)) return null
+      if ([...rows.values()].some((r) => r.txHash === transfer.txHash)) return null
+      Object.assign(row, {
+        status: 'matched',
+        txHash: transfer.txHash,
+        paidAmount: transfer.amount,
+        payer: transfer.payer,
+        blockNumber: transfer.blockNumber,
+        blockHash: transfer.blockHash,
+      })
+      return row
+    },
+    complete: async (paymentId: string, status: string) => {
+      const row = [...rows.values()].find((r) => r.paymentId === paymentId)
+      if (row?.status === 'matched') row.status = status
+    },
+  }
+})
+
 vi.mock('../../src/db', () => ({
   db: {
     settleSessionAfterVerified: vi.fn(),
+    upsertEvmPendingPayment: vi.fn(pendingStore.upsert),
+    cancelEvmPendingPayment: vi.fn(pendingStore.cancel),
+    listEvmPendingPaymentsForReceiver: vi.fn(pendingStore.listForReceiver),
+    claimEvmPendingPayment: vi.fn(pendingStore.claim),
+    completeEvmPendingPayment: vi.fn(pendingStore.complete),
+    expireEvmPendingPayments: vi.fn(async () => []),
+    getEvmBlockCursor: vi.fn(async () => 100),
+    advanceEvmBlockCursor: vi.fn(),
+    collectSessionDebts: vi.fn(async () => []),
     transitionSession: vi.fn(),
     hasSettlementForTxHash: vi.fn(() => Promise.resolve(false)),
     hasSettlementForDecisionRail: vi.fn(() => Promise.resolve(false)),
@@ -17,6 +69,7 @@ vi.mock('../../src/db', () => ({
       }),
     ),
     insertPolicyEvent: vi.fn(() => Promise.resolve()),
+    getLot: vi.fn(async () => null),
     getActiveSession: vi.fn(() =>
       Promise.resolve({
         id: 'sess-1',
@@ -42,7 +95,6 @@ vi.mock('../../src/services/hedera', () => ({
 
 import {
   addPendingPayment,
-  removePendingPayment,
   startPaymentWatcher,
   type PendingPayment,
 } from '../../src/services/paymentWatcher'
@@ -63,6 +115,15 @@ function makePending(overrides: Partial<PendingPayment> = {}): PendingPayment {
   }
 }
 
+/** Public client at block 100, with no logs to backfill */
+function mockClient(watchContractEvent = vi.fn()) {
+  return {
+    watchContractEvent,
+    getBlockNumber: vi.fn(async () => 100n),
+    getLogs: vi.fn(async () => []),
+  } as any
+}
+
 function makeTransferLog(
   to: string,
   value: bigint,
@@ -83,15 +144,14 @@ describe('paymentWatcher enforcement', () => {
 
   function startWatcherAndCaptureOnLogs() {
     const watchContractEvent = vi.fn()
-    const mockClient = { watchContractEvent } as any
-    startPaymentWatcher(mockClient, 'base-sepolia')
+    const client = mockClient(watchContractEvent)
+    startPaymentWatcher(client, 'base-sepolia')
     onLogs = watchContractEvent.mock.calls[0][0].onLogs
   }
 
   beforeEach(() => {
     vi.clearAllMocks()
-    removePendingPayment('sess-1')
-    removePendingPayment('sess-2')
+    pendingStore.rows.clear()
     startWatcherAndCaptureOnLogs()
   })
 
@@ -110,7 +170,7 @@ describe('paymentWatcher enforcement', () => {
       decisionId: 'dec-1',
       policyHash: 'ph-1',
     } as any)
-    addPendingPayment(makePending())
+    await addPendingPayment(makePending())
 
     onLogs([makeTransferLog('0xReceiver', 1_500_000n, '0xtx-rail-mismatch')])
     await new Promise((r) => setTimeout(r, 50))
@@ -135,7 +195,7 @@ describe('paymentWatcher enforcement', () => {
       decisionId: 'dec-1',
       policyHash: 'ph-1',
     } as any)
-    addPendingPayment(makePending())
+    await addPendingPayment(makePending())
     onLogs([makeTransferLog('0xReceiver', 1_500_000n, '0xtx-asset-mismatch')])
     await new Promise((r) => setTimeout(r, 50))
 
@@ -157,7 +217,7 @@ describe('paymentWatcher enforcement', () => {
       decisionId: 'dec-1',
       policyHash: 'ph-1',
     } as any)
-    addPendingPayment(makePending({ sessionId: 'sess-2' }))
+    await addPendingPayment(makePending({ sessionId: 'sess-2' }))
     onLogs([makeTransferLog('0xReceiver', 1_500_000n, '0xtx-amount-mismatch')])
     await new Promise((r) => setTimeout(r, 50))
 
@@ -190,7 +250,7 @@ describe('paymentWatcher enforcement', () => {
         },
       ],
     } as any)
-    addPendingPayment(makePending())
+    await addPendingPayment(makePending())
 
     onLogs([makeTransferLog('0xReceiver', 1_500_000n, '0xtx-destination-mismatch')])
     await new Promise((r) => setTimeout(r, 50))
@@ -1,9 +1,82 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 
+// In-memory stand-in for evm_pending_payments (one pending row per session)
+const pendingStore = vi.hoisted(() => {
+  const rows = new Map<string, any>()
+  let seq = 0
+  const active = (row: any) => row.status === 'pending' && row.expiresAt > new Date()
+  return {
+    rows,
+    upsert: async (input: any) => {
+      const row = { ...input, paymentId: `pay-${++seq}`, status: 'pending', createdAt: new Date() }
+      rows.set(input.sessionId, row)
+      return row
+    },
+    cancel: async (sessionId: string) => {
+      const row = rows.get(sessionId)
+      if (!row || row.status !== 'pending') return false
+      row.status = 'cancelled'
+      return true
+    },
+    getByPlateLot: async (plate: string, lotId: string) =>
+      [...rows.values()].find(
+        (row) => active(row) && row.plateNumber === plate && row.lotId === lotId,
+      ) ?? null,
+    listForReceiver: async (receiver: string) =>
+      [...rows.values()].filter(
+        (row) => active(row) && row.receiverWallet.toLowerCase() === receiver.toLowerCase(),
+      ),
+    claim: async (paymentId: string, transfer: any) => {
+      const row = [...rows.values()].find((r) => r.paymentId === paymentId)
+      if (!row || !active(row)) return null
+      if ([...rows.values()].some((r) => r.txHash === transfer.txHash)) return null
+      Object.assign(row, {
+        status: 'matched',
+        txHash: transfer.txHash,
+        paidAmount: transfer.amount,
+        payer: transfer.payer,
+        blockNumber: transfer.blockNumber,
+        blockHash: transfer.blockHash,
+      })
+      return row
+    },
+    complete: async (paymentId: string, status: string) => {
+      const row = [...rows.values()].find((r) => r.paymentId === paymentId)
+      if (row?.status === 'matched') row.status = status
+    },
+  }
+})
+
+// In-memory stand-in for settlement_partial_payments
+const partialStore = vi.hoisted(() => {
+  const rows = new Map<string, any>()
+  return {
+    rows,
+    add: async (input: any) => {
+      if (rows.has(input.txHash)) return false
+      rows.set(input.txHash, { ...input, createdAt: new Date() })
+      return true
+    },
+    list: async (paymentId: string) =>
+      [...rows.values()].filter((row) => row.paymentId === paymentId),
+    remove: async (txHash: string) => rows.delete(txHash),
+  }
+})
+
 // Mock dependencies before imports (asset must match watcher settlement: base-sepolia USDC)
 vi.mock('../../src/db', () => ({
   db: {
     settleSessionAfterVerified: vi.fn(),
+    upsertEvmPendingPayment: vi.fn(pendingStore.upsert),
+    cancelEvmPendingPayment: vi.fn(pendingStore.cancel),
+    getActiveEvmPendingPayment: vi.fn(pendingStore.getByPlateLot),
+    listEvmPendingPaymentsForReceiver: vi.fn(pendingStore.listForReceiver),
+    claimEvmPendingPayment: vi.fn(pendingStore.claim),
+    completeEvmPendingPayment: vi.fn(pendingStore.complete),
+    expireEvmPendingPayments: vi.fn(async () => []),
+    getEvmBlockCursor: vi.fn(async () => 100),
+    advanceEvmBlockCursor: vi.fn(),
+    collectSessionDebts: vi.fn(async () => []),
     transitionSession: vi.fn(),
     hasSettlementForTxHash: vi.fn(() => Promise.resolve(false)),
     hasSettlementForDecisionRail: vi.fn(() => Promise.resolve(false)),
@@ -15,12 +88,26 @@ vi.mock('../../src/db', () => ({
         policyHash: 'ph-1',
         expiresAtISO: new Date(Date.now() + 60_000).toISOString(),
         rail: 'evm',
-        asset: { kind: 'ERC20', chainId: 84532, token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' },
+        asset: {
+          kind: 'ERC20',
+          chainId: 84532,
+          token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+        },
         reasons: ['OK'],
         maxSpend: { perTxMinor: '10000000' },
       }),
     ),
     insertPolicyEvent: vi.fn(() => Promise.resolve()),
+    getLot: vi.fn(async () => null),
+    addSettlementPartialPayment: vi.fn(partialStore.add),
+    listSettlementPartialPayments: vi.fn(partialStore.list),
+    removeSettlementPartialPayment: vi.fn(partialStore.remove),
+    createDriverCredit: vi.fn(async (input: any) => ({
+      ...input,
+      id: 'credit-1',
+      amount: input.amount.toString(),
+      createdAt: new Date(),
+    })),
     getActiveSession: vi.fn(() =>
       Promise.resolve({
         id: 'sess-1',
@@ -46,6 +133,7 @@ vi.mock('../../src/services/hedera', () => ({
 
 import {
   addPendingPayment,
+  getPendingPaymentByPlateLot,
   removePendingPayment,
   startPaymentWatcher,
   type PendingPayment,
@@ -54,6 +142,9 @@ import { db } from '../../src/db'
 import { notifyGate, notifyDriver } from '../../src/ws/index'
 import { isHederaEnabled, endParkingSessionOnHedera } from '../../src/services/hedera'
 
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+const EURC = '0x808456652fdb597867f38412077A9182bf77359F'
+
 function makePending(overrides: Partial<PendingPayment> = {}): PendingPayment {
   return {
     plate: 'ABC123',
@@ -69,6 +160,15 @@ function makePending(overrides: Partial<PendingPayment> = {}): PendingPayment {
   }
 }
 
+/** Public client at block 100, with no logs to backfill */
+function mockClient(watchContractEvent = vi.fn()) {
+  return {
+    watchContractEvent,
+    getBlockNumber: vi.fn(async () => 100n),
+    getLogs: vi.fn(async () => []),
+  } as any
+}
+
 function makeTransferLog(
   to: string,
   value: bigint,
@@ -76,7 +176,7 @@ function makeTransferLog(
   overrides: Record<string, unknown> = {},
 ) {
   return {
-    address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    address: USDC,
     chainId: 84532,
     args: { from: '0xSender', to, value },
     transactionHash: txHash,
@@ -88,9 +188,8 @@ describe('paymentWatcher', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     // Clean up any pending payments from previous tests
-    removePendingPayment('sess-1')
-    removePendingPayment('sess-2')
-    removePendingPayment('sess-stale')
+    pendingStore.rows.clear()
+    partialStore.rows.clear()
   })
 
   afterEach(() => {
@@ -100,14 +199,26 @@ describe('paymentWatcher', () => {
   // ---- addPendingPayment / removePendingPayment ----
 
   describe('addPendingPayment / removePendingPayment', () => {
-    it('adds and then removes a pending payment', () => {
+    it('adds and then removes a pending payment', async () => {
       const pending = makePending()
       // add should not throw
-      expect(() => addPendingPayment(pending)).not.toThrow()
+      await expect(addPendingPayment(pending)).resolves.toBeUndefined()
+      expect(db.upsertEvmPendingPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: 'sess-1',
+          plateNumber: 'ABC123',
+          expiresAt: new Date(pending.createdAt + 30 * 60_000),
+        }),
+      )
+      expect(await getPendingPaymentByPlateLot('ABC123', 'LOT-1')).toMatchObject({
+        sessionId: 'sess-1',
+        expectedAmount: '1.500000',
+      })
       // remove should not throw
-      expect(() => removePendingPayment('sess-1')).not.toThrow()
+      await expect(removePendingPayment('sess-1')).resolves.toBeUndefined()
       // removing again is a no-op
-      expect(() => removePendingPayment('sess-1')).not.toThrow()
+      await expect(removePendingPayment('sess-1')).resolves.toBeUndefined()
+      expect(await getPendingPaymentByPlateLot('ABC123', 'LOT-1')).toBeNull()
     })
   })
 
@@ -121,19 +232,28 @@ describe('paymentWatcher', () => {
       warnSpy.mockRestore()
     })
 
-    it('calls watchContractEvent with USDC address', () => {
+    it('calls watchContractEvent for every registry token on the chain', () => {
       const watchContractEvent = vi.fn()
-      const mockClient = { watchContractEvent } as any
+      const client = mockClient(watchContractEvent)
 
-      startPaymentWatcher(mockClient, 'base-sepolia')
+      startPaymentWatcher(client, 'base-sepolia')
 
-      expect(watchContractEvent).toHaveBeenCalledOnce()
+      expect(watchContractEvent).toHaveBeenCalledTimes(2)
       expect(watchContractEvent).toHaveBeenCalledWith(
-        expect.objectContaining({
-          address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
-          eventName: 'Transfer',
-        }),
+        expect.objectContaining({ address: USDC, eventName: 'Transfer' }),
       )
+      expect(watchContractEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ address: EURC, eventName: 'Transfer' }),
+      )
+    })
+
+    it('watches only the configured tokens', () => {
+      const watchContractEvent = vi.fn()
+
+      startPaymentWatcher(mockClient(watchContractEvent), 'base-sepolia', { tokens: ['eurc'] })
+
+      expect(watchContractEvent).toHaveBeenCalledOnce()
+      expect(watchContractEvent).toHaveBeenCalledWith(expect.objectContaining({ address: EURC }))
     })
 
     it('logs warning for unknown network', () => {
@@ -142,7 +262,7 @@ describe('paymentWatcher', () => {
 
       startPaymentWatcher(mockClient, 'unknown-network')
 
-      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('No USDC address'))
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('No tokens to watch'))
       expect(mockClient.watchContractEvent).not.toHaveBeenCalled()
       warnSpy.mockRestore()
     })
@@ -155,8 +275,8 @@ describe('paymentWatcher', () => {
 
     function startWatcherAndCaptureOnLogs() {
       const watchContractEvent = vi.fn()
-      const mockClient = { watchContractEvent } as any
-      startPaymentWatcher(mockClient, 'base-sepolia')
+      const client = mockClient(watchContractEvent)
+      startPaymentWatcher(client, 'base-sepolia')
       onLogs = watchContractEvent.mock.calls[0][0].onLogs
     }
 
@@ -166,7 +286,7 @@ describe('paymentWatcher', () => {
 
     it('settles session when transfer matches pending payment', async () => {
       const pending = makePending({ receiverWallet: '0xReceiver' })
-      addPendingPayment(pending)
+      await addPendingPayment(pending)
 
       // 1.500000 USDC = 1_500_000 smallest units (6 decimals)
       const log = makeTransferLog('0xReceiver', 1_500_000n)
@@ -196,7 +316,7 @@ describe('paymentWatcher', () => {
     })
 
     it('does NOT settle when token address does not match watched USDC', async () => {
-      addPendingPayment(makePending())
+      await addPendingPayment(makePending())
 
       const log = makeTransferLog('0xReceiver', 1_500_000n, '0xtx-token', {
         address: '0x0000000000000000000000000000000000000002',
@@ -208,7 +328,7 @@ describe('paymentWatcher', () => {
     })
 
     it('does NOT settle when chain id does not match watched network', async () => {
-      addPendingPayment(makePending())
+      await addPendingPayment(makePending())
 
       const log = makeTransferLog('0xReceiver', 1_500_000n, '0xtx-chain', {
         chainId: 1,
@@ -221,7 +341,7 @@ describe('paymentWatcher', () => {
 
     it('settles when amount is within 1% tolerance', async () => {
       const pending = makePending({ expectedAmount: '10.000000' })
-      addPendingPayment(pending)
+      await addPendingPayment(pending)
 
       // Expected: 10_000_000. 1% = 100_000. Send 9_910_000 (0.9% off — within tolerance)
       const log = makeTransferLog('0xReceiver', 9_910_000n)
@@ -233,7 +353,7 @@ describe('paymentWatcher', () => {
     })
 
     it('settles on exact required amount (no rounding path)', async () => {
-      addPendingPayment(makePending({ expectedAmount: '10.000000' }))
+      await addPendingPayment(makePending({ expectedAmount: '10.000000' }))
 
       const log = makeTransferLog('0xReceiver', 10_000_000n, '0xtx-exact')
       onLogs([log])
@@ -244,8 +364,8 @@ describe('paymentWatcher', () => {
     })
 
     it('settles on exact 1% boundary and rejects above boundary', async () => {
-      addPendingPayment(makePending({ expectedAmount: '10.000000', sessionId: 'sess-1' }))
-      addPendingPayment(makePending({ expectedAmount: '10.000000', sessionId: 'sess-2' }))
+      await addPendingPayment(makePending({ expectedAmount: '10.000000', sessionId: 'sess-1' }))
+      await addPendingPayment(makePending({ expectedAmount: '10.000000', sessionId: 'sess-2' }))
 
       onLogs([makeTransferLog('0xReceiver', 9_900_000n, '0xtx-boundary-ok')]) // exactly 1% low
       await vi.waitFor(() => {
@@ -259,7 +379,7 @@ describe('paymentWatcher', () => {
 
     it('does NOT settle when amount is outside 1% tolerance', async () => {
       const pending = makePending({ expectedAmount: '10.000000' })
-      addPendingPayment(pending)
+      await addPendingPayment(pending)
 
       // Expected: 10_000_000. 1% = 100_000. Send 9_800_000 (2% off — outside tolerance)
       const log = makeTransferLog('0xReceiver', 9_800_000n)
@@ -271,7 +391,7 @@ describe('paymentWatcher', () => {
     })
 
     it('does NOT settle when receiver does not match', async () => {
-      addPendingPayment(makePending({ receiverWallet: '0xCorrectReceiver' }))
+      await addPendingPayment(makePending({ receiverWallet: '0xCorrectReceiver' }))
 
       const log = makeTransferLog('0xWrongReceiver', 1_500_000n)
       onLogs([log])
@@ -280,13 +400,33 @@ describe('paymentWatcher', () => {
       expect(db.settleSessionAfterVerified).not.toHaveBeenCalled()
     })
 
+    it('settles a transfer once when several instances see it', async () => {
+      await addPendingPayment(makePending())
+      const otherInstance = vi.fn()
+      startPaymentWatcher(mockClient(otherInstance), 'base-sepolia')
+
+      const log = makeTransferLog('0xReceiver', 1_500_000n, '0xtx-shared')
+      onLogs([log])
+      otherInstance.mock.calls[0][0].onLogs([log])
+
+      await vi.waitFor(() => {
+        expect(db.settleSessionAfterVerified).toHaveBeenCalledOnce()
+      })
+      await new Promise((r) => setTimeout(r, 50))
+      expect(db.settleSessionAfterVerified).toHaveBeenCalledOnce()
+      expect(db.completeEvmPendingPayment).toHaveBeenCalledWith(
+        expect.stringMatching(/^pay-/),
+        'resolved',
+      )
+    })
+
     it('does not crash with no pending payments', () => {
       const log = makeTransferLog('0xAnyone', 1_000_000n)
       expect(() => onLogs([log])).not.toThrow()
     })
 
     it('matches receiver case-insensitively', async () => {
-      addPendingPayment(makePending({ receiverWallet: '0xAbCdEf' }))
+      await addPendingPayment(makePending({ receiverWallet: '0xAbCdEf' }))
 
       const log = makeTransferLog('0xabcdef', 1_500_000n)
       onLogs([log])
@@ -298,7 +438,7 @@ describe('paymentWatcher', () => {
 
     it('replay: does NOT settle when tx_hash already has settlementVerified (replay protection)', async () => {
       vi.mocked(db.hasSettlementForTxHash).mockResolvedValueOnce(true)
-      addPendingPayment(makePending())
+      await addPendingPayment(makePending())
 
       const log = makeTransferLog('0xReceiver', 1_500_000n, '0xtx-replay')
       onLogs([log])
@@ -316,7 +456,7 @@ describe('paymentWatcher', () => {
 
     it('does NOT settle when decision was already consumed', async () => {
       vi.mocked(db.consumeDecisionOnce).mockResolvedValueOnce(false)
-      addPendingPayment(makePending({ decisionId: 'dec-consumed' }))
+      await addPendingPayment(makePending({ decisionId: 'dec-consumed' }))
 
       const log = makeTransferLog('0xReceiver', 1_500_000n, '0xtx-consumed')
       onLogs([log])
@@ -334,13 +474,213 @@ describe('paymentWatcher', () => {
       )
     })
 
-    it('skips log with no args', () => {
-      addPendingPayment(makePending())
+    it('skips log with no args', async () => {
+      await addPendingPayment(makePending())
       // Log without args field
       expect(() => onLogs([{ transactionHash: '0x123' }])).not.toThrow()
     })
   })
 
+  // ---- Lot amount stance ----
+
+  describe('lot amount stance', () => {
+    let onLogs: (logs: any[]) => void
+
+    beforeEach(() => {
+      const watchContractEvent = vi.fn()
+      startPaymentWatcher(mockClient(watchContractEvent), 'base-sepolia')
+      onLogs = watchContractEvent.mock.calls[0][0].onLogs
+    })
+
+    afterEach(() => {
+      vi.mocked(db.getLot).mockResolvedValue(null)
+    })
+
+    it('records an over-payment as driver credit', async () => {
+      vi.mocked(db.getLot).mockResolvedValue({ amountTolerance: { stance: 'tolerant' } } as any)
+      await addPendingPayment(makePending())
+
+      onLogs([makeTransferLog('0xReceiver', 2_000_000n, '0xtx-over')])
+
+      await vi.waitFor(() => {
+        expect(db.settleSessionAfterVerified).toHaveBeenCalledOnce()
+      })
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'SETTLEMENT_VERIFIED',
+          payload: expect.objectContaining({
+            amountCheck: expect.objectContaining({ delta: '500000', outcome: 'overpaid' }),
+          }),
+        }),
+      )
+      expect(db.createDriverCredit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: 'sess-1',
+          plateNumber: 'ABC123',
+          amount: 500_000n,
+          driverWallet: '0xSender',
+          txHash: '0xtx-over',
+        }),
+      )
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'CREDIT_RECORDED',
+          payload: expect.objectContaining({ creditId: 'credit-1', amount: '500000' }),
+        }),
+      )
+    })
+
+    it('requires the exact amount on a strictExact lot', async () => {
+      vi.mocked(db.getLot).mockResolvedValue({ amountTolerance: { stance: 'strictExact' } } as any)
+      await addPendingPayment(makePending({ expectedAmount: '10.000000' }))
+
+      onLogs([makeTransferLog('0xReceiver', 9_950_000n, '0xtx-short')])
+
+      await new Promise((r) => setTimeout(r, 50))
+      expect(db.claimEvmPendingPayment).not.toHaveBeenCalled()
+    })
+
+    it('settles once partial transfers add up to the quote', async () => {
+      vi.mocked(db.getLot).mockResolvedValue({
+        amountTolerance: { stance: 'tolerant', allowPartial: true },
+      } as any)
+      await addPendingPayment(makePending())
+
+      onLogs([makeTransferLog('0xReceiver', 1_000_000n, '0xtx-part-1')])
+      await vi.waitFor(() => {
+        expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            eventType: 'SETTLEMENT_PARTIAL',
+            txHash: '0xtx-part-1',
+            payload: expect.objectContaining({
+              amountCheck: expect.objectContaining({ received: '1000000', awaitingMore: true }),
+            }),
+          }),
+        )
+      })
+      expect(db.settleSessionAfterVerified).not.toHaveBeenCalled()
+
+      // Replayed by a backfill: counted once
+      onLogs([makeTransferLog('0xReceiver', 1_000_000n, '0xtx-part-1', { logIndex: 1 })])
+      onLogs([makeTransferLog('0xReceiver', 500_000n, '0xtx-part-2')])
+
+      await vi.waitFor(() => {
+        expect(db.settleSessionAfterVerified).toHaveBeenCalledOnce()
+      })
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'SETTLEMENT_VERIFIED',
+          txHash: '0xtx-part-2',
+          payload: expect.objectContaining({
+            amount: '1500000',
+            amountCheck: expect.objectContaining({ payments: 2, outcome: 'exact' }),
+          }),
+        }),
+      )
+      expect(db.createDriverCredit).not.toHaveBeenCalled()
+    })
+
+    it('does not count a short transfer that could be for several payments', async () => {
+      vi.mocked(db.getLot).mockResolvedValue({
+        amountTolerance: { stance: 'tolerant', allowPartial: true },
+      } as any)
+      await addPendingPayment(makePending({ sessionId: 'sess-1' }))
+      await addPendingPayment(makePending({ sessionId: 'sess-2', plate: 'XYZ789' }))
+
+      onLogs([makeTransferLog('0xReceiver', 1_000_000n, '0xtx-ambiguous')])
+
+      await new Promise((r) => setTimeout(r, 50))
+      expect(db.addSettlementPartialPayment).not.toHaveBeenCalled()
+    })
+  })
+
+  // ---- Per-lot assets (one quote per chain + token) ----
+
+  describe('multi-asset quotes', () => {
+    let onUsdcLogs: (logs: any[]) => void
+    let onEurcLogs: (logs: any[]) => void
+
+    const quotes = [
+      {
+        quoteId: 'q-usdc',
+        asset: { kind: 'ERC20' as const, chainId: 84532, token: USDC },
+        amount: '1500000',
+        decimals: 6,
+      },
+      {
+        quoteId: 'q-eurc',
+        asset: { kind: 'ERC20' as const, chainId: 84532, token: EURC },
+        amount: '1380000',
+        decimals: 6,
+      },
+    ]
+
+    beforeEach(() => {
+      const watchContractEvent = vi.fn()
+      startPaymentWatcher(mockClient(watchContractEvent), 'base-sepolia')
+      const onLogsFor = (address: string) =>
+        watchContractEvent.mock.calls.find(([params]) => params.address === address)![0].onLogs
+      onUsdcLogs = onLogsFor(USDC)
+      onEurcLogs = onLogsFor(EURC)
+    })
+
+    it('settles a transfer of any quoted asset against that asset quote', async () => {
+      vi.mocked(db.getDecisionPayloadByDecisionId).mockResolvedValueOnce({
+        action: 'ALLOW',
+        decisionId: 'dec-1',
+        policyHash: 'ph-1',
+        expiresAtISO: new Date(Date.now() + 60_000).toISOString(),
+        rail: 'evm',
+        asset: quotes[0].asset,
+        reasons: ['OK'],
+        settlementQuotes: quotes.map((q) => ({
+          quoteId: q.quoteId,
+          rail: 'evm',
+          asset: q.asset,
+          amount: { amount: q.amount, decimals: q.decimals },
+          destination: '0xReceiver',
+          expiresAt: new Date(Date.now() + 60_000).toISOString(),
+        })),
+      })
+      await addPendingPayment(makePending({ quotes }))
+
+      onEurcLogs([makeTransferLog('0xReceiver', 1_380_000n, '0xtx-eurc', { address: EURC })])
+
+      await vi.waitFor(() => {
+        expect(db.settleSessionAfterVerified).toHaveBeenCalledOnce()
+      })
+      expect(db.claimEvmPendingPayment).toHaveBeenCalledWith(
+        expect.stringMatching(/^pay-/),
+        expect.objectContaining({ chainId: 84532, token: EURC, amount: '1380000' }),
+      )
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'SETTLEMENT_VERIFIED',
+          payload: expect.objectContaining({ asset: 'EURC', chainId: 84532 }),
+        }),
+      )
+    })
+
+    it('does NOT match a quoted amount sent in another token', async () => {
+      await addPendingPayment(makePending({ quotes: [quotes[1]] }))
+
+      // EURC quote amount, but paid in USDC
+      onUsdcLogs([makeTransferLog('0xReceiver', 1_380_000n, '0xtx-wrong-token')])
+
+      await new Promise((r) => setTimeout(r, 50))
+      expect(db.claimEvmPendingPayment).not.toHaveBeenCalled()
+    })
+
+    it('matches payments registered without quotes in USDC only', async () => {
+      await addPendingPayment(makePending())
+
+      onEurcLogs([makeTransferLog('0xReceiver', 1_500_000n, '0xtx-legacy', { address: EURC })])
+
+      await new Promise((r) => setTimeout(r, 50))
+      expect(db.claimEvmPendingPayment).not.toHaveBeenCalled()
+    })
+  })
+
   // ---- Hedera NFT burn ----
 
   describe('settlement with Hedera', () => {
@@ -348,8 +688,8 @@ describe('paymentWatcher', () => {
 
     beforeEach(() => {
       const watchContractEvent = vi.fn()
-      const mockClient = { watchContractEvent } as any
-      startPaymentWatcher(mockClient, 'base-sepolia')
+      const client = mockClient(watchContractEvent)
+      startPaymentWatcher(client, 'base-sepolia')
       onLogs = watchContractEvent.mock.calls[0][0].onLogs
     })
 
@@ -357,7 +697,7 @@ describe('paymentWatcher', () => {
       vi.mocked(isHederaEnabled).mockReturnValue(true)
       vi.mocked(endParkingSessionOnHedera).mockResolvedValue(undefined as any)
 
-      addPendingPayment(makePending({ tokenId: 42 }))
+      await addPendingPayment(makePending({ tokenId: 42 }))
 
       onLogs([makeTransferLog('0xReceiver', 1_500_000n)])
 
@@ -369,7 +709,7 @@ describe('paymentWatcher', () => {
     it('skips NFT burn when Hedera is disabled', async () => {
       vi.mocked(isHederaEnabled).mockReturnValue(false)
 
-      addPendingPayment(makePending({ tokenId: 42 }))
+      await addPendingPayment(makePending({ tokenId: 42 }))
 
       onLogs([makeTransferLog('0xReceiver', 1_500_000n)])
 
@@ -382,7 +722,7 @@ describe('paymentWatcher', () => {
     it('skips NFT burn when tokenId is not set', async () => {
       vi.mocked(isHederaEnabled).mockReturnValue(true)
 
-      addPendingPayment(makePending({ tokenId: undefined }))
+      await addPendingPayment(makePending({ tokenId: undefined }))
 
       onLogs([makeTransferLog('0xReceiver', 1_500_000n)])
 
@@ -396,12 +736,12 @@ describe('paymentWatcher', () => {
   // ---- Pruning ----
 
   describe('stale payment pruning', () => {
-    it('removes payments older than 30 minutes', () => {
+    it('removes payments older than 30 minutes', async () => {
       vi.useFakeTimers()
 
       const watchContractEvent = vi.fn()
-      const mockClient = { watchContractEvent } as any
-      startPaymentWatcher(mockClient, 'base-sepolia')
+      const client = mockClient(watchContractEvent)
+      startPaymentWatcher(client, 'base-sepolia')
       const onLogs = watchContractEvent.mock.calls[0][0].onLogs
 
       // Add a pending payment with a creation time 31 minutes in the past
@@ -409,10 +749,11 @@ describe('paymentWatcher', () => {
         sessionId: 'sess-stale',
         createdAt: Date.now() - 31 * 60_000,
       })
-      addPendingPayment(stalePayment)
+      await addPendingPayment(stalePayment)
 
       // Advance past the prune interval (5 minutes)
       vi.advanceTimersByTime(5 * 60_000 + 100)
+      expect(db.expireEvmPendingPayments).toHaveBeenCalled()
 
       // The stale payment should have been pruned — a matching transfer should not settle
       onLogs([makeTransferLog('0xReceiver', 1_500_000n)])
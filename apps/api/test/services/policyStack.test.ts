@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+import { buildPolicyStack, getPlatformPolicy } from '../../src/services/policyStack'
+import type { PolicyLayerRecord } from '../../src/db/queries'
+
+const originalPlatformPolicy = process.env.PLATFORM_POLICY_JSON
+
+function layer(policy: unknown): PolicyLayerRecord {
+  return {
+    layer: 'lot',
+    subject: 'LOT-1',
+    policy: policy as PolicyLayerRecord['policy'],
+    createdAt: new Date('2025-03-05T10:00:00Z'),
+    updatedAt: new Date('2025-03-05T10:00:00Z'),
+  }
+}
+
+describe('policyStack', () => {
+  afterEach(() => {
+    if (originalPlatformPolicy === undefined) delete process.env.PLATFORM_POLICY_JSON
+    else process.env.PLATFORM_POLICY_JSON = originalPlatformPolicy
+  })
+
+  it('upgrades a v1 platform policy from env', () => {
+    process.env.PLATFORM_POLICY_JSON = JSON.stringify({ version: 1, vendorAllowlist: ['0xOP'] })
+    expect(getPlatformPolicy()).toEqual({ version: 2, operatorAllowlist: ['0xOP'] })
+  })
+
+  it('throws on an invalid platform policy instead of falling back to allow-all', () => {
+    process.env.PLATFORM_POLICY_JSON = '{ version: 1 '
+    expect(() => getPlatformPolicy()).toThrow(/not valid JSON/)
+
+    process.env.PLATFORM_POLICY_JSON = JSON.stringify({ version: 1, capPerTxMinor: 100 })
+    expect(() => getPlatformPolicy()).toThrow(/PLATFORM_POLICY_JSON is invalid: .*capPerTxMinor/)
+  })
+
+  it('upgrades stored layers and rejects ones that no longer validate', async () => {
+    delete process.env.PLATFORM_POLICY_JSON
+    const { stack } = await buildPolicyStack(
+      'LOT-1',
+      undefined,
+      vi.fn(async () => [layer({ version: 1, vendorAllowlist: ['0xOP'] })]),
+    )
+    expect(stack.lot).toEqual({ version: 2, operatorAllowlist: ['0xOP'] })
+
+    await expect(
+      buildPolicyStack(
+        'LOT-1',
+        undefined,
+        vi.fn(async () => [layer({ version: 9 })]),
+      ),
+    ).rejects.toThrow(/Stored lot policy for LOT-1 is invalid/)
+  })
+})
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest'
+import Stripe from 'stripe'
+
+import {
+  RefundRejectedError,
+  createEvmRefundExecutor,
+  createStripeRefundExecutor,
+  createXrplRefundExecutor,
+  type EvmRefundClient,
+  type StripeRefundClient,
+  type XrplRefundClient,
+} from '../../src/services/refundExecutors'
+import type { RefundRecord } from '../../src/db/queries'
+
+function approvedRefund(overrides: Partial<RefundRecord>): RefundRecord {
+  return {
+    id: 'ref-1',
+    sessionId: 'sess-1',
+    settlementTxHash: '0xsettle',
+    rail: 'evm',
+    amount: '5000000',
+    settledAmount: '5000000',
+    status: 'approved',
+    idempotencyKey: 'k',
+    requestedBy: { id: 'op-1' },
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('refund executors', () => {
+  describe('stripe', () => {
+    function stripeStandIn(status: string, failureReason?: string): StripeRefundClient {
+      return {
+        refundCheckoutPayment: vi.fn(async () => ({ refundId: 're_1', status, failureReason })),
+        getStripeRefund: vi.fn(async () => ({ refundId: 're_1', status: 'succeeded' })),
+      }
+    }
+
+    it('refunds the checkout payment with an idempotency key per refund', async () => {
+      const client = stripeStandIn('succeeded')
+      const executor = createStripeRefundExecutor(client)
+
+      const result = await executor.execute(
+        approvedRefund({ rail: 'stripe', settlementTxHash: 'cs_test_1', amount: '1600' }),
+      )
+
+      expect(result).toEqual({ reference: 're_1', status: 'confirmed' })
+      expect(client.refundCheckoutPayment).toHaveBeenCalledWith('cs_test_1', 1600, 'refund:ref-1', {
+        refundId: 'ref-1',
+        sessionId: 'sess-1',
+      })
+    })
+
+    it('maps pending and failed Stripe refunds', async () => {
+      const refund = approvedRefund({ rail: 'stripe' })
+
+      expect(await createStripeRefundExecutor(stripeStandIn('pending')).execute(refund)).toEqual({
+        reference: 're_1',
+        status: 'pending',
+      })
+      expect(
+        await createStripeRefundExecutor(
+          stripeStandIn('failed', 'expired_or_canceled_card'),
+        ).execute(refund),
+      ).toEqual({ reference: 're_1', status: 'failed', failureReason: 'expired_or_canceled_card' })
+
+      const client = stripeStandIn('pending')
+      expect(
+        await createStripeRefundExecutor(client).confirm({ ...refund, railReference: 're_1' }),
+      ).toMatchObject({ status: 'confirmed' })
+      expect(client.getStripeRefund).toHaveBeenCalledWith('re_1')
+    })
+
+    it('rejects only when Stripe turned the refund down', async () => {
+      const refund = approvedRefund({ rail: 'stripe' })
+      const failing = (error: Error) =>
+        createStripeRefundExecutor({
+          refundCheckoutPayment: vi.fn(async () => Promise.reject(error)),
+          getStripeRefund: vi.fn(),
+        }).execute(refund)
+
+      await expect(
+        failing(
+          new Stripe.errors.StripeInvalidRequestError({
+            type: 'invalid_request_error',
+            message: 'Charge has already been refunded',
+            statusCode: 400,
+          }),
+        ),
+      ).rejects.toBeInstanceOf(RefundRejectedError)
+
+      const lost = failing(
+        new Stripe.errors.StripeConnectionError({ type: 'api_error', message: 'socket hang up' }),
+      )
+      await expect(lost).rejects.toThrow('socket hang up')
+      await expect(lost).rejects.not.toBeInstanceOf(RefundRejectedError)
+    })
+  })
+
+  describe('evm', () => {
+    const payer = '0x00000000000000000000000000000000000000aa'
+    const amoyUsdc = '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582'
+
+    function evmStandIn(outcome: 'success' | 'reverted' | 'pending'): EvmRefundClient {
+      return {
+        sendTokenTransfer: vi.fn(async () => '0xrefund' as const),
+        getTransactionOutcome: vi.fn(async () => outcome),
+      }
+    }
+
+    it('sends the settled token back to the payer on its chain and confirms there', async () => {
+      const client = evmStandIn('success')
+      const executor = createEvmRefundExecutor(client)
+      const refund = approvedRefund({ destination: payer, chainId: 80002, tokenAddress: amoyUsdc })
+
+      expect(await executor.execute(refund)).toEqual({ reference: '0xrefund', status: 'pending' })
+      expect(client.sendTokenTransfer).toHaveBeenCalledWith(80002, amoyUsdc, payer, 5000000n)
+
+      expect(await executor.confirm({ ...refund, railReference: '0xrefund' })).toEqual({
+        reference: '0xrefund',
+        status: 'confirmed',
+      })
+      expect(client.getTransactionOutcome).toHaveBeenCalledWith(80002, '0xrefund')
+    })
+
+    it('fails a reverted transfer and refuses a refund without a payer, chain or token', async () => {
+      const client = evmStandIn('reverted')
+      const executor = createEvmRefundExecutor(client)
+      const onAmoy = { chainId: 80002, tokenAddress: amoyUsdc }
+
+      expect(
+        await executor.confirm(
+          approvedRefund({ ...onAmoy, destination: payer, railReference: '0xrefund' }),
+        ),
+      ).toMatchObject({ status: 'failed', failureReason: 'transfer reverted' })
+      await expect(
+        executor.execute(approvedRefund({ ...onAmoy, destination: 'rPayer' })),
+      ).rejects.toThrow(/payer address/)
+      await expect(
+        executor.execute(approvedRefund({ destination: payer, tokenAddress: amoyUsdc })),
+      ).rejects.toThrow(/EVM chain/)
+      await expect(
+        executor.execute(approvedRefund({ destination: payer, chainId: 80002 })),
+      ).rejects.toThrow(/token address/)
+      expect(client.sendTokenTransfer).not.toHaveBeenCalled()
+    })
+
+    it('rejects a transfer that was not broadcast', async () => {
+      const executor = createEvmRefundExecutor({
+        sendTokenTransfer: vi.fn(async () => Promise.reject(new Error('insufficient funds'))),
+        getTransactionOutcome: vi.fn(),
+      })
+
+      await expect(
+        executor.execute(
+          approvedRefund({ destination: payer, chainId: 80002, tokenAddress: amoyUsdc }),
+        ),
+      ).rejects.toBeInstanceOf(RefundRejectedError)
+    })
+  })
+
+  describe('xrpl', () => {
+    function xrplStandIn(result: string, validated = true): XrplRefundClient {
+      return {
+        sendPayment: vi.fn(async () => ({ txHash: 'A'.repeat(64), validated, result })),
+        getPaymentResult: vi.fn(async () => null),
+      }
+    }
+
+    it('pays XRP back to the source account in drops', async () => {
+      const client = xrplStandIn('tesSUCCESS')
+      const executor = createXrplRefundExecutor(client)
+
+      const result = await executor.execute(
+        approvedRefund({ rail: 'xrpl', asset: 'XRP', destination: 'rPayer', amount: '2500000' }),
+      )
+
+      expect(result).toEqual({ reference: 'A'.repeat(64), status: 'confirmed' })
+      expect(client.sendPayment).toHaveBeenCalledWith({
+        destination: 'rPayer',
+        amount: 2500000n,
+        assetCode: 'XRP',
+        reference: { refundId: 'ref-1', settlementTxHash: '0xsettle' },
+      })
+    })
+
+    it('pays issued currencies with the configured issuer and reports engine failures', async () => {
+      const client = xrplStandIn('tecPATH_DRY')
+      const executor = createXrplRefundExecutor(client, 'rIssuer')
+
+      const result = await executor.execute(
+        approvedRefund({ rail: 'xrpl', asset: 'RLUSD', destination: 'rPayer' }),
+      )
+
+      expect(result).toEqual({
+        reference: 'A'.repeat(64),
+        status: 'failed',
+        failureReason: 'tecPATH_DRY',
+      })
+      expect(client.sendPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ assetCode: 'RLUSD', assetIssuer: 'rIssuer' }),
+      )
+    })
+
+    it('keeps a refund pending until the payment is found in a validated ledger', async () => {
+      const executor = createXrplRefundExecutor(xrplStandIn('tesSUCCESS', false))
+      const refund = approvedRefund({ rail: 'xrpl', destination: 'rPayer' })
+
+      expect(await executor.execute(refund)).toMatchObject({ status: 'pending' })
+      expect(await executor.confirm({ ...refund, railReference: 'A'.repeat(64) })).toEqual({
+        reference: 'A'.repeat(64),
+        status: 'pending',
+      })
+    })
+
+    it('keeps a submitted payment whose wait failed pending and rejects one that cannot apply', async () => {
+      const refund = approvedRefund({ rail: 'xrpl', destination: 'rPayer' })
+
+      // The sender reports a Payment lost after submission unvalidated with its signed hash
+      expect(await createXrplRefundExecutor(xrplStandIn('unknown', false)).execute(refund)).toEqual(
+        { reference: 'A'.repeat(64), status: 'pending' },
+      )
+
+      const rejected = createXrplRefundExecutor({
+        sendPayment: vi.fn(async () => Promise.reject(new Error('temBAD_AMOUNT'))),
+        getPaymentResult: vi.fn(),
+      })
+      await expect(rejected.execute(refund)).rejects.toBeInstanceOf(RefundRejectedError)
+    })
+  })
+})
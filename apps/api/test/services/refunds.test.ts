@@ -0,0 +1,406 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../src/db', () => ({
+  db: {
+    getRefundableSettlement: vi.fn(),
+    createRefund: vi.fn(),
+    getRefund: vi.fn(),
+    approveRefund: vi.fn(),
+    markRefundExecuted: vi.fn(),
+    markRefundConfirmed: vi.fn(),
+    markRefundFailed: vi.fn(),
+    insertPolicyEvent: vi.fn(),
+  },
+}))
+
+import { LIFECYCLE_EVENT } from '@parker/core'
+
+import {
+  RefundError,
+  approveRefund,
+  confirmRefund,
+  requestRefund,
+} from '../../src/services/refunds'
+import {
+  RefundRejectedError,
+  type RefundExecutor,
+  type RefundExecutors,
+} from '../../src/services/refundExecutors'
+import { db } from '../../src/db'
+import type { RefundRecord, RefundableSettlement } from '../../src/db/queries'
+
+const operator = { id: 'op-1' }
+const approver = { id: 'op-2' }
+const payer = '0x00000000000000000000000000000000000000aa'
+const amoyUsdc = '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582'
+
+const settlement: RefundableSettlement = {
+  sessionId: 'sess-1',
+  txHash: '0xsettle',
+  rail: 'evm',
+  amount: '5000000',
+  asset: 'USDC',
+  chainId: 80002,
+  tokenAddress: amoyUsdc,
+  payer,
+  decisionId: 'dec-1',
+  eventType: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+}
+
+const refund: RefundRecord = {
+  id: 'ref-1',
+  sessionId: 'sess-1',
+  decisionId: 'dec-1',
+  settlementTxHash: '0xsettle',
+  rail: 'evm',
+  asset: 'USDC',
+  chainId: 80002,
+  tokenAddress: amoyUsdc,
+  destination: payer,
+  amount: '5000000',
+  settledAmount: '5000000',
+  status: 'requested',
+  idempotencyKey: '0xsettle:5000000',
+  requestedBy: operator,
+  createdAt: new Date('2026-01-01T10:00:00Z'),
+}
+
+function standIn(overrides: Partial<RefundExecutor> = {}): RefundExecutor {
+  return {
+    execute: vi.fn(async () => ({ reference: '0xrefund', status: 'pending' as const })),
+    confirm: vi.fn(async () => ({ reference: '0xrefund', status: 'confirmed' as const })),
+    ...overrides,
+  }
+}
+
+function recordedEvents() {
+  return vi.mocked(db.insertPolicyEvent).mock.calls.map(([input]) => input.eventType)
+}
+
+describe('refunds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.getRefundableSettlement).mockResolvedValue(settlement)
+    vi.mocked(db.createRefund).mockResolvedValue({ status: 'created', refund })
+    vi.mocked(db.getRefund).mockResolvedValue(refund)
+    vi.mocked(db.approveRefund).mockImplementation(async (_id, approvedBy) => ({
+      ...refund,
+      status: 'approved',
+      approvedBy,
+    }))
+    vi.mocked(db.markRefundExecuted).mockImplementation(async (_id, railReference) => ({
+      ...refund,
+      status: 'executed',
+      railReference,
+    }))
+    vi.mocked(db.markRefundConfirmed).mockResolvedValue({
+      ...refund,
+      status: 'confirmed',
+      railReference: '0xrefund',
+    })
+    vi.mocked(db.markRefundFailed).mockImplementation(async (_id, failureReason) => ({
+      ...refund,
+      status: 'failed',
+      failureReason,
+    }))
+    vi.mocked(db.insertPolicyEvent).mockResolvedValue(undefined)
+  })
+
+  describe('requestRefund', () => {
+    it('refunds the latest settlement in full to the payer and records REFUND_REQUESTED', async () => {
+      const result = await requestRefund({ sessionId: 'sess-1', note: 'Double charge', operator })
+
+      expect(result).toEqual({ refund, created: true })
+      expect(db.createRefund).toHaveBeenCalledWith({
+        sessionId: 'sess-1',
+        reviewId: undefined,
+        decisionId: 'dec-1',
+        settlementTxHash: '0xsettle',
+        rail: 'evm',
+        asset: 'USDC',
+        chainId: 80002,
+        tokenAddress: amoyUsdc,
+        destination: payer,
+        amount: 5000000n,
+        settledAmount: 5000000n,
+        idempotencyKey: '0xsettle:5000000',
+        note: 'Double charge',
+        requestedBy: operator,
+      })
+      expect(db.insertPolicyEvent).toHaveBeenCalledWith({
+        eventType: LIFECYCLE_EVENT.REFUND_REQUESTED,
+        payload: expect.objectContaining({
+          refundId: 'ref-1',
+          rail: 'evm',
+          amount: '5000000',
+          settledAmount: '5000000',
+          source: LIFECYCLE_EVENT.SETTLEMENT_VERIFIED,
+        }),
+        sessionId: 'sess-1',
+        decisionId: 'dec-1',
+        txHash: '0xsettle',
+      })
+    })
+
+    it('returns the live refund for a repeated idempotency key without a second event', async () => {
+      vi.mocked(db.createRefund).mockResolvedValue({ status: 'existing', refund })
+
+      const result = await requestRefund({
+        sessionId: 'sess-1',
+        note: 'retry',
+        operator,
+        idempotencyKey: '0xsettle:5000000',
+      })
+
+      expect(result.created).toBe(false)
+      expect(db.insertPolicyEvent).not.toHaveBeenCalled()
+    })
+
+    it('rejects an idempotency key already used for a different refund', async () => {
+      vi.mocked(db.createRefund).mockResolvedValue({ status: 'existing', refund })
+
+      await expect(
+        requestRefund({
+          sessionId: 'sess-1',
+          amount: 100n,
+          note: 'x',
+          operator,
+          idempotencyKey: 'k',
+        }),
+      ).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' })
+    })
+
+    it('rejects refunds beyond the settled amount', async () => {
+      vi.mocked(db.createRefund).mockResolvedValue({
+        status: 'cap_exceeded',
+        refundedAmount: '4000000',
+      })
+
+      await expect(
+        requestRefund({
+          sessionId: 'sess-1',
+          amount: 2000000n,
+          note: 'x',
+          operator,
+          idempotencyKey: 'k',
+        }),
+      ).rejects.toMatchObject({ code: 'CAP_EXCEEDED' })
+      expect(db.insertPolicyEvent).not.toHaveBeenCalled()
+    })
+
+    it('needs an idempotency key for a partial refund', async () => {
+      await expect(
+        requestRefund({ sessionId: 'sess-1', amount: 2000000n, note: 'x', operator }),
+      ).rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_REQUIRED' })
+      expect(db.createRefund).not.toHaveBeenCalled()
+    })
+
+    it('needs a settlement with a known payer on chain rails', async () => {
+      vi.mocked(db.getRefundableSettlement).mockResolvedValueOnce(null)
+      await expect(
+        requestRefund({ sessionId: 'sess-1', note: 'x', operator }),
+      ).rejects.toMatchObject({ code: 'SETTLEMENT_NOT_FOUND' })
+
+      vi.mocked(db.getRefundableSettlement).mockResolvedValueOnce({
+        ...settlement,
+        payer: undefined,
+      })
+      await expect(
+        requestRefund({ sessionId: 'sess-1', note: 'x', operator }),
+      ).rejects.toMatchObject({ code: 'PAYER_UNKNOWN' })
+      expect(db.createRefund).not.toHaveBeenCalled()
+    })
+
+    it('refunds EVM settlements on their chain, resolving older ones by token symbol', async () => {
+      vi.mocked(db.getRefundableSettlement).mockResolvedValueOnce({
+        ...settlement,
+        tokenAddress: undefined,
+      })
+      await requestRefund({ sessionId: 'sess-1', note: 'x', operator })
+      expect(db.createRefund).toHaveBeenLastCalledWith(
+        expect.objectContaining({ chainId: 80002, tokenAddress: amoyUsdc }),
+      )
+
+      vi.mocked(db.getRefundableSettlement).mockResolvedValueOnce({
+        ...settlement,
+        asset: 'DOGE',
+        tokenAddress: undefined,
+      })
+      await expect(
+        requestRefund({ sessionId: 'sess-1', note: 'x', operator }),
+      ).rejects.toMatchObject({ code: 'TOKEN_UNKNOWN' })
+    })
+
+    it('refunds Stripe payments without a destination', async () => {
+      vi.mocked(db.getRefundableSettlement).mockResolvedValue({
+        ...settlement,
+        rail: 'stripe',
+        txHash: 'cs_test_1',
+        amount: '1600',
+        payer: undefined,
+      })
+
+      await requestRefund({
+        sessionId: 'sess-1',
+        amount: 600n,
+        note: 'Partial',
+        operator,
+        idempotencyKey: 'partial-1',
+      })
+
+      expect(db.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rail: 'stripe',
+          destination: undefined,
+          amount: 600n,
+          settledAmount: 1600n,
+        }),
+      )
+    })
+  })
+
+  describe('approveRefund', () => {
+    it('approves, sends and confirms a refund the rail settles at once', async () => {
+      const executors: RefundExecutors = {
+        evm: standIn({
+          execute: vi.fn(async () => ({ reference: '0xrefund', status: 'confirmed' as const })),
+        }),
+      }
+
+      const result = await approveRefund('ref-1', { operator: approver }, executors)
+
+      expect(result.status).toBe('confirmed')
+      expect(executors.evm!.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'ref-1', status: 'approved' }),
+      )
+      expect(db.markRefundExecuted).toHaveBeenCalledWith('ref-1', '0xrefund')
+      expect(recordedEvents()).toEqual([
+        LIFECYCLE_EVENT.REFUND_APPROVED,
+        LIFECYCLE_EVENT.REFUND_EXECUTED,
+        LIFECYCLE_EVENT.REFUND_CONFIRMED,
+      ])
+    })
+
+    it('leaves a refund executed until the rail confirms it', async () => {
+      const executors = { evm: standIn() }
+
+      const executed = await approveRefund('ref-1', { operator: approver }, executors)
+      expect(executed.status).toBe('executed')
+      expect(db.markRefundConfirmed).not.toHaveBeenCalled()
+
+      vi.mocked(db.getRefund).mockResolvedValue(executed)
+      const confirmed = await confirmRefund('ref-1', executors)
+      expect(confirmed.status).toBe('confirmed')
+      expect(executors.evm.confirm).toHaveBeenCalledWith(executed)
+    })
+
+    it('marks the refund failed when the rail rejects it or nothing was sent', async () => {
+      const rejecting = {
+        evm: standIn({
+          execute: vi.fn(async () => ({
+            reference: '0xrefund',
+            status: 'failed' as const,
+            failureReason: 'insufficient funds',
+          })),
+        }),
+      }
+      const failed = await approveRefund('ref-1', { operator: approver }, rejecting)
+      expect(failed.status).toBe('failed')
+      expect(db.markRefundFailed).toHaveBeenCalledWith('ref-1', 'insufficient funds', '0xrefund')
+      expect(db.markRefundExecuted).not.toHaveBeenCalled()
+
+      vi.clearAllMocks()
+      const throwing = {
+        evm: standIn({
+          execute: vi.fn(async () => Promise.reject(new RefundRejectedError('nonce too low'))),
+        }),
+      }
+      await approveRefund('ref-1', { operator: approver }, throwing)
+      expect(db.markRefundFailed).toHaveBeenCalledWith('ref-1', 'nonce too low', undefined)
+      expect(recordedEvents()).toEqual([
+        LIFECYCLE_EVENT.REFUND_APPROVED,
+        LIFECYCLE_EVENT.REFUND_FAILED,
+      ])
+    })
+
+    it('keeps the amount reserved when the send throws after it may have reached the rail', async () => {
+      const executors = {
+        evm: standIn({ execute: vi.fn(async () => Promise.reject(new Error('socket hang up'))) }),
+      }
+
+      const error = await approveRefund('ref-1', { operator: approver }, executors).catch(
+        (e: unknown) => e,
+      )
+
+      expect(error).toBeInstanceOf(RefundError)
+      expect((error as RefundError).code).toBe('OUTCOME_UNKNOWN')
+      expect(db.markRefundFailed).not.toHaveBeenCalled()
+      expect(db.markRefundExecuted).not.toHaveBeenCalled()
+      expect(recordedEvents()).toEqual([LIFECYCLE_EVENT.REFUND_APPROVED])
+    })
+
+    it('records a submitted refund with an unknown outcome as executed and confirms it later', async () => {
+      const hash = 'A'.repeat(64)
+      const executors: RefundExecutors = {
+        xrpl: standIn({
+          // The XRPL sender timed out waiting after submitting: pending with the signed hash
+          execute: vi.fn(async () => ({ reference: hash, status: 'pending' as const })),
+          confirm: vi.fn(async () => ({ reference: hash, status: 'confirmed' as const })),
+        }),
+      }
+      vi.mocked(db.getRefund).mockResolvedValue({ ...refund, rail: 'xrpl' })
+
+      const executed = await approveRefund('ref-1', { operator: approver }, executors)
+      expect(executed).toMatchObject({ status: 'executed', railReference: hash })
+      expect(db.markRefundFailed).not.toHaveBeenCalled()
+
+      vi.mocked(db.getRefund).mockResolvedValue({ ...executed, rail: 'xrpl' })
+      expect((await confirmRefund('ref-1', executors)).status).toBe('confirmed')
+    })
+
+    it('sends nothing when the approval did not land', async () => {
+      vi.mocked(db.approveRefund).mockResolvedValue(null)
+      const executors = { evm: standIn() }
+
+      await expect(
+        approveRefund('ref-1', { operator: approver }, executors),
+      ).rejects.toBeInstanceOf(RefundError)
+      expect(executors.evm.execute).not.toHaveBeenCalled()
+    })
+
+    it('keeps the refund requested when its rail is not configured', async () => {
+      await expect(approveRefund('ref-1', { operator: approver }, {})).rejects.toMatchObject({
+        code: 'RAIL_UNSUPPORTED',
+      })
+      expect(db.approveRefund).not.toHaveBeenCalled()
+    })
+
+    it('does not let the requesting operator approve', async () => {
+      const executors = { evm: standIn() }
+
+      await expect(
+        approveRefund('ref-1', { operator: { id: 'OP-1' } }, executors),
+      ).rejects.toMatchObject({ code: 'SAME_OPERATOR' })
+
+      vi.mocked(db.getRefund).mockResolvedValue({
+        ...refund,
+        requestedBy: { id: 'op-1', wallet: payer },
+      })
+      await expect(
+        approveRefund('ref-1', { operator: { id: 'op-2', wallet: payer } }, executors),
+      ).rejects.toMatchObject({ code: 'SAME_OPERATOR' })
+      expect(db.approveRefund).not.toHaveBeenCalled()
+      expect(executors.evm.execute).not.toHaveBeenCalled()
+    })
+
+    it('only approves requested refunds', async () => {
+      vi.mocked(db.getRefund).mockResolvedValue({ ...refund, status: 'executed' })
+
+      await expect(
+        approveRefund('ref-1', { operator: approver }, { evm: standIn() }),
+      ).rejects.toMatchObject({
+        code: 'INVALID_STATE',
+      })
+    })
+  })
+})
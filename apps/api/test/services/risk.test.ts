@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest'
+
+import {
+  assessRisk,
+  scoreRisk,
+  validateRiskThresholds,
+  type RiskSignalSources,
+} from '../../src/services/risk'
+
+function sources(overrides: Partial<RiskSignalSources> = {}): RiskSignalSources {
+  return {
+    getOtherActiveSessionLots: vi.fn(async () => []),
+    getPlateRiskHistory: vi.fn(async () => ({ failedExits: 0, paymentFailures: 0 })),
+    getMedianFeeForLot: vi.fn(async () => null),
+    insertPolicyEvent: vi.fn(async () => undefined),
+    ...overrides,
+  }
+}
+
+describe('risk', () => {
+  it('scores zero without signals', () => {
+    expect(scoreRisk({})).toEqual({ score: 0, factors: [] })
+    expect(scoreRisk({ alprConfidence: 0.95, failedExits: 1, fee: 10, medianFee: 8 }).score).toBe(0)
+  })
+
+  it('sums factor points and caps the score at 100', () => {
+    const lowRead = scoreRisk({ alprConfidence: 0.6 })
+    expect(lowRead.factors).toEqual([
+      { code: 'LOW_ALPR_CONFIDENCE', points: 30, detail: { confidence: 0.6 } },
+    ])
+
+    const all = scoreRisk({
+      alprConfidence: 0.2,
+      otherActiveLots: ['LOT-2'],
+      failedExits: 5,
+      paymentFailures: 1,
+      fee: 60,
+      medianFee: 10,
+    })
+    expect(all.factors.map((f) => [f.code, f.points])).toEqual([
+      ['LOW_ALPR_CONFIDENCE', 40],
+      ['PLATE_ACTIVE_ELSEWHERE', 40],
+      ['REPEATED_FAILED_EXITS', 30],
+      ['PAYMENT_FAILURES', 10],
+      ['UNUSUAL_FEE', 30],
+    ])
+    expect(all.score).toBe(100)
+  })
+
+  it('emits a RISK_SIGNAL only when factors contribute', async () => {
+    const quiet = sources()
+    await assessRisk({ stage: 'entry', plate: 'ABC123', lotId: 'LOT-1' }, quiet)
+    expect(quiet.insertPolicyEvent).not.toHaveBeenCalled()
+    expect(quiet.getMedianFeeForLot).not.toHaveBeenCalled()
+
+    const flagged = sources({
+      getPlateRiskHistory: vi.fn(async () => ({ failedExits: 3, paymentFailures: 0 })),
+    })
+    const result = await assessRisk(
+      { stage: 'exit', plate: 'ABC123', lotId: 'LOT-1', sessionId: 's1', fee: 5 },
+      flagged,
+    )
+    expect(result.score).toBe(30)
+    expect(flagged.insertPolicyEvent).toHaveBeenCalledWith({
+      eventType: 'RISK_SIGNAL',
+      payload: expect.objectContaining({
+        signal: 'RISK_SCORE',
+        stage: 'exit',
+        score: 30,
+        thresholds: null,
+        plateNumber: 'ABC123',
+      }),
+      sessionId: 's1',
+    })
+  })
+
+  it('validates lot thresholds', () => {
+    expect(validateRiskThresholds({ requireApproval: 70 })).toBeNull()
+    expect(validateRiskThresholds({ requireApproval: 70, deny: 95 })).toBeNull()
+    expect(validateRiskThresholds([])).toMatch(/object/)
+    expect(validateRiskThresholds({ requireApproval: -1 })).toMatch(/requireApproval/)
+    expect(validateRiskThresholds({ requireApproval: 70, deny: 70 })).toMatch(/greater/)
+    expect(validateRiskThresholds({ requireApproval: 70, block: 90 })).toMatch(/block/)
+  })
+})
@@ -117,7 +117,7 @@ describe('sessionBudgetAuthorization service', () => {
     expect(verification).toEqual({ ok: false, reason: 'mismatch' })
   })
 
-  it('rejects unsupported non-session budget scopes in current implementation', () => {
+  it('rejects non-session budget scopes without ledger spend totals', () => {
     const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519')
     process.env.PARKER_SBA_SIGNING_PRIVATE_KEY_PEM = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
     process.env.PARKER_SBA_SIGNING_PUBLIC_KEY_PEM = publicKey.export({ type: 'spki', format: 'pem' }).toString()
@@ -153,4 +153,55 @@ describe('sessionBudgetAuthorization service', () => {
     })
     expect(verification).toEqual({ ok: false, reason: 'mismatch' })
   })
+
+  it('checks vehicle and fleet budgets against spend ledger totals', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519')
+    process.env.PARKER_SBA_SIGNING_PRIVATE_KEY_PEM = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+    process.env.PARKER_SBA_SIGNING_PUBLIC_KEY_PEM = publicKey.export({ type: 'spki', format: 'pem' }).toString()
+
+    const sessionId = '11111111-1111-4111-8111-111111111111'
+    const budget = (budgetScope: 'VEHICLE' | 'FLEET', scopeId?: string) =>
+      createSignedSessionBudgetAuthorization({
+        sessionId,
+        vehicleId: '1234567',
+        policyHash: 'ph-1',
+        currency: 'USD',
+        budgetScope,
+        scopeId,
+        maxAmountMinor: '5000',
+        allowedRails: ['stripe'],
+        allowedAssets: [],
+        destinationAllowlist: [],
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      })!
+    const decision = {
+      decisionId: 'dec-1',
+      policyHash: 'ph-1',
+      action: 'ALLOW',
+      reasons: ['OK'],
+      expiresAtISO: new Date(Date.now() + 60_000).toISOString(),
+      rail: 'stripe',
+      priceFiat: { amountMinor: '1000', currency: 'USD' },
+    } as unknown as PaymentPolicyDecision
+    const spend = {
+      sessionMinor: 0n,
+      vehicleDayMinor: 3500n,
+      ownerDayMinor: 3500n,
+      fleetDayMinor: 4500n,
+      fleetId: 'fleet-a',
+    }
+
+    const verify = (envelope: ReturnType<typeof budget>) =>
+      verifySignedSessionBudgetAuthorizationForDecision(envelope, { sessionId, decision, spend })
+    expect(verify(budget('VEHICLE'))).toEqual({ ok: true })
+    expect(verify(budget('FLEET', 'fleet-a'))).toEqual({ ok: false, reason: 'mismatch' })
+    expect(
+      verifySignedSessionBudgetAuthorizationForDecision(budget('FLEET', 'fleet-a'), {
+        sessionId,
+        decision,
+        spend: { ...spend, fleetDayMinor: 4000n },
+      }),
+    ).toEqual({ ok: true })
+    expect(verify(budget('FLEET', 'fleet-b'))).toEqual({ ok: false, reason: 'mismatch' })
+  })
 })
@@ -0,0 +1,456 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { WebSocketServer, type WebSocket } from 'ws'
+import type { AddressInfo } from 'net'
+
+import ledger from './fixtures/xrpl-ledger.json'
+
+const ISSUER = 'rMxCKbEDwqr76QuheSUMdEGf4B9xJ8m5De'
+const RLUSD = { kind: 'IOU', currency: 'RLUSD', issuer: ISSUER }
+
+// In-memory stand-in for xrpl_payment_intents, xrpl_ledger_cursors and
+// settlement_partial_payments
+const store = vi.hoisted(() => {
+  const intents: any[] = []
+  const cursors = new Map<string, number>()
+  const partials: any[] = []
+  return {
+    intents,
+    cursors,
+    partials,
+    getByTag: async (destination: string, tag: number) =>
+      intents.find(
+        (i) => i.status === 'pending' && i.destination === destination && i.destinationTag === tag,
+      ) ?? null,
+    getByTxHash: async (txHash: string) => intents.find((i) => i.txHash === txHash) ?? null,
+    claim: async (paymentId: string, txHash: string) => {
+      const intent = intents.find((i) => i.paymentId === paymentId)
+      if (!intent || intent.status !== 'pending' || intent.txHash) return null
+      if (intents.some((i) => i.txHash === txHash)) return null
+      intent.txHash = txHash
+      return { ...intent }
+    },
+    resolve: async ({ paymentId }: { paymentId: string }) => {
+      const intent = intents.find((i) => i.paymentId === paymentId)
+      if (intent?.status !== 'pending') return false
+      intent.status = 'resolved'
+      return true
+    },
+    cancel: async (paymentId: string) => {
+      const intent = intents.find((i) => i.paymentId === paymentId)
+      if (intent?.status !== 'pending') return false
+      intent.status = 'cancelled'
+      return true
+    },
+    getCursor: async (account: string) => cursors.get(account) ?? null,
+    advanceCursor: async (account: string, ledgerIndex: number) => {
+      cursors.set(account, Math.max(cursors.get(account) ?? 0, ledgerIndex))
+    },
+    addPartial: async (input: any) => {
+      if (partials.some((p) => p.txHash === input.txHash)) return false
+      partials.push(input)
+      return true
+    },
+    listPartials: async (paymentId: string) => partials.filter((p) => p.paymentId === paymentId),
+  }
+})
+
+vi.mock('../../src/db', () => ({
+  db: {
+    getPendingXrplIntentByDestinationTag: vi.fn(store.getByTag),
+    getXrplIntentByTxHash: vi.fn(store.getByTxHash),
+    claimXrplIntentForTx: vi.fn(store.claim),
+    resolveXrplIntentByPaymentId: vi.fn(store.resolve),
+    cancelXrplIntentByPaymentId: vi.fn(store.cancel),
+    getXrplLedgerCursor: vi.fn(store.getCursor),
+    advanceXrplLedgerCursor: vi.fn(store.advanceCursor),
+    hasSettlementForTxHash: vi.fn(async () => false),
+    consumeDecisionOnce: vi.fn(async () => true),
+    insertPolicyEvent: vi.fn(async () => undefined),
+    getLot: vi.fn(async () => null),
+    addSettlementPartialPayment: vi.fn(store.addPartial),
+    listSettlementPartialPayments: vi.fn(store.listPartials),
+    createDriverCredit: vi.fn(async (input: any) => ({
+      ...input,
+      id: 'credit-1',
+      amount: input.amount.toString(),
+      createdAt: new Date(),
+    })),
+    getDecisionPayloadByDecisionId: vi.fn(async (decisionId: string) => ({
+      action: 'ALLOW',
+      decisionId,
+      policyHash: 'ph-1',
+      expiresAtISO: new Date(Date.now() + 60_000).toISOString(),
+      rail: 'xrpl',
+      asset: { kind: 'IOU', currency: 'RLUSD', issuer: 'rMxCKbEDwqr76QuheSUMdEGf4B9xJ8m5De' },
+      reasons: ['OK'],
+      maxSpend: { perTxMinor: '10000000' },
+    })),
+    getActiveSession: vi.fn(async (plate: string) => ({
+      id: `sess-${plate}`,
+      plateNumber: plate,
+      lotId: 'LOT-1',
+      entryTime: new Date(),
+      status: 'active',
+      policyGrantId: null,
+    })),
+  },
+}))
+
+vi.mock('../../src/services/sessionLifecycle', () => ({
+  sessionLifecycleService: {
+    closeSession: vi.fn(async () => undefined),
+    markPaymentFailed: vi.fn(async () => undefined),
+  },
+}))
+
+vi.mock('../../src/services/paymentWatcher', () => ({
+  getPendingPaymentByPlateLot: vi.fn(async () => ({ fee: 3.7, feeCurrency: 'EUR' })),
+  removePendingPayment: vi.fn(async () => undefined),
+}))
+
+vi.mock('../../src/ws/index', () => ({
+  notifyGate: vi.fn(),
+  notifyDriver: vi.fn(),
+}))
+
+vi.mock('../../src/services/hedera', () => ({
+  isHederaEnabled: vi.fn(() => false),
+  endParkingSessionOnHedera: vi.fn(),
+}))
+
+import { startXrplPaymentWatcher } from '../../src/services/xrplWatcher'
+import { db } from '../../src/db'
+import { sessionLifecycleService } from '../../src/services/sessionLifecycle'
+import { removePendingPayment } from '../../src/services/paymentWatcher'
+import { notifyGate } from '../../src/ws/index'
+
+/**
+ * Minimal rippled WebSocket stand-in serving the recorded ledger: answers subscribe, server_info,
+ * ledger, account_tx and ping, and lets the test push transactions stream messages. Pushed
+ * messages join the account history served by account_tx.
+ */
+async function startRippledStandIn() {
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1' })
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()))
+  const sockets: WebSocket[] = []
+  const requests: any[] = []
+  const history: any[] = [...ledger.accountTx]
+
+  server.on('connection', (socket) => {
+    sockets.push(socket)
+    socket.on('message', (data) => {
+      const request = JSON.parse(data.toString())
+      requests.push(request)
+      const respond = (result: unknown) =>
+        socket.send(JSON.stringify({ id: request.id, type: 'response', status: 'success', result }))
+      switch (request.command) {
+        case 'subscribe':
+        case 'ping':
+          return respond({})
+        case 'server_info':
+          return respond({ info: { build_version: 'stand-in', network_id: 1 } })
+        case 'ledger':
+          return respond({ ledger_index: ledger.validatedLedger, validated: true })
+        case 'account_tx':
+          return respond({
+            account: request.account,
+            ledger_index_min: request.ledger_index_min,
+            ledger_index_max: Math.max(
+              ledger.validatedLedger,
+              ...history.map((tx) => tx.ledger_index),
+            ),
+            transactions: history.filter((tx) => tx.ledger_index >= request.ledger_index_min),
+            validated: true,
+          })
+        default:
+          socket.send(
+            JSON.stringify({
+              id: request.id,
+              type: 'response',
+              status: 'error',
+              error: 'unknownCmd',
+            }),
+          )
+      }
+    })
+  })
+
+  return {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    push: (message: any) => {
+      if (!history.some((tx) => tx.hash === message.hash)) history.push(message)
+      for (const socket of sockets) socket.send(JSON.stringify(message))
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.terminate()
+        server.close(() => resolve())
+      }),
+  }
+}
+
+function intent(overrides: Record<string, unknown>) {
+  return {
+    plateNumber: 'ABC123',
+    lotId: 'LOT-1',
+    amount: '4.000000',
+    destination: ledger.account,
+    token: 'RLUSD',
+    network: 'xrpl:testnet',
+    status: 'pending',
+    expiresAt: new Date(Date.now() + 60_000),
+    policyHash: 'ph-1',
+    asset: RLUSD,
+    ...overrides,
+  }
+}
+
+const riskSignals = () =>
+  vi
+    .mocked(db.insertPolicyEvent)
+    .mock.calls.map(([event]) => event as any)
+    .filter((event) => event.eventType === 'RISK_SIGNAL')
+
+describe('XRPL payment watcher', () => {
+  let rippled: Awaited<ReturnType<typeof startRippledStandIn>>
+  let stop: (() => Promise<void>) | undefined
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    store.intents.length = 0
+    store.cursors.clear()
+    store.partials.length = 0
+    rippled = await startRippledStandIn()
+  })
+
+  afterEach(async () => {
+    await stop?.()
+    stop = undefined
+    await rippled.close()
+    vi.mocked(db.getLot).mockResolvedValue(null)
+  })
+
+  it('replays missed ledgers and settles live tagged payments by destination tag', async () => {
+    store.intents.push(
+      intent({
+        paymentId: 'pay-1',
+        sessionId: 'sess-DOWN1',
+        plateNumber: 'DOWN1',
+        amount: '2.500000',
+        destinationTag: 1001,
+        decisionId: 'dec-1',
+      }),
+      intent({
+        paymentId: 'pay-2',
+        sessionId: 'sess-LIVE2',
+        plateNumber: 'LIVE2',
+        destinationTag: 1002,
+        decisionId: 'dec-2',
+      }),
+    )
+    store.cursors.set(ledger.account, ledger.validatedLedger - 20)
+
+    stop = await startXrplPaymentWatcher({ serverUrl: rippled.url, account: ledger.account })
+
+    // Replay: the payment made while the API was down settles intent 1001
+    await vi.waitFor(() => expect(store.cursors.get(ledger.account)).toBe(ledger.validatedLedger))
+    expect(rippled.requests.find((r) => r.command === 'subscribe')).toMatchObject({
+      accounts: [ledger.account],
+    })
+    expect(rippled.requests.find((r) => r.command === 'account_tx')).toMatchObject({
+      ledger_index_min: ledger.validatedLedger - 19,
+      forward: true,
+    })
+    expect(store.intents[0]).toMatchObject({ status: 'resolved', txHash: ledger.accountTx[1].hash })
+    expect(store.intents[1].status).toBe('pending')
+
+    for (const message of ledger.stream) rippled.push(message)
+    await vi.waitFor(() => expect(store.intents[1].status).toBe('resolved'))
+
+    // Untagged and failed payments are ignored; underpaid and partial ones are flagged
+    expect(riskSignals().map((e) => [e.payload.signal, e.payload.reason, e.txHash])).toEqual([
+      ['XRPL_PAYMENT_MISMATCH', 'AMOUNT_MISMATCH', ledger.stream[2].hash],
+      ['XRPL_PAYMENT_MISMATCH', 'PARTIAL_OR_PATH_PAYMENT', ledger.stream[3].hash],
+    ])
+    expect(store.intents[1].txHash).toBe(ledger.stream[4].hash)
+
+    const verified = vi
+      .mocked(db.insertPolicyEvent)
+      .mock.calls.map(([event]) => event as any)
+      .filter((event) => event.eventType === 'SETTLEMENT_VERIFIED')
+    expect(verified.map((e) => [e.paymentId, e.payload.amount, e.payload.destinationTag])).toEqual([
+      ['pay-1', '2500000', 1001],
+      ['pay-2', '4000000', 1002],
+    ])
+    expect(vi.mocked(db.consumeDecisionOnce)).toHaveBeenCalledTimes(2)
+    expect(vi.mocked(sessionLifecycleService.closeSession)).toHaveBeenCalledTimes(2)
+    expect(vi.mocked(removePendingPayment)).toHaveBeenCalledWith('sess-LIVE2')
+    expect(vi.mocked(notifyGate)).toHaveBeenCalledWith(
+      'LOT-1',
+      expect.objectContaining({ type: 'exit', plate: 'LIVE2', fee: 3.7, currency: 'EUR' }),
+    )
+    // Stream payments move the cursor up to the ledger before the last one handled
+    expect(store.cursors.get(ledger.account)).toBe(ledger.stream[4].ledger_index - 1)
+  })
+
+  it('starts at the current validated ledger without a cursor', async () => {
+    store.intents.push(
+      intent({
+        paymentId: 'pay-1',
+        sessionId: 'sess-1',
+        destinationTag: 1001,
+        decisionId: 'dec-1',
+      }),
+    )
+
+    stop = await startXrplPaymentWatcher({ serverUrl: rippled.url, account: ledger.account })
+
+    await vi.waitFor(() => expect(store.cursors.get(ledger.account)).toBe(ledger.validatedLedger))
+    expect(rippled.requests.some((r) => r.command === 'account_tx')).toBe(false)
+    expect(store.intents[0].status).toBe('pending')
+  })
+
+  it('keeps the cursor below a Payment that failed and retries it with a replay', async () => {
+    store.intents.push(
+      intent({
+        paymentId: 'pay-2',
+        sessionId: 'sess-LIVE2',
+        plateNumber: 'LIVE2',
+        destinationTag: 1002,
+        decisionId: 'dec-2',
+      }),
+    )
+    stop = await startXrplPaymentWatcher({
+      serverUrl: rippled.url,
+      account: ledger.account,
+      retryDelayMs: 200,
+    })
+    await vi.waitFor(() => expect(store.cursors.get(ledger.account)).toBe(ledger.validatedLedger))
+
+    // The 3.9 RLUSD Payment fails to process; the 4 RLUSD one after it settles
+    vi.mocked(db.getPendingXrplIntentByDestinationTag).mockRejectedValueOnce(new Error('db down'))
+    rippled.push(ledger.stream[2])
+    rippled.push(ledger.stream[4])
+    await vi.waitFor(() => expect(store.intents[0].status).toBe('resolved'))
+    expect(store.cursors.get(ledger.account)).toBe(ledger.validatedLedger)
+
+    // The retry replays from the cursor: the failed Payment is handled again, the settled one
+    // is not
+    await vi.waitFor(() =>
+      expect(store.cursors.get(ledger.account)).toBe(ledger.stream[4].ledger_index),
+    )
+    expect(vi.mocked(db.getPendingXrplIntentByDestinationTag)).toHaveBeenCalledTimes(3)
+    expect(vi.mocked(sessionLifecycleService.closeSession)).toHaveBeenCalledTimes(1)
+  })
+
+  it('cancels the intent when enforcement rejects the payment', async () => {
+    store.intents.push(
+      intent({
+        paymentId: 'pay-2',
+        sessionId: 'sess-LIVE2',
+        plateNumber: 'LIVE2',
+        destinationTag: 1002,
+        decisionId: 'dec-2',
+        policyHash: 'ph-other',
+      }),
+    )
+
+    stop = await startXrplPaymentWatcher({ serverUrl: rippled.url, account: ledger.account })
+    await vi.waitFor(() => expect(store.cursors.has(ledger.account)).toBe(true))
+    rippled.push(ledger.stream[4])
+
+    await vi.waitFor(() => expect(store.intents[0].status).toBe('cancelled'))
+    expect(vi.mocked(db.insertPolicyEvent)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: 'SETTLEMENT_REJECTED',
+        payload: expect.objectContaining({ reason: 'POLICY_HASH_MISMATCH' }),
+      }),
+    )
+    expect(vi.mocked(sessionLifecycleService.markPaymentFailed)).toHaveBeenCalled()
+    expect(vi.mocked(sessionLifecycleService.closeSession)).not.toHaveBeenCalled()
+  })
+
+  describe('tolerant lot', () => {
+    const events = (eventType: string) =>
+      vi
+        .mocked(db.insertPolicyEvent)
+        .mock.calls.map(([event]) => event as any)
+        .filter((event) => event.eventType === eventType)
+
+    async function startWatching() {
+      stop = await startXrplPaymentWatcher({ serverUrl: rippled.url, account: ledger.account })
+      await vi.waitFor(() => expect(store.cursors.has(ledger.account)).toBe(true))
+    }
+
+    it('settles an over-payment and records the excess as driver credit', async () => {
+      vi.mocked(db.getLot).mockResolvedValue({ amountTolerance: { stance: 'tolerant' } } as any)
+      store.intents.push(
+        intent({
+          paymentId: 'pay-2',
+          sessionId: 'sess-LIVE2',
+          plateNumber: 'LIVE2',
+          amount: '3.500000',
+          destinationTag: 1002,
+          decisionId: 'dec-2',
+        }),
+      )
+      await startWatching()
+
+      // 3.9 RLUSD for 3.5
+      rippled.push(ledger.stream[2])
+
+      await vi.waitFor(() => expect(store.intents[0].status).toBe('resolved'))
+      expect(events('SETTLEMENT_VERIFIED')[0].payload).toMatchObject({
+        amount: '3900000',
+        amountCheck: { expected: '3500000', delta: '400000', outcome: 'overpaid' },
+      })
+      expect(vi.mocked(db.createDriverCredit)).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: 'sess-LIVE2',
+          plateNumber: 'LIVE2',
+          rail: 'xrpl',
+          asset: RLUSD,
+          amount: 400_000n,
+        }),
+      )
+      expect(events('CREDIT_RECORDED')).toHaveLength(1)
+    })
+
+    it('counts partial payments until they add up to the intent', async () => {
+      vi.mocked(db.getLot).mockResolvedValue({
+        amountTolerance: { stance: 'tolerant', allowPartial: true },
+      } as any)
+      store.intents.push(
+        intent({
+          paymentId: 'pay-2',
+          sessionId: 'sess-LIVE2',
+          plateNumber: 'LIVE2',
+          amount: '7.900000',
+          destinationTag: 1002,
+          decisionId: 'dec-2',
+        }),
+      )
+      await startWatching()
+
+      // 3.9 then 4 RLUSD for 7.9
+      rippled.push(ledger.stream[2])
+      await vi.waitFor(() => expect(store.partials).toHaveLength(1))
+      expect(store.intents[0].status).toBe('pending')
+      expect(events('SETTLEMENT_PARTIAL')[0]).toMatchObject({
+        paymentId: 'pay-2',
+        txHash: ledger.stream[2].hash,
+        payload: { amountCheck: { received: '3900000', awaitingMore: true } },
+      })
+
+      rippled.push(ledger.stream[4])
+      await vi.waitFor(() => expect(store.intents[0].status).toBe('resolved'))
+      expect(events('SETTLEMENT_VERIFIED')[0].payload).toMatchObject({
+        amount: '7900000',
+        amountCheck: { payments: 2, outcome: 'exact' },
+      })
+      expect(riskSignals()).toEqual([])
+      expect(vi.mocked(db.createDriverCredit)).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -10,8 +10,10 @@ const mockDb = vi.hoisted(() => ({
   deactivateDriver: vi.fn(),
   createSession: vi.fn(),
   getActiveSession: vi.fn(),
+  setSessionFeeDays: vi.fn(),
   getActiveSessionsByLot: vi.fn(),
   settleSessionAfterVerified: vi.fn(),
+  collectSessionDebts: vi.fn(async () => []),
   transitionSession: vi.fn(),
   getSessionHistory: vi.fn(),
   getLot: vi.fn(),
@@ -20,8 +22,8 @@ const mockDb = vi.hoisted(() => ({
   updateSessionPolicyGrant: vi.fn(),
   getPolicyGrantExpiresAt: vi.fn(),
   getPolicyGrantByGrantId: vi.fn(),
-  getFiatSpendTotalsByCurrency: vi.fn(),
-  getSpendTotalsFiat: vi.fn(),
+  getPolicyLayersForStack: vi.fn(async () => []),
+  getSpendLedgerTotals: vi.fn(),
   insertPolicyEvent: vi.fn(),
   insertPolicyDecision: vi.fn(),
   getDecisionPayloadByDecisionId: vi.fn(),
@@ -29,6 +31,8 @@ const mockDb = vi.hoisted(() => ({
   hasSettlementForTxHash: vi.fn(),
   hasSettlementForDecisionRail: vi.fn(),
   getMedianFeeForLot: vi.fn(),
+  getOtherActiveSessionLots: vi.fn(),
+  getPlateRiskHistory: vi.fn(),
   beginIdempotency: vi.fn(),
   completeIdempotency: vi.fn(),
   getXrplIntentByTxHash: vi.fn(),
@@ -62,6 +66,12 @@ vi.mock('../src/services/blockchain', () => ({
 }))
 vi.mock('../src/services/pricing', () => ({
   convertToStablecoin: vi.fn((fee: number) => fee),
+  quoteStablecoin: vi.fn(async (feeMinor: bigint) => ({
+    amount: Number(feeMinor) / 100,
+    amountAtomic: String(feeMinor * 10_000n),
+    decimals: 6,
+    fx: { baseCurrency: 'USD', quoteAssetSymbol: 'USDC', rate: '1', asOf: '', provider: 'env' },
+  })),
   X402_STABLECOIN: 'USDC',
   X402_NETWORK: 'base-sepolia',
   getFxRate: vi.fn().mockReturnValue(1),
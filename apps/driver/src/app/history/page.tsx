@@ -2,8 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import type { SessionRecord } from '@parker/core'
-import { formatPlate, getHashscanNftUrl } from '@parker/core'
+import type { LotStatus, SessionRecord } from '@parker/core'
+import { getHashscanNftUrl } from '@parker/core'
 
 const HEDERA_TOKEN_ID = process.env.NEXT_PUBLIC_HEDERA_TOKEN_ID || ''
 const HEDERA_NETWORK = process.env.NEXT_PUBLIC_HEDERA_NETWORK || 'testnet'
@@ -15,7 +15,7 @@ export default function History() {
   const { plate } = useDriverProfile()
   const [sessions, setSessions] = useState<SessionRecord[]>([])
   const [loading, setLoading] = useState(true)
-  const [lotMap, setLotMap] = useState<Record<string, { name: string; address?: string }>>({})
+  const [lotMap, setLotMap] = useState<Record<string, LotStatus>>({})
 
   useEffect(() => {
     if (!plate) {
@@ -35,9 +35,9 @@ export default function History() {
     const uniqueLotIds = [...new Set(sessions.map((s) => s.lotId))]
     Promise.all(uniqueLotIds.map((id) => getLotStatus(id).then((lot) => [id, lot] as const))).then(
       (results) => {
-        const map: Record<string, { name: string; address?: string }> = {}
+        const map: Record<string, LotStatus> = {}
         for (const [id, lot] of results) {
-          if (lot) map[id] = { name: lot.name, address: lot.address }
+          if (lot) map[id] = lot
         }
         setLotMap(map)
       },
@@ -75,6 +75,8 @@ export default function History() {
             const hours = Math.floor(durationMinutes / 60)
             const mins = durationMinutes % 60
             const lot = lotMap[session.lotId]
+            // Multi-day stays: the fee per daily-cap window, as charged at exit
+            const feeDays = exitDate ? (session.feeDays ?? []) : []
 
             return (
               <Link key={session.id} href={`/session/${session.id}`}>
@@ -112,6 +114,21 @@ export default function History() {
                       </p>
                     </div>
                   </div>
+                  {feeDays.length > 1 && (
+                    <ul className="mt-2 space-y-0.5 border-t border-gray-100 pt-2 text-xs text-gray-500">
+                      {feeDays.map((d) => (
+                        <li key={d.day} className="flex justify-between">
+                          <span>
+                            Day {d.day} · {d.date}
+                            {d.capped && ' (daily max)'}
+                          </span>
+                          <span>
+                            {d.fee.toFixed(2)} {session.feeCurrency || lot?.currency || ''}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   <div className="mt-2 flex items-center justify-between">
                     <span
                       className={`rounded-full px-2 py-0.5 text-xs font-medium ${
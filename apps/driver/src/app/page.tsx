@@ -4,19 +4,28 @@ import { useState, useCallback, useEffect } from 'react'
 import { useAccount } from 'wagmi'
 import Link from 'next/link'
 
-import { isXrplNetwork, type PaymentOptions } from '@parker/core'
+import {
+  isXrplNetwork,
+  type FeeBandBreakdown,
+  type FeeDayBreakdown,
+  type PaymentOptions,
+} from '@parker/core'
 import { WalletButton } from '@/components/WalletButton'
 import { SessionCard } from '@/components/SessionCard'
+import { DebtCard } from '@/components/DebtCard'
 import { PaymentPrompt } from '@/components/PaymentPrompt'
+import { ApprovalPrompt } from '@/components/ApprovalPrompt'
 import { useDriverProfile } from '@/hooks/useDriverProfile'
 import { useParkerSocket } from '@/hooks/useParkerSocket'
 import { useAuth } from '@/providers/AuthProvider'
+import { getPendingApprovals, type ApprovalRequest } from '@/lib/api'
 
 export default function Dashboard() {
   const { isConnected } = useAccount()
   const { plate, isRegistered, setPlate } = useDriverProfile()
   const { isAuthenticated, signIn, signing, token } = useAuth()
   const [sessionKey, setSessionKey] = useState(0)
+  const [debtKey, setDebtKey] = useState(0)
   const [mounted, setMounted] = useState(false)
   const [isXrplRailDeployment, setIsXrplRailDeployment] = useState(false)
 
@@ -31,15 +40,37 @@ export default function Dashboard() {
   const [pendingPayment, setPendingPayment] = useState<{
     fee: number
     currency: string
+    feeBreakdown?: FeeBandBreakdown[]
+    feeDays?: FeeDayBreakdown[]
     durationMinutes: number
+    debt?: { amount: number; count: number }
     paymentOptions: PaymentOptions
     lotId: string
   } | null>(null)
+  const [pendingApproval, setPendingApproval] = useState<{
+    request: ApprovalRequest
+    reasons?: string[]
+  } | null>(null)
+
+  // Requests waiting on this wallet (own plates or as a delegate) that arrived while offline
+  useEffect(() => {
+    if (!isAuthenticated) return
+    getPendingApprovals(token)
+      .then((requests) => {
+        if (requests.length > 0) setPendingApproval({ request: requests[0] })
+      })
+      .catch(() => {})
+  }, [isAuthenticated, token])
+
   // Listen for real-time session events — force SessionCard to re-fetch
   const handleSocketEvent = useCallback((event: { type: string; [key: string]: unknown }) => {
     if (event.type === 'session_started' || event.type === 'session_ended') {
       setSessionKey((k) => k + 1)
     }
+    if (event.type === 'session_ended' || event.type === 'debt_recorded') {
+      // A paid exit collects outstanding debts; an uploaded offline exit records one
+      setDebtKey((k) => k + 1)
+    }
     if (event.type === 'session_ended') {
       // Payment was confirmed — dismiss the payment prompt
       setPendingPayment(null)
@@ -48,10 +79,28 @@ export default function Dashboard() {
       setPendingPayment({
         fee: event.fee as number,
         currency: event.currency as string,
+        feeBreakdown: event.feeBreakdown as FeeBandBreakdown[] | undefined,
+        feeDays: event.feeDays as FeeDayBreakdown[] | undefined,
         durationMinutes: event.durationMinutes as number,
+        debt: event.debt as { amount: number; count: number } | undefined,
         paymentOptions: event.paymentOptions as PaymentOptions,
         lotId: event.lotId as string,
       })
+      const approval = event.approval as
+        | { reasons?: string[]; request?: ApprovalRequest }
+        | undefined
+      if (event.approvalRequired && approval?.request) {
+        setPendingApproval({ request: approval.request, reasons: approval.reasons })
+      }
+    }
+    if (event.type === 'decision_expired' || event.type === 'payment_intent_expired') {
+      // The quote behind the prompt can no longer be paid; the next gate scan issues a new one
+      setPendingPayment(null)
+    }
+    if (event.type === 'approval_resolved') {
+      setPendingApproval((current) =>
+        current?.request.requestId === event.requestId ? null : current,
+      )
     }
   }, [])
 
@@ -149,12 +198,29 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Owner approval prompt (REQUIRE_APPROVAL exits) — answered before paying */}
+      {pendingApproval && (
+        <ApprovalPrompt
+          request={pendingApproval.request}
+          reasons={pendingApproval.reasons}
+          onDismiss={() => setPendingApproval(null)}
+          onResolved={(approved) => {
+            setPendingApproval(null)
+            // The gate re-evaluates the exit with the approval; a rejection stops here
+            if (!approved) setPendingPayment(null)
+          }}
+        />
+      )}
+
       {/* Payment prompt (shown when gate triggers exit) */}
-      {pendingPayment && plate && (
+      {pendingPayment && plate && !pendingApproval && (
         <PaymentPrompt
           fee={pendingPayment.fee}
           currency={pendingPayment.currency}
+          feeBreakdown={pendingPayment.feeBreakdown}
+          feeDays={pendingPayment.feeDays}
           durationMinutes={pendingPayment.durationMinutes}
+          debt={pendingPayment.debt}
           paymentOptions={pendingPayment.paymentOptions}
           plateNumber={plate}
           lotId={pendingPayment.lotId}
@@ -166,6 +232,9 @@ export default function Dashboard() {
         />
       )}
 
+      {/* Outstanding balance from unpaid exits */}
+      <DebtCard key={debtKey} plate={plate} />
+
       {/* Active Session */}
       <SessionCard key={sessionKey} plate={plate} />
 
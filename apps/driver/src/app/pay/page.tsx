@@ -276,6 +276,13 @@ function PayContent() {
                     <p className="mt-1 break-all font-mono text-xs text-gray-800">
                       {paymentOptions.x402.receiver}
                     </p>
+                    {paymentOptions.x402.destinationTag != null && (
+                      <p className="mt-1 text-xs text-gray-600">
+                        Destination tag:{' '}
+                        <span className="font-mono">{paymentOptions.x402.destinationTag}</span> —
+                        payments with this tag confirm automatically.
+                      </p>
+                    )}
                     {xamanAvailable !== false && (
                       <a
                         href={buildXamanPaymentURI({
@@ -283,6 +290,7 @@ function PayContent() {
                           amount: paymentOptions.x402.amount,
                           currency: paymentOptions.x402.token,
                           network: paymentOptions.x402.network,
+                          destinationTag: paymentOptions.x402.destinationTag,
                         })}
                         className="mt-2 inline-flex items-center gap-2 text-xs text-parker-700 underline hover:text-parker-900"
                       >
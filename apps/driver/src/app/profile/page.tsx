@@ -7,6 +7,7 @@ import { formatPlate } from '@parker/core'
 
 import { useDriverProfile } from '@/hooks/useDriverProfile'
 import { updateDriver } from '@/lib/api'
+import { ApprovalDelegates } from '@/components/ApprovalDelegates'
 
 export default function Profile() {
   const { address } = useAccount()
@@ -162,6 +163,8 @@ export default function Profile() {
                     {new Date(profile.createdAt).toLocaleDateString()}
                   </p>
                 </div>
+
+                <ApprovalDelegates />
               </>
             )}
           </>
@@ -3,13 +3,13 @@
 import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
 import Link from 'next/link'
-import type { SessionRecord } from '@parker/core'
-import { calculateFee, getHashscanNftUrl } from '@parker/core'
+import type { SessionPaymentReview, SessionRecord } from '@parker/core'
+import { calculateFee, fromMinor, getHashscanNftUrl } from '@parker/core'
 
 const HEDERA_TOKEN_ID = process.env.NEXT_PUBLIC_HEDERA_TOKEN_ID || ''
 const HEDERA_NETWORK = process.env.NEXT_PUBLIC_HEDERA_NETWORK || 'testnet'
 import { useDriverProfile } from '@/hooks/useDriverProfile'
-import { getSessionHistory, getLotStatus } from '@/lib/api'
+import { getSessionHistory, getLotStatus, getSessionPaymentReview } from '@/lib/api'
 
 export default function SessionDetail() {
   const { id } = useParams<{ id: string }>()
@@ -17,6 +17,7 @@ export default function SessionDetail() {
   const [session, setSession] = useState<SessionRecord | null>(null)
   const [loading, setLoading] = useState(true)
   const [elapsed, setElapsed] = useState(0)
+  const [review, setReview] = useState<SessionPaymentReview | null>(null)
 
   // Lot pricing config
   const [lotRate, setLotRate] = useState(0)
@@ -43,6 +44,12 @@ export default function SessionDetail() {
       .finally(() => setLoading(false))
   }, [plate, id])
 
+  // Payment review (settled but the session could not be closed automatically)
+  useEffect(() => {
+    if (!session) return
+    getSessionPaymentReview(session.id).then(setReview)
+  }, [session?.id])
+
   // Fetch lot config when session is available
   useEffect(() => {
     if (!session) return
@@ -99,7 +106,7 @@ export default function SessionDetail() {
   const estimatedCost =
     session?.feeAmount ??
     (lotRate > 0
-      ? calculateFee(durationMinutes, lotRate, lotBilling, lotMaxFee, lotGracePeriod)
+      ? calculateFee(durationMinutes, lotRate, lotBilling, lotMaxFee, lotGracePeriod, lotCurrency)
       : 0)
   const gracePeriodSeconds = lotGracePeriod * 60
   const inGracePeriod =
@@ -150,6 +157,8 @@ export default function SessionDetail() {
             </div>
           )}
 
+          {review && <PaymentReviewStatus review={review} />}
+
           {/* Session info */}
           <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
             <InfoRow label="Session ID" value={session.id} mono />
@@ -228,6 +237,47 @@ export default function SessionDetail() {
   )
 }
 
+const REVIEW_COPY: Record<SessionPaymentReview['status'], { title: string; body: string }> = {
+  open: {
+    title: 'Payment under review',
+    body: "We received your payment but couldn't close the session automatically. An operator is reviewing it.",
+  },
+  accepted: {
+    title: 'Payment accepted',
+    body: 'An operator reviewed your payment and closed the session.',
+  },
+  refund_requested: {
+    title: 'Refund requested',
+    body: 'Your payment will be returned. The parking fee is still due at exit.',
+  },
+  top_up_requested: {
+    title: 'Top-up required',
+    body: 'Your payment was credited. Pay the remaining amount at exit.',
+  },
+}
+
+function PaymentReviewStatus({ review }: { review: SessionPaymentReview }) {
+  const copy = REVIEW_COPY[review.status]
+  return (
+    <div
+      className={`rounded-lg border p-4 shadow-sm ${
+        review.status === 'accepted'
+          ? 'border-green-200 bg-green-50'
+          : 'border-amber-200 bg-amber-50'
+      }`}
+    >
+      <p className="text-sm font-medium text-gray-800">{copy.title}</p>
+      <p className="mt-1 text-sm text-gray-600">{copy.body}</p>
+      {review.topUpMinor && review.topUpCurrency && (
+        <p className="mt-2 text-lg font-bold text-gray-900">
+          {fromMinor(BigInt(review.topUpMinor), review.topUpCurrency)} {review.topUpCurrency}
+        </p>
+      )}
+      <p className="mt-2 text-xs text-gray-400">Reason: {review.reason}</p>
+    </div>
+  )
+}
+
 function InfoRow({
   label,
   value,
@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { addApprovalDelegate, getApprovalDelegates, removeApprovalDelegate } from '@/lib/api'
+import { useAuth } from '@/providers/AuthProvider'
+
+/** Wallets allowed to approve or reject exit payments on the owner's behalf. */
+export function ApprovalDelegates() {
+  const { isAuthenticated, token } = useAuth()
+  const [delegates, setDelegates] = useState<string[]>([])
+  const [wallet, setWallet] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isAuthenticated) return
+    getApprovalDelegates(token)
+      .then(setDelegates)
+      .catch(() => setDelegates([]))
+  }, [isAuthenticated, token])
+
+  if (!isAuthenticated) return null
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    if (!wallet.trim()) return
+    setSaving(true)
+    setError(null)
+    try {
+      setDelegates(await addApprovalDelegate(wallet.trim(), token))
+      setWallet('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add delegate')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleRemove(delegate: string) {
+    setError(null)
+    try {
+      await removeApprovalDelegate(delegate, token)
+      setDelegates((current) => current.filter((d) => d !== delegate))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove delegate')
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <p className="text-sm font-medium text-gray-500">Approval Delegates</p>
+      <p className="mt-1 text-xs text-gray-400">
+        These wallets can approve or reject exit payments that need your approval.
+      </p>
+      {delegates.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {delegates.map((d) => (
+            <li key={d} className="flex items-center justify-between gap-2">
+              <span className="truncate font-mono text-xs text-gray-800">{d}</span>
+              <button
+                onClick={() => handleRemove(d)}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleAdd} className="mt-3 flex gap-2">
+        <input
+          type="text"
+          value={wallet}
+          onChange={(e) => setWallet(e.target.value)}
+          placeholder="0x..."
+          className="flex-1 rounded-lg border border-gray-300 px-3 py-1.5 font-mono text-sm focus:border-parker-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-parker-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-parker-700 disabled:opacity-50"
+        >
+          {saving ? 'Adding...' : 'Add'}
+        </button>
+      </form>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
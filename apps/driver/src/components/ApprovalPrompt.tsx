@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import { useSignTypedData } from 'wagmi'
+
+import { submitApproval, type ApprovalRequest } from '@/lib/api'
+
+interface ApprovalPromptProps {
+  request: ApprovalRequest
+  /** Policy reason codes behind the approval (e.g. NEEDS_APPROVAL, PRICE_SPIKE) */
+  reasons?: string[]
+  onDismiss: () => void
+  onResolved: (approved: boolean) => void
+}
+
+export function ApprovalPrompt({ request, reasons, onDismiss, onResolved }: ApprovalPromptProps) {
+  const [status, setStatus] = useState<'idle' | 'signing' | 'submitting' | 'error'>('idle')
+  const [error, setError] = useState<string | null>(null)
+
+  const { signTypedDataAsync } = useSignTypedData()
+
+  const { message } = request.typedData
+  const amount = (Number(message.amountMinor) / 100).toFixed(2)
+
+  async function handleAnswer(approved: boolean) {
+    setError(null)
+    try {
+      setStatus('signing')
+      const signature = await signTypedDataAsync({
+        domain: request.typedData.domain,
+        types: request.typedData.types,
+        primaryType: request.typedData.primaryType,
+        message: { ...message, approved },
+      })
+
+      setStatus('submitting')
+      await submitApproval(request.requestId, approved, signature)
+      onResolved(approved)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Approval failed')
+      setStatus('error')
+    }
+  }
+
+  const busy = status === 'signing' || status === 'submitting'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/40 sm:items-center">
+      <div className="w-full max-w-md rounded-t-2xl bg-white p-6 shadow-2xl sm:rounded-2xl">
+        <h2 className="text-xl font-bold text-gray-900">Approval Required</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Exit payment for {message.plateNumber} needs the owner&apos;s approval
+        </p>
+
+        <div className="mt-4 rounded-lg bg-parker-50 p-4 text-center">
+          <p className="text-3xl font-bold text-parker-800">
+            {amount} {message.currency}
+          </p>
+          {reasons && reasons.length > 0 && (
+            <p className="mt-1 text-xs text-gray-500">{reasons.join(' · ')}</p>
+          )}
+          <p className="mt-1 text-xs text-gray-400">
+            Answer by {new Date(request.expiresAt).toLocaleTimeString()}
+          </p>
+        </div>
+
+        {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+        <div className="mt-4 space-y-3">
+          <button
+            onClick={() => handleAnswer(true)}
+            disabled={busy}
+            className="block w-full rounded-lg bg-parker-600 px-4 py-3 text-center font-medium text-white transition hover:bg-parker-700 disabled:opacity-50"
+          >
+            {status === 'signing'
+              ? 'Sign in wallet...'
+              : status === 'submitting'
+                ? 'Submitting...'
+                : 'Approve'}
+          </button>
+          <button
+            onClick={() => handleAnswer(false)}
+            disabled={busy}
+            className="block w-full rounded-lg border-2 border-red-500 px-4 py-3 text-center font-medium text-red-600 transition hover:bg-red-50 disabled:opacity-50"
+          >
+            Reject
+          </button>
+          <button
+            onClick={onDismiss}
+            disabled={busy}
+            className="block w-full py-2 text-center text-sm text-gray-500 hover:text-gray-700"
+          >
+            Later
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
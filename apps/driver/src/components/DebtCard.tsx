@@ -0,0 +1,61 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { PlateDebt } from '@parker/core'
+import { formatMinor } from '@parker/core'
+
+import { getPlateDebts } from '@/lib/api'
+
+interface DebtCardProps {
+  plate: string | null
+}
+
+/** Outstanding balance from exits the gate let through without payment. */
+export function DebtCard({ plate }: DebtCardProps) {
+  const [debts, setDebts] = useState<PlateDebt[]>([])
+
+  useEffect(() => {
+    if (!plate) {
+      setDebts([])
+      return
+    }
+    getPlateDebts(plate, 'outstanding')
+      .then(setDebts)
+      .catch(() => setDebts([]))
+  }, [plate])
+
+  if (debts.length === 0) return null
+
+  // Debts are charged in their lot's currency; show one total per currency
+  const totals = new Map<string, bigint>()
+  for (const debt of debts) {
+    totals.set(debt.currency, (totals.get(debt.currency) ?? 0n) + BigInt(debt.amountMinor))
+  }
+
+  return (
+    <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+      <p className="text-sm font-medium uppercase tracking-wide text-yellow-700">
+        Outstanding balance
+      </p>
+      <p className="mt-1 font-mono text-2xl font-bold text-yellow-800">
+        {Array.from(totals, ([currency, total]) => formatMinor(total, currency)).join(' + ')}
+      </p>
+      <p className="mt-2 text-sm text-yellow-700">
+        {debts.length === 1 ? 'An exit' : `${debts.length} exits`} left without payment while the
+        gate was offline. The balance is added to your next exit fee.
+      </p>
+      <ul className="mt-3 space-y-1 text-xs text-yellow-700">
+        {debts.map((debt) => (
+          <li key={debt.id} className="flex justify-between">
+            <span>
+              Lot {debt.lotId} · {new Date(debt.exitTime).toLocaleString()}
+            </span>
+            <span className="font-mono">
+              {formatMinor(BigInt(debt.amountMinor), debt.currency)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
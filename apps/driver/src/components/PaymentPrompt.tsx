@@ -5,12 +5,20 @@ import { useWriteContract } from 'wagmi'
 import { parseUnits, type Address } from 'viem'
 import {
   USDC_ADDRESSES,
+  getEvmChain,
   isXrplNetwork,
   isValidXrplTxHash,
   buildXamanPaymentURI,
   XAMAN_LOGO_URL,
 } from '@parker/core'
-import type { PaymentOptions } from '@parker/core'
+import { STANDARD_BAND } from '@parker/core'
+import type {
+  FeeBandBreakdown,
+  FeeDayBreakdown,
+  PaymentOptions,
+  X402AssetOption,
+  X402PaymentOption,
+} from '@parker/core'
 
 const ERC20_TRANSFER_ABI = [
   {
@@ -25,6 +33,22 @@ const ERC20_TRANSFER_ABI = [
   },
 ] as const
 
+/** EVM assets the driver can pay with; older APIs only send the top-level USDC option */
+function evmAssetChoices(x402: X402PaymentOption): X402AssetOption[] {
+  if (x402.assets?.length) return x402.assets
+  return [
+    {
+      quoteId: '',
+      chainId: getEvmChain(x402.network)?.chainId ?? 0,
+      network: x402.network,
+      token: x402.token,
+      tokenAddress: USDC_ADDRESSES[x402.network] || '',
+      decimals: 6,
+      amount: x402.amount,
+    },
+  ]
+}
+
 function newIdempotencyKey(prefix: string): string {
   const rand =
     typeof crypto !== 'undefined' && 'randomUUID' in crypto
@@ -36,7 +60,13 @@ function newIdempotencyKey(prefix: string): string {
 interface PaymentPromptProps {
   fee: number
   currency: string
+  /** Per-band fee split from the lot tariff (optional) */
+  feeBreakdown?: FeeBandBreakdown[]
+  /** Per-day fees for multi-day stays (optional) */
+  feeDays?: FeeDayBreakdown[]
   durationMinutes: number
+  /** Outstanding debts from earlier unpaid exits, included in `fee` (optional) */
+  debt?: { amount: number; count: number }
   paymentOptions: PaymentOptions
   plateNumber: string
   lotId: string
@@ -47,7 +77,10 @@ interface PaymentPromptProps {
 export function PaymentPrompt({
   fee,
   currency,
+  feeBreakdown,
+  feeDays,
   durationMinutes,
+  debt,
   paymentOptions,
   plateNumber,
   lotId,
@@ -61,11 +94,14 @@ export function PaymentPrompt({
   const [xrplTxHash, setXrplTxHash] = useState('')
   const [xamanQrPng, setXamanQrPng] = useState<string | null>(null)
   const [xamanAvailable, setXamanAvailable] = useState<boolean | null>(null)
+  const [evmAssetIndex, setEvmAssetIndex] = useState(0)
 
   const { writeContractAsync } = useWriteContract()
 
   const x402 = paymentOptions.x402
   const isXrplRail = isXrplNetwork(x402?.network)
+  const evmChoices = x402 && !isXrplRail ? evmAssetChoices(x402) : []
+  const evmChoice = evmChoices[evmAssetIndex] ?? evmChoices[0]
 
   useEffect(() => {
     if (!isXrplRail) return
@@ -196,9 +232,8 @@ export function PaymentPrompt({
       return
     }
 
-    const usdcAddress = USDC_ADDRESSES[x402.network]
-    if (!usdcAddress) {
-      setError(`Unsupported network: ${x402.network}`)
+    if (!evmChoice?.tokenAddress || !evmChoice.chainId) {
+      setError(`Unsupported network: ${evmChoice?.network ?? x402.network}`)
       return
     }
 
@@ -206,15 +241,21 @@ export function PaymentPrompt({
     setError(null)
 
     try {
-      // Step 1: Send EVM token transfer via wallet
+      // Step 1: Send EVM token transfer via wallet, on the picked asset's chain
       const txHash = await writeContractAsync({
-        address: usdcAddress,
+        address: evmChoice.tokenAddress as Address,
         abi: ERC20_TRANSFER_ABI,
         functionName: 'transfer',
-        args: [x402.receiver as Address, parseUnits(x402.amount, 6)],
+        args: [x402.receiver as Address, parseUnits(evmChoice.amount, evmChoice.decimals)],
+        chainId: evmChoice.chainId,
       })
 
-      // Step 2: Confirm the exit with the API (X-PAYMENT header)
+      // Step 2: Confirm the exit with the API (X-PAYMENT header). The header verifies the
+      // primary asset only; the payment watcher settles the others (session_ended).
+      if (evmChoice !== evmChoices[0]) {
+        setStatus('confirming')
+        return
+      }
       await settleWithPaymentProof(txHash, 'driver-exit-pay-evm')
     } catch (err: any) {
       // User rejected tx or tx failed
@@ -268,7 +309,43 @@ export function PaymentPrompt({
           </p>
           {paymentOptions.x402 && (
             <p className="mt-1 text-sm text-gray-500">
-              {paymentOptions.x402.amount} {paymentOptions.x402.token}
+              {evmChoice?.amount ?? paymentOptions.x402.amount}{' '}
+              {evmChoice?.token ?? paymentOptions.x402.token}
+            </p>
+          )}
+          {feeBreakdown && feeBreakdown.some((b) => b.band !== STANDARD_BAND) && (
+            <ul className="mt-3 space-y-1 border-t border-parker-100 pt-3 text-left text-xs text-gray-600">
+              {feeBreakdown.map((b) => (
+                <li key={b.band} className="flex justify-between">
+                  <span>
+                    {b.band} · {Math.round(b.minutes)} min @ {b.ratePerHour}/h
+                  </span>
+                  <span>
+                    {b.fee.toFixed(2)} {currency}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {feeDays && feeDays.length > 1 && (
+            <ul className="mt-3 space-y-1 border-t border-parker-100 pt-3 text-left text-xs text-gray-600">
+              {feeDays.map((d) => (
+                <li key={d.day} className="flex justify-between">
+                  <span>
+                    Day {d.day} · {d.date}
+                    {d.capped && ' (daily max)'}
+                  </span>
+                  <span>
+                    {d.fee.toFixed(2)} {currency}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {debt && (
+            <p className="mt-3 border-t border-parker-100 pt-3 text-left text-xs text-gray-600">
+              Includes {debt.amount.toFixed(2)} {currency} owed from {debt.count} earlier unpaid
+              exit{debt.count === 1 ? '' : 's'}
             </p>
           )}
         </div>
@@ -290,6 +367,25 @@ export function PaymentPrompt({
               </a>
             )}
 
+            {evmChoices.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {evmChoices.map((choice, i) => (
+                  <button
+                    key={`${choice.chainId}:${choice.tokenAddress}`}
+                    onClick={() => setEvmAssetIndex(i)}
+                    disabled={isProcessing}
+                    className={`rounded-full px-3 py-1 text-xs font-medium transition disabled:opacity-50 ${
+                      choice === evmChoice
+                        ? 'bg-parker-600 text-white'
+                        : 'bg-parker-50 text-parker-700 hover:bg-parker-100'
+                    }`}
+                  >
+                    {choice.token} · {getEvmChain(choice.chainId)?.name ?? choice.network}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {paymentOptions.x402 && (
               <button
                 onClick={handlePayWithCrypto}
@@ -312,7 +408,7 @@ export function PaymentPrompt({
                           : xamanAvailable === false
                             ? 'Confirm XRPL Tx Hash'
                             : 'Pay with Xaman'
-                        : `Pay with ${paymentOptions.x402.token}`}
+                        : `Pay with ${evmChoice?.token ?? paymentOptions.x402.token}`}
               </button>
             )}
 
@@ -325,6 +421,13 @@ export function PaymentPrompt({
                 <p className="mt-1 break-all font-mono text-xs text-gray-800">
                   {paymentOptions.x402.receiver}
                 </p>
+                {paymentOptions.x402.destinationTag != null && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    Destination tag:{' '}
+                    <span className="font-mono">{paymentOptions.x402.destinationTag}</span> —
+                    payments with this tag confirm automatically.
+                  </p>
+                )}
                 {xamanAvailable !== false && (
                   <>
                     <a
@@ -333,6 +436,7 @@ export function PaymentPrompt({
                         amount: paymentOptions.x402.amount,
                         currency: paymentOptions.x402.token,
                         network: paymentOptions.x402.network,
+                        destinationTag: paymentOptions.x402.destinationTag,
                       })}
                       className="mt-2 inline-flex items-center gap-2 text-xs text-parker-700 underline hover:text-parker-900"
                     >
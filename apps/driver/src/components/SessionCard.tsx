@@ -113,7 +113,9 @@ export function SessionCard({ plate }: SessionCardProps) {
   // Estimate cost using lot pricing
   const durationMinutes = elapsed / 60
   const estimatedCost =
-    lotRate > 0 ? calculateFee(durationMinutes, lotRate, lotBilling, lotMaxFee, lotGracePeriod) : 0
+    lotRate > 0
+      ? calculateFee(durationMinutes, lotRate, lotBilling, lotMaxFee, lotGracePeriod, lotCurrency)
+      : 0
 
   return (
     <div
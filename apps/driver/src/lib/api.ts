@@ -1,4 +1,11 @@
-import type { SessionRecord, DriverRecord, LotStatus } from '@parker/core'
+import type {
+  DebtStatus,
+  DriverRecord,
+  LotStatus,
+  PlateDebt,
+  SessionPaymentReview,
+  SessionRecord,
+} from '@parker/core'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
 
@@ -61,6 +68,12 @@ export async function updateDriver(
   })
 }
 
+/** Fees owed from exits that left without paying (gate opened offline), newest first. */
+export async function getPlateDebts(plate: string, status?: DebtStatus): Promise<PlateDebt[]> {
+  const query = status ? `?status=${status}` : ''
+  return apiFetch<PlateDebt[]>(`/api/drivers/${encodeURIComponent(plate)}/debts${query}`)
+}
+
 // ---- Lot API ----
 
 export async function getLotStatus(lotId: string): Promise<LotStatus | null> {
@@ -91,4 +104,81 @@ export async function getSessionHistory(
   )
 }
 
+/** Review of a payment that settled but could not close the session; null if there is none. */
+export async function getSessionPaymentReview(
+  sessionId: string,
+): Promise<SessionPaymentReview | null> {
+  try {
+    return await apiFetch<SessionPaymentReview>(
+      `/api/sessions/${encodeURIComponent(sessionId)}/review`,
+    )
+  } catch {
+    return null // 404 = no review
+  }
+}
+
+// ---- Approval API ----
+
+/** Owner approval request for a REQUIRE_APPROVAL exit, with the EIP-712 data to sign. */
+export interface ApprovalRequest {
+  requestId: string
+  ownerWallet: string
+  expiresAt: string
+  typedData: {
+    domain: { name: string; version: string }
+    types: { PaymentApproval: { name: string; type: string }[] }
+    primaryType: 'PaymentApproval'
+    message: Record<string, string>
+  }
+}
+
+/** Pending requests the signed-in wallet can answer (as owner or delegate). */
+export async function getPendingApprovals(token: string | null): Promise<ApprovalRequest[]> {
+  const rows = await apiFetch<
+    Array<
+      { id: string; ownerWallet: string; expiresAt: string } & Pick<ApprovalRequest, 'typedData'>
+    >
+  >('/api/drivers/approvals/pending', { token })
+  return rows.map((r) => ({
+    requestId: r.id,
+    ownerWallet: r.ownerWallet,
+    expiresAt: r.expiresAt,
+    typedData: r.typedData,
+  }))
+}
+
+export async function submitApproval(
+  requestId: string,
+  approved: boolean,
+  signature: string,
+): Promise<{ status: string }> {
+  return apiFetch('/api/gate/exit/approve', {
+    method: 'POST',
+    body: { requestId, approved, signature },
+  })
+}
+
+export async function getApprovalDelegates(token: string | null): Promise<string[]> {
+  const { delegates } = await apiFetch<{ delegates: string[] }>(
+    '/api/drivers/approvals/delegates',
+    { token },
+  )
+  return delegates
+}
+
+export async function addApprovalDelegate(wallet: string, token: string | null): Promise<string[]> {
+  const { delegates } = await apiFetch<{ delegates: string[] }>(
+    '/api/drivers/approvals/delegates',
+    { method: 'POST', body: { wallet }, token },
+  )
+  return delegates
+}
+
+export async function removeApprovalDelegate(wallet: string, token: string | null): Promise<void> {
+  await apiFetch(`/api/drivers/approvals/delegates/${encodeURIComponent(wallet)}`, {
+    method: 'DELETE',
+    token,
+  })
+}
+
 export { apiFetch }
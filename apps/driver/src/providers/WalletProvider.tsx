@@ -3,13 +3,14 @@
 import { ReactNode } from 'react'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { WagmiProvider, createConfig, http } from 'wagmi'
-import { baseSepolia } from 'wagmi/chains'
+import { arbitrum, arbitrumSepolia, base, baseSepolia, polygon, polygonAmoy } from 'wagmi/chains'
 import { coinbaseWallet } from 'wagmi/connectors'
 
 const queryClient = new QueryClient()
 
+// Every chain in the @parker/core EVM registry, so lots can accept any of them
 const config = createConfig({
-  chains: [baseSepolia],
+  chains: [baseSepolia, base, polygon, polygonAmoy, arbitrum, arbitrumSepolia],
   connectors: [
     coinbaseWallet({
       appName: 'Parker',
@@ -18,6 +19,11 @@ const config = createConfig({
   ],
   transports: {
     [baseSepolia.id]: http(),
+    [base.id]: http(),
+    [polygon.id]: http(),
+    [polygonAmoy.id]: http(),
+    [arbitrum.id]: http(),
+    [arbitrumSepolia.id]: http(),
   },
 })
 
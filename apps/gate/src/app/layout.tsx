@@ -40,6 +40,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
               <NavItem href="/" label="Gate" icon="G" />
               <NavItem href="/sessions" label="Sessions" icon="S" />
               <NavItem href="/dashboard" label="Dashboard" icon="D" />
+              <NavItem href="/policies" label="Policies" icon="P" />
               <NavItem href="/settings" label="Settings" icon="=" />
             </ul>
           </nav>
@@ -8,16 +8,40 @@ import { CameraFeed } from '@/components/CameraFeed'
 import { PlateResult } from '@/components/PlateResult'
 import { GateStatus } from '@/components/GateStatus'
 import { useGateSocket } from '@/hooks/useGateSocket'
+import { useOfflineExits } from '@/hooks/useOfflineExits'
 import { useSessionCache } from '@/hooks/useSessionCache'
 import {
   buildERC20TransferURI,
+  getEvmChain,
   USDC_ADDRESSES,
   buildXamanPaymentURI,
   isXrplNetwork,
   isValidXrplTxHash,
   XAMAN_LOGO_URL,
 } from '@parker/core'
-import type { PaymentOptions } from '@parker/core'
+import { STANDARD_BAND } from '@parker/core'
+import type {
+  FeeBandBreakdown,
+  PaymentOptions,
+  X402AssetOption,
+  X402PaymentOption,
+} from '@parker/core'
+
+/** EVM assets the driver can pay with; older APIs only send the top-level USDC option */
+function evmAssetChoices(x402: X402PaymentOption): X402AssetOption[] {
+  if (x402.assets?.length) return x402.assets
+  return [
+    {
+      quoteId: '',
+      chainId: getEvmChain(x402.network)?.chainId ?? 0,
+      network: x402.network,
+      token: x402.token,
+      tokenAddress: USDC_ADDRESSES[x402.network] || '',
+      decimals: 6,
+      amount: x402.amount,
+    },
+  ]
+}
 
 function newIdempotencyKey(prefix: string): string {
   const rand =
@@ -88,11 +112,15 @@ export default function GateView() {
   const gateApiKey = process.env.NEXT_PUBLIC_GATE_API_KEY || null
   const { connected: wsConnected } = useGateSocket(lotId, handleGateEvent, gateApiKey)
 
+  // Exits let through without payment, uploaded once connected to record their fees as debts
+  const { pendingExitCount, queueExit } = useOfflineExits(lotId, wsConnected)
+
   const [lastResult, setLastResult] = useState<{
     success: boolean
     message: string
     fee?: number
     currency?: string
+    feeBreakdown?: FeeBandBreakdown[]
     waitingForPayment?: boolean
     plate?: string
     lotId?: string
@@ -105,6 +133,7 @@ export default function GateView() {
   const [xamanQrPng, setXamanQrPng] = useState<string | null>(null)
   const [xamanPreparing, setXamanPreparing] = useState(false)
   const [xamanAvailable, setXamanAvailable] = useState<boolean | null>(null)
+  const [evmAssetIndex, setEvmAssetIndex] = useState(0)
 
   useEffect(() => {
     const x402Network = lastResult?.paymentOptions?.x402?.network
@@ -237,11 +266,21 @@ export default function GateView() {
             message: `Fee: ${data.fee?.toFixed(2)} ${data.currency || ''} — choose payment method`,
             fee: data.fee,
             currency: data.currency,
+            feeBreakdown: data.feeBreakdown,
             waitingForPayment: true,
             plate,
             lotId,
             paymentOptions: data.paymentOptions,
           })
+        } else if (data.paymentDeferred) {
+          // Mirror Node fallback could not price the exit — the fee is recorded as a debt later
+          queueExit(plate, 'mirror_node_fallback', data.exitTime)
+          setGateOpen(true)
+          setTimeout(() => setGateOpen(false), 5000)
+          setLastResult({
+            success: true,
+            message: `Vehicle exited — ${data.durationMinutes}min. Gate open (payment deferred).`,
+          })
         } else {
           // Exit with payment already completed
           setGateOpen(true)
@@ -251,6 +290,7 @@ export default function GateView() {
             message: `Vehicle exited — ${data.durationMinutes}min, ${data.fee?.toFixed(2)} ${data.currency || ''}`,
             fee: data.fee,
             currency: data.currency,
+            feeBreakdown: data.feeBreakdown,
           })
         }
       } else if (res.status === 402 && data.fee !== undefined) {
@@ -263,6 +303,7 @@ export default function GateView() {
           message: `Fee: ${data.fee?.toFixed(2)} ${data.currency || ''} (${data.durationMinutes}min) — choose payment method`,
           fee: data.fee,
           currency: data.currency,
+          feeBreakdown: data.feeBreakdown,
           waitingForPayment: true,
           plate,
           lotId,
@@ -288,6 +329,7 @@ export default function GateView() {
           setGateOpen(true)
           setTimeout(() => setGateOpen(false), 5000)
           removeExit({ plate })
+          queueExit(plate, 'gate_offline')
           return
         }
         setLastResult({
@@ -305,6 +347,11 @@ export default function GateView() {
     }
   }
 
+  const x402Option = lastResult?.paymentOptions?.x402
+  const evmChoices =
+    x402Option && !isXrplNetwork(x402Option.network) ? evmAssetChoices(x402Option) : []
+  const evmChoice = evmChoices[evmAssetIndex] ?? evmChoices[0]
+
   return (
     <div className="p-6">
       <div className="mb-6 flex items-center justify-between">
@@ -325,6 +372,14 @@ export default function GateView() {
               {sessionCount} cached
             </span>
           )}
+          {pendingExitCount > 0 && (
+            <span
+              className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-700"
+              title={`${pendingExitCount} exit(s) opened without payment, uploaded when the API is reachable`}
+            >
+              {pendingExitCount} unpaid exit{pendingExitCount === 1 ? '' : 's'} pending
+            </span>
+          )}
         </div>
 
         {/* Mode toggle */}
@@ -371,6 +426,21 @@ export default function GateView() {
               }`}
             >
               {lastResult.message}
+              {lastResult.feeBreakdown &&
+                lastResult.feeBreakdown.some((b) => b.band !== STANDARD_BAND) && (
+                  <ul className="mt-2 space-y-0.5 text-xs font-normal">
+                    {lastResult.feeBreakdown.map((b) => (
+                      <li key={b.band} className="flex justify-between">
+                        <span>
+                          {b.band} — {Math.round(b.minutes)}min @ {b.ratePerHour}/h
+                        </span>
+                        <span>
+                          {b.fee.toFixed(2)} {lastResult.currency || ''}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               {lastResult.waitingForPayment && (
                 <>
                   <div className="mt-2 flex items-center gap-2">
@@ -449,6 +519,15 @@ export default function GateView() {
                             <p className="mt-1 break-all font-mono text-xs text-gray-700">
                               To: {lastResult.paymentOptions.x402.receiver}
                             </p>
+                            {lastResult.paymentOptions.x402.destinationTag != null && (
+                              <p className="text-xs text-gray-600">
+                                Destination tag:{' '}
+                                <span className="font-mono">
+                                  {lastResult.paymentOptions.x402.destinationTag}
+                                </span>{' '}
+                                (payments with this tag confirm automatically)
+                              </p>
+                            )}
                             {xamanAvailable !== false && (
                               <button
                                 onClick={() => {
@@ -484,6 +563,7 @@ export default function GateView() {
                                     amount: lastResult.paymentOptions.x402.amount,
                                     currency: lastResult.paymentOptions.x402.token,
                                     network: lastResult.paymentOptions.x402.network,
+                                    destinationTag: lastResult.paymentOptions.x402.destinationTag,
                                   })}
                                   size={180}
                                 />
@@ -530,29 +610,50 @@ export default function GateView() {
                       ) : (
                         <>
                           <p className="text-xs text-yellow-600">Scan with any crypto wallet:</p>
-                          <div className="rounded-lg bg-white p-3">
-                            <QRCodeSVG
-                              value={buildERC20TransferURI({
-                                tokenAddress:
-                                  USDC_ADDRESSES[lastResult.paymentOptions.x402.network] || '',
-                                to: lastResult.paymentOptions.x402.receiver,
-                                amount: lastResult.paymentOptions.x402.amount,
-                                chainId: lastResult.paymentOptions.x402.network,
-                              })}
-                              size={200}
-                            />
-                          </div>
-                          <p className="text-xs text-yellow-500">
-                            {lastResult.paymentOptions.x402.amount}{' '}
-                            {lastResult.paymentOptions.x402.token} on{' '}
-                            {lastResult.paymentOptions.x402.network}
-                          </p>
+                          {evmChoices.length > 1 && (
+                            <div className="flex flex-wrap justify-center gap-1">
+                              {evmChoices.map((choice, i) => (
+                                <button
+                                  key={`${choice.chainId}:${choice.tokenAddress}`}
+                                  onClick={() => setEvmAssetIndex(i)}
+                                  className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                                    choice === evmChoice
+                                      ? 'bg-yellow-500 text-white'
+                                      : 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
+                                  }`}
+                                >
+                                  {choice.token} ·{' '}
+                                  {getEvmChain(choice.chainId)?.name ?? choice.network}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                          {evmChoice && (
+                            <>
+                              <div className="rounded-lg bg-white p-3">
+                                <QRCodeSVG
+                                  value={buildERC20TransferURI({
+                                    tokenAddress: evmChoice.tokenAddress,
+                                    to: lastResult.paymentOptions.x402.receiver,
+                                    amount: evmChoice.amount,
+                                    decimals: evmChoice.decimals,
+                                    chainId: evmChoice.chainId || evmChoice.network,
+                                  })}
+                                  size={200}
+                                />
+                              </div>
+                              <p className="text-xs text-yellow-500">
+                                {evmChoice.amount} {evmChoice.token} on {evmChoice.network}
+                              </p>
+                            </>
+                          )}
                         </>
                       )}
                       <button
                         onClick={() => {
                           setPaymentMethod('none')
                           setXamanQrPng(null)
+                          setEvmAssetIndex(0)
                         }}
                         className="mt-1 text-xs text-yellow-600 underline hover:text-yellow-800"
                       >
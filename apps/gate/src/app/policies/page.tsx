@@ -0,0 +1,184 @@
+'use client'
+
+import { useState } from 'react'
+import { simulatePolicy, type PolicySimulationReport } from '@/lib/api'
+
+type Layer = 'platform' | 'lot'
+
+const EXAMPLE_POLICY = JSON.stringify({ version: 2, capPerTxMinor: '5000' }, null, 2)
+
+export default function PolicySimulator() {
+  const lotId = process.env.NEXT_PUBLIC_LOT_ID || ''
+  const [policyJson, setPolicyJson] = useState(EXAMPLE_POLICY)
+  const [layer, setLayer] = useState<Layer>('lot')
+  const [limit, setLimit] = useState('100')
+  const [thisLotOnly, setThisLotOnly] = useState(Boolean(lotId))
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<PolicySimulationReport | null>(null)
+
+  async function handleRun() {
+    setError(null)
+    let policy: unknown
+    try {
+      policy = JSON.parse(policyJson)
+    } catch {
+      setError('Policy is not valid JSON')
+      return
+    }
+
+    setRunning(true)
+    try {
+      setReport(
+        await simulatePolicy({
+          policy,
+          layer,
+          limit: parseInt(limit, 10) || undefined,
+          lotId: thisLotOnly ? lotId : undefined,
+        }),
+      )
+    } catch (err) {
+      setReport(null)
+      setError(err instanceof Error ? err.message : 'Simulation failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const reasons = report
+    ? Object.entries(report.byReason).sort(([, a], [, b]) => b.count - a.count)
+    : []
+
+  return (
+    <div className="p-6">
+      <h1 className="mb-6 text-2xl font-bold text-parker-800">Policy Simulator</h1>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+          <h2 className="mb-1 font-semibold text-gray-700">Candidate Policy</h2>
+          <p className="mb-3 text-xs text-gray-400">
+            Replays recent exit decisions with this policy in place of the chosen layer. Nothing is
+            saved.
+          </p>
+          <div className="space-y-3">
+            <div>
+              <label className="mb-1 block text-sm text-gray-500">Replace layer</label>
+              <select
+                value={layer}
+                onChange={(e) => setLayer(e.target.value as Layer)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-parker-500 focus:outline-none"
+              >
+                <option value="lot">Lot policy</option>
+                <option value="platform">Platform policy</option>
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm text-gray-500">Policy (JSON)</label>
+              <textarea
+                value={policyJson}
+                onChange={(e) => setPolicyJson(e.target.value)}
+                rows={10}
+                spellCheck={false}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-xs focus:border-parker-500 focus:outline-none"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm text-gray-500">Decisions to replay</label>
+              <input
+                type="number"
+                value={limit}
+                min={1}
+                max={500}
+                onChange={(e) => setLimit(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-parker-500 focus:outline-none"
+              />
+            </div>
+            {lotId && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={thisLotOnly}
+                  onChange={(e) => setThisLotOnly(e.target.checked)}
+                />
+                Only sessions at {lotId}
+              </label>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              onClick={handleRun}
+              disabled={running}
+              className="rounded-lg bg-parker-600 px-6 py-3 font-medium text-white transition hover:bg-parker-700 disabled:opacity-50"
+            >
+              {running ? 'Simulating...' : 'Run Simulation'}
+            </button>
+          </div>
+        </section>
+
+        <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+          <h2 className="mb-3 font-semibold text-gray-700">Impact</h2>
+          {!report ? (
+            <p className="text-sm text-gray-400">Run a simulation to see which sessions change.</p>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {report.evaluated} decisions replayed, {report.flips.length} would change.
+              </p>
+
+              {Object.entries(report.transitions).length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(report.transitions).map(([transition, count]) => (
+                    <span
+                      key={transition}
+                      className="rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700"
+                    >
+                      {transition}: {count}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {reasons.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium text-gray-700">By reason</h3>
+                  <div className="space-y-1">
+                    {reasons.map(([reason, group]) => (
+                      <div key={reason} className="flex justify-between text-sm">
+                        <span className="font-mono text-xs text-gray-600">{reason}</span>
+                        <span className="text-gray-800">{group.count}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {report.flips.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium text-gray-700">Sessions</h3>
+                  <div className="max-h-96 space-y-2 overflow-y-auto">
+                    {report.flips.map((flip) => (
+                      <div
+                        key={flip.decisionId}
+                        className="border-b border-gray-50 py-2 text-sm last:border-0"
+                      >
+                        <div className="flex justify-between">
+                          <span className="font-medium text-gray-800">{flip.plateNumber}</span>
+                          <span className="text-xs text-gray-500">
+                            {flip.current.action} → {flip.candidate.action}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                          {flip.lotId} · {flip.candidate.stage} ·{' '}
+                          {flip.candidate.reasons.join(', ')}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,18 @@
 'use client'
 
 import { useState, useEffect, useMemo } from 'react'
-import type { SessionRecord } from '@parker/core'
-import { formatPlate, calculateFee } from '@parker/core'
+import type { OperatorOverrideAction, SessionComp, SessionRecord } from '@parker/core'
+import { formatPlate, calculateFee, fromMinor } from '@parker/core'
 import { getActiveSessionsByLot, getLotStatus } from '@/lib/api'
+import { SessionOverride } from '@/components/SessionOverride'
+
+function compLabel(comp: SessionComp, currency: string): string {
+  if (comp.percent !== undefined) return `-${comp.percent}%`
+  if (comp.amountMinor !== undefined) {
+    return `-${fromMinor(BigInt(comp.amountMinor), currency || 'USD')} ${currency}`
+  }
+  return ''
+}
 
 export default function Sessions() {
   const lotId = process.env.NEXT_PUBLIC_LOT_ID || ''
@@ -12,6 +21,10 @@ export default function Sessions() {
   const [apiError, setApiError] = useState(false)
   const [search, setSearch] = useState('')
   const [now, setNow] = useState(Date.now())
+  const [override, setOverride] = useState<{
+    session: SessionRecord
+    action: OperatorOverrideAction
+  } | null>(null)
 
   // Lot pricing config
   const [lotRate, setLotRate] = useState(12.0)
@@ -73,6 +86,15 @@ export default function Sessions() {
     return sessions.filter((s) => s.plateNumber.toLowerCase().replace(/[\s-]/g, '').includes(q))
   }, [sessions, search])
 
+  function handleOverrideDone(updated: SessionRecord) {
+    setOverride(null)
+    setSessions((current) =>
+      updated.status === 'closed'
+        ? current.filter((s) => s.id !== updated.id)
+        : current.map((s) => (s.id === updated.id ? updated : s)),
+    )
+  }
+
   return (
     <div className="p-6">
       <h1 className="mb-6 text-2xl font-bold text-parker-800">Active Sessions</h1>
@@ -105,18 +127,19 @@ export default function Sessions() {
               <th className="px-4 py-3">Duration</th>
               <th className="px-4 py-3">Est. Fee</th>
               <th className="px-4 py-3">NFT</th>
+              <th className="px-4 py-3" />
             </tr>
           </thead>
           <tbody>
             {loading ? (
               <tr>
-                <td colSpan={5} className="px-4 py-8 text-center text-gray-400">
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-400">
                   Loading...
                 </td>
               </tr>
             ) : filtered.length === 0 ? (
               <tr>
-                <td colSpan={5} className="px-4 py-8 text-center text-gray-400">
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-400">
                   {search ? 'No matching sessions' : 'No active sessions'}
                 </td>
               </tr>
@@ -127,7 +150,14 @@ export default function Sessions() {
                 const durationMin = Math.round(durationMs / 60_000)
                 const h = Math.floor(durationMin / 60)
                 const m = durationMin % 60
-                const fee = calculateFee(durationMin, lotRate, lotBilling, lotMaxFee)
+                const fee = calculateFee(
+                  durationMin,
+                  lotRate,
+                  lotBilling,
+                  lotMaxFee,
+                  0,
+                  lotCurrency,
+                )
 
                 return (
                   <tr key={session.id} className="border-t border-gray-100 hover:bg-gray-50">
@@ -143,10 +173,34 @@ export default function Sessions() {
                     </td>
                     <td className="px-4 py-3 font-medium text-gray-800">
                       {fee.toFixed(2)} {lotCurrency}
+                      {session.comp && (
+                        <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-700">
+                          {compLabel(session.comp, lotCurrency)}
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-gray-400">
                       {session.tokenId ? `#${session.tokenId}` : '--'}
                     </td>
+                    <td className="space-x-3 whitespace-nowrap px-4 py-3 text-right text-xs">
+                      {(['comp', 'void', 'force_close'] as const).map((action) => (
+                        <button
+                          key={action}
+                          onClick={() => setOverride({ session, action })}
+                          className={
+                            action === 'comp'
+                              ? 'text-parker-600 hover:text-parker-800'
+                              : 'text-red-600 hover:text-red-800'
+                          }
+                        >
+                          {action === 'force_close'
+                            ? 'Force close'
+                            : action === 'void'
+                              ? 'Void'
+                              : 'Comp'}
+                        </button>
+                      ))}
+                    </td>
                   </tr>
                 )
               })
@@ -154,6 +208,16 @@ export default function Sessions() {
           </tbody>
         </table>
       </div>
+
+      {override && (
+        <SessionOverride
+          session={override.session}
+          action={override.action}
+          currency={lotCurrency}
+          onClose={() => setOverride(null)}
+          onDone={handleOverrideDone}
+        />
+      )}
     </div>
   )
 }
@@ -1,11 +1,48 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import type { Lot } from '@parker/core'
+import type { DayOfWeek, Lot, TariffBand } from '@parker/core'
 import { getLotStatus } from '@/lib/api'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
 
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+interface BandForm {
+  name: string
+  ratePerHour: string
+  start: string
+  end: string
+  days: DayOfWeek[]
+  dates: string
+}
+
+function toBandForm(band: TariffBand): BandForm {
+  return {
+    name: band.name,
+    ratePerHour: band.ratePerHour.toString(),
+    start: band.start,
+    end: band.end,
+    days: band.days ?? [],
+    dates: (band.dates ?? []).join(','),
+  }
+}
+
+function toTariffBand(band: BandForm): TariffBand {
+  const dates = band.dates
+    .split(',')
+    .map((d) => d.trim())
+    .filter(Boolean)
+  return {
+    name: band.name.trim(),
+    ratePerHour: parseFloat(band.ratePerHour),
+    start: band.start,
+    end: band.end,
+    ...(band.days.length > 0 && { days: band.days }),
+    ...(dates.length > 0 && { dates }),
+  }
+}
+
 export default function Settings() {
   const lotId = process.env.NEXT_PUBLIC_LOT_ID || ''
   const [loading, setLoading] = useState(true)
@@ -22,7 +59,12 @@ export default function Settings() {
     gracePeriodMinutes: '0',
     currency: 'USD',
     paymentMethods: 'stripe,x402',
+    timezone: 'UTC',
+    dailyCapMode: 'rolling_24h',
+    riskApproval: '',
+    riskDeny: '',
   })
+  const [bands, setBands] = useState<BandForm[]>([])
 
   // Load lot settings
   useEffect(() => {
@@ -47,7 +89,12 @@ export default function Settings() {
             gracePeriodMinutes: data.gracePeriodMinutes?.toString() || '0',
             currency: cur,
             paymentMethods: (data.paymentMethods || ['stripe', 'x402']).join(','),
+            timezone: data.timezone || 'UTC',
+            dailyCapMode: data.dailyCapMode || 'rolling_24h',
+            riskApproval: data.riskThresholds?.requireApproval?.toString() || '',
+            riskDeny: data.riskThresholds?.deny?.toString() || '',
           })
+          setBands((data.tariff || []).map(toBandForm))
         }
       })
       .catch(() => {})
@@ -59,6 +106,42 @@ export default function Settings() {
     setMessage(null)
   }
 
+  function updateBand(index: number, patch: Partial<BandForm>) {
+    setBands((prev) => prev.map((b, i) => (i === index ? { ...b, ...patch } : b)))
+    setMessage(null)
+  }
+
+  function toggleBandDay(index: number, day: DayOfWeek) {
+    const current = bands[index].days
+    updateBand(index, {
+      days: current.includes(day) ? current.filter((d) => d !== day) : [...current, day].sort(),
+    })
+  }
+
+  function addBand() {
+    setBands((prev) => [
+      ...prev,
+      { name: '', ratePerHour: '', start: '22:00', end: '06:00', days: [], dates: '' },
+    ])
+    setMessage(null)
+  }
+
+  function removeBand(index: number) {
+    setBands((prev) => prev.filter((_, i) => i !== index))
+    setMessage(null)
+  }
+
+  function moveBand(index: number, direction: -1 | 1) {
+    setBands((prev) => {
+      const target = index + direction
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+    setMessage(null)
+  }
+
   async function handleSave() {
     setSaving(true)
     setMessage(null)
@@ -82,6 +165,15 @@ export default function Settings() {
                 .map((m) => m.trim())
                 .filter(Boolean)
             : undefined,
+          timezone: form.timezone || undefined,
+          dailyCapMode: form.dailyCapMode,
+          tariff: bands.map(toTariffBand),
+          riskThresholds: form.riskApproval
+            ? {
+                requireApproval: Number(form.riskApproval),
+                ...(form.riskDeny && { deny: Number(form.riskDeny) }),
+              }
+            : undefined,
         }),
       })
 
@@ -170,6 +262,123 @@ export default function Settings() {
               type="number"
               onChange={(v) => updateField('maxDailyFee', v)}
             />
+            <div>
+              <label className="mb-1 block text-sm text-gray-500">Daily cap applies per</label>
+              <select
+                value={form.dailyCapMode}
+                onChange={(e) => updateField('dailyCapMode', e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-parker-500 focus:outline-none"
+              >
+                <option value="rolling_24h">24 hours from entry</option>
+                <option value="calendar_day">Calendar day (lot timezone)</option>
+              </select>
+            </div>
+          </div>
+        </section>
+
+        {/* Tariff schedule */}
+        <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+          <h2 className="mb-1 font-semibold text-gray-700">Tariff Schedule</h2>
+          <p className="mb-3 text-xs text-gray-400">
+            Bands are checked top to bottom; the first match sets the rate. Time outside every band
+            is billed at the standard hourly rate. An end time at or before the start runs past
+            midnight.
+          </p>
+          <div className="space-y-3">
+            <Field
+              label="Timezone (IANA)"
+              value={form.timezone}
+              placeholder="Asia/Jerusalem"
+              onChange={(v) => updateField('timezone', v)}
+            />
+            {bands.map((band, i) => (
+              <div key={i} className="space-y-2 rounded-lg border border-gray-100 bg-gray-50 p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-gray-500">Band {i + 1}</span>
+                  <div className="flex gap-2 text-xs">
+                    <button
+                      onClick={() => moveBand(i, -1)}
+                      disabled={i === 0}
+                      className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    >
+                      Up
+                    </button>
+                    <button
+                      onClick={() => moveBand(i, 1)}
+                      disabled={i === bands.length - 1}
+                      className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    >
+                      Down
+                    </button>
+                    <button
+                      onClick={() => removeBand(i)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Field
+                    label="Name"
+                    value={band.name}
+                    placeholder="Night"
+                    onChange={(v) => updateBand(i, { name: v })}
+                  />
+                  <Field
+                    label={`Rate per Hour (${currency})`}
+                    value={band.ratePerHour}
+                    placeholder="4.00"
+                    type="number"
+                    onChange={(v) => updateBand(i, { ratePerHour: v })}
+                  />
+                  <Field
+                    label="Start"
+                    value={band.start}
+                    type="time"
+                    onChange={(v) => updateBand(i, { start: v })}
+                  />
+                  <Field
+                    label="End"
+                    value={band.end}
+                    type="time"
+                    onChange={(v) => updateBand(i, { end: v })}
+                  />
+                </div>
+                <div>
+                  <label className="mb-1 block text-sm text-gray-500">
+                    Days (none = every day)
+                  </label>
+                  <div className="flex flex-wrap gap-1">
+                    {DAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        onClick={() => toggleBandDay(i, day as DayOfWeek)}
+                        className={`rounded px-2 py-1 text-xs font-medium ${
+                          band.days.includes(day as DayOfWeek)
+                            ? 'bg-parker-600 text-white'
+                            : 'bg-white text-gray-600 ring-1 ring-gray-200'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <Field
+                  label="Event dates (YYYY-MM-DD, comma-separated)"
+                  value={band.dates}
+                  placeholder="2025-07-04"
+                  onChange={(v) => updateBand(i, { dates: v })}
+                />
+              </div>
+            ))}
+            <button
+              onClick={addBand}
+              className="w-full rounded-lg border border-dashed border-gray-300 py-2 text-sm text-gray-600 hover:border-parker-500 hover:text-parker-600"
+            >
+              + Add rate band
+            </button>
           </div>
         </section>
 
@@ -186,6 +395,32 @@ export default function Settings() {
           </div>
         </section>
 
+        {/* Risk */}
+        <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+          <h2 className="mb-1 font-semibold text-gray-700">Risk Thresholds</h2>
+          <p className="mb-3 text-xs text-gray-400">
+            Each entry and exit gets a risk score from 0 to 100 (low ALPR confidence, the plate
+            parked elsewhere, failed exits, payment failures, unusual fees). Leave empty to use the
+            platform default (approval at 80).
+          </p>
+          <div className="space-y-3">
+            <Field
+              label="Require approval at score"
+              value={form.riskApproval}
+              placeholder="80"
+              type="number"
+              onChange={(v) => updateField('riskApproval', v)}
+            />
+            <Field
+              label="Deny at score (optional)"
+              value={form.riskDeny}
+              placeholder="95"
+              type="number"
+              onChange={(v) => updateField('riskDeny', v)}
+            />
+          </div>
+        </section>
+
         {message && (
           <p
             className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useState } from 'react'
+import type { OperatorOverrideAction, OperatorOverrideReason, SessionRecord } from '@parker/core'
+import { OPERATOR_OVERRIDE_REASONS, formatPlate } from '@parker/core'
+import { compSession, forceCloseSession, voidSession } from '@/lib/api'
+
+const OPERATOR_ID_KEY = 'parker.operatorId'
+
+const ACTION_LABELS: Record<OperatorOverrideAction, string> = {
+  force_close: 'Force close',
+  void: 'Void',
+  comp: 'Comp',
+}
+
+const ACTION_HINTS: Record<OperatorOverrideAction, string> = {
+  force_close: 'Ends the session now. The fee stays owed.',
+  void: 'Ends the session with nothing owed.',
+  comp: 'Discounts the exit fee. The session stays open.',
+}
+
+interface SessionOverrideProps {
+  session: SessionRecord
+  action: OperatorOverrideAction
+  currency: string
+  onClose: () => void
+  onDone: (session: SessionRecord) => void
+}
+
+/** Operator override form: reason code, note and operator id are required for every action. */
+export function SessionOverride({
+  session,
+  action,
+  currency,
+  onClose,
+  onDone,
+}: SessionOverrideProps) {
+  const [reasonCode, setReasonCode] = useState<OperatorOverrideReason>(OPERATOR_OVERRIDE_REASONS[0])
+  const [note, setNote] = useState('')
+  const [operatorId, setOperatorId] = useState(
+    () => (typeof window !== 'undefined' && localStorage.getItem(OPERATOR_ID_KEY)) || '',
+  )
+  const [compMode, setCompMode] = useState<'percent' | 'amount'>('percent')
+  const [compValue, setCompValue] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+    if (!note.trim() || !operatorId.trim()) {
+      setError('Note and operator ID are required')
+      return
+    }
+
+    const request = { reasonCode, note: note.trim(), operatorId: operatorId.trim() }
+    setSubmitting(true)
+    try {
+      localStorage.setItem(OPERATOR_ID_KEY, request.operatorId)
+      let updated: SessionRecord
+      if (action === 'comp') {
+        const value = Number(compValue)
+        if (!Number.isFinite(value) || value <= 0) throw new Error('Enter a comp value')
+        updated = await compSession(
+          session.id,
+          compMode === 'percent' ? { ...request, percent: value } : { ...request, amount: value },
+        )
+      } else if (action === 'void') {
+        updated = await voidSession(session.id, request)
+      } else {
+        updated = await forceCloseSession(session.id, request)
+      }
+      onDone(updated)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Override failed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md space-y-4 rounded-xl bg-white p-6 shadow-2xl"
+      >
+        <div>
+          <h2 className="text-lg font-bold text-parker-800">
+            {ACTION_LABELS[action]} {formatPlate(session.plateNumber)}
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">{ACTION_HINTS[action]}</p>
+        </div>
+
+        <label className="block text-sm">
+          <span className="text-gray-600">Reason</span>
+          <select
+            value={reasonCode}
+            onChange={(e) => setReasonCode(e.target.value as OperatorOverrideReason)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 focus:border-parker-500 focus:outline-none"
+          >
+            {OPERATOR_OVERRIDE_REASONS.map((code) => (
+              <option key={code} value={code}>
+                {code.replace(/_/g, ' ').toLowerCase()}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {action === 'comp' && (
+          <div className="flex gap-2">
+            <select
+              value={compMode}
+              onChange={(e) => setCompMode(e.target.value as 'percent' | 'amount')}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-parker-500 focus:outline-none"
+            >
+              <option value="percent">% off</option>
+              <option value="amount">{currency || 'Amount'} off</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              step={compMode === 'percent' ? '1' : '0.01'}
+              max={compMode === 'percent' ? '100' : undefined}
+              value={compValue}
+              onChange={(e) => setCompValue(e.target.value)}
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-parker-500 focus:outline-none"
+            />
+          </div>
+        )}
+
+        <label className="block text-sm">
+          <span className="text-gray-600">Note</span>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            rows={3}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 focus:border-parker-500 focus:outline-none"
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="text-gray-600">Operator ID</span>
+          <input
+            type="text"
+            value={operatorId}
+            onChange={(e) => setOperatorId(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 focus:border-parker-500 focus:outline-none"
+          />
+        </label>
+
+        {error && <p className="rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="rounded-lg px-4 py-2 text-sm text-gray-500 hover:text-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="rounded-lg bg-parker-600 px-4 py-2 text-sm font-medium text-white hover:bg-parker-700 disabled:opacity-50"
+          >
+            {submitting ? 'Saving...' : ACTION_LABELS[action]}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react'
+
+import type { DebtSource } from '@parker/core'
+
+import { uploadOfflineExits, type OfflineExit } from '@/lib/api'
+
+// ---- Configuration ----
+
+const STORAGE_KEY = 'parker.offlineExits'
+/** Max number of queued exits (the API accepts up to 100 per upload). */
+const MAX_QUEUE_SIZE = 100
+
+// ---- Exit Queue (singleton, persisted in localStorage) ----
+
+/** Exits waiting to be uploaded, oldest first */
+let queue: OfflineExit[] = []
+let loaded = false
+let uploading = false
+const listeners = new Set<() => void>()
+
+function load() {
+  if (loaded || typeof window === 'undefined') return
+  loaded = true
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    if (Array.isArray(stored)) queue = stored
+  } catch {
+    queue = []
+  }
+}
+
+function save(next: OfflineExit[]) {
+  queue = next
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue))
+  } catch (error) {
+    console.error('[offline-exits] Failed to persist queue:', error)
+  }
+  listeners.forEach((l) => l())
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+function getSnapshot(): number {
+  load()
+  return queue.length
+}
+
+function getServerSnapshot(): number {
+  return 0
+}
+
+/** Upload the queue; exits the API answered for are dropped, the rest stay for the next try. */
+async function flush(lotId: string) {
+  if (uploading || queue.length === 0) return
+  uploading = true
+  const batch = queue.slice(0, MAX_QUEUE_SIZE)
+  try {
+    const results = await uploadOfflineExits(lotId, batch)
+    save(queue.filter((exit) => !batch.includes(exit)))
+    const recorded = results.filter((r) => r.status === 'recorded').length
+    console.log(`[offline-exits] Uploaded ${batch.length} exit(s), ${recorded} debt(s) recorded`)
+  } catch (error) {
+    console.warn('[offline-exits] Upload failed, retrying on reconnect:', (error as Error).message)
+  } finally {
+    uploading = false
+  }
+}
+
+// ---- Hook ----
+
+/**
+ * Exits the gate let through without payment, queued until the API can record them.
+ *
+ * The offline exit path (session cache) and Mirror Node fallback exits without a fee both
+ * open the gate with payment deferred. Each such exit is queued here and uploaded to
+ * POST /api/gate/offline-exits once the gate is connected again, where its fee becomes a
+ * debt of the plate. The queue survives page reloads.
+ *
+ * Usage:
+ *   const { pendingExitCount, queueExit } = useOfflineExits(lotId, wsConnected)
+ *   queueExit(plate, 'gate_offline')
+ */
+export function useOfflineExits(lotId: string | null, connected: boolean) {
+  const pendingExitCount = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+  const queueExit = useCallback(
+    (plateNumber: string, source: DebtSource, exitTime: string = new Date().toISOString()) => {
+      load()
+      // Keep the newest exits if the gate stays offline for long
+      save([...queue, { plateNumber, exitTime, source }].slice(-MAX_QUEUE_SIZE))
+      console.log(`[offline-exits] Queued ${plateNumber} (${source}), ${queue.length} pending`)
+    },
+    [],
+  )
+
+  // Upload whenever the gate (re)connects with exits pending
+  useEffect(() => {
+    if (lotId && connected && pendingExitCount > 0) void flush(lotId)
+  }, [lotId, connected, pendingExitCount])
+
+  return {
+    /** Number of exits waiting to be uploaded */
+    pendingExitCount,
+    /** Queue an exit that opened the gate without payment */
+    queueExit,
+  }
+}
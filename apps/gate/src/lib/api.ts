@@ -1,6 +1,13 @@
-import type { SessionRecord, LotStatus } from '@parker/core'
+import type {
+  DebtSource,
+  LotStatus,
+  OperatorOverrideReason,
+  PlateDebt,
+  SessionRecord,
+} from '@parker/core'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
+const GATE_API_KEY = process.env.NEXT_PUBLIC_GATE_API_KEY || ''
 
 /** Fetch helper */
 async function apiFetch<T>(
@@ -11,7 +18,10 @@ async function apiFetch<T>(
 
   const res = await fetch(`${API_URL}${path}`, {
     method,
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      'Content-Type': 'application/json',
+      ...(GATE_API_KEY && { 'x-gate-api-key': GATE_API_KEY }),
+    },
     body: body ? JSON.stringify(body) : undefined,
   })
 
@@ -38,3 +48,119 @@ export async function getActiveSessionsByLot(lotId: string): Promise<SessionReco
   // We'll extend the API to support this.
   return apiFetch<SessionRecord[]>(`/api/gate/lot/${encodeURIComponent(lotId)}/sessions`)
 }
+
+// ---- Offline exits ----
+
+/** An exit the gate let through while the API was unreachable, uploaded once it is back. */
+export interface OfflineExit {
+  plateNumber: string
+  /** ISO timestamp of the exit */
+  exitTime: string
+  source: DebtSource
+}
+
+export interface OfflineExitResult {
+  plateNumber: string
+  status: 'recorded' | 'no_fee' | 'no_session'
+  sessionId?: string
+  debt?: PlateDebt
+}
+
+/** Upload offline exits: each closes its session and records the fee as a debt of the plate. */
+export async function uploadOfflineExits(
+  lotId: string,
+  exits: OfflineExit[],
+): Promise<OfflineExitResult[]> {
+  const { results } = await apiFetch<{ results: OfflineExitResult[] }>('/api/gate/offline-exits', {
+    method: 'POST',
+    body: { lotId, exits },
+  })
+  return results
+}
+
+// ---- Policy API ----
+
+export type PolicyAction = 'ALLOW' | 'DENY' | 'REQUIRE_APPROVAL'
+
+export interface PolicyReplayOutcome {
+  action: PolicyAction
+  reasons: string[]
+  stage: 'entry' | 'payment'
+}
+
+export interface PolicySimulationReport {
+  evaluated: number
+  unchanged: number
+  transitions: Record<string, number>
+  byReason: Record<string, { count: number; sessionIds: string[] }>
+  flips: {
+    decisionId: string
+    sessionId: string
+    plateNumber: string
+    lotId: string
+    recordedAction: string
+    current: PolicyReplayOutcome
+    candidate: PolicyReplayOutcome
+  }[]
+}
+
+export interface PolicySimulationRequest {
+  /** Candidate policy document, swapped into `layer` (default platform) */
+  policy?: unknown
+  layer?: 'platform' | 'owner' | 'vehicle' | 'lot'
+  /** Or a full candidate stack */
+  stack?: unknown
+  limit?: number
+  lotId?: string
+}
+
+/** Dry-run a candidate policy against recent exit decisions. */
+export async function simulatePolicy(
+  request: PolicySimulationRequest,
+): Promise<PolicySimulationReport> {
+  return apiFetch<PolicySimulationReport>('/api/policies/simulate', {
+    method: 'POST',
+    body: request,
+  })
+}
+
+// ---- Operator overrides ----
+
+export interface OperatorOverrideRequest {
+  reasonCode: OperatorOverrideReason
+  note: string
+  operatorId: string
+}
+
+/** Close a session without payment (fee stays owed; e.g. towed vehicle, barrier opened by hand). */
+export async function forceCloseSession(
+  sessionId: string,
+  request: OperatorOverrideRequest,
+): Promise<SessionRecord> {
+  return apiFetch<SessionRecord>(`/api/sessions/${encodeURIComponent(sessionId)}/force-close`, {
+    method: 'POST',
+    body: request,
+  })
+}
+
+/** Close a session with nothing owed (e.g. equipment fault, duplicate session). */
+export async function voidSession(
+  sessionId: string,
+  request: OperatorOverrideRequest,
+): Promise<SessionRecord> {
+  return apiFetch<SessionRecord>(`/api/sessions/${encodeURIComponent(sessionId)}/void`, {
+    method: 'POST',
+    body: request,
+  })
+}
+
+/** Discount the exit fee of an open session by a percentage or a fixed amount (major units). */
+export async function compSession(
+  sessionId: string,
+  request: OperatorOverrideRequest & ({ percent: number } | { amount: number }),
+): Promise<SessionRecord> {
+  return apiFetch<SessionRecord>(`/api/sessions/${encodeURIComponent(sessionId)}/comp`, {
+    method: 'POST',
+    body: request,
+  })
+}
@@ -1,3 +1,5 @@
+import { EVM_TOKENS, getEvmChain } from './evm-assets'
+
 // Contract addresses — update after deployment
 
 // Base Sepolia: DriverRegistry (EVM)
@@ -71,10 +73,13 @@ export const DRIVER_REGISTRY_ABI = [
   },
 ] as const
 
-// USDC contract addresses by network (used for EIP-681 QR codes and payment verification)
-export const USDC_ADDRESSES: Record<string, `0x${string}`> = {
-  'base-sepolia': '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
-}
+// USDC contract addresses by network name, from the EVM token registry (see ./evm-assets)
+export const USDC_ADDRESSES: Record<string, `0x${string}`> = Object.fromEntries(
+  EVM_TOKENS.filter((t) => t.symbol === 'USDC').map((t) => [
+    getEvmChain(t.chainId)!.network,
+    t.address,
+  ]),
+)
 
 // Note: PARKING_NFT_ABI removed — parking NFTs are now managed via Hedera Token Service
 // (native HTS, not EVM). See @parker/hedera package for NFT operations.
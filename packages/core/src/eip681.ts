@@ -9,11 +9,7 @@
  * @see https://eips.ethereum.org/EIPS/eip-681
  */
 
-/** Map of chain name → EIP-155 chain ID */
-const CHAIN_IDS: Record<string, number> = {
-  'base-sepolia': 84532,
-  base: 8453,
-}
+import { getEvmChain } from './evm-assets'
 
 export interface BuildERC20TransferURIOptions {
   /** ERC-20 token contract address */
@@ -24,7 +20,7 @@ export interface BuildERC20TransferURIOptions {
   amount: string
   /** Token decimals (default: 6 for USDC) */
   decimals?: number
-  /** Chain name (e.g. "base-sepolia") or numeric chain ID */
+  /** Network name from the EVM chain registry (e.g. "base-sepolia") or numeric chain ID */
   chainId?: string | number
 }
 
@@ -42,7 +38,7 @@ export function buildERC20TransferURI({
   chainId = 'base-sepolia',
 }: BuildERC20TransferURIOptions): string {
   // Resolve chain ID from name if needed
-  const numericChainId = typeof chainId === 'number' ? chainId : CHAIN_IDS[chainId]
+  const numericChainId = typeof chainId === 'number' ? chainId : getEvmChain(chainId)?.chainId
 
   // Convert human-readable amount to smallest unit (e.g. 1.50 USDC → 1500000)
   const amountInSmallestUnit = parseAmountToSmallestUnit(amount, decimals)
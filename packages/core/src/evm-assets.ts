@@ -0,0 +1,168 @@
+/**
+ * EVM chain + token registry for stablecoin settlement.
+ *
+ * Lots accept (chainId, token) pairs from this registry; quotes, payment watchers and
+ * EIP-681 QR codes all resolve chains and tokens here.
+ */
+
+export interface EvmChain {
+  /** EIP-155 chain ID */
+  chainId: number
+  /** x402 network name (e.g. "base-sepolia") */
+  network: string
+  /** Display name */
+  name: string
+  testnet: boolean
+}
+
+export interface EvmToken {
+  chainId: number
+  /** Token symbol (e.g. "USDC", "EURC") */
+  symbol: string
+  /** ERC-20 contract address (checksummed) */
+  address: `0x${string}`
+  decimals: number
+  /** ISO 4217 currency the token tracks (FX target for quotes) */
+  currency: string
+  /** EIP-712 domain name and version of the token's EIP-3009 transferWithAuthorization */
+  eip3009?: { name: string; version: string }
+}
+
+/** A (chainId, token address) pair a lot accepts for EVM settlement */
+export interface LotEvmAsset {
+  chainId: number
+  token: string
+}
+
+export const EVM_CHAINS: EvmChain[] = [
+  { chainId: 8453, network: 'base', name: 'Base', testnet: false },
+  { chainId: 84532, network: 'base-sepolia', name: 'Base Sepolia', testnet: true },
+  { chainId: 137, network: 'polygon', name: 'Polygon', testnet: false },
+  { chainId: 80002, network: 'polygon-amoy', name: 'Polygon Amoy', testnet: true },
+  { chainId: 42161, network: 'arbitrum', name: 'Arbitrum One', testnet: false },
+  { chainId: 421614, network: 'arbitrum-sepolia', name: 'Arbitrum Sepolia', testnet: true },
+]
+
+export const EVM_TOKENS: EvmToken[] = [
+  // Base
+  {
+    chainId: 8453,
+    symbol: 'USDC',
+    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    decimals: 6,
+    currency: 'USD',
+    eip3009: { name: 'USD Coin', version: '2' },
+  },
+  {
+    chainId: 8453,
+    symbol: 'EURC',
+    address: '0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42',
+    decimals: 6,
+    currency: 'EUR',
+    eip3009: { name: 'EURC', version: '2' },
+  },
+  // Base Sepolia
+  {
+    chainId: 84532,
+    symbol: 'USDC',
+    address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    decimals: 6,
+    currency: 'USD',
+    eip3009: { name: 'USDC', version: '2' },
+  },
+  {
+    chainId: 84532,
+    symbol: 'EURC',
+    address: '0x808456652fdb597867f38412077A9182bf77359F',
+    decimals: 6,
+    currency: 'EUR',
+    eip3009: { name: 'EURC', version: '2' },
+  },
+  // Polygon
+  {
+    chainId: 137,
+    symbol: 'USDC',
+    address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+    decimals: 6,
+    currency: 'USD',
+    eip3009: { name: 'USD Coin', version: '2' },
+  },
+  {
+    chainId: 80002,
+    symbol: 'USDC',
+    address: '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582',
+    decimals: 6,
+    currency: 'USD',
+    eip3009: { name: 'USDC', version: '2' },
+  },
+  // Arbitrum
+  {
+    chainId: 42161,
+    symbol: 'USDC',
+    address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    decimals: 6,
+    currency: 'USD',
+    eip3009: { name: 'USD Coin', version: '2' },
+  },
+  {
+    chainId: 421614,
+    symbol: 'USDC',
+    address: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+    decimals: 6,
+    currency: 'USD',
+    eip3009: { name: 'USDC', version: '2' },
+  },
+]
+
+/** Look up a chain by chain ID or network name. */
+export function getEvmChain(chainIdOrNetwork: number | string): EvmChain | undefined {
+  return EVM_CHAINS.find((c) =>
+    typeof chainIdOrNetwork === 'number'
+      ? c.chainId === chainIdOrNetwork
+      : c.network === chainIdOrNetwork,
+  )
+}
+
+/** Look up a token on a chain by contract address (any case) or symbol. */
+export function getEvmToken(chainId: number, addressOrSymbol: string): EvmToken | undefined {
+  const key = addressOrSymbol.toLowerCase()
+  return EVM_TOKENS.find(
+    (t) =>
+      t.chainId === chainId && (t.address.toLowerCase() === key || t.symbol.toLowerCase() === key),
+  )
+}
+
+/** Registry tokens on a chain */
+export function getEvmTokensForChain(chainId: number): EvmToken[] {
+  return EVM_TOKENS.filter((t) => t.chainId === chainId)
+}
+
+/** Registry tokens for a lot's accepted pairs, in lot order (unknown pairs are skipped). */
+export function resolveLotEvmTokens(assets: LotEvmAsset[]): EvmToken[] {
+  return assets.flatMap((a) => getEvmToken(a.chainId, a.token) ?? [])
+}
+
+/**
+ * Validate a lot's accepted EVM assets. Returns an error message, or null when valid.
+ * Every pair must be in the registry; duplicates are rejected.
+ */
+export function validateLotEvmAssets(value: unknown): string | null {
+  if (!Array.isArray(value)) return 'evmAssets must be an array of { chainId, token }'
+
+  const seen = new Set<string>()
+  for (let i = 0; i < value.length; i++) {
+    const entry = value[i] as Partial<LotEvmAsset> | null
+    const at = `evmAssets[${i}]`
+    if (!entry || typeof entry !== 'object') return `${at} must be an object`
+    if (typeof entry.chainId !== 'number' || !getEvmChain(entry.chainId)) {
+      return `${at}.chainId is not a supported chain`
+    }
+    if (typeof entry.token !== 'string' || !getEvmToken(entry.chainId, entry.token)) {
+      return `${at}.token is not a supported token on chain ${entry.chainId}`
+    }
+    const key = `${entry.chainId}:${getEvmToken(entry.chainId, entry.token)!.address}`
+    if (seen.has(key)) return `${at} is listed twice`
+    seen.add(key)
+  }
+  return null
+}
@@ -3,6 +3,10 @@ export * from './state-machine'
 export * from './lifecycle-events'
 export * from './chain'
 export * from './utils'
+export * from './money'
+export * from './settlement-amount'
+export * from './tariff'
+export * from './evm-assets'
 export * from './contracts'
 export * from './eip681'
 export * from './xrpl'
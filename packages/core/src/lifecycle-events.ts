@@ -4,18 +4,40 @@ export const LIFECYCLE_EVENT = {
   POLICY_GRANT_ISSUED: 'POLICY_GRANT_ISSUED',
   SESSION_BUDGET_AUTHORIZATION_ISSUED: 'SESSION_BUDGET_AUTHORIZATION.ISSUED',
   POLICY_GRANT_DENIED: 'POLICY_GRANT_DENIED',
+  POLICY_GRANT_EXPIRED: 'POLICY_GRANT_EXPIRED',
   PAYMENT_DECISION_CREATED: 'PAYMENT_DECISION_CREATED',
   SIGNED_PAYMENT_AUTHORIZATION_ISSUED: 'SIGNED_PAYMENT_AUTHORIZATION.ISSUED',
   PAYMENT_DECISION_EXPIRED: 'PAYMENT_DECISION_EXPIRED',
+  PAYMENT_INTENT_EXPIRED: 'PAYMENT_INTENT_EXPIRED',
   PAYMENT_APPROVAL_REQUIRED: 'PAYMENT_APPROVAL_REQUIRED',
   PAYMENT_APPROVED: 'PAYMENT_APPROVED',
   PAYMENT_REJECTED: 'PAYMENT_REJECTED',
   SETTLEMENT_DETECTED: 'SETTLEMENT_DETECTED',
   SETTLEMENT_VERIFIED: 'SETTLEMENT_VERIFIED',
   SETTLEMENT_REJECTED: 'SETTLEMENT_REJECTED',
+  SETTLEMENT_REORGED: 'SETTLEMENT_REORGED',
+  SETTLEMENT_PARTIAL: 'SETTLEMENT_PARTIAL',
   POLICY_ENFORCEMENT_PASSED: 'POLICY_ENFORCEMENT_PASSED',
   POLICY_ENFORCEMENT_FAILED: 'POLICY_ENFORCEMENT_FAILED',
+  PAYMENT_REVIEW_OPENED: 'PAYMENT_REVIEW_OPENED',
+  PAYMENT_REVIEW_RESOLVED: 'PAYMENT_REVIEW_RESOLVED',
+  REFUND_REQUESTED: 'REFUND_REQUESTED',
+  REFUND_APPROVED: 'REFUND_APPROVED',
+  REFUND_EXECUTED: 'REFUND_EXECUTED',
+  REFUND_CONFIRMED: 'REFUND_CONFIRMED',
+  REFUND_FAILED: 'REFUND_FAILED',
+  DISPUTE_OPENED: 'DISPUTE_OPENED',
+  DISPUTE_EVIDENCE_COLLECTED: 'DISPUTE_EVIDENCE_COLLECTED',
+  DISPUTE_RESOLVED: 'DISPUTE_RESOLVED',
+  DEBT_RECORDED: 'DEBT_RECORDED',
+  DEBT_COLLECTED: 'DEBT_COLLECTED',
+  CREDIT_RECORDED: 'CREDIT_RECORDED',
   SESSION_CLOSED: 'SESSION_CLOSED',
+  SESSION_FORCE_CLOSED: 'SESSION_FORCE_CLOSED',
+  SESSION_VOIDED: 'SESSION_VOIDED',
+  SESSION_COMPED: 'SESSION_COMPED',
+  SESSION_NFT_BURNED: 'SESSION_NFT_BURNED',
+  ALPR_READ: 'ALPR_READ',
   SESSION_STATE_TRANSITION: 'SESSION_STATE_TRANSITION',
   RISK_SIGNAL: 'RISK_SIGNAL',
 } as const
@@ -0,0 +1,189 @@
+/**
+ * Integer money arithmetic.
+ *
+ * Amounts are bigint minor units of an ISO 4217 currency (cents for USD, yen for JPY,
+ * fils for BHD). Conversions to and from decimals are exact; every division takes an
+ * explicit rounding mode. Fee, FX and cap arithmetic should go through here so that the
+ * amount a policy checks and the amount a driver sees are the same integer.
+ */
+
+/**
+ * Rounding for divisions that don't come out even:
+ * - floor / ceil: toward -∞ / +∞
+ * - half_up: nearest, ties away from zero
+ * - half_even: nearest, ties to the even neighbour (banker's rounding)
+ */
+export type RoundingMode = 'floor' | 'ceil' | 'half_up' | 'half_even'
+
+/** ISO 4217 minor-unit exponents that differ from the default of 2 */
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  // Zero-decimal currencies
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  // Three-decimal currencies
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+}
+
+const DEFAULT_EXPONENT = 2
+const DECIMAL_RE = /^([+-])?(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i
+
+/** Minor-unit exponent for an ISO 4217 currency code (2 unless listed otherwise). */
+export function getCurrencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? DEFAULT_EXPONENT
+}
+
+function pow10(exp: number): bigint {
+  return 10n ** BigInt(exp)
+}
+
+/**
+ * Divide n by d (d > 0) with the given rounding mode.
+ */
+export function divRound(n: bigint, d: bigint, mode: RoundingMode): bigint {
+  if (d <= 0n) throw new RangeError('divRound: divisor must be positive')
+  const q = n / d
+  const r = n % d
+  if (r === 0n) return q
+
+  const negative = n < 0n
+  const awayFromZero = negative ? q - 1n : q + 1n
+  switch (mode) {
+    case 'floor':
+      return negative ? q - 1n : q
+    case 'ceil':
+      return negative ? q : q + 1n
+    case 'half_up': {
+      const twice = (r < 0n ? -r : r) * 2n
+      return twice >= d ? awayFromZero : q
+    }
+    case 'half_even': {
+      const twice = (r < 0n ? -r : r) * 2n
+      if (twice > d) return awayFromZero
+      if (twice < d) return q
+      return q % 2n === 0n ? q : awayFromZero
+    }
+  }
+}
+
+/**
+ * Parse a decimal (string or number) exactly as digits / 10^scale.
+ * Numbers use their shortest round-trip representation, so 2.675 parses as "2.675".
+ */
+function parseDecimal(value: string | number): { digits: bigint; scale: number } {
+  const str = typeof value === 'number' ? String(value) : value.trim()
+  const m = DECIMAL_RE.exec(str)
+  if (!m) throw new RangeError(`Invalid decimal amount: ${str}`)
+
+  const [, sign, intPart, fracPart = '', expPart] = m
+  const exp = expPart ? parseInt(expPart, 10) : 0
+  let digits = BigInt(intPart + fracPart)
+  let scale = fracPart.length - exp
+  if (scale < 0) {
+    digits *= pow10(-scale)
+    scale = 0
+  }
+  return { digits: sign === '-' ? -digits : digits, scale }
+}
+
+/**
+ * Scale a decimal amount to an integer at `exponent` decimal places.
+ * e.g. decimalToUnits("12.345", 2, "half_up") → 1235n
+ */
+export function decimalToUnits(
+  amount: string | number,
+  exponent: number,
+  mode: RoundingMode = 'half_up',
+): bigint {
+  const { digits, scale } = parseDecimal(amount)
+  if (scale <= exponent) return digits * pow10(exponent - scale)
+  return divRound(digits, pow10(scale - exponent), mode)
+}
+
+/** Render an integer at `exponent` decimal places as a decimal string (1235n, 2 → "12.35"). */
+export function unitsToDecimal(units: bigint, exponent: number): string {
+  const negative = units < 0n
+  const abs = (negative ? -units : units).toString().padStart(exponent + 1, '0')
+  const whole = abs.slice(0, abs.length - exponent)
+  const frac = abs.slice(abs.length - exponent)
+  return `${negative ? '-' : ''}${whole}${exponent > 0 ? `.${frac}` : ''}`
+}
+
+/** Decimal amount in `currency` → minor units. */
+export function toMinor(
+  amount: string | number,
+  currency: string,
+  mode: RoundingMode = 'half_up',
+): bigint {
+  return decimalToUnits(amount, getCurrencyExponent(currency), mode)
+}
+
+/** Minor units → decimal string with the currency's exponent ("12.50", "1500", "1.250"). */
+export function fromMinor(amountMinor: bigint, currency: string): string {
+  return unitsToDecimal(amountMinor, getCurrencyExponent(currency))
+}
+
+/** Minor units → number, for display fields and legacy float columns. */
+export function minorToNumber(amountMinor: bigint, currency: string): number {
+  return Number(fromMinor(amountMinor, currency))
+}
+
+/** Format minor units for display, e.g. formatMinor(1250n, "EUR") → "12.50 EUR". */
+export function formatMinor(amountMinor: bigint, currency: string): string {
+  return `${fromMinor(amountMinor, currency)} ${currency.toUpperCase()}`
+}
+
+/** amount × numerator / denominator, rounded. Used to prorate rates over durations. */
+export function mulDivMinor(
+  amount: bigint,
+  numerator: bigint,
+  denominator: bigint,
+  mode: RoundingMode = 'half_up',
+): bigint {
+  return divRound(amount * numerator, denominator, mode)
+}
+
+/**
+ * Convert an integer amount between exponents at a decimal FX rate.
+ * e.g. 1850n EUR cents (exp 2) at rate "1.08" to USDC atomic (exp 6) → 19_980_000n
+ */
+export function convertUnits(
+  amount: bigint,
+  fromExponent: number,
+  toExponent: number,
+  rate: string | number,
+  mode: RoundingMode = 'half_up',
+): bigint {
+  const { digits, scale } = parseDecimal(rate)
+  if (digits <= 0n) throw new RangeError(`FX rate must be positive: ${rate}`)
+  return divRound(amount * digits * pow10(toExponent), pow10(scale + fromExponent), mode)
+}
+
+export function minMinor(a: bigint, b: bigint): bigint {
+  return a < b ? a : b
+}
+
+export function sumMinor(amounts: Iterable<bigint>): bigint {
+  let total = 0n
+  for (const a of amounts) total += a
+  return total
+}
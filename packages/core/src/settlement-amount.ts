@@ -0,0 +1,134 @@
+/**
+ * Settlement amount check: payments received on a rail against the quoted amount. Shared by
+ * the API watchers and the rail verifiers in @parker/settlement-core.
+ */
+
+/**
+ * Amount verification stance for settlement (see checkSettlementAmount).
+ * - strictExact: on-chain amount must equal the challenge amount (no partials, no tolerance).
+ * - tolerant: under-payment within a tolerance is accepted, over-payment is accepted and
+ *   reported as credit, and (when allowed) partial payments summing to the amount count.
+ */
+export type AmountVerificationStance = 'strictExact' | 'tolerant'
+
+/**
+ * How settled amounts are checked against the expected (quoted) amount.
+ * - underpaymentBps: tolerant only; shortfall accepted, in basis points of the expected amount
+ * - allowPartial: tolerant only; several payments are summed towards the expected amount
+ */
+export interface AmountTolerance {
+  stance: AmountVerificationStance
+  underpaymentBps?: number
+  allowPartial?: boolean
+}
+
+export const STRICT_EXACT: AmountTolerance = { stance: 'strictExact' }
+
+/** Largest configurable under-payment tolerance (10%). */
+export const MAX_UNDERPAYMENT_BPS = 1_000
+
+/**
+ * Result of an amount check. Amounts are atomic (smallest unit) strings, in the units of the
+ * expected amount.
+ */
+export interface AmountCheck {
+  stance: AmountVerificationStance
+  expected: string
+  /** Sum of the payments checked */
+  received: string
+  /** received - expected: negative when short, positive when over */
+  delta: string
+  outcome: 'exact' | 'underpaid' | 'overpaid'
+  /** The payments settle the expected amount */
+  accepted: boolean
+  /** Not accepted, but further payments may complete it (tolerant with allowPartial) */
+  awaitingMore: boolean
+  /** Number of payments summed */
+  payments: number
+  /** Over-payment to record as driver credit ("0" unless accepted and overpaid) */
+  credit: string
+}
+
+/**
+ * Check payments against the expected amount.
+ * - strictExact: a single payment of exactly the expected amount
+ * - tolerant: a shortfall up to underpaymentBps is accepted, any over-payment is accepted and
+ *   reported as credit; with allowPartial, several payments count towards the expected amount
+ */
+export function checkSettlementAmount(
+  expected: bigint | string,
+  payments: Array<bigint | string>,
+  tolerance: AmountTolerance = STRICT_EXACT,
+): AmountCheck {
+  const expectedAmount = BigInt(expected)
+  const amounts = payments.map((p) => BigInt(p))
+  if (amounts.some((a) => a < 0n)) {
+    throw new RangeError('Payment amounts must not be negative')
+  }
+  const received = amounts.reduce((sum, a) => sum + a, 0n)
+  const delta = received - expectedAmount
+  const outcome = delta === 0n ? 'exact' : delta < 0n ? 'underpaid' : 'overpaid'
+
+  let accepted: boolean
+  let awaitingMore = false
+  if (tolerance.stance === 'tolerant') {
+    const partialOk = amounts.length === 1 || tolerance.allowPartial === true
+    const allowedShortfall = (expectedAmount * BigInt(tolerance.underpaymentBps ?? 0)) / 10_000n
+    accepted = amounts.length > 0 && partialOk && -delta <= allowedShortfall
+    awaitingMore = !accepted && delta < 0n && tolerance.allowPartial === true
+  } else {
+    accepted = amounts.length === 1 && delta === 0n
+  }
+
+  return {
+    stance: tolerance.stance,
+    expected: expectedAmount.toString(),
+    received: received.toString(),
+    delta: delta.toString(),
+    outcome,
+    accepted,
+    awaitingMore,
+    payments: amounts.length,
+    credit: accepted && delta > 0n ? delta.toString() : '0',
+  }
+}
+
+/** Validate an amount tolerance from a request body; returns an error message or null. */
+export function validateAmountTolerance(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'amountTolerance must be an object'
+  }
+  const { stance, underpaymentBps, allowPartial, ...rest } = value as Record<string, unknown>
+  const unknown = Object.keys(rest)
+  if (unknown.length > 0) return `amountTolerance has unknown field: ${unknown[0]}`
+  if (stance !== 'strictExact' && stance !== 'tolerant') {
+    return "amountTolerance.stance must be 'strictExact' or 'tolerant'"
+  }
+  if (stance === 'strictExact' && (underpaymentBps !== undefined || allowPartial !== undefined)) {
+    return 'amountTolerance.underpaymentBps and allowPartial apply to the tolerant stance only'
+  }
+  if (
+    underpaymentBps !== undefined &&
+    (!Number.isInteger(underpaymentBps) ||
+      (underpaymentBps as number) < 0 ||
+      (underpaymentBps as number) > MAX_UNDERPAYMENT_BPS)
+  ) {
+    return `amountTolerance.underpaymentBps must be an integer between 0 and ${MAX_UNDERPAYMENT_BPS}`
+  }
+  if (allowPartial !== undefined && typeof allowPartial !== 'boolean') {
+    return 'amountTolerance.allowPartial must be a boolean'
+  }
+  return null
+}
+
+/** Payments do not settle the expected amount under the stance used (code "invalid_amount"). */
+export class AmountVerificationError extends Error {
+  readonly code = 'invalid_amount'
+
+  constructor(readonly amountCheck: AmountCheck) {
+    super(
+      `Amount ${amountCheck.received} does not settle ${amountCheck.expected} (${amountCheck.stance})`,
+    )
+    this.name = 'AmountVerificationError'
+  }
+}
@@ -0,0 +1,373 @@
+import type {
+  FeeBandBreakdown,
+  FeeDayBreakdown,
+  FeeQuote,
+  Lot,
+  SessionComp,
+  TariffBand,
+} from './types'
+import { minMinor, minorToNumber, mulDivMinor, sumMinor, toMinor } from './money'
+
+/** Lot fields the fee engine needs (currency defaults to USD) */
+export type TariffLot = Pick<
+  Lot,
+  | 'ratePerHour'
+  | 'billingMinutes'
+  | 'maxDailyFee'
+  | 'gracePeriodMinutes'
+  | 'timezone'
+  | 'tariff'
+  | 'dailyCapMode'
+> &
+  Partial<Pick<Lot, 'currency'>>
+
+/** Label used for time not covered by any tariff band */
+export const STANDARD_BAND = 'Standard'
+
+const MINUTES_PER_DAY = 24 * 60
+const DAY_MS = MINUTES_PER_DAY * 60_000
+const HOUR_MS = 3_600_000n
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+interface LocalTime {
+  /** YYYY-MM-DD in the lot's timezone */
+  date: string
+  /** YYYY-MM-DD of the previous local day (for bands wrapping past midnight) */
+  prevDate: string
+  day: number
+  /** Minutes since local midnight, including fractional seconds */
+  minute: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone)
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    })
+    formatters.set(timeZone, fmt)
+  }
+  return fmt
+}
+
+function toLocalTime(ms: number, timeZone: string): LocalTime {
+  const parts: Record<string, string> = {}
+  for (const p of getFormatter(timeZone).formatToParts(new Date(ms))) parts[p.type] = p.value
+
+  const year = Number(parts.year)
+  const month = Number(parts.month)
+  const day = Number(parts.day)
+  const prev = new Date(Date.UTC(year, month - 1, day - 1))
+  const millis = ((ms % 1000) + 1000) % 1000
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    prevDate: prev.toISOString().slice(0, 10),
+    day: WEEKDAYS[parts.weekday],
+    minute:
+      Number(parts.hour) * 60 + Number(parts.minute) + Number(parts.second) / 60 + millis / 60_000,
+  }
+}
+
+function parseTime(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number)
+  return h * 60 + m
+}
+
+/** True if the band starts on the given local day (weekday and/or event date filters). */
+function startsOn(band: TariffBand, date: string, weekday: number): boolean {
+  if (band.days && band.days.length > 0 && !(band.days as number[]).includes(weekday)) return false
+  if (band.dates && band.dates.length > 0 && !band.dates.includes(date)) return false
+  return true
+}
+
+function bandCovers(band: TariffBand, t: LocalTime): boolean {
+  const start = parseTime(band.start)
+  const end = parseTime(band.end)
+
+  if (start < end) {
+    return t.minute >= start && t.minute < end && startsOn(band, t.date, t.day)
+  }
+  // Wrapping band (e.g. 22:00–06:00, or 00:00–00:00 for the whole day)
+  if (t.minute >= start) return startsOn(band, t.date, t.day)
+  if (t.minute < end) return startsOn(band, t.prevDate, (t.day + 6) % 7)
+  return false
+}
+
+/**
+ * Minutes from `minute` to the next local time at which a band could start or stop
+ * applying (any band boundary, or midnight when day/date filters change).
+ */
+function minutesToNextBoundary(minute: number, bands: TariffBand[]): number {
+  let next = MINUTES_PER_DAY
+  for (const band of bands) {
+    for (const b of [parseTime(band.start), parseTime(band.end)]) {
+      if (b > minute && b < next) next = b
+    }
+  }
+  return next - minute
+}
+
+/**
+ * Validate a tariff schedule. Returns an error message, or null when valid.
+ */
+export function validateTariff(tariff: unknown): string | null {
+  if (!Array.isArray(tariff)) return 'tariff must be an array of bands'
+
+  const names = new Set<string>()
+  for (let i = 0; i < tariff.length; i++) {
+    const band = tariff[i] as Partial<TariffBand> | null
+    const at = `tariff[${i}]`
+    if (!band || typeof band !== 'object') return `${at} must be an object`
+    if (typeof band.name !== 'string' || !band.name.trim()) return `${at}.name is required`
+    if (names.has(band.name)) return `${at}.name must be unique`
+    names.add(band.name)
+    if (typeof band.ratePerHour !== 'number' || !Number.isFinite(band.ratePerHour)) {
+      return `${at}.ratePerHour must be a valid number`
+    }
+    if (band.ratePerHour < 0) return `${at}.ratePerHour must not be negative`
+    if (typeof band.start !== 'string' || !TIME_RE.test(band.start)) {
+      return `${at}.start must be HH:MM`
+    }
+    if (typeof band.end !== 'string' || !TIME_RE.test(band.end)) {
+      return `${at}.end must be HH:MM`
+    }
+    if (band.days !== undefined) {
+      if (
+        !Array.isArray(band.days) ||
+        band.days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)
+      ) {
+        return `${at}.days must be weekday numbers 0-6`
+      }
+    }
+    if (band.dates !== undefined) {
+      if (
+        !Array.isArray(band.dates) ||
+        band.dates.some((d) => typeof d !== 'string' || !DATE_RE.test(d))
+      ) {
+        return `${at}.dates must be YYYY-MM-DD strings`
+      }
+    }
+  }
+  return null
+}
+
+/** True if `timeZone` is an IANA timezone the runtime understands. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+interface BandTime {
+  band: string
+  ratePerHour: number
+  rateMinor: bigint
+  ms: number
+}
+
+/** Keyed by index into the tariff (-1 for the lot's base rate), so same-named bands stay apart */
+type BandTimes = Map<number, BandTime>
+
+interface DayWindow {
+  key: string
+  date: string
+  startMs: number
+  endMs: number
+  bands: BandTimes
+}
+
+function addTime(bands: BandTimes, index: number, rate: Omit<BandTime, 'ms'>, ms: number) {
+  const entry = bands.get(index)
+  if (entry) entry.ms += ms
+  else bands.set(index, { ...rate, ms })
+}
+
+/** Each band slice is prorated from its hourly rate and rounded half-up to a minor unit. */
+function bandFeeMinor({ rateMinor, ms }: BandTime): bigint {
+  return mulDivMinor(rateMinor, BigInt(ms), HOUR_MS, 'half_up')
+}
+
+/**
+ * Calculate a parking fee across the lot's tariff bands.
+ *
+ * The session is split at band boundaries in the lot's timezone and each slice is
+ * billed at the first matching band (or the lot's base rate). Billing increments and
+ * the grace period apply to the whole stay; the rounded-up remainder is billed at
+ * the band in effect at exit.
+ *
+ * maxDailyFee caps each day separately — consecutive 24h windows from entry, or local
+ * calendar days when lot.dailyCapMode is "calendar_day". With no tariff and the default
+ * cap mode this matches calculateFee().
+ *
+ * All arithmetic is in integer minor units of lot.currency (see money.ts); band fees
+ * are rounded per day, so the breakdown always sums to the total.
+ */
+export function calculateTariffFee(entryTime: Date, exitTime: Date, lot: TariffLot): FeeQuote {
+  const currency = lot.currency || 'USD'
+  const bands = lot.tariff ?? []
+  const timeZone = lot.timezone || 'UTC'
+  const calendarDays = lot.dailyCapMode === 'calendar_day'
+  const billingMinutes = lot.billingMinutes > 0 ? lot.billingMinutes : 15
+  const gracePeriodMinutes = lot.gracePeriodMinutes ?? 0
+  const capMinor =
+    lot.maxDailyFee !== undefined && lot.maxDailyFee > 0 ? toMinor(lot.maxDailyFee, currency) : null
+
+  const entryMs = entryTime.getTime()
+  const exitMs = Math.max(exitTime.getTime(), entryMs)
+  const durationMinutes = (exitMs - entryMs) / 60_000
+
+  const free: FeeQuote = {
+    currency,
+    fee: 0,
+    subtotal: 0,
+    feeMinor: '0',
+    subtotalMinor: '0',
+    capped: false,
+    breakdown: [],
+    days: [],
+  }
+  if (lot.ratePerHour <= 0 && bands.every((b) => b.ratePerHour <= 0)) return free
+  if (gracePeriodMinutes > 0 && durationMinutes <= gracePeriodMinutes) return free
+
+  const rateOf = (band: string, ratePerHour: number): Omit<BandTime, 'ms'> => ({
+    band,
+    ratePerHour,
+    rateMinor: toMinor(ratePerHour, currency),
+  })
+  const bandRates = bands.map((b) => rateOf(b.name, b.ratePerHour))
+  const standardRate = rateOf(STANDARD_BAND, Math.max(lot.ratePerHour, 0))
+  const rateFor = (t: LocalTime): { index: number; rate: Omit<BandTime, 'ms'> } => {
+    const index = bands.findIndex((b) => bandCovers(b, t))
+    return index >= 0 ? { index, rate: bandRates[index] } : { index: -1, rate: standardRate }
+  }
+
+  const days: DayWindow[] = []
+  const windowFor = (ms: number, local: LocalTime): DayWindow => {
+    const key = calendarDays ? local.date : String(Math.floor((ms - entryMs) / DAY_MS))
+    let day = days[days.length - 1]
+    if (!day || day.key !== key) {
+      day = { key, date: local.date, startMs: ms, endMs: ms, bands: new Map() }
+      days.push(day)
+    }
+    return day
+  }
+
+  let cursor = entryMs
+  let local = toLocalTime(entryMs, timeZone)
+  let last = rateFor(local)
+  let day = windowFor(entryMs, local)
+  while (cursor < exitMs) {
+    local = toLocalTime(cursor, timeZone)
+    last = rateFor(local)
+    day = windowFor(cursor, local)
+
+    // Local midnight is always a boundary, so calendar days split without extra work
+    let stepMs = Math.min(minutesToNextBoundary(local.minute, bands) * 60_000, exitMs - cursor)
+    if (!calendarDays) {
+      const windowEndMs = entryMs + (Math.floor((cursor - entryMs) / DAY_MS) + 1) * DAY_MS
+      stepMs = Math.min(stepMs, windowEndMs - cursor)
+    }
+
+    const next = Math.max(Math.round(cursor + stepMs), cursor + 1)
+    addTime(day.bands, last.index, last.rate, next - cursor)
+    cursor = next
+    day.endMs = Math.min(cursor, exitMs)
+  }
+
+  // At least 1 increment (entering and immediately exiting still costs one unit)
+  const increments = Math.max(1, Math.ceil(durationMinutes / billingMinutes))
+  const roundUpMs = Math.round(increments * billingMinutes * 60_000) - (exitMs - entryMs)
+  if (roundUpMs > 0) addTime(day.bands, last.index, last.rate, roundUpMs)
+
+  const toNumber = (minor: bigint) => minorToNumber(minor, currency)
+  const totals = new Map<number, BandTime & { feeMinor: bigint }>()
+  const perDay = days.map((d, i) => {
+    const breakdown: FeeBandBreakdown[] = []
+    const bandFees: bigint[] = []
+    for (const [index, time] of d.bands) {
+      const feeMinor = bandFeeMinor(time)
+      bandFees.push(feeMinor)
+      breakdown.push({
+        band: time.band,
+        ratePerHour: time.ratePerHour,
+        minutes: Math.round(time.ms / 600) / 100,
+        fee: toNumber(feeMinor),
+        feeMinor: feeMinor.toString(),
+      })
+      const total = totals.get(index)
+      if (total) {
+        total.ms += time.ms
+        total.feeMinor += feeMinor
+      } else {
+        totals.set(index, { ...time, feeMinor })
+      }
+    }
+    const subtotalMinor = sumMinor(bandFees)
+    const feeMinor = capMinor === null ? subtotalMinor : minMinor(subtotalMinor, capMinor)
+    const entry: FeeDayBreakdown = {
+      day: i + 1,
+      date: d.date,
+      start: new Date(d.startMs).toISOString(),
+      end: new Date(d.endMs).toISOString(),
+      subtotal: toNumber(subtotalMinor),
+      fee: toNumber(feeMinor),
+      subtotalMinor: subtotalMinor.toString(),
+      feeMinor: feeMinor.toString(),
+      capped: feeMinor < subtotalMinor,
+      breakdown,
+    }
+    return { entry, subtotalMinor, feeMinor }
+  })
+
+  const feeMinor = sumMinor(perDay.map((d) => d.feeMinor))
+  const subtotalMinor = sumMinor(perDay.map((d) => d.subtotalMinor))
+  return {
+    currency,
+    fee: toNumber(feeMinor),
+    subtotal: toNumber(subtotalMinor),
+    feeMinor: feeMinor.toString(),
+    subtotalMinor: subtotalMinor.toString(),
+    capped: perDay.some((d) => d.entry.capped),
+    breakdown: [...totals.values()].map((t) => ({
+      band: t.band,
+      ratePerHour: t.ratePerHour,
+      minutes: Math.round(t.ms / 600) / 100,
+      fee: toNumber(t.feeMinor),
+      feeMinor: t.feeMinor.toString(),
+    })),
+    days: perDay.map((d) => d.entry),
+  }
+}
+
+/**
+ * Exit fee after an operator comp: a percentage off (the discount rounds up) or a fixed
+ * amount off, never below zero.
+ */
+export function applySessionComp(feeMinor: bigint, comp?: SessionComp): bigint {
+  if (!comp) return feeMinor
+  if (comp.percent !== undefined) {
+    const percent = BigInt(Math.min(Math.max(Math.trunc(comp.percent), 0), 100))
+    return feeMinor - mulDivMinor(feeMinor, percent, 100n, 'ceil')
+  }
+  if (comp.amountMinor !== undefined) {
+    const off = BigInt(comp.amountMinor)
+    return off >= feeMinor ? 0n : feeMinor - off
+  }
+  return feeMinor
+}
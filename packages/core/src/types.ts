@@ -1,3 +1,5 @@
+import type { LotEvmAsset } from './evm-assets'
+
 // ---- On-chain types (mirror Solidity structs) ----
 
 export interface DriverProfile {
@@ -61,6 +63,127 @@ export interface Lot {
   /** Accepted payment methods for this lot */
   paymentMethods: string[]
   operatorWallet: string
+  /** IANA timezone tariff bands are evaluated in (defaults to "UTC") */
+  timezone?: string
+  /** Ordered rate bands; time not covered by any band is billed at ratePerHour */
+  tariff?: TariffBand[]
+  /** How maxDailyFee windows are counted (defaults to "rolling_24h") */
+  dailyCapMode?: DailyCapMode
+  /** Risk score cut-offs for policy evaluation (platform defaults when unset) */
+  riskThresholds?: LotRiskThresholds
+  /**
+   * (chainId, token) pairs accepted for EVM settlement, in display order. Unset: the
+   * deployment's X402_STABLECOIN on X402_NETWORK.
+   */
+  evmAssets?: LotEvmAsset[]
+  /**
+   * How settled crypto amounts are checked against the quote, on every rail. Unset: exact on
+   * XRPL, up to 1% under-payment on EVM.
+   */
+  amountTolerance?: LotAmountTolerance
+}
+
+/**
+ * Settlement amount check (checkSettlementAmount):
+ * - strictExact: one payment of exactly the quoted amount
+ * - tolerant: a shortfall up to underpaymentBps (basis points of the quote) is accepted,
+ *   over-payment is accepted and recorded as driver credit, and with allowPartial several
+ *   payments add up to the quote
+ */
+export interface LotAmountTolerance {
+  stance: 'strictExact' | 'tolerant'
+  underpaymentBps?: number
+  allowPartial?: boolean
+}
+
+/**
+ * maxDailyFee window:
+ * - rolling_24h: consecutive 24h windows starting at entry
+ * - calendar_day: local calendar days in the lot's timezone
+ */
+export type DailyCapMode = 'rolling_24h' | 'calendar_day'
+
+/**
+ * Risk score (0..100) cut-offs at entry and exit:
+ * - requireApproval: at or above, the session / payment needs approval
+ * - deny: at or above, entry or payment is denied (optional)
+ */
+export interface LotRiskThresholds {
+  requireApproval: number
+  deny?: number
+}
+
+/** Day of week in the lot's timezone: 0 = Sunday … 6 = Saturday */
+export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+/**
+ * A time-of-day rate band. Bands are evaluated in order and the first match wins,
+ * so event bands should come before weekend/night bands.
+ */
+export interface TariffBand {
+  /** Display label (e.g. "Night", "Weekend", "Concert") */
+  name: string
+  ratePerHour: number
+  /** Local start time "HH:MM" (inclusive) */
+  start: string
+  /** Local end time "HH:MM" (exclusive). An end at or before start wraps past midnight. */
+  end: string
+  /** Days the band starts on. Omit for every day. */
+  days?: DayOfWeek[]
+  /** Local calendar dates (YYYY-MM-DD) the band starts on — for one-off events */
+  dates?: string[]
+}
+
+/** Portion of a session fee billed under a single band */
+export interface FeeBandBreakdown {
+  /** Band name, or "Standard" for time billed at the lot's base rate */
+  band: string
+  ratePerHour: number
+  /** Billable minutes (including increment rounding) */
+  minutes: number
+  fee: number
+  /** fee in integer minor units of the lot currency (decimal string) */
+  feeMinor: string
+}
+
+/** Fee for one maxDailyFee window of a (possibly multi-day) session */
+export interface FeeDayBreakdown {
+  /** 1-based day number within the session */
+  day: number
+  /** Local calendar date (YYYY-MM-DD) the window starts on */
+  date: string
+  /** ISO timestamps of the billed part of the window */
+  start: string
+  end: string
+  /** Sum of the per-band fees before the daily cap */
+  subtotal: number
+  fee: number
+  /** subtotal / fee in minor units (decimal strings) */
+  subtotalMinor: string
+  feeMinor: string
+  capped: boolean
+  breakdown: FeeBandBreakdown[]
+}
+
+export interface FeeQuote {
+  /** ISO 4217 currency the fee is priced in */
+  currency: string
+  /** Final fee after daily caps */
+  fee: number
+  /** Sum of the per-band fees before caps */
+  subtotal: number
+  /**
+   * fee / subtotal in integer minor units (decimal strings). These are authoritative;
+   * the number fields are derived from them for display.
+   */
+  feeMinor: string
+  subtotalMinor: string
+  /** True if any day hit maxDailyFee */
+  capped: boolean
+  /** Per-band totals across the whole stay */
+  breakdown: FeeBandBreakdown[]
+  /** Per-day fees (one entry per maxDailyFee window) */
+  days: FeeDayBreakdown[]
 }
 
 export interface SessionRecord {
@@ -81,6 +204,115 @@ export interface SessionRecord {
   policyHash?: string
   /** When true, exit payment requires explicit approval before settlement (set when entry grant had requireApproval). */
   approvalRequiredBeforePayment?: boolean
+  /** Operator discount applied to the exit fee (comp override). */
+  comp?: SessionComp
+  /** Per-day breakdown of the exit quote, as charged */
+  feeDays?: FeeDayBreakdown[]
+}
+
+/** Operator discount on a session's exit fee. Exactly one of the fields is set. */
+export interface SessionComp {
+  /** Percentage off the fee (1–100) */
+  percent?: number
+  /** Fixed amount off, in minor units of the lot currency (decimal string) */
+  amountMinor?: string
+}
+
+// ---- Operator overrides ----
+
+export type OperatorOverrideAction = 'force_close' | 'void' | 'comp'
+
+/** Mandatory reason code on every operator override (recorded on the session timeline). */
+export const OPERATOR_OVERRIDE_REASONS = [
+  'VEHICLE_TOWED',
+  'BARRIER_OPENED_MANUALLY',
+  'EQUIPMENT_FAULT',
+  'VIP_GUEST',
+  'CUSTOMER_COMPLAINT',
+  'DUPLICATE_SESSION',
+  'OTHER',
+] as const
+
+export type OperatorOverrideReason = (typeof OPERATOR_OVERRIDE_REASONS)[number]
+
+// ---- Payment reviews ----
+
+/**
+ * Review of a settlement that was verified on its rail but rejected by policy enforcement
+ * (paid but not closable). Opened automatically; resolved by an operator.
+ */
+export type PaymentReviewStatus = 'open' | 'accepted' | 'refund_requested' | 'top_up_requested'
+
+/** What the driver sees about a review of their payment. */
+export interface SessionPaymentReview {
+  status: PaymentReviewStatus
+  /** Enforcement reason code (e.g. CAP_EXCEEDED_TX, POLICY_HASH_MISMATCH) */
+  reason: string
+  createdAt: Date
+  resolvedAt?: Date
+  /** Amount still owed after a top-up request, in minor units of topUpCurrency */
+  topUpMinor?: string
+  topUpCurrency?: string
+}
+
+/**
+ * Refund of a settled payment back to the payer on the rail it arrived on:
+ * requested → approved → executed (sent on the rail) → confirmed (final on the rail).
+ * A refund that could not be sent or was rejected by the rail ends in failed.
+ */
+export type RefundStatus = 'requested' | 'approved' | 'executed' | 'confirmed' | 'failed'
+
+export type RefundRail = 'stripe' | 'evm' | 'xrpl'
+
+/**
+ * Driver dispute of a session charge: opened → evidence_collected (evidence bundle stored) →
+ * resolved_driver (in the driver's favour, optionally with a refund) or resolved_operator.
+ */
+export type DisputeStatus =
+  | 'opened'
+  | 'evidence_collected'
+  | 'resolved_driver'
+  | 'resolved_operator'
+
+/**
+ * Fee a plate still owes for a session that left without paying (gate opened offline, or on
+ * the Mirror Node fallback without a fee). Outstanding until a later exit settles it.
+ */
+export type DebtStatus = 'outstanding' | 'collected'
+
+/** Where the unpaid exit was recorded: uploaded by the gate, or the API's own fallback. */
+export type DebtSource = 'gate_offline' | 'mirror_node_fallback'
+
+/** What the driver sees about a debt of their plate. */
+export interface PlateDebt {
+  id: string
+  plateNumber: string
+  lotId: string
+  /** Session that left without paying */
+  sessionId: string
+  /** Fee in minor units of currency */
+  amountMinor: string
+  currency: string
+  status: DebtStatus
+  entryTime: Date
+  exitTime: Date
+  createdAt: Date
+  collectedAt?: Date
+}
+
+/** Over-payment of a settled session, kept for the driver (atomic units of the paid asset). */
+export interface DriverCredit {
+  id: string
+  plateNumber: string
+  lotId: string
+  /** Session whose settlement was over-paid */
+  sessionId: string
+  rail: string
+  asset: unknown
+  /** Smallest unit of the asset (e.g. 6 decimals for USDC, drops for XRP) */
+  amount: string
+  txHash?: string
+  createdAt: Date
 }
 
 // ---- Payment types ----
@@ -94,6 +326,25 @@ export interface X402PaymentOption {
   network: string
   /** Operator wallet to receive payment */
   receiver: string
+  /** EVM rail: one payable option per asset the lot accepts (the fields above are the first) */
+  assets?: X402AssetOption[]
+  /** XRPL rail: destination tag of the session's payment intent (plain wallet payments) */
+  destinationTag?: number
+}
+
+/** One EVM asset a driver can pay an x402 quote with */
+export interface X402AssetOption {
+  /** Settlement quote this option pays (decision.settlementQuotes) */
+  quoteId: string
+  chainId: number
+  /** Network name (e.g. "base", "polygon") */
+  network: string
+  /** Token symbol (e.g. "USDC", "EURC") */
+  token: string
+  tokenAddress: string
+  decimals: number
+  /** Token amount after FX conversion */
+  amount: string
 }
 
 export interface StripePaymentOption {
@@ -114,6 +365,8 @@ export interface DriverRecord {
   carMake?: string
   carModel?: string
   active: boolean
+  /** Fleet the vehicle belongs to (fleet-wide spend budgets) */
+  fleetId?: string
   createdAt: Date
 }
 
@@ -152,4 +405,8 @@ export interface LotStatus {
   currency: string
   paymentMethods: string[]
   operatorWallet: string
+  timezone?: string
+  tariff?: TariffBand[]
+  dailyCapMode?: DailyCapMode
+  riskThresholds?: LotRiskThresholds
 }
@@ -1,5 +1,10 @@
 import { keccak256, toBytes } from 'viem'
 
+import { minMinor, minorToNumber, mulDivMinor, toMinor } from './money'
+
+const HOUR_MS = 3_600_000n
+const DAY_MS = 24n * HOUR_MS
+
 /**
  * Normalize a license plate to a consistent format.
  * Strips whitespace, dashes, and converts to uppercase.
@@ -54,15 +59,6 @@ export function formatFee(amount: bigint): string {
   return fracStr ? `${whole}.${fracStr}` : whole.toString()
 }
 
-/**
- * Calculate parking fee in the lot's local currency.
- * fee = ceil(durationMinutes / billingIncrement) * ratePerIncrement
- *
- * Guards:
- * - Negative or zero duration → minimum 1 increment
- * - Zero or negative billingIncrement → defaults to 15
- * - Zero or negative rate → fee = 0
- */
 /**
  * Build a Hashscan URL for an NFT.
  * @param serial  The NFT serial number (e.g. 42)
@@ -77,12 +73,27 @@ export function getHashscanNftUrl(
   return `https://hashscan.io/${network}/token/${tokenId}/${serial}`
 }
 
+/**
+ * Calculate parking fee in the lot's local currency.
+ * fee = ceil(durationMinutes / billingIncrement) * ratePerIncrement
+ *
+ * maxDailyFee caps each consecutive 24h window separately, so multi-day stays pay
+ * up to the cap per day. For tariff bands or calendar-day caps use calculateTariffFee().
+ *
+ * Computed in integer minor units of `currency` and rounded half-up to one minor unit.
+ *
+ * Guards:
+ * - Negative or zero duration → minimum 1 increment
+ * - Zero or negative billingIncrement → defaults to 15
+ * - Zero or negative rate → fee = 0
+ */
 export function calculateFee(
   durationMinutes: number,
   ratePerHour: number,
   billingIncrementMinutes: number = 15,
   maxDailyFee?: number,
   gracePeriodMinutes: number = 0,
+  currency: string = 'USD',
 ): number {
   if (ratePerHour <= 0) return 0
   if (gracePeriodMinutes > 0 && durationMinutes <= gracePeriodMinutes) return 0
@@ -90,11 +101,16 @@ export function calculateFee(
 
   // At least 1 increment (entering and immediately exiting still costs one unit)
   const increments = Math.max(1, Math.ceil(durationMinutes / billingIncrementMinutes))
-  const ratePerIncrement = (ratePerHour / 60) * billingIncrementMinutes
-  const fee = Math.round(increments * ratePerIncrement * 1_000_000) / 1_000_000 // round to 6 dp
+  const billedMs = BigInt(Math.round(increments * billingIncrementMinutes * 60_000))
+  const rateMinor = toMinor(ratePerHour, currency)
+  const feeFor = (ms: bigint) => mulDivMinor(rateMinor, ms, HOUR_MS, 'half_up')
 
   if (maxDailyFee !== undefined && maxDailyFee > 0) {
-    return Math.min(fee, maxDailyFee)
+    const capMinor = toMinor(maxDailyFee, currency)
+    const fullDays = billedMs / DAY_MS
+    const capped =
+      fullDays * minMinor(feeFor(DAY_MS), capMinor) + minMinor(feeFor(billedMs % DAY_MS), capMinor)
+    return minorToNumber(capped, currency)
   }
-  return fee
+  return minorToNumber(feeFor(billedMs), currency)
 }
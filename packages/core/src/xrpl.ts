@@ -4,6 +4,8 @@ export interface BuildXrplPaymentURIOptions {
   currency: string
   network: string
   issuer?: string
+  /** Destination tag identifying the payment intent */
+  destinationTag?: number
 }
 
 export const XAMAN_LOGO_URL =
@@ -33,6 +35,7 @@ export function buildXrplPaymentURI({
   currency,
   network,
   issuer,
+  destinationTag,
 }: BuildXrplPaymentURIOptions): string {
   const query = new URLSearchParams({
     amount,
@@ -42,6 +45,9 @@ export function buildXrplPaymentURI({
   if (issuer) {
     query.set('issuer', issuer)
   }
+  if (destinationTag != null) {
+    query.set('dt', String(destinationTag))
+  }
   return `xrpl:${receiver}?${query.toString()}`
 }
 
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getEvmChain,
+  getEvmToken,
+  getEvmTokensForChain,
+  resolveLotEvmTokens,
+  validateLotEvmAssets,
+} from '../src/evm-assets'
+import { USDC_ADDRESSES } from '../src/contracts'
+import { buildERC20TransferURI } from '../src/eip681'
+
+describe('EVM registry', () => {
+  it('looks up chains by id or network name', () => {
+    expect(getEvmChain(137)?.network).toBe('polygon')
+    expect(getEvmChain('arbitrum')?.chainId).toBe(42161)
+    expect(getEvmChain('solana')).toBeUndefined()
+  })
+
+  it('looks up tokens by address in any case or by symbol', () => {
+    const eurc = getEvmToken(8453, 'EURC')
+    expect(eurc).toMatchObject({ currency: 'EUR', decimals: 6 })
+    expect(getEvmToken(8453, eurc!.address.toLowerCase())).toBe(eurc)
+    expect(getEvmToken(137, 'EURC')).toBeUndefined()
+    expect(getEvmTokensForChain(84532).map((t) => t.symbol)).toEqual(['USDC', 'EURC'])
+  })
+
+  it('carries the EIP-3009 domain of every token', () => {
+    expect(getEvmToken(84532, 'USDC')?.eip3009).toEqual({ name: 'USDC', version: '2' })
+    expect(getEvmToken(8453, 'USDC')?.eip3009).toEqual({ name: 'USD Coin', version: '2' })
+    expect(getEvmTokensForChain(8453).every((t) => t.eip3009?.version === '2')).toBe(true)
+  })
+
+  it('derives USDC_ADDRESSES from the registry', () => {
+    expect(USDC_ADDRESSES['base-sepolia']).toBe('0x036CbD53842c5426634e7929541eC2318f3dCF7e')
+    expect(USDC_ADDRESSES.polygon).toBe(getEvmToken(137, 'USDC')!.address)
+  })
+
+  it('resolves lot pairs in lot order, skipping unknown ones', () => {
+    const tokens = resolveLotEvmTokens([
+      { chainId: 8453, token: 'EURC' },
+      { chainId: 1, token: '0xdead' },
+      { chainId: 42161, token: getEvmToken(42161, 'USDC')!.address },
+    ])
+    expect(tokens.map((t) => `${t.chainId}:${t.symbol}`)).toEqual(['8453:EURC', '42161:USDC'])
+  })
+})
+
+describe('validateLotEvmAssets', () => {
+  it('accepts registry pairs', () => {
+    expect(
+      validateLotEvmAssets([
+        { chainId: 8453, token: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' },
+        { chainId: 137, token: 'USDC' },
+      ]),
+    ).toBeNull()
+    expect(validateLotEvmAssets([])).toBeNull()
+  })
+
+  it('rejects unknown chains, unknown tokens and duplicates', () => {
+    expect(validateLotEvmAssets({ chainId: 8453 })).toMatch(/array/)
+    expect(validateLotEvmAssets([{ chainId: 1, token: 'USDC' }])).toMatch(/chainId/)
+    expect(validateLotEvmAssets([{ chainId: 137, token: 'EURC' }])).toMatch(/token/)
+    expect(
+      validateLotEvmAssets([
+        { chainId: 8453, token: 'USDC' },
+        { chainId: 8453, token: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913' },
+      ]),
+    ).toMatch(/twice/)
+  })
+})
+
+describe('buildERC20TransferURI', () => {
+  it('builds a transfer URI for the picked asset', () => {
+    const eurc = getEvmToken(8453, 'EURC')!
+    expect(
+      buildERC20TransferURI({
+        tokenAddress: eurc.address,
+        to: '0xOperator',
+        amount: '2.5',
+        decimals: eurc.decimals,
+        chainId: 'base',
+      }),
+    ).toBe(`ethereum:${eurc.address}@8453/transfer?address=0xOperator&uint256=2500000`)
+  })
+
+  it('resolves registry network names and numeric chain ids', () => {
+    expect(
+      buildERC20TransferURI({ tokenAddress: '0xT', to: '0xR', amount: '1', chainId: 'polygon' }),
+    ).toContain('@137/')
+    expect(
+      buildERC20TransferURI({ tokenAddress: '0xT', to: '0xR', amount: '1', chainId: 421614 }),
+    ).toContain('@421614/')
+  })
+})
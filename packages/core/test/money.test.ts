@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  convertUnits,
+  decimalToUnits,
+  divRound,
+  formatMinor,
+  fromMinor,
+  getCurrencyExponent,
+  minorToNumber,
+  toMinor,
+} from '../src/money'
+
+describe('getCurrencyExponent', () => {
+  it('uses ISO 4217 minor units', () => {
+    expect(getCurrencyExponent('USD')).toBe(2)
+    expect(getCurrencyExponent('jpy')).toBe(0)
+    expect(getCurrencyExponent('BHD')).toBe(3)
+    expect(getCurrencyExponent('XYZ')).toBe(2)
+  })
+})
+
+describe('divRound', () => {
+  it('applies each rounding mode', () => {
+    expect(divRound(25n, 10n, 'floor')).toBe(2n)
+    expect(divRound(21n, 10n, 'ceil')).toBe(3n)
+    expect(divRound(25n, 10n, 'half_up')).toBe(3n)
+    expect(divRound(25n, 10n, 'half_even')).toBe(2n)
+    expect(divRound(35n, 10n, 'half_even')).toBe(4n)
+  })
+
+  it('rounds negatives symmetrically', () => {
+    expect(divRound(-25n, 10n, 'half_up')).toBe(-3n)
+    expect(divRound(-21n, 10n, 'floor')).toBe(-3n)
+    expect(divRound(-21n, 10n, 'ceil')).toBe(-2n)
+  })
+})
+
+describe('toMinor / fromMinor', () => {
+  it('converts decimals exactly per currency', () => {
+    expect(toMinor('12.5', 'USD')).toBe(1250n)
+    expect(toMinor(1500, 'JPY')).toBe(1500n)
+    expect(toMinor('1.25', 'BHD')).toBe(1250n)
+    expect(fromMinor(1250n, 'USD')).toBe('12.50')
+    expect(fromMinor(1500n, 'JPY')).toBe('1500')
+    expect(fromMinor(1250n, 'BHD')).toBe('1.250')
+    expect(fromMinor(-5n, 'USD')).toBe('-0.05')
+  })
+
+  it('does not inherit binary float errors', () => {
+    // 2.675 is 2.67499999... as a double; the decimal value rounds up
+    expect(toMinor(2.675, 'USD')).toBe(268n)
+    expect(toMinor(0.1 + 0.2, 'USD')).toBe(30n)
+    expect(decimalToUnits('1e-7', 6, 'ceil')).toBe(1n)
+  })
+
+  it('honours the rounding mode', () => {
+    expect(toMinor('0.125', 'USD', 'half_even')).toBe(12n)
+    expect(toMinor('0.125', 'USD', 'half_up')).toBe(13n)
+    expect(toMinor('0.121', 'USD', 'ceil')).toBe(13n)
+  })
+
+  it('rejects non-decimal input', () => {
+    expect(() => toMinor('abc', 'USD')).toThrow(RangeError)
+    expect(() => toMinor(NaN, 'USD')).toThrow(RangeError)
+  })
+
+  it('formats for display', () => {
+    expect(minorToNumber(1999n, 'EUR')).toBe(19.99)
+    expect(formatMinor(1999n, 'eur')).toBe('19.99 EUR')
+  })
+})
+
+describe('convertUnits', () => {
+  it('converts between exponents at a decimal rate', () => {
+    // €18.50 at 1.08 → 19.98 USDC (6 decimals)
+    expect(convertUnits(1850n, 2, 6, '1.08')).toBe(19_980_000n)
+    // ¥1000 at 0.0067 → $6.70
+    expect(convertUnits(1000n, 0, 2, 0.0067)).toBe(670n)
+    // 1/3 rounds per mode
+    expect(convertUnits(100n, 2, 2, '0.333333', 'half_up')).toBe(33n)
+    expect(convertUnits(100n, 2, 2, '0.333333', 'ceil')).toBe(34n)
+  })
+
+  it('rejects non-positive rates', () => {
+    expect(() => convertUnits(100n, 2, 6, 0)).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { checkSettlementAmount, validateAmountTolerance } from '../src/settlement-amount'
+
+const TOLERANT = { stance: 'tolerant' as const, underpaymentBps: 100 }
+
+describe('checkSettlementAmount strictExact', () => {
+  it('accepts exactly the expected amount', () => {
+    expect(checkSettlementAmount(4_000_000n, ['4000000'])).toMatchObject({
+      stance: 'strictExact',
+      delta: '0',
+      outcome: 'exact',
+      accepted: true,
+      credit: '0',
+    })
+  })
+
+  it('rejects under- and over-payment and partials', () => {
+    expect(checkSettlementAmount(4_000_000n, [3_999_999n])).toMatchObject({
+      delta: '-1',
+      outcome: 'underpaid',
+      accepted: false,
+      awaitingMore: false,
+    })
+    expect(checkSettlementAmount(4_000_000n, [4_000_001n]).accepted).toBe(false)
+    expect(checkSettlementAmount(4_000_000n, [2_000_000n, 2_000_000n]).accepted).toBe(false)
+  })
+})
+
+describe('checkSettlementAmount tolerant', () => {
+  it('accepts under-payment within the tolerance and reports the delta', () => {
+    expect(checkSettlementAmount(10_000_000n, [9_900_000n], TOLERANT)).toMatchObject({
+      stance: 'tolerant',
+      received: '9900000',
+      delta: '-100000',
+      outcome: 'underpaid',
+      accepted: true,
+      credit: '0',
+    })
+    expect(checkSettlementAmount(10_000_000n, [9_899_999n], TOLERANT).accepted).toBe(false)
+  })
+
+  it('accepts over-payment and reports it as credit', () => {
+    expect(checkSettlementAmount(4_000_000n, [5_250_000n], TOLERANT)).toMatchObject({
+      delta: '1250000',
+      outcome: 'overpaid',
+      accepted: true,
+      credit: '1250000',
+    })
+  })
+
+  it('sums partial payments only when allowed', () => {
+    const partial = { ...TOLERANT, allowPartial: true }
+    expect(checkSettlementAmount(4_000_000n, [1_500_000n], partial)).toMatchObject({
+      delta: '-2500000',
+      accepted: false,
+      awaitingMore: true,
+    })
+    expect(checkSettlementAmount(4_000_000n, [1_500_000n, 3_000_000n], partial)).toMatchObject({
+      received: '4500000',
+      payments: 2,
+      accepted: true,
+      credit: '500000',
+    })
+    expect(checkSettlementAmount(4_000_000n, [2_000_000n, 2_000_000n], TOLERANT)).toMatchObject({
+      accepted: false,
+      awaitingMore: false,
+    })
+  })
+
+  it('accepts nothing without payments', () => {
+    const check = checkSettlementAmount(0n, [], { stance: 'tolerant', allowPartial: true })
+    expect(check.accepted).toBe(false)
+  })
+})
+
+describe('validateAmountTolerance', () => {
+  it('accepts both stances', () => {
+    expect(validateAmountTolerance({ stance: 'strictExact' })).toBeNull()
+    expect(
+      validateAmountTolerance({ stance: 'tolerant', underpaymentBps: 50, allowPartial: true }),
+    ).toBeNull()
+  })
+
+  it('rejects malformed settings', () => {
+    expect(validateAmountTolerance('tolerant')).toMatch(/object/)
+    expect(validateAmountTolerance({ stance: 'loose' })).toMatch(/stance/)
+    expect(validateAmountTolerance({ stance: 'tolerant', bps: 1 })).toMatch(/unknown field: bps/)
+    expect(validateAmountTolerance({ stance: 'tolerant', underpaymentBps: 2_000 })).toMatch(
+      /between 0 and 1000/,
+    )
+    expect(validateAmountTolerance({ stance: 'tolerant', allowPartial: 'yes' })).toMatch(/boolean/)
+    expect(validateAmountTolerance({ stance: 'strictExact', underpaymentBps: 10 })).toMatch(
+      /tolerant stance only/,
+    )
+  })
+})
@@ -0,0 +1,284 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applySessionComp,
+  calculateTariffFee,
+  validateTariff,
+  isValidTimeZone,
+} from '../src/tariff'
+import { calculateFee } from '../src/utils'
+import type { TariffBand } from '../src/types'
+
+const baseLot = { ratePerHour: 8, billingMinutes: 15, gracePeriodMinutes: 0 }
+
+const night: TariffBand = { name: 'Night', ratePerHour: 2, start: '22:00', end: '06:00' }
+const weekend: TariffBand = {
+  name: 'Weekend',
+  ratePerHour: 4,
+  start: '00:00',
+  end: '00:00',
+  days: [0, 6],
+}
+
+describe('calculateTariffFee', () => {
+  it('matches calculateFee when the lot has no tariff', () => {
+    const entry = new Date('2025-03-05T10:00:00Z')
+    const exit = new Date('2025-03-05T12:10:00Z')
+    const quote = calculateTariffFee(entry, exit, baseLot)
+    expect(quote.fee).toBe(calculateFee(130, 8, 15))
+    expect(quote.breakdown).toEqual([
+      { band: 'Standard', ratePerHour: 8, minutes: 135, fee: 18, feeMinor: '1800' },
+    ])
+  })
+
+  it('splits a session across a night band boundary', () => {
+    // Wed 21:00 → Wed 23:00 UTC: 60 min standard (8/hr) + 60 min night (2/hr)
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T21:00:00Z'),
+      new Date('2025-03-05T23:00:00Z'),
+      { ...baseLot, tariff: [night] },
+    )
+    expect(quote.fee).toBe(10)
+    expect(quote.breakdown).toEqual([
+      { band: 'Standard', ratePerHour: 8, minutes: 60, fee: 8, feeMinor: '800' },
+      { band: 'Night', ratePerHour: 2, minutes: 60, fee: 2, feeMinor: '200' },
+    ])
+  })
+
+  it('applies wrapping bands past midnight', () => {
+    // Wed 23:00 → Thu 07:00 UTC: 7h night + 1h standard
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T23:00:00Z'),
+      new Date('2025-03-06T07:00:00Z'),
+      { ...baseLot, tariff: [night] },
+    )
+    expect(quote.breakdown).toEqual([
+      { band: 'Night', ratePerHour: 2, minutes: 420, fee: 14, feeMinor: '1400' },
+      { band: 'Standard', ratePerHour: 8, minutes: 60, fee: 8, feeMinor: '800' },
+    ])
+    expect(quote.fee).toBe(22)
+  })
+
+  it('first matching band wins (weekend before night)', () => {
+    // Sat 2025-03-08 21:00 → 23:00 UTC — whole stay is weekend
+    const quote = calculateTariffFee(
+      new Date('2025-03-08T21:00:00Z'),
+      new Date('2025-03-08T23:00:00Z'),
+      { ...baseLot, tariff: [weekend, night] },
+    )
+    expect(quote.breakdown).toEqual([
+      { band: 'Weekend', ratePerHour: 4, minutes: 120, fee: 8, feeMinor: '800' },
+    ])
+  })
+
+  it('bills same-named bands at their own rates', () => {
+    // Sat 2025-03-08 21:00 → 23:00 UTC: 1h at the first "Evening" band, 1h at the second
+    const quote = calculateTariffFee(
+      new Date('2025-03-08T21:00:00Z'),
+      new Date('2025-03-08T23:00:00Z'),
+      {
+        ...baseLot,
+        tariff: [
+          { name: 'Evening', ratePerHour: 3, start: '21:00', end: '22:00' },
+          { name: 'Evening', ratePerHour: 5, start: '22:00', end: '23:00' },
+        ],
+      },
+    )
+    expect(quote.fee).toBe(8)
+    expect(quote.breakdown).toEqual([
+      { band: 'Evening', ratePerHour: 3, minutes: 60, fee: 3, feeMinor: '300' },
+      { band: 'Evening', ratePerHour: 5, minutes: 60, fee: 5, feeMinor: '500' },
+    ])
+  })
+
+  it('applies event bands only on their dates', () => {
+    const event: TariffBand = {
+      name: 'Concert',
+      ratePerHour: 20,
+      start: '18:00',
+      end: '23:00',
+      dates: ['2025-03-05'],
+    }
+    const onEvent = calculateTariffFee(
+      new Date('2025-03-05T19:00:00Z'),
+      new Date('2025-03-05T20:00:00Z'),
+      { ...baseLot, tariff: [event] },
+    )
+    expect(onEvent.fee).toBe(20)
+
+    const dayAfter = calculateTariffFee(
+      new Date('2025-03-06T19:00:00Z'),
+      new Date('2025-03-06T20:00:00Z'),
+      { ...baseLot, tariff: [event] },
+    )
+    expect(dayAfter.fee).toBe(8)
+  })
+
+  it("evaluates bands in the lot's timezone", () => {
+    // 20:00–21:00 UTC is 22:00–23:00 in Jerusalem (UTC+2 in March before DST)
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T20:00:00Z'),
+      new Date('2025-03-05T21:00:00Z'),
+      { ...baseLot, timezone: 'Asia/Jerusalem', tariff: [night] },
+    )
+    expect(quote.breakdown).toEqual([
+      { band: 'Night', ratePerHour: 2, minutes: 60, fee: 2, feeMinor: '200' },
+    ])
+  })
+
+  it('bills increment rounding at the band in effect at exit', () => {
+    // 21:50 → 22:05: 10 min standard + 5 min night + 15 min rounding at night rate
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T21:50:00Z'),
+      new Date('2025-03-05T22:05:00Z'),
+      { ...baseLot, billingMinutes: 30, tariff: [night] },
+    )
+    expect(quote.breakdown.map((b) => [b.band, b.minutes])).toEqual([
+      ['Standard', 10],
+      ['Night', 20],
+    ])
+  })
+
+  it('caps the total at maxDailyFee and keeps the uncapped subtotal', () => {
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T08:00:00Z'),
+      new Date('2025-03-05T18:00:00Z'),
+      { ...baseLot, maxDailyFee: 50 },
+    )
+    expect(quote.subtotal).toBe(80)
+    expect(quote.fee).toBe(50)
+    expect(quote.capped).toBe(true)
+  })
+
+  it('caps each rolling 24h window separately on multi-day stays', () => {
+    // 3 days + 2h at 8/hr, cap 50: 50 + 50 + 50 + 16
+    const entry = new Date('2025-03-05T10:00:00Z')
+    const exit = new Date('2025-03-08T12:00:00Z')
+    const quote = calculateTariffFee(entry, exit, { ...baseLot, maxDailyFee: 50 })
+    expect(quote.fee).toBe(166)
+    expect(quote.fee).toBe(calculateFee(3 * 1440 + 120, 8, 15, 50))
+    expect(quote.days.map((d) => [d.day, d.fee, d.capped])).toEqual([
+      [1, 50, true],
+      [2, 50, true],
+      [3, 50, true],
+      [4, 16, false],
+    ])
+    expect(quote.days[1].start).toBe('2025-03-06T10:00:00.000Z')
+    expect(quote.subtotal).toBe(3 * 192 + 16)
+  })
+
+  it('caps per local calendar day in calendar_day mode', () => {
+    // Wed 20:00 → Thu 10:00 in Jerusalem (UTC+2): 4h on Wed + 10h on Thu
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T18:00:00Z'),
+      new Date('2025-03-06T08:00:00Z'),
+      { ...baseLot, maxDailyFee: 50, timezone: 'Asia/Jerusalem', dailyCapMode: 'calendar_day' },
+    )
+    expect(quote.days.map((d) => [d.date, d.subtotal, d.fee])).toEqual([
+      ['2025-03-05', 32, 32],
+      ['2025-03-06', 80, 50],
+    ])
+    expect(quote.fee).toBe(82)
+    expect(quote.capped).toBe(true)
+  })
+
+  it('keeps per-day band breakdowns', () => {
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T21:00:00Z'),
+      new Date('2025-03-06T01:00:00Z'),
+      { ...baseLot, tariff: [night], dailyCapMode: 'calendar_day' },
+    )
+    expect(quote.days).toHaveLength(2)
+    expect(quote.days[0].breakdown.map((b) => [b.band, b.minutes])).toEqual([
+      ['Standard', 60],
+      ['Night', 120],
+    ])
+    expect(quote.days[1].breakdown.map((b) => [b.band, b.minutes])).toEqual([['Night', 60]])
+    expect(quote.breakdown.map((b) => [b.band, b.minutes])).toEqual([
+      ['Standard', 60],
+      ['Night', 180],
+    ])
+  })
+
+  it('returns 0 within the grace period', () => {
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T08:00:00Z'),
+      new Date('2025-03-05T08:04:00Z'),
+      { ...baseLot, gracePeriodMinutes: 5, tariff: [night] },
+    )
+    expect(quote).toMatchObject({ fee: 0, feeMinor: '0', capped: false, breakdown: [], days: [] })
+  })
+
+  it('rounds each band to minor units so the breakdown sums to the fee', () => {
+    // 21:53 → 22:10, 1-min billing: 7 min at 8/hr (93.3¢) + 10 min at 2.50/hr (41.7¢)
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T21:53:00Z'),
+      new Date('2025-03-05T22:10:00Z'),
+      { ...baseLot, billingMinutes: 1, tariff: [{ ...night, ratePerHour: 2.5 }] },
+    )
+    expect(quote.breakdown.map((b) => b.feeMinor)).toEqual(['93', '42'])
+    expect(quote.feeMinor).toBe('135')
+    expect(quote.fee).toBe(1.35)
+  })
+
+  it("uses the lot currency's exponent", () => {
+    // 10 min at ¥250/hr = ¥41.67 → ¥42 (JPY has no minor unit)
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T10:00:00Z'),
+      new Date('2025-03-05T10:10:00Z'),
+      { ...baseLot, ratePerHour: 250, billingMinutes: 1, currency: 'JPY' },
+    )
+    expect(quote).toMatchObject({ currency: 'JPY', fee: 42, feeMinor: '42' })
+  })
+
+  it('charges free bands at 0 while billing the rest', () => {
+    const freeNight = { ...night, ratePerHour: 0 }
+    const quote = calculateTariffFee(
+      new Date('2025-03-05T21:00:00Z'),
+      new Date('2025-03-05T23:00:00Z'),
+      { ...baseLot, tariff: [freeNight] },
+    )
+    expect(quote.fee).toBe(8)
+  })
+})
+
+describe('validateTariff', () => {
+  it('accepts a valid schedule', () => {
+    expect(validateTariff([night, weekend])).toBeNull()
+    expect(validateTariff([])).toBeNull()
+  })
+
+  it('rejects malformed bands', () => {
+    expect(validateTariff({})).toMatch(/array/)
+    expect(validateTariff([{ ...night, name: '' }])).toMatch(/name/)
+    expect(validateTariff([{ ...night, start: '25:00' }])).toMatch(/start/)
+    expect(validateTariff([{ ...night, end: '6:00' }])).toMatch(/end/)
+    expect(validateTariff([{ ...night, ratePerHour: -1 }])).toMatch(/negative/)
+    expect(validateTariff([{ ...night, days: [7] }])).toMatch(/days/)
+    expect(validateTariff([{ ...night, dates: ['03/05/2025'] }])).toMatch(/dates/)
+    expect(validateTariff([night, { ...weekend, name: 'Night' }])).toMatch(/unique/)
+  })
+})
+
+describe('isValidTimeZone', () => {
+  it('checks IANA names', () => {
+    expect(isValidTimeZone('Europe/London')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+})
+
+describe('applySessionComp', () => {
+  it('leaves the fee unchanged without a comp', () => {
+    expect(applySessionComp(1250n)).toBe(1250n)
+  })
+
+  it('takes a percentage off, rounding the discount up', () => {
+    expect(applySessionComp(1250n, { percent: 50 })).toBe(625n)
+    expect(applySessionComp(1255n, { percent: 50 })).toBe(627n)
+    expect(applySessionComp(1250n, { percent: 100 })).toBe(0n)
+  })
+
+  it('takes a fixed amount off, never below zero', () => {
+    expect(applySessionComp(1250n, { amountMinor: '500' })).toBe(750n)
+    expect(applySessionComp(1250n, { amountMinor: '5000' })).toBe(0n)
+  })
+})
@@ -100,6 +100,13 @@ describe('calculateFee', () => {
     expect(calculateFee(30, 8, 15, 50)).toBe(4)
   })
 
+  it('applies maxDailyFee per 24h window on multi-day stays', () => {
+    // 5 days at 8/hr (192/day) capped at 50/day
+    expect(calculateFee(5 * 1440, 8, 15, 50)).toBe(250)
+    // 1 day + 2h: 50 + 16
+    expect(calculateFee(1440 + 120, 8, 15, 50)).toBe(66)
+  })
+
   it('ignores maxDailyFee if 0 or negative', () => {
     expect(calculateFee(1440, 8, 15, 0)).toBe(192)
     expect(calculateFee(1440, 8, 15, -10)).toBe(192)
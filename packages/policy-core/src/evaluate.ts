@@ -10,13 +10,21 @@ import type {
   PaymentPolicyContext,
   PaymentPolicyDecision,
   PolicyReasonCode,
+  PolicyProvenance,
+  PolicyRuleField,
+  PolicyTraceEntry,
+  PolicyTraceRule,
   Rail,
   Asset,
+  AmountCheck,
+  RiskThresholds,
   SettlementResult,
   SettlementQuote,
   EnforcementResult,
 } from "./types.js";
 import { POLICY_SCHEMA_VERSION } from "./types.js";
+import { isInGeoArea } from "./geo.js";
+import { isWithinTimeWindows } from "./timeWindows.js";
 
 function sha256(input: string): string {
   return crypto.createHash("sha256").update(input).digest("hex");
@@ -31,21 +39,74 @@ function pickFirstAllowed<T>(offered: T[], allowlist?: T[]): T | undefined {
   return offered.find((x) => allowlist.includes(x));
 }
 
-function geoInCircle(
-  point: { lat: number; lng: number },
-  circle: { centerLat: number; centerLng: number; radiusMeters: number }
-): boolean {
-  const R = 6_371_000; // Earth radius in meters
-  const toRad = (d: number) => (d * Math.PI) / 180;
-  const dLat = toRad(circle.centerLat - point.lat);
-  const dLng = toRad(circle.centerLng - point.lng);
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(point.lat)) *
-      Math.cos(toRad(circle.centerLat)) *
-      Math.sin(dLng / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c <= circle.radiusMeters;
+function assetKey(x: Asset): string {
+  return x.kind === "XRP"
+    ? "XRP"
+    : x.kind === "IOU"
+      ? `IOU:${x.currency}:${x.issuer}`
+      : `ERC20:${x.chainId}:${x.token}`;
+}
+
+/** Offered assets on the allowlist (by value), in offer order; all of them without one. */
+function filterAllowedAssets(offered: Asset[], allowlist?: Asset[]): Asset[] {
+  if (allowlist === undefined) return [...offered];
+  return offered.filter((a) => allowlist.some((p) => assetKey(p) === assetKey(a)));
+}
+
+/** Risk cut-offs used when the context carries no lot-configured thresholds. */
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = { requireApproval: 80 };
+
+type TraceFailure = { result: "deny" | "require_approval"; reason: PolicyReasonCode };
+
+function denied(reason: PolicyReasonCode): TraceFailure {
+  return { result: "deny", reason };
+}
+
+function needsApproval(reason: PolicyReasonCode): TraceFailure {
+  return { result: "require_approval", reason };
+}
+
+/** Outcome of the risk check for a context, or undefined when the score is below both cut-offs. */
+function riskFailure(ctx: {
+  riskScore?: number;
+  riskThresholds?: RiskThresholds;
+}): TraceFailure | undefined {
+  const thresholds = ctx.riskThresholds ?? DEFAULT_RISK_THRESHOLDS;
+  const score = ctx.riskScore ?? 0;
+  if (thresholds.deny !== undefined && score >= thresholds.deny) return denied("RISK_HIGH");
+  if (score >= thresholds.requireApproval) return needsApproval("RISK_HIGH");
+  return undefined;
+}
+
+/** Whether the context's owner approval covers its price. */
+function isCoveredByApproval(ctx: PaymentPolicyContext): boolean {
+  return (
+    ctx.ownerApproval !== undefined &&
+    BigInt(getPriceFiatMinor(ctx)) <= BigInt(ctx.ownerApproval.maxMinor)
+  );
+}
+
+/**
+ * Trace recorder (no-op unless trace mode is on). A check whose limit is undefined and that
+ * did not fail is recorded as not_set.
+ */
+function createTracer(ctx: { trace?: boolean; provenance?: PolicyProvenance }) {
+  const entries: PolicyTraceEntry[] | undefined = ctx.trace ? [] : undefined;
+  const check = (
+    rule: PolicyTraceRule,
+    limit: unknown,
+    input: unknown,
+    failure?: TraceFailure
+  ): void => {
+    if (!entries) return;
+    const entry: PolicyTraceEntry =
+      limit === undefined && !failure
+        ? { rule, result: "not_set" }
+        : { rule, result: failure?.result ?? "pass", input, limit, reason: failure?.reason };
+    const layers = ctx.provenance?.[rule as PolicyRuleField];
+    entries.push(layers ? { ...entry, layers } : entry);
+  };
+  return { entries, check };
 }
 
 /**
@@ -56,29 +117,64 @@ export function evaluateEntryPolicy(ctx: EntryPolicyContext): SessionPolicyGrant
   const { policy, nowISO, lotId, railsOffered, assetsOffered } = ctx;
   const reasons: PolicyReasonCode[] = [];
   let requireApproval = false;
+  const { entries: trace, check } = createTracer(ctx);
 
-  const operatorAllowlist = policy.operatorAllowlist ?? policy.vendorAllowlist;
+  const operatorAllowlist = policy.operatorAllowlist;
   if (operatorAllowlist !== undefined) {
     if (!ctx.operatorId || !operatorAllowlist.includes(ctx.operatorId)) {
-      return denyEntry(ctx, ["VENDOR_NOT_ALLOWED"]);
+      check("operatorAllowlist", operatorAllowlist, ctx.operatorId, denied("VENDOR_NOT_ALLOWED"));
+      return denyEntry(ctx, ["VENDOR_NOT_ALLOWED"], trace);
     }
   }
+  check("operatorAllowlist", operatorAllowlist, ctx.operatorId);
 
   if (policy.lotAllowlist !== undefined && !policy.lotAllowlist.includes(lotId)) {
-    return denyEntry(ctx, ["LOT_NOT_ALLOWED"]);
+    check("lotAllowlist", policy.lotAllowlist, lotId, denied("LOT_NOT_ALLOWED"));
+    return denyEntry(ctx, ["LOT_NOT_ALLOWED"], trace);
   }
+  check("lotAllowlist", policy.lotAllowlist, lotId);
+
+  if (
+    policy.timeWindows !== undefined &&
+    !isWithinTimeWindows(policy.timeWindows, new Date(nowISO))
+  ) {
+    check("timeWindows", policy.timeWindows, nowISO, denied("OUTSIDE_TIME_WINDOW"));
+    return denyEntry(ctx, ["OUTSIDE_TIME_WINDOW"], trace);
+  }
+  check("timeWindows", policy.timeWindows, nowISO);
 
   if (policy.geoAllowlist !== undefined) {
     if (!ctx.geo) {
-      return denyEntry(ctx, ["GEO_NOT_ALLOWED"]);
+      check("geoAllowlist", policy.geoAllowlist, null, denied("GEO_NOT_ALLOWED"));
+      return denyEntry(ctx, ["GEO_NOT_ALLOWED"], trace);
     }
-    const inAny = policy.geoAllowlist.some((c) => geoInCircle(ctx.geo!, c));
+    const inAny = policy.geoAllowlist.some((area) => isInGeoArea(ctx.geo!, area));
     if (!inAny) {
-      return denyEntry(ctx, ["GEO_NOT_ALLOWED"]);
+      check("geoAllowlist", policy.geoAllowlist, ctx.geo, denied("GEO_NOT_ALLOWED"));
+      return denyEntry(ctx, ["GEO_NOT_ALLOWED"], trace);
     }
   }
+  check("geoAllowlist", policy.geoAllowlist, ctx.geo);
 
-  if ((ctx.riskScore ?? 0) >= 80) {
+  const debtMinor = ctx.outstandingDebtMinor ?? "0";
+  if (
+    policy.maxOutstandingDebtMinor !== undefined &&
+    BigInt(debtMinor) > BigInt(policy.maxOutstandingDebtMinor)
+  ) {
+    check(
+      "maxOutstandingDebtMinor",
+      policy.maxOutstandingDebtMinor,
+      debtMinor,
+      denied("DEBT_OUTSTANDING")
+    );
+    return denyEntry(ctx, ["DEBT_OUTSTANDING"], trace);
+  }
+  check("maxOutstandingDebtMinor", policy.maxOutstandingDebtMinor, debtMinor);
+
+  const risk = riskFailure(ctx);
+  check("riskScore", ctx.riskThresholds ?? DEFAULT_RISK_THRESHOLDS, ctx.riskScore ?? null, risk);
+  if (risk?.result === "deny") return denyEntry(ctx, ["RISK_HIGH"], trace);
+  if (risk) {
     requireApproval = true;
     reasons.push("RISK_HIGH", "NEEDS_APPROVAL");
   }
@@ -87,26 +183,19 @@ export function evaluateEntryPolicy(ctx: EntryPolicyContext): SessionPolicyGrant
     policy.railAllowlist !== undefined
       ? railsOffered.filter((r) => policy.railAllowlist!.includes(r))
       : [...railsOffered];
-  const allowedAssets =
-    policy.assetAllowlist !== undefined
-      ? assetsOffered.filter((a) => {
-          const key = (x: Asset) =>
-            x.kind === "XRP"
-              ? "XRP"
-              : x.kind === "IOU"
-                ? `IOU:${x.currency}:${x.issuer}`
-                : `ERC20:${x.chainId}:${x.token}`;
-          return policy.assetAllowlist!.some((p) => key(p) === key(a));
-        })
-      : [...assetsOffered];
+  const allowedAssets = filterAllowedAssets(assetsOffered, policy.assetAllowlist);
 
   if (allowedRails.length === 0) {
-    return denyEntry(ctx, ["RAIL_NOT_ALLOWED"]);
+    check("railAllowlist", policy.railAllowlist, railsOffered, denied("RAIL_NOT_ALLOWED"));
+    return denyEntry(ctx, ["RAIL_NOT_ALLOWED"], trace);
   }
+  check("railAllowlist", policy.railAllowlist, railsOffered);
   const hasCryptoRail = allowedRails.some((r) => r === "xrpl" || r === "evm");
   if (hasCryptoRail && allowedAssets.length === 0) {
-    return denyEntry(ctx, ["ASSET_NOT_ALLOWED"]);
+    check("assetAllowlist", policy.assetAllowlist, assetsOffered, denied("ASSET_NOT_ALLOWED"));
+    return denyEntry(ctx, ["ASSET_NOT_ALLOWED"], trace);
   }
+  check("assetAllowlist", policy.assetAllowlist, assetsOffered);
 
   if (reasons.length === 0) reasons.push("OK");
 
@@ -119,6 +208,7 @@ export function evaluateEntryPolicy(ctx: EntryPolicyContext): SessionPolicyGrant
       allowedRails,
       allowedAssets,
       requireApproval,
+      layers: ctx.layers,
     })
   );
 
@@ -141,12 +231,20 @@ export function evaluateEntryPolicy(ctx: EntryPolicyContext): SessionPolicyGrant
     operatorId: ctx.operatorId,
     reasons,
     requireApproval,
+    layers: ctx.layers,
+    ...(trace && { trace }),
   };
 }
 
-function denyEntry(ctx: EntryPolicyContext, reasons: PolicyReasonCode[]): SessionPolicyGrant {
+function denyEntry(
+  ctx: EntryPolicyContext,
+  reasons: PolicyReasonCode[],
+  trace?: PolicyTraceEntry[]
+): SessionPolicyGrant {
   const grantId = crypto.randomUUID();
-  const policyHash = sha256(JSON.stringify({ policy: ctx.policy, lotId: ctx.lotId, denied: reasons }));
+  const policyHash = sha256(
+    JSON.stringify({ policy: ctx.policy, lotId: ctx.lotId, layers: ctx.layers, denied: reasons })
+  );
   return {
     grantAction: "DENY",
     grantId,
@@ -158,6 +256,8 @@ function denyEntry(ctx: EntryPolicyContext, reasons: PolicyReasonCode[]): Sessio
     vehicleId: ctx.vehicleId,
     operatorId: ctx.operatorId,
     reasons,
+    layers: ctx.layers,
+    ...(trace && { trace }),
   };
 }
 
@@ -221,6 +321,7 @@ function hashPaymentDecisionPayload(
       rail: input.rail ?? null,
       asset: input.asset ?? null,
       priceFiat: getPriceFiatForHash(ctx),
+      ...(ctx.ownerApproval && { ownerApprovalId: ctx.ownerApproval.approvalId }),
       caps: {
         perTxMinor: ctx.policy.capPerTxMinor ?? null,
         perSessionMinor: ctx.policy.capPerSessionMinor ?? null,
@@ -237,8 +338,14 @@ function hashPaymentDecisionPayload(
  */
 export function evaluatePaymentPolicy(ctx: PaymentPolicyContext): PaymentPolicyDecision {
   const { policy } = ctx;
+  const { entries: trace, check } = createTracer(ctx);
+  const approved = isCoveredByApproval(ctx);
+  if (approved) {
+    check("ownerApproval", ctx.ownerApproval?.maxMinor, getPriceFiatMinor(ctx));
+  }
 
   if (
+    !approved &&
     ctx.grantExpiresAtISO &&
     Number.isFinite(Date.parse(ctx.grantExpiresAtISO)) &&
     Date.parse(ctx.grantExpiresAtISO) <= Date.parse(ctx.nowISO)
@@ -248,61 +355,110 @@ export function evaluatePaymentPolicy(ctx: PaymentPolicyContext): PaymentPolicyD
       "GRANT_EXPIRED",
       "NEEDS_APPROVAL",
     ];
-    return requireApprovalPayment(ctx, [...new Set(reasons)]);
+    check("grantExpiry", ctx.grantExpiresAtISO, ctx.nowISO, needsApproval("GRANT_EXPIRED"));
+    return requireApprovalPayment(ctx, [...new Set(reasons)], trace);
   }
+  check("grantExpiry", ctx.grantExpiresAtISO, ctx.nowISO);
 
-  const operatorAllowlist = policy.operatorAllowlist ?? policy.vendorAllowlist;
+  const operatorAllowlist = policy.operatorAllowlist;
   if (operatorAllowlist !== undefined) {
     if (!ctx.operatorId || !operatorAllowlist.includes(ctx.operatorId)) {
-      return denyPayment(ctx, ["VENDOR_NOT_ALLOWED"]);
+      check("operatorAllowlist", operatorAllowlist, ctx.operatorId, denied("VENDOR_NOT_ALLOWED"));
+      return denyPayment(ctx, ["VENDOR_NOT_ALLOWED"], trace);
     }
   }
+  check("operatorAllowlist", operatorAllowlist, ctx.operatorId);
 
   if (policy.lotAllowlist !== undefined && !policy.lotAllowlist.includes(ctx.lotId)) {
-    return denyPayment(ctx, ["LOT_NOT_ALLOWED"]);
+    check("lotAllowlist", policy.lotAllowlist, ctx.lotId, denied("LOT_NOT_ALLOWED"));
+    return denyPayment(ctx, ["LOT_NOT_ALLOWED"], trace);
+  }
+  check("lotAllowlist", policy.lotAllowlist, ctx.lotId);
+
+  if (
+    policy.timeWindows !== undefined &&
+    !isWithinTimeWindows(policy.timeWindows, new Date(ctx.nowISO))
+  ) {
+    check("timeWindows", policy.timeWindows, ctx.nowISO, denied("OUTSIDE_TIME_WINDOW"));
+    return denyPayment(ctx, ["OUTSIDE_TIME_WINDOW"], trace);
   }
+  check("timeWindows", policy.timeWindows, ctx.nowISO);
 
   const priceMinor = BigInt(getPriceFiatMinor(ctx));
   const { dayTotal, sessionTotal } = getSpendTotals(ctx);
+  const sessionSpend = (BigInt(sessionTotal) + priceMinor).toString();
+  const daySpend = (BigInt(dayTotal) + priceMinor).toString();
 
   if (policy.capPerTxMinor !== undefined && priceMinor > BigInt(policy.capPerTxMinor)) {
-    return denyPayment(ctx, ["CAP_EXCEEDED_TX"]);
+    check("capPerTxMinor", policy.capPerTxMinor, priceMinor.toString(), denied("CAP_EXCEEDED_TX"));
+    return denyPayment(ctx, ["CAP_EXCEEDED_TX"], trace);
   }
+  check("capPerTxMinor", policy.capPerTxMinor, priceMinor.toString());
 
   if (
     policy.capPerSessionMinor !== undefined &&
     BigInt(sessionTotal) + priceMinor > BigInt(policy.capPerSessionMinor)
   ) {
-    return denyPayment(ctx, ["CAP_EXCEEDED_SESSION"]);
+    check(
+      "capPerSessionMinor",
+      policy.capPerSessionMinor,
+      sessionSpend,
+      denied("CAP_EXCEEDED_SESSION")
+    );
+    return denyPayment(ctx, ["CAP_EXCEEDED_SESSION"], trace);
   }
+  check("capPerSessionMinor", policy.capPerSessionMinor, sessionSpend);
 
   if (
     policy.capPerDayMinor !== undefined &&
     BigInt(dayTotal) + priceMinor > BigInt(policy.capPerDayMinor)
   ) {
-    return denyPayment(ctx, ["CAP_EXCEEDED_DAY"]);
+    check("capPerDayMinor", policy.capPerDayMinor, daySpend, denied("CAP_EXCEEDED_DAY"));
+    return denyPayment(ctx, ["CAP_EXCEEDED_DAY"], trace);
   }
+  check("capPerDayMinor", policy.capPerDayMinor, daySpend);
 
   if (
+    !approved &&
     policy.requireApprovalOverMinor !== undefined &&
     priceMinor > BigInt(policy.requireApprovalOverMinor)
   ) {
-    return requireApprovalPayment(ctx, ["PRICE_SPIKE", "NEEDS_APPROVAL"]);
-  }
-
-  if ((ctx.riskScore ?? 0) >= 80) {
-    return requireApprovalPayment(ctx, ["RISK_HIGH", "NEEDS_APPROVAL"]);
-  }
+    check(
+      "requireApprovalOverMinor",
+      policy.requireApprovalOverMinor,
+      priceMinor.toString(),
+      needsApproval("PRICE_SPIKE")
+    );
+    return requireApprovalPayment(ctx, ["PRICE_SPIKE", "NEEDS_APPROVAL"], trace);
+  }
+  check("requireApprovalOverMinor", policy.requireApprovalOverMinor, priceMinor.toString());
+
+  const riskCheck = riskFailure(ctx);
+  const risk = approved && riskCheck?.result === "require_approval" ? undefined : riskCheck;
+  check("riskScore", ctx.riskThresholds ?? DEFAULT_RISK_THRESHOLDS, ctx.riskScore ?? null, risk);
+  if (risk?.result === "deny") return denyPayment(ctx, ["RISK_HIGH"], trace);
+  if (risk) return requireApprovalPayment(ctx, ["RISK_HIGH", "NEEDS_APPROVAL"], trace);
 
   const rail = pickFirstAllowed<Rail>(ctx.railsOffered, policy.railAllowlist);
-  if (!rail) return denyPayment(ctx, ["RAIL_NOT_ALLOWED"]);
+  if (!rail) {
+    check("railAllowlist", policy.railAllowlist, ctx.railsOffered, denied("RAIL_NOT_ALLOWED"));
+    return denyPayment(ctx, ["RAIL_NOT_ALLOWED"], trace);
+  }
+  check("railAllowlist", policy.railAllowlist, ctx.railsOffered);
 
   let asset: Asset | undefined;
+  let allowedAssets: Asset[] | undefined;
   if (rail === "stripe" || rail === "hosted") {
     asset = undefined;
   } else {
-    asset = pickFirstAllowed<Asset>(ctx.assetsOffered, policy.assetAllowlist);
-    if (!asset) return denyPayment(ctx, ["ASSET_NOT_ALLOWED"]);
+    allowedAssets = filterAllowedAssets(ctx.assetsOffered, policy.assetAllowlist);
+    asset = allowedAssets[0];
+    if (!asset) {
+      const failure = denied("ASSET_NOT_ALLOWED");
+      check("assetAllowlist", policy.assetAllowlist, ctx.assetsOffered, failure);
+      return denyPayment(ctx, ["ASSET_NOT_ALLOWED"], trace);
+    }
+    check("assetAllowlist", policy.assetAllowlist, ctx.assetsOffered);
   }
 
   const expiresAtISO = isoPlusMinutes(5, new Date(ctx.nowISO));
@@ -323,12 +479,15 @@ export function evaluatePaymentPolicy(ctx: PaymentPolicyContext): PaymentPolicyD
     decisionId,
     policyHash,
     sessionGrantId: ctx.sessionGrantId ?? null,
+    ...(allowedAssets && { allowedAssets }),
+    ...(trace && { trace }),
   };
 }
 
 function denyPayment(
   ctx: PaymentPolicyContext,
-  reasons: PolicyReasonCode[]
+  reasons: PolicyReasonCode[],
+  trace?: PolicyTraceEntry[]
 ): PaymentPolicyDecision {
   const expiresAtISO = isoPlusMinutes(5, new Date(ctx.nowISO));
   const decisionId = crypto.randomUUID();
@@ -340,12 +499,14 @@ function denyPayment(
     decisionId,
     policyHash,
     sessionGrantId: ctx.sessionGrantId ?? null,
+    ...(trace && { trace }),
   };
 }
 
 function requireApprovalPayment(
   ctx: PaymentPolicyContext,
-  reasons: PolicyReasonCode[]
+  reasons: PolicyReasonCode[],
+  trace?: PolicyTraceEntry[]
 ): PaymentPolicyDecision {
   const expiresAtISO = isoPlusMinutes(5, new Date(ctx.nowISO));
   const decisionId = crypto.randomUUID();
@@ -360,6 +521,7 @@ function requireApprovalPayment(
     decisionId,
     policyHash,
     sessionGrantId: ctx.sessionGrantId ?? null,
+    ...(trace && { trace }),
   };
 }
 
@@ -408,10 +570,23 @@ function findMatchingQuote(
   );
 }
 
+/**
+ * The settlement's tolerant amount check, when accepted and consistent with its amount.
+ */
+function tolerantAmountCheck(settlement: SettlementResult): AmountCheck | undefined {
+  const check = settlement.amountCheck;
+  if (!check || check.stance !== "tolerant" || !check.accepted) return undefined;
+  const received = BigInt(check.received);
+  if (received !== BigInt(settlement.amount)) return undefined;
+  if (received - BigInt(check.expected) !== BigInt(check.delta)) return undefined;
+  return check;
+}
+
 /**
  * Enforce that a settlement result complies with a prior payment policy decision.
  * When decision has settlementQuotes: match by rail + quoteId or rail+asset, enforce atomic amount + destination.
  * Otherwise (legacy): enforce rail, asset, and amount vs maxSpend.perTxMinor.
+ * A tolerant amount check accepted for the settlement stands in for the exact amount.
  */
 export function enforcePayment(
   decision: PaymentPolicyDecision,
@@ -457,8 +632,12 @@ export function enforcePayment(
     return { allowed: false, reason: "QUOTE_NOT_FOUND" };
   }
 
+  const amountCheck = tolerantAmountCheck(settlement);
+
   if (quote) {
-    const amountOk = BigInt(settlement.amount) === BigInt(quote.amount.amount);
+    const amountOk = amountCheck
+      ? BigInt(amountCheck.expected) === BigInt(quote.amount.amount)
+      : BigInt(settlement.amount) === BigInt(quote.amount.amount);
     if (!amountOk) return { allowed: false, reason: "QUOTE_AMOUNT_MISMATCH" };
     if (quote.destination) {
       // If a quote binds destination, settlement must provide it and match exactly.
@@ -481,7 +660,10 @@ export function enforcePayment(
     }
   }
 
-  const amountMinor = BigInt(settlement.amount);
+  // Over-payment is driver credit, not spend
+  const amountMinor = amountCheck
+    ? BigInt(amountCheck.received) - BigInt(amountCheck.credit)
+    : BigInt(settlement.amount);
   const capTx = decision.maxSpend?.perTxMinor;
   if (capTx !== undefined && amountMinor > BigInt(capTx)) {
     return { allowed: false, reason: "CAP_EXCEEDED_TX" };
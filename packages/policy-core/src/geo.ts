@@ -0,0 +1,137 @@
+/**
+ * Geo allowlist areas: point-in-area checks and intersection across policy layers.
+ * Polygons are evaluated on plain lng/lat (fine at lot / district / campus scale).
+ * No DB, Express, or chain clients.
+ */
+
+import type { GeoArea, GeoCircle, GeoPosition } from "./types.js";
+
+const EARTH_RADIUS_METERS = 6_371_000;
+const METERS_PER_DEGREE_LAT = 111_320;
+
+type GeoPoint = { lat: number; lng: number };
+
+/** Bounding box in degrees. */
+interface BBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+function geoInCircle(point: GeoPoint, circle: GeoCircle): boolean {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(circle.centerLat - point.lat);
+  const dLng = toRad(circle.centerLng - point.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(point.lat)) *
+      Math.cos(toRad(circle.centerLat)) *
+      Math.sin(dLng / 2) ** 2;
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c <= circle.radiusMeters;
+}
+
+/** Even-odd ray cast; ring positions are [lng, lat]. */
+function inRing(point: GeoPoint, ring: GeoPosition[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if (
+      latI > point.lat !== latJ > point.lat &&
+      point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function inPolygon(point: GeoPoint, rings: GeoPosition[][]): boolean {
+  const [outer, ...holes] = rings;
+  if (!outer || !inRing(point, outer)) return false;
+  return !holes.some((hole) => inRing(point, hole));
+}
+
+/** True when `point` lies inside `area`. */
+export function isInGeoArea(point: GeoPoint, area: GeoArea): boolean {
+  if (!("type" in area)) return geoInCircle(point, area);
+  switch (area.type) {
+    case "Polygon":
+      return inPolygon(point, area.coordinates);
+    case "MultiPolygon":
+      return area.coordinates.some((polygon) => inPolygon(point, polygon));
+    case "Intersection":
+      return area.areas.every((inner) => isInGeoArea(point, inner));
+    default:
+      return false;
+  }
+}
+
+function ringsBBox(rings: GeoPosition[][]): BBox | null {
+  const points = rings.flat();
+  if (points.length === 0) return null;
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  return {
+    minLat: Math.min(...lats),
+    maxLat: Math.max(...lats),
+    minLng: Math.min(...lngs),
+    maxLng: Math.max(...lngs),
+  };
+}
+
+function overlap(a: BBox | null, b: BBox | null): BBox | null {
+  if (!a || !b) return null;
+  const box = {
+    minLat: Math.max(a.minLat, b.minLat),
+    maxLat: Math.min(a.maxLat, b.maxLat),
+    minLng: Math.max(a.minLng, b.minLng),
+    maxLng: Math.min(a.maxLng, b.maxLng),
+  };
+  return box.minLat <= box.maxLat && box.minLng <= box.maxLng ? box : null;
+}
+
+/** Bounding box of an area, or null when it provably contains no point. */
+function areaBBox(area: GeoArea): BBox | null {
+  if (!("type" in area)) {
+    const dLat = area.radiusMeters / METERS_PER_DEGREE_LAT;
+    const cosLat = Math.max(Math.cos((area.centerLat * Math.PI) / 180), 1e-6);
+    const dLng = Math.min(area.radiusMeters / (METERS_PER_DEGREE_LAT * cosLat), 180);
+    return {
+      minLat: area.centerLat - dLat,
+      maxLat: area.centerLat + dLat,
+      minLng: area.centerLng - dLng,
+      maxLng: area.centerLng + dLng,
+    };
+  }
+  switch (area.type) {
+    case "Polygon":
+      return ringsBBox(area.coordinates.slice(0, 1));
+    case "MultiPolygon":
+      return ringsBBox(area.coordinates.map((polygon) => polygon[0] ?? []));
+    case "Intersection":
+      return area.areas.length > 0 ? area.areas.map(areaBBox).reduce(overlap) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Intersect two geo allowlists (a point must be allowed by both). Each pair of areas becomes
+ * one Intersection area; pairs whose bounding boxes don't overlap are dropped, so disjoint
+ * allowlists merge to [] (deny-all).
+ */
+export function intersectGeoAllowlists(a: GeoArea[], b: GeoArea[]): GeoArea[] {
+  const parts = (area: GeoArea) =>
+    "type" in area && area.type === "Intersection" ? area.areas : [area];
+  const out: GeoArea[] = [];
+  for (const left of a) {
+    for (const right of b) {
+      const area: GeoArea = { type: "Intersection", areas: [...parts(left), ...parts(right)] };
+      if (areaBBox(area)) out.push(area);
+    }
+  }
+  return out;
+}
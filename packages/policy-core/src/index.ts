@@ -1,4 +1,5 @@
 export * from "./types.js";
 export * from "./merge.js";
 export * from "./evaluate.js";
-
+export * from "./validate.js";
+export * from "./migrate.js";
@@ -3,8 +3,21 @@
  * No DB, Express, or chain clients.
  */
 
-import type { Policy, PolicyStack, PolicySchemaVersion, Rail, Asset, GeoCircle } from "./types.js";
+import type {
+  Policy,
+  PolicyLayer,
+  PolicyProvenance,
+  PolicyRuleField,
+  PolicyStack,
+  PolicySchemaVersion,
+  Rail,
+  Asset,
+  GeoArea,
+  TimeWindow,
+} from "./types.js";
 import { POLICY_SCHEMA_VERSION } from "./types.js";
+import { intersectGeoAllowlists } from "./geo.js";
+import { intersectTimeWindows } from "./timeWindows.js";
 
 function mergeAllowlist<T>(a: T[] | undefined, b: T[] | undefined): T[] | undefined {
   if (a === undefined && b === undefined) return undefined;
@@ -15,13 +28,13 @@ function mergeAllowlist<T>(a: T[] | undefined, b: T[] | undefined): T[] | undefi
 }
 
 function mergeGeoAllowlist(
-  a: GeoCircle[] | undefined,
-  b: GeoCircle[] | undefined
-): GeoCircle[] | undefined {
+  a: GeoArea[] | undefined,
+  b: GeoArea[] | undefined
+): GeoArea[] | undefined {
   if (a === undefined && b === undefined) return undefined;
   if (a === undefined) return b;
   if (b === undefined) return a;
-  return b;
+  return intersectGeoAllowlists(a, b);
 }
 
 function mergeRailAllowlist(
@@ -52,6 +65,16 @@ function mergeAssetAllowlist(
   return a.filter((x) => keysB.has(key(x)));
 }
 
+function mergeTimeWindows(
+  a: TimeWindow[] | undefined,
+  b: TimeWindow[] | undefined
+): TimeWindow[] | undefined {
+  if (a === undefined && b === undefined) return undefined;
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return intersectTimeWindows(a, b);
+}
+
 function mergeCapMin(
   a: string | undefined,
   b: string | undefined,
@@ -61,19 +84,19 @@ function mergeCapMin(
   return BigInt(a) <= BigInt(b) ? a : b;
 }
 
-/** Merge two policies: allowlists intersect; caps use strictest numeric min. */
+/**
+ * Merge two policies: allowlists, geo areas and time windows intersect; caps use strictest
+ * numeric min.
+ */
 function mergeTwo(base: Policy, override: Policy): Policy {
   return {
     version: POLICY_SCHEMA_VERSION,
     lotAllowlist: mergeAllowlist(base.lotAllowlist, override.lotAllowlist),
-    operatorAllowlist: mergeAllowlist(
-      base.operatorAllowlist ?? base.vendorAllowlist,
-      override.operatorAllowlist ?? override.vendorAllowlist,
-    ),
-    vendorAllowlist: undefined,
+    operatorAllowlist: mergeAllowlist(base.operatorAllowlist, override.operatorAllowlist),
     geoAllowlist: mergeGeoAllowlist(base.geoAllowlist, override.geoAllowlist),
     railAllowlist: mergeRailAllowlist(base.railAllowlist, override.railAllowlist),
     assetAllowlist: mergeAssetAllowlist(base.assetAllowlist, override.assetAllowlist),
+    timeWindows: mergeTimeWindows(base.timeWindows, override.timeWindows),
     capPerTxMinor: mergeCapMin(base.capPerTxMinor, override.capPerTxMinor),
     capPerSessionMinor: mergeCapMin(base.capPerSessionMinor, override.capPerSessionMinor),
     capPerDayMinor: mergeCapMin(base.capPerDayMinor, override.capPerDayMinor),
@@ -81,6 +104,10 @@ function mergeTwo(base: Policy, override: Policy): Policy {
       override.requireApprovalOverMinor !== undefined
         ? override.requireApprovalOverMinor
         : base.requireApprovalOverMinor,
+    maxOutstandingDebtMinor: mergeCapMin(
+      base.maxOutstandingDebtMinor,
+      override.maxOutstandingDebtMinor
+    ),
   };
 }
 
@@ -95,3 +122,56 @@ export function resolveEffectivePolicy(stack: PolicyStack): Policy {
   if (stack.lot) out = mergeTwo(out, stack.lot);
   return out;
 }
+
+const STACK_ORDER = ["platform", "owner", "vehicle", "lot"] as const;
+
+const INTERSECTED_FIELDS: PolicyRuleField[] = [
+  "lotAllowlist",
+  "operatorAllowlist",
+  "railAllowlist",
+  "assetAllowlist",
+  "geoAllowlist",
+  "timeWindows",
+];
+const CAP_FIELDS: PolicyRuleField[] = [
+  "capPerTxMinor",
+  "capPerSessionMinor",
+  "capPerDayMinor",
+  "maxOutstandingDebtMinor",
+];
+const OVERRIDE_FIELDS: PolicyRuleField[] = ["requireApprovalOverMinor"];
+
+/**
+ * Which layers produced each field of resolveEffectivePolicy(stack), for evaluation traces.
+ * Intersected allowlists, geo areas and time windows: every layer that set the list. Caps: the
+ * layer(s) whose value is the effective min. Override fields (approval threshold): the highest
+ * layer that set it.
+ */
+export function resolvePolicyProvenance(stack: PolicyStack): PolicyProvenance {
+  const layers = STACK_ORDER.filter((layer) => stack[layer] !== undefined).map(
+    (layer) => [layer, stack[layer]!] as [PolicyLayer, Policy]
+  );
+  const setBy = (field: PolicyRuleField) =>
+    layers.filter(([, policy]) => policy[field] !== undefined);
+
+  const provenance: PolicyProvenance = {};
+  for (const field of INTERSECTED_FIELDS) {
+    const from = setBy(field);
+    if (from.length > 0) provenance[field] = from.map(([layer]) => layer);
+  }
+  for (const field of CAP_FIELDS) {
+    const from = setBy(field);
+    if (from.length === 0) continue;
+    const min = from
+      .map(([, policy]) => BigInt(policy[field] as string))
+      .reduce((a, b) => (b < a ? b : a));
+    provenance[field] = from
+      .filter(([, policy]) => BigInt(policy[field] as string) === min)
+      .map(([layer]) => layer);
+  }
+  for (const field of OVERRIDE_FIELDS) {
+    const from = setBy(field);
+    if (from.length > 0) provenance[field] = [from[from.length - 1][0]];
+  }
+  return provenance;
+}
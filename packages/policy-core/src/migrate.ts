@@ -0,0 +1,60 @@
+/**
+ * Policy schema migrations: upgrade stored or configured documents to POLICY_SCHEMA_VERSION.
+ * Fields are only removed from the schema through an upgrader here, so older documents keep
+ * their meaning. No DB, Express, or chain clients.
+ */
+
+import type { Policy, PolicyV1 } from "./types.js";
+import { POLICY_SCHEMA_VERSION } from "./types.js";
+import { collectPolicyErrors } from "./validate.js";
+
+type PolicyDocument = Record<string, unknown>;
+
+/** v1 → v2: `vendorAllowlist` folds into `operatorAllowlist` (which took precedence in v1). */
+function upgradeV1(doc: PolicyDocument): PolicyDocument {
+  const { vendorAllowlist, ...rest } = doc as Partial<PolicyV1> & PolicyDocument;
+  return {
+    ...rest,
+    version: 2,
+    ...(rest.operatorAllowlist === undefined &&
+      vendorAllowlist !== undefined && { operatorAllowlist: vendorAllowlist }),
+  };
+}
+
+/** Upgraders keyed by the version they read; each returns the next version. */
+const UPGRADERS: Record<number, (doc: PolicyDocument) => PolicyDocument> = {
+  1: upgradeV1,
+};
+
+export type PolicyMigrationResult =
+  | { ok: true; policy: Policy; fromVersion: number }
+  | { ok: false; errors: string[] };
+
+/**
+ * Upgrade a policy document of any supported version to the current schema and validate it.
+ * Documents already at the current version are only validated.
+ */
+export function migratePolicy(value: unknown): PolicyMigrationResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ["policy must be an object"] };
+  }
+  const fromVersion = (value as PolicyDocument).version;
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    return { ok: false, errors: ["policy.version must be a positive integer"] };
+  }
+  if (fromVersion > POLICY_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [`policy.version ${fromVersion} is newer than supported (${POLICY_SCHEMA_VERSION})`],
+    };
+  }
+
+  let doc = value as PolicyDocument;
+  for (let version = fromVersion; version < POLICY_SCHEMA_VERSION; version++) {
+    doc = UPGRADERS[version](doc);
+  }
+
+  const errors = collectPolicyErrors(doc);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, policy: doc as unknown as Policy, fromVersion };
+}
@@ -0,0 +1,165 @@
+/**
+ * Time-window rules: local-time checks and intersection across policy layers.
+ * Windows are compared as intervals in minutes of the week (Sunday 00:00 = 0) per time zone.
+ * No DB, Express, or chain clients.
+ */
+
+import type { DayOfWeek, TimeWindow } from "./types.js";
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+const CLOCK_RE = /^([01]\d|2[0-4]):([0-5]\d)$/;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Half-open interval [start, end) in minutes of the week. */
+type Interval = [number, number];
+
+/** "HH:MM" → minutes since midnight ("24:00" = 1440); null when malformed. */
+export function parseClock(value: string): number | null {
+  const match = CLOCK_RE.exec(value);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= DAY_MINUTES ? minutes : null;
+}
+
+function formatClock(minutes: number): string {
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${hh}:${mm}`;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minute of the week for `at` in `timeZone` (local wall-clock time). */
+function localMinuteOfWeek(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  const day = WEEKDAYS.indexOf(part("weekday"));
+  return day * DAY_MINUTES + Number(part("hour")) * 60 + Number(part("minute"));
+}
+
+/** Expand a window into week intervals; a window past Saturday midnight wraps to Sunday. */
+function windowIntervals(window: TimeWindow): Interval[] {
+  const start = parseClock(window.start);
+  const end = parseClock(window.end);
+  if (start === null || end === null || start === end) return [];
+  const out: Interval[] = [];
+  for (const day of new Set(window.days)) {
+    const from = day * DAY_MINUTES + start;
+    const to = day * DAY_MINUTES + (end > start ? end : DAY_MINUTES + end);
+    if (to <= WEEK_MINUTES) {
+      out.push([from, to]);
+    } else {
+      out.push([from, WEEK_MINUTES], [0, to - WEEK_MINUTES]);
+    }
+  }
+  return out;
+}
+
+function normalize(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const out: Interval[] = [];
+  for (const [start, end] of sorted) {
+    const last = out[out.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else out.push([start, end]);
+  }
+  return out;
+}
+
+/** Week intervals → windows, one per distinct (start, end) within a day. */
+function intervalsToWindows(intervals: Interval[], timeZone: string): TimeWindow[] {
+  const byRange = new Map<string, DayOfWeek[]>();
+  for (const [start, end] of intervals) {
+    for (let day = Math.floor(start / DAY_MINUTES); day * DAY_MINUTES < end; day++) {
+      const from = Math.max(start, day * DAY_MINUTES) - day * DAY_MINUTES;
+      const to = Math.min(end, (day + 1) * DAY_MINUTES) - day * DAY_MINUTES;
+      const key = `${formatClock(from)}-${formatClock(to)}`;
+      const days = byRange.get(key) ?? [];
+      days.push(day as DayOfWeek);
+      byRange.set(key, days);
+    }
+  }
+  return [...byRange.entries()].map(([key, days]) => {
+    const [start, end] = key.split("-");
+    return { days, start, end, timeZone };
+  });
+}
+
+function groupByTimeZone(windows: TimeWindow[]): Map<string, TimeWindow[]> {
+  const groups = new Map<string, TimeWindow[]>();
+  for (const window of windows) {
+    groups.set(window.timeZone, [...(groups.get(window.timeZone) ?? []), window]);
+  }
+  return groups;
+}
+
+/**
+ * True when `at` falls inside a window of every time zone in `windows`.
+ * An empty list never matches; an unknown time zone fails closed.
+ */
+export function isWithinTimeWindows(windows: TimeWindow[], at: Date): boolean {
+  if (windows.length === 0) return false;
+  for (const [timeZone, group] of groupByTimeZone(windows)) {
+    let minute: number;
+    try {
+      minute = localMinuteOfWeek(at, timeZone);
+    } catch {
+      return false;
+    }
+    const inGroup = group
+      .flatMap(windowIntervals)
+      .some(([start, end]) => minute >= start && minute < end);
+    if (!inGroup) return false;
+  }
+  return true;
+}
+
+/**
+ * Intersect two window lists (both must match). Windows sharing a time zone are intersected
+ * exactly; windows in other zones are kept side by side, since isWithinTimeWindows requires
+ * every zone to match. An empty result means no time is allowed.
+ */
+export function intersectTimeWindows(a: TimeWindow[], b: TimeWindow[]): TimeWindow[] {
+  if (a.length === 0 || b.length === 0) return [];
+  const groupsA = groupByTimeZone(a);
+  const groupsB = groupByTimeZone(b);
+  const out: TimeWindow[] = [];
+
+  for (const [timeZone, group] of groupsA) {
+    const other = groupsB.get(timeZone);
+    if (!other) {
+      out.push(...group);
+      continue;
+    }
+    const left = normalize(group.flatMap(windowIntervals));
+    const right = normalize(other.flatMap(windowIntervals));
+    const shared: Interval[] = [];
+    for (const [s1, e1] of left) {
+      for (const [s2, e2] of right) {
+        const start = Math.max(s1, s2);
+        const end = Math.min(e1, e2);
+        if (start < end) shared.push([start, end]);
+      }
+    }
+    if (shared.length === 0) return [];
+    out.push(...intervalsToWindows(normalize(shared), timeZone));
+  }
+  for (const [timeZone, group] of groupsB) {
+    if (!groupsA.has(timeZone)) out.push(...group);
+  }
+  return out;
+}
@@ -3,15 +3,15 @@
  * Pure types only — no DB, Express, or chain clients.
  */
 
-import type { Rail, Asset } from "@parker/settlement-core";
+import type { Rail, Asset, AmountCheck } from "@parker/settlement-core";
 
-export type { Rail, Asset };
+export type { Rail, Asset, AmountCheck };
 
 /** ISO 4217 currency code (e.g. "USD", "EUR"). */
 export type ISO4217 = string;
 
-/** Semantic version of the policy schema. */
-export const POLICY_SCHEMA_VERSION = 1 as const;
+/** Current policy schema version; older documents are upgraded with migratePolicy(). */
+export const POLICY_SCHEMA_VERSION = 2 as const;
 export type PolicySchemaVersion = typeof POLICY_SCHEMA_VERSION;
 
 /** Layer at which a policy applies; precedence: platform < owner < vehicle < lot. */
@@ -39,7 +39,9 @@ export type PolicyReasonCode =
   | "PRICE_SPIKE"
   | "RISK_HIGH"
   | "NEEDS_APPROVAL"
-  | "GRANT_EXPIRED";
+  | "GRANT_EXPIRED"
+  | "OUTSIDE_TIME_WINDOW"
+  | "DEBT_OUTSTANDING";
 
 export type PolicyDecisionAction = "ALLOW" | "DENY" | "REQUIRE_APPROVAL";
 
@@ -50,6 +52,49 @@ export interface GeoCircle {
   radiusMeters: number;
 }
 
+/** GeoJSON position: [longitude, latitude]. */
+export type GeoPosition = [number, number];
+
+/** GeoJSON-style polygon: first ring is the boundary, further rings are holes. Rings are closed. */
+export interface GeoPolygon {
+  type: "Polygon";
+  coordinates: GeoPosition[][];
+}
+
+/** GeoJSON-style multipolygon: inside if inside any of its polygons. */
+export interface GeoMultiPolygon {
+  type: "MultiPolygon";
+  coordinates: GeoPosition[][][];
+}
+
+/**
+ * Inside only if inside every area. Produced by resolveEffectivePolicy when layers both restrict
+ * geo; not accepted in policy documents.
+ */
+export interface GeoIntersection {
+  type: "Intersection";
+  areas: GeoArea[];
+}
+
+/** Area in a geo allowlist; a circle has no `type`. */
+export type GeoArea = GeoCircle | GeoPolygon | GeoMultiPolygon | GeoIntersection;
+
+/** Day of week in the window's time zone: 0 = Sunday … 6 = Saturday. */
+export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Recurring local-time window, e.g. weekdays 08:00–18:00 in "America/New_York".
+ * start/end are "HH:MM" (24h, end may be "24:00"). If end < start the window runs past
+ * midnight into the next day; `days` are the days the window starts on.
+ */
+export interface TimeWindow {
+  days: DayOfWeek[];
+  start: string;
+  end: string;
+  /** IANA time zone name. */
+  timeZone: string;
+}
+
 // ---- Canonical money primitives ----
 
 /**
@@ -122,14 +167,17 @@ export interface Policy {
   lotAllowlist?: string[];
   /** Allowlist semantics: undefined = no restriction, [] = deny-all, [x...] = allow only listed operator ids/wallets. */
   operatorAllowlist?: string[];
-  /** @deprecated Use operatorAllowlist. */
-  vendorAllowlist?: string[];
-  /** Allowlist semantics: undefined = no restriction, [] = deny-all, [x...] = allow only listed geo circles. */
-  geoAllowlist?: GeoCircle[];
+  /** Allowlist semantics: undefined = no restriction, [] = deny-all, [x...] = allow only listed geo areas. */
+  geoAllowlist?: GeoArea[];
   /** Allowlist semantics: undefined = no restriction, [] = deny-all, [x...] = allow only listed rails. */
   railAllowlist?: Rail[];
   /** Allowlist semantics: undefined = no restriction, [] = deny-all, [x...] = allow only listed assets. */
   assetAllowlist?: Asset[];
+  /**
+   * Allowlist semantics: undefined = any time, [] = never, [x...] = only inside a listed window.
+   * Windows in different time zones must all match (a merged stack can mix zones).
+   */
+  timeWindows?: TimeWindow[];
   /** Cap per single transaction (fiat minor, string). */
   capPerTxMinor?: string;
   /** Cap per session (fiat minor, string). */
@@ -138,6 +186,18 @@ export interface Policy {
   capPerDayMinor?: string;
   /** If price fiat minor exceeds this, require explicit approval. */
   requireApprovalOverMinor?: string;
+  /** Deny entry while the vehicle's unpaid debt (fiat minor, string) exceeds this; "0" = none. */
+  maxOutstandingDebtMinor?: string;
+}
+
+/**
+ * Schema v1 policy document (stored layers and env config may still hold these).
+ * v2 folded `vendorAllowlist` into `operatorAllowlist`.
+ */
+export interface PolicyV1 extends Omit<Policy, "version"> {
+  version: 1;
+  /** Used when operatorAllowlist is unset. */
+  vendorAllowlist?: string[];
 }
 
 /**
@@ -151,6 +211,78 @@ export interface PolicyStack {
   lot?: Policy;
 }
 
+/**
+ * Reference to a layer that contributed to an effective policy (for audit).
+ * subject: lot id, owner wallet or plate; version: when the layer was last changed.
+ */
+export interface AppliedPolicyLayer {
+  layer: PolicyLayer;
+  subject: string;
+  version?: string;
+}
+
+/** Policy fields whose effective value can be traced back to the layers that set it. */
+export type PolicyRuleField = Exclude<keyof Policy, "version">;
+
+/**
+ * Layers that determined each effective policy field (see resolvePolicyProvenance).
+ * Intersected allowlists list every contributing layer; caps list the layer(s) holding the min.
+ */
+export type PolicyProvenance = Partial<Record<PolicyRuleField, PolicyLayer[]>>;
+
+/**
+ * Risk score cut-offs (0..100). A score at or above `requireApproval` escalates to approval;
+ * at or above `deny` (when set) the request is denied outright.
+ */
+export interface RiskThresholds {
+  requireApproval: number;
+  deny?: number;
+}
+
+/**
+ * Approval given by the vehicle owner (or a delegate) for a session. While the price stays within
+ * `maxMinor`, checks that would only require approval pass; denials still apply.
+ */
+export interface OwnerApproval {
+  approvalId: string;
+  /** Highest price covered, in fiat minor of the priceFiat currency. */
+  maxMinor: string;
+  /** Wallet that signed the approval. */
+  approvedBy?: string;
+}
+
+/** Checks recorded in an evaluation trace: policy fields plus context-only checks. */
+export type PolicyTraceRule =
+  | PolicyRuleField
+  | "riskScore"
+  | "grantExpiry"
+  | "entryApproval"
+  | "grantScope"
+  | "ownerApproval";
+
+/**
+ * Outcome of one check:
+ * - not_set: the effective policy has no such rule
+ * - pass / deny / require_approval: the rule was evaluated against the context
+ */
+export type PolicyTraceResult = "not_set" | "pass" | "deny" | "require_approval";
+
+/**
+ * One evaluated check (trace mode). Evaluation stops at the first deny (and, at payment, the
+ * first approval requirement), so later checks are absent.
+ */
+export interface PolicyTraceEntry {
+  rule: PolicyTraceRule;
+  result: PolicyTraceResult;
+  /** Context value that was checked (e.g. lotId, price + spend in fiat minor). */
+  input?: unknown;
+  /** Effective policy value it was compared with. */
+  limit?: unknown;
+  reason?: PolicyReasonCode;
+  /** Layers the effective rule came from (when provenance is supplied). */
+  layers?: PolicyLayer[];
+}
+
 /** Context for entry policy evaluation (no quote/spend yet). */
 export interface EntryPolicyContext {
   /** Effective policy (after merging stack). */
@@ -167,6 +299,16 @@ export interface EntryPolicyContext {
   geo?: { lat: number; lng: number };
   /** Optional risk score 0..100. */
   riskScore?: number;
+  /** Lot-configured risk cut-offs; DEFAULT_RISK_THRESHOLDS when omitted. */
+  riskThresholds?: RiskThresholds;
+  /** Optional: unpaid debt of the vehicle from earlier exits (fiat minor, lot currency). */
+  outstandingDebtMinor?: string;
+  /** Layers merged into `policy`; included in the grant's policyHash. */
+  layers?: AppliedPolicyLayer[];
+  /** Record every check in SessionPolicyGrant.trace. */
+  trace?: boolean;
+  /** Per-field layer provenance for trace entries (resolvePolicyProvenance). */
+  provenance?: PolicyProvenance;
 }
 
 /**
@@ -193,6 +335,10 @@ export interface SessionPolicyGrant {
   operatorId?: string;
   reasons: PolicyReasonCode[];
   requireApproval?: boolean;
+  /** Layers the grant was evaluated against (echo of EntryPolicyContext.layers). */
+  layers?: AppliedPolicyLayer[];
+  /** Checks evaluated, in order (only when EntryPolicyContext.trace is set; not hashed). */
+  trace?: PolicyTraceEntry[];
 }
 
 /** Context for payment/exit policy evaluation. Caps and spend are fiat minor (lot currency). */
@@ -213,11 +359,19 @@ export interface PaymentPolicyContext {
   railsOffered: Rail[];
   assetsOffered: Asset[];
   riskScore?: number;
+  /** Lot-configured risk cut-offs; DEFAULT_RISK_THRESHOLDS when omitted. */
+  riskThresholds?: RiskThresholds;
+  /** Owner approval on file for this session (see OwnerApproval). */
+  ownerApproval?: OwnerApproval;
   sessionGrantId?: string;
   /** @deprecated Use priceFiat. */
   quote?: MoneyMinor;
   /** @deprecated Use spendTotalsFiat. */
   spend?: { dayTotalMinor: string; sessionTotalMinor: string };
+  /** Record every check in PaymentPolicyDecision.trace. */
+  trace?: boolean;
+  /** Per-field layer provenance for trace entries (resolvePolicyProvenance). */
+  provenance?: PolicyProvenance;
 }
 
 /**
@@ -228,6 +382,11 @@ export interface PaymentPolicyDecision {
   action: PolicyDecisionAction;
   rail?: Rail;
   asset?: Asset;
+  /**
+   * ALLOW on a crypto rail: every offered asset the policy allows, in offer order (asset is
+   * the first). One settlement quote is made per asset. Not part of policyHash.
+   */
+  allowedAssets?: Asset[];
   reasons: PolicyReasonCode[];
   expiresAtISO: string;
   decisionId: string;
@@ -244,6 +403,8 @@ export interface PaymentPolicyDecision {
   createdAt?: string;
   /** Caps in minor units (fiat). Used by enforcement for cap check when no quote. */
   maxSpend?: { perTxMinor?: string; perSessionMinor?: string; perDayMinor?: string };
+  /** Checks evaluated, in order (only when PaymentPolicyContext.trace is set; not hashed). */
+  trace?: PolicyTraceEntry[];
 }
 
 /**
@@ -255,6 +416,12 @@ export interface SettlementResult {
   amount: string;
   asset: Asset;
   rail: Rail;
+  /**
+   * Amount check under the lot's stance (settlement-core checkSettlementAmount), with amount
+   * the sum received. When tolerant and accepted, its expected amount is matched against the
+   * quote instead, and over-payment (credit) does not count against caps.
+   */
+  amountCheck?: AmountCheck;
   txHash?: string;
   payer?: string;
   /** Destination (operator wallet); must match quote.destination. */
@@ -0,0 +1,219 @@
+/**
+ * Structural validation of policy documents against the current schema version
+ * (e.g. before persisting a layer). Older versions go through migratePolicy() first.
+ * No DB, Express, or chain clients.
+ */
+
+import { POLICY_SCHEMA_VERSION } from "./types.js";
+import type { Policy } from "./types.js";
+import { isValidTimeZone, parseClock } from "./timeWindows.js";
+
+const RAILS = ["xrpl", "evm", "stripe", "hosted"];
+const MINOR_RE = /^\d+$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function validateStringList(value: unknown, at: string): string | null {
+  if (!Array.isArray(value) || value.some((x) => typeof x !== "string" || x.length === 0)) {
+    return `${at} must be an array of non-empty strings`;
+  }
+  return null;
+}
+
+function validateAsset(value: unknown, at: string): string | null {
+  if (!isRecord(value)) return `${at} must be an object`;
+  switch (value.kind) {
+    case "XRP":
+      return null;
+    case "IOU":
+      if (typeof value.currency !== "string" || !value.currency) return `${at}.currency is required`;
+      if (typeof value.issuer !== "string" || !value.issuer) return `${at}.issuer is required`;
+      return null;
+    case "ERC20":
+      if (!Number.isInteger(value.chainId)) return `${at}.chainId must be an integer`;
+      if (typeof value.token !== "string" || !value.token) return `${at}.token is required`;
+      return null;
+    default:
+      return `${at}.kind must be XRP, IOU or ERC20`;
+  }
+}
+
+function validateGeoCircle(value: unknown, at: string): string | null {
+  if (!isRecord(value)) return `${at} must be an object`;
+  const { centerLat, centerLng, radiusMeters } = value;
+  if (!isFiniteNumber(centerLat) || centerLat < -90 || centerLat > 90) {
+    return `${at}.centerLat must be between -90 and 90`;
+  }
+  if (!isFiniteNumber(centerLng) || centerLng < -180 || centerLng > 180) {
+    return `${at}.centerLng must be between -180 and 180`;
+  }
+  if (!isFiniteNumber(radiusMeters) || radiusMeters <= 0) {
+    return `${at}.radiusMeters must be a positive number`;
+  }
+  return null;
+}
+
+function validatePolygonRings(value: unknown, at: string): string | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return `${at} must be a non-empty array of rings`;
+  }
+  for (let r = 0; r < value.length; r++) {
+    const ring = value[r];
+    if (!Array.isArray(ring) || ring.length < 4) {
+      return `${at}[${r}] must be a ring of at least 4 positions`;
+    }
+    for (const position of ring) {
+      if (
+        !Array.isArray(position) ||
+        position.length !== 2 ||
+        !isFiniteNumber(position[0]) ||
+        !isFiniteNumber(position[1]) ||
+        Math.abs(position[0]) > 180 ||
+        Math.abs(position[1]) > 90
+      ) {
+        return `${at}[${r}] positions must be [lng, lat] within range`;
+      }
+    }
+    const first = ring[0] as number[];
+    const last = ring[ring.length - 1] as number[];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      return `${at}[${r}] must be closed (first position equals last)`;
+    }
+  }
+  return null;
+}
+
+/** Circle (no `type`), Polygon or MultiPolygon. */
+function validateGeoArea(value: unknown, at: string): string | null {
+  if (!isRecord(value)) return `${at} must be an object`;
+  switch (value.type) {
+    case undefined:
+      return validateGeoCircle(value, at);
+    case "Polygon":
+      return validatePolygonRings(value.coordinates, `${at}.coordinates`);
+    case "MultiPolygon": {
+      const polygons = value.coordinates;
+      if (!Array.isArray(polygons) || polygons.length === 0) {
+        return `${at}.coordinates must be a non-empty array of polygons`;
+      }
+      for (let i = 0; i < polygons.length; i++) {
+        const err = validatePolygonRings(polygons[i], `${at}.coordinates[${i}]`);
+        if (err) return err;
+      }
+      return null;
+    }
+    default:
+      return `${at}.type must be Polygon or MultiPolygon (omit for a circle)`;
+  }
+}
+
+function validateTimeWindow(value: unknown, at: string): string | null {
+  if (!isRecord(value)) return `${at} must be an object`;
+  const { days, start, end, timeZone } = value;
+  if (
+    !Array.isArray(days) ||
+    days.length === 0 ||
+    days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)
+  ) {
+    return `${at}.days must be a non-empty array of 0 (Sunday) to 6 (Saturday)`;
+  }
+  const startMinutes = typeof start === "string" ? parseClock(start) : null;
+  if (startMinutes === null || startMinutes === 24 * 60) {
+    return `${at}.start must be HH:MM between 00:00 and 23:59`;
+  }
+  const endMinutes = typeof end === "string" ? parseClock(end) : null;
+  if (endMinutes === null) return `${at}.end must be HH:MM between 00:00 and 24:00`;
+  if (endMinutes === startMinutes) return `${at}.end must differ from start`;
+  if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+    return `${at}.timeZone must be an IANA time zone`;
+  }
+  return null;
+}
+
+type FieldValidator = (value: unknown, at: string) => string | null;
+
+function listOf(validateItem: FieldValidator): FieldValidator {
+  return (value, at) => {
+    if (!Array.isArray(value)) return `${at} must be an array`;
+    for (let i = 0; i < value.length; i++) {
+      const err = validateItem(value[i], `${at}[${i}]`);
+      if (err) return err;
+    }
+    return null;
+  };
+}
+
+function validateRails(value: unknown, at: string): string | null {
+  if (!Array.isArray(value) || value.some((r) => !RAILS.includes(r as string))) {
+    return `${at} must only contain ${RAILS.join(", ")}`;
+  }
+  return null;
+}
+
+function validateTimeWindows(value: unknown, at: string): string | null {
+  const err = listOf(validateTimeWindow)(value, at);
+  if (err) return err;
+  const zones = new Set((value as { timeZone: string }[]).map((w) => w.timeZone));
+  return zones.size > 1 ? `${at} must all use the same timeZone` : null;
+}
+
+function validateMinor(value: unknown, at: string): string | null {
+  if (typeof value !== "string" || !MINOR_RE.test(value)) {
+    return `${at} must be a non-negative integer string (minor units)`;
+  }
+  return null;
+}
+
+/** Current schema: one validator per Policy field (the type keeps this list complete). */
+const POLICY_FIELDS: Record<Exclude<keyof Policy, "version">, FieldValidator> = {
+  lotAllowlist: validateStringList,
+  operatorAllowlist: validateStringList,
+  geoAllowlist: listOf(validateGeoArea),
+  railAllowlist: validateRails,
+  assetAllowlist: listOf(validateAsset),
+  timeWindows: validateTimeWindows,
+  capPerTxMinor: validateMinor,
+  capPerSessionMinor: validateMinor,
+  capPerDayMinor: validateMinor,
+  requireApprovalOverMinor: validateMinor,
+  maxOutstandingDebtMinor: validateMinor,
+};
+
+function isPolicyField(key: string): key is keyof typeof POLICY_FIELDS {
+  return Object.prototype.hasOwnProperty.call(POLICY_FIELDS, key);
+}
+
+/**
+ * Validate a single policy layer document against the current schema.
+ * Returns one message per problem (unknown fields, version, then invalid fields in schema order);
+ * empty when valid.
+ * Unknown fields are rejected so typos don't silently relax a policy.
+ */
+export function collectPolicyErrors(value: unknown): string[] {
+  if (!isRecord(value)) return ["policy must be an object"];
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (key !== "version" && !isPolicyField(key)) errors.push(`unknown policy field: ${key}`);
+  }
+  if (value.version !== POLICY_SCHEMA_VERSION) {
+    errors.push(`policy.version must be ${POLICY_SCHEMA_VERSION}`);
+  }
+  for (const [key, validateField] of Object.entries(POLICY_FIELDS)) {
+    if (value[key] === undefined) continue;
+    const err = validateField(value[key], `policy.${key}`);
+    if (err) errors.push(err);
+  }
+  return errors;
+}
+
+/** First problem from collectPolicyErrors(), or null when `value` is a valid Policy. */
+export function validatePolicy(value: unknown): string | null {
+  return collectPolicyErrors(value)[0] ?? null;
+}
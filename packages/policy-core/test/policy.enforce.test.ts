@@ -149,6 +149,70 @@ describe("policy.enforce", () => {
     expect(result).toEqual({ allowed: false, reason: "QUOTE_AMOUNT_MISMATCH" });
   });
 
+  it("matches an accepted tolerant amount check against the quote", () => {
+    const decision = mkDecision({
+      rail: "evm",
+      asset: ASSET_ERC20_USDC,
+      settlementQuotes: [
+        {
+          quoteId: "q-1",
+          rail: "evm",
+          asset: ASSET_ERC20_USDC,
+          amount: { amount: "1000", decimals: 6 },
+          destination: "0xExpected",
+          expiresAt: "2099-01-01T00:00:00.000Z",
+        },
+      ],
+    });
+    const amountCheck = {
+      stance: "tolerant" as const,
+      expected: "1000",
+      received: "990",
+      delta: "-10",
+      outcome: "underpaid" as const,
+      accepted: true,
+      awaitingMore: false,
+      payments: 1,
+      credit: "0",
+    };
+    const settlement = mkSettlement({
+      rail: "evm",
+      asset: ASSET_ERC20_USDC,
+      amount: "990",
+      destination: "0xExpected",
+      amountCheck,
+    });
+    expect(enforcePayment(decision, settlement)).toEqual({ allowed: true });
+
+    // The check must describe the settlement and be accepted
+    expect(enforcePayment(decision, { ...settlement, amount: "980" })).toEqual({
+      allowed: false,
+      reason: "QUOTE_AMOUNT_MISMATCH",
+    });
+    expect(
+      enforcePayment(decision, { ...settlement, amountCheck: { ...amountCheck, accepted: false } }),
+    ).toEqual({ allowed: false, reason: "QUOTE_AMOUNT_MISMATCH" });
+  });
+
+  it("does not count tolerant over-payment credit against the tx cap", () => {
+    const amountCheck = {
+      stance: "tolerant" as const,
+      expected: "1000",
+      received: "1500",
+      delta: "500",
+      outcome: "overpaid" as const,
+      accepted: true,
+      awaitingMore: false,
+      payments: 1,
+      credit: "500",
+    };
+    const result = enforcePayment(
+      mkDecision({ maxSpend: { perTxMinor: "1000" } }),
+      mkSettlement({ amount: "1500", amountCheck }),
+    );
+    expect(result).toEqual({ allowed: true });
+  });
+
   it("rejects when settlement does not match any quote", () => {
     const result = enforcePayment(
       mkDecision({
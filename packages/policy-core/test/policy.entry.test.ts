@@ -36,6 +36,46 @@ describe("policy.entry", () => {
     expect(grant.reasons).toContain("NEEDS_APPROVAL");
   });
 
+  it("applies lot-configured risk thresholds", () => {
+    const riskThresholds = { requireApproval: 40, deny: 70 };
+    expect(evaluateEntryPolicy(mkEntryCtx({ riskScore: 39, riskThresholds })).grantAction).toBe(
+      "ALLOW",
+    );
+    expect(evaluateEntryPolicy(mkEntryCtx({ riskScore: 45, riskThresholds })).grantAction).toBe(
+      "REQUIRE_APPROVAL",
+    );
+
+    const denied = evaluateEntryPolicy(mkEntryCtx({ riskScore: 70, riskThresholds }));
+    expect(denied.grantAction).toBe("DENY");
+    expect(denied.reasons).toEqual(["RISK_HIGH"]);
+  });
+
+  it("denies entry while the vehicle owes more than the outstanding debt limit", () => {
+    const policy = mkPolicy({ maxOutstandingDebtMinor: "500" });
+
+    expect(evaluateEntryPolicy(mkEntryCtx({ policy })).grantAction).toBe("ALLOW");
+    expect(
+      evaluateEntryPolicy(mkEntryCtx({ policy, outstandingDebtMinor: "500" })).grantAction,
+    ).toBe("ALLOW");
+
+    const denied = evaluateEntryPolicy(
+      mkEntryCtx({ policy, outstandingDebtMinor: "501", trace: true }),
+    );
+    expect(denied.grantAction).toBe("DENY");
+    expect(denied.reasons).toEqual(["DEBT_OUTSTANDING"]);
+    expect(denied.trace?.at(-1)).toMatchObject({
+      rule: "maxOutstandingDebtMinor",
+      result: "deny",
+      input: "501",
+      limit: "500",
+    });
+
+    // Without the rule, debt alone never blocks entry
+    expect(evaluateEntryPolicy(mkEntryCtx({ outstandingDebtMinor: "99999" })).grantAction).toBe(
+      "ALLOW",
+    );
+  });
+
   it("grant includes policyHash, allowedRails, allowedAssets, expiresAt, reasons", () => {
     const grant = evaluateEntryPolicy(mkEntryCtx());
     expect(grant.policyHash.length).toBeGreaterThan(10);
@@ -46,6 +86,22 @@ describe("policy.entry", () => {
     expect(grant.reasons.length).toBeGreaterThan(0);
   });
 
+  it("policyHash covers the applied layers and the grant echoes them", () => {
+    const layers = [
+      { layer: "platform" as const, subject: "platform" },
+      { layer: "lot" as const, subject: "LOT-A", version: "2026-01-01T00:00:00.000Z" },
+    ];
+    const withLayers = evaluateEntryPolicy(mkEntryCtx({ layers }));
+    const withoutLayers = evaluateEntryPolicy(mkEntryCtx());
+    const bumped = evaluateEntryPolicy(
+      mkEntryCtx({ layers: [layers[0], { ...layers[1], version: "2026-01-02T00:00:00.000Z" }] }),
+    );
+
+    expect(withLayers.layers).toEqual(layers);
+    expect(withLayers.policyHash).not.toBe(withoutLayers.policyHash);
+    expect(withLayers.policyHash).not.toBe(bumped.policyHash);
+  });
+
   it("treats undefined allowlists as no restriction", () => {
     const grant = evaluateEntryPolicy(
       mkEntryCtx({
@@ -39,6 +39,24 @@ describe("policy.exit", () => {
     expect(decision.reasons).toContain("CAP_EXCEEDED_TX");
   });
 
+  it("decision follows lot risk thresholds", () => {
+    const riskThresholds = { requireApproval: 50, deny: 90 };
+    const approval = evaluatePaymentPolicy(mkPaymentCtx({ riskScore: 60, riskThresholds }));
+    expect(approval.action).toBe("REQUIRE_APPROVAL");
+    expect(approval.reasons).toEqual(["RISK_HIGH", "NEEDS_APPROVAL"]);
+
+    const denied = evaluatePaymentPolicy(
+      mkPaymentCtx({ riskScore: 95, riskThresholds, trace: true }),
+    );
+    expect(denied.action).toBe("DENY");
+    expect(denied.trace?.at(-1)).toMatchObject({
+      rule: "riskScore",
+      result: "deny",
+      input: 95,
+      limit: riskThresholds,
+    });
+  });
+
   it("decision includes sessionGrantId when ctx includes grant", () => {
     const decision = evaluatePaymentPolicy(
       mkPaymentCtx({ sessionGrantId: "grant-xyz" }),
@@ -78,6 +96,28 @@ describe("policy.exit", () => {
     expect(decision.reasons).toContain("ASSET_NOT_ALLOWED");
   });
 
+  it("lists every allowed EVM asset in offer order, compared by value", () => {
+    const usdc = { kind: "ERC20" as const, chainId: 8453, token: "0xUSDC" };
+    const eurc = { kind: "ERC20" as const, chainId: 8453, token: "0xEURC" };
+    const polygonUsdc = { kind: "ERC20" as const, chainId: 137, token: "0xPUSDC" };
+    const decision = evaluatePaymentPolicy(
+      mkPaymentCtx({
+        policy: mkPolicy({
+          railAllowlist: ["evm"],
+          assetAllowlist: [{ ...polygonUsdc }, { ...eurc }],
+        }),
+        railsOffered: ["evm"],
+        assetsOffered: [usdc, eurc, polygonUsdc],
+      }),
+    );
+    expect(decision.action).toBe("ALLOW");
+    expect(decision.asset).toEqual(eurc);
+    expect(decision.allowedAssets).toEqual([eurc, polygonUsdc]);
+
+    const stripe = evaluatePaymentPolicy(mkPaymentCtx({ railsOffered: ["stripe"] }));
+    expect(stripe.allowedAssets).toBeUndefined();
+  });
+
   it("treats empty lot allowlist as deny-all", () => {
     const decision = evaluatePaymentPolicy(
       mkPaymentCtx({
@@ -97,4 +137,47 @@ describe("policy.exit", () => {
     expect(decision.action).toBe("DENY");
     expect(decision.reasons).toContain("VENDOR_NOT_ALLOWED");
   });
+
+  it("owner approval covering the price clears approval-only checks", () => {
+    const ctx = mkPaymentCtx({
+      policy: mkPolicy({ requireApprovalOverMinor: "500", capPerTxMinor: "5000" }),
+      priceFiat: { amountMinor: "1000", currency: "USD" },
+      riskScore: 90,
+      ownerApproval: { approvalId: "ap-1", maxMinor: "1000" },
+      trace: true,
+    });
+
+    const decision = evaluatePaymentPolicy(ctx);
+    expect(decision.action).toBe("ALLOW");
+    expect(decision.trace?.[0]).toMatchObject({ rule: "ownerApproval", result: "pass" });
+
+    const overApproved = evaluatePaymentPolicy({
+      ...ctx,
+      ownerApproval: { approvalId: "ap-1", maxMinor: "999" },
+    });
+    expect(overApproved.action).toBe("REQUIRE_APPROVAL");
+    expect(overApproved.reasons).toEqual(["PRICE_SPIKE", "NEEDS_APPROVAL"]);
+  });
+
+  it("owner approval does not override denials", () => {
+    const decision = evaluatePaymentPolicy(
+      mkPaymentCtx({
+        policy: mkPolicy({ capPerTxMinor: "500" }),
+        priceFiat: { amountMinor: "1000", currency: "USD" },
+        ownerApproval: { approvalId: "ap-1", maxMinor: "1000" },
+      }),
+    );
+    expect(decision.action).toBe("DENY");
+    expect(decision.reasons).toEqual(["CAP_EXCEEDED_TX"]);
+
+    const risky = evaluatePaymentPolicy(
+      mkPaymentCtx({
+        riskScore: 99,
+        riskThresholds: { requireApproval: 50, deny: 95 },
+        ownerApproval: { approvalId: "ap-1", maxMinor: "100000" },
+      }),
+    );
+    expect(risky.reasons).toEqual(["RISK_HIGH"]);
+    expect(risky.action).toBe("DENY");
+  });
 });
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateEntryPolicy,
+  resolveEffectivePolicy,
+  resolvePolicyProvenance,
+  type GeoPolygon,
+  type GeoPosition,
+} from "../src/index.js";
+import { mkEntryCtx, mkPolicy } from "./builders.js";
+
+function square(lng: number, lat: number, size: number): GeoPosition[] {
+  return [
+    [lng, lat],
+    [lng + size, lat],
+    [lng + size, lat + size],
+    [lng, lat + size],
+    [lng, lat],
+  ];
+}
+
+// ~2km square around central Tel Aviv, with a small hole in its south-west corner
+const DISTRICT: GeoPolygon = {
+  type: "Polygon",
+  coordinates: [square(34.77, 32.07, 0.02), square(34.771, 32.071, 0.002)],
+};
+
+const INSIDE = { lat: 32.08, lng: 34.78 };
+const IN_HOLE = { lat: 32.072, lng: 34.772 };
+const OUTSIDE = { lat: 32.1, lng: 34.78 };
+
+function entryAt(geo: { lat: number; lng: number }, geoAllowlist = [DISTRICT]) {
+  return evaluateEntryPolicy(mkEntryCtx({ policy: mkPolicy({ geoAllowlist }), geo }));
+}
+
+describe("policy.geo", () => {
+  it("evaluates point-in-polygon with holes", () => {
+    expect(entryAt(INSIDE).grantAction).toBe("ALLOW");
+    expect(entryAt(IN_HOLE).reasons).toEqual(["GEO_NOT_ALLOWED"]);
+    expect(entryAt(OUTSIDE).reasons).toEqual(["GEO_NOT_ALLOWED"]);
+  });
+
+  it("allows a point inside any polygon of a multipolygon", () => {
+    const campus = {
+      type: "MultiPolygon" as const,
+      coordinates: [[square(34.77, 32.07, 0.01)], [square(34.77, 32.095, 0.01)]],
+    };
+    expect(entryAt({ lat: 32.1, lng: 34.775 }, [campus]).grantAction).toBe("ALLOW");
+    expect(entryAt({ lat: 32.085, lng: 34.775 }, [campus]).grantAction).toBe("DENY");
+  });
+
+  it("intersects circles and polygons across layers", () => {
+    const stack = {
+      // 1km around the district's north edge
+      platform: mkPolicy({
+        geoAllowlist: [{ centerLat: 32.09, centerLng: 34.78, radiusMeters: 1000 }],
+      }),
+      lot: mkPolicy({ geoAllowlist: [DISTRICT] }),
+    };
+    const policy = resolveEffectivePolicy(stack);
+    const at = (geo: { lat: number; lng: number }) =>
+      evaluateEntryPolicy(mkEntryCtx({ policy, geo })).grantAction;
+
+    expect(policy.geoAllowlist).toHaveLength(1);
+    expect(at({ lat: 32.088, lng: 34.78 })).toBe("ALLOW"); // in both
+    expect(at({ lat: 32.095, lng: 34.78 })).toBe("DENY"); // circle only
+    expect(at({ lat: 32.075, lng: 34.78 })).toBe("DENY"); // polygon only
+    expect(resolvePolicyProvenance(stack).geoAllowlist).toEqual(["platform", "lot"]);
+  });
+
+  it("merges disjoint areas to an empty list (deny-all)", () => {
+    const policy = resolveEffectivePolicy({
+      platform: mkPolicy({ geoAllowlist: [DISTRICT] }),
+      owner: mkPolicy({
+        geoAllowlist: [{ centerLat: 31.77, centerLng: 35.21, radiusMeters: 5000 }],
+      }),
+    });
+    expect(policy.geoAllowlist).toEqual([]);
+  });
+});
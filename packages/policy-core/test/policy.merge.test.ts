@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
-import { evaluateEntryPolicy, resolveEffectivePolicy } from "../src/index.js";
+import {
+  evaluateEntryPolicy,
+  resolveEffectivePolicy,
+  resolvePolicyProvenance,
+} from "../src/index.js";
 import { mkEntryCtx, mkPolicy, ASSET_IOU_USDC, ASSET_ERC20_USDC } from "./builders.js";
 
 describe("policy.merge", () => {
@@ -56,6 +60,15 @@ describe("policy.merge", () => {
     expect(merged.capPerDayMinor).toBe("9000");
   });
 
+  it("outstanding debt limit merges to the strictest layer", () => {
+    const stack = {
+      platform: mkPolicy({ maxOutstandingDebtMinor: "5000" }),
+      lot: mkPolicy({ maxOutstandingDebtMinor: "0" }),
+    };
+    expect(resolveEffectivePolicy(stack).maxOutstandingDebtMinor).toBe("0");
+    expect(resolvePolicyProvenance(stack).maxOutstandingDebtMinor).toEqual(["lot"]);
+  });
+
   it("geo allowlist empty at higher layer is explicit deny-all", () => {
     const platform = mkPolicy({
       geoAllowlist: [{ centerLat: 32.08, centerLng: 34.78, radiusMeters: 5000 }],
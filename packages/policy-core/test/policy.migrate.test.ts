@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { POLICY_SCHEMA_VERSION, migratePolicy, type PolicyV1 } from "../src/index.js";
+
+describe("policy.migrate", () => {
+  it("upgrades v1 documents, folding vendorAllowlist into operatorAllowlist", () => {
+    const v1: PolicyV1 = { version: 1, vendorAllowlist: ["op-1"], capPerTxMinor: "500" };
+    expect(migratePolicy(v1)).toEqual({
+      ok: true,
+      fromVersion: 1,
+      policy: { version: POLICY_SCHEMA_VERSION, operatorAllowlist: ["op-1"], capPerTxMinor: "500" },
+    });
+  });
+
+  it("keeps operatorAllowlist when a v1 document set both (it took precedence)", () => {
+    const result = migratePolicy({
+      version: 1,
+      operatorAllowlist: ["op-2"],
+      vendorAllowlist: ["op-1"],
+    });
+    expect(result).toMatchObject({ ok: true, policy: { operatorAllowlist: ["op-2"] } });
+    expect(result.ok && "vendorAllowlist" in result.policy).toBe(false);
+  });
+
+  it("validates current-version documents without changing them", () => {
+    const policy = { version: POLICY_SCHEMA_VERSION, railAllowlist: ["stripe"] };
+    expect(migratePolicy(policy)).toEqual({ ok: true, fromVersion: 2, policy });
+  });
+
+  it("rejects unknown versions and reports validation errors after upgrading", () => {
+    expect(migratePolicy({ version: 3 })).toEqual({
+      ok: false,
+      errors: ["policy.version 3 is newer than supported (2)"],
+    });
+    expect(migratePolicy({ version: "1" })).toMatchObject({ ok: false });
+    expect(migratePolicy("{}")).toEqual({ ok: false, errors: ["policy must be an object"] });
+    expect(
+      migratePolicy({ version: 1, vendorAllowlist: "op-1", capPerTxMinor: "1.5" }),
+    ).toEqual({
+      ok: false,
+      errors: [
+        "policy.operatorAllowlist must be an array of non-empty strings",
+        "policy.capPerTxMinor must be a non-negative integer string (minor units)",
+      ],
+    });
+  });
+});
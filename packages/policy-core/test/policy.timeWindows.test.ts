@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateEntryPolicy,
+  evaluatePaymentPolicy,
+  resolveEffectivePolicy,
+  type TimeWindow,
+} from "../src/index.js";
+import { mkEntryCtx, mkPaymentCtx, mkPolicy } from "./builders.js";
+
+const WEEKDAYS_NY: TimeWindow = {
+  days: [1, 2, 3, 4, 5],
+  start: "08:00",
+  end: "18:00",
+  timeZone: "America/New_York",
+};
+
+// Thursday 2026-01-08, 10:00 and 20:00 in New York (UTC-5)
+const THU_MORNING_NY = "2026-01-08T15:00:00.000Z";
+const THU_EVENING_NY = "2026-01-09T01:00:00.000Z";
+// Saturday 2026-01-10, 10:00 in New York
+const SAT_MORNING_NY = "2026-01-10T15:00:00.000Z";
+
+describe("policy.timeWindows", () => {
+  it("allows entry inside a window and denies outside it, in the window's time zone", () => {
+    const policy = mkPolicy({ timeWindows: [WEEKDAYS_NY] });
+
+    expect(evaluateEntryPolicy(mkEntryCtx({ policy, nowISO: THU_MORNING_NY })).grantAction).toBe(
+      "ALLOW",
+    );
+    for (const nowISO of [THU_EVENING_NY, SAT_MORNING_NY]) {
+      const grant = evaluateEntryPolicy(mkEntryCtx({ policy, nowISO }));
+      expect(grant.grantAction).toBe("DENY");
+      expect(grant.reasons).toEqual(["OUTSIDE_TIME_WINDOW"]);
+    }
+  });
+
+  it("enforces windows at exit and treats an empty list as never", () => {
+    const inside = evaluatePaymentPolicy(
+      mkPaymentCtx({ policy: mkPolicy({ timeWindows: [WEEKDAYS_NY] }), nowISO: THU_MORNING_NY }),
+    );
+    expect(inside.action).toBe("ALLOW");
+
+    const outside = evaluatePaymentPolicy(
+      mkPaymentCtx({ policy: mkPolicy({ timeWindows: [WEEKDAYS_NY] }), nowISO: SAT_MORNING_NY }),
+    );
+    expect(outside.action).toBe("DENY");
+    expect(outside.reasons).toEqual(["OUTSIDE_TIME_WINDOW"]);
+
+    const never = evaluatePaymentPolicy(mkPaymentCtx({ policy: mkPolicy({ timeWindows: [] }) }));
+    expect(never.reasons).toEqual(["OUTSIDE_TIME_WINDOW"]);
+  });
+
+  it("handles windows that run past midnight", () => {
+    const policy = mkPolicy({
+      timeWindows: [{ days: [5], start: "22:00", end: "02:00", timeZone: "UTC" }],
+    });
+    const at = (nowISO: string) => evaluateEntryPolicy(mkEntryCtx({ policy, nowISO })).grantAction;
+
+    expect(at("2026-01-09T23:30:00.000Z")).toBe("ALLOW"); // Friday 23:30
+    expect(at("2026-01-10T01:59:00.000Z")).toBe("ALLOW"); // Saturday 01:59
+    expect(at("2026-01-10T02:00:00.000Z")).toBe("DENY");
+    expect(at("2026-01-08T23:30:00.000Z")).toBe("DENY"); // Thursday
+  });
+
+  it("intersects windows across layers in the same time zone", () => {
+    const merged = resolveEffectivePolicy({
+      platform: mkPolicy({ timeWindows: [WEEKDAYS_NY] }),
+      vehicle: mkPolicy({
+        timeWindows: [
+          { days: [4, 5, 6], start: "12:00", end: "22:00", timeZone: "America/New_York" },
+        ],
+      }),
+    });
+
+    expect(merged.timeWindows).toEqual([
+      { days: [4, 5], start: "12:00", end: "18:00", timeZone: "America/New_York" },
+    ]);
+  });
+
+  it("requires every time zone to match when layers use different zones", () => {
+    const policy = resolveEffectivePolicy({
+      platform: mkPolicy({ timeWindows: [WEEKDAYS_NY] }),
+      lot: mkPolicy({
+        timeWindows: [
+          { days: [0, 1, 2, 3, 4, 5, 6], start: "00:00", end: "16:00", timeZone: "UTC" },
+        ],
+      }),
+    });
+    expect(policy.timeWindows).toHaveLength(2);
+
+    // 10:00 New York = 15:00 UTC: both match
+    expect(evaluateEntryPolicy(mkEntryCtx({ policy, nowISO: THU_MORNING_NY })).grantAction).toBe(
+      "ALLOW",
+    );
+    // 12:00 New York = 17:00 UTC: only the platform window matches
+    const grant = evaluateEntryPolicy(mkEntryCtx({ policy, nowISO: "2026-01-08T17:00:00.000Z" }));
+    expect(grant.reasons).toEqual(["OUTSIDE_TIME_WINDOW"]);
+  });
+
+  it("merges disjoint windows to an empty list (deny-all)", () => {
+    const merged = resolveEffectivePolicy({
+      platform: mkPolicy({ timeWindows: [WEEKDAYS_NY] }),
+      owner: mkPolicy({
+        timeWindows: [{ days: [0, 6], start: "08:00", end: "18:00", timeZone: "America/New_York" }],
+      }),
+    });
+    expect(merged.timeWindows).toEqual([]);
+  });
+});
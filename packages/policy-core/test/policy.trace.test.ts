@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateEntryPolicy,
+  evaluatePaymentPolicy,
+  resolveEffectivePolicy,
+  resolvePolicyProvenance,
+  type PolicyStack,
+} from "../src/index.js";
+import { mkEntryCtx, mkPaymentCtx, mkPolicy } from "./builders.js";
+
+describe("policy.trace", () => {
+  it("omits the trace unless requested and does not change the hash", () => {
+    const plain = evaluatePaymentPolicy(mkPaymentCtx());
+    const traced = evaluatePaymentPolicy(mkPaymentCtx({ trace: true }));
+    expect(plain.trace).toBeUndefined();
+    expect(traced.trace?.length).toBeGreaterThan(0);
+
+    const entry = evaluateEntryPolicy(mkEntryCtx());
+    const tracedEntry = evaluateEntryPolicy(mkEntryCtx({ trace: true }));
+    expect(entry.trace).toBeUndefined();
+    expect(tracedEntry.policyHash).toBe(entry.policyHash);
+  });
+
+  it("records each entry check in order with not_set for absent rules", () => {
+    const grant = evaluateEntryPolicy(
+      mkEntryCtx({ policy: mkPolicy({ lotAllowlist: ["LOT-A"] }), trace: true })
+    );
+    expect(grant.trace?.map((e) => [e.rule, e.result])).toEqual([
+      ["operatorAllowlist", "not_set"],
+      ["lotAllowlist", "pass"],
+      ["timeWindows", "not_set"],
+      ["geoAllowlist", "not_set"],
+      ["maxOutstandingDebtMinor", "not_set"],
+      ["riskScore", "pass"],
+      ["railAllowlist", "not_set"],
+      ["assetAllowlist", "not_set"],
+    ]);
+    expect(grant.trace?.[1]).toMatchObject({ input: "LOT-A", limit: ["LOT-A"] });
+  });
+
+  it("stops at the failing cap and reports compared values and source layer", () => {
+    const stack: PolicyStack = {
+      platform: mkPolicy({ capPerDayMinor: "10000000" }),
+      owner: mkPolicy({ capPerDayMinor: "1500" }),
+    };
+    const decision = evaluatePaymentPolicy(
+      mkPaymentCtx({
+        policy: resolveEffectivePolicy(stack),
+        provenance: resolvePolicyProvenance(stack),
+        spendTotalsFiat: {
+          dayTotal: { amountMinor: "800", currency: "USD" },
+          sessionTotal: { amountMinor: "0", currency: "USD" },
+        },
+        trace: true,
+      })
+    );
+
+    expect(decision.action).toBe("DENY");
+    const last = decision.trace?.[decision.trace.length - 1];
+    expect(last).toEqual({
+      rule: "capPerDayMinor",
+      result: "deny",
+      input: "1800",
+      limit: "1500",
+      reason: "CAP_EXCEEDED_DAY",
+      layers: ["owner"],
+    });
+    expect(decision.trace?.some((e) => e.rule === "railAllowlist")).toBe(false);
+  });
+
+  it("records grant expiry as an approval requirement", () => {
+    const decision = evaluatePaymentPolicy(
+      mkPaymentCtx({ grantExpiresAtISO: "2025-12-31T23:00:00.000Z", trace: true })
+    );
+    expect(decision.trace).toEqual([
+      {
+        rule: "grantExpiry",
+        result: "require_approval",
+        input: "2026-01-01T00:00:00.000Z",
+        limit: "2025-12-31T23:00:00.000Z",
+        reason: "GRANT_EXPIRED",
+      },
+    ]);
+  });
+});
+
+describe("policy.provenance", () => {
+  it("attributes intersected lists to every layer, caps to the min, overrides to the top", () => {
+    const provenance = resolvePolicyProvenance({
+      platform: mkPolicy({ railAllowlist: ["xrpl", "stripe"], capPerTxMinor: "500" }),
+      owner: mkPolicy({ capPerTxMinor: "500", requireApprovalOverMinor: "100" }),
+      lot: mkPolicy({ railAllowlist: ["stripe"], requireApprovalOverMinor: "300" }),
+    });
+    expect(provenance.railAllowlist).toEqual(["platform", "lot"]);
+    expect(provenance.capPerTxMinor).toEqual(["platform", "owner"]);
+    expect(provenance.capPerSessionMinor).toEqual(["platform", "owner", "lot"]);
+    expect(provenance.requireApprovalOverMinor).toEqual(["lot"]);
+    expect(provenance.lotAllowlist).toBeUndefined();
+  });
+});
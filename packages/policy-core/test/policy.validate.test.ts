@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { collectPolicyErrors, validatePolicy } from "../src/index.js";
+import { ASSET_ERC20_USDC, ASSET_IOU_USDC, mkPolicy } from "./builders.js";
+
+describe("policy.validate", () => {
+  it("accepts valid policies", () => {
+    expect(validatePolicy({ version: 2 })).toBeNull();
+    expect(validatePolicy(mkPolicy())).toBeNull();
+    expect(
+      validatePolicy({
+        version: 2,
+        lotAllowlist: ["LOT-A"],
+        operatorAllowlist: [],
+        railAllowlist: ["xrpl", "stripe"],
+        assetAllowlist: [{ kind: "XRP" }, ASSET_IOU_USDC, ASSET_ERC20_USDC],
+        geoAllowlist: [
+          { centerLat: 32.08, centerLng: 34.78, radiusMeters: 500 },
+          { type: "Polygon", coordinates: [[[34.7, 32], [34.8, 32], [34.8, 32.1], [34.7, 32]]] },
+        ],
+        requireApprovalOverMinor: "5000",
+        timeWindows: [
+          { days: [1, 2, 3, 4, 5], start: "08:00", end: "18:00", timeZone: "Europe/Berlin" },
+          { days: [6], start: "22:00", end: "24:00", timeZone: "Europe/Berlin" },
+        ],
+      }),
+    ).toBeNull();
+  });
+
+  it("rejects wrong shapes and versions", () => {
+    expect(validatePolicy(null)).toMatch(/object/);
+    expect(validatePolicy([])).toMatch(/object/);
+    expect(validatePolicy({ version: 3 })).toMatch(/version/);
+    expect(validatePolicy({ version: 2, capPerTx: "100" })).toMatch(/unknown policy field: capPerTx/);
+  });
+
+  it("rejects invalid fields", () => {
+    expect(validatePolicy({ version: 2, lotAllowlist: "LOT-A" })).toMatch(/lotAllowlist/);
+    expect(validatePolicy({ version: 2, railAllowlist: ["paypal"] })).toMatch(/railAllowlist/);
+    expect(validatePolicy({ version: 2, assetAllowlist: [{ kind: "IOU", currency: "USD" }] })).toMatch(
+      /assetAllowlist\[0\]\.issuer/,
+    );
+    expect(
+      validatePolicy({
+        version: 2,
+        geoAllowlist: [{ centerLat: 91, centerLng: 0, radiusMeters: 10 }],
+      }),
+    ).toMatch(/centerLat/);
+    expect(validatePolicy({ version: 2, capPerDayMinor: 5000 })).toMatch(/capPerDayMinor/);
+    expect(validatePolicy({ version: 2, capPerTxMinor: "-1" })).toMatch(/capPerTxMinor/);
+    expect(validatePolicy({ version: 2, maxOutstandingDebtMinor: "1.5" })).toMatch(
+      /maxOutstandingDebtMinor/,
+    );
+  });
+
+  it("reports every invalid field", () => {
+    const errors = collectPolicyErrors({
+      version: 1,
+      vendorAllowlist: ["op-1"],
+      capPerDayMinor: 5,
+      railAllowlist: [],
+    });
+    expect(errors).toEqual([
+      "unknown policy field: vendorAllowlist",
+      "policy.version must be 2",
+      "policy.capPerDayMinor must be a non-negative integer string (minor units)",
+    ]);
+  });
+
+  it("rejects invalid geo areas", () => {
+    const check = (area: unknown) => validatePolicy({ version: 2, geoAllowlist: [area] });
+    const ring = [[34.7, 32], [34.8, 32], [34.8, 32.1], [34.7, 32]];
+
+    expect(check({ type: "Circle" })).toMatch(/type must be Polygon or MultiPolygon/);
+    expect(check({ type: "Intersection", areas: [] })).toMatch(/type/);
+    expect(check({ type: "Polygon", coordinates: [] })).toMatch(/coordinates/);
+    expect(check({ type: "Polygon", coordinates: [ring.slice(0, 3)] })).toMatch(/at least 4/);
+    expect(check({ type: "Polygon", coordinates: [[...ring.slice(0, 3), [34.7, 32.1]]] })).toMatch(
+      /closed/,
+    );
+    expect(check({ type: "Polygon", coordinates: [[[200, 32], ...ring.slice(1)]] })).toMatch(
+      /\[lng, lat\]/,
+    );
+    expect(check({ type: "MultiPolygon", coordinates: [[ring], []] })).toMatch(
+      /coordinates\[1\]/,
+    );
+  });
+
+  it("rejects invalid time windows", () => {
+    const window = { days: [1], start: "08:00", end: "18:00", timeZone: "UTC" };
+    const check = (overrides: Record<string, unknown>) =>
+      validatePolicy({ version: 2, timeWindows: [{ ...window, ...overrides }] });
+
+    expect(check({ days: [] })).toMatch(/timeWindows\[0\]\.days/);
+    expect(check({ days: [7] })).toMatch(/days/);
+    expect(check({ start: "8:00" })).toMatch(/start/);
+    expect(check({ start: "24:00" })).toMatch(/start/);
+    expect(check({ end: "24:30" })).toMatch(/end/);
+    expect(check({ end: "08:00" })).toMatch(/end must differ/);
+    expect(check({ timeZone: "Mars/Olympus" })).toMatch(/timeZone/);
+    expect(
+      validatePolicy({ version: 2, timeWindows: [window, { ...window, timeZone: "Asia/Tokyo" }] }),
+    ).toMatch(/same timeZone/);
+  });
+});
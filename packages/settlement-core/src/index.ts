@@ -1,3 +1,14 @@
 export * from "./types.js";
+// The amount check lives in @parker/core, so it can be used without the XRPL adapter
+export {
+  AmountVerificationError,
+  MAX_UNDERPAYMENT_BPS,
+  STRICT_EXACT,
+  checkSettlementAmount,
+  validateAmountTolerance,
+  type AmountCheck,
+  type AmountTolerance,
+  type AmountVerificationStance,
+} from "@parker/core";
 export * from "./xrpl.js";
 
@@ -1,3 +1,5 @@
+import type { AmountCheck, AmountVerificationStance } from "@parker/core";
+
 export type Rail = "xrpl" | "evm" | "stripe" | "hosted";
 
 export type Asset =
@@ -16,22 +18,20 @@ export interface SettlementVerifyInput {
   now?: Date;
 }
 
-/**
- * Amount verification stance for settlement.
- * - strictExact: on-chain amount must equal the challenge amount (no partials, no tolerance).
- * - tolerant: reserved for future use (partial payments, rounding, issued-currency precision).
- */
-export type AmountVerificationStance = "strictExact" | "tolerant";
-
 export interface SettlementVerifyOutput {
   ok: true;
   idempotent: boolean;
   txHash: string;
   payer?: string;
-  /** Verified amount (same units as challenge). Current stance: strictExact. */
+  /** Verified amount (same units as challenge): the on-chain amount under tolerant. */
   amount: string;
   asset: Asset;
   /** Stance used for amount verification. Default strictExact. */
   amountVerification: AmountVerificationStance;
+  /**
+   * Tolerant stance: on-chain amount vs challenge amount, with the exact delta. Absent on
+   * idempotent replays (the transaction is not fetched again).
+   */
+  amountCheck?: AmountCheck;
 }
 
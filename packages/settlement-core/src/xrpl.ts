@@ -1,4 +1,11 @@
 import type { SettlementVerifyOutput } from "./types.js";
+import {
+  AmountVerificationError,
+  STRICT_EXACT,
+  checkSettlementAmount,
+  type AmountCheck,
+  type AmountTolerance,
+} from "@parker/core";
 import {
   verifySettlement,
   InMemoryReplayStore,
@@ -6,10 +13,37 @@ import {
   type X402Challenge,
 } from "x402-xrpl-settlement-adapter";
 
+/** Issued-currency values are compared scaled to 6 decimals; XRP amounts are drops. */
+const IOU_DECIMALS = 6;
+
+function toAtomic(value: string, decimals: number): bigint {
+  const [whole = "0", fraction = ""] = value.split(".");
+  return BigInt(whole + fraction.padEnd(decimals, "0").slice(0, decimals));
+}
+
+/** Value of a Payment Amount: drops string (XRP) or issued-currency object. */
+function amountValue(amount: unknown): string | undefined {
+  if (typeof amount === "string") return amount;
+  if (amount && typeof amount === "object") {
+    const value = (amount as { value?: unknown }).value;
+    return typeof value === "string" ? value : undefined;
+  }
+  return undefined;
+}
+
+/** The same Payment Amount carrying another value */
+function withAmountValue(amount: unknown, value: string): unknown {
+  return typeof amount === "string" ? value : { ...(amount as object), value };
+}
+
 /**
  * Verify XRPL settlement: replay-safe check of receipt vs challenge.
- * Amount stance: strictExact — adapter ensures on-chain amount equals challenge;
- * we return the challenge amount. Tolerant/partial payments not yet supported.
+ * Amount stance:
+ * - strictExact (default): adapter ensures on-chain amount equals challenge; we return the
+ *   challenge amount.
+ * - tolerant: the on-chain amount is checked here with checkSettlementAmount (a single payment;
+ *   partial payments are summed by the caller) and returned with amountCheck; the adapter
+ *   verifies everything else. Amounts it does not accept throw AmountVerificationError.
  */
 export async function verifyXrplSettlement(params: {
   challenge: X402Challenge;
@@ -17,13 +51,36 @@ export async function verifyXrplSettlement(params: {
   fetchTransaction: FetchTransaction;
   replayStore?: InMemoryReplayStore;
   now?: Date;
+  amountTolerance?: AmountTolerance;
 }): Promise<SettlementVerifyOutput> {
   const replayStore = params.replayStore ?? new InMemoryReplayStore();
+  const tolerance = params.amountTolerance ?? STRICT_EXACT;
+  const decimals = params.challenge.asset.kind === "XRP" ? 0 : IOU_DECIMALS;
+
+  let amountCheck: AmountCheck | undefined;
+  let onChainAmount: string | undefined;
+  const fetchTransaction: FetchTransaction =
+    tolerance.stance === "tolerant"
+      ? async (...args: Parameters<FetchTransaction>) => {
+          const tx = await params.fetchTransaction(...args);
+          const value = tx ? amountValue(tx.Amount) : undefined;
+          if (!tx || value === undefined) return tx;
+          amountCheck = checkSettlementAmount(
+            toAtomic(params.challenge.amount, decimals),
+            [toAtomic(value, decimals)],
+            tolerance
+          );
+          if (!amountCheck.accepted) throw new AmountVerificationError(amountCheck);
+          onChainAmount = value;
+          // Accepted: the adapter's exact amount check sees the challenge amount
+          return { ...tx, Amount: withAmountValue(tx.Amount, params.challenge.amount) };
+        }
+      : params.fetchTransaction;
 
   const result = await verifySettlement({
     challenge: params.challenge,
     receiptHeaderValue: params.receiptHeaderValue,
-    fetchTransaction: params.fetchTransaction,
+    fetchTransaction,
     replayStore,
     now: params.now,
   });
@@ -33,7 +90,7 @@ export async function verifyXrplSettlement(params: {
     idempotent: result.idempotent,
     txHash: result.receipt.txHash,
     payer: result.payerAccount,
-    amount: params.challenge.amount,
+    amount: onChainAmount ?? params.challenge.amount,
     asset:
       params.challenge.asset.kind === "XRP"
         ? { kind: "XRP" }
@@ -42,8 +99,8 @@ export async function verifyXrplSettlement(params: {
             currency: params.challenge.asset.currency,
             issuer: params.challenge.asset.issuer,
           },
-    amountVerification: "strictExact",
+    amountVerification: tolerance.stance,
+    ...(amountCheck && { amountCheck }),
   };
   return output;
 }
-
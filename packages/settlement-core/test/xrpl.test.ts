@@ -250,3 +250,71 @@ describe("verifyXrplSettlement replay protection", () => {
     expect(fetchTransaction).toHaveBeenCalledTimes(1);
   });
 });
+
+describe("verifyXrplSettlement tolerant stance", () => {
+  const tolerance = { stance: "tolerant" as const, underpaymentBps: 100 };
+
+  function mkReceipt(challenge: ReturnType<typeof mkChallenge>, txHash: string) {
+    return encodeReceiptHeader({
+      network: challenge.network,
+      txHash,
+      paymentId: challenge.paymentId,
+    });
+  }
+
+  it("accepts under-payment within tolerance and reports the delta", async () => {
+    const challenge = mkChallenge("pay-under");
+    const tx = mkTx(challenge);
+    const fetchTransaction = vi.fn(async () => ({
+      ...tx,
+      Amount: { ...(tx.Amount as object), value: "7.95" },
+    }));
+
+    const result = await verifyXrplSettlement({
+      challenge,
+      receiptHeaderValue: mkReceipt(challenge, "3".repeat(64)),
+      fetchTransaction,
+      amountTolerance: tolerance,
+    });
+    expect(result).toMatchObject({
+      amount: "7.95",
+      amountVerification: "tolerant",
+      amountCheck: { expected: "8000000", received: "7950000", delta: "-50000", accepted: true },
+    });
+  });
+
+  it("accepts over-payment as credit", async () => {
+    const challenge = mkChallenge("pay-over");
+    const tx = mkTx(challenge);
+    const fetchTransaction = vi.fn(async () => ({
+      ...tx,
+      Amount: { ...(tx.Amount as object), value: "9" },
+    }));
+
+    const result = await verifyXrplSettlement({
+      challenge,
+      receiptHeaderValue: mkReceipt(challenge, "4".repeat(64)),
+      fetchTransaction,
+      amountTolerance: tolerance,
+    });
+    expect(result.amountCheck).toMatchObject({ outcome: "overpaid", credit: "1000000" });
+  });
+
+  it("rejects under-payment beyond tolerance", async () => {
+    const challenge = mkChallenge("pay-short");
+    const tx = mkTx(challenge);
+    const fetchTransaction = vi.fn(async () => ({
+      ...tx,
+      Amount: { ...(tx.Amount as object), value: "7.9" },
+    }));
+
+    await expect(
+      verifyXrplSettlement({
+        challenge,
+        receiptHeaderValue: mkReceipt(challenge, "5".repeat(64)),
+        fetchTransaction,
+        amountTolerance: tolerance,
+      }),
+    ).rejects.toMatchObject({ code: "invalid_amount", amountCheck: { delta: "-100000" } });
+  });
+});
@@ -1,4 +1,5 @@
-import { Client } from 'xrpl'
+import { Client, Wallet } from 'xrpl'
+import type { AccountTxRequest, Payment } from 'xrpl'
 import type { SettlementAdapter, PaymentTransferResult } from '@parker/x402'
 
 export interface XrplSettlementAdapterOptions {
@@ -20,6 +21,17 @@ function decimalToScaledBigInt(value: string, decimals: number): bigint {
   return BigInt(`${whole}${fraction}`)
 }
 
+function scaledBigIntToDecimal(value: bigint, decimals: number): string {
+  const digits = value.toString().padStart(decimals + 1, '0')
+  const whole = digits.slice(0, -decimals)
+  const fraction = digits.slice(-decimals).replace(/0+$/, '')
+  return fraction ? `${whole}.${fraction}` : whole
+}
+
+function toHexMemoField(value: string): string {
+  return Buffer.from(value, 'utf8').toString('hex').toUpperCase()
+}
+
 function decodeHexMemoField(value: unknown): string | undefined {
   if (typeof value !== 'string' || value.length === 0) return undefined
   const hex = value.startsWith('0x') ? value.slice(2) : value
@@ -66,6 +78,54 @@ function extractPaymentReference(tx: Record<string, unknown>): string | undefine
 
 const TF_PARTIAL_PAYMENT = 0x00020000
 
+/** Amount field in verifyPayment units: drops for XRP, issued currencies scaled to 6 decimals */
+function toScaledAmount(value: unknown): bigint | undefined {
+  if (typeof value === 'string') return BigInt(value)
+  if (isIssuedCurrency(value)) return decimalToScaledBigInt(value.value, 6)
+  return undefined
+}
+
+/** Transfer details of a successful Payment; throws when it failed or delivered nothing known. */
+function toTransferResult(
+  txHash: string,
+  tx: Record<string, unknown>,
+  meta: Record<string, unknown> | undefined,
+): PaymentTransferResult {
+  const flags = typeof tx.Flags === 'number' ? tx.Flags : 0
+  const details = {
+    from: String(tx.Account ?? ''),
+    to: String(tx.Destination ?? ''),
+    confirmed: true,
+    txHash,
+    paymentReference: extractPaymentReference(tx),
+    destinationTag: typeof tx.DestinationTag === 'number' ? tx.DestinationTag : undefined,
+    isPartialPayment: (flags & TF_PARTIAL_PAYMENT) !== 0,
+    hasPaths: Array.isArray(tx.Paths) && tx.Paths.length > 0,
+    hasSendMax: tx.SendMax != null,
+    hasDeliverMin: tx.DeliverMin != null,
+  }
+
+  const txResult = meta?.TransactionResult
+  if (txResult !== 'tesSUCCESS') {
+    throw new Error(`XRPL payment failed with status ${String(txResult ?? 'unknown')}`)
+  }
+
+  const delivered = meta?.delivered_amount
+  if (typeof delivered === 'string') {
+    return { ...details, amount: BigInt(delivered), assetCode: 'XRP' }
+  }
+  if (isIssuedCurrency(delivered)) {
+    return {
+      ...details,
+      amount: decimalToScaledBigInt(delivered.value, 6),
+      assetCode: delivered.currency,
+      assetIssuer: delivered.issuer,
+    }
+  }
+
+  throw new Error('Unable to determine delivered amount from XRPL transaction')
+}
+
 /**
  * XRPL settlement adapter for x402.
  *
@@ -105,60 +165,344 @@ export function createXrplSettlementAdapter(
         if (!tx || tx.TransactionType !== 'Payment') {
           throw new Error('XRPL transaction is not a Payment')
         }
-        const flags = typeof tx.Flags === 'number' ? tx.Flags : 0
-        const destinationTag = typeof tx.DestinationTag === 'number' ? tx.DestinationTag : undefined
-        const isPartialPayment = (flags & TF_PARTIAL_PAYMENT) !== 0
-        const hasPaths = Array.isArray(tx.Paths) && tx.Paths.length > 0
-        const hasSendMax = tx.SendMax != null
-        const hasDeliverMin = tx.DeliverMin != null
-        const paymentReference = extractPaymentReference(tx)
-
-        const meta = payload.meta as Record<string, unknown> | undefined
-        const txResult = meta?.TransactionResult
-        if (txResult !== 'tesSUCCESS') {
-          throw new Error(`XRPL payment failed with status ${String(txResult ?? 'unknown')}`)
-        }
 
-        const delivered = meta?.delivered_amount
-        if (typeof delivered === 'string') {
-          return {
-            from: String(tx.Account ?? ''),
-            to: String(tx.Destination ?? ''),
-            amount: BigInt(delivered),
-            confirmed: true,
-            assetCode: 'XRP',
-            txHash: paymentProof,
-            paymentReference,
-            destinationTag,
-            isPartialPayment,
-            hasPaths,
-            hasSendMax,
-            hasDeliverMin,
-          }
-        }
+        return toTransferResult(
+          paymentProof,
+          tx,
+          payload.meta as Record<string, unknown> | undefined,
+        )
+      } finally {
+        await client.disconnect()
+      }
+    },
+  }
+}
+
+/**
+ * Currency code in a form comparable to a token symbol: 40-hex non-standard codes
+ * (e.g. RLUSD) are decoded to ASCII, standard 3-letter codes are returned as is.
+ */
+export function decodeXrplCurrency(code: string): string {
+  if (!/^[A-Fa-f0-9]{40}$/.test(code)) return code
+  const text = Buffer.from(code, 'hex').toString('latin1').replace(/\0+$/, '')
+  return /^[\x20-\x7E]+$/.test(text) ? text : code
+}
+
+/** A successful, validated Payment from a ledger (transactions stream or account_tx). */
+export interface XrplLedgerPayment extends PaymentTransferResult {
+  txHash: string
+  ledgerIndex: number
+  /** The Payment's Amount (DeliverMax in API v2), in the same units as amount */
+  requestedAmount?: bigint
+}
+
+/**
+ * Read a Payment from a rippled transaction entry: a transactions stream message or an
+ * account_tx item, in API v1 (transaction) or v2 (tx_json + hash) form. Returns null for
+ * anything but a successful Payment in a validated ledger.
+ */
+export function parseXrplLedgerPayment(entry: Record<string, unknown>): XrplLedgerPayment | null {
+  const tx = (entry.tx_json ?? entry.transaction ?? entry.tx) as Record<string, unknown> | undefined
+  if (!tx || tx.TransactionType !== 'Payment' || entry.validated !== true) return null
+  const meta = entry.meta as Record<string, unknown> | undefined
+  if (meta?.TransactionResult !== 'tesSUCCESS') return null
+
+  const txHash = String(entry.hash ?? tx.hash ?? '')
+  const ledgerIndex = Number(entry.ledger_index ?? tx.ledger_index)
+  if (!txHash || !Number.isInteger(ledgerIndex)) return null
+
+  try {
+    return {
+      ...toTransferResult(txHash, tx, meta),
+      txHash,
+      ledgerIndex,
+      requestedAmount: toScaledAmount(tx.DeliverMax ?? tx.Amount),
+    }
+  } catch {
+    return null
+  }
+}
+
+export interface XrplAccountWatcherOptions {
+  serverUrl: string
+  /** Account whose incoming Payments are reported */
+  account: string
+  /**
+   * Last ledger whose Payments were all handled. Later ledgers are replayed with account_tx on
+   * start and after reconnects; null starts at the current validated ledger.
+   */
+  getCursor: () => Promise<number | null>
+  /** Every Payment to the account was handled up to this ledger */
+  onCursor: (ledgerIndex: number) => Promise<void>
+  /**
+   * Called once per Payment to the account, in ledger order. When it throws, the cursor stays
+   * below that Payment's ledger and a replay retries it after `retryDelayMs`.
+   */
+  onPayment: (payment: XrplLedgerPayment) => Promise<void>
+  onError?: (error: unknown) => void
+  /** Delay before a failed Payment is retried by a replay (default 30s) */
+  retryDelayMs?: number
+}
+
+export interface XrplAccountWatcher {
+  stop(): Promise<void>
+}
+
+/** Recently reported tx hashes; the live stream and a replay can overlap */
+const SEEN_TX_LIMIT = 10_000
+const ACCOUNT_TX_PAGE_LIMIT = 200
+const DEFAULT_RETRY_DELAY_MS = 30_000
+
+/**
+ * Report Payments to an account: subscribes to its validated transactions over the XRPL
+ * WebSocket API and replays missed ledgers with account_tx. Stream messages, replays and
+ * cursor updates are handled one at a time, in order.
+ */
+export async function watchXrplAccountPayments(
+  options: XrplAccountWatcherOptions,
+): Promise<XrplAccountWatcher> {
+  if (!options.serverUrl) {
+    throw new Error('XRPL server URL is required')
+  }
+
+  const client = new Client(options.serverUrl)
+  const seen = new Set<string>()
+  let stopped = false
+  /** Lowest ledger with a Payment that failed; the cursor stays below it until a replay */
+  let failedLedger: number | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  let queue = Promise.resolve()
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch((error) => options.onError?.(error))
+  }
 
-        if (isIssuedCurrency(delivered)) {
-          return {
-            from: String(tx.Account ?? ''),
-            to: String(tx.Destination ?? ''),
-            amount: decimalToScaledBigInt(delivered.value, 6),
-            confirmed: true,
-            assetCode: delivered.currency,
-            assetIssuer: delivered.issuer,
-            txHash: paymentProof,
-            paymentReference,
-            destinationTag,
-            isPartialPayment,
-            hasPaths,
-            hasSendMax,
-            hasDeliverMin,
+  async function report(entry: Record<string, unknown>) {
+    const payment = parseXrplLedgerPayment(entry)
+    if (!payment || payment.to !== options.account || seen.has(payment.txHash)) return
+    try {
+      await options.onPayment(payment)
+    } catch (error) {
+      failedLedger = Math.min(failedLedger ?? payment.ledgerIndex, payment.ledgerIndex)
+      scheduleRetry()
+      throw error
+    }
+    seen.add(payment.txHash)
+    if (seen.size > SEEN_TX_LIMIT) seen.delete(seen.values().next().value as string)
+    // The stream is in ledger order: earlier ledgers are done, unless a Payment failed there
+    if (failedLedger == null) await options.onCursor(payment.ledgerIndex - 1)
+  }
+
+  function scheduleRetry() {
+    if (retryTimer || stopped) return
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      enqueue(replay)
+    }, options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS)
+    retryTimer.unref?.()
+  }
+
+  async function replay() {
+    // The replay starts at the cursor, below any failed Payment, and retries it
+    failedLedger = null
+    const cursor = await options.getCursor()
+    if (cursor == null) {
+      await options.onCursor(await client.getLedgerIndex())
+      return
+    }
+
+    let marker: unknown
+    let lastLedger = cursor
+    do {
+      const request: AccountTxRequest = {
+        command: 'account_tx',
+        account: options.account,
+        ledger_index_min: cursor + 1,
+        ledger_index_max: -1,
+        forward: true,
+        limit: ACCOUNT_TX_PAGE_LIMIT,
+        ...(marker != null && { marker }),
+      }
+      const response = await client.request(request)
+      const result = response.result as unknown as {
+        transactions?: Record<string, unknown>[]
+        ledger_index_max?: number
+        marker?: unknown
+      }
+      for (const entry of result.transactions ?? []) {
+        await report(entry)
+      }
+      if (typeof result.ledger_index_max === 'number') lastLedger = result.ledger_index_max
+      marker = result.marker
+    } while (marker != null && !stopped)
+    await options.onCursor(lastLedger)
+  }
+
+  async function subscribe() {
+    await client.request({ command: 'subscribe', accounts: [options.account] })
+    // Subscribed first, so nothing falls between the replay and the stream
+    await replay()
+  }
+
+  client.on('transaction', (message) => {
+    enqueue(() => report(message as unknown as Record<string, unknown>))
+  })
+  // Subscriptions do not survive a reconnect. 'connected' fires twice on the first connect
+  // (connection and client), so subscribe once per connection.
+  let subscribed = false
+  client.on('connected', () => {
+    if (stopped || subscribed) return
+    subscribed = true
+    enqueue(subscribe)
+  })
+  client.on('disconnected', () => {
+    subscribed = false
+  })
+  client.on('error', (code: string, message: string) => {
+    options.onError?.(new Error(`XRPL connection error ${code}: ${message}`))
+  })
+
+  await client.connect()
+
+  return {
+    async stop() {
+      stopped = true
+      if (retryTimer) clearTimeout(retryTimer)
+      await queue
+      if (client.isConnected()) await client.disconnect()
+    },
+  }
+}
+
+export interface XrplPaymentSenderOptions {
+  serverUrl: string
+  /** Seed of the sending account (e.g. the operator wallet issuing refunds) */
+  seed: string
+}
+
+export interface XrplOutgoingPayment {
+  destination: string
+  /** Drops for XRP; issued currencies scaled to 6 decimals (same units as verifyPayment) */
+  amount: bigint
+  assetCode: string
+  assetIssuer?: string
+  destinationTag?: number
+  /** Recorded as a memo with MemoType x402:xrpl:refund:v1 */
+  reference?: Record<string, unknown>
+}
+
+export interface XrplPaymentSubmission {
+  txHash: string
+  validated: boolean
+  /** Engine result, e.g. tesSUCCESS, tecPATH_DRY ('unknown' until the Payment is in a ledger) */
+  result: string
+}
+
+export interface XrplPaymentSender {
+  address: string
+  /**
+   * Sign and submit a Payment and wait for it to validate. Throws only when the Payment did not
+   * and cannot apply. When the wait fails otherwise (timeout, dropped connection) the Payment may
+   * still validate: it resolves unvalidated with the signed hash; check it with getPaymentResult.
+   */
+  sendPayment(payment: XrplOutgoingPayment): Promise<XrplPaymentSubmission>
+  getPaymentResult(txHash: string): Promise<XrplPaymentSubmission | null>
+}
+
+function toSubmission(txHash: string, result: Record<string, unknown>): XrplPaymentSubmission {
+  const meta = result.meta as Record<string, unknown> | undefined
+  return {
+    txHash,
+    validated: result.validated === true,
+    result: String(meta?.TransactionResult ?? 'unknown'),
+  }
+}
+
+async function lookupPayment(client: Client, txHash: string): Promise<XrplPaymentSubmission | null> {
+  try {
+    const response = await client.request({ command: 'tx', transaction: txHash })
+    return toSubmission(txHash, response.result as unknown as Record<string, unknown>)
+  } catch (error) {
+    if ((error as { data?: { error?: string } })?.data?.error === 'txnNotFound') return null
+    throw error
+  }
+}
+
+/**
+ * Sends XRPL Payments from a server-held account (refunds back to the source account).
+ * Amounts use the same units verifyPayment reports, so a settled amount can be paid back as is.
+ */
+export function createXrplPaymentSender(options: XrplPaymentSenderOptions): XrplPaymentSender {
+  if (!options.serverUrl) {
+    throw new Error('XRPL server URL is required')
+  }
+  const wallet = Wallet.fromSeed(options.seed)
+
+  async function withClient<T>(fn: (client: Client) => Promise<T>): Promise<T> {
+    const client = new Client(options.serverUrl)
+    await client.connect()
+    try {
+      return await fn(client)
+    } finally {
+      await client.disconnect()
+    }
+  }
+
+  return {
+    address: wallet.address,
+
+    sendPayment(payment) {
+      return withClient(async (client) => {
+        const tx: Payment = {
+          TransactionType: 'Payment',
+          Account: wallet.address,
+          Destination: payment.destination,
+          Amount:
+            payment.assetCode === 'XRP'
+              ? payment.amount.toString()
+              : {
+                  currency: payment.assetCode,
+                  issuer: payment.assetIssuer ?? '',
+                  value: scaledBigIntToDecimal(payment.amount, 6),
+                },
+          ...(payment.destinationTag !== undefined && { DestinationTag: payment.destinationTag }),
+          ...(payment.reference && {
+            Memos: [
+              {
+                Memo: {
+                  MemoType: toHexMemoField('x402:xrpl:refund:v1'),
+                  MemoData: toHexMemoField(JSON.stringify(payment.reference)),
+                },
+              },
+            ],
+          }),
+        }
+        const prepared = await client.autofill(tx)
+        const signed = wallet.sign(prepared)
+        try {
+          const response = await client.submitAndWait(signed.tx_blob)
+          return toSubmission(signed.hash, response.result as unknown as Record<string, unknown>)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          const known = await lookupPayment(client, signed.hash).catch(() => undefined)
+          if (known) return known
+          // Malformed (tem*), or not found after its LastLedgerSequence: it can never apply
+          const latestLedger = await client.getLedgerIndex().catch(() => null)
+          const expired =
+            known === null &&
+            latestLedger != null &&
+            prepared.LastLedgerSequence != null &&
+            latestLedger > prepared.LastLedgerSequence
+          if (expired || /^Transaction failed, tem/.test(message)) {
+            throw new Error(`XRPL payment ${signed.hash} was not applied: ${message}`)
           }
+          return { txHash: signed.hash, validated: false, result: 'unknown' }
         }
+      })
+    },
 
-        throw new Error('Unable to determine delivered amount from XRPL transaction')
-      } finally {
-        await client.disconnect()
-      }
+    getPaymentResult(txHash) {
+      return withClient((client) => lookupPayment(client, txHash))
     },
   }
 }
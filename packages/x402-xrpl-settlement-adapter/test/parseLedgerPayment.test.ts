@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { decodeXrplCurrency, parseXrplLedgerPayment } from '../src/index.js'
+
+const RLUSD_HEX = '524C555344000000000000000000000000000000'
+const HASH = 'A'.repeat(64)
+
+function entry(overrides: Record<string, unknown> = {}, tx: Record<string, unknown> = {}) {
+  return {
+    hash: HASH,
+    ledger_index: 9001006,
+    validated: true,
+    meta: {
+      TransactionResult: 'tesSUCCESS',
+      delivered_amount: { currency: RLUSD_HEX, issuer: 'rIssuer', value: '4' },
+    },
+    tx_json: {
+      TransactionType: 'Payment',
+      Account: 'rDriver',
+      Destination: 'rOperator',
+      DestinationTag: 1002,
+      DeliverMax: { currency: RLUSD_HEX, issuer: 'rIssuer', value: '4' },
+      ...tx,
+    },
+    ...overrides,
+  }
+}
+
+describe('decodeXrplCurrency', () => {
+  it('decodes 40-hex codes and keeps standard codes', () => {
+    expect(decodeXrplCurrency(RLUSD_HEX)).toBe('RLUSD')
+    expect(decodeXrplCurrency('USD')).toBe('USD')
+    expect(decodeXrplCurrency('01' + '0'.repeat(38))).toBe('01' + '0'.repeat(38))
+  })
+})
+
+describe('parseXrplLedgerPayment', () => {
+  it('reads an API v2 stream message', () => {
+    expect(parseXrplLedgerPayment(entry())).toMatchObject({
+      txHash: HASH,
+      ledgerIndex: 9001006,
+      to: 'rOperator',
+      destinationTag: 1002,
+      amount: 4_000_000n,
+      requestedAmount: 4_000_000n,
+      assetCode: RLUSD_HEX,
+      assetIssuer: 'rIssuer',
+      isPartialPayment: false,
+    })
+  })
+
+  it('reads an API v1 account_tx item with an XRP Amount', () => {
+    const v1 = {
+      validated: true,
+      meta: { TransactionResult: 'tesSUCCESS', delivered_amount: '2500000' },
+      tx: {
+        TransactionType: 'Payment',
+        Account: 'rDriver',
+        Destination: 'rOperator',
+        Amount: '2500000',
+        hash: HASH,
+        ledger_index: 9000990,
+      },
+    }
+    expect(parseXrplLedgerPayment(v1)).toMatchObject({
+      txHash: HASH,
+      ledgerIndex: 9000990,
+      amount: 2_500_000n,
+      requestedAmount: 2_500_000n,
+      assetCode: 'XRP',
+    })
+  })
+
+  it('ignores unvalidated, failed and non-Payment transactions', () => {
+    expect(parseXrplLedgerPayment(entry({ validated: false }))).toBeNull()
+    expect(
+      parseXrplLedgerPayment(entry({ meta: { TransactionResult: 'tecPATH_PARTIAL' } })),
+    ).toBeNull()
+    expect(parseXrplLedgerPayment(entry({}, { TransactionType: 'TrustSet' }))).toBeNull()
+  })
+})
@@ -1,9 +1,17 @@
+import { type Address, type Hex, parseUnits, toHex } from 'viem'
+import {
+  encodeTransferAuthorizationHeader,
+  transferAuthorizationTypedData,
+  type Eip3009Domain,
+} from './eip3009'
+
 /**
  * Client-side x402 payment helper for the driver app.
  *
  * Handles 402 responses from the API by:
  * 1. Parsing x402 payment details from the response body
- * 2. Initiating a wallet payment transaction
+ * 2. Initiating a wallet payment transaction, or signing an EIP-3009 transfer authorization
+ *    the server relays (no gas needed) when the 402 offers it and an authorizer is set
  * 3. Resending the original request with the payment proof
  */
 
@@ -19,6 +27,11 @@ export interface X402PaymentDetails {
     plateNumber: string
     sessionId: string
   }
+  /** Present when the server relays EIP-3009 authorizations for this token */
+  transferAuthorization?: {
+    domain: Eip3009Domain
+    decimals: number
+  }
 }
 
 export interface PaymentClient {
@@ -45,8 +58,20 @@ export interface PaymentClientOptions {
     token: string
     network: string
   }) => Promise<string>
+  /**
+   * Signs EIP-712 typed data as the paying address, e.g. a viem account or a Coinbase Smart
+   * Wallet. Preferred over sendPayment when the 402 offers transferAuthorization.
+   */
+  authorizer?: {
+    address: Address
+    signTypedData: (typedData: ReturnType<typeof transferAuthorizationTypedData>) => Promise<Hex>
+  }
+  /** How long a signed authorization stays valid (default 600 seconds) */
+  authorizationValiditySeconds?: number
 }
 
+const DEFAULT_AUTHORIZATION_VALIDITY_SECONDS = 600
+
 export function createPaymentClient(options: PaymentClientOptions = {}): PaymentClient {
   return {
     async handlePaymentRequired(
@@ -74,28 +99,55 @@ export function createPaymentClient(options: PaymentClientOptions = {}): Payment
         `[x402] Payment required: ${paymentDetails.amount} ${paymentDetails.token} to ${paymentDetails.receiver}`,
       )
 
-      if (!options.sendPayment) {
+      const { authorizer } = options
+      const gasless = authorizer && paymentDetails.transferAuthorization
+      if (!gasless && !options.sendPayment) {
         console.error('[x402] No sendPayment function provided')
         return null
       }
 
       try {
-        // Send the payment transaction
-        const txHash = await options.sendPayment({
-          to: paymentDetails.receiver,
-          amount: paymentDetails.amount,
-          token: paymentDetails.token,
-          network: paymentDetails.network,
-        })
+        let paymentProof: string
+        if (gasless) {
+          // Sign a transferWithAuthorization; the server submits it and pays the gas
+          const { domain, decimals } = gasless
+          const now = Math.floor(Date.now() / 1000)
+          const validity =
+            options.authorizationValiditySeconds ?? DEFAULT_AUTHORIZATION_VALIDITY_SECONDS
+          const authorization = {
+            from: authorizer.address,
+            to: paymentDetails.receiver as Address,
+            value: parseUnits(paymentDetails.amount, decimals),
+            validAfter: 0n,
+            validBefore: BigInt(now + validity),
+            nonce: toHex(crypto.getRandomValues(new Uint8Array(32))),
+          }
+          const signature = await authorizer.signTypedData(
+            transferAuthorizationTypedData(domain, authorization),
+          )
+          paymentProof = encodeTransferAuthorizationHeader(paymentDetails.network, {
+            authorization,
+            signature,
+          })
+          console.log(`[x402] Transfer authorization signed by ${authorizer.address}`)
+        } else {
+          // Send the payment transaction
+          paymentProof = await options.sendPayment!({
+            to: paymentDetails.receiver,
+            amount: paymentDetails.amount,
+            token: paymentDetails.token,
+            network: paymentDetails.network,
+          })
 
-        console.log(`[x402] Payment sent: ${txHash}`)
+          console.log(`[x402] Payment sent: ${paymentProof}`)
+        }
 
         // Resend the original request with the payment proof
         const retryResponse = await fetch(originalRequest.url, {
           method: originalRequest.method,
           headers: {
             ...originalRequest.headers,
-            'X-PAYMENT': txHash,
+            'X-PAYMENT': paymentProof,
           },
           body: originalRequest.body,
         })
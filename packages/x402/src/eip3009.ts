@@ -0,0 +1,241 @@
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+  parseAbi,
+  parseSignature,
+  size,
+} from 'viem'
+
+/**
+ * EIP-3009 transferWithAuthorization for gasless x402 payments.
+ *
+ * Instead of sending a token transfer (and paying gas), the payer signs an EIP-712
+ * TransferWithAuthorization for the token. The signed authorization travels in the X-PAYMENT
+ * header as an x402 "exact" scheme payload; the server relays it to the token contract with
+ * its own key and confirms the resulting Transfer.
+ */
+
+/** EIP-712 domain of an EIP-3009 token (USDC, EURC) */
+export interface Eip3009Domain {
+  name: string
+  version: string
+  chainId: number
+  verifyingContract: Address
+}
+
+export interface TransferAuthorization {
+  from: Address
+  to: Address
+  /** Atomic token units */
+  value: bigint
+  /** Unix seconds; valid strictly after this time */
+  validAfter: bigint
+  /** Unix seconds; valid strictly before this time */
+  validBefore: bigint
+  /** Random 32-byte nonce; the token rejects a nonce it has seen */
+  nonce: Hex
+}
+
+export interface SignedTransferAuthorization {
+  authorization: TransferAuthorization
+  /** 65-byte ECDSA signature, or the EIP-1271 signature of a smart wallet */
+  signature: Hex
+}
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const
+
+/** Typed data the payer signs for an authorization */
+export function transferAuthorizationTypedData(
+  domain: Eip3009Domain,
+  authorization: TransferAuthorization,
+) {
+  return {
+    domain,
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: 'TransferWithAuthorization' as const,
+    message: { ...authorization },
+  }
+}
+
+// ---- X-PAYMENT header ----
+
+const HEX_REGEX = /^0x[0-9a-fA-F]*$/
+const ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/
+const NONCE_REGEX = /^0x[0-9a-fA-F]{64}$/
+const UINT_REGEX = /^[0-9]+$/
+
+/**
+ * Encode a signed authorization as an X-PAYMENT header: base64 JSON of the x402 "exact"
+ * scheme payload, with uint256 fields as decimal strings.
+ */
+export function encodeTransferAuthorizationHeader(
+  network: string,
+  signed: SignedTransferAuthorization,
+): string {
+  const { authorization } = signed
+  const payload = {
+    x402Version: 1,
+    scheme: 'exact',
+    network,
+    payload: {
+      signature: signed.signature,
+      authorization: {
+        from: authorization.from,
+        to: authorization.to,
+        value: authorization.value.toString(),
+        validAfter: authorization.validAfter.toString(),
+        validBefore: authorization.validBefore.toString(),
+        nonce: authorization.nonce,
+      },
+    },
+  }
+  return btoa(JSON.stringify(payload))
+}
+
+/** Decode an X-PAYMENT header written by encodeTransferAuthorizationHeader. Throws when malformed. */
+export function decodeTransferAuthorizationHeader(
+  header: string,
+): SignedTransferAuthorization & { network: string } {
+  let parsed: any
+  try {
+    parsed = JSON.parse(atob(header))
+  } catch {
+    throw new Error('Invalid transfer authorization payload')
+  }
+
+  const auth = parsed?.payload?.authorization
+  const signature = parsed?.payload?.signature
+  if (
+    parsed?.scheme !== 'exact' ||
+    typeof parsed.network !== 'string' ||
+    typeof signature !== 'string' ||
+    !HEX_REGEX.test(signature) ||
+    !ADDRESS_REGEX.test(auth?.from) ||
+    !ADDRESS_REGEX.test(auth?.to) ||
+    !NONCE_REGEX.test(auth?.nonce) ||
+    ![auth?.value, auth?.validAfter, auth?.validBefore].every(
+      (v) => typeof v === 'string' && UINT_REGEX.test(v),
+    )
+  ) {
+    throw new Error('Invalid transfer authorization payload')
+  }
+
+  return {
+    network: parsed.network,
+    signature: signature as Hex,
+    authorization: {
+      from: auth.from,
+      to: auth.to,
+      value: BigInt(auth.value),
+      validAfter: BigInt(auth.validAfter),
+      validBefore: BigInt(auth.validBefore),
+      nonce: auth.nonce,
+    },
+  }
+}
+
+// ---- Server side ----
+
+/**
+ * Check a signed authorization before relaying it: it pays `receiver` at least `amountDue`
+ * (atomic units), it is valid now, and the signature is the payer's. Smart wallet (EIP-1271)
+ * signatures are checked on-chain.
+ */
+export async function verifyTransferAuthorization(
+  client: PublicClient,
+  domain: Eip3009Domain,
+  signed: SignedTransferAuthorization,
+  receiver: string,
+  amountDue: bigint,
+  now: number = Math.floor(Date.now() / 1000),
+): Promise<void> {
+  const { authorization } = signed
+  if (authorization.to.toLowerCase() !== receiver.toLowerCase()) {
+    throw new Error('Authorization does not pay the receiver')
+  }
+  if (authorization.value <= 0n) {
+    throw new Error('Authorization value must be positive')
+  }
+  if (authorization.value < amountDue) {
+    throw new Error('Authorization value is below the amount due')
+  }
+  if (BigInt(now) <= authorization.validAfter) {
+    throw new Error('Authorization is not yet valid')
+  }
+  if (BigInt(now) >= authorization.validBefore) {
+    throw new Error('Authorization has expired')
+  }
+
+  const valid = await client.verifyTypedData({
+    address: authorization.from,
+    ...transferAuthorizationTypedData(domain, authorization),
+    signature: signed.signature,
+  })
+  if (!valid) {
+    throw new Error('Invalid authorization signature')
+  }
+}
+
+const transferWithAuthorizationAbi = parseAbi([
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, bytes signature)',
+])
+
+/**
+ * Submit a signed authorization to the token contract from `walletClient`, which pays the gas.
+ * ECDSA signatures use the (v, r, s) entry point every EIP-3009 token has; other signatures
+ * (smart wallets) use the `bytes signature` entry point of USDC v2.2. Returns the tx hash once
+ * broadcast.
+ */
+export async function relayTransferWithAuthorization(
+  walletClient: WalletClient,
+  token: Address,
+  signed: SignedTransferAuthorization,
+): Promise<Hex> {
+  const { from, to, value, validAfter, validBefore, nonce } = signed.authorization
+  const account = walletClient.account
+  if (!account) {
+    throw new Error('Relayer wallet client has no account')
+  }
+
+  if (size(signed.signature) === 65) {
+    const { v, yParity, r, s } = parseSignature(signed.signature)
+    return walletClient.writeContract({
+      account,
+      chain: walletClient.chain,
+      address: token,
+      abi: transferWithAuthorizationAbi,
+      functionName: 'transferWithAuthorization',
+      args: [
+        from,
+        to,
+        value,
+        validAfter,
+        validBefore,
+        nonce,
+        Number(v ?? 27n + BigInt(yParity)),
+        r,
+        s,
+      ],
+    })
+  }
+  return walletClient.writeContract({
+    account,
+    chain: walletClient.chain,
+    address: token,
+    abi: transferWithAuthorizationAbi,
+    functionName: 'transferWithAuthorization',
+    args: [from, to, value, validAfter, validBefore, nonce, signed.signature],
+  })
+}
@@ -1,7 +1,20 @@
 export { createPaymentMiddleware } from './middleware'
-export type { PaymentMiddlewareOptions, PaymentRequired } from './middleware'
+export type {
+  PaymentMiddlewareOptions,
+  PaymentRequired,
+  TransferAuthorizationOptions,
+} from './middleware'
 export { createPaymentClient } from './client'
 export type { PaymentClient, PaymentClientOptions, X402PaymentDetails } from './client'
-export { verifyERC20Transfer } from './verify'
+export { verifyERC20Transfer, verifyAuthorizedTransfer } from './verify'
 export type { ERC20TransferResult } from './verify'
+export {
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  transferAuthorizationTypedData,
+  encodeTransferAuthorizationHeader,
+  decodeTransferAuthorizationHeader,
+  verifyTransferAuthorization,
+  relayTransferWithAuthorization,
+} from './eip3009'
+export type { Eip3009Domain, TransferAuthorization, SignedTransferAuthorization } from './eip3009'
 export type { SettlementAdapter, PaymentTransferResult } from './adapter'
@@ -1,7 +1,13 @@
 import type { RequestHandler, Request, Response, NextFunction } from 'express'
 import type { PublicClient } from 'viem'
-import { verifyERC20Transfer, type ERC20TransferResult } from './verify'
+import { verifyAuthorizedTransfer, verifyERC20Transfer, type ERC20TransferResult } from './verify'
 import type { SettlementAdapter } from './adapter'
+import {
+  decodeTransferAuthorizationHeader,
+  verifyTransferAuthorization,
+  type Eip3009Domain,
+  type SignedTransferAuthorization,
+} from './eip3009'
 
 /**
  * x402 Payment Middleware for Parker.
@@ -15,6 +21,11 @@ import type { SettlementAdapter } from './adapter'
  *
  * When `publicClient` is provided, on-chain verification is performed.
  * Without `publicClient` (dev mode): trusts the header with a console warning.
+ *
+ * With `transferAuthorization`, EVM payers can pay without gas: the 402 advertises the token's
+ * EIP-3009 domain, the client signs a transferWithAuthorization and sends it in `X-PAYMENT`,
+ * and the middleware checks it against the amount due, relays it and confirms the resulting
+ * transfer.
  */
 
 export interface PaymentMiddlewareOptions {
@@ -28,6 +39,22 @@ export interface PaymentMiddlewareOptions {
   publicClient?: PublicClient
   /** Optional settlement adapter (e.g. XRPL) to verify payment proofs. */
   settlementAdapter?: SettlementAdapter
+  /** Gasless EVM payments via EIP-3009 for the default network and token. Needs `publicClient`. */
+  transferAuthorization?: TransferAuthorizationOptions
+}
+
+export interface TransferAuthorizationOptions {
+  /** EIP-712 domain of the default token on the default network */
+  domain: Eip3009Domain
+  /** Token decimals, for the payer to convert the 402 amount into atomic units */
+  decimals: number
+  /**
+   * Atomic units of the token the request must pay, resolved before anything is relayed.
+   * Null when nothing is due for the request: the authorization is refused.
+   */
+  amountDue: (req: Request) => Promise<bigint | null>
+  /** Submit a checked authorization with the operator or facilitator key; returns the tx hash */
+  relay: (signed: SignedTransferAuthorization) => Promise<`0x${string}`>
 }
 
 export interface PaymentRequired {
@@ -50,6 +77,7 @@ export function createPaymentMiddleware(options: PaymentMiddlewareOptions = {}):
     receiverWallet: defaultReceiver = process.env.LOT_OPERATOR_WALLET || '0x0',
     publicClient,
     settlementAdapter,
+    transferAuthorization,
   } = options
 
   const middleware: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
@@ -108,6 +136,40 @@ export function createPaymentMiddleware(options: PaymentMiddlewareOptions = {}):
             details: (err as Error).message,
           })
         }
+      } else if (publicClient && transferAuthorization && !isXrplNetwork) {
+        // Gasless mode: the header carries a signed EIP-3009 authorization for us to relay
+        try {
+          const signed = decodeTransferAuthorizationHeader(paymentHeader)
+          if (signed.network !== requestedNetwork) {
+            throw new Error(`Authorization is for ${signed.network}, expected ${requestedNetwork}`)
+          }
+          const amountDue = await transferAuthorization.amountDue(req)
+          if (amountDue == null) {
+            throw new Error('No payment is due for this request')
+          }
+          await verifyTransferAuthorization(
+            publicClient,
+            transferAuthorization.domain,
+            signed,
+            defaultReceiver,
+            amountDue,
+          )
+          const txHash = await transferAuthorization.relay(signed)
+          const transfer = await verifyAuthorizedTransfer(publicClient, txHash, {
+            token: transferAuthorization.domain.verifyingContract,
+            ...signed.authorization,
+          })
+          // Mark verified only after the relayed transfer is confirmed.
+          ;(req as any).paymentVerified = true
+          ;(req as any).paymentTxHash = txHash
+          ;(req as any).paymentTransfer = transfer
+          ;(req as any).paymentVerificationRail = 'evm'
+        } catch (err) {
+          return res.status(400).json({
+            error: 'Payment verification failed',
+            details: (err as Error).message,
+          })
+        }
       } else if (publicClient && !isXrplNetwork) {
         return res.status(400).json({ error: 'Invalid transaction hash format' })
       } else {
@@ -134,6 +196,13 @@ export function createPaymentMiddleware(options: PaymentMiddlewareOptions = {}):
         const network = paymentInfo.network || defaultNetwork
         const token = paymentInfo.token || defaultToken
         const receiver = paymentInfo.receiver || defaultReceiver
+        // Authorizations are relayed for the default network, token and receiver only
+        const offersAuthorization =
+          publicClient &&
+          transferAuthorization &&
+          network === defaultNetwork &&
+          token === defaultToken &&
+          receiver === defaultReceiver
 
         res.status(402)
         return originalJson({
@@ -149,6 +218,12 @@ export function createPaymentMiddleware(options: PaymentMiddlewareOptions = {}):
               plateNumber: paymentInfo.plateNumber,
               sessionId: paymentInfo.sessionId,
             },
+            ...(offersAuthorization && {
+              transferAuthorization: {
+                domain: transferAuthorization.domain,
+                decimals: transferAuthorization.decimals,
+              },
+            }),
           },
           // Also include the full payment options from the route (for non-x402 clients)
           ...(body?.paymentOptions && { paymentOptions: body.paymentOptions }),
@@ -1,4 +1,4 @@
-import { type PublicClient, decodeEventLog, parseAbi } from 'viem'
+import { type PublicClient, type TransactionReceipt, decodeEventLog, parseAbi } from 'viem'
 import type { PaymentTransferResult } from './adapter'
 
 const erc20TransferAbi = parseAbi([
@@ -21,7 +21,40 @@ export async function verifyERC20Transfer(
   expectedToken?: string,
 ): Promise<ERC20TransferResult> {
   const receipt = await client.getTransactionReceipt({ hash: txHash })
+  return decodeTransfer(receipt, expectedToken)
+}
 
+/**
+ * Confirm the transfer of a relayed EIP-3009 authorization: waits for the receipt, then
+ * requires a Transfer of the token that matches the authorization.
+ *
+ * @param client - viem PublicClient
+ * @param txHash - hash of the relayed transferWithAuthorization transaction
+ * @param expected - token contract and the authorization's from, to and value
+ */
+export async function verifyAuthorizedTransfer(
+  client: PublicClient,
+  txHash: `0x${string}`,
+  expected: { token: string; from: string; to: string; value: bigint },
+): Promise<ERC20TransferResult> {
+  const receipt = await client.waitForTransactionReceipt({ hash: txHash })
+  const transfer = decodeTransfer(receipt, expected.token)
+
+  if (
+    transfer.from.toLowerCase() !== expected.from.toLowerCase() ||
+    transfer.to.toLowerCase() !== expected.to.toLowerCase() ||
+    transfer.amount !== expected.value
+  ) {
+    throw new Error('Transfer does not match the authorization')
+  }
+  return { ...transfer, txHash }
+}
+
+/** First Transfer event of the receipt (optionally of one token contract) */
+function decodeTransfer(
+  receipt: Pick<TransactionReceipt, 'status' | 'logs'>,
+  expectedToken?: string,
+): ERC20TransferResult {
   if (receipt.status === 'reverted') {
     throw new Error('Transaction reverted')
   }
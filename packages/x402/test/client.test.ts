@@ -1,5 +1,8 @@
 import { describe, it, expect, vi } from 'vitest'
+import { recoverTypedDataAddress } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
 import { createPaymentClient } from '../src/client'
+import { decodeTransferAuthorizationHeader, transferAuthorizationTypedData } from '../src/eip3009'
 
 describe('createPaymentClient', () => {
   it('returns null for non-402 responses', async () => {
@@ -120,4 +123,62 @@ describe('createPaymentClient', () => {
     })
     expect(result).toBeNull()
   })
+
+  it('signs a transfer authorization instead of sending a transaction when offered', async () => {
+    const account = privateKeyToAccount(('0x' + '11'.repeat(32)) as `0x${string}`)
+    const sendPayment = vi.fn()
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ ok: true }), { status: 200 }))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const domain = {
+      name: 'USDC',
+      version: '2',
+      chainId: 84532,
+      verifyingContract: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as const,
+    }
+    const receiver = '0x2222222222222222222222222222222222222222'
+    const client = createPaymentClient({ sendPayment, authorizer: account })
+    const response = new Response(
+      JSON.stringify({
+        x402: {
+          version: '1',
+          network: 'base-sepolia',
+          token: 'USDC',
+          amount: '5.25',
+          receiver,
+          description: 'Parking',
+          metadata: { plateNumber: 'ABC', sessionId: 's1' },
+          transferAuthorization: { domain, decimals: 6 },
+        },
+      }),
+      { status: 402 },
+    )
+
+    const result = await client.handlePaymentRequired(response, {
+      url: 'http://test/exit',
+      method: 'POST',
+      headers: {},
+    })
+
+    expect(result).toBeTruthy()
+    expect(sendPayment).not.toHaveBeenCalled()
+    const header = mockFetch.mock.calls[0][1].headers['X-PAYMENT']
+    const signed = decodeTransferAuthorizationHeader(header)
+    expect(signed.network).toBe('base-sepolia')
+    expect(signed.authorization).toMatchObject({
+      from: account.address,
+      to: receiver,
+      value: 5_250000n,
+      validAfter: 0n,
+    })
+    const signer = await recoverTypedDataAddress({
+      ...transferAuthorizationTypedData(domain, signed.authorization),
+      signature: signed.signature,
+    })
+    expect(signer).toBe(account.address)
+
+    vi.unstubAllGlobals()
+  })
 })
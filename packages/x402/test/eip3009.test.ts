@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  decodeTransferAuthorizationHeader,
+  encodeTransferAuthorizationHeader,
+  relayTransferWithAuthorization,
+  transferAuthorizationTypedData,
+  verifyTransferAuthorization,
+  type Eip3009Domain,
+  type TransferAuthorization,
+} from '../src/eip3009'
+
+const payer = privateKeyToAccount(('0x' + '11'.repeat(32)) as `0x${string}`)
+const receiver = '0x2222222222222222222222222222222222222222'
+const domain: Eip3009Domain = {
+  name: 'USDC',
+  version: '2',
+  chainId: 84532,
+  verifyingContract: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+}
+const NOW = 1_700_000_000
+
+function authorization(overrides: Partial<TransferAuthorization> = {}): TransferAuthorization {
+  return {
+    from: payer.address,
+    to: receiver,
+    value: 5_000000n,
+    validAfter: 0n,
+    validBefore: BigInt(NOW + 600),
+    nonce: ('0x' + '01'.repeat(32)) as `0x${string}`,
+    ...overrides,
+  }
+}
+
+async function sign(auth = authorization()) {
+  const signature = await payer.signTypedData(transferAuthorizationTypedData(domain, auth))
+  return { authorization: auth, signature }
+}
+
+describe('transfer authorization header', () => {
+  it('round-trips a signed authorization', async () => {
+    const signed = await sign()
+    const header = encodeTransferAuthorizationHeader('base-sepolia', signed)
+
+    expect(JSON.parse(atob(header))).toMatchObject({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      payload: { authorization: { value: '5000000' } },
+    })
+    expect(decodeTransferAuthorizationHeader(header)).toEqual({
+      network: 'base-sepolia',
+      ...signed,
+    })
+  })
+
+  it('rejects headers that are not exact-scheme authorizations', () => {
+    expect(() => decodeTransferAuthorizationHeader('0x' + 'ab'.repeat(32))).toThrow(
+      'Invalid transfer authorization payload',
+    )
+    const header = btoa(JSON.stringify({ scheme: 'exact', network: 'base-sepolia', payload: {} }))
+    expect(() => decodeTransferAuthorizationHeader(header)).toThrow(
+      'Invalid transfer authorization payload',
+    )
+  })
+})
+
+describe('verifyTransferAuthorization', () => {
+  const client = { verifyTypedData: vi.fn().mockResolvedValue(true) } as any
+
+  it('accepts an authorization paying the receiver within its window', async () => {
+    const signed = await sign()
+    await verifyTransferAuthorization(
+      client,
+      domain,
+      signed,
+      receiver.toUpperCase(),
+      5_000000n,
+      NOW,
+    )
+    expect(client.verifyTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: payer.address,
+        primaryType: 'TransferWithAuthorization',
+        signature: signed.signature,
+      }),
+    )
+  })
+
+  it('rejects another receiver, less than the amount due or an authorization outside its window', async () => {
+    const other = '0x3333333333333333333333333333333333333333'
+    await expect(
+      verifyTransferAuthorization(client, domain, await sign(), other, 5_000000n, NOW),
+    ).rejects.toThrow('does not pay the receiver')
+    await expect(
+      verifyTransferAuthorization(client, domain, await sign(), receiver, 5_000001n, NOW),
+    ).rejects.toThrow('below the amount due')
+    await expect(
+      verifyTransferAuthorization(
+        client,
+        domain,
+        await sign(authorization({ validBefore: BigInt(NOW) })),
+        receiver,
+        5_000000n,
+        NOW,
+      ),
+    ).rejects.toThrow('expired')
+    await expect(
+      verifyTransferAuthorization(
+        client,
+        domain,
+        await sign(authorization({ validAfter: BigInt(NOW) })),
+        receiver,
+        5_000000n,
+        NOW,
+      ),
+    ).rejects.toThrow('not yet valid')
+  })
+
+  it('rejects a signature that does not verify', async () => {
+    const failing = { verifyTypedData: vi.fn().mockResolvedValue(false) } as any
+    await expect(
+      verifyTransferAuthorization(failing, domain, await sign(), receiver, 5_000000n, NOW),
+    ).rejects.toThrow('Invalid authorization signature')
+  })
+})
+
+describe('relayTransferWithAuthorization', () => {
+  function walletClient() {
+    return {
+      account: privateKeyToAccount(('0x' + '22'.repeat(32)) as `0x${string}`),
+      chain: undefined,
+      writeContract: vi.fn().mockResolvedValue('0x' + 'cd'.repeat(32)),
+    } as any
+  }
+
+  it('splits an ECDSA signature into v, r, s', async () => {
+    const client = walletClient()
+    const signed = await sign()
+    const txHash = await relayTransferWithAuthorization(client, domain.verifyingContract, signed)
+
+    expect(txHash).toBe('0x' + 'cd'.repeat(32))
+    const { address, functionName, args } = client.writeContract.mock.calls[0][0]
+    expect(address).toBe(domain.verifyingContract)
+    expect(functionName).toBe('transferWithAuthorization')
+    expect(args).toHaveLength(9)
+    expect(args.slice(0, 3)).toEqual([payer.address, receiver, 5_000000n])
+    expect([27, 28]).toContain(args[6])
+  })
+
+  it('passes smart wallet signatures as bytes', async () => {
+    const client = walletClient()
+    const signature = ('0x' + 'ef'.repeat(200)) as `0x${string}`
+    await relayTransferWithAuthorization(client, domain.verifyingContract, {
+      authorization: authorization(),
+      signature,
+    })
+
+    const { args } = client.writeContract.mock.calls[0][0]
+    expect(args).toHaveLength(7)
+    expect(args[6]).toBe(signature)
+  })
+})
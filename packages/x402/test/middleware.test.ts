@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { privateKeyToAccount } from 'viem/accounts'
 import { createPaymentMiddleware, type PaymentRequired } from '../src/middleware'
+import { encodeTransferAuthorizationHeader, transferAuthorizationTypedData } from '../src/eip3009'
 import type { Request, Response, NextFunction } from 'express'
 
 function mockReq(overrides: Partial<Request> = {}): Request {
@@ -231,3 +233,145 @@ describe('createPaymentMiddleware XRPL verification path', () => {
     expect(next).not.toHaveBeenCalled()
   })
 })
+
+describe('createPaymentMiddleware gasless EIP-3009 path', () => {
+  const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+  const payer = privateKeyToAccount(('0x' + '11'.repeat(32)) as `0x${string}`)
+  const receiver = '0x2222222222222222222222222222222222222222'
+  const relayedTx = ('0x' + 'cd'.repeat(32)) as `0x${string}`
+  const domain = {
+    name: 'USDC',
+    version: '2',
+    chainId: 84532,
+    verifyingContract: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as const,
+  }
+
+  const padAddress = (addr: string) => '0x' + addr.replace('0x', '').toLowerCase().padStart(64, '0')
+
+  function setup(verified = true, due: bigint | null = 5_000000n) {
+    const publicClient = {
+      verifyTypedData: vi.fn().mockResolvedValue(verified),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({
+        status: 'success',
+        logs: [
+          {
+            address: domain.verifyingContract,
+            topics: [TRANSFER_TOPIC, padAddress(payer.address), padAddress(receiver)],
+            data: '0x' + 5_000000n.toString(16).padStart(64, '0'),
+          },
+        ],
+      }),
+    } as any
+    const relay = vi.fn().mockResolvedValue(relayedTx)
+    const amountDue = vi.fn().mockResolvedValue(due)
+    const middleware = createPaymentMiddleware({
+      network: 'base-sepolia',
+      receiverWallet: receiver,
+      publicClient,
+      transferAuthorization: { domain, decimals: 6, amountDue, relay },
+    })
+    return { middleware, publicClient, relay, amountDue }
+  }
+
+  async function paymentHeader(to = receiver) {
+    const authorization = {
+      from: payer.address,
+      to: to as `0x${string}`,
+      value: 5_000000n,
+      validAfter: 0n,
+      validBefore: BigInt(Math.floor(Date.now() / 1000) + 600),
+      nonce: ('0x' + '01'.repeat(32)) as `0x${string}`,
+    }
+    const signature = await payer.signTypedData(
+      transferAuthorizationTypedData(domain, authorization),
+    )
+    return encodeTransferAuthorizationHeader('base-sepolia', { authorization, signature })
+  }
+
+  it('advertises the token domain in the 402', async () => {
+    const { middleware } = setup()
+    const res = mockRes()
+    await middleware(mockReq(), res, vi.fn())
+
+    res.locals.paymentRequired = {
+      amount: '5.000000',
+      description: 'test',
+      plateNumber: 'X',
+      sessionId: 's',
+    } satisfies PaymentRequired
+    res.json({})
+
+    expect(res._status).toBe(402)
+    expect(res._body.x402.transferAuthorization).toEqual({ domain, decimals: 6 })
+  })
+
+  it('relays a valid authorization and attaches the confirmed transfer', async () => {
+    const { middleware, relay } = setup()
+    const next = vi.fn()
+    const req = mockReq({ headers: { 'x-payment': await paymentHeader() } as any })
+    const res = mockRes()
+
+    await middleware(req, res, next)
+
+    expect(relay).toHaveBeenCalledWith(
+      expect.objectContaining({
+        authorization: expect.objectContaining({ from: payer.address, value: 5_000000n }),
+      }),
+    )
+    expect(next).toHaveBeenCalled()
+    expect((req as any).paymentVerified).toBe(true)
+    expect((req as any).paymentTxHash).toBe(relayedTx)
+    expect((req as any).paymentTransfer).toMatchObject({ amount: 5_000000n, txHash: relayedTx })
+    expect((req as any).paymentVerificationRail).toBe('evm')
+  })
+
+  it('does not relay an authorization for another receiver or with a bad signature', async () => {
+    const other = setup()
+    const res = mockRes()
+    const otherReceiver = '0x3333333333333333333333333333333333333333'
+    await other.middleware(
+      mockReq({ headers: { 'x-payment': await paymentHeader(otherReceiver) } as any }),
+      res,
+      vi.fn(),
+    )
+    expect(res._status).toBe(400)
+    expect(res._body.details).toMatch(/does not pay the receiver/)
+    expect(other.relay).not.toHaveBeenCalled()
+
+    const badSignature = setup(false)
+    const badRes = mockRes()
+    await badSignature.middleware(
+      mockReq({ headers: { 'x-payment': await paymentHeader() } as any }),
+      badRes,
+      vi.fn(),
+    )
+    expect(badRes._status).toBe(400)
+    expect(badRes._body.error).toBe('Payment verification failed')
+    expect(badSignature.relay).not.toHaveBeenCalled()
+  })
+
+  it('does not relay an authorization below the amount due, or when nothing is due', async () => {
+    const underpaid = setup(true, 5_000001n)
+    const req = mockReq({ headers: { 'x-payment': await paymentHeader() } as any })
+    const res = mockRes()
+    const next = vi.fn()
+    await underpaid.middleware(req, res, next)
+
+    expect(underpaid.amountDue).toHaveBeenCalledWith(req)
+    expect(res._status).toBe(400)
+    expect(res._body.details).toMatch(/below the amount due/)
+    expect(underpaid.relay).not.toHaveBeenCalled()
+    expect(next).not.toHaveBeenCalled()
+
+    const nothingDue = setup(true, null)
+    const nothingDueRes = mockRes()
+    await nothingDue.middleware(
+      mockReq({ headers: { 'x-payment': await paymentHeader() } as any }),
+      nothingDueRes,
+      vi.fn(),
+    )
+    expect(nothingDueRes._status).toBe(400)
+    expect(nothingDueRes._body.details).toMatch(/No payment is due/)
+    expect(nothingDue.relay).not.toHaveBeenCalled()
+  })
+})
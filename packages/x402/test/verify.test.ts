@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { verifyERC20Transfer } from '../src/verify'
+import { verifyAuthorizedTransfer, verifyERC20Transfer } from '../src/verify'
 
 const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
 
@@ -92,3 +92,40 @@ describe('verifyERC20Transfer', () => {
     ).rejects.toThrow('No ERC20 Transfer event found')
   })
 })
+
+describe('verifyAuthorizedTransfer', () => {
+  const from = '0x1111111111111111111111111111111111111111'
+  const to = '0x2222222222222222222222222222222222222222'
+  const txHash = ('0x' + 'cd'.repeat(32)) as `0x${string}`
+
+  function waitingClient(receipt: any) {
+    return { waitForTransactionReceipt: vi.fn().mockResolvedValue(receipt) } as any
+  }
+
+  it('waits for the relayed transfer and returns it with its hash', async () => {
+    const client = waitingClient({
+      status: 'success',
+      logs: [makeTransferLog(from, to, 5_000000n, '0xUSDC')],
+    })
+
+    const result = await verifyAuthorizedTransfer(client, txHash, {
+      token: '0xusdc',
+      from,
+      to,
+      value: 5_000000n,
+    })
+    expect(client.waitForTransactionReceipt).toHaveBeenCalledWith({ hash: txHash })
+    expect(result).toMatchObject({ amount: 5_000000n, confirmed: true, txHash })
+  })
+
+  it('throws when the transfer does not match the authorization', async () => {
+    const client = waitingClient({
+      status: 'success',
+      logs: [makeTransferLog(from, to, 4_000000n, '0xUSDC')],
+    })
+
+    await expect(
+      verifyAuthorizedTransfer(client, txHash, { token: '0xUSDC', from, to, value: 5_000000n }),
+    ).rejects.toThrow('Transfer does not match the authorization')
+  })
+})